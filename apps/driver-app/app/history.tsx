@@ -92,6 +92,12 @@ export default function History() {
                 <Text style={styles.fare}>{isRTL ? '₪' : 'NIS '} {Math.round(item.finalPriceIls ?? item.estimatedPriceIls)}</Text>
               </View>
               <Text muted style={styles.detailText}>{formatDate(item.completedAt ?? item.createdAt)}</Text>
+              <Pressable
+                onPress={() => router.push({ pathname: '/support', params: { tripId: item.id } })}
+                style={styles.reportButton}
+              >
+                <Text style={styles.reportButtonText}>{isRTL ? 'الإبلاغ عن مشكلة' : 'Report a problem'}</Text>
+              </Pressable>
             </Card>
           )}
         />
@@ -144,4 +150,13 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     color: '#16A34A',
   },
+  reportButton: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  reportButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#1D4ED8',
+  },
 });
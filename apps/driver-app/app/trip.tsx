@@ -6,18 +6,22 @@ import { TripStatus } from '@taxi-line/shared';
 import { ActiveTripScreen } from '../src/features/trip';
 import {
   estimateTrip,
+  requestCallBridge,
+  sendTripChatMessage,
   submitPassengerRating,
 } from '../src/services/api';
 import {
   TripChatMessage,
   TripData,
-  sendTripChatMessage,
+  markTripChatReceipts,
+  subscribeToActiveTrips,
   subscribeToTrip,
   subscribeToTripChat,
 } from '../src/services/realtime';
 import { RetryQueue } from '../src/services';
 import { useAuthStore, useDriverStore } from '../src/store';
 import { BackButton } from '../src/ui';
+import { CALL_BRIDGE_TRIP_STATUSES, TripChatQuickReplyId } from '../src/types/shared';
 import { useI18n } from '../src/localization';
 
 function isNetworkError(error: unknown): boolean {
@@ -42,6 +46,8 @@ function statusMessage(status: TripStatus, t: (key: string) => string): string {
       return t('status.cancelled_by_passenger');
     case 'cancelled_by_system':
       return t('status.cancelled_by_system');
+    case 'passenger_no_show':
+      return t('status.passenger_no_show');
     default:
       return t('status.default');
   }
@@ -55,6 +61,7 @@ export default function Trip() {
   const params = useLocalSearchParams<{ tripId: string }>();
 
   const [trip, setTrip] = useState<TripData | null>(null);
+  const [pooledTrips, setPooledTrips] = useState<TripData[]>([]);
   const [chatMessages, setChatMessages] = useState<TripChatMessage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -62,6 +69,7 @@ export default function Trip() {
   const [etaToDropoffMin, setEtaToDropoffMin] = useState<number | null>(null);
   const [etaUpdatedAt, setEtaUpdatedAt] = useState<Date | null>(null);
   const [isSendingChat, setIsSendingChat] = useState(false);
+  const [isCallingPassenger, setIsCallingPassenger] = useState(false);
   const [queuedActions, setQueuedActions] = useState(0);
   const [passengerRatingValue, setPassengerRatingValue] = useState(0);
   const [passengerRatingComment, setPassengerRatingComment] = useState('');
@@ -104,17 +112,36 @@ export default function Trip() {
     return () => unsubscribe();
   }, [tripId, t]);
 
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    const unsubscribe = subscribeToActiveTrips(
+      user.uid,
+      (activeTrips) => setPooledTrips(activeTrips),
+      (activeTripsError) => console.error('Active trips subscription failed:', activeTripsError)
+    );
+
+    return () => unsubscribe();
+  }, [user?.uid]);
+
   useEffect(() => {
     if (!tripId) return;
 
     const unsubscribe = subscribeToTripChat(
       tripId,
-      (messages) => setChatMessages(messages),
+      (messages) => {
+        setChatMessages(messages);
+        if (user?.uid) {
+          markTripChatReceipts(tripId, messages, user.uid, 'delivered').catch((receiptError) =>
+            console.warn('Failed to mark chat messages delivered:', receiptError)
+          );
+        }
+      },
       (chatError) => console.error('Trip chat subscription failed:', chatError)
     );
 
     return () => unsubscribe();
-  }, [tripId]);
+  }, [tripId, user?.uid]);
 
   useEffect(() => {
     if (!trip || !currentLocation) {
@@ -167,24 +194,26 @@ export default function Trip() {
     return <Redirect href="/home" />;
   }
 
+  const handleSelectTrip = (nextTripId: string) => {
+    router.replace({ pathname: '/trip', params: { tripId: nextTripId } });
+  };
+
   const handleTripCompleted = () => {
+    // Keep serving the remaining pooled passengers before going home
+    const nextTrip = pooledTrips.find((activeTrip) => activeTrip.id !== tripId);
+    if (nextTrip) {
+      handleSelectTrip(nextTrip.id);
+      return;
+    }
     router.replace('/home');
   };
 
   const handleSendChat = useCallback(
-    async (message: string, quickReply?: boolean) => {
+    async (message: string, quickReplyId?: TripChatQuickReplyId) => {
       if (!tripId || !user?.uid) return;
 
       const sendAction = async () => {
-        const payload = {
-          senderId: user.uid,
-          senderRole: 'driver' as const,
-          text: message,
-          ...(quickReply ? { quickReply: true } : {}),
-        };
-        await sendTripChatMessage(tripId, {
-          ...payload,
-        });
+        await sendTripChatMessage(tripId, quickReplyId ? { quickReplyId } : { text: message });
       };
 
       setIsSendingChat(true);
@@ -210,6 +239,16 @@ export default function Trip() {
     [tripId, user?.uid]
   );
 
+  const handleChatRead = useCallback(
+    (messages: TripChatMessage[]) => {
+      if (!tripId || !user?.uid) return;
+      markTripChatReceipts(tripId, messages, user.uid, 'read').catch((receiptError) =>
+        console.warn('Failed to mark chat messages read:', receiptError)
+      );
+    },
+    [tripId, user?.uid]
+  );
+
   const handleRetryQueue = useCallback(async () => {
     await retryQueueRef.current.drain();
   }, []);
@@ -266,6 +305,22 @@ export default function Trip() {
     submittingPassengerRating,
   ]);
 
+  const handleCallPassenger = useCallback(async () => {
+    if (!tripId) return;
+    setIsCallingPassenger(true);
+    try {
+      const { proxyNumber } = await requestCallBridge(tripId);
+      await Linking.openURL(`tel:${proxyNumber}`);
+    } catch (callError) {
+      Alert.alert(
+        t('common.action_failed'),
+        callError instanceof Error ? callError.message : t('trip.call_failed')
+      );
+    } finally {
+      setIsCallingPassenger(false);
+    }
+  }, [tripId, t]);
+
   if (loading) {
     return (
       <ScreenContainer padded={false} edges={[]}>
@@ -296,13 +351,24 @@ export default function Trip() {
         tripId={tripId}
         status={trip.status as TripStatus}
         estimatedPriceIls={trip.estimatedPriceIls}
+        fareAmount={trip.fareAmount}
+        fareBreakdown={trip.fareBreakdown}
+        paymentStatus={trip.paymentStatus}
+        fareShortfallIls={trip.fareShortfallIls ?? null}
         pickup={trip.pickup}
         dropoff={trip.dropoff}
         etaToPickupMin={etaToPickupMin}
         etaToDropoffMin={etaToDropoffMin}
         etaUpdatedAt={etaUpdatedAt}
+        arrivedAt={trip.arrivedAt ?? null}
+        waitTimePolicy={trip.waitTimePolicy ?? null}
+        noShowWaitSeconds={trip.noShowWaitSeconds ?? null}
         chatMessages={chatMessages}
         onSendChat={handleSendChat}
+        onChatRead={handleChatRead}
+        {...(CALL_BRIDGE_TRIP_STATUSES.includes(trip.status as TripStatus)
+          ? { onCallPassenger: handleCallPassenger, callingPassenger: isCallingPassenger }
+          : {})}
         chatSending={isSendingChat}
         retryQueueCount={queuedActions}
         onRetryQueue={handleRetryQueue}
@@ -318,6 +384,8 @@ export default function Trip() {
         onPassengerRatingCommentChange={setPassengerRatingComment}
         onPassengerLowRatingReasonSelect={setPassengerLowRatingReason}
         onSubmitPassengerRating={handleSubmitPassengerRating}
+        pooledTrips={pooledTrips}
+        onSelectTrip={handleSelectTrip}
         onTripCompleted={handleTripCompleted}
       />
     </ScreenContainer>
@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Dimensions,
   Pressable,
   StyleSheet,
@@ -19,6 +20,7 @@ import Mapbox, {
   ShapeSource,
 } from '@rnmapbox/maps';
 import { RoadblockData, getRoadblockStatusDisplay, subscribeToAllRoadblocks } from '../../services/realtime';
+import { reportRoadblock } from '../../services/api';
 import {
   CAMERA_DEFAULTS,
   DEFAULT_REGION,
@@ -90,6 +92,8 @@ export function DriverMapView({
   const [notice, setNotice] = useState<string | null>(null);
   const [styleStage, setStyleStage] = useState<MapStyleStage>(INITIAL_STYLE_STAGE);
   const [styleLoaded, setStyleLoaded] = useState(false);
+  const [reportPickerOpen, setReportPickerOpen] = useState(false);
+  const [reporting, setReporting] = useState(false);
   const activeStyleURL =
     styleStage === 'primary'
       ? STREET_STYLE_URL
@@ -377,6 +381,37 @@ export function DriverMapView({
     });
   };
 
+  const submitRoadblockReport = async (status: 'closed' | 'congested') => {
+    if (!driverLocation || reporting) return;
+    setReportPickerOpen(false);
+    setReporting(true);
+    try {
+      const result = await reportRoadblock({
+        lat: driverLocation.latitude,
+        lng: driverLocation.longitude,
+        status,
+      });
+      Alert.alert(
+        isRTL ? 'شكرًا للإبلاغ' : 'Thanks for reporting',
+        result.created
+          ? isRTL
+            ? 'تم إرسال البلاغ للمراجعة.'
+            : 'Your report was sent for review.'
+          : isRTL
+            ? `تم تأكيد بلاغ قريب (${result.reportCount} سائق).`
+            : `You confirmed a nearby report (${result.reportCount} drivers).`
+      );
+    } catch (err) {
+      console.error(`${MAP_LOG_PREFIX} Roadblock report failed:`, err);
+      Alert.alert(
+        isRTL ? 'خطأ' : 'Error',
+        err instanceof Error ? err.message : isRTL ? 'تعذر إرسال البلاغ.' : 'Could not send the report.'
+      );
+    } finally {
+      setReporting(false);
+    }
+  };
+
   const topOverlayOffset = Math.max(insets.top + 8, 16);
   const minBottomWithInset = (isNarrow ? 232 : 218) + insets.bottom;
   const resolvedWindowHeight = height > 0 ? height : Dimensions.get('window').height;
@@ -524,6 +559,35 @@ export function DriverMapView({
           <Pressable style={styles.controlButton} onPress={recenter}>
             <Text style={styles.controlButtonText}>{isRTL ? 'توسيط' : 'Center'}</Text>
           </Pressable>
+          {reportPickerOpen ? (
+            <>
+              <Pressable
+                style={[styles.controlButton, styles.reportClosedButton]}
+                onPress={() => submitRoadblockReport('closed')}
+              >
+                <Text style={styles.reportOptionText}>{isRTL ? 'مغلق' : 'Closed'}</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.controlButton, styles.reportCongestedButton]}
+                onPress={() => submitRoadblockReport('congested')}
+              >
+                <Text style={styles.reportOptionText}>{isRTL ? 'مزدحم' : 'Congested'}</Text>
+              </Pressable>
+            </>
+          ) : null}
+          <Pressable
+            style={[styles.controlButton, (!driverLocation || reporting) && styles.controlButtonDisabled]}
+            onPress={() => setReportPickerOpen((open) => !open)}
+            disabled={!driverLocation || reporting}
+          >
+            {reporting ? (
+              <ActivityIndicator size="small" color="#0F172A" />
+            ) : (
+              <Text style={styles.controlButtonText}>
+                {reportPickerOpen ? (isRTL ? 'إلغاء' : 'Cancel') : isRTL ? 'إبلاغ' : 'Report'}
+              </Text>
+            )}
+          </Pressable>
         </View>
       ) : null}
 
@@ -668,6 +732,22 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '700',
   },
+  controlButtonDisabled: {
+    opacity: 0.55,
+  },
+  reportClosedButton: {
+    backgroundColor: MARKER_COLORS.roadblock.closed,
+    borderColor: MARKER_COLORS.roadblock.closed,
+  },
+  reportCongestedButton: {
+    backgroundColor: MARKER_COLORS.roadblock.congested,
+    borderColor: MARKER_COLORS.roadblock.congested,
+  },
+  reportOptionText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '700',
+  },
   errorBanner: {
     position: 'absolute',
     left: 14,
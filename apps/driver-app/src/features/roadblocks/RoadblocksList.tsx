@@ -13,7 +13,13 @@ import {
   waselnehShadows,
   waselnehSpacing,
 } from '@waselneh/ui';
-import { RoadblockData, getRoadblockStatusDisplay, subscribeToAllRoadblocks } from '../../services/realtime';
+import {
+  RoadblockData,
+  RoadblockTimeState,
+  getRoadblockStatusDisplay,
+  getRoadblockTimeState,
+  subscribeToAllRoadblocks,
+} from '../../services/realtime';
 import { useI18n } from '../../localization';
 
 /**
@@ -25,6 +31,13 @@ export function RoadblocksList() {
   const [roadblocks, setRoadblocks] = useState<RoadblockData[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nowMs, setNowMs] = useState(() => Date.now());
+
+  // Re-evaluate scheduled / expiring-soon badges as time passes
+  useEffect(() => {
+    const interval = setInterval(() => setNowMs(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
 
   useEffect(() => {
     const unsubscribe = subscribeToAllRoadblocks(
@@ -48,8 +61,22 @@ export function RoadblocksList() {
     [roadblocks],
   );
 
+  const formatTimeState = (timeState: RoadblockTimeState): string => {
+    if (timeState.state === 'expiring_soon') {
+      const minutes = Math.max(1, Math.ceil((timeState.at.getTime() - nowMs) / 60000));
+      return isRTL ? `يُفتح خلال ${minutes} د` : `Opens in ${minutes} min`;
+    }
+    const time = timeState.at.toLocaleString(isRTL ? 'ar' : 'en-GB', {
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    return isRTL ? `مجدول · ${time}` : `Scheduled · ${time}`;
+  };
+
   const renderRoadblock = ({ item }: { item: RoadblockData }) => {
     const statusDisplay = getRoadblockStatusDisplay(item.status);
+    const timeState = getRoadblockTimeState(item, nowMs);
     const tone =
       item.status === 'open'
         ? 'success'
@@ -70,6 +97,14 @@ export function RoadblocksList() {
           <StatusChip label={statusDisplay.label} tone={tone} />
         </View>
 
+        {timeState ? (
+          <StatusChip
+            label={formatTimeState(timeState)}
+            tone={timeState.state === 'scheduled' ? 'info' : 'warning'}
+            style={styles.timeChip}
+          />
+        ) : null}
+
         <View style={styles.metaRow}>
           <UIText muted style={styles.metaLabel}>{isRTL ? 'الموقع' : 'Location'}</UIText>
           <UIText style={styles.metaValue}>
@@ -134,6 +169,9 @@ const styles = StyleSheet.create({
     ...waselnehShadows.sm,
     gap: waselnehSpacing.sm,
   },
+  timeChip: {
+    alignSelf: 'flex-start',
+  },
   cardHeader: {
     flexDirection: 'row',
     alignItems: 'flex-start',
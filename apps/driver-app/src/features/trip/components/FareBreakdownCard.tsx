@@ -0,0 +1,102 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { FareBreakdown, FareBreakdownLine, getFareBreakdownLines } from '../../../types/shared';
+import { useI18n } from '../../../localization';
+
+interface FareBreakdownCardProps {
+  breakdown: FareBreakdown;
+}
+
+function lineLabel(line: FareBreakdownLine, breakdown: FareBreakdown, isRTL: boolean): string {
+  switch (line.key) {
+    case 'distance':
+      return `${isRTL ? 'أجرة المسافة' : 'Distance fare'} (${breakdown.roundedDistanceKm} km × ₪${breakdown.baseRatePerKm})`;
+    case 'time':
+      return `${isRTL ? 'أجرة الوقت' : 'Time fare'} (${breakdown.durationMin} min)`;
+    case 'seats':
+      return isRTL ? 'مقاعد إضافية' : 'Extra seats';
+    case 'zone_surcharge':
+      return isRTL ? 'رسوم المنطقة' : 'Zone surcharge';
+    case 'vehicle':
+      return isRTL ? 'نوع المركبة' : 'Vehicle type';
+    case 'peak':
+      return isRTL ? 'وقت الذروة' : 'Peak hours';
+    case 'office':
+      return isRTL ? 'تسعيرة المكتب' : 'Office rate';
+    case 'line':
+      return isRTL ? 'تسعيرة الخط' : 'Line rate';
+    case 'zone':
+      return isRTL ? 'مضاعف المنطقة' : 'Zone multiplier';
+    case 'minimum_fare':
+      return isRTL ? 'الحد الأدنى للأجرة' : 'Minimum fare';
+    case 'discount':
+      return `${isRTL ? 'خصم' : 'Discount'}${breakdown.promoCode ? ` (${breakdown.promoCode})` : ''}`;
+    case 'fare_cap':
+      return isRTL ? 'سقف فرق الأجرة' : 'Fare cap';
+    case 'wait_charge':
+      return isRTL ? 'رسوم الانتظار' : 'Wait charge';
+    default:
+      return line.key;
+  }
+}
+
+function lineValue(line: FareBreakdownLine): string {
+  if (line.kind === 'multiplier') return `×${line.value}`;
+  return line.value < 0 ? `-₪${Math.abs(line.value)}` : `₪${line.value}`;
+}
+
+/**
+ * How the fare of the selected trip was reached, so the driver can answer
+ * "why is it this price" at dropoff.
+ */
+export function FareBreakdownCard({ breakdown }: FareBreakdownCardProps) {
+  const { isRTL } = useI18n();
+  const lines = getFareBreakdownLines(breakdown);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{isRTL ? 'تفاصيل الأجرة' : 'Fare breakdown'}</Text>
+      {lines.map((line) => (
+        <View key={line.key} style={styles.row}>
+          <Text style={styles.label}>{lineLabel(line, breakdown, isRTL)}</Text>
+          <Text style={[styles.value, line.value < 0 && styles.discount]}>{lineValue(line)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 4,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#0F172A',
+    marginBottom: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  value: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#0F172A',
+  },
+  discount: {
+    color: '#16A34A',
+  },
+});
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Button } from '../../../ui';
+import { useI18n } from '../../../localization';
+import { WaitTimePolicy, computeWaitChargeIls } from '../../../types/shared';
+
+interface PickupWaitCardProps {
+  arrivedAt: Date;
+  /** Wait charge rules copied onto the trip at driverArrived */
+  waitTimePolicy?: WaitTimePolicy | null;
+  /** Seconds after arrivedAt when the passenger can be marked a no-show */
+  noShowWaitSeconds?: number | null;
+  onMarkNoShow?: () => void;
+  markingNoShow?: boolean;
+}
+
+function formatDuration(totalSeconds: number): string {
+  const safeSeconds = Math.max(0, Math.floor(totalSeconds));
+  const minutes = Math.floor(safeSeconds / 60);
+  const seconds = safeSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function PickupWaitCard({
+  arrivedAt,
+  waitTimePolicy = null,
+  noShowWaitSeconds = null,
+  onMarkNoShow,
+  markingNoShow = false,
+}: PickupWaitCardProps) {
+  const { isRTL } = useI18n();
+  const [nowMs, setNowMs] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const waitedSeconds = Math.max(0, (nowMs - arrivedAt.getTime()) / 1000);
+  const freeSecondsLeft = waitTimePolicy ? waitTimePolicy.freeWaitSeconds - waitedSeconds : 0;
+  const waitChargeIls = waitTimePolicy ? computeWaitChargeIls(waitTimePolicy, waitedSeconds) : 0;
+  const noShowSecondsLeft = noShowWaitSeconds != null ? noShowWaitSeconds - waitedSeconds : null;
+  const canMarkNoShow = noShowSecondsLeft != null && noShowSecondsLeft <= 0;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{isRTL ? 'وقت الانتظار' : 'Pickup wait'}</Text>
+      <View style={styles.row}>
+        <Text style={styles.label}>{isRTL ? 'مدة الانتظار' : 'Waiting for'}</Text>
+        <Text style={styles.timer}>{formatDuration(waitedSeconds)}</Text>
+      </View>
+      {waitTimePolicy ? (
+        <View style={styles.row}>
+          <Text style={styles.label}>
+            {freeSecondsLeft > 0
+              ? isRTL
+                ? `انتظار مجاني متبقٍ ${formatDuration(freeSecondsLeft)}`
+                : `Free wait left ${formatDuration(freeSecondsLeft)}`
+              : isRTL
+                ? `رسوم الانتظار (₪${waitTimePolicy.perMinuteIls}/دقيقة)`
+                : `Wait charge (NIS ${waitTimePolicy.perMinuteIls}/min)`}
+          </Text>
+          <Text style={[styles.value, waitChargeIls > 0 && styles.charge]}>
+            {isRTL ? '₪' : 'NIS '} {waitChargeIls}
+          </Text>
+        </View>
+      ) : null}
+
+      {onMarkNoShow && noShowSecondsLeft != null ? (
+        <Button
+          title={
+            markingNoShow
+              ? isRTL
+                ? 'جاري الإغلاق...'
+                : 'Closing trip...'
+              : canMarkNoShow
+                ? isRTL
+                  ? 'الراكب لم يحضر'
+                  : 'Passenger no-show'
+                : isRTL
+                  ? `عدم الحضور متاح بعد ${formatDuration(noShowSecondsLeft)}`
+                  : `No-show available in ${formatDuration(noShowSecondsLeft)}`
+          }
+          variant="outline"
+          onPress={onMarkNoShow}
+          loading={markingNoShow}
+          disabled={!canMarkNoShow || markingNoShow}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#DDD6FE',
+    backgroundColor: '#F5F3FF',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 6,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#0F172A',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 12,
+    color: '#64748B',
+    fontWeight: '600',
+  },
+  timer: {
+    fontSize: 20,
+    color: '#5B21B6',
+    fontWeight: '800',
+    fontVariant: ['tabular-nums'],
+  },
+  value: {
+    fontSize: 13,
+    color: '#0F172A',
+    fontWeight: '700',
+  },
+  charge: {
+    color: '#B45309',
+  },
+});
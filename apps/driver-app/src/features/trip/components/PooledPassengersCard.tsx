@@ -0,0 +1,148 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { TripData } from '../../../services/realtime';
+import { useI18n } from '../../../localization';
+
+interface PooledPassengersCardProps {
+  trips: TripData[];
+  selectedTripId: string;
+  onSelectTrip: (tripId: string) => void;
+}
+
+function formatPoint(point?: { lat: number; lng: number }): string {
+  if (!point) return '--';
+  return `${point.lat.toFixed(4)}, ${point.lng.toFixed(4)}`;
+}
+
+function statusLabel(status: string, isRTL: boolean): string {
+  switch (status) {
+    case 'accepted':
+      return isRTL ? 'بانتظار الالتقاط' : 'To pick up';
+    case 'driver_arrived':
+      return isRTL ? 'عند الالتقاط' : 'At pickup';
+    case 'in_progress':
+      return isRTL ? 'على متن السيارة' : 'On board';
+    default:
+      return status;
+  }
+}
+
+/**
+ * Passengers sharing a line taxi. Each row shows that passenger's own
+ * pickup, dropoff, seats and fare; tapping it switches the screen to that trip.
+ */
+export function PooledPassengersCard({ trips, selectedTripId, onSelectTrip }: PooledPassengersCardProps) {
+  const { isRTL } = useI18n();
+
+  if (trips.length < 2) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        {isRTL ? `الركاب (${trips.length})` : `Passengers (${trips.length})`}
+      </Text>
+
+      {trips.map((trip, index) => {
+        const isSelected = trip.id === selectedTripId;
+        const seats = trip.reservedSeats ?? trip.requestedSeats ?? 1;
+        const fare = Number.isFinite(trip.fareAmount ?? NaN) ? trip.fareAmount : trip.estimatedPriceIls;
+        const isPaid = trip.paymentStatus === 'paid';
+
+        return (
+          <TouchableOpacity
+            key={trip.id}
+            style={[styles.row, isSelected && styles.rowSelected]}
+            onPress={() => onSelectTrip(trip.id)}
+            disabled={isSelected}
+          >
+            <View style={styles.rowHeader}>
+              <Text style={styles.passengerLabel}>
+                {isRTL ? `راكب ${index + 1}` : `Passenger ${index + 1}`} · {statusLabel(trip.status, isRTL)}
+              </Text>
+              <Text style={styles.seats}>
+                {isRTL ? `${seats} مقعد` : `${seats} seat${seats === 1 ? '' : 's'}`}
+              </Text>
+            </View>
+            <Text style={styles.point}>
+              {isRTL ? 'الالتقاط' : 'Pickup'}: {formatPoint(trip.pickup)}
+            </Text>
+            <Text style={styles.point}>
+              {isRTL ? 'الوصول' : 'Dropoff'}: {formatPoint(trip.dropoff)}
+            </Text>
+            <View style={styles.rowHeader}>
+              <Text style={styles.fare}>{isRTL ? '₪' : 'NIS '} {fare ?? 0}</Text>
+              <Text style={[styles.payment, isPaid ? styles.paymentPaid : styles.paymentPending]}>
+                {isPaid ? (isRTL ? 'مدفوع' : 'Paid') : isRTL ? 'نقدًا عند الوصول' : 'Cash on dropoff'}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#0F172A',
+  },
+  row: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    gap: 3,
+  },
+  rowSelected: {
+    borderColor: '#2563EB',
+    backgroundColor: '#EFF6FF',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  passengerLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#0F172A',
+  },
+  seats: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  point: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  fare: {
+    fontSize: 14,
+    fontWeight: '800',
+    color: '#16A34A',
+  },
+  payment: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  paymentPaid: {
+    color: '#166534',
+  },
+  paymentPending: {
+    color: '#92400E',
+  },
+});
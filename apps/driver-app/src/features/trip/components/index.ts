@@ -3,3 +3,6 @@ export * from './LiveEtaCard';
 export * from './TripChatPanel';
 export * from './SafetyToolsCard';
 export * from './PassengerRatingCard';
+export * from './PooledPassengersCard';
+export * from './FareBreakdownCard';
+export * from './PickupWaitCard';
@@ -4,32 +4,46 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { TripStatus } from '@taxi-line/shared';
 import { BottomSheetCard, StatusChip } from '@waselneh/ui';
 import { Button } from '../../../ui';
-import { completeTrip, driverArrived, startTrip } from '../../../services/api';
+import { completeTrip, driverArrived, driverMarkPassengerNoShow, startTrip } from '../../../services/api';
 import { DriverMapView } from '../../map';
 import { useDriverStore } from '../../../store';
-import { TripChatMessage } from '../../../services/realtime';
+import { TripChatMessage, TripData } from '../../../services/realtime';
 import {
+  FareBreakdownCard,
   LiveEtaCard,
   PassengerRatingCard,
+  PickupWaitCard,
+  PooledPassengersCard,
   SafetyToolsCard,
   TripChatPanel,
   TripTimeline,
 } from '../components';
 import { useI18n } from '../../../localization';
+import { FareBreakdown, TripChatQuickReplyId, WaitTimePolicy } from '../../../types/shared';
 
 interface ActiveTripScreenProps {
   tripId: string;
   status: TripStatus;
   estimatedPriceIls?: number;
-  fareAmount?: number;
-  paymentStatus?: 'pending' | 'paid';
+  fareAmount?: number | undefined;
+  paymentStatus?: 'pending' | 'paid' | undefined;
+  /** Part of a card fare above the hold; collected instead of the full fare */
+  fareShortfallIls?: number | null | undefined;
+  fareBreakdown?: FareBreakdown | null | undefined;
   pickup?: { lat: number; lng: number };
   dropoff?: { lat: number; lng: number };
   etaToPickupMin?: number | null;
   etaToDropoffMin?: number | null;
   etaUpdatedAt?: Date | null;
+  /** Start of the pickup wait timer */
+  arrivedAt?: Date | null;
+  waitTimePolicy?: WaitTimePolicy | null;
+  noShowWaitSeconds?: number | null;
   chatMessages?: TripChatMessage[];
-  onSendChat?: (message: string, quickReply?: boolean) => void;
+  onSendChat?: (message: string, quickReplyId?: TripChatQuickReplyId) => void;
+  onChatRead?: (messages: TripChatMessage[]) => void;
+  onCallPassenger?: () => void;
+  callingPassenger?: boolean;
   chatSending?: boolean;
   retryQueueCount?: number;
   onRetryQueue?: () => void;
@@ -45,6 +59,9 @@ interface ActiveTripScreenProps {
   onPassengerRatingCommentChange?: (comment: string) => void;
   onPassengerLowRatingReasonSelect?: (reason: string) => void;
   onSubmitPassengerRating?: () => void;
+  /** Every active trip of the driver when seat-only rides are pooled */
+  pooledTrips?: TripData[];
+  onSelectTrip?: (tripId: string) => void;
   onTripCompleted: () => void;
 }
 
@@ -80,6 +97,15 @@ function getStatusMeta(
         tone: 'info',
         action: isRTL ? 'إنهاء الرحلة' : 'Complete Trip',
       };
+    case 'passenger_no_show':
+      return {
+        title: isRTL ? 'الراكب لم يحضر' : 'Passenger no-show',
+        description: isRTL
+          ? 'تم إغلاق الرحلة بعد انتظارك عند نقطة الالتقاط.'
+          : 'The trip was closed after you waited at pickup.',
+        tone: 'warning',
+        action: null,
+      };
     case 'completed':
       return {
         title: isRTL ? 'اكتملت الرحلة' : 'Trip completed',
@@ -104,14 +130,22 @@ export function ActiveTripScreen({
   status,
   estimatedPriceIls,
   fareAmount,
+  fareBreakdown,
   paymentStatus = 'pending',
+  fareShortfallIls = null,
   pickup,
   dropoff,
   etaToPickupMin = null,
   etaToDropoffMin = null,
   etaUpdatedAt = null,
+  arrivedAt = null,
+  waitTimePolicy = null,
+  noShowWaitSeconds = null,
   chatMessages = [],
   onSendChat,
+  onChatRead,
+  onCallPassenger,
+  callingPassenger = false,
   chatSending = false,
   retryQueueCount = 0,
   onRetryQueue,
@@ -127,6 +161,8 @@ export function ActiveTripScreen({
   onPassengerRatingCommentChange,
   onPassengerLowRatingReasonSelect,
   onSubmitPassengerRating,
+  pooledTrips = [],
+  onSelectTrip,
   onTripCompleted,
 }: ActiveTripScreenProps) {
   const { isRTL } = useI18n();
@@ -135,6 +171,7 @@ export function ActiveTripScreen({
   const isNarrow = width < 400;
   const { currentLocation } = useDriverStore();
   const [isUpdating, setIsUpdating] = React.useState(false);
+  const [isMarkingNoShow, setIsMarkingNoShow] = React.useState(false);
 
   const statusMeta = getStatusMeta(status, isRTL);
   const cardWidth = width >= 768 ? 560 : width;
@@ -142,6 +179,7 @@ export function ActiveTripScreen({
   const mapHeightRatio = isNarrow ? 0.6 : 0.64;
   const safeEstimatedFare = Number.isFinite(estimatedPriceIls ?? NaN) ? estimatedPriceIls : 0;
   const safeFareAmount = Number.isFinite(fareAmount ?? NaN) ? fareAmount : safeEstimatedFare;
+  const cashToCollect = fareShortfallIls != null && fareShortfallIls > 0 ? fareShortfallIls : safeFareAmount;
   const hasAction =
     statusMeta.action != null &&
     (status === 'accepted' || status === 'driver_arrived' || status === 'in_progress');
@@ -178,6 +216,45 @@ export function ActiveTripScreen({
     }
   }, [isRTL, onTripCompleted, status, tripId]);
 
+  const handleMarkNoShow = useCallback(() => {
+    Alert.alert(
+      isRTL ? 'الراكب لم يحضر؟' : 'Passenger did not show up?',
+      isRTL
+        ? 'سيتم إغلاق الرحلة وقد تُطبق رسوم عدم الحضور على الراكب.'
+        : 'The trip will be closed and the passenger may be charged a no-show fee.',
+      [
+        { text: isRTL ? 'متابعة الانتظار' : 'Keep waiting', style: 'cancel' },
+        {
+          text: isRTL ? 'إغلاق الرحلة' : 'Close trip',
+          style: 'destructive',
+          onPress: () => {
+            setIsMarkingNoShow(true);
+            driverMarkPassengerNoShow(tripId)
+              .then((result) => {
+                Alert.alert(
+                  isRTL ? 'تم إغلاق الرحلة' : 'Trip closed',
+                  result.noShowFeeIls > 0
+                    ? isRTL
+                      ? `تم تسجيل عدم حضور الراكب. رسوم عدم الحضور: ₪${result.noShowFeeIls}`
+                      : `Passenger no-show recorded. No-show fee: NIS ${result.noShowFeeIls}`
+                    : isRTL
+                      ? 'تم تسجيل عدم حضور الراكب.'
+                      : 'Passenger no-show recorded.',
+                  [{ text: isRTL ? 'حسنًا' : 'OK', onPress: onTripCompleted }],
+                );
+              })
+              .catch((error: unknown) => {
+                const message =
+                  error instanceof Error ? error.message : isRTL ? 'تعذر إغلاق الرحلة' : 'Failed to close trip';
+                Alert.alert(isRTL ? 'خطأ' : 'Error', message);
+              })
+              .finally(() => setIsMarkingNoShow(false));
+          },
+        },
+      ],
+    );
+  }, [isRTL, onTripCompleted, tripId]);
+
   const driverLocation = currentLocation
     ? { latitude: currentLocation.lat, longitude: currentLocation.lng }
     : null;
@@ -240,6 +317,24 @@ export function ActiveTripScreen({
 
             <TripTimeline status={status} />
 
+            {status === 'driver_arrived' && arrivedAt ? (
+              <PickupWaitCard
+                arrivedAt={arrivedAt}
+                waitTimePolicy={waitTimePolicy}
+                noShowWaitSeconds={noShowWaitSeconds}
+                onMarkNoShow={handleMarkNoShow}
+                markingNoShow={isMarkingNoShow}
+              />
+            ) : null}
+
+            {onSelectTrip ? (
+              <PooledPassengersCard
+                trips={pooledTrips}
+                selectedTripId={tripId}
+                onSelectTrip={onSelectTrip}
+              />
+            ) : null}
+
             {estimatedPriceIls != null ? (
               <View style={styles.metaRow}>
                 <Text style={styles.fareLabel}>{isRTL ? 'الأجرة' : 'Fare'}</Text>
@@ -247,6 +342,8 @@ export function ActiveTripScreen({
               </View>
             ) : null}
 
+            {fareBreakdown ? <FareBreakdownCard breakdown={fareBreakdown} /> : null}
+
             {pickup ? (
               <Text style={styles.metaHint}>
                 {isRTL ? 'الالتقاط' : 'Pickup'}: {pickup.lat.toFixed(4)}, {pickup.lng.toFixed(4)}
@@ -271,11 +368,30 @@ export function ActiveTripScreen({
               </View>
             ) : null}
 
+            {onCallPassenger ? (
+              <Button
+                title={
+                  callingPassenger
+                    ? isRTL
+                      ? 'جاري الاتصال...'
+                      : 'Connecting...'
+                    : isRTL
+                      ? 'اتصال بالراكب'
+                      : 'Call passenger'
+                }
+                variant="outline"
+                onPress={onCallPassenger}
+                loading={callingPassenger}
+                disabled={callingPassenger}
+              />
+            ) : null}
+
             {onSendChat ? (
               <TripChatPanel
                 messages={chatMessages}
                 myRole="driver"
                 onSend={onSendChat}
+                {...(onChatRead ? { onRead: onChatRead } : {})}
                 sending={chatSending}
               />
             ) : null}
@@ -317,7 +433,7 @@ export function ActiveTripScreen({
                 <Text style={styles.paymentTitle}>
                   {isRTL ? 'استلم النقد من الراكب' : 'Collect cash from passenger'}
                 </Text>
-                <Text style={styles.paymentAmount}>{isRTL ? '₪' : 'NIS '} {safeFareAmount}</Text>
+                <Text style={styles.paymentAmount}>{isRTL ? '₪' : 'NIS '} {cashToCollect}</Text>
               </View>
             ) : null}
           </ScrollView>
@@ -22,11 +22,13 @@ export const DRIVER_TRANSLATIONS: Record<AppLocale, Record<string, string>> = {
     'status.completed': 'Trip completed. Collect payment and rate passenger.',
     'status.cancelled_by_passenger': 'Passenger cancelled the trip.',
     'status.cancelled_by_system': 'Trip cancelled by system.',
+    'status.passenger_no_show': 'Trip closed as a passenger no-show.',
     'status.default': 'Trip status updated.',
 
     'trip.chat_queued': 'Message queued and will retry automatically.',
     'trip.chat_failed': 'Unable to send message',
     'trip.emergency_call_failed': 'Could not open emergency dialer.',
+    'trip.call_failed': 'Could not connect the call.',
     'trip.dispatch_call_failed': 'Could not call dispatch.',
     'trip.rating_submitted': 'Rating submitted',
     'trip.rating_submitted_message': 'Passenger feedback recorded.',
@@ -70,11 +72,13 @@ export const DRIVER_TRANSLATIONS: Record<AppLocale, Record<string, string>> = {
     'status.completed': 'اكتملت الرحلة. استلم الدفع وقيّم الراكب.',
     'status.cancelled_by_passenger': 'الراكب ألغى الرحلة.',
     'status.cancelled_by_system': 'تم إلغاء الرحلة من النظام.',
+    'status.passenger_no_show': 'تم إغلاق الرحلة لعدم حضور الراكب.',
     'status.default': 'تم تحديث حالة الرحلة.',
 
     'trip.chat_queued': 'تمت إضافة الرسالة للطابور وسيعاد إرسالها تلقائياً.',
     'trip.chat_failed': 'تعذر إرسال الرسالة',
     'trip.emergency_call_failed': 'تعذر فتح اتصال الطوارئ.',
+    'trip.call_failed': 'تعذر إجراء الاتصال.',
     'trip.dispatch_call_failed': 'تعذر الاتصال بالمشرف.',
     'trip.rating_submitted': 'تم إرسال التقييم',
     'trip.rating_submitted_message': 'تم حفظ تقييم الراكب.',
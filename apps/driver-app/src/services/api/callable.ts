@@ -1,5 +1,11 @@
 import { firebaseFunctions } from '../firebase';
-import { LatLng } from '../../types/shared';
+import {
+  LatLng,
+  SupportTicketStatus,
+  TripChatModerationFlag,
+  TripChatQuickReplyId,
+  TripChatRole,
+} from '../../types/shared';
 
 // Dev mode configuration - matches app/index.tsx
 const DEV_MODE = process.env.EXPO_PUBLIC_DEV_AUTH_BYPASS === 'true';
@@ -109,6 +115,26 @@ export async function startTrip(tripId: string): Promise<LifecycleResponse> {
   );
 }
 
+/**
+ * Passenger no-show response type
+ */
+export interface MarkPassengerNoShowResponse {
+  tripId: string;
+  status: string;
+  noShowFeeIls: number;
+}
+
+/**
+ * Close the trip after the passenger did not show up at pickup
+ * Valid transition: driver_arrived → passenger_no_show (after the no-show wait)
+ */
+export async function driverMarkPassengerNoShow(tripId: string): Promise<MarkPassengerNoShowResponse> {
+  return callFunction<{ tripId: string }, MarkPassengerNoShowResponse>(
+    'driverMarkPassengerNoShow',
+    { tripId }
+  );
+}
+
 /**
  * Complete trip response type
  */
@@ -204,6 +230,60 @@ export async function createSupportTicket(
   );
 }
 
+export interface ReplySupportTicketResponse {
+  success: boolean;
+  ticketId: string;
+  status: SupportTicketStatus;
+}
+
+/**
+ * Reply on one of the user's own tickets; reopens it if support was waiting
+ */
+export async function replySupportTicket(
+  ticketId: string,
+  message: string
+): Promise<ReplySupportTicketResponse> {
+  return callFunction<{ ticketId: string; message: string }, ReplySupportTicketResponse>(
+    'replySupportTicket',
+    { ticketId, message }
+  );
+}
+
+export interface SendTripChatMessageResponse {
+  success: boolean;
+  messageId: string;
+  text: string;
+  moderationFlags: TripChatModerationFlag[];
+}
+
+/**
+ * Send an in-trip chat message; the backend rate limits and masks it
+ */
+export async function sendTripChatMessage(
+  tripId: string,
+  message: { text?: string; quickReplyId?: TripChatQuickReplyId }
+): Promise<SendTripChatMessageResponse> {
+  return callFunction<
+    { tripId: string; text?: string; quickReplyId?: TripChatQuickReplyId },
+    SendTripChatMessageResponse
+  >('sendTripChatMessage', { tripId, ...message });
+}
+
+export interface RequestCallBridgeResponse {
+  success: boolean;
+  sessionId: string;
+  proxyNumber: string;
+  calleeRole: TripChatRole;
+  expiresAt: string;
+}
+
+/**
+ * Masked number for calling the other trip participant; valid while the trip is active
+ */
+export async function requestCallBridge(tripId: string): Promise<RequestCallBridgeResponse> {
+  return callFunction<{ tripId: string }, RequestCallBridgeResponse>('requestCallBridge', { tripId });
+}
+
 export interface DriverEarningsBlock {
   totalEarningsIls: number;
   tripsCount: number;
@@ -226,3 +306,29 @@ export async function getDriverEarningsSummary(
     { lookbackDays }
   );
 }
+
+export interface ReportRoadblockRequest {
+  lat: number;
+  lng: number;
+  status: 'closed' | 'congested';
+  note?: string | undefined;
+}
+
+export interface ReportRoadblockResponse {
+  success: boolean;
+  reportId: string;
+  /** False when the report confirmed one a nearby driver already filed */
+  created: boolean;
+  reportCount: number;
+  confidence: number;
+}
+
+/**
+ * Report a checkpoint or congestion at the driver's location.
+ * Managers review reports before they become roadblocks.
+ */
+export async function reportRoadblock(
+  payload: ReportRoadblockRequest
+): Promise<ReportRoadblockResponse> {
+  return callFunction<ReportRoadblockRequest, ReportRoadblockResponse>('reportRoadblock', payload);
+}
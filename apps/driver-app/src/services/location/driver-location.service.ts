@@ -1,4 +1,5 @@
 import { firebaseDB, geoPoint, serverTimestamp } from '../firebase';
+import { MAX_POOLED_TRIPS_PER_DRIVER, encodeGeohash } from '../../types/shared';
 
 /**
  * ============================================================================
@@ -16,6 +17,7 @@ import { firebaseDB, geoPoint, serverTimestamp } from '../firebase';
  *   lng: number,            // Longitude  
  *   heading: number | null, // Direction in degrees (0-360)
  *   speed: number | null,   // Speed in m/s
+ *   geohash: string,        // Precision-9 cell, used for nearby-driver queries
  *   updatedAt: Timestamp,   // Server timestamp
  *   status: "online"        // Always "online" while document exists
  * }
@@ -58,6 +60,7 @@ export async function updateDriverLocation(
 ): Promise<void> {
   try {
     const now = serverTimestamp();
+    const geohash = encodeGeohash(location.lat, location.lng);
 
     // Update driverLive collection (for live map)
     await firebaseDB.collection('driverLive').doc(driverId).set({
@@ -66,6 +69,7 @@ export async function updateDriverLocation(
       lng: location.lng,
       heading: location.heading ?? null,
       speed: location.speed ?? null,
+      geohash,
       updatedAt: now,
       status: 'online',
     });
@@ -74,6 +78,7 @@ export async function updateDriverLocation(
     await firebaseDB.collection('drivers').doc(driverId).set({
       status: 'online',
       lastLocation: geoPoint(location.lat, location.lng),
+      geohash,
       location: {
         lat: location.lat,
         lng: location.lng,
@@ -126,8 +131,9 @@ export async function removeDriverLocation(driverId: string): Promise<void> {
  * 
  * Fields:
  * - isOnline: boolean - Driver has toggled to online
- * - isAvailable: boolean - Driver can receive new trips (online + not on a trip)
+ * - isAvailable: boolean - Driver can receive new trips (online + seats left, pool not full)
  * - lastLocation: GeoPoint - Last known location
+ * - geohash: string - Cell of lastLocation (dispatch searches by geohash)
  * - updatedAt: Timestamp
  */
 export async function setDriverAvailability(
@@ -153,7 +159,14 @@ export async function setDriverAvailability(
       const fullTaxiReserved = existingData.fullTaxiReserved === true;
       const hasActiveTrip =
         typeof existingData.currentTripId === 'string' && existingData.currentTripId.trim().length > 0;
-      const canReceiveRequests = availableSeats > 0 && !fullTaxiReserved && !hasActiveTrip;
+      // Line taxis with seats left keep receiving pooled seat-only offers
+      const activeTripCount = Array.isArray(existingData.activeTripIds)
+        ? existingData.activeTripIds.length
+        : hasActiveTrip
+          ? 1
+          : 0;
+      const canReceiveRequests =
+        availableSeats > 0 && !fullTaxiReserved && activeTripCount < MAX_POOLED_TRIPS_PER_DRIVER;
 
       const onlinePayload: Record<string, unknown> = {
         driverId,
@@ -170,6 +183,7 @@ export async function setDriverAvailability(
       // Keep prior lastLocation if current location is temporarily unavailable.
       if (currentLocation) {
         onlinePayload.lastLocation = geoPoint(currentLocation.lat, currentLocation.lng);
+        onlinePayload.geohash = encodeGeohash(currentLocation.lat, currentLocation.lng);
       }
 
       await driverRef.set(onlinePayload, { merge: true });
@@ -1,4 +1,5 @@
 import { firebaseDB, serverTimestamp, Unsubscribe } from '../firebase';
+import { TRIP_CHAT_VISIBLE_MESSAGES, TripChatQuickReplyId, isTripChatQuickReplyId } from '../../types/shared';
 
 export interface TripChatMessage {
   id: string;
@@ -7,9 +8,16 @@ export interface TripChatMessage {
   senderRole: 'passenger' | 'driver' | 'system';
   text: string;
   quickReply: boolean;
+  quickReplyId: TripChatQuickReplyId | null;
+  moderated: boolean;
   createdAt: Date | null;
+  deliveredAt: Date | null;
+  readAt: Date | null;
 }
 
+/**
+ * Latest chat messages for the trip, oldest first
+ */
 export function subscribeToTripChat(
   tripId: string,
   onData: (messages: TripChatMessage[]) => void,
@@ -19,12 +27,13 @@ export function subscribeToTripChat(
     .collection('trips')
     .doc(tripId)
     .collection('messages')
-    .orderBy('createdAt', 'asc')
-    .limit(8)
+    .orderBy('createdAt', 'desc')
+    .limit(TRIP_CHAT_VISIBLE_MESSAGES)
     .onSnapshot(
       (snapshot) => {
         const messages = snapshot.docs.map((docSnap) => {
-          const data = docSnap.data();
+          // Estimate pending server timestamps so our own receipts show at once
+          const data = docSnap.data({ serverTimestamps: 'estimate' });
           return {
             id: docSnap.id,
             tripId,
@@ -32,33 +41,47 @@ export function subscribeToTripChat(
             senderRole: (data?.senderRole as TripChatMessage['senderRole']) ?? 'system',
             text: data?.text ?? '',
             quickReply: Boolean(data?.quickReply),
+            quickReplyId: isTripChatQuickReplyId(data?.quickReplyId) ? data.quickReplyId : null,
+            moderated: Boolean(data?.moderated),
             createdAt: data?.createdAt?.toDate?.() ?? null,
+            deliveredAt: data?.deliveredAt?.toDate?.() ?? null,
+            readAt: data?.readAt?.toDate?.() ?? null,
           };
         });
-        onData(messages);
+        onData(messages.reverse());
       },
       onError
     );
 }
 
-export async function sendTripChatMessage(
+/**
+ * Stamp delivered / read receipts on the other participant's messages
+ */
+export async function markTripChatReceipts(
   tripId: string,
-  payload: {
-    senderId: string;
-    senderRole: 'passenger' | 'driver';
-    text: string;
-    quickReply?: boolean;
-  }
+  messages: TripChatMessage[],
+  myUserId: string,
+  receipt: 'delivered' | 'read'
 ): Promise<void> {
-  await firebaseDB
-    .collection('trips')
-    .doc(tripId)
-    .collection('messages')
-    .add({
-      senderId: payload.senderId,
-      senderRole: payload.senderRole,
-      text: payload.text.trim(),
-      quickReply: Boolean(payload.quickReply),
-      createdAt: serverTimestamp(),
-    });
+  const pending = messages.filter(
+    (message) =>
+      message.senderId !== myUserId &&
+      message.senderRole !== 'system' &&
+      (receipt === 'read' ? !message.readAt : !message.deliveredAt)
+  );
+  if (pending.length === 0) {
+    return;
+  }
+
+  const batch = firebaseDB.batch();
+  const messagesRef = firebaseDB.collection('trips').doc(tripId).collection('messages');
+  for (const message of pending) {
+    batch.update(
+      messagesRef.doc(message.id),
+      receipt === 'read'
+        ? { readAt: serverTimestamp(), ...(message.deliveredAt ? {} : { deliveredAt: serverTimestamp() }) }
+        : { deliveredAt: serverTimestamp() }
+    );
+  }
+  await batch.commit();
 }
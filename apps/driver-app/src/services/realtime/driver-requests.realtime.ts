@@ -1,5 +1,6 @@
 import { firebaseDB, type Unsubscribe } from '../firebase';
 import { TripRequest, useTripRequestStore } from '../../store/trip-request.store';
+import { toRouteRoadblocks } from '../../types/shared';
 import { useDriverStore } from '../../store';
 
 /**
@@ -152,6 +153,7 @@ export async function startDriverRequestsListener(driverId: string): Promise<voi
           requestedVehicleType?: string | null;
           driverVehicleType?: string | null;
           driverSeatCapacity?: number;
+          routeRoadblocks?: unknown;
           createdAt?: unknown;
           expiresAt?: unknown;
         };
@@ -227,6 +229,7 @@ export async function startDriverRequestsListener(driverId: string): Promise<voi
           ...(normalizedDriverSeatCapacity !== null
             ? { driverSeatCapacity: normalizedDriverSeatCapacity }
             : {}),
+          routeRoadblocks: toRouteRoadblocks(data.routeRoadblocks),
           pickupDistanceKm,
           status: 'pending',
           createdAt: toDateOrNull(data.createdAt),
@@ -5,3 +5,4 @@ export * from './roadblocks.realtime';
 export * from './chat.realtime';
 export * from './history.realtime';
 export * from './driver-eligibility.realtime';
+export * from './support.realtime';
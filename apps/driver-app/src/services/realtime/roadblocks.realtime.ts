@@ -1,4 +1,5 @@
-import { firebaseDB, Unsubscribe } from '../firebase';
+import { DocumentSnapshot, firebaseDB, Unsubscribe } from '../firebase';
+import { ROADBLOCK_EXPIRING_SOON_MINUTES } from '../../types/shared';
 
 /**
  * Roadblock data from Firestore
@@ -12,9 +13,43 @@ export interface RoadblockData {
   radiusMeters: number;
   status: 'open' | 'closed' | 'congested';
   note?: string;
+  /** Has recurring closure windows */
+  hasSchedule: boolean;
+  expiresAt: Date | null;
+  /** Next automatic status change, kept by the backend */
+  nextTransitionAt: Date | null;
+  nextStatus: 'open' | 'closed' | 'congested' | null;
   updatedAt: Date | null;
 }
 
+/**
+ * Time-based state shown next to the status:
+ * - scheduled: open now, closes automatically at `at`
+ * - expiring_soon: blocked now, opens within ROADBLOCK_EXPIRING_SOON_MINUTES at `at`
+ */
+export interface RoadblockTimeState {
+  state: 'scheduled' | 'expiring_soon';
+  at: Date;
+}
+
+function toRoadblockData(id: string, data: ReturnType<DocumentSnapshot['data']>): RoadblockData {
+  return {
+    id,
+    name: data?.name ?? 'Unnamed',
+    area: data?.area,
+    lat: data?.lat,
+    lng: data?.lng,
+    radiusMeters: data?.radiusMeters ?? 100,
+    status: data?.status ?? 'closed',
+    note: data?.note,
+    hasSchedule: Array.isArray(data?.schedule) && data.schedule.length > 0,
+    expiresAt: data?.expiresAt?.toDate() ?? null,
+    nextTransitionAt: data?.nextTransitionAt?.toDate() ?? null,
+    nextStatus: data?.nextStatus ?? null,
+    updatedAt: data?.updatedAt?.toDate() ?? null,
+  };
+}
+
 /**
  * Subscribe to active roadblocks (closed and congested only)
  */
@@ -27,20 +62,9 @@ export function subscribeToActiveRoadblocks(
     .where('status', 'in', ['closed', 'congested'])
     .onSnapshot(
       (snapshot) => {
-        const roadblocks: RoadblockData[] = snapshot.docs.map((docSnap) => {
-          const data = docSnap.data();
-          return {
-            id: docSnap.id,
-            name: data?.name ?? 'Unnamed',
-            area: data?.area,
-            lat: data?.lat,
-            lng: data?.lng,
-            radiusMeters: data?.radiusMeters ?? 100,
-            status: data?.status ?? 'closed',
-            note: data?.note,
-            updatedAt: data?.updatedAt?.toDate() ?? null,
-          };
-        });
+        const roadblocks: RoadblockData[] = snapshot.docs.map((docSnap) =>
+          toRoadblockData(docSnap.id, docSnap.data())
+        );
         roadblocks.sort(
           (a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0)
         );
@@ -62,26 +86,41 @@ export function subscribeToAllRoadblocks(
     .orderBy('updatedAt', 'desc')
     .onSnapshot(
       (snapshot) => {
-        const roadblocks: RoadblockData[] = snapshot.docs.map((docSnap) => {
-          const data = docSnap.data();
-          return {
-            id: docSnap.id,
-            name: data?.name ?? 'Unnamed',
-            area: data?.area,
-            lat: data?.lat,
-            lng: data?.lng,
-            radiusMeters: data?.radiusMeters ?? 100,
-            status: data?.status ?? 'closed',
-            note: data?.note,
-            updatedAt: data?.updatedAt?.toDate() ?? null,
-          };
-        });
+        const roadblocks: RoadblockData[] = snapshot.docs.map((docSnap) =>
+          toRoadblockData(docSnap.id, docSnap.data())
+        );
         onData(roadblocks);
       },
       onError
     );
 }
 
+/**
+ * Scheduled / expiring-soon state of a roadblock at `nowMs`, or null
+ */
+export function getRoadblockTimeState(
+  roadblock: RoadblockData,
+  nowMs: number = Date.now()
+): RoadblockTimeState | null {
+  const nextAtMs = roadblock.nextTransitionAt?.getTime() ?? null;
+
+  if (roadblock.status === 'open') {
+    if (nextAtMs !== null && nextAtMs > nowMs && roadblock.nextStatus && roadblock.nextStatus !== 'open') {
+      return { state: 'scheduled', at: new Date(nextAtMs) };
+    }
+    return null;
+  }
+
+  // expiresAt is checked directly so a fresh expiry shows before the backend's next run
+  const opensAtMs = [roadblock.nextStatus === 'open' ? nextAtMs : null, roadblock.expiresAt?.getTime() ?? null]
+    .filter((value): value is number => value !== null && value > nowMs)
+    .sort((a, b) => a - b)[0];
+  if (opensAtMs !== undefined && opensAtMs - nowMs <= ROADBLOCK_EXPIRING_SOON_MINUTES * 60 * 1000) {
+    return { state: 'expiring_soon', at: new Date(opensAtMs) };
+  }
+  return null;
+}
+
 /**
  * Calculate distance between two points using Haversine formula
  * Returns distance in meters
@@ -1,4 +1,11 @@
 import { firebaseDB, Unsubscribe } from '../firebase';
+import {
+  FareBreakdown,
+  MAX_POOLED_TRIPS_PER_DRIVER,
+  WaitTimePolicy,
+  toFareBreakdown,
+  toWaitTimePolicy,
+} from '../../types/shared';
 
 /**
  * Trip data from Firestore
@@ -13,6 +20,21 @@ export interface TripData {
   estimatedDurationMin: number;
   estimatedPriceIls: number;
   status: string;
+  bookingType?: 'seat_only' | 'full_taxi';
+  requestedSeats?: number;
+  reservedSeats?: number;
+  fareAmount?: number;
+  paymentStatus?: 'pending' | 'paid';
+  /** Part of a card fare above the hold, left for the driver to collect */
+  fareShortfallIls?: number | null;
+  /** Final breakdown once completed, otherwise the creation-time quote */
+  fareBreakdown?: FareBreakdown | null;
+  /** Wait charge rules copied at driverArrived */
+  waitTimePolicy?: WaitTimePolicy | null;
+  /** Seconds after arrivedAt when the passenger can be marked a no-show */
+  noShowWaitSeconds?: number | null;
+  /** Set when this passenger joined a trip the driver already had */
+  poolAnchorTripId?: string | null;
   createdAt?: Date;
   matchedAt?: Date;
   acceptedAt?: Date;
@@ -297,6 +319,55 @@ export function subscribeToActiveTrip(
     );
 }
 
+/**
+ * Subscribe to every passenger currently on board or waiting for pickup.
+ * A line taxi pooling seat-only rides carries several accepted trips at
+ * once; a regular driver gets a list of one.
+ */
+export function subscribeToActiveTrips(
+  driverId: string,
+  onData: (trips: TripData[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return firebaseDB
+    .collection('trips')
+    .where('driverId', '==', driverId)
+    .where('status', 'in', ['accepted', 'driver_arrived', 'in_progress'])
+    .limit(MAX_POOLED_TRIPS_PER_DRIVER)
+    .onSnapshot(
+      (snapshot) => {
+        const trips: TripData[] = snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            passengerId: data?.passengerId,
+            driverId: data?.driverId,
+            pickup: data?.pickup,
+            dropoff: data?.dropoff,
+            estimatedDistanceKm: data?.estimatedDistanceKm,
+            estimatedDurationMin: data?.estimatedDurationMin,
+            estimatedPriceIls: data?.estimatedPriceIls,
+            status: data?.status,
+            bookingType: data?.bookingType,
+            requestedSeats: data?.requestedSeats,
+            reservedSeats: data?.reservedSeats,
+            fareAmount: data?.fareAmount,
+            fareBreakdown: toFareBreakdown(data?.finalPricingBreakdown ?? data?.pricingBreakdown),
+            paymentStatus: data?.paymentStatus,
+            poolAnchorTripId: data?.poolAnchorTripId ?? null,
+            createdAt: data?.createdAt?.toDate(),
+            acceptedAt: data?.acceptedAt?.toDate(),
+          };
+        });
+
+        // Oldest first: the anchor trip leads, joined passengers follow
+        trips.sort((a, b) => (a.acceptedAt?.getTime() ?? 0) - (b.acceptedAt?.getTime() ?? 0));
+        onData(trips);
+      },
+      onError
+    );
+}
+
 /**
  * Subscribe to a specific trip by ID (read-only)
  */
@@ -322,6 +393,16 @@ export function subscribeToTrip(
             estimatedDurationMin: data?.estimatedDurationMin,
             estimatedPriceIls: data?.estimatedPriceIls,
             status: data?.status,
+            bookingType: data?.bookingType,
+            requestedSeats: data?.requestedSeats,
+            reservedSeats: data?.reservedSeats,
+            fareAmount: data?.fareAmount,
+            fareBreakdown: toFareBreakdown(data?.finalPricingBreakdown ?? data?.pricingBreakdown),
+            paymentStatus: data?.paymentStatus,
+            fareShortfallIls: typeof data?.fareShortfallIls === 'number' ? data.fareShortfallIls : null,
+            poolAnchorTripId: data?.poolAnchorTripId ?? null,
+            waitTimePolicy: toWaitTimePolicy(data?.waitTimePolicy),
+            noShowWaitSeconds: typeof data?.noShowWaitSeconds === 'number' ? data.noShowWaitSeconds : null,
             createdAt: data?.createdAt?.toDate(),
             matchedAt: data?.matchedAt?.toDate(),
             arrivedAt: data?.arrivedAt?.toDate(),
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { RouteRoadblock } from '../types/shared';
 
 /**
  * ============================================================================
@@ -36,6 +37,8 @@ export interface TripRequest {
   requestedVehicleType?: string | null;
   driverVehicleType?: string | null;
   driverSeatCapacity?: number;
+  /** Closed/congested roadblocks on the quoted route */
+  routeRoadblocks: RouteRoadblock[];
   pickupDistanceKm: number; // Calculated from driver's location
   status: 'pending' | 'accepted' | 'rejected' | 'expired';
   createdAt: Date | null;
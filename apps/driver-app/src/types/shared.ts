@@ -35,6 +35,7 @@ export const TripStatus = {
   CANCELLED_BY_DRIVER: 'cancelled_by_driver',
   CANCELLED_BY_SYSTEM: 'cancelled_by_system',
   NO_DRIVER_AVAILABLE: 'no_driver_available',
+  PASSENGER_NO_SHOW: 'passenger_no_show',
 } as const;
 
 export type TripStatus = (typeof TripStatus)[keyof typeof TripStatus];
@@ -54,4 +55,283 @@ export const TERMINAL_TRIP_STATUSES: TripStatus[] = [
   TripStatus.CANCELLED_BY_DRIVER,
   TripStatus.CANCELLED_BY_SYSTEM,
   TripStatus.NO_DRIVER_AVAILABLE,
+  TripStatus.PASSENGER_NO_SHOW,
 ];
+
+// Seat pooling (copy of PILOT_LIMITS.MAX_POOLED_TRIPS_PER_DRIVER)
+export const MAX_POOLED_TRIPS_PER_DRIVER = 4;
+
+// Geohash (copy of encodeGeohash from @taxi-line/shared geo utils)
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export const DRIVER_GEOHASH_PRECISION = 9;
+
+export function encodeGeohash(lat: number, lng: number, precision = DRIVER_GEOHASH_PRECISION): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bit = 0;
+  let charIndex = 0;
+  let isLngBit = true;
+
+  while (hash.length < precision) {
+    if (isLngBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        charIndex = (charIndex << 1) | 1;
+        lngMin = mid;
+      } else {
+        charIndex = charIndex << 1;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        charIndex = (charIndex << 1) | 1;
+        latMin = mid;
+      } else {
+        charIndex = charIndex << 1;
+        latMax = mid;
+      }
+    }
+
+    isLngBit = !isLngBit;
+    bit += 1;
+
+    if (bit === 5) {
+      hash += GEOHASH_BASE32.charAt(charIndex);
+      bit = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+// Route roadblocks (copy of RouteRoadblock from @taxi-line/shared schemas)
+export interface RouteRoadblock {
+  id: string;
+  name: string;
+  status: 'closed' | 'congested';
+}
+
+export function toRouteRoadblocks(value: unknown): RouteRoadblock[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((item): RouteRoadblock[] => {
+    const roadblock = item as Partial<RouteRoadblock> | null;
+    if (!roadblock || typeof roadblock.id !== 'string') {
+      return [];
+    }
+    return [
+      {
+        id: roadblock.id,
+        name: typeof roadblock.name === 'string' ? roadblock.name : roadblock.id,
+        status: roadblock.status === 'closed' ? 'closed' : 'congested',
+      },
+    ];
+  });
+}
+
+// Copy of ROADBLOCK_EXPIRING_SOON_MINUTES from @taxi-line/shared schemas
+export const ROADBLOCK_EXPIRING_SOON_MINUTES = 30;
+
+// Fare breakdown (copy of FareBreakdown / getFareBreakdownLines from @taxi-line/shared pricing)
+export interface FareBreakdown {
+  roundedDistanceKm: number;
+  baseRatePerKm: number;
+  baseFareIls: number;
+  durationMin: number;
+  timeFareIls: number;
+  seatSurchargeIls: number;
+  zoneFlatSurchargeIls: number;
+  vehicleMultiplier: number;
+  peakMultiplier: number;
+  officeMultiplier: number;
+  lineMultiplier: number;
+  zoneMultiplier: number;
+  rawFareIls: number;
+  minimumFareIls: number;
+  fareBeforeDiscountIls: number;
+  promoCode: string | null;
+  discountIls: number;
+  fareCapAdjustmentIls: number;
+  waitChargeIls: number;
+}
+
+export type FareBreakdownLineKey =
+  | 'distance'
+  | 'time'
+  | 'seats'
+  | 'zone_surcharge'
+  | 'vehicle'
+  | 'peak'
+  | 'office'
+  | 'line'
+  | 'zone'
+  | 'minimum_fare'
+  | 'discount'
+  | 'fare_cap'
+  | 'wait_charge';
+
+export interface FareBreakdownLine {
+  key: FareBreakdownLineKey;
+  kind: 'amount' | 'multiplier';
+  value: number;
+}
+
+export function toFareBreakdown(value: unknown): FareBreakdown | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Partial<FareBreakdown>;
+  if (typeof data.baseFareIls !== 'number') return null;
+  const num = (field: unknown, fallback: number) =>
+    typeof field === 'number' && Number.isFinite(field) ? field : fallback;
+
+  return {
+    roundedDistanceKm: num(data.roundedDistanceKm, 0),
+    baseRatePerKm: num(data.baseRatePerKm, 0),
+    baseFareIls: data.baseFareIls,
+    durationMin: num(data.durationMin, 0),
+    timeFareIls: num(data.timeFareIls, 0),
+    seatSurchargeIls: num(data.seatSurchargeIls, 0),
+    zoneFlatSurchargeIls: num(data.zoneFlatSurchargeIls, 0),
+    vehicleMultiplier: num(data.vehicleMultiplier, 1),
+    peakMultiplier: num(data.peakMultiplier, 1),
+    officeMultiplier: num(data.officeMultiplier, 1),
+    lineMultiplier: num(data.lineMultiplier, 1),
+    zoneMultiplier: num(data.zoneMultiplier, 1),
+    rawFareIls: num(data.rawFareIls, 0),
+    minimumFareIls: num(data.minimumFareIls, 0),
+    fareBeforeDiscountIls: num(data.fareBeforeDiscountIls, 0),
+    promoCode: typeof data.promoCode === 'string' ? data.promoCode : null,
+    discountIls: num(data.discountIls, 0),
+    fareCapAdjustmentIls: num(data.fareCapAdjustmentIls, 0),
+    waitChargeIls: num(data.waitChargeIls, 0),
+  };
+}
+
+export function getFareBreakdownLines(breakdown: FareBreakdown): FareBreakdownLine[] {
+  const roundIls = (value: number) => Math.round(value * 100) / 100;
+  const lines: FareBreakdownLine[] = [
+    { key: 'distance', kind: 'amount', value: roundIls(breakdown.baseFareIls) },
+  ];
+
+  if (breakdown.timeFareIls > 0) {
+    lines.push({ key: 'time', kind: 'amount', value: roundIls(breakdown.timeFareIls) });
+  }
+  if (breakdown.seatSurchargeIls > 0) {
+    lines.push({ key: 'seats', kind: 'amount', value: roundIls(breakdown.seatSurchargeIls) });
+  }
+  if (breakdown.zoneFlatSurchargeIls > 0) {
+    lines.push({ key: 'zone_surcharge', kind: 'amount', value: roundIls(breakdown.zoneFlatSurchargeIls) });
+  }
+
+  const multipliers: Array<[FareBreakdownLineKey, number]> = [
+    ['vehicle', breakdown.vehicleMultiplier],
+    ['peak', breakdown.peakMultiplier],
+    ['office', breakdown.officeMultiplier],
+    ['line', breakdown.lineMultiplier],
+    ['zone', breakdown.zoneMultiplier],
+  ];
+  for (const [key, value] of multipliers) {
+    if (value !== 1) {
+      lines.push({ key, kind: 'multiplier', value: Math.round(value * 1000) / 1000 });
+    }
+  }
+
+  if (breakdown.rawFareIls < breakdown.minimumFareIls) {
+    lines.push({ key: 'minimum_fare', kind: 'amount', value: breakdown.minimumFareIls });
+  }
+  if (breakdown.discountIls > 0) {
+    lines.push({ key: 'discount', kind: 'amount', value: -breakdown.discountIls });
+  }
+  if (breakdown.fareCapAdjustmentIls !== 0) {
+    lines.push({ key: 'fare_cap', kind: 'amount', value: roundIls(breakdown.fareCapAdjustmentIls) });
+  }
+  if (breakdown.waitChargeIls > 0) {
+    lines.push({ key: 'wait_charge', kind: 'amount', value: roundIls(breakdown.waitChargeIls) });
+  }
+
+  return lines;
+}
+
+// Support tickets (copy of SupportTicketStatus from @taxi-line/shared schemas)
+export type SupportTicketStatus = 'open' | 'assigned' | 'waiting_on_user' | 'resolved' | 'closed';
+
+export type SupportTicketAuthorRole = 'user' | 'staff' | 'system';
+
+// Trip chat (copy of TRIP_CHAT_RULES / TRIP_CHAT_QUICK_REPLIES from @taxi-line/shared config)
+export type TripChatRole = 'passenger' | 'driver';
+
+export type TripChatModerationFlag = 'profanity' | 'phone_number';
+
+export const TRIP_CHAT_MAX_MESSAGE_LENGTH = 500;
+export const TRIP_CHAT_VISIBLE_MESSAGES = 50;
+
+export const TRIP_CHAT_QUICK_REPLY_IDS = [
+  'at_gate',
+  'at_pickup',
+  'call_when_near',
+  'two_minutes',
+  'arrived',
+  'nearby',
+  'traffic_delay',
+] as const;
+
+export type TripChatQuickReplyId = (typeof TRIP_CHAT_QUICK_REPLY_IDS)[number];
+
+export const TRIP_CHAT_QUICK_REPLIES: Record<
+  TripChatQuickReplyId,
+  { roles: readonly TripChatRole[]; en: string; ar: string }
+> = {
+  at_gate: { roles: ['passenger'], en: "I'm at the gate", ar: 'أنا عند البوابة' },
+  at_pickup: { roles: ['passenger'], en: "I'm at the pickup point", ar: 'أنا عند نقطة الالتقاط' },
+  call_when_near: { roles: ['passenger'], en: 'Call me when you are near', ar: 'اتصل بي عند الاقتراب' },
+  two_minutes: { roles: ['passenger', 'driver'], en: '2 minutes', ar: 'دقيقتين' },
+  arrived: { roles: ['driver'], en: "I've arrived", ar: 'وصلت' },
+  nearby: { roles: ['driver'], en: "I'm nearby", ar: 'أنا قريب' },
+  traffic_delay: { roles: ['driver'], en: 'Delayed by traffic', ar: 'تأخير بسبب الازدحام' },
+};
+
+export function getTripChatQuickReplies(role: TripChatRole): TripChatQuickReplyId[] {
+  return TRIP_CHAT_QUICK_REPLY_IDS.filter((id) => TRIP_CHAT_QUICK_REPLIES[id].roles.includes(role));
+}
+
+export function isTripChatQuickReplyId(value: unknown): value is TripChatQuickReplyId {
+  return typeof value === 'string' && (TRIP_CHAT_QUICK_REPLY_IDS as readonly string[]).includes(value);
+}
+
+// Masked calling (copy of CALL_BRIDGE_TRIP_STATUSES from @taxi-line/shared config)
+export const CALL_BRIDGE_TRIP_STATUSES: TripStatus[] = [
+  TripStatus.DRIVER_ASSIGNED,
+  TripStatus.ACCEPTED,
+  TripStatus.DRIVER_ARRIVED,
+  TripStatus.IN_PROGRESS,
+];
+
+// Pickup wait time (copy of WaitTimePolicy / computeWaitChargeIls from @taxi-line/shared config)
+export interface WaitTimePolicy {
+  freeWaitSeconds: number;
+  perMinuteIls: number;
+  maxChargeIls: number;
+}
+
+export function toWaitTimePolicy(value: unknown): WaitTimePolicy | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Partial<WaitTimePolicy>;
+  const num = (field: unknown) => (typeof field === 'number' && Number.isFinite(field) && field >= 0 ? field : null);
+  const freeWaitSeconds = num(data.freeWaitSeconds);
+  const perMinuteIls = num(data.perMinuteIls);
+  const maxChargeIls = num(data.maxChargeIls);
+  if (freeWaitSeconds === null || perMinuteIls === null || maxChargeIls === null) return null;
+  return { freeWaitSeconds, perMinuteIls, maxChargeIls };
+}
+
+export function computeWaitChargeIls(policy: WaitTimePolicy, waitedSeconds: number): number {
+  const chargeableSeconds = Math.max(0, waitedSeconds - policy.freeWaitSeconds);
+  const chargeableMinutes = Math.ceil(chargeableSeconds / 60);
+  return Math.round(Math.min(policy.maxChargeIls, chargeableMinutes * policy.perMinuteIls) * 100) / 100;
+}
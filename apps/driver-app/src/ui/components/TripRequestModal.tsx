@@ -58,7 +58,8 @@ function formatBookingTypeLabel(bookingType: 'seat_only' | 'full_taxi' | undefin
  * ============================================================================
  *
  * Full-screen modal displayed when a new trip request arrives.
- * Shows pickup distance, estimated price, and accept/reject actions.
+ * Shows pickup distance, estimated price, roadblocks on the route, and
+ * accept/reject actions.
  *
  * ============================================================================
  */
@@ -259,6 +260,17 @@ export function TripRequestModal() {
             <Text style={styles.priceValue}>NIS {pendingRequest.estimatedPriceIls}</Text>
           </View>
 
+          {pendingRequest.routeRoadblocks.length > 0 ? (
+            <View style={styles.roadblockContainer}>
+              <Text style={styles.roadblockTitle}>Roadblocks on this route</Text>
+              {pendingRequest.routeRoadblocks.map((roadblock) => (
+                <Text key={roadblock.id} style={styles.roadblockText}>
+                  {roadblock.status === 'closed' ? 'Closed' : 'Congested'}: {roadblock.name}
+                </Text>
+              ))}
+            </View>
+          ) : null}
+
           <View style={styles.detailsContainer}>
             <View style={styles.detailRow}>
               <Text style={styles.detailIcon}>KM</Text>
@@ -423,6 +435,22 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     color: '#FFFFFF',
   },
+  roadblockContainer: {
+    backgroundColor: '#FEE2E2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  roadblockTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#B91C1C',
+    marginBottom: 4,
+  },
+  roadblockText: {
+    fontSize: 14,
+    color: '#7F1D1D',
+  },
   detailsContainer: {
     backgroundColor: '#F2F2F7',
     borderRadius: 16,
@@ -39,6 +39,11 @@ const PERMISSION_LABELS: Record<string, { ar: string; en: string }> = {
   manage_pricing: { ar: 'إدارة التسعير', en: 'Manage pricing' },
   view_monitoring: { ar: 'عرض المراقبة', en: 'View monitoring' },
   manage_alerts: { ar: 'إدارة التنبيهات', en: 'Manage alerts' },
+  manage_roadblocks: { ar: 'إدارة الإغلاقات', en: 'Manage roadblocks' },
+  moderate_ratings: { ar: 'مراجعة التقييمات', en: 'Moderate ratings' },
+  manage_support: { ar: 'إدارة تذاكر الدعم', en: 'Manage support tickets' },
+  manage_settlements: { ar: 'إدارة التسويات', en: 'Manage settlements' },
+  manage_wallets: { ar: 'إدارة المحافظ', en: 'Manage wallets' },
   force_cancel_trip: { ar: 'إلغاء رحلة إجباريًا', en: 'Force cancel trip' },
   manage_rbac: { ar: 'إدارة الصلاحيات', en: 'Manage RBAC' },
 };
@@ -48,8 +53,12 @@ const NAV_ITEMS = [
   { to: '/operations', labelAr: 'العمليات', labelEn: 'Operations' },
   { to: '/monitoring', labelAr: 'المراقبة', labelEn: 'Monitoring' },
   { to: '/live-map', labelAr: 'الخريطة المباشرة', labelEn: 'Live Map' },
+  { to: '/scheduled-rides', labelAr: 'الحجوزات المجدولة', labelEn: 'Scheduled' },
   { to: '/payments', labelAr: 'المدفوعات', labelEn: 'Payments' },
+  { to: '/settlements', labelAr: 'التسويات', labelEn: 'Settlements' },
+  { to: '/promotions', labelAr: 'العروض', labelEn: 'Promotions' },
   { to: '/roadblocks', labelAr: 'الإغلاقات', labelEn: 'Roadblocks' },
+  { to: '/support', labelAr: 'الدعم', labelEn: 'Support' },
   { to: '/settings', labelAr: 'الإعدادات', labelEn: 'Settings' },
 ];
 
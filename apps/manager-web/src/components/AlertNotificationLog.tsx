@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from '../localization';
+import { AlertNotificationData, subscribeAlertNotifications } from '../services/monitoring.service';
+import { CHANNEL_LABELS } from './EscalationPolicyEditor';
+
+const STATUS_LABELS: Record<AlertNotificationData['status'], { ar: string; en: string }> = {
+  sent: { ar: 'أُرسل', en: 'sent' },
+  failed: { ar: 'فشل', en: 'failed' },
+  skipped: { ar: 'تخطّي', en: 'skipped' },
+};
+
+/**
+ * Escalation delivery attempts of an alert
+ */
+export function AlertNotificationLog({ alertId }: { alertId: string }) {
+  const { txt, locale } = useI18n();
+  const [entries, setEntries] = useState<AlertNotificationData[] | null>(null);
+
+  useEffect(() => subscribeAlertNotifications(alertId, setEntries), [alertId]);
+
+  if (!entries) {
+    return <small>{txt('جاري التحميل...', 'Loading...')}</small>;
+  }
+
+  if (entries.length === 0) {
+    return <small>{txt('لم تُرسل إشعارات بعد.', 'No notifications sent yet.')}</small>;
+  }
+
+  return (
+    <ul className="alert-notification-log">
+      {entries.map((entry) => {
+        const channel = CHANNEL_LABELS[entry.channel];
+        const status = STATUS_LABELS[entry.status];
+        return (
+          <li key={entry.id} className={entry.status}>
+            <span>
+              {entry.attemptedAt ? entry.attemptedAt.toLocaleTimeString(locale === 'ar' ? 'ar-PS' : 'en-US') : '--'}
+            </span>
+            <span>
+              {txt('خطوة', 'step')} {entry.step + 1} · {channel ? txt(channel.ar, channel.en) : entry.channel}
+            </span>
+            <span>{entry.recipient}</span>
+            <strong>{txt(status.ar, status.en)}</strong>
+            {entry.error ? <em>{entry.error}</em> : null}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,206 @@
+import { FormEvent, useState } from 'react';
+import {
+  ALERT_RULE_COMPARISONS,
+  ALERT_RULE_COMPARISON_SYMBOLS,
+  ALERT_RULE_LIMITS,
+  ALERT_RULE_METRIC_INFO,
+  ALERT_RULE_METRIC_VALUES,
+  AlertRule,
+  AlertRuleMetric,
+} from '@taxi-line/shared';
+import { useI18n } from '../localization';
+import './AlertRuleEditor.css';
+
+export const METRIC_LABELS: Record<AlertRuleMetric, { ar: string; en: string }> = {
+  errors_total: { ar: 'أخطاء العميل (كل المستويات)', en: 'Client errors (all severities)' },
+  errors_fatal: { ar: 'أخطاء حرجة', en: 'Fatal client errors' },
+  errors_error: { ar: 'أخطاء بمستوى خطأ', en: 'Error-level client errors' },
+  errors_warning: { ar: 'تحذيرات العميل', en: 'Warning-level client errors' },
+  drivers_online: { ar: 'السائقون المتصلون', en: 'Online drivers' },
+  drivers_available: { ar: 'السائقون المتاحون', en: 'Available online drivers' },
+  trips_pending: { ar: 'الرحلات المعلقة', en: 'Pending trips' },
+  trips_active: { ar: 'الرحلات النشطة', en: 'Active trips' },
+  trips_pending_without_drivers: {
+    ar: 'رحلات معلقة بدون سائق متاح',
+    en: 'Pending trips with no available driver',
+  },
+  trips_created: { ar: 'الرحلات المنشأة', en: 'Trips created' },
+  trips_completed: { ar: 'الرحلات المكتملة', en: 'Trips completed' },
+  trips_cancelled: { ar: 'الرحلات الملغاة', en: 'Trips cancelled' },
+};
+
+const DEFAULT_RULE: AlertRule = {
+  name: '',
+  metric: 'errors_error',
+  comparison: 'gte',
+  threshold: 10,
+  windowMinutes: 15,
+  severity: 'warning',
+  officeId: null,
+  cooldownMinutes: 30,
+  enabled: true,
+  escalationPolicyId: null,
+};
+
+interface AlertRuleEditorProps {
+  initialRule?: AlertRule;
+  offices: Array<{ id: string; label: string }>;
+  policies: Array<{ id: string; label: string }>;
+  saving: boolean;
+  onSave: (rule: AlertRule) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Form for one alert rule: `metric <comparison> threshold` within a window,
+ * optionally limited to one office.
+ */
+export function AlertRuleEditor({ initialRule, offices, policies, saving, onSave, onCancel }: AlertRuleEditorProps) {
+  const { txt, locale } = useI18n();
+  const [rule, setRule] = useState<AlertRule>(initialRule ?? DEFAULT_RULE);
+  const metricInfo = ALERT_RULE_METRIC_INFO[rule.metric];
+
+  const update = (patch: Partial<AlertRule>) => setRule((current) => ({ ...current, ...patch }));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSave({ ...rule, officeId: metricInfo.officeScoped ? rule.officeId ?? null : null });
+  };
+
+  return (
+    <form className="alert-rule-editor" onSubmit={handleSubmit}>
+      <label>
+        {txt('اسم القاعدة', 'Rule name')}
+        <input value={rule.name} onChange={(event) => update({ name: event.target.value })} maxLength={80} required />
+      </label>
+
+      <div className="alert-rule-condition">
+        <label>
+          {txt('المؤشر', 'Metric')}
+          <select
+            value={rule.metric}
+            onChange={(event) => update({ metric: event.target.value as AlertRuleMetric })}
+          >
+            {ALERT_RULE_METRIC_VALUES.map((metric) => (
+              <option key={metric} value={metric}>
+                {locale === 'ar' ? METRIC_LABELS[metric].ar : METRIC_LABELS[metric].en}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {txt('المقارنة', 'Comparison')}
+          <select
+            value={rule.comparison}
+            onChange={(event) => update({ comparison: event.target.value as AlertRule['comparison'] })}
+          >
+            {ALERT_RULE_COMPARISONS.map((comparison) => (
+              <option key={comparison} value={comparison}>
+                {ALERT_RULE_COMPARISON_SYMBOLS[comparison]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {txt('الحد', 'Threshold')}
+          <input
+            type="number"
+            min={0}
+            value={rule.threshold}
+            onChange={(event) => update({ threshold: Number(event.target.value) })}
+            required
+          />
+        </label>
+      </div>
+
+      <div className="alert-rule-condition">
+        <label>
+          {txt('النافذة (دقائق)', 'Window (minutes)')}
+          <input
+            type="number"
+            min={ALERT_RULE_LIMITS.MIN_WINDOW_MINUTES}
+            max={ALERT_RULE_LIMITS.MAX_WINDOW_MINUTES}
+            value={rule.windowMinutes}
+            onChange={(event) => update({ windowMinutes: Number(event.target.value) })}
+            disabled={!metricInfo.windowed}
+            required
+          />
+        </label>
+        <label>
+          {txt('فترة التهدئة (دقائق)', 'Cooldown (minutes)')}
+          <input
+            type="number"
+            min={0}
+            max={ALERT_RULE_LIMITS.MAX_COOLDOWN_MINUTES}
+            value={rule.cooldownMinutes}
+            onChange={(event) => update({ cooldownMinutes: Number(event.target.value) })}
+            required
+          />
+        </label>
+        <label>
+          {txt('الحدة', 'Severity')}
+          <select
+            value={rule.severity}
+            onChange={(event) => update({ severity: event.target.value as AlertRule['severity'] })}
+          >
+            <option value="warning">{txt('تحذير', 'Warning')}</option>
+            <option value="critical">{txt('حرج', 'Critical')}</option>
+          </select>
+        </label>
+        <label>
+          {txt('المكتب', 'Office')}
+          <select
+            value={metricInfo.officeScoped ? rule.officeId ?? '' : ''}
+            onChange={(event) => update({ officeId: event.target.value || null })}
+            disabled={!metricInfo.officeScoped}
+          >
+            <option value="">{txt('كل المكاتب', 'All offices')}</option>
+            {offices.map((office) => (
+              <option key={office.id} value={office.id}>
+                {office.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label>
+        {txt('سياسة التصعيد', 'Escalation policy')}
+        <select
+          value={rule.escalationPolicyId ?? ''}
+          onChange={(event) => update({ escalationPolicyId: event.target.value || null })}
+        >
+          <option value="">{txt('الافتراضية', 'Default policy')}</option>
+          {policies.map((policy) => (
+            <option key={policy.id} value={policy.id}>
+              {policy.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <p className="alert-rule-hint">
+        {metricInfo.windowed
+          ? txt('يُحسب المؤشر خلال النافذة المحددة.', 'Counted over the window.')
+          : txt('قيمة لحظية — النافذة لا تنطبق.', 'Live value — the window does not apply.')}{' '}
+        {metricInfo.officeScoped
+          ? ''
+          : txt('أخطاء العميل على مستوى المنصة ولا تُحصر بمكتب.', 'Client errors are platform-wide.')}
+      </p>
+
+      <label className="alert-rule-enabled">
+        <input type="checkbox" checked={rule.enabled} onChange={(event) => update({ enabled: event.target.checked })} />
+        {txt('مفعّلة', 'Enabled')}
+      </label>
+
+      <div className="alert-rule-actions">
+        <button type="button" onClick={onCancel} disabled={saving}>
+          {txt('إلغاء', 'Cancel')}
+        </button>
+        <button type="submit" className="primary" disabled={saving}>
+          {saving ? txt('جارٍ الحفظ...', 'Saving...') : txt('حفظ القاعدة', 'Save rule')}
+        </button>
+      </div>
+    </form>
+  );
+}
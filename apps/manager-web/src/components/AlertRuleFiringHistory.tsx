@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { ALERT_RULE_COMPARISON_SYMBOLS } from '@taxi-line/shared';
+import { useI18n } from '../localization';
+import { AlertRuleFiringData, subscribeAlertRuleFirings } from '../services/monitoring.service';
+
+/**
+ * Latest firings of an alert rule
+ */
+export function AlertRuleFiringHistory({ ruleId }: { ruleId: string }) {
+  const { txt, locale } = useI18n();
+  const [firings, setFirings] = useState<AlertRuleFiringData[] | null>(null);
+
+  useEffect(() => subscribeAlertRuleFirings(ruleId, setFirings), [ruleId]);
+
+  const formatTime = (value: Date | null) =>
+    value ? value.toLocaleString(locale === 'ar' ? 'ar-PS' : 'en-US') : '--';
+
+  if (!firings) {
+    return <p className="empty">{txt('جاري التحميل...', 'Loading...')}</p>;
+  }
+
+  if (firings.length === 0) {
+    return <p className="empty">{txt('لم تُطلق هذه القاعدة بعد.', 'This rule has not fired yet.')}</p>;
+  }
+
+  return (
+    <ul className="alert-rule-firings">
+      {firings.map((firing) => (
+        <li key={firing.id} className={firing.severity}>
+          <span>{formatTime(firing.firedAt)}</span>
+          <strong>
+            {firing.value} {ALERT_RULE_COMPARISON_SYMBOLS[firing.comparison]} {firing.threshold}
+          </strong>
+          <span>
+            {firing.resolvedAt
+              ? `${txt('حُلّ', 'resolved')} ${formatTime(firing.resolvedAt)} (${firing.resolvedValue ?? '--'})`
+              : txt('مفتوح', 'open')}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
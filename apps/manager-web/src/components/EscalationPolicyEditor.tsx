@@ -0,0 +1,203 @@
+import { FormEvent, useState } from 'react';
+import {
+  ALERT_ESCALATION_LIMITS,
+  ALERT_NOTIFICATION_CHANNELS,
+  AlertEscalationPolicy,
+  AlertEscalationStep,
+  AlertNotificationChannel,
+  MANAGER_ROLE_VALUES,
+  ManagerRole,
+} from '@taxi-line/shared';
+import { useI18n } from '../localization';
+import './AlertRuleEditor.css';
+import './EscalationPolicyEditor.css';
+
+const ROLE_LABELS: Record<ManagerRole, { ar: string; en: string }> = {
+  admin: { ar: 'مدير عام', en: 'Admin' },
+  manager: { ar: 'مدير', en: 'Manager' },
+  operations_manager: { ar: 'مدير عمليات', en: 'Operations Manager' },
+  dispatcher: { ar: 'موجّه رحلات', en: 'Dispatcher' },
+  support: { ar: 'الدعم', en: 'Support' },
+};
+
+export const CHANNEL_LABELS: Record<AlertNotificationChannel, { ar: string; en: string }> = {
+  push: { ar: 'إشعار', en: 'Push' },
+  email: { ar: 'بريد', en: 'Email' },
+  webhook: { ar: 'Webhook', en: 'Webhook' },
+};
+
+const DEFAULT_POLICY: AlertEscalationPolicy = {
+  name: '',
+  steps: [
+    { afterMinutes: 0, roles: ['dispatcher'], channels: ['push'] },
+    { afterMinutes: 15, roles: ['operations_manager'], channels: ['push', 'email'] },
+  ],
+  webhookUrl: null,
+  enabled: true,
+};
+
+function toggle<T>(items: T[], item: T): T[] {
+  return items.includes(item) ? items.filter((value) => value !== item) : [...items, item];
+}
+
+interface EscalationPolicyEditorProps {
+  initialPolicy?: AlertEscalationPolicy;
+  /** Offer to save a new policy as the fallback for rules without one */
+  canBeDefault: boolean;
+  saving: boolean;
+  onSave: (policy: AlertEscalationPolicy, asDefault: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Escalation chain: who gets notified, and how, while an alert stays
+ * unacknowledged.
+ */
+export function EscalationPolicyEditor({
+  initialPolicy,
+  canBeDefault,
+  saving,
+  onSave,
+  onCancel,
+}: EscalationPolicyEditorProps) {
+  const { txt, locale } = useI18n();
+  const [policy, setPolicy] = useState<AlertEscalationPolicy>(initialPolicy ?? DEFAULT_POLICY);
+  const [asDefault, setAsDefault] = useState(false);
+
+  const updateStep = (index: number, patch: Partial<AlertEscalationStep>) => {
+    setPolicy((current) => ({
+      ...current,
+      steps: current.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)),
+    }));
+  };
+
+  const addStep = () => {
+    setPolicy((current) => {
+      const lastAfter = current.steps[current.steps.length - 1]?.afterMinutes ?? 0;
+      return {
+        ...current,
+        steps: [...current.steps, { afterMinutes: lastAfter + 15, roles: ['manager'], channels: ['push'] }],
+      };
+    });
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSave({ ...policy, webhookUrl: policy.webhookUrl?.trim() || null }, asDefault);
+  };
+
+  return (
+    <form className="alert-rule-editor escalation-policy-editor" onSubmit={handleSubmit}>
+      <label>
+        {txt('اسم السياسة', 'Policy name')}
+        <input
+          value={policy.name}
+          onChange={(event) => setPolicy({ ...policy, name: event.target.value })}
+          maxLength={80}
+          required
+        />
+      </label>
+
+      {policy.steps.map((step, index) => (
+        <div key={index} className="escalation-step">
+          <div className="escalation-step-header">
+            <strong>
+              {txt('الخطوة', 'Step')} {index + 1}
+            </strong>
+            <label className="escalation-after">
+              {txt('بعد (دقائق)', 'After (minutes)')}
+              <input
+                type="number"
+                min={0}
+                max={ALERT_ESCALATION_LIMITS.MAX_AFTER_MINUTES}
+                value={step.afterMinutes}
+                onChange={(event) => updateStep(index, { afterMinutes: Number(event.target.value) })}
+                required
+              />
+            </label>
+            {policy.steps.length > 1 ? (
+              <button
+                type="button"
+                onClick={() => setPolicy({ ...policy, steps: policy.steps.filter((_, i) => i !== index) })}
+              >
+                {txt('إزالة', 'Remove')}
+              </button>
+            ) : null}
+          </div>
+          <div className="escalation-chips">
+            {MANAGER_ROLE_VALUES.map((role) => (
+              <label key={role} className={step.roles.includes(role) ? 'active' : ''}>
+                <input
+                  type="checkbox"
+                  checked={step.roles.includes(role)}
+                  onChange={() => updateStep(index, { roles: toggle(step.roles, role) })}
+                />
+                {locale === 'ar' ? ROLE_LABELS[role].ar : ROLE_LABELS[role].en}
+              </label>
+            ))}
+          </div>
+          <div className="escalation-chips">
+            {ALERT_NOTIFICATION_CHANNELS.map((channel) => (
+              <label key={channel} className={step.channels.includes(channel) ? 'active' : ''}>
+                <input
+                  type="checkbox"
+                  checked={step.channels.includes(channel)}
+                  onChange={() => updateStep(index, { channels: toggle(step.channels, channel) })}
+                />
+                {locale === 'ar' ? CHANNEL_LABELS[channel].ar : CHANNEL_LABELS[channel].en}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {policy.steps.length < ALERT_ESCALATION_LIMITS.MAX_STEPS ? (
+        <button type="button" className="escalation-add" onClick={addStep}>
+          {txt('إضافة خطوة', 'Add step')}
+        </button>
+      ) : null}
+
+      <label>
+        {txt('رابط Webhook (https)', 'Webhook URL (https)')}
+        <input
+          type="url"
+          value={policy.webhookUrl ?? ''}
+          onChange={(event) => setPolicy({ ...policy, webhookUrl: event.target.value })}
+          placeholder="https://"
+        />
+      </label>
+
+      <p className="alert-rule-hint">
+        {txt(
+          'تتوقف السلسلة عند تأكيد التنبيه. يصل الإشعار للمديرين النشطين في الأدوار المحددة.',
+          'The chain stops once the alert is acknowledged. Active managers in the selected roles are notified.'
+        )}
+      </p>
+
+      <label className="alert-rule-enabled">
+        <input
+          type="checkbox"
+          checked={policy.enabled}
+          onChange={(event) => setPolicy({ ...policy, enabled: event.target.checked })}
+        />
+        {txt('مفعّلة', 'Enabled')}
+      </label>
+
+      {canBeDefault ? (
+        <label className="alert-rule-enabled">
+          <input type="checkbox" checked={asDefault} onChange={(event) => setAsDefault(event.target.checked)} />
+          {txt('السياسة الافتراضية (للقواعد بدون سياسة)', 'Default policy (for rules without one)')}
+        </label>
+      ) : null}
+
+      <div className="alert-rule-actions">
+        <button type="button" onClick={onCancel} disabled={saving}>
+          {txt('إلغاء', 'Cancel')}
+        </button>
+        <button type="submit" className="primary" disabled={saving}>
+          {saving ? txt('جارٍ الحفظ...', 'Saving...') : txt('حفظ السياسة', 'Save policy')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,114 @@
+import { useI18n } from '../localization';
+import './OpsTrendChart.css';
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = 6;
+
+export interface OpsTrendSeries {
+  label: string;
+  color: string;
+  /** One value per timestamp; null leaves a gap */
+  values: Array<number | null>;
+}
+
+interface OpsTrendChartProps {
+  title: string;
+  timestamps: Date[];
+  series: OpsTrendSeries[];
+  unit?: string;
+  /** Fixed top of the y axis, e.g. 100 for percentages */
+  maxValue?: number;
+  note?: string | null;
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+/**
+ * Line chart of ops metric buckets. Plain SVG so the dashboard needs no
+ * charting dependency.
+ */
+export function OpsTrendChart({ title, timestamps, series, unit = '', maxValue, note }: OpsTrendChartProps) {
+  const { txt, locale } = useI18n();
+  const dateLocale = locale === 'ar' ? 'ar-PS' : 'en-US';
+
+  const allValues = series.flatMap((line) => line.values.filter((value): value is number => value !== null));
+  const top = maxValue ?? Math.max(1, ...allValues);
+  const stepX = timestamps.length > 1 ? (WIDTH - PADDING * 2) / (timestamps.length - 1) : 0;
+  const toX = (index: number) => PADDING + index * stepX;
+  const toY = (value: number) => HEIGHT - PADDING - (Math.min(value, top) / top) * (HEIGHT - PADDING * 2);
+
+  // Split each series at gaps so missing buckets are not drawn as flat lines
+  const segmentsOf = (values: Array<number | null>): Array<Array<[number, number]>> => {
+    const segments: Array<Array<[number, number]>> = [];
+    let current: Array<[number, number]> = [];
+    values.forEach((value, index) => {
+      if (value === null) {
+        if (current.length > 0) segments.push(current);
+        current = [];
+        return;
+      }
+      current.push([toX(index), toY(value)]);
+    });
+    if (current.length > 0) segments.push(current);
+    return segments;
+  };
+
+  const first = timestamps[0];
+  const last = timestamps[timestamps.length - 1];
+
+  return (
+    <article className="ops-trend-chart">
+      <header>
+        <h4>{title}</h4>
+        <div className="ops-trend-legend">
+          {series.map((line) => {
+            const latest = [...line.values].reverse().find((value) => value !== null);
+            return (
+              <span key={line.label}>
+                <i style={{ background: line.color }} />
+                {line.label}: {latest === undefined || latest === null ? '--' : `${formatValue(latest)}${unit}`}
+              </span>
+            );
+          })}
+        </div>
+      </header>
+
+      {allValues.length === 0 ? (
+        <p className="ops-trend-empty">{txt('لا توجد بيانات في هذه الفترة.', 'No data for this range.')}</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" role="img" aria-label={title}>
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={toY(top)} y2={toY(top)} className="ops-trend-grid" />
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={toY(top / 2)} y2={toY(top / 2)} className="ops-trend-grid" />
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={toY(0)} y2={toY(0)} className="ops-trend-axis" />
+          {series.map((line) =>
+            segmentsOf(line.values).map((segment, index) => {
+              const [start] = segment;
+              return segment.length === 1 && start ? (
+                <circle key={`${line.label}-${index}`} cx={start[0]} cy={start[1]} r={1.8} fill={line.color} />
+              ) : (
+                <polyline
+                  key={`${line.label}-${index}`}
+                  points={segment.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')}
+                  stroke={line.color}
+                />
+              );
+            })
+          )}
+        </svg>
+      )}
+
+      <footer>
+        <span>{first ? first.toLocaleString(dateLocale) : ''}</span>
+        <span>
+          {txt('الأعلى', 'max')} {formatValue(top)}
+          {unit}
+        </span>
+        <span>{last ? last.toLocaleString(dateLocale) : ''}</span>
+      </footer>
+      {note ? <small className="ops-trend-note">{note}</small> : null}
+    </article>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from 'react';
+import { OPS_METRICS_RESOLUTION_CONFIG, OpsMetricsResolution } from '@taxi-line/shared';
+import { useI18n } from '../localization';
+import { OpsMetricsBucketData, subscribeOpsMetricsHistory } from '../services/monitoring.service';
+import { OpsTrendChart } from './OpsTrendChart';
+
+interface TrendRange {
+  id: string;
+  hours: number;
+  resolution: OpsMetricsResolution;
+  ar: string;
+  en: string;
+}
+
+const DEFAULT_RANGE: TrendRange = { id: '24h', hours: 24, resolution: '5m', ar: '24 ساعة', en: '24 hours' };
+
+const TREND_RANGES: TrendRange[] = [
+  { id: '6h', hours: 6, resolution: '5m', ar: '6 ساعات', en: '6 hours' },
+  DEFAULT_RANGE,
+  { id: '7d', hours: 7 * 24, resolution: '1h', ar: '7 أيام', en: '7 days' },
+  { id: '30d', hours: 30 * 24, resolution: '1d', ar: '30 يومًا', en: '30 days' },
+  { id: '90d', hours: 90 * 24, resolution: '1d', ar: '90 يومًا', en: '90 days' },
+];
+
+interface OpsTrendsPanelProps {
+  offices: Array<{ id: string; label: string }>;
+  lines: Array<{ id: string; label: string }>;
+}
+
+function average(bucket: OpsMetricsBucketData | undefined, gauge: keyof OpsMetricsBucketData['gaugeSums']) {
+  if (!bucket || bucket.samples <= 0) return null;
+  return (bucket.gaugeSums[gauge] ?? 0) / bucket.samples;
+}
+
+/** Share of finished trips that completed or were cancelled, in percent */
+function finishedShare(bucket: OpsMetricsBucketData | undefined, counter: 'tripsCompleted' | 'tripsCancelled') {
+  if (!bucket) return null;
+  const finished = (bucket.counts.tripsCompleted ?? 0) + (bucket.counts.tripsCancelled ?? 0);
+  return finished > 0 ? ((bucket.counts[counter] ?? 0) / finished) * 100 : null;
+}
+
+function errorCount(bucket: OpsMetricsBucketData | undefined, counter: 'errorsTotal' | 'errorsFatal') {
+  return bucket ? bucket.counts[counter] ?? 0 : null;
+}
+
+/**
+ * Supply/demand trends from the rolled-up opsMetricsHistory buckets, for the
+ * platform or a single office or line.
+ */
+export function OpsTrendsPanel({ offices, lines }: OpsTrendsPanelProps) {
+  const { txt } = useI18n();
+  const [rangeId, setRangeId] = useState(DEFAULT_RANGE.id);
+  const [scopeKey, setScopeKey] = useState('platform');
+  const [history, setHistory] = useState<{ sinceMs: number; buckets: OpsMetricsBucketData[] } | null>(null);
+
+  const range = TREND_RANGES.find((item) => item.id === rangeId) ?? DEFAULT_RANGE;
+  const { bucketMs } = OPS_METRICS_RESOLUTION_CONFIG[range.resolution];
+
+  useEffect(() => {
+    const sinceMs = Math.floor((Date.now() - range.hours * 60 * 60 * 1000) / bucketMs) * bucketMs;
+    setHistory(null);
+    return subscribeOpsMetricsHistory(range.resolution, scopeKey, new Date(sinceMs), (buckets) =>
+      setHistory({ sinceMs, buckets })
+    );
+  }, [range.resolution, range.hours, bucketMs, scopeKey]);
+
+  // Fill the whole range so missing buckets show as gaps
+  const timeline = useMemo(() => {
+    if (!history) return [];
+    const byStart = new Map(history.buckets.map((bucket) => [bucket.bucketStart.getTime(), bucket]));
+    const lastMs = Math.max(Date.now(), ...Array.from(byStart.keys()));
+    const points: Array<{ at: Date; bucket: OpsMetricsBucketData | undefined }> = [];
+    for (let startMs = history.sinceMs; startMs <= lastMs; startMs += bucketMs) {
+      points.push({ at: new Date(startMs), bucket: byStart.get(startMs) });
+    }
+    return points;
+  }, [history, bucketMs]);
+
+  const timestamps = timeline.map((point) => point.at);
+  const isPlatform = scopeKey === 'platform';
+
+  return (
+    <section className="monitoring-section">
+      <div className="section-header">
+        <h3>{txt('الاتجاهات', 'Trends')}</h3>
+        <div className="ops-trends-filters">
+          <select value={scopeKey} onChange={(event) => setScopeKey(event.target.value)}>
+            <option value="platform">{txt('كل المنصة', 'Whole platform')}</option>
+            {offices.length > 0 ? (
+              <optgroup label={txt('المكاتب', 'Offices')}>
+                {offices.map((office) => (
+                  <option key={office.id} value={`office:${office.id}`}>
+                    {office.label}
+                  </option>
+                ))}
+              </optgroup>
+            ) : null}
+            {lines.length > 0 ? (
+              <optgroup label={txt('الخطوط', 'Lines')}>
+                {lines.map((line) => (
+                  <option key={line.id} value={`line:${line.id}`}>
+                    {line.label}
+                  </option>
+                ))}
+              </optgroup>
+            ) : null}
+          </select>
+          <select value={rangeId} onChange={(event) => setRangeId(event.target.value)}>
+            {TREND_RANGES.map((item) => (
+              <option key={item.id} value={item.id}>
+                {txt(item.ar, item.en)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {history === null ? (
+        <p className="empty">{txt('جاري التحميل...', 'Loading...')}</p>
+      ) : (
+        <div className="ops-trends-grid">
+          <OpsTrendChart
+            title={txt('السائقون المتصلون', 'Online drivers')}
+            timestamps={timestamps}
+            series={[
+              {
+                label: txt('متصل', 'online'),
+                color: '#0ea5e9',
+                values: timeline.map((point) => average(point.bucket, 'driversOnline')),
+              },
+              {
+                label: txt('متاح', 'available'),
+                color: '#22c55e',
+                values: timeline.map((point) => average(point.bucket, 'driversAvailable')),
+              },
+            ]}
+          />
+          <OpsTrendChart
+            title={txt('الرحلات المعلقة', 'Pending trips')}
+            timestamps={timestamps}
+            series={[
+              {
+                label: txt('معلقة', 'pending'),
+                color: '#f59e0b',
+                values: timeline.map((point) => average(point.bucket, 'tripsPending')),
+              },
+              {
+                label: txt('نشطة', 'active'),
+                color: '#6366f1',
+                values: timeline.map((point) => average(point.bucket, 'tripsActive')),
+              },
+            ]}
+          />
+          <OpsTrendChart
+            title={txt('نسب الإكمال والإلغاء', 'Completion / cancel rate')}
+            timestamps={timestamps}
+            unit="%"
+            maxValue={100}
+            series={[
+              {
+                label: txt('مكتملة', 'completed'),
+                color: '#16a34a',
+                values: timeline.map((point) => finishedShare(point.bucket, 'tripsCompleted')),
+              },
+              {
+                label: txt('ملغاة', 'cancelled'),
+                color: '#dc2626',
+                values: timeline.map((point) => finishedShare(point.bucket, 'tripsCancelled')),
+              },
+            ]}
+            note={txt('من الرحلات التي انتهت في كل فترة.', 'Of the trips that finished in each bucket.')}
+          />
+          <OpsTrendChart
+            title={txt('أخطاء العميل', 'Client errors')}
+            timestamps={timestamps}
+            series={[
+              {
+                label: txt('الكل', 'total'),
+                color: '#64748b',
+                values: isPlatform ? timeline.map((point) => errorCount(point.bucket, 'errorsTotal')) : [],
+              },
+              {
+                label: txt('حرجة', 'fatal'),
+                color: '#b91c1c',
+                values: isPlatform ? timeline.map((point) => errorCount(point.bucket, 'errorsFatal')) : [],
+              },
+            ]}
+            note={isPlatform ? null : txt('أخطاء العميل على مستوى المنصة فقط.', 'Client errors are tracked platform-wide only.')}
+          />
+        </div>
+      )}
+      <small className="ops-trends-hint">
+        {txt(
+          'القيم اللحظية (السائقون والرحلات) هي متوسط العينات في كل فترة.',
+          'Live values (drivers, trips) are averaged over the samples in each bucket.'
+        )}
+      </small>
+    </section>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useI18n } from '../localization';
+import {
+  CollectionItem,
+  PricingComparisonRow,
+  PricingProfileDraft,
+  comparePricingProfile,
+  rollbackPricingProfile,
+  simulatePricing,
+  subscribeCollection,
+} from '../services/operations.service';
+import './PricingWhatIfPanel.css';
+
+type VersionDoc = Record<string, unknown>;
+
+interface PricingWhatIfPanelProps {
+  profileId: string;
+  /** Draft built from the pricing profile form; throws on invalid JSON */
+  getDraft: () => PricingProfileDraft;
+}
+
+function toMillis(value: unknown): number | null {
+  if (value && typeof (value as { toMillis?: unknown }).toMillis === 'function') {
+    return (value as { toMillis: () => number }).toMillis();
+  }
+  return null;
+}
+
+function formatDateTime(ms: number | null, locale: string): string {
+  if (ms == null) return '--';
+  if (ms === 0) return locale === 'ar' ? 'منذ البداية' : 'Since start';
+  return new Date(ms).toLocaleString(locale === 'ar' ? 'ar' : 'en-GB');
+}
+
+function formatDelta(current: number, draft: number): string {
+  const delta = draft - current;
+  if (delta === 0) return '₪0';
+  return delta > 0 ? `+₪${delta}` : `-₪${Math.abs(delta)}`;
+}
+
+/**
+ * Version history with rollback, a single-ride simulator and a comparison
+ * of the current vs draft profile over recent trips.
+ */
+export function PricingWhatIfPanel({ profileId, getDraft }: PricingWhatIfPanelProps) {
+  const { txt, locale } = useI18n();
+  const [versions, setVersions] = useState<CollectionItem<VersionDoc>[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [simForm, setSimForm] = useState({
+    pickupLat: '31.9038',
+    pickupLng: '35.2034',
+    dropoffLat: '31.7683',
+    dropoffLng: '35.2137',
+    at: '',
+    requiredSeats: '1',
+  });
+  const [simResult, setSimResult] = useState<Awaited<ReturnType<typeof simulatePricing>> | null>(null);
+  const [tripLimit, setTripLimit] = useState('30');
+  const [comparison, setComparison] = useState<Awaited<ReturnType<typeof comparePricingProfile>> | null>(null);
+
+  useEffect(() => {
+    setVersions([]);
+    if (!profileId) return undefined;
+    return subscribeCollection<VersionDoc>(`pricingProfiles/${profileId}/versions`, setVersions, {
+      orderByField: 'version',
+      orderDirection: 'desc',
+      limitTo: 20,
+    });
+  }, [profileId]);
+
+  // Live version: latest effectiveFrom that has already started
+  const liveVersion = useMemo(() => {
+    const nowMs = Date.now();
+    let live: { version: number; effectiveFromMs: number } | null = null;
+    for (const item of versions) {
+      const effectiveFromMs = toMillis(item.data.effectiveFrom) ?? 0;
+      const version = Number(item.data.version) || 0;
+      if (effectiveFromMs > nowMs) continue;
+      if (
+        !live ||
+        effectiveFromMs > live.effectiveFromMs ||
+        (effectiveFromMs === live.effectiveFromMs && version > live.version)
+      ) {
+        live = { version, effectiveFromMs };
+      }
+    }
+    return live?.version ?? null;
+  }, [versions]);
+
+  const run = async (key: string, handler: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await handler();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : txt('تعذّر تنفيذ العملية', 'Operation failed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const onRollback = (version: number) =>
+    run(`rollback-${version}`, async () => {
+      await rollbackPricingProfile({ profileId, version });
+    });
+
+  const onSimulate = () =>
+    run('simulate', async () => {
+      const result = await simulatePricing({
+        profileId,
+        draft: getDraft(),
+        pickup: { lat: Number(simForm.pickupLat), lng: Number(simForm.pickupLng) },
+        dropoff: { lat: Number(simForm.dropoffLat), lng: Number(simForm.dropoffLng) },
+        at: simForm.at ? new Date(simForm.at).toISOString() : undefined,
+        requiredSeats: Number(simForm.requiredSeats) || 1,
+      });
+      setSimResult(result);
+    });
+
+  const onCompare = () =>
+    run('compare', async () => {
+      const result = await comparePricingProfile({
+        profileId,
+        draft: getDraft(),
+        tripLimit: Number(tripLimit) || 30,
+      });
+      setComparison(result);
+    });
+
+  return (
+    <section className="pricing-what-if">
+      <h3>
+        {txt('محاكاة التسعير', 'Pricing what-if')} · {profileId || '--'}
+      </h3>
+      {error ? <div className="ops-banner error">{error}</div> : null}
+
+      <div className="what-if-block">
+        <h4>{txt('سجل الإصدارات', 'Version history')}</h4>
+        {versions.length === 0 ? (
+          <p className="what-if-empty">{txt('لا توجد إصدارات بعد.', 'No versions yet.')}</p>
+        ) : (
+          <table className="what-if-table">
+            <thead>
+              <tr>
+                <th>{txt('الإصدار', 'Version')}</th>
+                <th>{txt('يسري من', 'Effective from')}</th>
+                <th>{txt('سعر الكم', 'Rate/km')}</th>
+                <th>{txt('الحد الأدنى', 'Minimum')}</th>
+                <th>{txt('الحالة', 'State')}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map((item) => {
+                const version = Number(item.data.version) || 0;
+                const effectiveFromMs = toMillis(item.data.effectiveFrom);
+                const isLive = version === liveVersion;
+                const isScheduled = effectiveFromMs != null && effectiveFromMs > Date.now();
+                const rolledBackFrom = Number(item.data.rolledBackFromVersion) || null;
+                return (
+                  <tr key={item.id} className={isLive ? 'live' : undefined}>
+                    <td>
+                      v{version}
+                      {rolledBackFrom ? ` ← v${rolledBackFrom}` : ''}
+                    </td>
+                    <td>{formatDateTime(effectiveFromMs, locale)}</td>
+                    <td>₪{String(item.data.baseRatePerKm ?? '--')}</td>
+                    <td>₪{String(item.data.minimumFareIls ?? '--')}</td>
+                    <td>
+                      {isLive
+                        ? txt('مفعّل', 'Live')
+                        : isScheduled
+                          ? txt('مجدول', 'Scheduled')
+                          : txt('سابق', 'Past')}
+                    </td>
+                    <td>
+                      {!isLive ? (
+                        <button
+                          type="button"
+                          disabled={busy !== null}
+                          onClick={() => void onRollback(version)}
+                        >
+                          {busy === `rollback-${version}` ? '...' : txt('استرجاع', 'Roll back')}
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="what-if-block">
+        <h4>{txt('محاكاة رحلة', 'Simulate a ride')}</h4>
+        <div className="what-if-inputs">
+          <input placeholder="Pickup lat" value={simForm.pickupLat} onChange={(e) => setSimForm((s) => ({ ...s, pickupLat: e.target.value }))} />
+          <input placeholder="Pickup lng" value={simForm.pickupLng} onChange={(e) => setSimForm((s) => ({ ...s, pickupLng: e.target.value }))} />
+          <input placeholder="Dropoff lat" value={simForm.dropoffLat} onChange={(e) => setSimForm((s) => ({ ...s, dropoffLat: e.target.value }))} />
+          <input placeholder="Dropoff lng" value={simForm.dropoffLng} onChange={(e) => setSimForm((s) => ({ ...s, dropoffLng: e.target.value }))} />
+          <input type="datetime-local" value={simForm.at} onChange={(e) => setSimForm((s) => ({ ...s, at: e.target.value }))} />
+          <input placeholder="Seats" value={simForm.requiredSeats} onChange={(e) => setSimForm((s) => ({ ...s, requiredSeats: e.target.value }))} />
+          <button type="button" disabled={busy !== null || !profileId} onClick={() => void onSimulate()}>
+            {busy === 'simulate' ? '...' : txt('محاكاة', 'Simulate')}
+          </button>
+        </div>
+        {simResult ? (
+          <div className="what-if-result">
+            <span>
+              {simResult.distanceKm} km · {simResult.durationMin} min
+            </span>
+            <span>
+              {txt('الحالي', 'Current')}: ₪{simResult.current.priceIls}
+            </span>
+            {simResult.draft ? (
+              <span>
+                {txt('المسودة', 'Draft')}: ₪{simResult.draft.priceIls} (
+                {formatDelta(simResult.current.priceIls, simResult.draft.priceIls)})
+              </span>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+
+      <div className="what-if-block">
+        <h4>{txt('مقارنة على رحلات حديثة', 'Compare on recent trips')}</h4>
+        <div className="what-if-inputs">
+          <input placeholder="Trips" value={tripLimit} onChange={(e) => setTripLimit(e.target.value)} />
+          <button type="button" disabled={busy !== null || !profileId} onClick={() => void onCompare()}>
+            {busy === 'compare' ? '...' : txt('مقارنة', 'Compare')}
+          </button>
+        </div>
+        {comparison ? (
+          comparison.rows.length === 0 ? (
+            <p className="what-if-empty">
+              {txt('لا توجد رحلات حديثة بهذا الملف.', 'No recent trips were priced with this profile.')}
+            </p>
+          ) : (
+            <table className="what-if-table">
+              <thead>
+                <tr>
+                  <th>{txt('الرحلة', 'Trip')}</th>
+                  <th>{txt('المسافة', 'Distance')}</th>
+                  <th>{txt('المدفوع', 'Charged')}</th>
+                  <th>{txt('الحالي', 'Current')}</th>
+                  <th>{txt('المسودة', 'Draft')}</th>
+                  <th>{txt('الفرق', 'Delta')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.rows.map((row: PricingComparisonRow) => (
+                  <tr key={row.tripId}>
+                    <td title={row.createdAt ?? undefined}>{row.tripId.slice(0, 8)}</td>
+                    <td>{row.distanceKm} km</td>
+                    <td>₪{row.chargedPriceIls}</td>
+                    <td>₪{row.currentPriceIls}</td>
+                    <td>₪{row.draftPriceIls}</td>
+                    <td>{formatDelta(row.currentPriceIls, row.draftPriceIls)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td>{txt('المجموع', 'Total')}</td>
+                  <td />
+                  <td>₪{comparison.totals.chargedIls}</td>
+                  <td>₪{comparison.totals.currentIls}</td>
+                  <td>₪{comparison.totals.draftIls}</td>
+                  <td>
+                    {comparison.totals.changePct > 0 ? '+' : ''}
+                    {comparison.totals.changePct}%
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          )
+        ) : null}
+      </div>
+    </section>
+  );
+}
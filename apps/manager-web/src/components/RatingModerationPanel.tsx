@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { RATING_QUALITY_RULES, RatingSubject } from '@taxi-line/shared';
+import { useI18n } from '../localization';
+import { RatingEntry, moderateRatingComment, subscribeRecentRatings } from '../services/ratings.service';
+import './RatingModerationPanel.css';
+
+/**
+ * Recent ratings with their comments. Managers can hide abusive comments
+ * from the rated user and restore them later.
+ */
+export function RatingModerationPanel() {
+  const { txt, locale } = useI18n();
+  const [subject, setSubject] = useState<RatingSubject>('driver');
+  const [lowOnly, setLowOnly] = useState(true);
+  const [ratings, setRatings] = useState<RatingEntry[] | null>(null);
+  const [busyTripId, setBusyTripId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRatings(null);
+    return subscribeRecentRatings(subject, setRatings);
+  }, [subject]);
+
+  const visible = (ratings ?? []).filter(
+    (entry) =>
+      !lowOnly ||
+      entry.rating <= RATING_QUALITY_RULES.LOW_RATING_MAX ||
+      entry.commentHidden ||
+      Boolean(entry.lowRatingReason)
+  );
+
+  const onModerate = async (entry: RatingEntry, hidden: boolean) => {
+    let reason: string | undefined;
+    if (hidden) {
+      const input = window.prompt(txt('سبب الإخفاء (اختياري)', 'Reason for hiding (optional)'));
+      if (input === null) return;
+      reason = input.trim() || undefined;
+    }
+
+    setBusyTripId(entry.tripId);
+    setError(null);
+    try {
+      await moderateRatingComment({ subject, tripId: entry.tripId, hidden, ...(reason ? { reason } : {}) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : txt('تعذّر تحديث التعليق.', 'Failed to update the comment.'));
+    } finally {
+      setBusyTripId(null);
+    }
+  };
+
+  return (
+    <section className="rating-moderation">
+      <div className="rating-moderation-header">
+        <h3>{txt('مراجعة التقييمات', 'Rating moderation')}</h3>
+        <div className="rating-moderation-filters">
+          <select value={subject} onChange={(event) => setSubject(event.target.value as RatingSubject)}>
+            <option value="driver">{txt('تقييمات السائقين', 'Ratings of drivers')}</option>
+            <option value="passenger">{txt('تقييمات الركاب', 'Ratings of passengers')}</option>
+          </select>
+          <label>
+            <input type="checkbox" checked={lowOnly} onChange={(event) => setLowOnly(event.target.checked)} />
+            {txt('المنخفضة وذات الشكاوى فقط', 'Low or with complaints only')}
+          </label>
+        </div>
+      </div>
+
+      {error ? <div className="page-error">{error}</div> : null}
+
+      {ratings === null ? (
+        <p>{txt('جاري التحميل...', 'Loading...')}</p>
+      ) : visible.length === 0 ? (
+        <p className="rating-moderation-empty">{txt('لا توجد تقييمات.', 'No ratings to review.')}</p>
+      ) : (
+        <ul className="rating-moderation-list">
+          {visible.map((entry) => (
+            <li key={entry.tripId} className={entry.rating <= RATING_QUALITY_RULES.LOW_RATING_MAX ? 'low' : ''}>
+              <div className="rating-moderation-meta">
+                <strong>{'★'.repeat(entry.rating)}</strong>
+                <span>
+                  {subject === 'driver' ? txt('السائق', 'driver') : txt('الراكب', 'passenger')}:{' '}
+                  {subject === 'driver' ? entry.driverId : entry.passengerId}
+                </span>
+                <span>
+                  {txt('الرحلة', 'trip')}: {entry.tripId}
+                </span>
+                <span>
+                  {entry.createdAt ? entry.createdAt.toLocaleString(locale === 'ar' ? 'ar-PS' : 'en-US') : '--'}
+                </span>
+              </div>
+              {entry.lowRatingReason ? <span className="rating-reason">{entry.lowRatingReason}</span> : null}
+              {entry.commentHidden ? (
+                <em className="rating-comment hidden">{txt('التعليق مخفي', 'Comment hidden')}</em>
+              ) : entry.comment ? (
+                <p className="rating-comment">{entry.comment}</p>
+              ) : null}
+              {entry.commentHidden || entry.comment ? (
+                <button
+                  className="action-btn"
+                  onClick={() => onModerate(entry, !entry.commentHidden)}
+                  disabled={busyTripId === entry.tripId}
+                >
+                  {entry.commentHidden ? txt('استعادة التعليق', 'Restore comment') : txt('إخفاء التعليق', 'Hide comment')}
+                </button>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from '../localization';
+import { RoadblockHistoryData, subscribeToRoadblockHistory } from '../services/roadblocks.service';
+
+const REASON_LABELS: Record<string, { ar: string; en: string }> = {
+  manual: { ar: 'يدوي', en: 'Manual' },
+  schedule: { ar: 'الجدول', en: 'Schedule' },
+  expired: { ar: 'انتهاء الصلاحية', en: 'Expired' },
+  driver_reports: { ar: 'بلاغات السائقين', en: 'Driver reports' },
+};
+
+/**
+ * Latest status changes of a roadblock
+ */
+export function RoadblockHistoryList({ roadblockId }: { roadblockId: string }) {
+  const { txt, locale } = useI18n();
+  const [entries, setEntries] = useState<RoadblockHistoryData[] | null>(null);
+
+  useEffect(() => {
+    return subscribeToRoadblockHistory(roadblockId, setEntries, (error) => {
+      console.error('Roadblock history subscription error:', error);
+      setEntries([]);
+    });
+  }, [roadblockId]);
+
+  if (!entries) {
+    return <div className="roadblock-history">{txt('جاري التحميل...', 'Loading...')}</div>;
+  }
+
+  if (entries.length === 0) {
+    return <div className="roadblock-history">{txt('لا توجد تغييرات مسجلة.', 'No recorded changes.')}</div>;
+  }
+
+  return (
+    <ul className="roadblock-history">
+      {entries.map((entry) => {
+        const reason = REASON_LABELS[entry.reason];
+        return (
+          <li key={entry.id}>
+            <span className="history-time">
+              {entry.changedAt ? entry.changedAt.toLocaleString(locale === 'ar' ? 'ar' : 'en-GB') : '--'}
+            </span>
+            <span>
+              {entry.fromStatus ?? '—'} → <strong>{entry.toStatus}</strong>
+            </span>
+            <span className="history-reason">
+              {reason ? txt(reason.ar, reason.en) : entry.reason} · {entry.changedBy}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
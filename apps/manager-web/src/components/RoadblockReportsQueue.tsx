@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from '../localization';
+import {
+  RoadblockData,
+  RoadblockReportData,
+  RoadblockReportReviewInput,
+  reviewRoadblockReport,
+  subscribeToPendingRoadblockReports,
+} from '../services/roadblocks.service';
+import './RoadblockReportsQueue.css';
+
+interface RoadblockReportsQueueProps {
+  /** Merge targets */
+  roadblocks: RoadblockData[];
+}
+
+interface ReportDraft {
+  name: string;
+  mergeTargetId: string;
+}
+
+/**
+ * Pending driver roadblock reports with approve / merge / reject actions.
+ */
+export function RoadblockReportsQueue({ roadblocks }: RoadblockReportsQueueProps) {
+  const { txt } = useI18n();
+  const [reports, setReports] = useState<RoadblockReportData[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, ReportDraft>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToPendingRoadblockReports(setReports, (subscriptionError) => {
+      console.error('Roadblock reports subscription error:', subscriptionError);
+      setError(txt('تعذّر تحميل بلاغات السائقين.', 'Could not load driver reports.'));
+    });
+    return () => unsubscribe();
+  }, [txt]);
+
+  const getDraft = (report: RoadblockReportData): ReportDraft =>
+    drafts[report.id] ?? { name: '', mergeTargetId: report.nearbyRoadblockId ?? '' };
+
+  const updateDraft = (report: RoadblockReportData, patch: Partial<ReportDraft>) => {
+    setDrafts((current) => ({ ...current, [report.id]: { ...getDraft(report), ...patch } }));
+  };
+
+  const runReview = async (input: RoadblockReportReviewInput) => {
+    setBusyId(input.reportId);
+    setError(null);
+    try {
+      await reviewRoadblockReport(input);
+    } catch (reviewError) {
+      console.error('Failed to review roadblock report:', reviewError);
+      setError(
+        reviewError instanceof Error
+          ? reviewError.message
+          : txt('تعذّر مراجعة البلاغ.', 'Failed to review report.')
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatExpiry = (date: Date | null): string => {
+    if (!date) return '--';
+    const mins = Math.max(0, Math.round((date.getTime() - Date.now()) / 60000));
+    return txt(`ينتهي خلال ${mins} دقيقة`, `Expires in ${mins}m`);
+  };
+
+  return (
+    <section className="roadblock-reports">
+      <h3>
+        {txt('بلاغات السائقين', 'Driver reports')} <span className="reports-count">{reports.length}</span>
+      </h3>
+      {error ? <div className="reports-error">{error}</div> : null}
+
+      {reports.length === 0 ? (
+        <p className="reports-empty">{txt('لا توجد بلاغات بانتظار المراجعة.', 'No reports awaiting review.')}</p>
+      ) : (
+        <div className="reports-list">
+          {reports.map((report) => {
+            const draft = getDraft(report);
+            const busy = busyId === report.id;
+
+            return (
+              <div key={report.id} className={`report-card status-${report.roadblockStatus}`}>
+                <div className="report-summary">
+                  <span className="report-status">
+                    {report.roadblockStatus === 'closed' ? txt('مغلق', 'Closed') : txt('مزدحم', 'Congested')}
+                  </span>
+                  <span className="report-confidence">
+                    {txt('الثقة', 'Confidence')}: {Math.round(report.confidence * 100)}%
+                  </span>
+                  <span>{txt(`${report.reportCount} سائق`, `${report.reportCount} driver(s)`)}</span>
+                  <span className="coords">
+                    {report.lat.toFixed(4)}, {report.lng.toFixed(4)}
+                  </span>
+                  <span className="report-expiry">{formatExpiry(report.expiresAt)}</span>
+                </div>
+
+                {report.notes.length > 0 ? (
+                  <ul className="report-notes">
+                    {report.notes.map((note, index) => (
+                      <li key={index}>{note}</li>
+                    ))}
+                  </ul>
+                ) : null}
+
+                <div className="report-actions">
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(event) => updateDraft(report, { name: event.target.value })}
+                    placeholder={txt('اسم الإغلاق', 'Roadblock name')}
+                  />
+                  <button
+                    disabled={busy || !draft.name.trim()}
+                    onClick={() => runReview({ action: 'approve', reportId: report.id, name: draft.name.trim() })}
+                  >
+                    {txt('اعتماد', 'Approve')}
+                  </button>
+
+                  <select
+                    value={draft.mergeTargetId}
+                    onChange={(event) => updateDraft(report, { mergeTargetId: event.target.value })}
+                  >
+                    <option value="">{txt('دمج مع...', 'Merge into...')}</option>
+                    {roadblocks.map((roadblock) => (
+                      <option key={roadblock.id} value={roadblock.id}>
+                        {roadblock.name}
+                        {roadblock.id === report.nearbyRoadblockId ? txt(' (قريب)', ' (nearby)') : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    disabled={busy || !draft.mergeTargetId}
+                    onClick={() =>
+                      runReview({ action: 'merge', reportId: report.id, roadblockId: draft.mergeTargetId })
+                    }
+                  >
+                    {txt('دمج', 'Merge')}
+                  </button>
+
+                  <button
+                    className="btn-reject"
+                    disabled={busy}
+                    onClick={() => runReview({ action: 'reject', reportId: report.id })}
+                  >
+                    {txt('رفض', 'Reject')}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,127 @@
+import type { RoadblockScheduleWindow } from '@taxi-line/shared';
+import { useI18n } from '../localization';
+import './RoadblockScheduleEditor.css';
+
+const DAY_LABELS = [
+  { ar: 'أحد', en: 'Sun' },
+  { ar: 'اثنين', en: 'Mon' },
+  { ar: 'ثلاثاء', en: 'Tue' },
+  { ar: 'أربعاء', en: 'Wed' },
+  { ar: 'خميس', en: 'Thu' },
+  { ar: 'جمعة', en: 'Fri' },
+  { ar: 'سبت', en: 'Sat' },
+];
+
+const DEFAULT_WINDOW: RoadblockScheduleWindow = {
+  daysOfWeek: [5],
+  startMinute: 8 * 60,
+  endMinute: 14 * 60,
+  status: 'closed',
+};
+
+export function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function timeToMinutes(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * One-line description of a window, e.g. "Fri, Sat 22:00–05:00"
+ */
+export function formatScheduleWindow(window: RoadblockScheduleWindow, locale: string): string {
+  const days = window.daysOfWeek
+    .map((day) => (locale === 'ar' ? DAY_LABELS[day]?.ar : DAY_LABELS[day]?.en))
+    .join(locale === 'ar' ? '، ' : ', ');
+  return `${days} ${minutesToTime(window.startMinute)}–${minutesToTime(window.endMinute)}`;
+}
+
+interface RoadblockScheduleEditorProps {
+  windows: RoadblockScheduleWindow[];
+  onChange: (windows: RoadblockScheduleWindow[]) => void;
+}
+
+/**
+ * Weekly closure windows (ops time zone). Outside every window the
+ * roadblock is open.
+ */
+export function RoadblockScheduleEditor({ windows, onChange }: RoadblockScheduleEditorProps) {
+  const { txt, locale } = useI18n();
+
+  const updateWindow = (index: number, patch: Partial<RoadblockScheduleWindow>) => {
+    onChange(windows.map((window, i) => (i === index ? { ...window, ...patch } : window)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const current = windows[index]?.daysOfWeek ?? [];
+    const daysOfWeek = current.includes(day)
+      ? current.filter((item) => item !== day)
+      : [...current, day].sort((a, b) => a - b);
+    updateWindow(index, { daysOfWeek });
+  };
+
+  return (
+    <div className="schedule-editor">
+      {windows.length === 0 ? (
+        <p className="schedule-empty">{txt('بدون جدول — الحالة تُضبط يدويًا.', 'No schedule — status is set by hand.')}</p>
+      ) : null}
+
+      {windows.map((window, index) => (
+        <div key={index} className="schedule-window">
+          <div className="schedule-days">
+            {DAY_LABELS.map((label, day) => (
+              <label key={day} className={window.daysOfWeek.includes(day) ? 'active' : ''}>
+                <input
+                  type="checkbox"
+                  checked={window.daysOfWeek.includes(day)}
+                  onChange={() => toggleDay(index, day)}
+                />
+                {locale === 'ar' ? label.ar : label.en}
+              </label>
+            ))}
+          </div>
+          <div className="schedule-times">
+            <input
+              type="time"
+              value={minutesToTime(window.startMinute)}
+              onChange={(event) => updateWindow(index, { startMinute: timeToMinutes(event.target.value) })}
+              required
+            />
+            <span>–</span>
+            <input
+              type="time"
+              value={minutesToTime(window.endMinute)}
+              onChange={(event) => updateWindow(index, { endMinute: timeToMinutes(event.target.value) })}
+              required
+            />
+            <select
+              value={window.status}
+              onChange={(event) =>
+                updateWindow(index, { status: event.target.value as RoadblockScheduleWindow['status'] })
+              }
+            >
+              <option value="closed">{txt('مغلق', 'Closed')}</option>
+              <option value="congested">{txt('مزدحم', 'Congested')}</option>
+            </select>
+            <button type="button" onClick={() => onChange(windows.filter((_, i) => i !== index))}>
+              {txt('إزالة', 'Remove')}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button type="button" className="schedule-add" onClick={() => onChange([...windows, { ...DEFAULT_WINDOW }])}>
+        {txt('إضافة فترة', 'Add window')}
+      </button>
+      <p className="schedule-hint">
+        {txt(
+          'الأوقات بتوقيت التشغيل. إذا كانت النهاية قبل البداية تمتد الفترة لليوم التالي.',
+          'Times are in ops local time. An end before the start runs past midnight.'
+        )}
+      </p>
+    </div>
+  );
+}
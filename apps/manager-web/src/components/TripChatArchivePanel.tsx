@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from '../localization';
+import {
+  TripChatTranscript,
+  getTripChatMessageText,
+  subscribeTripChatTranscript,
+} from '../services/trip-chat.service';
+import './TripChatArchivePanel.css';
+
+/**
+ * Passenger/driver chat of a trip for dispute review, with the unmasked
+ * text of filtered messages
+ */
+export function TripChatArchivePanel({ tripId }: { tripId: string }) {
+  const { txt, locale } = useI18n();
+  const [transcript, setTranscript] = useState<TripChatTranscript | null>(null);
+
+  useEffect(() => {
+    setTranscript(null);
+    return subscribeTripChatTranscript(tripId, setTranscript);
+  }, [tripId]);
+
+  const formatTime = (value: Date | null) =>
+    value ? value.toLocaleString(locale === 'ar' ? 'ar-PS' : 'en-US', { dateStyle: 'short', timeStyle: 'short' }) : '--';
+
+  return (
+    <section className="trip-chat-archive">
+      <header className="trip-chat-archive-header">
+        <h4>{txt('محادثة الرحلة', 'Trip chat')}</h4>
+        {transcript ? (
+          <span className="trip-chat-archive-state">
+            {transcript.archived
+              ? `${txt('مؤرشفة', 'Archived')} ${formatTime(transcript.archivedAt)}`
+              : txt('الرحلة جارية', 'Trip in progress')}
+          </span>
+        ) : null}
+      </header>
+
+      {!transcript ? (
+        <p className="empty">{txt('جاري التحميل...', 'Loading...')}</p>
+      ) : transcript.messages.length === 0 ? (
+        <p className="empty">{txt('لا توجد رسائل في هذه الرحلة.', 'No messages on this trip.')}</p>
+      ) : (
+        <ol className="trip-chat-archive-messages">
+          {transcript.messages.map((message) => (
+            <li key={message.messageId} className={`trip-chat-archive-message ${message.senderRole}`}>
+              <span className="trip-chat-archive-meta">
+                {message.senderRole === 'driver'
+                  ? txt('السائق', 'Driver')
+                  : message.senderRole === 'passenger'
+                    ? txt('الراكب', 'Passenger')
+                    : txt('النظام', 'System')}{' '}
+                · {formatTime(message.createdAt)}
+                {message.readAt
+                  ? ` · ${txt('قُرئت', 'read')} ${formatTime(message.readAt)}`
+                  : message.deliveredAt
+                    ? ` · ${txt('وصلت', 'delivered')}`
+                    : ''}
+              </span>
+              <p>{getTripChatMessageText(message, locale)}</p>
+              {message.originalText !== null ? (
+                <p className="trip-chat-archive-original">
+                  {txt('النص الأصلي', 'Original')} ({message.moderationFlags.join(', ')}): {message.originalText}
+                </p>
+              ) : null}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -5,10 +5,14 @@ import { App } from './App';
 import { LiveMapPage } from './pages/LiveMapPage';
 import { DriversListPage } from './pages/DriversListPage';
 import { PaymentsListPage } from './pages/PaymentsListPage';
+import { SettlementsPage } from './pages/SettlementsPage';
 import { RoadblocksPage } from './pages/RoadblocksPage';
 import { SystemSettingsPage } from './pages/SystemSettingsPage';
 import { OperationsPage } from './pages/OperationsPage';
 import { MonitoringPage } from './pages/MonitoringPage';
+import { ScheduledRidesPage } from './pages/ScheduledRidesPage';
+import { PromoCodesPage } from './pages/PromoCodesPage';
+import { SupportPage } from './pages/SupportPage';
 import { installWebErrorTracking } from './services/error-tracking.service';
 import { I18nProvider } from './localization';
 import '@waselneh/ui/tokens.css';
@@ -27,7 +31,11 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
             <Route path="live-map" element={<LiveMapPage />} />
             <Route path="drivers" element={<DriversListPage />} />
             <Route path="payments" element={<PaymentsListPage />} />
+            <Route path="settlements" element={<SettlementsPage />} />
+            <Route path="scheduled-rides" element={<ScheduledRidesPage />} />
+            <Route path="promotions" element={<PromoCodesPage />} />
             <Route path="roadblocks" element={<RoadblocksPage />} />
+            <Route path="support" element={<SupportPage />} />
             <Route path="settings" element={<SystemSettingsPage />} />
             <Route path="operations" element={<OperationsPage />} />
             <Route path="monitoring" element={<MonitoringPage />} />
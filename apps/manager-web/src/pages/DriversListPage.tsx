@@ -1,10 +1,12 @@
 import { useEffect, useMemo, useState } from 'react';
+import { RatingModerationPanel } from '../components/RatingModerationPanel';
 import { useI18n } from '../localization';
 import {
   DriverDocument,
   subscribeToDrivers,
   upsertDriverEligibility,
 } from '../services/drivers.service';
+import { RatingQualityEntry, setDriverReview, subscribeRatingQuality } from '../services/ratings.service';
 import './DriversListPage.css';
 
 const STALE_THRESHOLD_MS = 10 * 1000;
@@ -132,6 +134,28 @@ function getStatusBadge(
   }
 }
 
+function getQualityBadge(
+  status: DriverDocument['qualityStatus'],
+  txt: (ar: string, en: string) => string
+): { text: string; className: string } {
+  switch (status) {
+    case 'on_review':
+      return { text: txt('قيد المراجعة', 'On review'), className: 'on-review' };
+    case 'watch':
+      return { text: txt('تحت المتابعة', 'Watch'), className: 'watch' };
+    default:
+      return { text: txt('جيد', 'Good'), className: 'good' };
+  }
+}
+
+function topComplaints(quality: RatingQualityEntry | undefined): string[] {
+  if (!quality) return [];
+  return Object.entries(quality.reasonCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([reason, count]) => `${reason} ×${count}`);
+}
+
 function hasLineOrLicenseLink(lineId: string, licenseId: string): boolean {
   return lineId.trim().length > 0 || licenseId.trim().length > 0;
 }
@@ -213,6 +237,7 @@ export function DriversListPage() {
   const [drafts, setDrafts] = useState<Record<string, DriverDraft>>({});
   const [savingByDriverId, setSavingByDriverId] = useState<Record<string, boolean>>({});
   const [pageError, setPageError] = useState<string | null>(null);
+  const [qualityByDriverId, setQualityByDriverId] = useState<Record<string, RatingQualityEntry>>({});
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -241,6 +266,18 @@ export function DriversListPage() {
     return () => unsubscribe();
   }, []);
 
+  useEffect(
+    () =>
+      subscribeRatingQuality((entries) => {
+        const byDriverId: Record<string, RatingQualityEntry> = {};
+        for (const entry of entries) {
+          if (entry.subject === 'driver') byDriverId[entry.userId] = entry;
+        }
+        setQualityByDriverId(byDriverId);
+      }),
+    []
+  );
+
   const driversWithActivity: DriverWithActivity[] = useMemo(
     () =>
       drivers.map((driver) => ({
@@ -254,6 +291,7 @@ export function DriversListPage() {
   const onlineCount = driversWithActivity.filter((d) => d.activityState === 'online').length;
   const staleCount = driversWithActivity.filter((d) => d.activityState === 'stale').length;
   const offlineCount = driversWithActivity.filter((d) => d.activityState === 'offline').length;
+  const onReviewCount = drivers.filter((d) => d.qualityStatus === 'on_review').length;
 
   const setDraftField = <K extends keyof DriverDraft>(
     driverId: string,
@@ -360,6 +398,26 @@ export function DriversListPage() {
     }
   };
 
+  const toggleDriverReview = async (driver: DriverDocument) => {
+    const onReview = driver.qualityStatus !== 'on_review';
+    const note = window.prompt(
+      onReview
+        ? txt('سبب وضع السائق قيد المراجعة (اختياري)', 'Why is this driver going on review? (optional)')
+        : txt('ملاحظة إنهاء المراجعة (اختياري)', 'Review outcome note (optional)')
+    );
+    if (note === null) return;
+
+    setSavingByDriverId((current) => ({ ...current, [driver.id]: true }));
+    setPageError(null);
+    try {
+      await setDriverReview({ driverId: driver.id, onReview, ...(note.trim() ? { note: note.trim() } : {}) });
+    } catch (error) {
+      setPageError(error instanceof Error ? error.message : txt('تعذّر تحديث مراجعة السائق.', 'Failed to update driver review.'));
+    } finally {
+      setSavingByDriverId((current) => ({ ...current, [driver.id]: false }));
+    }
+  };
+
   if (loading) {
     return (
       <div className="drivers-page">
@@ -383,6 +441,7 @@ export function DriversListPage() {
         <span className="online-count">{txt(`${onlineCount} متصل`, `${onlineCount} Online`)}</span>
         <span className="stale-count">{txt(`${staleCount} غير محدث`, `${staleCount} Stale`)}</span>
         <span className="offline-count">{txt(`${offlineCount} غير متصل`, `${offlineCount} Offline`)}</span>
+        <span className="review-count">{txt(`${onReviewCount} قيد المراجعة`, `${onReviewCount} On review`)}</span>
       </div>
 
       {pageError ? <div className="page-error">{pageError}</div> : null}
@@ -411,6 +470,8 @@ export function DriversListPage() {
                 const isSaving = savingByDriverId[driver.id] === true;
                 const availableSeatsText =
                   typeof driver.availableSeats === 'number' ? String(driver.availableSeats) : '--';
+                const qualityBadge = getQualityBadge(driver.qualityStatus, txt);
+                const complaints = topComplaints(qualityByDriverId[driver.id]);
 
                 return (
                   <tr key={driver.id} className={driver.activityState}>
@@ -418,6 +479,25 @@ export function DriversListPage() {
                       <div className="driver-id">{driver.id}</div>
                       <div className="timestamp">{formatRelativeTime(driver.lastSeen, txt)}</div>
                       <span className={`status-badge ${driver.activityState}`}>{badge.text}</span>
+                      <div className="driver-quality">
+                        <span className="driver-rating">
+                          {typeof driver.rating === 'number' ? `★ ${driver.rating.toFixed(2)}` : '★ --'} (
+                          {driver.ratingCount ?? 0})
+                        </span>
+                        <span className={`quality-badge ${qualityBadge.className}`}>{qualityBadge.text}</span>
+                        {complaints.length > 0 ? (
+                          <div className="quality-complaints">{complaints.join('، ')}</div>
+                        ) : null}
+                        <button
+                          className="action-btn review"
+                          onClick={() => toggleDriverReview(driver)}
+                          disabled={isSaving}
+                        >
+                          {driver.qualityStatus === 'on_review'
+                            ? txt('إنهاء المراجعة', 'Clear review')
+                            : txt('وضع قيد المراجعة', 'Put on review')}
+                        </button>
+                      </div>
                     </td>
 
                     <td>
@@ -627,6 +707,8 @@ export function DriversListPage() {
           </table>
         </div>
       )}
+
+      <RatingModerationPanel />
     </div>
   );
 }
@@ -25,6 +25,7 @@ const TRIP_STATUS_META: Record<
   no_driver_available: { ar: 'لا يوجد سائق', en: 'No driver available', color: '#DC2626' },
   cancelled_by_passenger: { ar: 'ألغاه الراكب', en: 'Cancelled by passenger', color: '#DC2626' },
   cancelled_by_driver: { ar: 'ألغاه السائق', en: 'Cancelled by driver', color: '#DC2626' },
+  passenger_no_show: { ar: 'الراكب لم يحضر', en: 'Passenger no-show', color: '#DC2626' },
 };
 
 const PAYMENT_STATUS_META: Record<string, { ar: string; en: string; color: string }> = {
@@ -1,16 +1,65 @@
-import { useEffect, useMemo, useState } from 'react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import {
+  ALERT_RULE_COMPARISON_SYMBOLS,
+  ALERT_RULE_METRIC_INFO,
+  AlertEscalationPolicy,
+  AlertRule,
+  DEFAULT_ALERT_ESCALATION_POLICY_ID,
+} from '@taxi-line/shared';
+import { AlertNotificationLog } from '../components/AlertNotificationLog';
+import { AlertRuleEditor, METRIC_LABELS } from '../components/AlertRuleEditor';
+import { AlertRuleFiringHistory } from '../components/AlertRuleFiringHistory';
+import { CHANNEL_LABELS, EscalationPolicyEditor } from '../components/EscalationPolicyEditor';
+import { OpsTrendsPanel } from '../components/OpsTrendsPanel';
 import { useI18n } from '../localization';
-import { acknowledgeAlert } from '../services/operations.service';
 import {
+  CollectionItem,
+  acknowledgeAlert,
+  subscribeCollection,
+  upsertAlertRule,
+  upsertEscalationPolicy,
+} from '../services/operations.service';
+import {
+  AlertEscalationPolicyData,
+  AlertRuleData,
   OpsAlert,
   OpsError,
   OpsMetrics,
+  subscribeAlertRules,
+  subscribeEscalationPolicies,
   subscribeOpsAlerts,
   subscribeOpsErrors,
   subscribeOpsMetrics,
 } from '../services/monitoring.service';
 import './MonitoringPage.css';
 
+type OfficeDoc = { name?: string; code?: string };
+type LineDoc = { name?: string; code?: string };
+
+function toEditableRule(rule: AlertRuleData): AlertRule {
+  return {
+    name: rule.name,
+    metric: rule.metric,
+    comparison: rule.comparison,
+    threshold: rule.threshold,
+    windowMinutes: rule.windowMinutes,
+    severity: rule.severity,
+    officeId: rule.officeId,
+    cooldownMinutes: rule.cooldownMinutes,
+    enabled: rule.enabled,
+    escalationPolicyId: rule.escalationPolicyId ?? null,
+  };
+}
+
+function toEditablePolicy(policy: AlertEscalationPolicyData): AlertEscalationPolicy {
+  return {
+    name: policy.name,
+    steps: policy.steps,
+    webhookUrl: policy.webhookUrl ?? null,
+    enabled: policy.enabled,
+  };
+}
+
 function formatDate(value: Date | null | undefined, locale: 'ar' | 'en'): string {
   if (!value) return locale === 'ar' ? '--' : '--';
   return value.toLocaleString(locale === 'ar' ? 'ar-PS' : 'en-US');
@@ -21,7 +70,19 @@ export function MonitoringPage() {
   const [metrics, setMetrics] = useState<OpsMetrics | null>(null);
   const [alerts, setAlerts] = useState<OpsAlert[]>([]);
   const [errors, setErrors] = useState<OpsError[]>([]);
+  const [rules, setRules] = useState<AlertRuleData[]>([]);
+  const [offices, setOffices] = useState<CollectionItem<OfficeDoc>[]>([]);
+  const [lines, setLines] = useState<CollectionItem<LineDoc>[]>([]);
   const [busyAlertId, setBusyAlertId] = useState<string | null>(null);
+  // null = editor closed, '' = new rule, otherwise the rule being edited
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
+  const [savingRule, setSavingRule] = useState(false);
+  const [policies, setPolicies] = useState<AlertEscalationPolicyData[]>([]);
+  // null = editor closed, '' = new policy, otherwise the policy being edited
+  const [editingPolicyId, setEditingPolicyId] = useState<string | null>(null);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const [logAlertId, setLogAlertId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -29,11 +90,56 @@ export function MonitoringPage() {
       subscribeOpsMetrics(setMetrics),
       subscribeOpsAlerts(setAlerts),
       subscribeOpsErrors(setErrors),
+      subscribeAlertRules(setRules),
+      subscribeEscalationPolicies(setPolicies),
+      subscribeCollection<OfficeDoc>('offices', setOffices, { orderByField: 'name', orderDirection: 'asc' }),
+      subscribeCollection<LineDoc>('lines', setLines, { orderByField: 'name', orderDirection: 'asc' }),
     ];
     return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, []);
 
   const openAlerts = useMemo(() => alerts.filter((alert) => alert.status === 'open'), [alerts]);
+  const officeOptions = useMemo(
+    () => offices.map((office) => ({ id: office.id, label: office.data.code || office.data.name || office.id })),
+    [offices]
+  );
+  const lineOptions = useMemo(
+    () => lines.map((line) => ({ id: line.id, label: line.data.code || line.data.name || line.id })),
+    [lines]
+  );
+  const editingRule = rules.find((rule) => rule.ruleId === editingRuleId);
+  const policyOptions = useMemo(
+    () => policies.map((policy) => ({ id: policy.policyId, label: policy.name })),
+    [policies]
+  );
+  const editingPolicy = policies.find((policy) => policy.policyId === editingPolicyId);
+  const hasDefaultPolicy = policies.some((policy) => policy.policyId === DEFAULT_ALERT_ESCALATION_POLICY_ID);
+
+  const onSavePolicy = async (policy: AlertEscalationPolicy, policyId?: string) => {
+    setSavingPolicy(true);
+    setError(null);
+    try {
+      await upsertEscalationPolicy(policyId ? { policyId, policy } : { policy });
+      setEditingPolicyId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : txt('تعذّر حفظ السياسة', 'Failed to save escalation policy'));
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  const onSaveRule = async (rule: AlertRule, ruleId?: string) => {
+    setSavingRule(true);
+    setError(null);
+    try {
+      await upsertAlertRule(ruleId ? { ruleId, rule } : { rule });
+      setEditingRuleId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : txt('تعذّر حفظ القاعدة', 'Failed to save alert rule'));
+    } finally {
+      setSavingRule(false);
+    }
+  };
 
   const onAcknowledge = async (alertId: string) => {
     setBusyAlertId(alertId);
@@ -99,6 +205,8 @@ export function MonitoringPage() {
         </article>
       </section>
 
+      <OpsTrendsPanel offices={officeOptions} lines={lineOptions} />
+
       <section className="monitoring-section">
         <h3>{txt(`التنبيهات النشطة (${openAlerts.length})`, `Active Alerts (${openAlerts.length})`)}</h3>
         {openAlerts.length === 0 ? (
@@ -123,6 +231,21 @@ export function MonitoringPage() {
                     ? `${formatDate(alert.acknowledgedAt, locale)} ${txt('بواسطة', 'by')} ${alert.acknowledgedBy ?? '--'}`
                     : txt('لا', 'no')}
                 </small>
+                {alert.escalationLevel > 0 ? (
+                  <small>
+                    {txt('مستوى التصعيد', 'escalation step')}: {alert.escalationLevel} ·{' '}
+                    {formatDate(alert.lastEscalatedAt, locale)}
+                  </small>
+                ) : null}
+                <button
+                  className="alert-log-toggle"
+                  onClick={() => setLogAlertId(logAlertId === alert.alertId ? null : alert.alertId)}
+                >
+                  {logAlertId === alert.alertId
+                    ? txt('إخفاء الإشعارات', 'Hide notifications')
+                    : txt('الإشعارات', 'Notifications')}
+                </button>
+                {logAlertId === alert.alertId ? <AlertNotificationLog alertId={alert.alertId} /> : null}
                 <button
                   onClick={() => onAcknowledge(alert.alertId)}
                   disabled={busyAlertId === alert.alertId}
@@ -137,6 +260,187 @@ export function MonitoringPage() {
         )}
       </section>
 
+      <section className="monitoring-section">
+        <div className="section-header">
+          <h3>{txt(`قواعد التنبيه (${rules.length})`, `Alert Rules (${rules.length})`)}</h3>
+          <button className="rule-new-button" onClick={() => setEditingRuleId('')} disabled={editingRuleId !== null}>
+            {txt('قاعدة جديدة', 'New rule')}
+          </button>
+        </div>
+
+        {editingRuleId === '' ? (
+          <AlertRuleEditor
+            offices={officeOptions}
+            policies={policyOptions}
+            saving={savingRule}
+            onSave={(rule) => onSaveRule(rule)}
+            onCancel={() => setEditingRuleId(null)}
+          />
+        ) : null}
+
+        {editingRule ? (
+          <AlertRuleEditor
+            key={editingRule.ruleId}
+            initialRule={toEditableRule(editingRule)}
+            offices={officeOptions}
+            policies={policyOptions}
+            saving={savingRule}
+            onSave={(rule) => onSaveRule(rule, editingRule.ruleId)}
+            onCancel={() => setEditingRuleId(null)}
+          />
+        ) : null}
+
+        {rules.length === 0 ? (
+          <p className="empty">
+            {txt(
+              'لا توجد قواعد بعد — تُنشأ القواعد الافتراضية عند أول تجميع.',
+              'No rules yet — the default rules are created on the next aggregation.'
+            )}
+          </p>
+        ) : (
+          <div className="errors-table-wrap">
+            <table className="errors-table rules-table">
+              <thead>
+                <tr>
+                  <th>{txt('القاعدة', 'Rule')}</th>
+                  <th>{txt('الشرط', 'Condition')}</th>
+                  <th>{txt('النطاق', 'Scope')}</th>
+                  <th>{txt('الحدة', 'Severity')}</th>
+                  <th>{txt('آخر قيمة', 'Last value')}</th>
+                  <th>{txt('آخر إطلاق', 'Last fired')}</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((rule) => {
+                  const info = ALERT_RULE_METRIC_INFO[rule.metric];
+                  const metricLabel = METRIC_LABELS[rule.metric];
+                  return (
+                    <Fragment key={rule.ruleId}>
+                      <tr className={rule.enabled ? '' : 'rule-disabled'}>
+                        <td>
+                          <strong>{rule.name}</strong>
+                          {rule.openFiringId ? <span className="rule-firing">{txt('يعمل', 'firing')}</span> : null}
+                          {rule.enabled ? null : <span className="rule-off">{txt('معطّلة', 'disabled')}</span>}
+                        </td>
+                        <td>
+                          {metricLabel ? txt(metricLabel.ar, metricLabel.en) : rule.metric}{' '}
+                          {ALERT_RULE_COMPARISON_SYMBOLS[rule.comparison]} {rule.threshold}
+                          {info?.windowed ? ` / ${rule.windowMinutes}m` : ''}
+                          {rule.cooldownMinutes > 0 ? (
+                            <small>
+                              {txt('تهدئة', 'cooldown')} {rule.cooldownMinutes}m
+                            </small>
+                          ) : null}
+                        </td>
+                        <td>
+                          {rule.officeId
+                            ? officeOptions.find((office) => office.id === rule.officeId)?.label ?? rule.officeId
+                            : txt('كل المكاتب', 'All offices')}
+                        </td>
+                        <td>{rule.severity}</td>
+                        <td>{rule.lastValue ?? '--'}</td>
+                        <td>{formatDate(rule.lastFiredAt, locale)}</td>
+                        <td className="rule-actions">
+                          <button onClick={() => setEditingRuleId(rule.ruleId)} disabled={editingRuleId !== null}>
+                            {txt('تعديل', 'Edit')}
+                          </button>
+                          <button
+                            onClick={() => setHistoryRuleId(historyRuleId === rule.ruleId ? null : rule.ruleId)}
+                          >
+                            {historyRuleId === rule.ruleId ? txt('إخفاء السجل', 'Hide history') : txt('السجل', 'History')}
+                          </button>
+                        </td>
+                      </tr>
+                      {historyRuleId === rule.ruleId ? (
+                        <tr>
+                          <td colSpan={7}>
+                            <AlertRuleFiringHistory ruleId={rule.ruleId} />
+                          </td>
+                        </tr>
+                      ) : null}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="monitoring-section">
+        <div className="section-header">
+          <h3>{txt(`سياسات التصعيد (${policies.length})`, `Escalation Policies (${policies.length})`)}</h3>
+          <button
+            className="rule-new-button"
+            onClick={() => setEditingPolicyId('')}
+            disabled={editingPolicyId !== null}
+          >
+            {txt('سياسة جديدة', 'New policy')}
+          </button>
+        </div>
+
+        {editingPolicyId === '' ? (
+          <EscalationPolicyEditor
+            canBeDefault={!hasDefaultPolicy}
+            saving={savingPolicy}
+            onSave={(policy, asDefault) =>
+              onSavePolicy(policy, asDefault ? DEFAULT_ALERT_ESCALATION_POLICY_ID : undefined)
+            }
+            onCancel={() => setEditingPolicyId(null)}
+          />
+        ) : null}
+
+        {editingPolicy ? (
+          <EscalationPolicyEditor
+            key={editingPolicy.policyId}
+            initialPolicy={toEditablePolicy(editingPolicy)}
+            canBeDefault={false}
+            saving={savingPolicy}
+            onSave={(policy) => onSavePolicy(policy, editingPolicy.policyId)}
+            onCancel={() => setEditingPolicyId(null)}
+          />
+        ) : null}
+
+        {policies.length === 0 ? (
+          <p className="empty">
+            {txt(
+              'لا توجد سياسات — التنبيهات لا تُصعَّد حتى تُنشأ سياسة افتراضية.',
+              'No policies — alerts are not escalated until a default policy exists.'
+            )}
+          </p>
+        ) : (
+          <div className="policies-grid">
+            {policies.map((policy) => (
+              <article key={policy.policyId} className={`policy-card ${policy.enabled ? '' : 'rule-disabled'}`}>
+                <header>
+                  <strong>{policy.name}</strong>
+                  {policy.policyId === DEFAULT_ALERT_ESCALATION_POLICY_ID ? (
+                    <span className="rule-firing">{txt('افتراضية', 'default')}</span>
+                  ) : null}
+                  {policy.enabled ? null : <span className="rule-off">{txt('معطّلة', 'disabled')}</span>}
+                </header>
+                <ol>
+                  {policy.steps.map((step, index) => (
+                    <li key={index}>
+                      +{step.afterMinutes}m · {step.roles.join(', ')} ·{' '}
+                      {step.channels
+                        .map((channel) => (locale === 'ar' ? CHANNEL_LABELS[channel].ar : CHANNEL_LABELS[channel].en))
+                        .join(', ')}
+                    </li>
+                  ))}
+                </ol>
+                <div className="rule-actions">
+                  <button onClick={() => setEditingPolicyId(policy.policyId)} disabled={editingPolicyId !== null}>
+                    {txt('تعديل', 'Edit')}
+                  </button>
+                </div>
+              </article>
+            ))}
+          </div>
+        )}
+      </section>
+
       <section className="monitoring-section">
         <h3>{txt('أخطاء العميل الأخيرة', 'Recent Client Errors')}</h3>
         {errors.length === 0 ? (
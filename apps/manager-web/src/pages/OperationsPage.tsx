@@ -1,7 +1,11 @@
 import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { ROUTE_FARE_CONFIG, SETTLEMENT_RULES } from '@taxi-line/shared';
+import { PricingWhatIfPanel } from '../components/PricingWhatIfPanel';
 import { useI18n } from '../localization';
 import {
   CollectionItem,
+  MatchingStrategy,
+  PricingProfileDraft,
   linkDriverToOperations,
   subscribeCollection,
   upsertLicense,
@@ -26,6 +30,14 @@ interface SnapshotState {
   managerRoles: CollectionItem<GenericDoc>[];
 }
 
+const MATCHING_STRATEGY_OPTIONS: { value: MatchingStrategy | ''; label: string }[] = [
+  { value: '', label: 'matching: inherit' },
+  { value: 'distance', label: 'matching: distance' },
+  { value: 'eta', label: 'matching: eta' },
+  { value: 'rating_weighted', label: 'matching: rating_weighted' },
+  { value: 'fairness', label: 'matching: fairness' },
+];
+
 const INITIAL_SNAPSHOTS: SnapshotState = {
   offices: [],
   lines: [],
@@ -61,6 +73,8 @@ export function OperationsPage() {
     city: '',
     contactPhone: '',
     dispatchMode: 'line_based' as 'line_based' | 'hybrid',
+    matchingStrategy: '' as MatchingStrategy | '',
+    commissionPct: '',
   });
 
   const [lineForm, setLineForm] = useState({
@@ -73,6 +87,8 @@ export function OperationsPage() {
     pricingProfileId: 'default',
     serviceAreaLabel: '',
     allowedVehicleTypes: 'taxi_standard,family_van,minibus,premium',
+    matchingStrategy: '' as MatchingStrategy | '',
+    commissionPct: '',
   });
 
   const [licenseForm, setLicenseForm] = useState({
@@ -109,12 +125,16 @@ export function OperationsPage() {
     baseRatePerKm: '0.5',
     minimumFareIls: '10',
     seatSurchargePerSeat: '2',
+    ratePerMinuteIls: '0',
+    fareToleranceBandPct: String(ROUTE_FARE_CONFIG.DEFAULT_TOLERANCE_BAND_PCT),
+    maxFareDeviationPct: String(ROUTE_FARE_CONFIG.DEFAULT_MAX_DEVIATION_PCT),
     vehicleMultipliersJson: '{"taxi_standard":1,"family_van":1.1,"minibus":1.2,"premium":1.35}',
     officeMultipliersJson: '{}',
     lineMultipliersJson: '{}',
     peakWindowsJson:
       '[{"id":"morning_peak","label":"Morning peak","daysOfWeek":[0,1,2,3,4,5],"startMinute":390,"endMinute":540,"multiplier":1.15}]',
     notes: '',
+    effectiveFrom: '',
   });
 
   const [pricingZoneForm, setPricingZoneForm] = useState({
@@ -214,6 +234,8 @@ export function OperationsPage() {
         city: officeForm.city,
         contactPhone: officeForm.contactPhone || undefined,
         dispatchMode: officeForm.dispatchMode,
+        matchingStrategy: officeForm.matchingStrategy || null,
+        commissionPct: officeForm.commissionPct.trim() ? Number(officeForm.commissionPct) : null,
       });
       if (!officeForm.officeId) {
         setOfficeForm((current) => ({ ...current, officeId: result.officeId }));
@@ -234,6 +256,8 @@ export function OperationsPage() {
         pricingProfileId: lineForm.pricingProfileId || undefined,
         serviceAreaLabel: lineForm.serviceAreaLabel || undefined,
         allowedVehicleTypes: commaSeparatedList(lineForm.allowedVehicleTypes),
+        matchingStrategy: lineForm.matchingStrategy || null,
+        commissionPct: lineForm.commissionPct.trim() ? Number(lineForm.commissionPct) : null,
       });
       if (!lineForm.lineId) {
         setLineForm((current) => ({ ...current, lineId: result.lineId }));
@@ -290,20 +314,30 @@ export function OperationsPage() {
     });
   };
 
+  const buildPricingProfileDraft = (): PricingProfileDraft => ({
+    name: pricingProfileForm.name,
+    baseRatePerKm: Number(pricingProfileForm.baseRatePerKm),
+    minimumFareIls: Number(pricingProfileForm.minimumFareIls),
+    seatSurchargePerSeat: Number(pricingProfileForm.seatSurchargePerSeat),
+    ratePerMinuteIls: Number(pricingProfileForm.ratePerMinuteIls),
+    fareToleranceBandPct: Number(pricingProfileForm.fareToleranceBandPct),
+    maxFareDeviationPct: Number(pricingProfileForm.maxFareDeviationPct),
+    vehicleMultipliers: JSON.parse(pricingProfileForm.vehicleMultipliersJson),
+    officeMultipliers: JSON.parse(pricingProfileForm.officeMultipliersJson),
+    lineMultipliers: JSON.parse(pricingProfileForm.lineMultipliersJson),
+    peakWindows: JSON.parse(pricingProfileForm.peakWindowsJson),
+    notes: pricingProfileForm.notes || undefined,
+  });
+
   const onSubmitPricingProfile = async (event: FormEvent) => {
     event.preventDefault();
     await safeRun('pricing-profile', async () => {
       await upsertPricingProfile({
+        ...buildPricingProfileDraft(),
         profileId: pricingProfileForm.profileId || 'default',
-        name: pricingProfileForm.name,
-        baseRatePerKm: Number(pricingProfileForm.baseRatePerKm),
-        minimumFareIls: Number(pricingProfileForm.minimumFareIls),
-        seatSurchargePerSeat: Number(pricingProfileForm.seatSurchargePerSeat),
-        vehicleMultipliers: JSON.parse(pricingProfileForm.vehicleMultipliersJson),
-        officeMultipliers: JSON.parse(pricingProfileForm.officeMultipliersJson),
-        lineMultipliers: JSON.parse(pricingProfileForm.lineMultipliersJson),
-        peakWindows: JSON.parse(pricingProfileForm.peakWindowsJson),
-        notes: pricingProfileForm.notes || undefined,
+        effectiveFrom: pricingProfileForm.effectiveFrom
+          ? new Date(pricingProfileForm.effectiveFrom).toISOString()
+          : undefined,
       });
     });
   };
@@ -373,6 +407,12 @@ export function OperationsPage() {
             <option value="line_based">line_based</option>
             <option value="hybrid">hybrid</option>
           </select>
+          <select value={officeForm.matchingStrategy} onChange={(e) => setOfficeForm((s) => ({ ...s, matchingStrategy: e.target.value as MatchingStrategy | '' }))}>
+            {MATCHING_STRATEGY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input placeholder="Commission % (empty = default)" type="number" min={0} max={SETTLEMENT_RULES.MAX_COMMISSION_PCT} step="0.5" value={officeForm.commissionPct} onChange={(e) => setOfficeForm((s) => ({ ...s, commissionPct: e.target.value }))} />
           <button disabled={saving === 'office'} type="submit">{saving === 'office' ? txt('جارٍ الحفظ...', 'Saving...') : txt('حفظ المكتب', 'Save Office')}</button>
         </form>
 
@@ -386,6 +426,12 @@ export function OperationsPage() {
           <input placeholder="Max seats" value={lineForm.maxSeats} onChange={(e) => setLineForm((s) => ({ ...s, maxSeats: e.target.value }))} required />
           <input placeholder="Pricing profile id" value={lineForm.pricingProfileId} onChange={(e) => setLineForm((s) => ({ ...s, pricingProfileId: e.target.value }))} />
           <input placeholder="Allowed vehicle types (csv)" value={lineForm.allowedVehicleTypes} onChange={(e) => setLineForm((s) => ({ ...s, allowedVehicleTypes: e.target.value }))} />
+          <select value={lineForm.matchingStrategy} onChange={(e) => setLineForm((s) => ({ ...s, matchingStrategy: e.target.value as MatchingStrategy | '' }))}>
+            {MATCHING_STRATEGY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input placeholder="Commission % (empty = office)" type="number" min={0} max={SETTLEMENT_RULES.MAX_COMMISSION_PCT} step="0.5" value={lineForm.commissionPct} onChange={(e) => setLineForm((s) => ({ ...s, commissionPct: e.target.value }))} />
           <button disabled={saving === 'line'} type="submit">{saving === 'line' ? txt('جارٍ الحفظ...', 'Saving...') : txt('حفظ الخط', 'Save Line')}</button>
         </form>
 
@@ -435,11 +481,18 @@ export function OperationsPage() {
           <input placeholder="Base rate per km" value={pricingProfileForm.baseRatePerKm} onChange={(e) => setPricingProfileForm((s) => ({ ...s, baseRatePerKm: e.target.value }))} required />
           <input placeholder="Minimum fare ILS" value={pricingProfileForm.minimumFareIls} onChange={(e) => setPricingProfileForm((s) => ({ ...s, minimumFareIls: e.target.value }))} required />
           <input placeholder="Seat surcharge per seat" value={pricingProfileForm.seatSurchargePerSeat} onChange={(e) => setPricingProfileForm((s) => ({ ...s, seatSurchargePerSeat: e.target.value }))} required />
+          <input placeholder="Rate per minute ILS" value={pricingProfileForm.ratePerMinuteIls} onChange={(e) => setPricingProfileForm((s) => ({ ...s, ratePerMinuteIls: e.target.value }))} required />
+          <input placeholder="Final fare tolerance band %" value={pricingProfileForm.fareToleranceBandPct} onChange={(e) => setPricingProfileForm((s) => ({ ...s, fareToleranceBandPct: e.target.value }))} required />
+          <input placeholder="Final fare max deviation %" value={pricingProfileForm.maxFareDeviationPct} onChange={(e) => setPricingProfileForm((s) => ({ ...s, maxFareDeviationPct: e.target.value }))} required />
           <textarea placeholder="Vehicle multipliers JSON" value={pricingProfileForm.vehicleMultipliersJson} onChange={(e) => setPricingProfileForm((s) => ({ ...s, vehicleMultipliersJson: e.target.value }))} rows={3} />
           <textarea placeholder="Office multipliers JSON" value={pricingProfileForm.officeMultipliersJson} onChange={(e) => setPricingProfileForm((s) => ({ ...s, officeMultipliersJson: e.target.value }))} rows={2} />
           <textarea placeholder="Line multipliers JSON" value={pricingProfileForm.lineMultipliersJson} onChange={(e) => setPricingProfileForm((s) => ({ ...s, lineMultipliersJson: e.target.value }))} rows={2} />
           <textarea placeholder="Peak windows JSON" value={pricingProfileForm.peakWindowsJson} onChange={(e) => setPricingProfileForm((s) => ({ ...s, peakWindowsJson: e.target.value }))} rows={4} />
           <textarea placeholder="Notes" value={pricingProfileForm.notes} onChange={(e) => setPricingProfileForm((s) => ({ ...s, notes: e.target.value }))} rows={2} />
+          <label>
+            {txt('يسري من (فارغ = الآن)', 'Effective from (empty = now)')}
+            <input type="datetime-local" value={pricingProfileForm.effectiveFrom} onChange={(e) => setPricingProfileForm((s) => ({ ...s, effectiveFrom: e.target.value }))} />
+          </label>
           <button disabled={saving === 'pricing-profile'} type="submit">{saving === 'pricing-profile' ? txt('جارٍ الحفظ...', 'Saving...') : txt('حفظ ملف التسعير', 'Save Pricing Profile')}</button>
         </form>
 
@@ -483,6 +536,8 @@ export function OperationsPage() {
         </form>
       </section>
 
+      <PricingWhatIfPanel profileId={pricingProfileForm.profileId || 'default'} getDraft={buildPricingProfileDraft} />
+
       <section className="ops-snapshot">
         <h3>{txt('اللقطة الحالية', 'Current Snapshot')}</h3>
         <div className="snapshot-grid">
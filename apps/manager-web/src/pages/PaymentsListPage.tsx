@@ -1,6 +1,21 @@
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
+import {
+  FARE_BREAKDOWN_LABELS,
+  FareBreakdown,
+  WALLET_RULES,
+  WalletTransactionType,
+  formatFareBreakdownValue,
+  getFareBreakdownLines,
+  getRefundableIls,
+} from '@taxi-line/shared';
 import { useI18n } from '../localization';
 import { PaymentDocument, subscribeToPayments } from '../services/payments.service';
+import {
+  WalletTransactionDocument,
+  refundTripFare,
+  subscribeWalletTransactions,
+  topUpWallet,
+} from '../services/wallets.service';
 import './PaymentsListPage.css';
 
 function getStatusBadge(
@@ -14,6 +29,8 @@ function getStatusBadge(
       return { className: 'badge-pending', text: txt('معلّق', 'Pending') };
     case 'failed':
       return { className: 'badge-failed', text: txt('فشل', 'Failed') };
+    case 'refunded':
+      return { className: 'badge-refunded', text: txt('مُسترد', 'Refunded') };
     default:
       return { className: 'badge-pending', text: status };
   }
@@ -32,6 +49,21 @@ function getMethodDisplay(method: PaymentDocument['method'], txt: (ar: string, e
   }
 }
 
+function getWalletTransactionLabel(type: WalletTransactionType, txt: (ar: string, en: string) => string): string {
+  switch (type) {
+    case 'top_up':
+      return txt('شحن', 'Top-up');
+    case 'trip_debit':
+      return txt('أجرة رحلة', 'Trip fare');
+    case 'refund':
+      return txt('استرداد', 'Refund');
+    case 'cancellation_fee':
+      return txt('رسوم إلغاء', 'Cancellation fee');
+    default:
+      return type;
+  }
+}
+
 function formatDate(
   timestamp: unknown,
   locale: 'ar' | 'en'
@@ -52,10 +84,43 @@ function formatDate(
   }
 }
 
+function FareBreakdownDetails({ breakdown, locale }: { breakdown: FareBreakdown; locale: 'ar' | 'en' }) {
+  return (
+    <ul className="fare-breakdown">
+      {getFareBreakdownLines(breakdown).map((line) => (
+        <li key={line.key} className={line.value < 0 ? 'discount' : undefined}>
+          <span>
+            {FARE_BREAKDOWN_LABELS[line.key][locale]}
+            {line.key === 'distance'
+              ? ` (${breakdown.roundedDistanceKm} km × ${breakdown.baseRatePerKm})`
+              : line.key === 'discount' && breakdown.promoCode
+                ? ` (${breakdown.promoCode})`
+                : ''}
+          </span>
+          <span>{formatFareBreakdownValue(line)}</span>
+        </li>
+      ))}
+      <li className="meta">
+        <span>{locale === 'ar' ? 'ملف التسعير' : 'Pricing profile'}</span>
+        <span>{breakdown.profileId}</span>
+      </li>
+    </ul>
+  );
+}
+
 export function PaymentsListPage() {
   const { txt, locale } = useI18n();
   const [payments, setPayments] = useState<PaymentDocument[]>([]);
   const [loading, setLoading] = useState(true);
+  const [expandedPaymentId, setExpandedPaymentId] = useState<string | null>(null);
+  const [walletTransactions, setWalletTransactions] = useState<WalletTransactionDocument[]>([]);
+  const [topUpPassengerId, setTopUpPassengerId] = useState('');
+  const [topUpAmount, setTopUpAmount] = useState('');
+  const [topUpOfficeId, setTopUpOfficeId] = useState('');
+  const [topUpNote, setTopUpNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
 
   useEffect(() => {
     const unsubscribe = subscribeToPayments((newPayments) => {
@@ -66,6 +131,68 @@ export function PaymentsListPage() {
     return () => unsubscribe();
   }, []);
 
+  useEffect(() => subscribeWalletTransactions(setWalletTransactions), []);
+
+  const topUpAmountValue = Number(topUpAmount);
+  const topUpValid =
+    topUpPassengerId.trim().length > 0 && topUpAmountValue > 0 && topUpAmountValue <= WALLET_RULES.MAX_TOPUP_ILS;
+
+  const onTopUp = async () => {
+    if (!topUpValid) return;
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const passengerId = topUpPassengerId.trim();
+      const balanceIls = await topUpWallet({
+        passengerId,
+        amountIls: topUpAmountValue,
+        ...(topUpOfficeId.trim() ? { officeId: topUpOfficeId.trim() } : {}),
+        ...(topUpNote.trim() ? { note: topUpNote.trim() } : {}),
+      });
+      setNotice(txt(`رصيد المحفظة الآن ₪${balanceIls.toFixed(2)}`, `Wallet balance is now NIS ${balanceIls.toFixed(2)}`));
+      setTopUpAmount('');
+      setTopUpNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : txt('تعذّر شحن المحفظة.', 'Failed to top up the wallet.'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onRefund = async (payment: PaymentDocument) => {
+    const refundableIls = getRefundableIls(payment.amount, payment.refundedIls);
+    const amountInput = window.prompt(
+      txt(`مبلغ الاسترداد (حتى ₪${refundableIls.toFixed(2)})`, `Refund amount (up to NIS ${refundableIls.toFixed(2)})`),
+      refundableIls.toFixed(2)
+    );
+    if (amountInput === null) return;
+    const amountIls = Number(amountInput);
+    if (!(amountIls > 0 && amountIls <= refundableIls)) {
+      setError(txt('مبلغ الاسترداد غير صالح.', 'Invalid refund amount.'));
+      return;
+    }
+    const reason = window.prompt(txt('سبب الاسترداد', 'Reason for the refund'));
+    if (!reason || reason.trim().length < 3) return;
+
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await refundTripFare({ tripId: payment.tripId, amountIls, reason: reason.trim() });
+      setNotice(
+        txt(
+          `تم استرداد ₪${result.amountIls.toFixed(2)} إلى محفظة الراكب.`,
+          `Refunded NIS ${result.amountIls.toFixed(2)} to the passenger wallet.`
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : txt('تعذّر الاسترداد.', 'Failed to refund the fare.'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
   const totalPaid = payments
     .filter((payment) => payment.status === 'paid')
     .reduce((sum, payment) => sum + payment.amount, 0);
@@ -85,6 +212,9 @@ export function PaymentsListPage() {
         )}
       </p>
 
+      {error ? <div className="page-error">{error}</div> : null}
+      {notice ? <div className="payments-notice">{notice}</div> : null}
+
       {loading ? <div className="loading">{txt('جاري تحميل المدفوعات...', 'Loading payments...')}</div> : null}
 
       {!loading ? (
@@ -118,30 +248,79 @@ export function PaymentsListPage() {
                     <th>{txt('الطريقة', 'Method')}</th>
                     <th>{txt('الحالة', 'Status')}</th>
                     <th>{txt('تاريخ الإنشاء', 'Created')}</th>
+                    <th>{txt('التفاصيل', 'Breakdown')}</th>
+                    <th>{txt('إجراءات', 'Actions')}</th>
                   </tr>
                 </thead>
                 <tbody>
                   {payments.map((payment) => {
                     const statusBadge = getStatusBadge(payment.status, txt);
+                    const isExpanded = expandedPaymentId === payment.paymentId;
                     return (
-                      <tr key={payment.paymentId}>
-                        <td className="trip-id">
-                          {payment.tripId.length > 20
-                            ? `${payment.tripId.slice(0, 8)}...`
-                            : payment.tripId}
-                        </td>
-                        <td className="amount">
-                          <span className="currency">{payment.currency ?? 'NIS'}</span>
-                          {payment.amount.toFixed(2)}
-                        </td>
-                        <td className="method">{getMethodDisplay(payment.method, txt)}</td>
-                        <td>
-                          <span className={`status-badge ${statusBadge.className}`}>
-                            {statusBadge.text}
-                          </span>
-                        </td>
-                        <td className="date">{formatDate(payment.createdAt, locale)}</td>
-                      </tr>
+                      <Fragment key={payment.paymentId}>
+                        <tr>
+                          <td className="trip-id">
+                            {payment.tripId.length > 20
+                              ? `${payment.tripId.slice(0, 8)}...`
+                              : payment.tripId}
+                          </td>
+                          <td className="amount">
+                            <span className="currency">{payment.currency ?? 'NIS'}</span>
+                            {payment.amount.toFixed(2)}
+                            {payment.refundedIls > 0 ? (
+                              <div className="refunded">
+                                {txt('مُسترد', 'Refunded')} {payment.refundedIls.toFixed(2)}
+                              </div>
+                            ) : null}
+                          </td>
+                          <td className="method">
+                            {getMethodDisplay(payment.method, txt)}
+                            {payment.kind === 'cancellation_fee' ? (
+                              <div className="payment-kind">{txt('رسوم إلغاء', 'Cancellation fee')}</div>
+                            ) : null}
+                          </td>
+                          <td>
+                            <span className={`status-badge ${statusBadge.className}`}>
+                              {statusBadge.text}
+                            </span>
+                          </td>
+                          <td className="date">{formatDate(payment.createdAt, locale)}</td>
+                          <td>
+                            {payment.fareBreakdown ? (
+                              <button
+                                type="button"
+                                className="btn-breakdown"
+                                onClick={() => setExpandedPaymentId(isExpanded ? null : payment.paymentId)}
+                              >
+                                {isExpanded ? txt('إخفاء', 'Hide') : txt('عرض', 'Show')}
+                              </button>
+                            ) : (
+                              <span className="no-breakdown">-</span>
+                            )}
+                          </td>
+                          <td>
+                            {payment.status === 'paid' ? (
+                              <button
+                                type="button"
+                                className="btn-breakdown"
+                                disabled={busy}
+                                onClick={() => void onRefund(payment)}
+                              >
+                                {txt('استرداد', 'Refund')}
+                              </button>
+                            ) : (
+                              <span className="no-breakdown">-</span>
+                            )}
+                          </td>
+                        </tr>
+                        {isExpanded && payment.fareBreakdown ? (
+                          <tr className="breakdown-row">
+                            <td colSpan={7}>
+                              <FareBreakdownDetails breakdown={payment.fareBreakdown} locale={locale} />
+                            </td>
+                          </tr>
+                        ) : null}
+                      </Fragment>
                     );
                   })}
                 </tbody>
@@ -150,6 +329,77 @@ export function PaymentsListPage() {
           )}
         </>
       ) : null}
+
+      <section className="wallet-section">
+        <h3>{txt('محافظ الركاب', 'Passenger wallets')}</h3>
+        <div className="wallet-topup">
+          <label>
+            {txt('معرّف الراكب', 'Passenger ID')}
+            <input value={topUpPassengerId} disabled={busy} onChange={(event) => setTopUpPassengerId(event.target.value)} />
+          </label>
+          <label>
+            {txt('المبلغ (₪)', 'Amount (NIS)')}
+            <input
+              type="number"
+              min={0}
+              max={WALLET_RULES.MAX_TOPUP_ILS}
+              step="0.01"
+              value={topUpAmount}
+              disabled={busy}
+              onChange={(event) => setTopUpAmount(event.target.value)}
+            />
+          </label>
+          <label>
+            {txt('المكتب (اختياري)', 'Office (optional)')}
+            <input value={topUpOfficeId} disabled={busy} onChange={(event) => setTopUpOfficeId(event.target.value)} />
+          </label>
+          <label>
+            {txt('ملاحظة', 'Note')}
+            <input value={topUpNote} maxLength={300} disabled={busy} onChange={(event) => setTopUpNote(event.target.value)} />
+          </label>
+          <button className="action-btn approve" disabled={busy || !topUpValid} onClick={() => void onTopUp()}>
+            {txt('شحن من الصندوق', 'Cash desk top-up')}
+          </button>
+        </div>
+
+        {walletTransactions.length === 0 ? (
+          <div className="empty-state">
+            <p>{txt('لا توجد حركات محفظة بعد.', 'No wallet transactions yet.')}</p>
+          </div>
+        ) : (
+          <div className="table-container">
+            <table className="payments-table">
+              <thead>
+                <tr>
+                  <th>{txt('الراكب', 'Passenger')}</th>
+                  <th>{txt('النوع', 'Type')}</th>
+                  <th>{txt('المبلغ', 'Amount')}</th>
+                  <th>{txt('الرصيد بعد', 'Balance after')}</th>
+                  <th>{txt('الرحلة', 'Trip')}</th>
+                  <th>{txt('ملاحظة', 'Note')}</th>
+                  <th>{txt('التاريخ', 'Date')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {walletTransactions.map((transaction) => (
+                  <tr key={transaction.transactionId}>
+                    <td className="trip-id">{transaction.passengerId}</td>
+                    <td>{getWalletTransactionLabel(transaction.type, txt)}</td>
+                    <td className={`amount ${transaction.amountIls < 0 ? 'debit' : 'credit'}`}>
+                      {transaction.amountIls > 0 ? '+' : ''}
+                      {transaction.amountIls.toFixed(2)}
+                    </td>
+                    <td className="amount">{transaction.balanceAfterIls.toFixed(2)}</td>
+                    <td className="trip-id">{transaction.tripId ?? '-'}</td>
+                    <td>{transaction.note ?? '-'}</td>
+                    <td className="date">{formatDate(transaction.createdAt, locale)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
     </div>
   );
 }
@@ -0,0 +1,396 @@
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { useI18n } from '../localization';
+import { CollectionItem, subscribeCollection } from '../services/operations.service';
+import {
+  PromoCodeDocument,
+  PromoDiscountType,
+  UpsertPromoCodeInput,
+  subscribeToPromoCodes,
+  upsertPromoCode,
+} from '../services/promo-codes.service';
+import './PromoCodesPage.css';
+
+interface CreateFormData {
+  code: string;
+  description: string;
+  discountType: PromoDiscountType;
+  discountValue: string;
+  maxDiscountIls: string;
+  maxRedemptions: string;
+  officeId: string;
+  startsAt: string;
+  expiresAt: string;
+}
+
+const DEFAULT_FORM: CreateFormData = {
+  code: '',
+  description: '',
+  discountType: 'percent',
+  discountValue: '10',
+  maxDiscountIls: '',
+  maxRedemptions: '',
+  officeId: '',
+  startsAt: '',
+  expiresAt: '',
+};
+
+type OfficeDoc = { name?: string; code?: string };
+
+function toOptionalNumber(value: string): number | undefined {
+  const parsed = Number(value);
+  return value.trim() && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/** datetime-local input value -> ISO string */
+function toIsoOrUndefined(value: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function formatDate(timestamp: Timestamp | null, locale: 'ar' | 'en'): string {
+  if (!timestamp) return '-';
+  return timestamp.toDate().toLocaleDateString(locale === 'ar' ? 'ar-PS' : 'en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function isExpired(promo: PromoCodeDocument): boolean {
+  return !!promo.expiresAt && promo.expiresAt.toMillis() <= Date.now();
+}
+
+function isExhausted(promo: PromoCodeDocument): boolean {
+  return promo.maxRedemptions != null && promo.redemptionCount >= promo.maxRedemptions;
+}
+
+export function PromoCodesPage() {
+  const { txt, locale } = useI18n();
+  const [promoCodes, setPromoCodes] = useState<PromoCodeDocument[]>([]);
+  const [offices, setOffices] = useState<CollectionItem<OfficeDoc>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [formData, setFormData] = useState<CreateFormData>(DEFAULT_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const unsubscribePromos = subscribeToPromoCodes((nextPromoCodes) => {
+      setPromoCodes(nextPromoCodes);
+      setLoading(false);
+    });
+    const unsubscribeOffices = subscribeCollection<OfficeDoc>('offices', setOffices, {
+      orderByField: 'name',
+      orderDirection: 'asc',
+    });
+
+    return () => {
+      unsubscribePromos();
+      unsubscribeOffices();
+    };
+  }, []);
+
+  const officeLabels = useMemo(
+    () =>
+      new Map(offices.map((office) => [office.id, office.data.code || office.data.name || office.id])),
+    [offices]
+  );
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      const input: UpsertPromoCodeInput = {
+        code: formData.code,
+        description: formData.description,
+        status: 'active',
+        discountType: formData.discountType,
+        discountValue: Number(formData.discountValue),
+      };
+      const maxDiscountIls = toOptionalNumber(formData.maxDiscountIls);
+      const maxRedemptions = toOptionalNumber(formData.maxRedemptions);
+      const startsAt = toIsoOrUndefined(formData.startsAt);
+      const expiresAt = toIsoOrUndefined(formData.expiresAt);
+      if (maxDiscountIls !== undefined) input.maxDiscountIls = maxDiscountIls;
+      if (maxRedemptions !== undefined) input.maxRedemptions = maxRedemptions;
+      if (formData.officeId) input.officeId = formData.officeId;
+      if (startsAt) input.startsAt = startsAt;
+      if (expiresAt) input.expiresAt = expiresAt;
+
+      await upsertPromoCode(input);
+      setFormData(DEFAULT_FORM);
+      setShowCreateForm(false);
+    } catch (error) {
+      console.error('Failed to save promo code:', error);
+      alert(
+        error instanceof Error
+          ? error.message
+          : txt('تعذّر حفظ رمز الخصم. حاول مرة أخرى.', 'Failed to save promo code. Please try again.')
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleStatus = async (promo: PromoCodeDocument) => {
+    const input: UpsertPromoCodeInput = {
+      code: promo.code,
+      status: promo.status === 'active' ? 'inactive' : 'active',
+      discountType: promo.discountType,
+      discountValue: promo.discountValue,
+    };
+    if (promo.description) input.description = promo.description;
+    if (promo.maxDiscountIls != null) input.maxDiscountIls = promo.maxDiscountIls;
+    if (promo.maxRedemptions != null) input.maxRedemptions = promo.maxRedemptions;
+    if (promo.officeId) input.officeId = promo.officeId;
+    if (promo.startsAt) input.startsAt = promo.startsAt.toDate().toISOString();
+    if (promo.expiresAt) input.expiresAt = promo.expiresAt.toDate().toISOString();
+
+    try {
+      await upsertPromoCode(input);
+    } catch (error) {
+      console.error('Failed to update promo status:', error);
+      alert(txt('تعذّر تحديث الحالة. حاول مرة أخرى.', 'Failed to update status. Please try again.'));
+    }
+  };
+
+  const activeCount = promoCodes.filter(
+    (promo) => promo.status === 'active' && !isExpired(promo) && !isExhausted(promo)
+  ).length;
+  const totalRedemptions = promoCodes.reduce((sum, promo) => sum + promo.redemptionCount, 0);
+
+  const getStatusBadge = (promo: PromoCodeDocument): { className: string; text: string } => {
+    if (promo.status === 'inactive') return { className: 'badge-inactive', text: txt('متوقف', 'Inactive') };
+    if (isExpired(promo)) return { className: 'badge-expired', text: txt('منتهي', 'Expired') };
+    if (isExhausted(promo)) return { className: 'badge-expired', text: txt('مستنفد', 'Used up') };
+    return { className: 'badge-active', text: txt('فعّال', 'Active') };
+  };
+
+  return (
+    <div className="promo-codes-page">
+      <div className="page-header">
+        <div>
+          <h2>{txt('العروض', 'Promotions')}</h2>
+          <p className="subtitle">
+            {txt(
+              'حملات رموز الخصم مع حدود الاستخدام وتاريخ الانتهاء ونطاق المكتب.',
+              'Promo code campaigns with usage caps, expiry and office scope.'
+            )}
+          </p>
+        </div>
+        <button className="btn-create" onClick={() => setShowCreateForm(!showCreateForm)}>
+          {showCreateForm ? txt('إلغاء', 'Cancel') : txt('حملة جديدة', 'New Campaign')}
+        </button>
+      </div>
+
+      {showCreateForm ? (
+        <form className="create-form" onSubmit={handleCreate}>
+          <h3>{txt('إنشاء رمز خصم', 'Create Promo Code')}</h3>
+          <div className="form-row">
+            <div className="form-group">
+              <label>{txt('الرمز', 'Code')} *</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(event) => setFormData({ ...formData, code: event.target.value.toUpperCase() })}
+                placeholder="RAMADAN10"
+                minLength={4}
+                maxLength={24}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label>{txt('الوصف', 'Description')}</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(event) => setFormData({ ...formData, description: event.target.value })}
+                placeholder={txt('عرض رمضان', 'Ramadan campaign')}
+              />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>{txt('نوع الخصم', 'Discount type')}</label>
+              <select
+                value={formData.discountType}
+                onChange={(event) =>
+                  setFormData({ ...formData, discountType: event.target.value as PromoDiscountType })
+                }
+              >
+                <option value="percent">{txt('نسبة مئوية', 'Percent')}</option>
+                <option value="fixed">{txt('مبلغ ثابت (₪)', 'Fixed amount (NIS)')}</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label>
+                {formData.discountType === 'percent' ? txt('النسبة %', 'Percent %') : txt('المبلغ ₪', 'Amount NIS')} *
+              </label>
+              <input
+                type="number"
+                min="1"
+                max={formData.discountType === 'percent' ? 50 : 500}
+                value={formData.discountValue}
+                onChange={(event) => setFormData({ ...formData, discountValue: event.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>{txt('أقصى خصم ₪', 'Max discount NIS')}</label>
+              <input
+                type="number"
+                min="1"
+                value={formData.maxDiscountIls}
+                onChange={(event) => setFormData({ ...formData, maxDiscountIls: event.target.value })}
+                placeholder={txt('بدون حد', 'No cap')}
+              />
+            </div>
+            <div className="form-group">
+              <label>{txt('حد الاستخدام', 'Usage cap')}</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={formData.maxRedemptions}
+                onChange={(event) => setFormData({ ...formData, maxRedemptions: event.target.value })}
+                placeholder={txt('غير محدود', 'Unlimited')}
+              />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>{txt('يبدأ في', 'Starts at')}</label>
+              <input
+                type="datetime-local"
+                value={formData.startsAt}
+                onChange={(event) => setFormData({ ...formData, startsAt: event.target.value })}
+              />
+            </div>
+            <div className="form-group">
+              <label>{txt('ينتهي في', 'Expires at')}</label>
+              <input
+                type="datetime-local"
+                value={formData.expiresAt}
+                onChange={(event) => setFormData({ ...formData, expiresAt: event.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>{txt('المكتب', 'Office scope')}</label>
+              <select
+                value={formData.officeId}
+                onChange={(event) => setFormData({ ...formData, officeId: event.target.value })}
+              >
+                <option value="">{txt('كل المكاتب', 'All offices')}</option>
+                {offices.map((office) => (
+                  <option key={office.id} value={office.id}>
+                    {officeLabels.get(office.id)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="form-actions">
+            <button type="submit" className="btn-save" disabled={saving}>
+              {saving ? txt('جارٍ الحفظ...', 'Saving...') : txt('حفظ الحملة', 'Save Campaign')}
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {loading ? <div className="loading">{txt('جاري تحميل العروض...', 'Loading promotions...')}</div> : null}
+
+      {!loading ? (
+        <>
+          <div className="summary-cards">
+            <div className="summary-card total">
+              <div className="summary-value">{promoCodes.length}</div>
+              <div className="summary-label">{txt('كل الحملات', 'All campaigns')}</div>
+            </div>
+            <div className="summary-card active">
+              <div className="summary-value">{activeCount}</div>
+              <div className="summary-label">{txt('قابلة للاستخدام', 'Redeemable now')}</div>
+            </div>
+            <div className="summary-card redemptions">
+              <div className="summary-value">{totalRedemptions}</div>
+              <div className="summary-label">{txt('مرات الاستخدام', 'Redemptions')}</div>
+            </div>
+          </div>
+
+          {promoCodes.length === 0 ? (
+            <div className="empty-state">
+              <p>{txt('لا توجد حملات بعد.', 'No promo campaigns yet.')}</p>
+            </div>
+          ) : (
+            <div className="table-container">
+              <table className="promo-codes-table">
+                <thead>
+                  <tr>
+                    <th>{txt('الرمز', 'Code')}</th>
+                    <th>{txt('الخصم', 'Discount')}</th>
+                    <th>{txt('الاستخدام', 'Usage')}</th>
+                    <th>{txt('المكتب', 'Office')}</th>
+                    <th>{txt('الفترة', 'Valid')}</th>
+                    <th>{txt('الحالة', 'Status')}</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {promoCodes.map((promo) => {
+                    const statusBadge = getStatusBadge(promo);
+                    return (
+                      <tr key={promo.code}>
+                        <td>
+                          <div className="code">{promo.code}</div>
+                          {promo.description ? <div className="description">{promo.description}</div> : null}
+                        </td>
+                        <td className="amount">
+                          {promo.discountType === 'percent'
+                            ? `${promo.discountValue}%`
+                            : `NIS ${promo.discountValue}`}
+                          {promo.maxDiscountIls != null ? (
+                            <span className="cap">
+                              {txt(`حتى ${promo.maxDiscountIls}₪`, `max NIS ${promo.maxDiscountIls}`)}
+                            </span>
+                          ) : null}
+                        </td>
+                        <td>
+                          {promo.redemptionCount} / {promo.maxRedemptions ?? '∞'}
+                        </td>
+                        <td>
+                          {promo.officeId
+                            ? officeLabels.get(promo.officeId) ?? promo.officeId
+                            : txt('الكل', 'All')}
+                        </td>
+                        <td className="date">
+                          {formatDate(promo.startsAt, locale)} → {formatDate(promo.expiresAt, locale)}
+                        </td>
+                        <td>
+                          <span className={`status-badge ${statusBadge.className}`}>{statusBadge.text}</span>
+                        </td>
+                        <td>
+                          <button className="btn-toggle" onClick={() => handleToggleStatus(promo)}>
+                            {promo.status === 'active' ? txt('إيقاف', 'Deactivate') : txt('تفعيل', 'Activate')}
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
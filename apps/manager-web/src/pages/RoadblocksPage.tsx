@@ -1,4 +1,8 @@
 import { FormEvent, useEffect, useState } from 'react';
+import type { RoadblockScheduleWindow } from '@taxi-line/shared';
+import { RoadblockHistoryList } from '../components/RoadblockHistoryList';
+import { RoadblockReportsQueue } from '../components/RoadblockReportsQueue';
+import { RoadblockScheduleEditor, formatScheduleWindow } from '../components/RoadblockScheduleEditor';
 import { useI18n } from '../localization';
 import {
   RoadblockData,
@@ -7,6 +11,7 @@ import {
   getRoadblockStatusDisplay,
   subscribeToRoadblocks,
   updateRoadblock,
+  updateRoadblockTimeRules,
 } from '../services/roadblocks.service';
 import './RoadblocksPage.css';
 
@@ -19,6 +24,14 @@ interface CreateFormData {
   lng: string;
   status: RoadblockStatus;
   note: string;
+  schedule: RoadblockScheduleWindow[];
+  /** datetime-local value, empty for no expiry */
+  expiresAt: string;
+}
+
+interface TimeRulesDraft {
+  schedule: RoadblockScheduleWindow[];
+  expiresAt: string;
 }
 
 const DEFAULT_FORM: CreateFormData = {
@@ -28,10 +41,18 @@ const DEFAULT_FORM: CreateFormData = {
   lng: '35.2621',
   status: 'closed',
   note: '',
+  schedule: [],
+  expiresAt: '',
 };
 
+function toDateTimeLocal(date: Date | null): string {
+  if (!date) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
 export function RoadblocksPage() {
-  const { txt } = useI18n();
+  const { txt, locale } = useI18n();
   const [roadblocks, setRoadblocks] = useState<RoadblockData[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -39,6 +60,9 @@ export function RoadblocksPage() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editNote, setEditNote] = useState('');
   const [saving, setSaving] = useState(false);
+  const [rulesEditingId, setRulesEditingId] = useState<string | null>(null);
+  const [rulesDraft, setRulesDraft] = useState<TimeRulesDraft>({ schedule: [], expiresAt: '' });
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
 
   useEffect(() => {
     const unsubscribe = subscribeToRoadblocks(
@@ -65,6 +89,8 @@ export function RoadblocksPage() {
         lng: parseFloat(formData.lng),
         status: formData.status,
         note: formData.note,
+        schedule: formData.schedule,
+        expiresAt: formData.expiresAt ? new Date(formData.expiresAt) : null,
         createdBy: 'manager-web',
       });
       setFormData(DEFAULT_FORM);
@@ -97,6 +123,23 @@ export function RoadblocksPage() {
     }
   };
 
+  const handleTimeRulesSave = async (id: string) => {
+    try {
+      await updateRoadblockTimeRules(id, {
+        schedule: rulesDraft.schedule,
+        expiresAt: rulesDraft.expiresAt ? new Date(rulesDraft.expiresAt) : null,
+        updatedBy: 'manager-web',
+      });
+      setRulesEditingId(null);
+    } catch (error) {
+      console.error('Failed to update schedule:', error);
+      alert(txt('تعذّر تحديث الجدول. حاول مرة أخرى.', 'Failed to update schedule. Please try again.'));
+    }
+  };
+
+  const formatDateTime = (date: Date | null): string =>
+    date ? date.toLocaleString(locale === 'ar' ? 'ar' : 'en-GB') : txt('غير متوفر', 'N/A');
+
   const handleDelete = async (id: string, name: string) => {
     if (!window.confirm(txt(`حذف الإغلاق "${name}"؟`, `Delete roadblock "${name}"?`))) return;
     try {
@@ -213,6 +256,25 @@ export function RoadblocksPage() {
             </div>
           </div>
 
+          <div className="form-row">
+            <div className="form-group">
+              <label>{txt('ينتهي في', 'Expires at')}</label>
+              <input
+                type="datetime-local"
+                value={formData.expiresAt}
+                onChange={(event) => setFormData({ ...formData, expiresAt: event.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>{txt('جدول متكرر', 'Recurring schedule')}</label>
+            <RoadblockScheduleEditor
+              windows={formData.schedule}
+              onChange={(schedule) => setFormData({ ...formData, schedule })}
+            />
+          </div>
+
           <div className="form-actions">
             <button type="submit" className="btn-save" disabled={saving}>
               {saving ? txt('جارٍ الإنشاء...', 'Creating...') : txt('إنشاء الإغلاق', 'Create Roadblock')}
@@ -236,6 +298,8 @@ export function RoadblocksPage() {
         </div>
       </div>
 
+      <RoadblockReportsQueue roadblocks={roadblocks} />
+
       {roadblocks.length === 0 ? (
         <div className="empty-state">
           <p>{txt('لا توجد إغلاقات حاليًا.', 'No roadblocks found.')}</p>
@@ -284,6 +348,70 @@ export function RoadblocksPage() {
                   <span className="updated">{txt('آخر تحديث', 'Updated')}: {formatTime(roadblock.updatedAt)}</span>
                 </div>
 
+                <div className="roadblock-time-rules">
+                  {roadblock.schedule.map((window, index) => (
+                    <span key={index} className={`schedule-chip status-${window.status}`}>
+                      {formatScheduleWindow(window, locale)}
+                    </span>
+                  ))}
+                  {roadblock.expiresAt ? (
+                    <span className="time-rule">
+                      {txt('ينتهي', 'Expires')}: {formatDateTime(roadblock.expiresAt)}
+                    </span>
+                  ) : null}
+                  {roadblock.nextTransitionAt && roadblock.nextStatus ? (
+                    <span className="time-rule">
+                      {txt('التغيير التالي', 'Next change')}: {roadblock.nextStatus} @{' '}
+                      {formatDateTime(roadblock.nextTransitionAt)}
+                    </span>
+                  ) : null}
+                  <button
+                    className="btn-link"
+                    onClick={() => {
+                      if (rulesEditingId === roadblock.id) {
+                        setRulesEditingId(null);
+                        return;
+                      }
+                      setRulesEditingId(roadblock.id);
+                      setRulesDraft({
+                        schedule: roadblock.schedule,
+                        expiresAt: toDateTimeLocal(roadblock.expiresAt),
+                      });
+                    }}
+                  >
+                    {txt('الجدول والانتهاء', 'Schedule & expiry')}
+                  </button>
+                  <button
+                    className="btn-link"
+                    onClick={() => setHistoryOpenId(historyOpenId === roadblock.id ? null : roadblock.id)}
+                  >
+                    {txt('السجل', 'History')}
+                  </button>
+                </div>
+
+                {rulesEditingId === roadblock.id ? (
+                  <div className="time-rules-edit">
+                    <label>
+                      {txt('ينتهي في', 'Expires at')}
+                      <input
+                        type="datetime-local"
+                        value={rulesDraft.expiresAt}
+                        onChange={(event) => setRulesDraft({ ...rulesDraft, expiresAt: event.target.value })}
+                      />
+                    </label>
+                    <RoadblockScheduleEditor
+                      windows={rulesDraft.schedule}
+                      onChange={(schedule) => setRulesDraft({ ...rulesDraft, schedule })}
+                    />
+                    <div className="time-rules-actions">
+                      <button onClick={() => handleTimeRulesSave(roadblock.id)}>{txt('حفظ', 'Save')}</button>
+                      <button onClick={() => setRulesEditingId(null)}>{txt('إلغاء', 'Cancel')}</button>
+                    </div>
+                  </div>
+                ) : null}
+
+                {historyOpenId === roadblock.id ? <RoadblockHistoryList roadblockId={roadblock.id} /> : null}
+
                 <div className="roadblock-note">
                   {isEditing ? (
                     <div className="note-edit">
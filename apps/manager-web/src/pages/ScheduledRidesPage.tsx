@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from '../localization';
+import {
+  ScheduledRideDocument,
+  subscribeToUpcomingScheduledRides,
+} from '../services/scheduled-rides.service';
+import './ScheduledRidesPage.css';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toDate(timestamp: unknown): Date | null {
+  if (!timestamp) return null;
+  const raw = timestamp as { toDate?: () => Date };
+  return raw.toDate ? raw.toDate() : new Date(timestamp as string | number | Date);
+}
+
+function formatDate(timestamp: unknown, locale: 'ar' | 'en'): string {
+  const date = toDate(timestamp);
+  if (!date || Number.isNaN(date.getTime())) return locale === 'ar' ? 'غير متوفر' : 'N/A';
+
+  return date.toLocaleString(locale === 'ar' ? 'ar-PS' : 'en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatCoords(point: ScheduledRideDocument['pickup']): string {
+  if (!point) return '-';
+  return `${point.lat.toFixed(4)}, ${point.lng.toFixed(4)}`;
+}
+
+function getStatusBadge(
+  status: ScheduledRideDocument['status'],
+  txt: (ar: string, en: string) => string
+): { className: string; text: string } {
+  switch (status) {
+    case 'dispatching':
+      return { className: 'badge-dispatching', text: txt('جاري الإرسال', 'Dispatching') };
+    case 'scheduled':
+      return { className: 'badge-scheduled', text: txt('مجدول', 'Scheduled') };
+    default:
+      return { className: 'badge-scheduled', text: status };
+  }
+}
+
+export function ScheduledRidesPage() {
+  const { txt, locale } = useI18n();
+  const [rides, setRides] = useState<ScheduledRideDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToUpcomingScheduledRides((nextRides) => {
+      setRides(nextRides);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const now = Date.now();
+  const nextHourCount = rides.filter((ride) => {
+    const pickupAt = toDate(ride.scheduledFor)?.getTime() ?? 0;
+    return pickupAt - now <= HOUR_MS;
+  }).length;
+  const retryingCount = rides.filter((ride) => ride.dispatchAttempts > 0).length;
+
+  return (
+    <div className="scheduled-rides-page">
+      <h2>{txt('الحجوزات المجدولة', 'Scheduled Rides')}</h2>
+      <p className="scheduled-rides-subtitle">
+        {txt(
+          'الحجوزات المسبقة القادمة مرتبة حسب وقت الالتقاط. تدخل الإرسال المباشر قبل موعدها بمدة محددة.',
+          'Upcoming advance bookings ordered by pickup time. They enter live dispatch a configured lead time before pickup.'
+        )}
+      </p>
+
+      {loading ? <div className="loading">{txt('جاري تحميل الحجوزات...', 'Loading bookings...')}</div> : null}
+
+      {!loading ? (
+        <>
+          <div className="summary-cards">
+            <div className="summary-card total">
+              <div className="summary-value">{rides.length}</div>
+              <div className="summary-label">{txt('حجوزات قادمة', 'Upcoming bookings')}</div>
+            </div>
+            <div className="summary-card soon">
+              <div className="summary-value">{nextHourCount}</div>
+              <div className="summary-label">{txt('خلال الساعة القادمة', 'Within the next hour')}</div>
+            </div>
+            <div className="summary-card retrying">
+              <div className="summary-value">{retryingCount}</div>
+              <div className="summary-label">{txt('بانتظار سائق', 'Waiting for a driver')}</div>
+            </div>
+          </div>
+
+          {rides.length === 0 ? (
+            <div className="empty-state">
+              <p>{txt('لا توجد حجوزات مجدولة.', 'No upcoming scheduled rides.')}</p>
+            </div>
+          ) : (
+            <div className="table-container">
+              <table className="scheduled-rides-table">
+                <thead>
+                  <tr>
+                    <th>{txt('وقت الالتقاط', 'Pickup time')}</th>
+                    <th>{txt('الطلب', 'Request')}</th>
+                    <th>{txt('الالتقاط', 'Pickup')}</th>
+                    <th>{txt('الوجهة', 'Dropoff')}</th>
+                    <th>{txt('الخط', 'Line')}</th>
+                    <th>{txt('السعر', 'Price')}</th>
+                    <th>{txt('المحاولات', 'Attempts')}</th>
+                    <th>{txt('الحالة', 'Status')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rides.map((ride) => {
+                    const statusBadge = getStatusBadge(ride.status, txt);
+                    return (
+                      <tr key={ride.scheduledRideId}>
+                        <td className="date">{formatDate(ride.scheduledFor, locale)}</td>
+                        <td className="request-id">
+                          {ride.requestId.length > 20 ? `${ride.requestId.slice(0, 8)}...` : ride.requestId}
+                        </td>
+                        <td className="coords">{formatCoords(ride.pickup)}</td>
+                        <td className="coords">{ride.destinationLabel ?? formatCoords(ride.dropoff)}</td>
+                        <td>{ride.lineId ?? ride.officeId ?? '-'}</td>
+                        <td className="amount">
+                          <span className="currency">NIS</span>
+                          {ride.estimatedPriceIls.toFixed(2)}
+                        </td>
+                        <td title={ride.lastDispatchResult ?? undefined}>{ride.dispatchAttempts}</td>
+                        <td>
+                          <span className={`status-badge ${statusBadge.className}`}>{statusBadge.text}</span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+import { useEffect, useState } from 'react';
+import { SETTLEMENT_RULES } from '@taxi-line/shared';
+import { useI18n } from '../localization';
+import {
+  DriverBalanceDocument,
+  LedgerEntryDocument,
+  SettlementStatementDocument,
+  recordCashHandover,
+  subscribeDriverBalances,
+  subscribeDriverLedger,
+  subscribeSettlementStatements,
+} from '../services/settlements.service';
+import './SettlementsPage.css';
+
+function shortId(id: string): string {
+  return id.length > 12 ? `${id.slice(0, 8)}...` : id;
+}
+
+function formatIls(value: number): string {
+  return `NIS ${value.toFixed(2)}`;
+}
+
+function balanceClassName(value: number): string {
+  if (value > 0) return 'settlement-balance owed';
+  if (value < 0) return 'settlement-balance credit';
+  return 'settlement-balance';
+}
+
+export function SettlementsPage() {
+  const { txt, locale } = useI18n();
+  const [balances, setBalances] = useState<DriverBalanceDocument[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [ledger, setLedger] = useState<LedgerEntryDocument[]>([]);
+  const [statements, setStatements] = useState<SettlementStatementDocument[]>([]);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeDriverBalances(setBalances), []);
+
+  useEffect(() => {
+    setLedger([]);
+    setStatements([]);
+    setAmount('');
+    setNote('');
+    if (!selectedId) return undefined;
+    const unsubscribeLedger = subscribeDriverLedger(selectedId, setLedger);
+    const unsubscribeStatements = subscribeSettlementStatements(selectedId, setStatements);
+    return () => {
+      unsubscribeLedger();
+      unsubscribeStatements();
+    };
+  }, [selectedId]);
+
+  const selected = balances?.find((balance) => balance.driverId === selectedId) ?? null;
+  const totalOwed = (balances ?? []).reduce((sum, balance) => sum + Math.max(balance.balanceOwedIls, 0), 0);
+  const totalCredit = (balances ?? []).reduce((sum, balance) => sum + Math.min(balance.balanceOwedIls, 0), 0);
+  const totalCommission = (balances ?? []).reduce((sum, balance) => sum + balance.commissionTotalIls, 0);
+  const amountValue = Number(amount);
+  const amountValid = amountValue > 0 && amountValue <= SETTLEMENT_RULES.MAX_HANDOVER_ILS;
+
+  const formatTime = (date: Date | null) =>
+    date ? date.toLocaleString(locale === 'ar' ? 'ar-PS' : 'en-US', { dateStyle: 'short', timeStyle: 'short' }) : '--';
+  const formatDay = (date: Date | null) =>
+    date ? date.toLocaleDateString(locale === 'ar' ? 'ar-PS' : 'en-US', { dateStyle: 'medium' }) : '--';
+
+  const onRecordHandover = async () => {
+    if (!selected || !amountValid) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await recordCashHandover({
+        driverId: selected.driverId,
+        amountIls: amountValue,
+        ...(note.trim() ? { note: note.trim() } : {}),
+      });
+      setAmount('');
+      setNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : txt('تعذّر تسجيل التسليم.', 'Failed to record the handover.'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="settlements-page">
+      <h2>{txt('التسويات', 'Settlements')}</h2>
+      <p className="settlements-subtitle">
+        {txt(
+          'كل رحلة مكتملة تُسجَّل في دفتر السائق: الأجرة، عمولة المكتب وصافي السائق. سجّل النقد الذي يسلّمه السائق للمكتب لتسوية رصيده.',
+          'Each completed trip is booked to the driver ledger: fare, office commission and driver net. Record the cash a driver hands over to settle their balance.'
+        )}
+      </p>
+
+      {error ? <div className="page-error">{error}</div> : null}
+
+      {balances === null ? (
+        <div className="loading">{txt('جاري تحميل الأرصدة...', 'Loading balances...')}</div>
+      ) : (
+        <>
+          <div className="summary-cards">
+            <div className="summary-card owed">
+              <div className="summary-value">{formatIls(totalOwed)}</div>
+              <div className="summary-label">{txt('مستحق على السائقين', 'Owed by drivers')}</div>
+            </div>
+            <div className="summary-card credit">
+              <div className="summary-value">{formatIls(Math.abs(totalCredit))}</div>
+              <div className="summary-label">{txt('رصيد دائن للسائقين', 'Driver credit')}</div>
+            </div>
+            <div className="summary-card total">
+              <div className="summary-value">{formatIls(totalCommission)}</div>
+              <div className="summary-label">{txt('إجمالي العمولات', 'Total commission')}</div>
+            </div>
+          </div>
+
+          {balances.length === 0 ? (
+            <div className="empty-state">{txt('لا توجد قيود بعد.', 'No ledger entries yet.')}</div>
+          ) : (
+            <div className="table-container">
+              <table className="settlements-table">
+                <thead>
+                  <tr>
+                    <th>{txt('السائق', 'Driver')}</th>
+                    <th>{txt('المكتب', 'Office')}</th>
+                    <th>{txt('الرحلات', 'Trips')}</th>
+                    <th>{txt('الأجرة', 'Fares')}</th>
+                    <th>{txt('العمولة', 'Commission')}</th>
+                    <th>{txt('المُسلَّم', 'Handed over')}</th>
+                    <th>{txt('الرصيد', 'Balance')}</th>
+                    <th>{txt('آخر قيد', 'Last entry')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {balances.map((balance) => (
+                    <tr
+                      key={balance.driverId}
+                      className={balance.driverId === selectedId ? 'selected' : undefined}
+                      onClick={() => setSelectedId(balance.driverId)}
+                    >
+                      <td className="mono">{shortId(balance.driverId)}</td>
+                      <td>{balance.officeId ? shortId(balance.officeId) : '--'}</td>
+                      <td>{balance.tripsCount}</td>
+                      <td>{formatIls(balance.fareTotalIls)}</td>
+                      <td>{formatIls(balance.commissionTotalIls)}</td>
+                      <td>{formatIls(balance.handoverTotalIls)}</td>
+                      <td className={balanceClassName(balance.balanceOwedIls)}>{formatIls(balance.balanceOwedIls)}</td>
+                      <td>{formatTime(balance.lastEntryAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {selected ? (
+        <section className="settlement-detail">
+          <header className="settlement-detail-header">
+            <h3>
+              {txt('السائق', 'Driver')} <span className="mono">{selected.driverId}</span>
+            </h3>
+            <span className={balanceClassName(selected.balanceOwedIls)}>
+              {selected.balanceOwedIls < 0
+                ? txt('رصيد دائن', 'Credit') + ` ${formatIls(Math.abs(selected.balanceOwedIls))}`
+                : txt('مستحق', 'Owes') + ` ${formatIls(selected.balanceOwedIls)}`}
+            </span>
+          </header>
+
+          <div className="settlement-handover">
+            <label>
+              {txt('المبلغ المُسلَّم (₪)', 'Cash handed over (NIS)')}
+              <input
+                type="number"
+                min={0}
+                max={SETTLEMENT_RULES.MAX_HANDOVER_ILS}
+                step="0.01"
+                value={amount}
+                disabled={busy}
+                onChange={(event) => setAmount(event.target.value)}
+              />
+            </label>
+            <label>
+              {txt('ملاحظة', 'Note')}
+              <input value={note} maxLength={300} disabled={busy} onChange={(event) => setNote(event.target.value)} />
+            </label>
+            <button className="action-btn approve" disabled={busy || !amountValid} onClick={() => void onRecordHandover()}>
+              {txt('تسجيل التسليم', 'Record handover')}
+            </button>
+          </div>
+
+          <h4>{txt('الدفتر', 'Ledger')}</h4>
+          {ledger.length === 0 ? (
+            <div className="empty-state">{txt('لا توجد قيود.', 'No entries.')}</div>
+          ) : (
+            <div className="table-container">
+              <table className="settlements-table">
+                <thead>
+                  <tr>
+                    <th>{txt('التاريخ', 'Date')}</th>
+                    <th>{txt('النوع', 'Type')}</th>
+                    <th>{txt('الأجرة', 'Fare')}</th>
+                    <th>{txt('العمولة', 'Commission')}</th>
+                    <th>{txt('صافي السائق', 'Driver net')}</th>
+                    <th>{txt('الحركة', 'Change')}</th>
+                    <th>{txt('الرصيد بعد', 'Balance after')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledger.map((entry) => (
+                    <tr key={entry.entryId}>
+                      <td>{formatTime(entry.createdAt)}</td>
+                      <td>
+                        {entry.type === 'trip_fare' ? (
+                          <>
+                            {txt('رحلة', 'Trip')} <span className="mono">{entry.tripId ? shortId(entry.tripId) : ''}</span>
+                            {entry.fareCollectedBy === 'office' ? (
+                              <span className="settlement-note"> · {txt('دفع إلكتروني', 'Paid online')}</span>
+                            ) : null}
+                          </>
+                        ) : entry.type === 'cancellation_fee' ? (
+                          <>
+                            {txt('رسوم إلغاء', 'Cancellation fee')}{' '}
+                            <span className="mono">{entry.tripId ? shortId(entry.tripId) : ''}</span>
+                          </>
+                        ) : entry.type === 'refund' ? (
+                          <>
+                            {txt('استرداد', 'Refund')} <span className="mono">{entry.tripId ? shortId(entry.tripId) : ''}</span>
+                            {entry.note ? <span className="settlement-note"> · {entry.note}</span> : null}
+                          </>
+                        ) : (
+                          <>
+                            {txt('تسليم نقدي', 'Cash handover')}
+                            {entry.note ? <span className="settlement-note"> · {entry.note}</span> : null}
+                          </>
+                        )}
+                      </td>
+                      <td>{entry.type !== 'cash_handover' ? formatIls(entry.fareIls) : '--'}</td>
+                      <td>
+                        {entry.type !== 'cash_handover'
+                          ? `${formatIls(entry.commissionIls)}${entry.commissionPct !== null ? ` (${entry.commissionPct}%)` : ''}`
+                          : '--'}
+                      </td>
+                      <td>{entry.type !== 'cash_handover' ? formatIls(entry.driverNetIls) : '--'}</td>
+                      <td className={balanceClassName(entry.balanceDeltaIls)}>
+                        {entry.balanceDeltaIls > 0 ? '+' : ''}
+                        {entry.balanceDeltaIls.toFixed(2)}
+                      </td>
+                      <td className={balanceClassName(entry.balanceAfterIls)}>{formatIls(entry.balanceAfterIls)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <h4>{txt('الكشوفات الأسبوعية', 'Weekly statements')}</h4>
+          {statements.length === 0 ? (
+            <div className="empty-state">{txt('لا توجد كشوفات بعد.', 'No statements yet.')}</div>
+          ) : (
+            <div className="table-container">
+              <table className="settlements-table">
+                <thead>
+                  <tr>
+                    <th>{txt('الفترة', 'Period')}</th>
+                    <th>{txt('الرحلات', 'Trips')}</th>
+                    <th>{txt('الأجرة', 'Fares')}</th>
+                    <th>{txt('العمولة', 'Commission')}</th>
+                    <th>{txt('المُسلَّم', 'Handed over')}</th>
+                    <th>{txt('رصيد أول المدة', 'Opening')}</th>
+                    <th>{txt('رصيد آخر المدة', 'Closing')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {statements.map((statement) => (
+                    <tr key={statement.statementId}>
+                      <td>
+                        {formatDay(statement.periodStart)} – {formatDay(statement.periodEnd)}
+                      </td>
+                      <td>{statement.tripsCount}</td>
+                      <td>{formatIls(statement.fareTotalIls)}</td>
+                      <td>{formatIls(statement.commissionTotalIls)}</td>
+                      <td>{formatIls(statement.handoverTotalIls)}</td>
+                      <td className={balanceClassName(statement.openingBalanceIls)}>
+                        {formatIls(statement.openingBalanceIls)}
+                      </td>
+                      <td className={balanceClassName(statement.closingBalanceIls)}>
+                        {formatIls(statement.closingBalanceIls)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      ) : balances && balances.length > 0 ? (
+        <div className="empty-state">{txt('اختر سائقًا لعرض دفتره.', 'Select a driver to view their ledger.')}</div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useEffect, useState } from 'react';
+import { SUPPORT_TICKET_TRANSITIONS, SupportTicketStatus } from '@taxi-line/shared';
+import { useI18n } from '../localization';
+import { TripChatArchivePanel } from '../components/TripChatArchivePanel';
+import {
+  SupportStaffMember,
+  SupportTicketDocument,
+  SupportTicketFilter,
+  SupportTicketMessage,
+  getCurrentManagerId,
+  replySupportTicket,
+  subscribeSupportStaff,
+  subscribeSupportTicketMessages,
+  subscribeSupportTickets,
+  updateSupportTicket,
+} from '../services/support.service';
+import './SupportPage.css';
+
+type Txt = (ar: string, en: string) => string;
+
+const FILTERS: SupportTicketFilter[] = ['active', 'mine', 'open', 'assigned', 'waiting_on_user', 'resolved', 'closed'];
+
+function statusLabel(status: SupportTicketStatus, txt: Txt): string {
+  switch (status) {
+    case 'open':
+      return txt('مفتوحة', 'Open');
+    case 'assigned':
+      return txt('مُسندة', 'Assigned');
+    case 'waiting_on_user':
+      return txt('بانتظار المستخدم', 'Waiting on user');
+    case 'resolved':
+      return txt('محلولة', 'Resolved');
+    case 'closed':
+      return txt('مغلقة', 'Closed');
+    default:
+      return status;
+  }
+}
+
+function filterLabel(filter: SupportTicketFilter, txt: Txt): string {
+  if (filter === 'active') return txt('النشطة', 'Active');
+  if (filter === 'mine') return txt('تذاكري', 'My tickets');
+  return statusLabel(filter, txt);
+}
+
+function categoryLabel(category: string, txt: Txt): string {
+  switch (category) {
+    case 'trip':
+      return txt('رحلة', 'Trip');
+    case 'payment':
+      return txt('دفع', 'Payment');
+    case 'safety':
+      return txt('سلامة', 'Safety');
+    case 'technical':
+      return txt('تقني', 'Technical');
+    default:
+      return txt('أخرى', 'Other');
+  }
+}
+
+function shortId(id: string): string {
+  return id.length > 12 ? `${id.slice(0, 8)}...` : id;
+}
+
+export function SupportPage() {
+  const { txt, locale } = useI18n();
+  const [filter, setFilter] = useState<SupportTicketFilter>('active');
+  const [tickets, setTickets] = useState<SupportTicketDocument[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<SupportTicketMessage[]>([]);
+  const [staff, setStaff] = useState<SupportStaffMember[]>([]);
+  const [reply, setReply] = useState('');
+  const [tripInput, setTripInput] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const managerId = getCurrentManagerId();
+
+  useEffect(() => {
+    setTickets(null);
+    return subscribeSupportTickets(filter, setTickets);
+  }, [filter]);
+
+  useEffect(() => subscribeSupportStaff(setStaff), []);
+
+  useEffect(() => {
+    setMessages([]);
+    setReply('');
+    if (!selectedId) return undefined;
+    return subscribeSupportTicketMessages(selectedId, setMessages);
+  }, [selectedId]);
+
+  const selected = tickets?.find((ticket) => ticket.ticketId === selectedId) ?? null;
+
+  useEffect(() => {
+    setTripInput(selected?.tripId ?? '');
+  }, [selected?.ticketId, selected?.tripId]);
+
+  const formatTime = (date: Date | null) =>
+    date ? date.toLocaleString(locale === 'ar' ? 'ar-PS' : 'en-US', { dateStyle: 'short', timeStyle: 'short' }) : '--';
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : txt('تعذّر تحديث التذكرة.', 'Failed to update the ticket.'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onReply = (nextStatus?: SupportTicketStatus) => {
+    if (!selected || !reply.trim()) return;
+    void run(async () => {
+      await replySupportTicket({
+        ticketId: selected.ticketId,
+        message: reply.trim(),
+        ...(nextStatus ? { nextStatus } : {}),
+      });
+      setReply('');
+    });
+  };
+
+  const onStatus = (status: SupportTicketStatus) => {
+    if (!selected) return;
+    void run(() => updateSupportTicket({ ticketId: selected.ticketId, status }));
+  };
+
+  const onAssign = (assigneeId: string) => {
+    if (!selected) return;
+    void run(() => updateSupportTicket({ ticketId: selected.ticketId, assigneeId: assigneeId || null }));
+  };
+
+  const onLinkTrip = (tripId: string | null) => {
+    if (!selected) return;
+    void run(() => updateSupportTicket({ ticketId: selected.ticketId, tripId }));
+  };
+
+  const isClosed = selected?.status === 'closed';
+  const assignableStaff = staff.filter((member) => member.isActive || member.userId === selected?.assigneeId);
+
+  return (
+    <div className="support-page">
+      <h2>{txt('الدعم', 'Support')}</h2>
+      <p className="support-subtitle">
+        {txt(
+          'تذاكر الركاب والسائقين وتذاكر فحوصات جودة التقييم. الرد ينقل التذكرة إلى انتظار المستخدم، ورد المستخدم يعيدها للفريق.',
+          'Tickets from passengers, drivers and the rating quality checks. A staff reply waits on the user; a user reply sends the ticket back to staff.'
+        )}
+      </p>
+
+      <div className="support-filters">
+        {FILTERS.map((option) => (
+          <button
+            key={option}
+            className={option === filter ? 'support-filter active' : 'support-filter'}
+            onClick={() => setFilter(option)}
+          >
+            {filterLabel(option, txt)}
+          </button>
+        ))}
+      </div>
+
+      {error ? <div className="page-error">{error}</div> : null}
+
+      <div className="support-layout">
+        <section className="support-list">
+          {tickets === null ? (
+            <div className="loading">{txt('جاري تحميل التذاكر...', 'Loading tickets...')}</div>
+          ) : tickets.length === 0 ? (
+            <div className="empty-state">{txt('لا توجد تذاكر.', 'No tickets.')}</div>
+          ) : (
+            <ul>
+              {tickets.map((ticket) => (
+                <li key={ticket.ticketId}>
+                  <button
+                    className={ticket.ticketId === selectedId ? 'support-ticket-row selected' : 'support-ticket-row'}
+                    onClick={() => setSelectedId(ticket.ticketId)}
+                  >
+                    <span className="support-ticket-subject">{ticket.subject}</span>
+                    <span className="support-ticket-meta">
+                      <span className={`support-status status-${ticket.status}`}>{statusLabel(ticket.status, txt)}</span>
+                      <span>{categoryLabel(ticket.category, txt)}</span>
+                      {ticket.source === 'quality' ? <span className="support-source">{txt('جودة', 'Quality')}</span> : null}
+                      {ticket.lastMessageRole === 'user' && ticket.status !== 'closed' ? (
+                        <span className="support-awaiting">{txt('بانتظار الرد', 'Needs reply')}</span>
+                      ) : null}
+                      <span>{formatTime(ticket.updatedAt)}</span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="support-detail">
+          {!selected ? (
+            <div className="empty-state">{txt('اختر تذكرة لعرضها.', 'Select a ticket to view it.')}</div>
+          ) : (
+            <>
+              <header className="support-detail-header">
+                <h3>{selected.subject}</h3>
+                <div className="support-ticket-meta">
+                  <span className={`support-status status-${selected.status}`}>{statusLabel(selected.status, txt)}</span>
+                  <span>
+                    {selected.userRole === 'driver' ? txt('سائق', 'Driver') : txt('راكب', 'Passenger')}:{' '}
+                    {shortId(selected.userId)}
+                  </span>
+                  <span>{categoryLabel(selected.category, txt)}</span>
+                  <span>{formatTime(selected.createdAt)}</span>
+                </div>
+              </header>
+
+              <div className="support-controls">
+                <label>
+                  {txt('الحالة', 'Status')}
+                  <select
+                    value=""
+                    disabled={busy || isClosed}
+                    onChange={(event) => onStatus(event.target.value as SupportTicketStatus)}
+                  >
+                    <option value="">{txt('تغيير إلى...', 'Move to...')}</option>
+                    {SUPPORT_TICKET_TRANSITIONS[selected.status]
+                      .filter((status) => status !== 'assigned' || selected.assigneeId)
+                      .map((status) => (
+                        <option key={status} value={status}>
+                          {statusLabel(status, txt)}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+
+                <label>
+                  {txt('المسؤول', 'Assignee')}
+                  <select
+                    value={selected.assigneeId ?? ''}
+                    disabled={busy || isClosed}
+                    onChange={(event) => onAssign(event.target.value)}
+                  >
+                    <option value="">{txt('غير مُسندة', 'Unassigned')}</option>
+                    {assignableStaff.map((member) => (
+                      <option key={member.userId} value={member.userId}>
+                        {member.userId === managerId ? txt('أنا', 'Me') : shortId(member.userId)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <label>
+                  {txt('الرحلة', 'Trip')}
+                  <span className="support-trip-link">
+                    <input
+                      value={tripInput}
+                      placeholder={txt('رقم الرحلة', 'Trip ID')}
+                      disabled={busy || isClosed}
+                      onChange={(event) => setTripInput(event.target.value)}
+                    />
+                    <button
+                      className="action-btn"
+                      disabled={busy || isClosed || !tripInput.trim() || tripInput.trim() === selected.tripId}
+                      onClick={() => onLinkTrip(tripInput.trim())}
+                    >
+                      {txt('ربط', 'Link')}
+                    </button>
+                    {selected.tripId ? (
+                      <button className="action-btn" disabled={busy || isClosed} onClick={() => onLinkTrip(null)}>
+                        {txt('إلغاء الربط', 'Unlink')}
+                      </button>
+                    ) : null}
+                  </span>
+                </label>
+              </div>
+
+              {selected.tripId ? <TripChatArchivePanel tripId={selected.tripId} /> : null}
+
+              <ol className="support-thread">
+                {messages.map((message) =>
+                  message.authorRole === 'system' && message.status ? (
+                    <li key={message.messageId} className="support-message system">
+                      {txt('تغيّرت الحالة إلى', 'Status changed to')} {statusLabel(message.status, txt)} ·{' '}
+                      {formatTime(message.createdAt)}
+                    </li>
+                  ) : (
+                    <li key={message.messageId} className={`support-message ${message.authorRole}`}>
+                      <span className="support-message-author">
+                        {message.authorRole === 'staff'
+                          ? message.authorId === managerId
+                            ? txt('أنت', 'You')
+                            : txt('الدعم', 'Support')
+                          : message.authorRole === 'user'
+                            ? txt('المستخدم', 'User')
+                            : txt('النظام', 'System')}{' '}
+                        · {formatTime(message.createdAt)}
+                      </span>
+                      <p>{message.text}</p>
+                    </li>
+                  )
+                )}
+              </ol>
+
+              {isClosed ? (
+                <div className="empty-state">{txt('التذكرة مغلقة.', 'This ticket is closed.')}</div>
+              ) : (
+                <div className="support-reply">
+                  <textarea
+                    value={reply}
+                    rows={4}
+                    maxLength={2000}
+                    placeholder={
+                      selected.source === 'quality'
+                        ? txt('ملاحظة داخلية...', 'Internal note...')
+                        : txt('اكتب ردًا للمستخدم...', 'Write a reply to the user...')
+                    }
+                    disabled={busy}
+                    onChange={(event) => setReply(event.target.value)}
+                  />
+                  <div className="support-reply-actions">
+                    <button className="action-btn" disabled={busy || !reply.trim()} onClick={() => onReply()}>
+                      {selected.source === 'quality'
+                        ? txt('إضافة ملاحظة', 'Add note')
+                        : txt('رد وانتظار المستخدم', 'Reply & wait on user')}
+                    </button>
+                    <button
+                      className="action-btn approve"
+                      disabled={busy || !reply.trim()}
+                      onClick={() => onReply('resolved')}
+                    >
+                      {txt('رد وحل', 'Reply & resolve')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -41,6 +41,11 @@ export interface DriverDocument {
   availableSeats?: number | null;
   eligibilityBlocked?: boolean;
   eligibilityBlockReasons?: string[];
+  /** Rolling-window average maintained by the quality module */
+  rating?: number | null;
+  ratingCount?: number;
+  qualityStatus?: 'good' | 'watch' | 'on_review' | null;
+  qualityFlags?: string[];
   location?: {
     lat: number;
     lng: number;
@@ -93,6 +98,13 @@ export function subscribeToDrivers(
           availableSeats: typeof data.availableSeats === 'number' ? data.availableSeats : null,
           eligibilityBlocked: data.eligibilityBlocked === true,
           eligibilityBlockReasons: Array.isArray(data.eligibilityBlockReasons) ? data.eligibilityBlockReasons : [],
+          rating: typeof data.rating === 'number' ? data.rating : null,
+          ratingCount: typeof data.ratingCount === 'number' ? data.ratingCount : 0,
+          qualityStatus:
+            data.qualityStatus === 'watch' || data.qualityStatus === 'on_review' || data.qualityStatus === 'good'
+              ? data.qualityStatus
+              : null,
+          qualityFlags: Array.isArray(data.qualityFlags) ? data.qualityFlags : [],
           location: data.location ? {
             lat: data.location.lat,
             lng: data.location.lng,
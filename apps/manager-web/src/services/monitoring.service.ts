@@ -1,4 +1,13 @@
-import { doc, onSnapshot } from 'firebase/firestore';
+import { Timestamp, collection, doc, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import type {
+  AlertEscalationPolicy,
+  AlertNotificationChannel,
+  AlertNotificationStatus,
+  AlertRule,
+  AlertRuleComparison,
+  OpsMetricsBucket,
+  OpsMetricsResolution,
+} from '@taxi-line/shared';
 import { getFirestoreDb } from './firebase';
 import { CollectionItem, subscribeCollection } from './operations.service';
 
@@ -42,6 +51,9 @@ export interface OpsAlert {
   resolvedAt?: Date | null;
   updatedAt?: Date | null;
   details?: Record<string, unknown>;
+  /** Escalation steps already notified */
+  escalationLevel: number;
+  lastEscalatedAt?: Date | null;
 }
 
 export interface OpsError {
@@ -54,6 +66,47 @@ export interface OpsError {
   createdAt?: Date | null;
 }
 
+export interface AlertRuleData extends AlertRule {
+  ruleId: string;
+  officeId: string | null;
+  lastValue: number | null;
+  lastEvaluatedAt: Date | null;
+  lastFiredAt: Date | null;
+  openFiringId: string | null;
+}
+
+export interface AlertEscalationPolicyData extends AlertEscalationPolicy {
+  policyId: string;
+}
+
+export interface AlertNotificationData {
+  id: string;
+  policyId: string;
+  step: number;
+  channel: AlertNotificationChannel;
+  recipient: string;
+  status: AlertNotificationStatus;
+  error: string | null;
+  attemptedAt: Date | null;
+}
+
+export interface AlertRuleFiringData {
+  id: string;
+  value: number;
+  threshold: number;
+  comparison: AlertRuleComparison;
+  severity: 'warning' | 'critical';
+  officeId: string | null;
+  firedAt: Date | null;
+  resolvedAt: Date | null;
+  resolvedValue: number | null;
+}
+
+export type OpsMetricsBucketData = Omit<OpsMetricsBucket, 'bucketStartMs'> & {
+  id: string;
+  bucketStart: Date;
+};
+
 function toDateOrNull(value: unknown): Date | null {
   if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
     return (value as { toDate: () => Date }).toDate();
@@ -98,6 +151,8 @@ export function subscribeOpsAlerts(
             resolvedAt: toDateOrNull(data.resolvedAt),
             updatedAt: toDateOrNull(data.updatedAt),
             details: (data.details ?? {}) as Record<string, unknown>,
+            escalationLevel: typeof data.escalationLevel === 'number' ? data.escalationLevel : 0,
+            lastEscalatedAt: toDateOrNull(data.lastEscalatedAt),
           };
         })
       );
@@ -135,3 +190,153 @@ export function subscribeOpsErrors(
     { orderByField: 'createdAt', orderDirection: 'desc', limitTo: 100 }
   );
 }
+
+export function subscribeAlertRules(onData: (rules: AlertRuleData[]) => void): () => void {
+  return subscribeCollection<AlertRuleData>(
+    'alertRules',
+    (items) => {
+      onData(
+        items.map((item) => {
+          const data = item.data as unknown as Record<string, unknown>;
+          return {
+            ruleId: item.id,
+            name: String(data.name ?? item.id),
+            metric: data.metric as AlertRuleData['metric'],
+            comparison: data.comparison as AlertRuleComparison,
+            threshold: Number(data.threshold ?? 0),
+            windowMinutes: Number(data.windowMinutes ?? 15),
+            severity: data.severity === 'critical' ? 'critical' : 'warning',
+            officeId: typeof data.officeId === 'string' ? data.officeId : null,
+            cooldownMinutes: Number(data.cooldownMinutes ?? 0),
+            enabled: data.enabled !== false,
+            escalationPolicyId: typeof data.escalationPolicyId === 'string' ? data.escalationPolicyId : null,
+            lastValue: typeof data.lastValue === 'number' ? data.lastValue : null,
+            lastEvaluatedAt: toDateOrNull(data.lastEvaluatedAt),
+            lastFiredAt: toDateOrNull(data.lastFiredAt),
+            openFiringId: typeof data.openFiringId === 'string' ? data.openFiringId : null,
+          };
+        })
+      );
+    },
+    { orderByField: 'name', orderDirection: 'asc' }
+  );
+}
+
+export function subscribeAlertRuleFirings(
+  ruleId: string,
+  onData: (firings: AlertRuleFiringData[]) => void
+): () => void {
+  return subscribeCollection<AlertRuleFiringData>(
+    `alertRules/${ruleId}/firings`,
+    (items) => {
+      onData(
+        items.map((item) => {
+          const data = item.data as unknown as Record<string, unknown>;
+          return {
+            id: item.id,
+            value: Number(data.value ?? 0),
+            threshold: Number(data.threshold ?? 0),
+            comparison: data.comparison as AlertRuleComparison,
+            severity: data.severity === 'critical' ? 'critical' : 'warning',
+            officeId: typeof data.officeId === 'string' ? data.officeId : null,
+            firedAt: toDateOrNull(data.firedAt),
+            resolvedAt: toDateOrNull(data.resolvedAt),
+            resolvedValue: typeof data.resolvedValue === 'number' ? data.resolvedValue : null,
+          };
+        })
+      );
+    },
+    { orderByField: 'firedAt', orderDirection: 'desc', limitTo: 20 }
+  );
+}
+
+export function subscribeEscalationPolicies(
+  onData: (policies: AlertEscalationPolicyData[]) => void
+): () => void {
+  return subscribeCollection<AlertEscalationPolicyData>(
+    'alertEscalationPolicies',
+    (items) => {
+      onData(
+        items.map((item) => {
+          const data = item.data as unknown as Record<string, unknown>;
+          return {
+            policyId: item.id,
+            name: String(data.name ?? item.id),
+            steps: Array.isArray(data.steps) ? (data.steps as AlertEscalationPolicy['steps']) : [],
+            webhookUrl: typeof data.webhookUrl === 'string' ? data.webhookUrl : null,
+            enabled: data.enabled !== false,
+          };
+        })
+      );
+    },
+    { orderByField: 'name', orderDirection: 'asc' }
+  );
+}
+
+export function subscribeAlertNotifications(
+  alertId: string,
+  onData: (notifications: AlertNotificationData[]) => void
+): () => void {
+  return subscribeCollection<AlertNotificationData>(
+    `opsAlerts/${alertId}/notifications`,
+    (items) => {
+      onData(
+        items.map((item) => {
+          const data = item.data as unknown as Record<string, unknown>;
+          return {
+            id: item.id,
+            policyId: String(data.policyId ?? ''),
+            step: Number(data.step ?? 0),
+            channel: data.channel as AlertNotificationChannel,
+            recipient: String(data.recipient ?? ''),
+            status: data.status === 'sent' || data.status === 'skipped' ? data.status : 'failed',
+            error: typeof data.error === 'string' ? data.error : null,
+            attemptedAt: toDateOrNull(data.attemptedAt),
+          };
+        })
+      );
+    },
+    { orderByField: 'attemptedAt', orderDirection: 'desc', limitTo: 30 }
+  );
+}
+
+/**
+ * Rolled-up metric buckets of one scope (`platform`, `office:{id}` or
+ * `line:{id}`) from `since` onwards, oldest first
+ */
+export function subscribeOpsMetricsHistory(
+  resolution: OpsMetricsResolution,
+  scopeKey: string,
+  since: Date,
+  onData: (buckets: OpsMetricsBucketData[]) => void
+): () => void {
+  const db = getFirestoreDb();
+  const q = query(
+    collection(db, 'opsMetricsHistory'),
+    where('resolution', '==', resolution),
+    where('scopeKey', '==', scopeKey),
+    where('bucketStart', '>=', Timestamp.fromDate(since)),
+    orderBy('bucketStart', 'asc')
+  );
+
+  return onSnapshot(q, (snapshot) => {
+    const buckets: OpsMetricsBucketData[] = [];
+    snapshot.docs.forEach((docSnap) => {
+      const data = docSnap.data();
+      const bucketStart = toDateOrNull(data.bucketStart);
+      if (!bucketStart) return;
+      buckets.push({
+        id: docSnap.id,
+        resolution,
+        scopeType: data.scopeType === 'office' || data.scopeType === 'line' ? data.scopeType : 'platform',
+        scopeId: typeof data.scopeId === 'string' ? data.scopeId : null,
+        scopeKey,
+        bucketStart,
+        samples: Number(data.samples ?? 0),
+        gaugeSums: (data.gaugeSums ?? {}) as OpsMetricsBucketData['gaugeSums'],
+        counts: (data.counts ?? {}) as OpsMetricsBucketData['counts'],
+      });
+    });
+    onData(buckets);
+  });
+}
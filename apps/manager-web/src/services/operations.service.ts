@@ -8,6 +8,7 @@ import {
   query,
 } from 'firebase/firestore';
 import { httpsCallable } from 'firebase/functions';
+import { AlertEscalationPolicy, AlertRule, FareBreakdown } from '@taxi-line/shared';
 import { getFirestoreDb, getFunctionsInstance } from './firebase';
 
 export type Unsubscribe = () => void;
@@ -26,6 +27,8 @@ function callable<TInput extends Record<string, unknown>, TOutput>(name: string)
   };
 }
 
+export type MatchingStrategy = 'distance' | 'eta' | 'rating_weighted' | 'fairness';
+
 export const upsertOffice = callable<
   {
     officeId?: string;
@@ -35,6 +38,8 @@ export const upsertOffice = callable<
     status?: 'active' | 'inactive';
     contactPhone?: string;
     dispatchMode?: 'line_based' | 'hybrid';
+    matchingStrategy?: MatchingStrategy | null;
+    commissionPct?: number | null;
   },
   { officeId: string; success: true }
 >('managerUpsertOffice');
@@ -51,6 +56,8 @@ export const upsertLine = callable<
     allowedVehicleTypes?: string[];
     pricingProfileId?: string;
     serviceAreaLabel?: string;
+    matchingStrategy?: MatchingStrategy | null;
+    commissionPct?: number | null;
   },
   { lineId: string; success: true }
 >('managerUpsertLine');
@@ -97,30 +104,85 @@ export const linkDriverToOperations = callable<
   { success: true; driverId: string; vehicleId: string | null }
 >('managerLinkDriverToOperations');
 
+export interface PricingProfileDraft extends Record<string, unknown> {
+  name: string;
+  status?: 'active' | 'inactive';
+  baseRatePerKm: number;
+  minimumFareIls: number;
+  seatSurchargePerSeat?: number;
+  ratePerMinuteIls?: number;
+  fareToleranceBandPct?: number;
+  maxFareDeviationPct?: number;
+  peakWindows?: Array<{
+    id: string;
+    label: string;
+    daysOfWeek: number[];
+    startMinute: number;
+    endMinute: number;
+    multiplier: number;
+  }>;
+  vehicleMultipliers?: Record<string, number>;
+  officeMultipliers?: Record<string, number>;
+  lineMultipliers?: Record<string, number>;
+  notes?: string;
+}
+
 export const upsertPricingProfile = callable<
-  {
+  PricingProfileDraft & {
     profileId?: string;
-    name: string;
-    status?: 'active' | 'inactive';
-    baseRatePerKm: number;
-    minimumFareIls: number;
-    seatSurchargePerSeat?: number;
-    peakWindows?: Array<{
-      id: string;
-      label: string;
-      daysOfWeek: number[];
-      startMinute: number;
-      endMinute: number;
-      multiplier: number;
-    }>;
-    vehicleMultipliers?: Record<string, number>;
-    officeMultipliers?: Record<string, number>;
-    lineMultipliers?: Record<string, number>;
-    notes?: string;
+    /** ISO time the new version takes effect; defaults to now */
+    effectiveFrom?: string;
   },
-  { success: true; profileId: string }
+  { success: true; profileId: string; version: number }
 >('managerUpsertPricingProfile');
 
+export const rollbackPricingProfile = callable<
+  { profileId: string; version: number; effectiveFrom?: string },
+  { success: true; profileId: string; version: number }
+>('managerRollbackPricingProfile');
+
+export interface SimulatedPrice {
+  priceIls: number;
+  breakdown: FareBreakdown;
+}
+
+export const simulatePricing = callable<
+  {
+    profileId: string;
+    draft?: PricingProfileDraft;
+    pickup: { lat: number; lng: number };
+    dropoff: { lat: number; lng: number };
+    at?: string;
+    requiredSeats?: number;
+    vehicleType?: string;
+    officeId?: string;
+    lineId?: string;
+  },
+  {
+    distanceKm: number;
+    durationMin: number;
+    current: SimulatedPrice;
+    draft: SimulatedPrice | null;
+  }
+>('managerSimulatePricing');
+
+export interface PricingComparisonRow {
+  tripId: string;
+  createdAt: string | null;
+  distanceKm: number;
+  chargedPriceIls: number;
+  currentPriceIls: number;
+  draftPriceIls: number;
+}
+
+export const comparePricingProfile = callable<
+  { profileId: string; draft: PricingProfileDraft; tripLimit?: number },
+  {
+    rows: PricingComparisonRow[];
+    totals: { chargedIls: number; currentIls: number; draftIls: number; changePct: number };
+  }
+>('managerComparePricingProfile');
+
 export const upsertPricingZone = callable<
   {
     zoneId?: string;
@@ -188,3 +250,13 @@ export const acknowledgeAlert = callable<
   { alertId: string; note?: string },
   { success: true; alertId: string }
 >('managerAcknowledgeAlert');
+
+export const upsertAlertRule = callable<
+  { ruleId?: string; rule: AlertRule },
+  { success: true; ruleId: string }
+>('managerUpsertAlertRule');
+
+export const upsertEscalationPolicy = callable<
+  { policyId?: string; policy: AlertEscalationPolicy },
+  { success: true; policyId: string }
+>('managerUpsertEscalationPolicy');
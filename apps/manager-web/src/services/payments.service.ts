@@ -1,4 +1,5 @@
 import { collection, onSnapshot, Timestamp, query, orderBy, limit } from 'firebase/firestore';
+import { FareBreakdown, toFareBreakdown } from '@taxi-line/shared';
 import { getFirestoreDb } from './firebase';
 
 /**
@@ -22,9 +23,15 @@ export interface PaymentDocument {
   passengerId: string;
   driverId: string;
   amount: number;
+  /** Fare components of the completed trip; null for older payments */
+  fareBreakdown: FareBreakdown | null;
   currency: string;
   method: 'cash' | 'card' | 'wallet';
-  status: 'pending' | 'paid' | 'failed';
+  /** Trip fare, or a late-cancel/no-show fee charged to the wallet */
+  kind: 'trip_fare' | 'cancellation_fee';
+  status: 'pending' | 'paid' | 'failed' | 'refunded';
+  /** Refunded to the passenger wallet so far */
+  refundedIls: number;
   createdAt: Timestamp | null;
   updatedAt: Timestamp | null;
 }
@@ -65,9 +72,12 @@ export function subscribeToPayments(
           passengerId: data.passengerId || '',
           driverId: data.driverId || '',
           amount: data.amount || 0,
+          fareBreakdown: toFareBreakdown(data.fareBreakdown),
           currency: data.currency || 'ILS',
           method: data.method || 'cash',
+          kind: data.kind === 'cancellation_fee' ? 'cancellation_fee' : 'trip_fare',
           status: data.status || 'pending',
+          refundedIls: typeof data.refundedIls === 'number' ? data.refundedIls : 0,
           createdAt: data.createdAt || null,
           updatedAt: data.updatedAt || null,
         });
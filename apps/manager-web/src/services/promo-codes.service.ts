@@ -0,0 +1,114 @@
+import { collection, onSnapshot, Timestamp, query, orderBy, limit } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { getFirestoreDb, getFunctionsInstance } from './firebase';
+
+/**
+ * ============================================================================
+ * PROMO CODES SERVICE
+ * ============================================================================
+ * 
+ * Manager campaigns: realtime list plus create/update through the
+ * managerUpsertPromoCode callable (promoCodes are never written directly).
+ * 
+ * FIRESTORE COLLECTION: promoCodes/{code}
+ * 
+ * ============================================================================
+ */
+
+export type PromoDiscountType = 'percent' | 'fixed';
+export type PromoCodeStatus = 'active' | 'inactive';
+
+/**
+ * Promo campaign document structure
+ */
+export interface PromoCodeDocument {
+  code: string;
+  description: string | null;
+  status: PromoCodeStatus;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxDiscountIls: number | null;
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  officeId: string | null;
+  startsAt: Timestamp | null;
+  expiresAt: Timestamp | null;
+  updatedAt: Timestamp | null;
+}
+
+export interface UpsertPromoCodeInput {
+  code: string;
+  description?: string;
+  status?: PromoCodeStatus;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxDiscountIls?: number;
+  maxRedemptions?: number;
+  officeId?: string;
+  /** ISO strings */
+  startsAt?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Subscribe to promo campaigns, most recently edited first
+ * 
+ * @param callback - Function called whenever campaigns change
+ * @param limitCount - Maximum number of campaigns to return (default: 200)
+ * @returns Unsubscribe function
+ */
+export function subscribeToPromoCodes(
+  callback: (promoCodes: PromoCodeDocument[]) => void,
+  limitCount: number = 200
+): () => void {
+  const db = getFirestoreDb();
+  const q = query(collection(db, 'promoCodes'), orderBy('updatedAt', 'desc'), limit(limitCount));
+
+  console.log('🎧 [PromoCodes] Starting realtime subscription...');
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const promoCodes: PromoCodeDocument[] = snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          code: data.code || doc.id,
+          description: data.description ?? null,
+          status: data.status === 'inactive' ? 'inactive' : 'active',
+          discountType: data.discountType === 'percent' ? 'percent' : 'fixed',
+          discountValue: data.discountValue || 0,
+          maxDiscountIls: data.maxDiscountIls ?? null,
+          maxRedemptions: data.maxRedemptions ?? null,
+          redemptionCount: data.redemptionCount || 0,
+          officeId: data.officeId ?? null,
+          startsAt: data.startsAt ?? null,
+          expiresAt: data.expiresAt ?? null,
+          updatedAt: data.updatedAt ?? null,
+        };
+      });
+
+      console.log(`📊 [PromoCodes] Received ${promoCodes.length} campaign(s)`);
+      callback(promoCodes);
+    },
+    (error) => {
+      console.error('❌ [PromoCodes] Subscription error:', error);
+    }
+  );
+}
+
+/**
+ * Create or update a campaign (usage count is kept by the backend)
+ */
+export async function upsertPromoCode(input: UpsertPromoCodeInput): Promise<string> {
+  const functions = getFunctionsInstance();
+  const upsert = httpsCallable<UpsertPromoCodeInput, { success: true; code: string }>(
+    functions,
+    'managerUpsertPromoCode'
+  );
+
+  const payload = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined && value !== '')
+  ) as unknown as UpsertPromoCodeInput;
+  const result = await upsert(payload);
+  return result.data.code;
+}
@@ -0,0 +1,152 @@
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import type { DriverQualityStatus, RatingQualityFlag, RatingSubject } from '@taxi-line/shared';
+import { getFirestoreDb, getFunctionsInstance } from './firebase';
+
+/**
+ * ============================================================================
+ * RATINGS & QUALITY SERVICE
+ * ============================================================================
+ *
+ * FIRESTORE COLLECTIONS:
+ * - ratings/{tripId}                    passengers rating drivers
+ * - passengerRatings/{tripId}           drivers rating passengers
+ * - ratingQuality/{subject}_{userId}    rolling-window summaries (backend)
+ *
+ * ============================================================================
+ */
+
+const RATING_COLLECTIONS: Record<RatingSubject, string> = {
+  driver: 'ratings',
+  passenger: 'passengerRatings',
+};
+
+export interface RatingEntry {
+  tripId: string;
+  subject: RatingSubject;
+  driverId: string;
+  passengerId: string;
+  rating: number;
+  comment: string | null;
+  commentHidden: boolean;
+  lowRatingReason: string | null;
+  createdAt: Date | null;
+}
+
+export interface RatingQualityEntry {
+  subject: RatingSubject;
+  userId: string;
+  ratingCount: number;
+  averageRating: number | null;
+  lowRatingCount: number;
+  reasonCounts: Record<string, number>;
+  flags: RatingQualityFlag[];
+  status: DriverQualityStatus | null;
+}
+
+function toDateOrNull(value: unknown): Date | null {
+  if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return null;
+}
+
+/**
+ * Most recent ratings given to drivers or to passengers
+ */
+export function subscribeRecentRatings(
+  subject: RatingSubject,
+  callback: (ratings: RatingEntry[]) => void,
+  limitCount: number = 50
+): () => void {
+  const db = getFirestoreDb();
+  const q = query(collection(db, RATING_COLLECTIONS[subject]), orderBy('createdAt', 'desc'), limit(limitCount));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            tripId: docSnap.id,
+            subject,
+            driverId: String(data.driverId ?? ''),
+            passengerId: String(data.passengerId ?? ''),
+            rating: Number(data.rating ?? 0),
+            comment: typeof data.comment === 'string' ? data.comment : null,
+            commentHidden: data.commentHidden === true,
+            lowRatingReason: typeof data.lowRatingReason === 'string' ? data.lowRatingReason : null,
+            createdAt: toDateOrNull(data.createdAt),
+          };
+        })
+      );
+    },
+    (error) => {
+      console.error('❌ [Ratings] Snapshot error:', error);
+    }
+  );
+}
+
+/**
+ * Quality summaries of all rated drivers and passengers
+ */
+export function subscribeRatingQuality(callback: (entries: RatingQualityEntry[]) => void): () => void {
+  const db = getFirestoreDb();
+
+  return onSnapshot(
+    collection(db, 'ratingQuality'),
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            subject: data.subject === 'passenger' ? 'passenger' : 'driver',
+            userId: String(data.userId ?? ''),
+            ratingCount: Number(data.ratingCount ?? 0),
+            averageRating: typeof data.averageRating === 'number' ? data.averageRating : null,
+            lowRatingCount: Number(data.lowRatingCount ?? 0),
+            reasonCounts: (data.reasonCounts ?? {}) as Record<string, number>,
+            flags: Array.isArray(data.flags) ? (data.flags as RatingQualityFlag[]) : [],
+            status: typeof data.status === 'string' ? (data.status as DriverQualityStatus) : null,
+          };
+        })
+      );
+    },
+    (error) => {
+      console.error('❌ [RatingQuality] Snapshot error:', error);
+    }
+  );
+}
+
+export interface ModerateRatingCommentInput {
+  subject: RatingSubject;
+  tripId: string;
+  hidden: boolean;
+  reason?: string;
+}
+
+export async function moderateRatingComment(input: ModerateRatingCommentInput): Promise<void> {
+  const callable = httpsCallable<ModerateRatingCommentInput, { success: true }>(
+    getFunctionsInstance(),
+    'managerModerateRatingComment'
+  );
+  await callable(input);
+}
+
+export interface SetDriverReviewInput {
+  driverId: string;
+  onReview: boolean;
+  note?: string;
+}
+
+export async function setDriverReview(
+  input: SetDriverReviewInput
+): Promise<{ success: true; qualityStatus: DriverQualityStatus }> {
+  const callable = httpsCallable<SetDriverReviewInput, { success: true; qualityStatus: DriverQualityStatus }>(
+    getFunctionsInstance(),
+    'managerSetDriverReview'
+  );
+  const result = await callable(input);
+  return result.data;
+}
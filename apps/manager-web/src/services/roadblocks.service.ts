@@ -9,9 +9,14 @@ import {
   updateDoc,
   deleteDoc,
   serverTimestamp,
-  where
+  where,
+  limit,
+  Timestamp,
+  deleteField
 } from 'firebase/firestore';
-import { getFirestoreDb } from './firebase';
+import { httpsCallable } from 'firebase/functions';
+import type { RoadblockScheduleWindow } from '@taxi-line/shared';
+import { getFirestoreDb, getFunctionsInstance } from './firebase';
 
 /**
  * Roadblock status constants
@@ -34,12 +39,28 @@ export interface RoadblockData {
   radiusMeters: number;
   status: 'open' | 'closed' | 'congested';
   note?: string;
+  schedule: RoadblockScheduleWindow[];
+  expiresAt: Date | null;
+  nextTransitionAt: Date | null;
+  nextStatus: 'open' | 'closed' | 'congested' | null;
   updatedAt: Date | null;
   createdAt: Date | null;
   createdBy?: string;
   updatedBy?: string;
 }
 
+/**
+ * Status change logged in roadblocks/{id}/history
+ */
+export interface RoadblockHistoryData {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  reason: string;
+  changedBy: string;
+  changedAt: Date | null;
+}
+
 /**
  * Subscribe to all roadblocks (real-time)
  */
@@ -80,6 +101,10 @@ export function subscribeToRoadblocks(
           radiusMeters: data.radiusMeters ?? 100,
           status: data.status ?? 'closed',
           note: data.note,
+          schedule: Array.isArray(data.schedule) ? data.schedule : [],
+          expiresAt: data.expiresAt?.toDate() ?? null,
+          nextTransitionAt: data.nextTransitionAt?.toDate() ?? null,
+          nextStatus: data.nextStatus ?? null,
           updatedAt: data.updatedAt?.toDate() ?? null,
           createdAt: data.createdAt?.toDate() ?? null,
           createdBy: data.createdBy,
@@ -103,6 +128,8 @@ export async function createRoadblock(data: {
   radiusMeters?: number;
   status?: 'open' | 'closed' | 'congested';
   note?: string;
+  schedule?: RoadblockScheduleWindow[];
+  expiresAt?: Date | null;
   createdBy?: string;
 }): Promise<string> {
   const db = getFirestoreDb();
@@ -116,6 +143,9 @@ export async function createRoadblock(data: {
     radiusMeters: data.radiusMeters ?? 100,
     status: data.status ?? 'closed',
     note: data.note ?? '',
+    schedule: data.schedule ?? [],
+    expiresAt: data.expiresAt ? Timestamp.fromDate(data.expiresAt) : null,
+    statusChangeReason: 'manual',
     createdBy: data.createdBy ?? 'manager',
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
@@ -146,12 +176,69 @@ export async function updateRoadblock(
   
   await updateDoc(roadblockRef, {
     ...data,
+    ...(data.status ? { statusChangeReason: 'manual' } : {}),
     updatedAt: serverTimestamp(),
   });
   
   console.log('🚧 Roadblock status updated:', id, data);
 }
 
+/**
+ * Replace a roadblock's schedule and expiry.
+ * The backend applies the new rules on its next run (within 5 minutes).
+ */
+export async function updateRoadblockTimeRules(
+  id: string,
+  data: { schedule: RoadblockScheduleWindow[]; expiresAt: Date | null; updatedBy: string }
+): Promise<void> {
+  const db = getFirestoreDb();
+  const roadblockRef = doc(db, 'roadblocks', id);
+
+  await updateDoc(roadblockRef, {
+    schedule: data.schedule,
+    expiresAt: data.expiresAt ? Timestamp.fromDate(data.expiresAt) : null,
+    // Let the backend apply the new rules from scratch
+    scheduleAppliedStatus: deleteField(),
+    expiryApplied: false,
+    updatedBy: data.updatedBy,
+    updatedAt: serverTimestamp(),
+  });
+
+  console.log('🚧 [Roadblocks] Time rules updated:', id);
+}
+
+/**
+ * Subscribe to a roadblock's latest status changes
+ */
+export function subscribeToRoadblockHistory(
+  id: string,
+  onData: (entries: RoadblockHistoryData[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  const db = getFirestoreDb();
+  const q = query(collection(db, 'roadblocks', id, 'history'), orderBy('changedAt', 'desc'), limit(10));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      onData(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            fromStatus: data.fromStatus ?? null,
+            toStatus: data.toStatus,
+            reason: data.reason ?? 'manual',
+            changedBy: data.changedBy ?? '',
+            changedAt: data.changedAt?.toDate() ?? null,
+          };
+        })
+      );
+    },
+    onError
+  );
+}
+
 /**
  * Delete a roadblock
  */
@@ -164,6 +251,89 @@ export async function deleteRoadblock(id: string): Promise<void> {
   console.log('🚧 [Roadblocks] Deleted:', id);
 }
 
+/**
+ * Pending driver report awaiting moderation (roadblockReports/{id})
+ */
+export interface RoadblockReportData {
+  id: string;
+  lat: number;
+  lng: number;
+  roadblockStatus: 'closed' | 'congested';
+  reportCount: number;
+  confidence: number;
+  notes: string[];
+  nearbyRoadblockId: string | null;
+  firstReportedAt: Date | null;
+  lastConfirmedAt: Date | null;
+  expiresAt: Date | null;
+}
+
+export type RoadblockReportReviewInput =
+  | {
+      action: 'approve';
+      reportId: string;
+      name: string;
+      area?: string;
+      status?: 'closed' | 'congested';
+    }
+  | { action: 'merge'; reportId: string; roadblockId: string; status?: 'closed' | 'congested' }
+  | { action: 'reject'; reportId: string; note?: string };
+
+/**
+ * Subscribe to pending driver reports, most recently confirmed first
+ */
+export function subscribeToPendingRoadblockReports(
+  onData: (reports: RoadblockReportData[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  const db = getFirestoreDb();
+  const q = query(
+    collection(db, 'roadblockReports'),
+    where('status', '==', 'pending'),
+    orderBy('lastConfirmedAt', 'desc'),
+    limit(50)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const reports: RoadblockReportData[] = snapshot.docs.map((docSnap) => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          lat: data.lat,
+          lng: data.lng,
+          roadblockStatus: data.roadblockStatus === 'congested' ? 'congested' : 'closed',
+          reportCount: data.reportCount ?? 0,
+          confidence: data.confidence ?? 0,
+          notes: Array.isArray(data.notes) ? data.notes : [],
+          nearbyRoadblockId: data.nearbyRoadblockId ?? null,
+          firstReportedAt: data.firstReportedAt?.toDate() ?? null,
+          lastConfirmedAt: data.lastConfirmedAt?.toDate() ?? null,
+          expiresAt: data.expiresAt?.toDate() ?? null,
+        };
+      });
+      onData(reports);
+    },
+    onError
+  );
+}
+
+/**
+ * Approve, merge or reject a driver report (managerReviewRoadblockReport)
+ */
+export async function reviewRoadblockReport(input: RoadblockReportReviewInput): Promise<string | null> {
+  const functions = getFunctionsInstance();
+  const review = httpsCallable<RoadblockReportReviewInput, { success: true; roadblockId: string | null }>(
+    functions,
+    'managerReviewRoadblockReport'
+  );
+
+  const result = await review(input);
+  console.log('🚧 [Roadblocks] Report reviewed:', input.reportId, input.action);
+  return result.data.roadblockId;
+}
+
 /**
  * Get display info for roadblock status
  */
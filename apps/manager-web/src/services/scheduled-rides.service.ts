@@ -0,0 +1,99 @@
+import { collection, onSnapshot, Timestamp, query, orderBy, limit, where } from 'firebase/firestore';
+import { ScheduledRideStatus, UPCOMING_SCHEDULED_RIDE_STATUSES } from '@taxi-line/shared';
+import { getFirestoreDb } from './firebase';
+
+/**
+ * ============================================================================
+ * SCHEDULED RIDES REALTIME SERVICE
+ * ============================================================================
+ * 
+ * Subscribes to upcoming advance bookings (not yet handed to a driver).
+ * 
+ * FIRESTORE COLLECTION: scheduledRides/{requestId}
+ * 
+ * ============================================================================
+ */
+
+/**
+ * Scheduled ride document structure
+ */
+export interface ScheduledRideDocument {
+  scheduledRideId: string;
+  requestId: string;
+  passengerId: string;
+  pickup: { lat: number; lng: number } | null;
+  dropoff: { lat: number; lng: number } | null;
+  estimatedDistanceKm: number;
+  estimatedPriceIls: number;
+  bookingType: string | null;
+  officeId: string | null;
+  lineId: string | null;
+  destinationLabel: string | null;
+  scheduledFor: Timestamp | null;
+  status: ScheduledRideStatus;
+  dispatchAttempts: number;
+  lastDispatchResult: string | null;
+  createdAt: Timestamp | null;
+}
+
+/**
+ * Subscribe to realtime upcoming scheduled rides, soonest pickup first
+ * 
+ * @param callback - Function called whenever bookings change
+ * @param limitCount - Maximum number of bookings to return (default: 100)
+ * @returns Unsubscribe function
+ */
+export function subscribeToUpcomingScheduledRides(
+  callback: (rides: ScheduledRideDocument[]) => void,
+  limitCount: number = 100
+): () => void {
+  const db = getFirestoreDb();
+  const scheduledRidesRef = collection(db, 'scheduledRides');
+
+  const q = query(
+    scheduledRidesRef,
+    where('status', 'in', UPCOMING_SCHEDULED_RIDE_STATUSES),
+    orderBy('scheduledFor', 'asc'),
+    limit(limitCount)
+  );
+
+  console.log('🎧 [ScheduledRides] Starting realtime subscription...');
+
+  const unsubscribe = onSnapshot(
+    q,
+    (snapshot) => {
+      const rides: ScheduledRideDocument[] = [];
+
+      snapshot.forEach((doc) => {
+        const data = doc.data();
+        const rideOptions = data.rideOptions ?? {};
+        rides.push({
+          scheduledRideId: doc.id,
+          requestId: data.requestId || doc.id,
+          passengerId: data.passengerId || '',
+          pickup: data.pickup ?? null,
+          dropoff: data.dropoff ?? null,
+          estimatedDistanceKm: data.estimatedDistanceKm || 0,
+          estimatedPriceIls: data.estimatedPriceIls || 0,
+          bookingType: rideOptions.bookingType ?? null,
+          officeId: rideOptions.officeId ?? null,
+          lineId: rideOptions.lineId ?? null,
+          destinationLabel: rideOptions.destinationLabel ?? null,
+          scheduledFor: data.scheduledFor || null,
+          status: data.status || 'scheduled',
+          dispatchAttempts: data.dispatchAttempts || 0,
+          lastDispatchResult: data.lastDispatchResult ?? null,
+          createdAt: data.createdAt || null,
+        });
+      });
+
+      console.log(`📊 [ScheduledRides] Received ${rides.length} upcoming booking(s)`);
+      callback(rides);
+    },
+    (error) => {
+      console.error('❌ [ScheduledRides] Subscription error:', error);
+    }
+  );
+
+  return unsubscribe;
+}
@@ -0,0 +1,224 @@
+import { collection, limit, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { FareCollector, LedgerEntryType, LedgerLine, RecordCashHandoverInput } from '@taxi-line/shared';
+import { getFirestoreDb, getFunctionsInstance } from './firebase';
+
+/**
+ * ============================================================================
+ * SETTLEMENTS SERVICE
+ * ============================================================================
+ *
+ * FIRESTORE COLLECTIONS:
+ * - driverBalances/{driverId}                      running balance between driver and office
+ * - ledgerEntries/{entryId}                        double-entry trip fares, fees, refunds and handovers
+ * - settlementStatements/{driverId}_{periodKey}    weekly statements
+ *
+ * Entries are booked by Cloud Functions; cash handovers go through the
+ * managerRecordCashHandover callable.
+ *
+ * ============================================================================
+ */
+
+export interface DriverBalanceDocument {
+  driverId: string;
+  officeId: string | null;
+  lineId: string | null;
+  tripsCount: number;
+  fareTotalIls: number;
+  commissionTotalIls: number;
+  driverNetTotalIls: number;
+  handoverTotalIls: number;
+  /** Positive: the driver owes the office; negative: office owes the driver */
+  balanceOwedIls: number;
+  lastEntryAt: Date | null;
+}
+
+export interface LedgerEntryDocument {
+  entryId: string;
+  type: LedgerEntryType;
+  tripId: string | null;
+  driverId: string;
+  lines: LedgerLine[];
+  fareIls: number;
+  commissionPct: number | null;
+  commissionIls: number;
+  driverNetIls: number;
+  /** Office for captured card/wallet fares, fees and refunds; driver for cash fares */
+  fareCollectedBy: FareCollector | null;
+  amountIls: number;
+  balanceDeltaIls: number;
+  balanceAfterIls: number;
+  note: string | null;
+  createdBy: string;
+  createdAt: Date | null;
+}
+
+export interface SettlementStatementDocument {
+  statementId: string;
+  driverId: string;
+  periodKey: string;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  tripsCount: number;
+  fareTotalIls: number;
+  commissionTotalIls: number;
+  driverNetTotalIls: number;
+  handoverTotalIls: number;
+  openingBalanceIls: number;
+  closingBalanceIls: number;
+}
+
+function toDateOrNull(value: unknown): Date | null {
+  if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+function numberOrZero(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Driver balances, largest amount owed first
+ */
+export function subscribeDriverBalances(
+  callback: (balances: DriverBalanceDocument[]) => void,
+  limitCount: number = 200
+): () => void {
+  const db = getFirestoreDb();
+  const q = query(collection(db, 'driverBalances'), orderBy('balanceOwedIls', 'desc'), limit(limitCount));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            driverId: docSnap.id,
+            officeId: stringOrNull(data.officeId),
+            lineId: stringOrNull(data.lineId),
+            tripsCount: numberOrZero(data.tripsCount),
+            fareTotalIls: numberOrZero(data.fareTotalIls),
+            commissionTotalIls: numberOrZero(data.commissionTotalIls),
+            driverNetTotalIls: numberOrZero(data.driverNetTotalIls),
+            handoverTotalIls: numberOrZero(data.handoverTotalIls),
+            balanceOwedIls: numberOrZero(data.balanceOwedIls),
+            lastEntryAt: toDateOrNull(data.lastEntryAt),
+          };
+        })
+      );
+    },
+    (error) => {
+      console.error('❌ [Settlements] Balances snapshot error:', error);
+    }
+  );
+}
+
+/**
+ * Ledger of one driver, newest first
+ */
+export function subscribeDriverLedger(
+  driverId: string,
+  callback: (entries: LedgerEntryDocument[]) => void,
+  limitCount: number = 100
+): () => void {
+  const db = getFirestoreDb();
+  const q = query(
+    collection(db, 'ledgerEntries'),
+    where('driverId', '==', driverId),
+    orderBy('createdAt', 'desc'),
+    limit(limitCount)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            entryId: docSnap.id,
+            type: (data.type as LedgerEntryType) ?? 'trip_fare',
+            tripId: stringOrNull(data.tripId),
+            driverId: String(data.driverId ?? driverId),
+            lines: Array.isArray(data.lines) ? (data.lines as LedgerLine[]) : [],
+            fareIls: numberOrZero(data.fareIls),
+            commissionPct: typeof data.commissionPct === 'number' ? data.commissionPct : null,
+            commissionIls: numberOrZero(data.commissionIls),
+            driverNetIls: numberOrZero(data.driverNetIls),
+            fareCollectedBy: data.fareCollectedBy === 'office' ? 'office' : data.type === 'trip_fare' ? 'driver' : null,
+            amountIls: numberOrZero(data.amountIls),
+            balanceDeltaIls: numberOrZero(data.balanceDeltaIls),
+            balanceAfterIls: numberOrZero(data.balanceAfterIls),
+            note: stringOrNull(data.note),
+            createdBy: String(data.createdBy ?? 'system'),
+            createdAt: toDateOrNull(data.createdAt),
+          };
+        })
+      );
+    },
+    (error) => {
+      console.error('❌ [Settlements] Ledger snapshot error:', error);
+    }
+  );
+}
+
+/**
+ * Statements of one driver, latest period first
+ */
+export function subscribeSettlementStatements(
+  driverId: string,
+  callback: (statements: SettlementStatementDocument[]) => void,
+  limitCount: number = 12
+): () => void {
+  const db = getFirestoreDb();
+  const q = query(
+    collection(db, 'settlementStatements'),
+    where('driverId', '==', driverId),
+    orderBy('periodStart', 'desc'),
+    limit(limitCount)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            statementId: docSnap.id,
+            driverId: String(data.driverId ?? driverId),
+            periodKey: String(data.periodKey ?? ''),
+            periodStart: toDateOrNull(data.periodStart),
+            periodEnd: toDateOrNull(data.periodEnd),
+            tripsCount: numberOrZero(data.tripsCount),
+            fareTotalIls: numberOrZero(data.fareTotalIls),
+            commissionTotalIls: numberOrZero(data.commissionTotalIls),
+            driverNetTotalIls: numberOrZero(data.driverNetTotalIls),
+            handoverTotalIls: numberOrZero(data.handoverTotalIls),
+            openingBalanceIls: numberOrZero(data.openingBalanceIls),
+            closingBalanceIls: numberOrZero(data.closingBalanceIls),
+          };
+        })
+      );
+    },
+    (error) => {
+      console.error('❌ [Settlements] Statements snapshot error:', error);
+    }
+  );
+}
+
+export async function recordCashHandover(input: RecordCashHandoverInput): Promise<number> {
+  const callable = httpsCallable<RecordCashHandoverInput, { success: true; balanceOwedIls: number }>(
+    getFunctionsInstance(),
+    'managerRecordCashHandover'
+  );
+  const result = await callable(input);
+  return result.data.balanceOwedIls;
+}
@@ -0,0 +1,220 @@
+import {
+  QueryConstraint,
+  collection,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  where,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import {
+  ACTIVE_SUPPORT_TICKET_STATUSES,
+  SupportTicketAuthorRole,
+  SupportTicketCategory,
+  SupportTicketStatus,
+} from '@taxi-line/shared';
+import { getFirebaseAuth, getFirestoreDb, getFunctionsInstance } from './firebase';
+
+/**
+ * ============================================================================
+ * SUPPORT TICKETS SERVICE
+ * ============================================================================
+ *
+ * FIRESTORE COLLECTIONS:
+ * - supportTickets/{ticketId}                       ticket and its lifecycle
+ * - supportTickets/{ticketId}/messages/{messageId}  reply thread
+ * - managerRoles/{uid}                              support staff to assign
+ *
+ * Replies, status changes and assignment go through Cloud Functions.
+ *
+ * ============================================================================
+ */
+
+export type SupportTicketFilter = 'active' | 'mine' | SupportTicketStatus;
+
+export interface SupportTicketDocument {
+  ticketId: string;
+  userId: string;
+  userRole: string;
+  tripId: string | null;
+  category: SupportTicketCategory;
+  subject: string;
+  message: string;
+  status: SupportTicketStatus;
+  source: string;
+  assigneeId: string | null;
+  messageCount: number;
+  lastMessageRole: SupportTicketAuthorRole | null;
+  lastMessageAt: Date | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export interface SupportTicketMessage {
+  messageId: string;
+  authorId: string;
+  authorRole: SupportTicketAuthorRole;
+  text: string;
+  status: SupportTicketStatus | null;
+  createdAt: Date | null;
+}
+
+export interface SupportStaffMember {
+  userId: string;
+  isActive: boolean;
+}
+
+function toDateOrNull(value: unknown): Date | null {
+  if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+export function getCurrentManagerId(): string | null {
+  return getFirebaseAuth().currentUser?.uid ?? null;
+}
+
+/**
+ * Tickets for the inbox, most recently updated first
+ */
+export function subscribeSupportTickets(
+  filter: SupportTicketFilter,
+  callback: (tickets: SupportTicketDocument[]) => void,
+  limitCount: number = 100
+): () => void {
+  const db = getFirestoreDb();
+  const constraints: QueryConstraint[] = [];
+  if (filter === 'active') {
+    constraints.push(where('status', 'in', ACTIVE_SUPPORT_TICKET_STATUSES));
+  } else if (filter === 'mine') {
+    constraints.push(where('assigneeId', '==', getCurrentManagerId() ?? ''));
+  } else {
+    constraints.push(where('status', '==', filter));
+  }
+
+  const q = query(collection(db, 'supportTickets'), ...constraints, orderBy('updatedAt', 'desc'), limit(limitCount));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            ticketId: docSnap.id,
+            userId: String(data.userId ?? ''),
+            userRole: String(data.userRole ?? 'unknown'),
+            tripId: stringOrNull(data.tripId),
+            category: (data.category as SupportTicketCategory) ?? 'other',
+            subject: String(data.subject ?? ''),
+            message: String(data.message ?? ''),
+            status: (data.status as SupportTicketStatus) ?? 'open',
+            source: String(data.source ?? 'mobile'),
+            assigneeId: stringOrNull(data.assigneeId),
+            messageCount: Number(data.messageCount ?? 1),
+            lastMessageRole: (stringOrNull(data.lastMessageRole) as SupportTicketAuthorRole | null) ?? null,
+            lastMessageAt: toDateOrNull(data.lastMessageAt),
+            createdAt: toDateOrNull(data.createdAt),
+            updatedAt: toDateOrNull(data.updatedAt),
+          };
+        })
+      );
+    },
+    (error) => {
+      console.error('❌ [Support] Tickets snapshot error:', error);
+    }
+  );
+}
+
+/**
+ * Thread of one ticket, oldest first
+ */
+export function subscribeSupportTicketMessages(
+  ticketId: string,
+  callback: (messages: SupportTicketMessage[]) => void
+): () => void {
+  const db = getFirestoreDb();
+  const q = query(collection(db, 'supportTickets', ticketId, 'messages'), orderBy('createdAt', 'asc'), limit(200));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            messageId: docSnap.id,
+            authorId: String(data.authorId ?? ''),
+            authorRole: (data.authorRole as SupportTicketAuthorRole) ?? 'system',
+            text: String(data.text ?? ''),
+            status: (stringOrNull(data.status) as SupportTicketStatus | null) ?? null,
+            createdAt: toDateOrNull(data.createdAt),
+          };
+        })
+      );
+    },
+    (error) => {
+      console.error('❌ [Support] Messages snapshot error:', error);
+    }
+  );
+}
+
+/**
+ * Staff with the support role, who can own tickets
+ */
+export function subscribeSupportStaff(callback: (staff: SupportStaffMember[]) => void): () => void {
+  const db = getFirestoreDb();
+  const q = query(collection(db, 'managerRoles'), where('role', '==', 'support'));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((docSnap) => ({
+          userId: docSnap.id,
+          isActive: docSnap.data().isActive !== false,
+        }))
+      );
+    },
+    (error) => {
+      console.error('❌ [Support] Staff snapshot error:', error);
+    }
+  );
+}
+
+export interface ReplySupportTicketInput {
+  ticketId: string;
+  message: string;
+  nextStatus?: SupportTicketStatus;
+}
+
+export async function replySupportTicket(input: ReplySupportTicketInput): Promise<SupportTicketStatus> {
+  const callable = httpsCallable<ReplySupportTicketInput, { success: true; status: SupportTicketStatus }>(
+    getFunctionsInstance(),
+    'managerReplySupportTicket'
+  );
+  const result = await callable(input);
+  return result.data.status;
+}
+
+export interface UpdateSupportTicketInput {
+  ticketId: string;
+  status?: SupportTicketStatus;
+  assigneeId?: string | null;
+  tripId?: string | null;
+}
+
+export async function updateSupportTicket(input: UpdateSupportTicketInput): Promise<SupportTicketStatus> {
+  const callable = httpsCallable<UpdateSupportTicketInput, { success: true; status: SupportTicketStatus }>(
+    getFunctionsInstance(),
+    'managerUpdateSupportTicket'
+  );
+  const result = await callable(input);
+  return result.data.status;
+}
@@ -0,0 +1,165 @@
+import { collection, doc, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { TRIP_CHAT_QUICK_REPLIES, TripChatQuickReplyId, TripChatRole, isTripChatQuickReplyId } from '@taxi-line/shared';
+import { getFirestoreDb } from './firebase';
+
+/**
+ * ============================================================================
+ * TRIP CHAT SERVICE
+ * ============================================================================
+ *
+ * FIRESTORE COLLECTIONS:
+ * - tripChatArchives/{tripId}                     thread copied when the trip ends
+ * - trips/{tripId}/messages/{messageId}           live thread (masked text)
+ * - trips/{tripId}/chatModeration/{messageId}     unmasked text of filtered messages
+ *
+ * Read-only; used when reviewing disputes and support tickets.
+ *
+ * ============================================================================
+ */
+
+export interface TripChatTranscriptMessage {
+  messageId: string;
+  senderId: string;
+  senderRole: TripChatRole | 'system';
+  text: string;
+  originalText: string | null;
+  quickReplyId: TripChatQuickReplyId | null;
+  moderationFlags: string[];
+  createdAt: Date | null;
+  deliveredAt: Date | null;
+  readAt: Date | null;
+}
+
+export interface TripChatTranscript {
+  tripId: string;
+  /** false while the trip is still running and the live thread is shown */
+  archived: boolean;
+  tripStatus: string | null;
+  archivedAt: Date | null;
+  messages: TripChatTranscriptMessage[];
+}
+
+function toDateOrNull(value: unknown): Date | null {
+  if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return null;
+}
+
+function toTranscriptMessage(messageId: string, data: Record<string, unknown>): TripChatTranscriptMessage {
+  const senderRole = data.senderRole === 'passenger' || data.senderRole === 'driver' ? data.senderRole : 'system';
+  return {
+    messageId,
+    senderId: String(data.senderId ?? ''),
+    senderRole,
+    text: String(data.text ?? ''),
+    originalText: typeof data.originalText === 'string' ? data.originalText : null,
+    quickReplyId: isTripChatQuickReplyId(data.quickReplyId) ? data.quickReplyId : null,
+    moderationFlags: Array.isArray(data.moderationFlags) ? data.moderationFlags.map(String) : [],
+    createdAt: toDateOrNull(data.createdAt),
+    deliveredAt: toDateOrNull(data.deliveredAt),
+    readAt: toDateOrNull(data.readAt),
+  };
+}
+
+/**
+ * Quick replies are stored in English; show them in the manager's language
+ */
+export function getTripChatMessageText(message: TripChatTranscriptMessage, locale: string): string {
+  if (!message.quickReplyId) return message.text;
+  const template = TRIP_CHAT_QUICK_REPLIES[message.quickReplyId];
+  return locale === 'ar' ? template.ar : template.en;
+}
+
+/**
+ * Chat transcript of a trip: the archive once the trip has ended, otherwise
+ * the live thread with the moderation originals merged in.
+ */
+export function subscribeTripChatTranscript(
+  tripId: string,
+  callback: (transcript: TripChatTranscript) => void
+): () => void {
+  const db = getFirestoreDb();
+  let liveUnsubscribers: Array<() => void> = [];
+
+  const stopLive = () => {
+    liveUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    liveUnsubscribers = [];
+  };
+
+  const startLive = () => {
+    if (liveUnsubscribers.length > 0) return;
+    let liveMessages: Array<{ id: string; data: Record<string, unknown> }> = [];
+    const originals = new Map<string, string>();
+
+    const emit = () => {
+      callback({
+        tripId,
+        archived: false,
+        tripStatus: null,
+        archivedAt: null,
+        messages: liveMessages.map(({ id, data }) =>
+          toTranscriptMessage(id, { ...data, originalText: originals.get(id) ?? null })
+        ),
+      });
+    };
+
+    liveUnsubscribers = [
+      onSnapshot(
+        query(collection(db, 'trips', tripId, 'messages'), orderBy('createdAt', 'asc'), limit(500)),
+        (snapshot) => {
+          liveMessages = snapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+          emit();
+        },
+        (error) => {
+          console.error('❌ [TripChat] Messages snapshot error:', error);
+        }
+      ),
+      onSnapshot(
+        collection(db, 'trips', tripId, 'chatModeration'),
+        (snapshot) => {
+          originals.clear();
+          snapshot.docs.forEach((docSnap) => {
+            const originalText: unknown = docSnap.data().originalText;
+            if (typeof originalText === 'string') originals.set(docSnap.id, originalText);
+          });
+          emit();
+        },
+        (error) => {
+          console.error('❌ [TripChat] Moderation snapshot error:', error);
+        }
+      ),
+    ];
+  };
+
+  const unsubscribeArchive = onSnapshot(
+    doc(db, 'tripChatArchives', tripId),
+    (snapshot) => {
+      if (!snapshot.exists()) {
+        startLive();
+        return;
+      }
+      stopLive();
+      const data = snapshot.data();
+      const messages: unknown[] = Array.isArray(data.messages) ? data.messages : [];
+      callback({
+        tripId,
+        archived: true,
+        tripStatus: typeof data.tripStatus === 'string' ? data.tripStatus : null,
+        archivedAt: toDateOrNull(data.archivedAt),
+        messages: messages.map((message, index) => {
+          const item = (message ?? {}) as Record<string, unknown>;
+          return toTranscriptMessage(String(item.messageId ?? index), item);
+        }),
+      });
+    },
+    (error) => {
+      console.error('❌ [TripChat] Archive snapshot error:', error);
+    }
+  );
+
+  return () => {
+    unsubscribeArchive();
+    stopLive();
+  };
+}
@@ -218,6 +218,8 @@ export function getTripStatusDisplay(status: string): { label: string; color: st
       return { label: 'Cancelled', color: '#ef4444', emoji: '🚫' };
     case 'cancelled_by_driver':
       return { label: 'Driver Cancelled', color: '#ef4444', emoji: '🚫' };
+    case 'passenger_no_show':
+      return { label: 'Passenger No-show', color: '#ef4444', emoji: '🙈' };
     default:
       return { label: status, color: '#6b7280', emoji: '❓' };
   }
@@ -0,0 +1,113 @@
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { RefundTripFareInput, TopUpWalletInput, WalletTransactionType } from '@taxi-line/shared';
+import { getFirestoreDb, getFunctionsInstance } from './firebase';
+
+/**
+ * ============================================================================
+ * WALLETS SERVICE
+ * ============================================================================
+ *
+ * FIRESTORE COLLECTIONS:
+ * - wallets/{passengerId}                  passenger prepaid balance
+ * - walletTransactions/{transactionId}     immutable transaction log
+ *
+ * Balances only change through Cloud Functions: desk top-ups go through
+ * managerTopUpWallet and disputed fares through managerRefundTripFare.
+ *
+ * ============================================================================
+ */
+
+export interface WalletTransactionDocument {
+  transactionId: string;
+  passengerId: string;
+  type: WalletTransactionType;
+  /** Positive credits the wallet, negative debits it */
+  amountIls: number;
+  balanceAfterIls: number;
+  tripId: string | null;
+  officeId: string | null;
+  note: string | null;
+  createdBy: string;
+  createdAt: Date | null;
+}
+
+export interface RefundTripFareResult {
+  amountIls: number;
+  refundedTotalIls: number;
+  fullyRefunded: boolean;
+}
+
+function toDateOrNull(value: unknown): Date | null {
+  if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+function numberOrZero(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Latest wallet transactions across all passengers
+ */
+export function subscribeWalletTransactions(
+  callback: (transactions: WalletTransactionDocument[]) => void,
+  limitCount: number = 50
+): () => void {
+  const db = getFirestoreDb();
+  const q = query(collection(db, 'walletTransactions'), orderBy('createdAt', 'desc'), limit(limitCount));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            transactionId: docSnap.id,
+            passengerId: String(data.passengerId ?? ''),
+            type: (data.type as WalletTransactionType) ?? 'top_up',
+            amountIls: numberOrZero(data.amountIls),
+            balanceAfterIls: numberOrZero(data.balanceAfterIls),
+            tripId: stringOrNull(data.tripId),
+            officeId: stringOrNull(data.officeId),
+            note: stringOrNull(data.note),
+            createdBy: String(data.createdBy ?? 'system'),
+            createdAt: toDateOrNull(data.createdAt),
+          };
+        })
+      );
+    },
+    (error) => {
+      console.error('❌ [Wallets] Transactions snapshot error:', error);
+    }
+  );
+}
+
+export async function topUpWallet(input: TopUpWalletInput): Promise<number> {
+  const callable = httpsCallable<TopUpWalletInput, { success: true; balanceIls: number }>(
+    getFunctionsInstance(),
+    'managerTopUpWallet'
+  );
+  const result = await callable(input);
+  return result.data.balanceIls;
+}
+
+export async function refundTripFare(input: RefundTripFareInput): Promise<RefundTripFareResult> {
+  const callable = httpsCallable<RefundTripFareInput, { success: true } & RefundTripFareResult>(
+    getFunctionsInstance(),
+    'managerRefundTripFare'
+  );
+  const result = await callable(input);
+  return {
+    amountIls: result.data.amountIls,
+    refundedTotalIls: result.data.refundedTotalIls,
+    fullyRefunded: result.data.fullyRefunded,
+  };
+}
@@ -3,7 +3,7 @@ import { Redirect, useRouter } from 'expo-router';
 import { Alert } from 'react-native';
 import { useAuthStore, useTripStore } from '../src/store';
 import { MapScreen } from '../src/features/map';
-import { ActiveTripScreen } from '../src/features/trip';
+import { ActiveTripScreen, confirmTripCancellation } from '../src/features/trip';
 import { subscribeToActiveTrip } from '../src/services/realtime';
 import { passengerCancelTrip } from '../src/services/api';
 import { TripStatus } from '@taxi-line/shared';
@@ -49,9 +49,12 @@ export default function Home() {
   const handleCancelTrip = useCallback(async () => {
     if (!activeTripId || isCancelling) return;
 
+    const acceptFeeIls = await confirmTripCancellation(activeTripId, t);
+    if (acceptFeeIls === null) return;
+
     setIsCancelling(true);
     try {
-      await passengerCancelTrip(activeTripId);
+      await passengerCancelTrip(activeTripId, acceptFeeIls);
       clearTrip();
     } catch (error) {
       const message = error instanceof Error ? error.message : t('trip.cancel_error_message');
@@ -1,32 +1,78 @@
-import React, { useMemo, useState } from 'react';
-import { Alert, Pressable, Share, StyleSheet, TextInput, View } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, Share, StyleSheet, TextInput, View } from 'react-native';
 import { Redirect, useRouter } from 'expo-router';
 import { Button, Header, ScreenContainer, Text } from '@waselneh/ui';
 import { useAuthStore } from '../src/store';
 import { useI18n } from '../src/localization';
+import { RedeemPromoCodeResponse, getReferralCode, redeemPromoCode } from '../src/services/api';
+
+function describeDiscount(result: RedeemPromoCodeResponse, isRTL: boolean): string {
+  const amount =
+    result.discountType === 'percent' ? `${result.discountValue}%` : `₪${result.discountValue}`;
+  const cap =
+    result.discountType === 'percent' && result.maxDiscountIls
+      ? isRTL
+        ? ` (حتى ₪${result.maxDiscountIls})`
+        : ` (up to ₪${result.maxDiscountIls})`
+      : '';
+  return isRTL
+    ? `خصم ${amount}${cap} على رحلتك القادمة.`
+    : `${amount} off${cap} your next ride.`;
+}
 
 export default function Promo() {
   const { isRTL } = useI18n();
   const router = useRouter();
-  const { isAuthenticated, user } = useAuthStore();
+  const { isAuthenticated } = useAuthStore();
   const [promoCode, setPromoCode] = useState('');
-  const referralCode = useMemo(() => `WSL-${(user?.uid ?? 'GUEST').slice(0, 6).toUpperCase()}`, [user?.uid]);
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [redeemed, setRedeemed] = useState<RedeemPromoCodeResponse | null>(null);
+  const [referralCode, setReferralCode] = useState<string | null>(null);
+  const [referralCount, setReferralCount] = useState(0);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+
+    getReferralCode()
+      .then((result) => {
+        if (cancelled) return;
+        setReferralCode(result.code);
+        setReferralCount(result.redeemedCount);
+      })
+      .catch((error) => {
+        console.warn('⚠️ Failed to load referral code:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated]);
 
-  const applyPromo = () => {
+  const applyPromo = async () => {
     if (!promoCode.trim()) {
       Alert.alert(isRTL ? 'رمز الخصم' : 'Promo code', isRTL ? 'أدخل رمز الخصم أولاً.' : 'Enter a promo code first.');
       return;
     }
-    Alert.alert(
-      isRTL ? 'تمت إضافة الرمز' : 'Promo added',
-      isRTL
-        ? `سيتم تطبيق الرمز ${promoCode.trim().toUpperCase()} على أجرتك القادمة.`
-        : `Code ${promoCode.trim().toUpperCase()} will apply on your next fare.`
-    );
-    setPromoCode('');
+
+    setIsRedeeming(true);
+    try {
+      const result = await redeemPromoCode(promoCode);
+      setRedeemed(result);
+      setPromoCode('');
+      Alert.alert(isRTL ? 'تم تفعيل الرمز' : 'Promo added', describeDiscount(result, isRTL));
+    } catch (error) {
+      Alert.alert(
+        isRTL ? 'تعذر تفعيل الرمز' : 'Could not apply code',
+        error instanceof Error ? error.message : isRTL ? 'حاول مرة أخرى.' : 'Please try again.'
+      );
+    } finally {
+      setIsRedeeming(false);
+    }
   };
 
   const shareReferral = async () => {
+    if (!referralCode) return;
     await Share.share({
       message: isRTL
         ? `انضم إلى وصلني باستخدام رمز الإحالة ${referralCode} واحصل على عرض ترحيبي.`
@@ -60,7 +106,12 @@ export default function Promo() {
             onChangeText={setPromoCode}
             autoCapitalize="characters"
           />
-          <Button title={isRTL ? 'تفعيل الرمز' : 'Apply code'} onPress={applyPromo} />
+          <Button title={isRTL ? 'تفعيل الرمز' : 'Apply code'} onPress={applyPromo} loading={isRedeeming} />
+          {redeemed && (
+            <Text style={styles.success}>
+              {redeemed.code}: {describeDiscount(redeemed, isRTL)}
+            </Text>
+          )}
         </View>
 
         <View style={styles.card}>
@@ -68,8 +119,22 @@ export default function Promo() {
           <Text muted style={styles.hint}>
             {isRTL ? 'شارك رمز إحالة الراكب الخاص بك:' : 'Share your rider referral code:'}
           </Text>
-          <Text style={styles.refCode}>{referralCode}</Text>
-          <Button title={isRTL ? 'مشاركة الإحالة' : 'Share referral'} variant="secondary" onPress={shareReferral} />
+          {referralCode ? (
+            <Text style={styles.refCode}>{referralCode}</Text>
+          ) : (
+            <ActivityIndicator color="#1D4ED8" />
+          )}
+          {referralCount > 0 && (
+            <Text muted style={styles.hint}>
+              {isRTL ? `استخدمه ${referralCount} راكب` : `Used by ${referralCount} rider${referralCount === 1 ? '' : 's'}`}
+            </Text>
+          )}
+          <Button
+            title={isRTL ? 'مشاركة الإحالة' : 'Share referral'}
+            variant="secondary"
+            onPress={shareReferral}
+            disabled={!referralCode}
+          />
         </View>
       </View>
     </ScreenContainer>
@@ -111,6 +176,11 @@ const styles = StyleSheet.create({
   hint: {
     fontSize: 13,
   },
+  success: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#166534',
+  },
   refCode: {
     fontSize: 24,
     fontWeight: '800',
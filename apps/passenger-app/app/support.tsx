@@ -1,19 +1,88 @@
-import React, { useState } from 'react';
-import { Alert, Pressable, StyleSheet, TextInput, View } from 'react-native';
-import { Redirect, useRouter } from 'expo-router';
-import { Button, Header, ScreenContainer, Text } from '@waselneh/ui';
-import { createSupportTicket } from '../src/services/api';
+import React, { useEffect, useState } from 'react';
+import { Alert, FlatList, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import { Redirect, useLocalSearchParams, useRouter } from 'expo-router';
+import { Button, Card, EmptyState, Header, LoadingState, ScreenContainer, StatusChip, StatusChipTone, Text } from '@waselneh/ui';
+import { SupportTicketStatus } from '@taxi-line/shared';
+import { createSupportTicket, replySupportTicket } from '../src/services/api';
+import {
+  MySupportTicket,
+  SupportTicketThreadMessage,
+  subscribeToMySupportTickets,
+  subscribeToSupportTicketThread,
+} from '../src/services/realtime';
 import { useAuthStore } from '../src/store';
 import { useI18n } from '../src/localization';
 
+type SupportView = { kind: 'list' } | { kind: 'new' } | { kind: 'thread'; ticketId: string };
+
+const STATUS_TONES: Record<SupportTicketStatus, StatusChipTone> = {
+  open: 'info',
+  assigned: 'info',
+  waiting_on_user: 'warning',
+  resolved: 'success',
+  closed: 'neutral',
+};
+
+function statusLabel(status: SupportTicketStatus, isRTL: boolean): string {
+  switch (status) {
+    case 'assigned':
+      return isRTL ? 'قيد المعالجة' : 'In progress';
+    case 'waiting_on_user':
+      return isRTL ? 'بانتظار ردك' : 'Waiting for you';
+    case 'resolved':
+      return isRTL ? 'تم الحل' : 'Resolved';
+    case 'closed':
+      return isRTL ? 'مغلقة' : 'Closed';
+    default:
+      return isRTL ? 'مفتوحة' : 'Open';
+  }
+}
+
+function formatDate(value: Date | null): string {
+  return value ? value.toLocaleString() : '--';
+}
+
 export default function Support() {
   const { isRTL } = useI18n();
   const router = useRouter();
-  const { isAuthenticated } = useAuthStore();
+  const params = useLocalSearchParams<{ tripId?: string }>();
+  const { isAuthenticated, user } = useAuthStore();
+  const [view, setView] = useState<SupportView>(params.tripId ? { kind: 'new' } : { kind: 'list' });
+  const [tickets, setTickets] = useState<MySupportTicket[] | null>(null);
+  const [messages, setMessages] = useState<SupportTicketThreadMessage[]>([]);
+  const [linkedTripId, setLinkedTripId] = useState<string | null>(params.tripId ?? null);
   const [subject, setSubject] = useState('');
   const [message, setMessage] = useState('');
+  const [reply, setReply] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    const unsubscribe = subscribeToMySupportTickets(
+      user.uid,
+      setTickets,
+      (error) => {
+        console.error('Support tickets subscription failed:', error);
+        setTickets([]);
+      }
+    );
+    return () => unsubscribe();
+  }, [user?.uid]);
+
+  const threadTicketId = view.kind === 'thread' ? view.ticketId : null;
+
+  useEffect(() => {
+    setMessages([]);
+    setReply('');
+    if (!threadTicketId) return;
+
+    const unsubscribe = subscribeToSupportTicketThread(threadTicketId, setMessages, (error) => {
+      console.error('Support thread subscription failed:', error);
+    });
+    return () => unsubscribe();
+  }, [threadTicketId]);
+
   const submit = async () => {
     if (!subject.trim() || !message.trim()) {
       Alert.alert(
@@ -26,73 +95,217 @@ export default function Support() {
     setSubmitting(true);
     try {
       const result = await createSupportTicket({
+        tripId: linkedTripId ?? undefined,
         category: 'trip',
         subject: subject.trim(),
         message: message.trim(),
       });
+      setSubject('');
+      setMessage('');
+      setLinkedTripId(null);
+      setView({ kind: 'thread', ticketId: result.ticketId });
+    } catch (error) {
       Alert.alert(
-        isRTL ? 'تم فتح تذكرة' : 'Ticket created',
-        isRTL
-          ? `تم فتح تذكرة الدعم ${result.ticketId.slice(0, 8)}.`
-          : `Support ticket ${result.ticketId.slice(0, 8)} has been opened.`
+        isRTL ? 'فشل' : 'Failed',
+        error instanceof Error ? error.message : isRTL ? 'تعذر إنشاء تذكرة الدعم.' : 'Could not create support ticket.'
       );
-      router.replace('/home');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const sendReply = async () => {
+    if (!threadTicketId || !reply.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await replySupportTicket(threadTicketId, reply.trim());
+      setReply('');
     } catch (error) {
       Alert.alert(
         isRTL ? 'فشل' : 'Failed',
-        error instanceof Error ? error.message : isRTL ? 'تعذر إنشاء تذكرة الدعم.' : 'Could not create support ticket.'
+        error instanceof Error ? error.message : isRTL ? 'تعذر إرسال الرد.' : 'Could not send your reply.'
       );
     } finally {
       setSubmitting(false);
     }
   };
 
+  const goBack = () => {
+    if (view.kind === 'list') {
+      router.replace('/home');
+    } else {
+      setView({ kind: 'list' });
+    }
+  };
+
   if (!isAuthenticated) {
     return <Redirect href="/" />;
   }
 
+  const threadTicket = threadTicketId ? tickets?.find((ticket) => ticket.id === threadTicketId) ?? null : null;
+
   return (
     <ScreenContainer padded={false} edges={['right', 'left']}>
       <Header
         title={isRTL ? 'الدعم' : 'Support'}
-        subtitle={isRTL ? 'افتح تذكرة مباشرة من التطبيق' : 'Open a ticket directly from the app'}
+        subtitle={
+          view.kind === 'thread'
+            ? threadTicket?.subject ?? ''
+            : isRTL
+              ? 'افتح تذكرة مباشرة من التطبيق'
+              : 'Open a ticket directly from the app'
+        }
         leftAction={
-          <Pressable onPress={() => router.replace('/home')} style={styles.backButton}>
+          <Pressable onPress={goBack} style={styles.backButton}>
             <Text style={styles.backButtonText}>{isRTL ? 'رجوع >' : '< Back'}</Text>
           </Pressable>
         }
       />
 
-      <View style={styles.content}>
-        <Text style={styles.label}>{isRTL ? 'العنوان' : 'Subject'}</Text>
-        <TextInput
-          style={styles.input}
-          placeholder={isRTL ? 'دعم الرحلة' : 'Trip support'}
-          value={subject}
-          onChangeText={setSubject}
-          editable={!submitting}
-        />
-
-        <Text style={styles.label}>{isRTL ? 'الرسالة' : 'Message'}</Text>
-        <TextInput
-          style={styles.textArea}
-          placeholder={isRTL ? 'اشرح المشكلة...' : 'Describe your issue...'}
-          value={message}
-          onChangeText={setMessage}
-          multiline
-          numberOfLines={6}
-          editable={!submitting}
-          textAlignVertical="top"
-          maxLength={1500}
-        />
-
-        <Button
-          title={submitting ? (isRTL ? 'جاري الإرسال...' : 'Submitting...') : isRTL ? 'فتح تذكرة' : 'Open ticket'}
-          onPress={submit}
-          loading={submitting}
-          disabled={submitting}
-        />
-      </View>
+      {view.kind === 'list' ? (
+        tickets === null ? (
+          <LoadingState title={isRTL ? 'جاري تحميل التذاكر...' : 'Loading tickets...'} />
+        ) : (
+          <FlatList
+            data={tickets}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={tickets.length === 0 ? styles.emptyList : styles.list}
+            ListHeaderComponent={
+              <Button title={isRTL ? 'تذكرة جديدة' : 'New ticket'} onPress={() => setView({ kind: 'new' })} />
+            }
+            ListEmptyComponent={
+              <EmptyState
+                title={isRTL ? 'لا توجد تذاكر' : 'No tickets yet'}
+                subtitle={isRTL ? 'ستظهر هنا تذاكر الدعم وردود الفريق.' : 'Your support tickets and replies will appear here.'}
+              />
+            }
+            renderItem={({ item }) => (
+              <Pressable onPress={() => setView({ kind: 'thread', ticketId: item.id })}>
+                <Card style={styles.card}>
+                  <View style={styles.cardRow}>
+                    <Text style={styles.ticketSubject} numberOfLines={1}>
+                      {item.subject}
+                    </Text>
+                    <StatusChip label={statusLabel(item.status, isRTL)} tone={STATUS_TONES[item.status]} />
+                  </View>
+                  {item.tripId ? (
+                    <Text muted style={styles.detailText}>
+                      {isRTL ? `رحلة ${item.tripId.slice(0, 8)}` : `Trip ${item.tripId.slice(0, 8)}`}
+                    </Text>
+                  ) : null}
+                  <Text muted style={styles.detailText}>
+                    {formatDate(item.updatedAt)}
+                  </Text>
+                </Card>
+              </Pressable>
+            )}
+          />
+        )
+      ) : null}
+
+      {view.kind === 'new' ? (
+        <View style={styles.content}>
+          {linkedTripId ? (
+            <View style={styles.tripChip}>
+              <Text style={styles.tripChipText}>
+                {isRTL ? `حول الرحلة ${linkedTripId.slice(0, 8)}` : `About trip ${linkedTripId.slice(0, 8)}`}
+              </Text>
+              <Pressable onPress={() => setLinkedTripId(null)}>
+                <Text style={styles.tripChipRemove}>×</Text>
+              </Pressable>
+            </View>
+          ) : null}
+
+          <Text style={styles.label}>{isRTL ? 'العنوان' : 'Subject'}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={isRTL ? 'دعم الرحلة' : 'Trip support'}
+            value={subject}
+            onChangeText={setSubject}
+            editable={!submitting}
+          />
+
+          <Text style={styles.label}>{isRTL ? 'الرسالة' : 'Message'}</Text>
+          <TextInput
+            style={styles.textArea}
+            placeholder={isRTL ? 'اشرح المشكلة...' : 'Describe your issue...'}
+            value={message}
+            onChangeText={setMessage}
+            multiline
+            numberOfLines={6}
+            editable={!submitting}
+            textAlignVertical="top"
+            maxLength={1500}
+          />
+
+          <Button
+            title={submitting ? (isRTL ? 'جاري الإرسال...' : 'Submitting...') : isRTL ? 'فتح تذكرة' : 'Open ticket'}
+            onPress={submit}
+            loading={submitting}
+            disabled={submitting}
+          />
+        </View>
+      ) : null}
+
+      {view.kind === 'thread' ? (
+        <View style={styles.thread}>
+          {threadTicket ? (
+            <StatusChip
+              label={statusLabel(threadTicket.status, isRTL)}
+              tone={STATUS_TONES[threadTicket.status]}
+              style={styles.threadStatus}
+            />
+          ) : null}
+          <ScrollView contentContainerStyle={styles.messages}>
+            {messages.map((item) =>
+              item.authorRole === 'system' && item.status ? (
+                <Text key={item.id} muted style={styles.systemMessage}>
+                  {isRTL ? 'الحالة' : 'Status'}: {statusLabel(item.status, isRTL)}
+                </Text>
+              ) : (
+                <View
+                  key={item.id}
+                  style={[styles.bubble, item.authorRole === 'user' ? styles.bubbleMine : styles.bubbleStaff]}
+                >
+                  <Text style={styles.bubbleAuthor}>
+                    {item.authorRole === 'user' ? (isRTL ? 'أنت' : 'You') : isRTL ? 'فريق الدعم' : 'Support team'}
+                  </Text>
+                  <Text>{item.text}</Text>
+                  <Text muted style={styles.bubbleTime}>
+                    {formatDate(item.createdAt)}
+                  </Text>
+                </View>
+              )
+            )}
+          </ScrollView>
+
+          {threadTicket?.status === 'closed' ? (
+            <Text muted style={styles.closedNote}>
+              {isRTL ? 'هذه التذكرة مغلقة. افتح تذكرة جديدة إذا احتجت مساعدة.' : 'This ticket is closed. Open a new one if you need more help.'}
+            </Text>
+          ) : (
+            <View style={styles.replyBox}>
+              <TextInput
+                style={styles.replyInput}
+                placeholder={isRTL ? 'اكتب ردك...' : 'Write a reply...'}
+                value={reply}
+                onChangeText={setReply}
+                multiline
+                editable={!submitting}
+                maxLength={1500}
+              />
+              <Button
+                title={isRTL ? 'إرسال' : 'Send'}
+                onPress={sendReply}
+                loading={submitting}
+                disabled={submitting || !reply.trim()}
+                fullWidth={false}
+              />
+            </View>
+          )}
+        </View>
+      ) : null}
     </ScreenContainer>
   );
 }
@@ -117,6 +330,33 @@ const styles = StyleSheet.create({
     paddingTop: 18,
     gap: 10,
   },
+  list: {
+    padding: 16,
+    gap: 10,
+  },
+  emptyList: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 10,
+  },
+  card: {
+    marginTop: 10,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  ticketSubject: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  detailText: {
+    marginTop: 3,
+    fontSize: 12,
+  },
   label: {
     fontSize: 13,
     fontWeight: '700',
@@ -140,4 +380,87 @@ const styles = StyleSheet.create({
     backgroundColor: '#FFFFFF',
     fontSize: 14,
   },
+  tripChip: {
+    alignSelf: 'flex-start',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 999,
+    backgroundColor: '#DBEAFE',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  tripChipText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#1D4ED8',
+  },
+  tripChipRemove: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1D4ED8',
+  },
+  thread: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 16,
+    gap: 10,
+  },
+  threadStatus: {
+    alignSelf: 'center',
+  },
+  messages: {
+    gap: 8,
+    paddingBottom: 8,
+  },
+  systemMessage: {
+    alignSelf: 'center',
+    fontSize: 11,
+    fontStyle: 'italic',
+  },
+  bubble: {
+    maxWidth: '85%',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 2,
+  },
+  bubbleMine: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#FEF3C7',
+  },
+  bubbleStaff: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#E2E8F0',
+  },
+  bubbleAuthor: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#334155',
+  },
+  bubbleTime: {
+    fontSize: 10,
+  },
+  closedNote: {
+    textAlign: 'center',
+    fontSize: 12,
+  },
+  replyBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  replyInput: {
+    flex: 1,
+    minHeight: 46,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#FFFFFF',
+    fontSize: 14,
+  },
 });
@@ -2,15 +2,22 @@ import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Redirect, useLocalSearchParams, useRouter } from 'expo-router';
 import { Alert, Linking, Share } from 'react-native';
 import { ErrorState, LoadingState, ScreenContainer } from '@waselneh/ui';
-import { TripStatus } from '@taxi-line/shared';
-import { ActiveTripScreen, RatingScreen } from '../src/features/trip';
-import { estimateTrip, passengerCancelTrip, submitRating } from '../src/services/api';
+import { CALL_BRIDGE_TRIP_STATUSES, TripChatQuickReplyId, TripStatus } from '@taxi-line/shared';
+import { ActiveTripScreen, RatingScreen, confirmTripCancellation } from '../src/features/trip';
+import {
+  estimateTrip,
+  passengerCancelTrip,
+  reportDriverNotMoving,
+  requestCallBridge,
+  sendTripChatMessage,
+  submitRating,
+} from '../src/services/api';
 import {
   DriverLocation,
   DriverProfile,
   TripChatMessage,
   TripData,
-  sendTripChatMessage,
+  markTripChatReceipts,
   subscribeToDriverLocation,
   subscribeToDriverProfile,
   subscribeToTrip,
@@ -33,6 +40,9 @@ function isNetworkError(error: unknown): boolean {
 
 function statusMessage(status: TripStatus, t: (key: string) => string): string {
   switch (status) {
+    case 'pending':
+      // Only reached from a later status when the driver was reported and the trip re-dispatched
+      return t('status.redispatching');
     case 'accepted':
       return t('status.accepted');
     case 'driver_arrived':
@@ -45,6 +55,8 @@ function statusMessage(status: TripStatus, t: (key: string) => string): string {
       return t('status.cancelled_by_driver');
     case 'cancelled_by_system':
       return t('status.cancelled_by_system');
+    case 'passenger_no_show':
+      return t('status.passenger_no_show');
     case 'no_driver_available':
       return t('status.no_driver_available');
     default:
@@ -67,7 +79,9 @@ export default function Trip() {
   const [showRating, setShowRating] = useState(false);
   const [hasRated, setHasRated] = useState(false);
   const [isCancelling, setIsCancelling] = useState(false);
+  const [isReportingDriver, setIsReportingDriver] = useState(false);
   const [isSendingChat, setIsSendingChat] = useState(false);
+  const [isCallingDriver, setIsCallingDriver] = useState(false);
   const [queuedActions, setQueuedActions] = useState(0);
   const [etaToPickupMin, setEtaToPickupMin] = useState<number | null>(null);
   const [etaToDropoffMin, setEtaToDropoffMin] = useState<number | null>(null);
@@ -108,6 +122,7 @@ export default function Trip() {
           'cancelled_by_driver',
           'cancelled_by_system',
           'no_driver_available',
+          'passenger_no_show',
         ];
         if (tripData && cancelledStatuses.includes(tripData.status)) {
           setTimeout(() => {
@@ -173,12 +188,19 @@ export default function Trip() {
 
     const unsubscribe = subscribeToTripChat(
       tripId,
-      (messages) => setChatMessages(messages),
+      (messages) => {
+        setChatMessages(messages);
+        if (user?.uid) {
+          markTripChatReceipts(tripId, messages, user.uid, 'delivered').catch((receiptError) =>
+            console.warn('Failed to mark chat messages delivered:', receiptError)
+          );
+        }
+      },
       (chatError) => console.error('Trip chat subscription failed:', chatError)
     );
 
     return () => unsubscribe();
-  }, [tripId]);
+  }, [tripId, user?.uid]);
 
   useEffect(() => {
     if (!trip || !driverLocation) {
@@ -234,9 +256,12 @@ export default function Trip() {
   const handleCancel = useCallback(async () => {
     if (!tripId || isCancelling) return;
 
+    const acceptFeeIls = await confirmTripCancellation(tripId, t);
+    if (acceptFeeIls === null) return;
+
     setIsCancelling(true);
     try {
-      await passengerCancelTrip(tripId);
+      await passengerCancelTrip(tripId, acceptFeeIls);
       router.replace('/home');
     } catch (cancelError) {
       const message = cancelError instanceof Error ? cancelError.message : t('trip.cancel_error_message');
@@ -245,7 +270,30 @@ export default function Trip() {
     } finally {
       setIsCancelling(false);
     }
-  }, [tripId, router, isCancelling]);
+  }, [tripId, router, isCancelling, t]);
+
+  const handleReportDriverNotMoving = useCallback(() => {
+    if (!tripId || isReportingDriver) return;
+
+    Alert.alert(t('trip.driver_not_moving_title'), t('trip.driver_not_moving_message'), [
+      { text: t('trip.cancel_keep'), style: 'cancel' },
+      {
+        text: t('trip.driver_not_moving_confirm'),
+        onPress: () => {
+          setIsReportingDriver(true);
+          // The trip goes back to pending; the status listener announces the new search
+          reportDriverNotMoving(tripId)
+            .catch((reportError: unknown) => {
+              Alert.alert(
+                t('trip.driver_not_moving_failed'),
+                reportError instanceof Error ? reportError.message : t('trip.driver_not_moving_failed')
+              );
+            })
+            .finally(() => setIsReportingDriver(false));
+        },
+      },
+    ]);
+  }, [tripId, isReportingDriver, t]);
 
   const handleGoHome = () => {
     router.replace('/home');
@@ -269,19 +317,11 @@ export default function Trip() {
   }, [router]);
 
   const handleSendChat = useCallback(
-    async (message: string, quickReply?: boolean) => {
+    async (message: string, quickReplyId?: TripChatQuickReplyId) => {
       if (!tripId || !user?.uid) return;
 
       const sendAction = async () => {
-        const payload = {
-          senderId: user.uid,
-          senderRole: 'passenger' as const,
-          text: message,
-          ...(quickReply ? { quickReply: true } : {}),
-        };
-        await sendTripChatMessage(tripId, {
-          ...payload,
-        });
+        await sendTripChatMessage(tripId, quickReplyId ? { quickReplyId } : { text: message });
       };
 
       setIsSendingChat(true);
@@ -307,6 +347,16 @@ export default function Trip() {
     [tripId, user?.uid]
   );
 
+  const handleChatRead = useCallback(
+    (messages: TripChatMessage[]) => {
+      if (!tripId || !user?.uid) return;
+      markTripChatReceipts(tripId, messages, user.uid, 'read').catch((receiptError) =>
+        console.warn('Failed to mark chat messages read:', receiptError)
+      );
+    },
+    [tripId, user?.uid]
+  );
+
   const handleRetryQueue = useCallback(async () => {
     await retryQueueRef.current.drain();
   }, []);
@@ -334,6 +384,22 @@ export default function Trip() {
     }
   }, [t]);
 
+  const handleCallDriver = useCallback(async () => {
+    if (!tripId) return;
+    setIsCallingDriver(true);
+    try {
+      const { proxyNumber } = await requestCallBridge(tripId);
+      await Linking.openURL(`tel:${proxyNumber}`);
+    } catch (callError) {
+      Alert.alert(
+        t('common.action_failed'),
+        callError instanceof Error ? callError.message : t('trip.call_failed')
+      );
+    } finally {
+      setIsCallingDriver(false);
+    }
+  }, [tripId, t]);
+
   if (loading) {
     return (
       <ScreenContainer padded={false} edges={[]}>
@@ -377,6 +443,11 @@ export default function Trip() {
     ...(typeof trip.reservedSeats === 'number' ? { reservedSeats: trip.reservedSeats } : {}),
     ...(trip.destinationLabel !== undefined ? { destinationLabel: trip.destinationLabel } : {}),
     ...(trip.destinationCity !== undefined ? { destinationCity: trip.destinationCity } : {}),
+    ...(trip.fareBreakdown ? { fareBreakdown: trip.fareBreakdown } : {}),
+    ...(trip.acceptedAt ? { acceptedAt: trip.acceptedAt } : {}),
+    ...(trip.driverId && CALL_BRIDGE_TRIP_STATUSES.includes(trip.status as TripStatus)
+      ? { onCallDriver: handleCallDriver, callingDriver: isCallingDriver }
+      : {}),
   };
 
   return (
@@ -385,7 +456,7 @@ export default function Trip() {
       <ActiveTripScreen
         tripId={tripId}
         status={trip.status as TripStatus}
-        estimatedPriceIls={trip.estimatedPriceIls}
+        estimatedPriceIls={trip.finalPriceIls ?? trip.estimatedPriceIls}
         driverLocation={driverLocation}
         driverProfile={driverProfile}
         driverId={trip.driverId}
@@ -397,6 +468,7 @@ export default function Trip() {
         etaUpdatedAt={etaUpdatedAt}
         chatMessages={chatMessages}
         onSendChat={handleSendChat}
+        onChatRead={handleChatRead}
         chatSending={isSendingChat}
         retryQueueCount={queuedActions}
         onRetryQueue={handleRetryQueue}
@@ -407,6 +479,8 @@ export default function Trip() {
         onCancel={handleCancel}
         onGoHome={handleGoHome}
         isCancelling={isCancelling}
+        onReportDriverNotMoving={handleReportDriverNotMoving}
+        isReportingDriver={isReportingDriver}
       />
     </ScreenContainer>
   );
@@ -0,0 +1,236 @@
+import React, { useMemo } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { PILOT_LIMITS } from '@taxi-line/shared';
+
+interface ScheduleTimePickerProps {
+  /** null = ride now */
+  value: Date | null;
+  onChange: (value: Date | null) => void;
+}
+
+const MINUTE_MS = 60 * 1000;
+const MINUTE_STEP = 15;
+
+/**
+ * Earliest bookable pickup, rounded up to the next MINUTE_STEP slot
+ */
+export function getEarliestScheduleTime(now: Date = new Date()): Date {
+  const earliest = new Date(now.getTime() + PILOT_LIMITS.SCHEDULED_RIDE_MIN_ADVANCE_MINUTES * MINUTE_MS);
+  earliest.setSeconds(0, 0);
+  const remainder = earliest.getMinutes() % MINUTE_STEP;
+  if (remainder > 0) {
+    earliest.setMinutes(earliest.getMinutes() + MINUTE_STEP - remainder);
+  }
+  return earliest;
+}
+
+function clampToWindow(value: Date): Date {
+  const earliest = getEarliestScheduleTime();
+  const latest = new Date();
+  latest.setDate(latest.getDate() + PILOT_LIMITS.SCHEDULED_RIDE_MAX_ADVANCE_DAYS);
+
+  if (value.getTime() < earliest.getTime()) return earliest;
+  if (value.getTime() > latest.getTime()) return latest;
+  return value;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+function formatDayLabel(day: Date, index: number): string {
+  if (index === 0) return 'Today';
+  if (index === 1) return 'Tomorrow';
+  return day.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * "Now" / "Schedule" toggle with day chips and hour/minute steppers.
+ * Keeps the selection inside the booking window accepted by createTripRequest.
+ */
+export function ScheduleTimePicker({ value, onChange }: ScheduleTimePickerProps) {
+  const days = useMemo(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return Array.from({ length: PILOT_LIMITS.SCHEDULED_RIDE_MAX_ADVANCE_DAYS + 1 }, (_, index) => {
+      const day = new Date(today);
+      day.setDate(today.getDate() + index);
+      return day;
+    });
+  }, []);
+
+  const selectDay = (day: Date) => {
+    if (!value) return;
+    const next = new Date(day);
+    next.setHours(value.getHours(), value.getMinutes(), 0, 0);
+    onChange(clampToWindow(next));
+  };
+
+  const shiftMinutes = (deltaMinutes: number) => {
+    if (!value) return;
+    onChange(clampToWindow(new Date(value.getTime() + deltaMinutes * MINUTE_MS)));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.modeRow}>
+        <TouchableOpacity
+          style={[styles.modeButton, !value && styles.modeButtonActive]}
+          onPress={() => onChange(null)}
+        >
+          <Text style={[styles.modeText, !value && styles.modeTextActive]}>Now</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.modeButton, value && styles.modeButtonActive]}
+          onPress={() => onChange(value ?? getEarliestScheduleTime())}
+        >
+          <Text style={[styles.modeText, value && styles.modeTextActive]}>Schedule</Text>
+        </TouchableOpacity>
+      </View>
+
+      {value && (
+        <>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayRow}>
+            {days.map((day, index) => {
+              const isSelected = isSameDay(day, value);
+              return (
+                <TouchableOpacity
+                  key={day.toISOString()}
+                  style={[styles.dayChip, isSelected && styles.dayChipActive]}
+                  onPress={() => selectDay(day)}
+                >
+                  <Text style={[styles.dayText, isSelected && styles.dayTextActive]}>
+                    {formatDayLabel(day, index)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <View style={styles.timeRow}>
+            <View style={styles.stepper}>
+              <TouchableOpacity style={styles.stepButton} onPress={() => shiftMinutes(-60)}>
+                <Text style={styles.stepText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.timeValue}>{pad(value.getHours())}</Text>
+              <TouchableOpacity style={styles.stepButton} onPress={() => shiftMinutes(60)}>
+                <Text style={styles.stepText}>+</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.timeSeparator}>:</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity style={styles.stepButton} onPress={() => shiftMinutes(-MINUTE_STEP)}>
+                <Text style={styles.stepText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.timeValue}>{pad(value.getMinutes())}</Text>
+              <TouchableOpacity style={styles.stepButton} onPress={() => shiftMinutes(MINUTE_STEP)}>
+                <Text style={styles.stepText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <Text style={styles.hint}>
+            Book {PILOT_LIMITS.SCHEDULED_RIDE_MIN_ADVANCE_MINUTES} min to {PILOT_LIMITS.SCHEDULED_RIDE_MAX_ADVANCE_DAYS} days
+            ahead. We start looking for a driver shortly before pickup.
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    backgroundColor: '#E5E5EA',
+    borderRadius: 10,
+    padding: 3,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#FFFFFF',
+  },
+  modeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  modeTextActive: {
+    color: '#1C1C1E',
+  },
+  dayRow: {
+    gap: 8,
+  },
+  dayChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#FFFFFF',
+  },
+  dayChipActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#EAF3FF',
+  },
+  dayText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+  },
+  dayTextActive: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  stepButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  stepText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  timeValue: {
+    minWidth: 36,
+    textAlign: 'center',
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  timeSeparator: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1C1C1E',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+});
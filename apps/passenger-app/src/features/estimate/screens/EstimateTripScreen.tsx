@@ -12,6 +12,7 @@ import { useRouter } from 'expo-router';
 import { Button } from '../../../ui';
 import { estimateTrip, createTripRequest, EstimateTripResponse } from '../../../services/api';
 import { LatLng } from '@taxi-line/shared';
+import { ScheduleTimePicker } from '../components';
 
 // Sample locations in the West Bank for testing
 const SAMPLE_LOCATIONS = {
@@ -39,6 +40,7 @@ export function EstimateTripScreen() {
   const [isLoading, setIsLoading] = useState(false);
   const [isRequesting, setIsRequesting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [scheduledFor, setScheduledFor] = useState<Date | null>(null);
 
   // Handle estimate
   const handleEstimate = useCallback(async () => {
@@ -94,7 +96,19 @@ export function EstimateTripScreen() {
         lng: parseFloat(dropoffLng),
       };
 
-      const result = await createTripRequest(pickup, dropoff, estimate);
+      const result = await createTripRequest(pickup, dropoff, estimate, undefined, scheduledFor);
+
+      // Advance booking: nothing to track until dispatch starts before pickup
+      if (result.status === 'scheduled') {
+        const pickupTime = new Date(result.scheduledFor ?? scheduledFor ?? Date.now());
+        Alert.alert(
+          'Ride scheduled',
+          `Your ride is booked for ${pickupTime.toLocaleString()}. We will notify you when a driver is assigned.`
+        );
+        setScheduledFor(null);
+        setEstimate(null);
+        return;
+      }
       
       // If already matched with a driver and trip created, go directly to trip screen
       if (result.status === 'matched' && result.tripId) {
@@ -127,7 +141,7 @@ export function EstimateTripScreen() {
     } finally {
       setIsRequesting(false);
     }
-  }, [estimate, pickupLat, pickupLng, dropoffLat, dropoffLng, router]);
+  }, [estimate, pickupLat, pickupLng, dropoffLat, dropoffLng, scheduledFor, router]);
 
   // Preset route buttons
   const setNablusToRamallah = () => {
@@ -267,20 +281,57 @@ export function EstimateTripScreen() {
                 </Text>
               </View>
               
+              {estimate.pricing?.promoCode && estimate.pricing.discountIls > 0 && (
+                <View style={styles.resultRow}>
+                  <Text style={styles.resultLabel}>Promo {estimate.pricing.promoCode}</Text>
+                  <Text style={[styles.resultValue, styles.discountValue]}>
+                    -₪{estimate.pricing.discountIls}
+                  </Text>
+                </View>
+              )}
+
               <View style={[styles.resultRow, styles.priceRow]}>
                 <Text style={styles.priceLabel}>Estimated Price</Text>
                 <Text style={styles.priceValue}>₪{estimate.priceIls}</Text>
               </View>
             </View>
 
+            {estimate.roadblocks && estimate.roadblocks.length > 0 && (
+              <View style={styles.roadblockCard}>
+                <Text style={styles.roadblockTitle}>🚧 Roadblocks on this route</Text>
+                {estimate.roadblocks.map((roadblock) => (
+                  <Text key={roadblock.id} style={styles.roadblockText}>
+                    {roadblock.status === 'closed' ? '🚫' : '⚠️'} {roadblock.name} (
+                    {roadblock.status === 'closed' ? 'closed' : 'congested'})
+                  </Text>
+                ))}
+                <Text style={styles.roadblockNote}>
+                  Includes about {Math.round(estimate.roadblockDelayMin ?? 0)} min of delay
+                  {estimate.roadblockDetourKm ? ` and a ${estimate.roadblockDetourKm} km detour` : ''}.
+                </Text>
+              </View>
+            )}
+
             <Text style={styles.pricingNote}>
               Pricing: ₪1 per 2 km (minimum ₪5)
             </Text>
 
+            {/* Pickup time */}
+            <View style={styles.scheduleSection}>
+              <Text style={styles.sectionTitle}>🕒 Pickup Time</Text>
+              <ScheduleTimePicker value={scheduledFor} onChange={setScheduledFor} />
+            </View>
+
             {/* Request Trip Button */}
             <View style={styles.requestButtonContainer}>
               <Button
-                title={isRequesting ? 'Requesting...' : 'Request Trip'}
+                title={
+                  isRequesting
+                    ? 'Requesting...'
+                    : scheduledFor
+                      ? 'Schedule Trip'
+                      : 'Request Trip'
+                }
                 onPress={handleRequestTrip}
                 disabled={isRequesting}
               />
@@ -412,6 +463,9 @@ const styles = StyleSheet.create({
     paddingTop: 16,
     marginTop: 4,
   },
+  discountValue: {
+    color: '#16A34A',
+  },
   priceLabel: {
     fontSize: 18,
     fontWeight: '600',
@@ -422,6 +476,28 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#34C759',
   },
+  roadblockCard: {
+    marginTop: 16,
+    backgroundColor: '#FEF3C7',
+    borderRadius: 12,
+    padding: 16,
+  },
+  roadblockTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#92400E',
+    marginBottom: 8,
+  },
+  roadblockText: {
+    fontSize: 14,
+    color: '#78350F',
+    marginBottom: 4,
+  },
+  roadblockNote: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#92400E',
+  },
   pricingNote: {
     marginTop: 16,
     fontSize: 14,
@@ -429,6 +505,9 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontStyle: 'italic',
   },
+  scheduleSection: {
+    marginTop: 24,
+  },
   requestButtonContainer: {
     marginTop: 24,
   },
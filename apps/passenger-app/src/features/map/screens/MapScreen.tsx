@@ -13,7 +13,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { BottomSheetCard, StatusChip } from '@waselneh/ui';
 import { PassengerMapView } from '../PassengerMapView';
-import { createTripRequest, estimateTrip } from '../../../services/api';
+import { PaymentMethod, createTripRequest, estimateTrip, getPaymentMethods } from '../../../services/api';
 import { colors } from '../../../ui/theme';
 import { SavedPlace, loadSavedPlaces } from '../../../services';
 import { useI18n } from '../../../localization';
@@ -34,6 +34,12 @@ const BOOKING_TYPE_OPTIONS: Array<{ value: BookingType; labelEn: string; labelAr
   { value: BOOKING_TYPES.FULL_TAXI, labelEn: 'Full Taxi', labelAr: 'تكسي كامل' },
 ];
 
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, { labelEn: string; labelAr: string }> = {
+  cash: { labelEn: 'Cash', labelAr: 'نقدي' },
+  card: { labelEn: 'Card', labelAr: 'بطاقة' },
+  wallet: { labelEn: 'Wallet', labelAr: 'محفظة' },
+};
+
 export function MapScreen() {
   const { isRTL } = useI18n();
   const router = useRouter();
@@ -46,6 +52,9 @@ export function MapScreen() {
   const [selectedPlaceId, setSelectedPlaceId] = useState<SavedPlace['id']>('favorite');
   const [selectedVehicleType, setSelectedVehicleType] = useState<VehicleType>(VEHICLE_TYPES.TAXI_STANDARD);
   const [bookingType, setBookingType] = useState<BookingType>(BOOKING_TYPES.SEAT_ONLY);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(['cash']);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [walletBalanceIls, setWalletBalanceIls] = useState<number | null>(null);
 
   const isCompact = height < 760;
   const panelWidth = width >= 768 ? 560 : width;
@@ -72,6 +81,25 @@ export function MapScreen() {
     };
   }, [selectedPlaceId]);
 
+  useEffect(() => {
+    let mounted = true;
+    getPaymentMethods()
+      .then(({ methods, walletBalanceIls: balance }) => {
+        if (!mounted || methods.length === 0) return;
+        setPaymentMethods(methods);
+        setWalletBalanceIls(balance);
+        setPaymentMethod((current) => (methods.includes(current) ? current : methods[0] ?? 'cash'));
+      })
+      .catch((error) => {
+        // Cash stays available even if the lookup fails
+        console.error('Failed to load payment methods:', error);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
   const selectedPlace = useMemo(
     () => savedPlaces.find((place) => place.id === selectedPlaceId) ?? null,
     [savedPlaces, selectedPlaceId]
@@ -103,7 +131,14 @@ export function MapScreen() {
     setIsCreatingTrip(true);
     try {
       const estimate = await estimateTrip(DEFAULT_PICKUP, destination, rideOptions);
-      const result = await createTripRequest(DEFAULT_PICKUP, destination, estimate, rideOptions);
+      const result = await createTripRequest(
+        DEFAULT_PICKUP,
+        destination,
+        estimate,
+        rideOptions,
+        null,
+        paymentMethod
+      );
 
       if (result.status === 'matched' && result.tripId) {
         router.push({
@@ -134,7 +169,7 @@ export function MapScreen() {
     } finally {
       setIsCreatingTrip(false);
     }
-  }, [destination, isRTL, rideOptions, router]);
+  }, [destination, isRTL, paymentMethod, rideOptions, router]);
 
   const vehicleLabelByType = useMemo(
     () => ({
@@ -273,6 +308,30 @@ export function MapScreen() {
             </Text>
           </View>
 
+          {paymentMethods.length > 1 ? (
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>{isRTL ? 'الدفع' : 'Payment'}</Text>
+              <View style={[styles.chipsRow, isRTL && styles.rowReverse]}>
+                {paymentMethods.map((method) => {
+                  const selected = paymentMethod === method;
+                  return (
+                    <TouchableOpacity
+                      key={method}
+                      style={[styles.optionChip, selected && styles.optionChipSelected]}
+                      onPress={() => setPaymentMethod(method)}
+                      activeOpacity={0.9}
+                    >
+                      <Text style={[styles.optionChipText, selected && styles.optionChipTextSelected]}>
+                        {isRTL ? PAYMENT_METHOD_LABELS[method].labelAr : PAYMENT_METHOD_LABELS[method].labelEn}
+                        {method === 'wallet' && walletBalanceIls !== null ? ` · ₪${walletBalanceIls.toFixed(2)}` : ''}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ) : null}
+
           <View style={[styles.quickChipsRow, isRTL && styles.rowReverse]}>{quickChips}</View>
 
           <TouchableOpacity
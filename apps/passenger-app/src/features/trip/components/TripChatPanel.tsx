@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   Pressable,
   ScrollView,
@@ -8,43 +8,82 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import {
+  TRIP_CHAT_QUICK_REPLIES,
+  TRIP_CHAT_RULES,
+  TripChatQuickReplyId,
+  getTripChatQuickReplies,
+} from '@taxi-line/shared';
 import { TripChatMessage } from '../../../services/realtime';
 import { useI18n } from '../../../localization';
 
 interface TripChatPanelProps {
   messages: TripChatMessage[];
   myRole: 'passenger' | 'driver';
-  onSend: (message: string, quickReply?: boolean) => void;
+  onSend: (message: string, quickReplyId?: TripChatQuickReplyId) => void;
+  /** Called while the panel is shown with unread messages from the other side */
+  onRead?: (messages: TripChatMessage[]) => void;
   sending?: boolean;
 }
 
-export function TripChatPanel({ messages, myRole, onSend, sending = false }: TripChatPanelProps) {
+function receiptLabel(message: TripChatMessage, isRTL: boolean): string {
+  if (message.readAt) return isRTL ? 'تمت القراءة' : 'Read';
+  if (message.deliveredAt) return '✓✓';
+  return '✓';
+}
+
+export function TripChatPanel({ messages, myRole, onSend, onRead, sending = false }: TripChatPanelProps) {
   const { isRTL } = useI18n();
-  const quickReplies = isRTL
-    ? ['أنا عند نقطة الالتقاط', 'الرجاء الانتظار دقيقتين', 'اتصل بي عند الاقتراب']
-    : ['I am at pickup', 'Please wait 2 minutes', 'Call me when near'];
+  const quickReplies = getTripChatQuickReplies(myRole);
   const [draft, setDraft] = useState('');
-  const recent = useMemo(() => messages.slice(-8), [messages]);
+  const scrollRef = useRef<ScrollView>(null);
+  const unreadKey = messages
+    .filter((message) => message.senderRole !== myRole && !message.readAt)
+    .map((message) => message.id)
+    .join(',');
 
-  const submit = (text: string, quickReply = false) => {
+  // Only re-run when the set of unread messages changes
+  useEffect(() => {
+    if (unreadKey) onRead?.(messages);
+  }, [unreadKey, onRead]);
+
+  const localize = (message: TripChatMessage) => {
+    if (!message.quickReplyId) return message.text;
+    const template = TRIP_CHAT_QUICK_REPLIES[message.quickReplyId];
+    return isRTL ? template.ar : template.en;
+  };
+
+  const submit = (text: string, quickReplyId?: TripChatQuickReplyId) => {
     const normalized = text.trim();
     if (!normalized) return;
-    onSend(normalized, quickReply);
-    if (!quickReply) setDraft('');
+    onSend(normalized, quickReplyId);
+    if (!quickReplyId) setDraft('');
   };
 
   return (
     <View style={styles.container}>
       <Text style={styles.title}>{isRTL ? 'دردشة داخل التطبيق' : 'In-app chat'}</Text>
-      <ScrollView style={styles.messages} contentContainerStyle={styles.messagesContent}>
-        {recent.length === 0 ? (
+      <ScrollView
+        ref={scrollRef}
+        style={styles.messages}
+        contentContainerStyle={styles.messagesContent}
+        onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+      >
+        {messages.length === 0 ? (
           <Text style={styles.empty}>{isRTL ? 'لا توجد رسائل بعد.' : 'No messages yet.'}</Text>
         ) : (
-          recent.map((message) => {
+          messages.map((message) => {
             const isMine = message.senderRole === myRole;
             return (
               <View key={message.id} style={[styles.bubble, isMine ? styles.bubbleMine : styles.bubbleOther]}>
-                <Text style={[styles.bubbleText, isMine && styles.bubbleTextMine]}>{message.text}</Text>
+                <Text style={[styles.bubbleText, isMine && styles.bubbleTextMine]}>{localize(message)}</Text>
+                {message.moderated || isMine ? (
+                  <Text style={[styles.bubbleMeta, isMine && styles.bubbleMetaMine]}>
+                    {message.moderated ? (isRTL ? 'تمت تصفية جزء من الرسالة' : 'Part of this message was filtered') : ''}
+                    {message.moderated && isMine ? ' · ' : ''}
+                    {isMine ? receiptLabel(message, isRTL) : ''}
+                  </Text>
+                ) : null}
               </View>
             );
           })
@@ -52,11 +91,14 @@ export function TripChatPanel({ messages, myRole, onSend, sending = false }: Tri
       </ScrollView>
 
       <View style={[styles.quickReplies, isRTL && styles.rowReverse]}>
-        {quickReplies.map((reply) => (
-          <Pressable key={reply} onPress={() => submit(reply, true)} style={styles.quickChip}>
-            <Text style={styles.quickChipText}>{reply}</Text>
-          </Pressable>
-        ))}
+        {quickReplies.map((id) => {
+          const label = isRTL ? TRIP_CHAT_QUICK_REPLIES[id].ar : TRIP_CHAT_QUICK_REPLIES[id].en;
+          return (
+            <Pressable key={id} onPress={() => submit(label, id)} style={styles.quickChip} disabled={sending}>
+              <Text style={styles.quickChipText}>{label}</Text>
+            </Pressable>
+          );
+        })}
       </View>
 
       <View style={[styles.compose, isRTL && styles.rowReverse]}>
@@ -65,6 +107,7 @@ export function TripChatPanel({ messages, myRole, onSend, sending = false }: Tri
           onChangeText={setDraft}
           placeholder={isRTL ? 'اكتب رسالة' : 'Type a message'}
           style={styles.input}
+          maxLength={TRIP_CHAT_RULES.MAX_MESSAGE_LENGTH}
           editable={!sending}
         />
         <TouchableOpacity
@@ -95,7 +138,7 @@ const styles = StyleSheet.create({
     color: '#0F172A',
   },
   messages: {
-    maxHeight: 132,
+    maxHeight: 180,
   },
   messagesContent: {
     gap: 6,
@@ -127,6 +170,15 @@ const styles = StyleSheet.create({
   bubbleTextMine: {
     color: '#FFFFFF',
   },
+  bubbleMeta: {
+    marginTop: 2,
+    fontSize: 10,
+    color: '#64748B',
+  },
+  bubbleMetaMine: {
+    alignSelf: 'flex-end',
+    color: '#DBEAFE',
+  },
   quickReplies: {
     flexDirection: 'row',
     flexWrap: 'wrap',
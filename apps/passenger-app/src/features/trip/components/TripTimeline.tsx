@@ -14,6 +14,7 @@ const STATUS_ORDER: TripStatus[] = [
   'cancelled_by_driver',
   'cancelled_by_system',
   'no_driver_available',
+  'passenger_no_show',
 ];
 
 interface TripTimelineProps {
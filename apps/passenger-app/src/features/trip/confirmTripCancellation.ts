@@ -0,0 +1,40 @@
+import { Alert } from 'react-native';
+import { getCancellationFeeQuote } from '../../services/api';
+
+type Translate = (key: string, params?: Record<string, string | number>) => string;
+
+/**
+ * Ask the passenger to confirm a cancel, showing the fee that applies right
+ * now. Resolves with the accepted fee, or null if the passenger keeps the trip.
+ */
+export async function confirmTripCancellation(tripId: string, t: Translate): Promise<number | null> {
+  let feeIls = 0;
+  let reason: string | null = null;
+  try {
+    const quote = await getCancellationFeeQuote(tripId);
+    feeIls = quote.feeIls;
+    reason = quote.reason;
+  } catch (error) {
+    // The backend still refuses a cancel whose fee was not accepted
+    console.warn('Cancellation fee quote failed:', error);
+  }
+
+  const message =
+    feeIls > 0
+      ? [reason ? t(`trip.cancel_fee_${reason}`) : null, t('trip.cancel_confirm_fee', { fee: feeIls.toFixed(2) })]
+          .filter(Boolean)
+          .join(' ')
+      : t('trip.cancel_confirm_free');
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      t('trip.cancel_confirm_title'),
+      message,
+      [
+        { text: t('trip.cancel_keep'), style: 'cancel', onPress: () => resolve(null) },
+        { text: t('trip.cancel_confirm_action'), style: 'destructive', onPress: () => resolve(feeIls) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+}
@@ -1,3 +1,4 @@
 export * from './screens/ActiveTripScreen';
 export * from './screens/SearchingDriverScreen';
 export * from './screens/RatingScreen';
+export * from './confirmTripCancellation';
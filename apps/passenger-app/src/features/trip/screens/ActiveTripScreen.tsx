@@ -1,10 +1,16 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Image, ScrollView, StyleSheet, Text, View, useWindowDimensions } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { TripStatus } from '@taxi-line/shared';
+import {
+  DRIVER_NOT_MOVING_RULES,
+  FareBreakdown,
+  PASSENGER_CANCELLABLE_STATUSES,
+  TripChatQuickReplyId,
+  TripStatus,
+} from '@taxi-line/shared';
 import { StatusChip } from '@waselneh/ui';
 import { PassengerMapView } from '../../map';
-import { Button } from '../../../ui';
+import { Button, FareBreakdownList } from '../../../ui';
 import { DriverLocation, DriverProfile, TripChatMessage } from '../../../services/realtime';
 import { LiveEtaCard, SafetyToolsCard, TripChatPanel, TripTimeline } from '../components';
 import { useI18n } from '../../../localization';
@@ -18,6 +24,7 @@ interface ActiveTripScreenProps {
   tripId: string;
   status: TripStatus;
   estimatedPriceIls?: number;
+  fareBreakdown?: FareBreakdown | null;
   driverLocation?: DriverLocation | null;
   driverProfile?: DriverProfile | null;
   driverId?: string;
@@ -32,7 +39,10 @@ interface ActiveTripScreenProps {
   etaToDropoffMin?: number | null;
   etaUpdatedAt?: Date | null;
   chatMessages?: TripChatMessage[];
-  onSendChat?: (message: string, quickReply?: boolean) => void;
+  onSendChat?: (message: string, quickReplyId?: TripChatQuickReplyId) => void;
+  onChatRead?: (messages: TripChatMessage[]) => void;
+  onCallDriver?: () => void;
+  callingDriver?: boolean;
   chatSending?: boolean;
   retryQueueCount?: number;
   onRetryQueue?: () => void;
@@ -43,6 +53,10 @@ interface ActiveTripScreenProps {
   onCancel: () => void;
   onGoHome?: () => void;
   isCancelling?: boolean;
+  /** When the driver accepted; the not-moving report opens after DRIVER_NOT_MOVING_RULES.MIN_SECONDS_SINCE_ACCEPT */
+  acceptedAt?: Date | null;
+  onReportDriverNotMoving?: () => void;
+  isReportingDriver?: boolean;
 }
 
 const DEFAULT_PICKUP = { lat: 32.2211, lng: 35.2544 };
@@ -83,6 +97,14 @@ function getStatusMeta(status: TripStatus, isRTL: boolean): {
         description: isRTL ? 'شكراً لاستخدامك وصلني.' : 'Thanks for riding with us.',
         tone: 'success',
       };
+    case 'passenger_no_show':
+      return {
+        title: isRTL ? 'فاتتك الرحلة' : 'Missed pickup',
+        description: isRTL
+          ? 'انتظرك السائق عند نقطة الالتقاط ثم أغلق الرحلة. قد تُطبق رسوم عدم الحضور.'
+          : 'Your driver waited at pickup and closed the trip. A no-show fee may apply.',
+        tone: 'warning',
+      };
     case 'cancelled_by_passenger':
     case 'cancelled_by_driver':
     case 'cancelled_by_system':
@@ -108,6 +130,7 @@ export function ActiveTripScreen({
   tripId,
   status,
   estimatedPriceIls,
+  fareBreakdown,
   driverLocation,
   driverProfile,
   driverId,
@@ -123,6 +146,9 @@ export function ActiveTripScreen({
   etaUpdatedAt = null,
   chatMessages = [],
   onSendChat,
+  onChatRead,
+  onCallDriver,
+  callingDriver = false,
   chatSending = false,
   retryQueueCount = 0,
   onRetryQueue,
@@ -133,6 +159,9 @@ export function ActiveTripScreen({
   onCancel,
   onGoHome,
   isCancelling = false,
+  acceptedAt = null,
+  onReportDriverNotMoving,
+  isReportingDriver = false,
 }: ActiveTripScreenProps) {
   const { isRTL } = useI18n();
   const insets = useSafeAreaInsets();
@@ -142,13 +171,27 @@ export function ActiveTripScreen({
   const [cardHeight, setCardHeight] = useState(300);
 
   const meta = getStatusMeta(status, isRTL);
-  const canCancel = status === 'pending' || status === 'accepted';
+  const canCancel = PASSENGER_CANCELLABLE_STATUSES.includes(status);
   const isEnded =
     status === 'completed' ||
     status === 'cancelled_by_passenger' ||
     status === 'cancelled_by_driver' ||
     status === 'cancelled_by_system' ||
-    status === 'no_driver_available';
+    status === 'no_driver_available' ||
+    status === 'passenger_no_show';
+
+  const canReportDriver = status === 'accepted' && Boolean(onReportDriverNotMoving);
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  useEffect(() => {
+    if (!canReportDriver) return undefined;
+    const timer = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [canReportDriver]);
+  const reportDriverSecondsLeft = acceptedAt
+    ? Math.ceil(
+        (acceptedAt.getTime() + DRIVER_NOT_MOVING_RULES.MIN_SECONDS_SINCE_ACCEPT * 1000 - nowMs) / 1000,
+      )
+    : 0;
 
   const mappedPickup = pickup ?? DEFAULT_PICKUP;
   const topPadding = Math.max(74, insets.top + 52);
@@ -301,6 +344,23 @@ export function ActiveTripScreen({
                     <Text style={styles.driverFactValue}>{destinationText}</Text>
                   </View>
                 </View>
+                {onCallDriver ? (
+                  <Button
+                    title={
+                      callingDriver
+                        ? isRTL
+                          ? 'جاري الاتصال...'
+                          : 'Connecting...'
+                        : isRTL
+                          ? 'اتصال بالسائق'
+                          : 'Call driver'
+                    }
+                    variant="secondary"
+                    onPress={onCallDriver}
+                    loading={callingDriver}
+                    disabled={callingDriver}
+                  />
+                ) : null}
               </View>
             ) : null}
 
@@ -311,6 +371,8 @@ export function ActiveTripScreen({
               </View>
             ) : null}
 
+            {fareBreakdown ? <FareBreakdownList breakdown={fareBreakdown} /> : null}
+
             {hasDriverCoordinates ? (
               <Text style={styles.driverLive}>
                 {isRTL ? 'موقع السائق المباشر' : 'Driver live'}: {driverLocation?.lat.toFixed(4)}, {driverLocation?.lng.toFixed(4)}
@@ -333,6 +395,7 @@ export function ActiveTripScreen({
                 messages={chatMessages}
                 myRole="passenger"
                 onSend={onSendChat}
+                {...(onChatRead ? { onRead: onChatRead } : {})}
                 sending={chatSending}
               />
             ) : null}
@@ -347,6 +410,28 @@ export function ActiveTripScreen({
             ) : null}
 
             <View style={styles.actions}>
+              {canReportDriver && onReportDriverNotMoving ? (
+                <Button
+                  title={
+                    isReportingDriver
+                      ? isRTL
+                        ? 'جاري الإبلاغ...'
+                        : 'Reporting...'
+                      : reportDriverSecondsLeft > 0
+                        ? isRTL
+                          ? `الإبلاغ عن توقف السائق بعد ${reportDriverSecondsLeft} ث`
+                          : `Report driver not moving in ${reportDriverSecondsLeft}s`
+                        : isRTL
+                          ? 'السائق لا يتحرك'
+                          : 'Driver not moving'
+                  }
+                  variant="secondary"
+                  onPress={onReportDriverNotMoving}
+                  loading={isReportingDriver}
+                  disabled={isReportingDriver || reportDriverSecondsLeft > 0}
+                />
+              ) : null}
+
               {canCancel ? (
                 <Button
                   title={isCancelling ? (isRTL ? 'جاري الإلغاء...' : 'Cancelling...') : isRTL ? 'إلغاء الرحلة' : 'Cancel Trip'}
@@ -24,14 +24,28 @@ export const PASSENGER_TRANSLATIONS: Record<AppLocale, Record<string, string>> =
     'status.completed': 'Trip completed successfully.',
     'status.cancelled_by_driver': 'Driver cancelled this trip.',
     'status.cancelled_by_system': 'Trip was cancelled by system.',
+    'status.passenger_no_show': 'Your driver waited at pickup and closed the trip.',
+    'status.redispatching': 'Looking for another driver.',
     'status.no_driver_available': 'No driver available right now.',
     'status.default': 'Trip status updated.',
 
     'trip.cancel_error_message': 'Failed to cancel trip',
+    'trip.cancel_confirm_title': 'Cancel trip?',
+    'trip.cancel_confirm_free': 'You can cancel this trip for free.',
+    'trip.cancel_confirm_fee': 'A cancellation fee of ₪{fee} will be charged to your wallet.',
+    'trip.cancel_fee_late_cancel': 'The free cancellation window has passed.',
+    'trip.cancel_fee_after_arrival': 'Your driver has already arrived.',
+    'trip.cancel_confirm_action': 'Cancel trip',
+    'trip.cancel_keep': 'Keep trip',
+    'trip.driver_not_moving_title': 'Driver not moving?',
+    'trip.driver_not_moving_message': 'We will release this driver and look for another one near you.',
+    'trip.driver_not_moving_confirm': 'Find another driver',
+    'trip.driver_not_moving_failed': 'Could not report the driver',
     'trip.chat_queued': 'Message queued and will be retried.',
     'trip.chat_failed': 'Unable to send message',
     'trip.emergency_call_failed': 'Could not open emergency dialer.',
     'trip.trusted_contact_failed': 'Could not call trusted contact.',
+    'trip.call_failed': 'Could not connect the call.',
     'trip.trusted_contact_label': 'Trusted contact',
 
     'auth.login_failed': 'Login failed',
@@ -61,14 +75,28 @@ export const PASSENGER_TRANSLATIONS: Record<AppLocale, Record<string, string>> =
     'status.completed': 'اكتملت الرحلة بنجاح.',
     'status.cancelled_by_driver': 'السائق ألغى الرحلة.',
     'status.cancelled_by_system': 'تم إلغاء الرحلة من النظام.',
+    'status.passenger_no_show': 'انتظرك السائق عند نقطة الالتقاط ثم أغلق الرحلة.',
+    'status.redispatching': 'جاري البحث عن سائق آخر.',
     'status.no_driver_available': 'لا يوجد سائق متاح حالياً.',
     'status.default': 'تم تحديث حالة الرحلة.',
 
     'trip.cancel_error_message': 'تعذر إلغاء الرحلة',
+    'trip.cancel_confirm_title': 'إلغاء الرحلة؟',
+    'trip.cancel_confirm_free': 'يمكنك إلغاء هذه الرحلة مجاناً.',
+    'trip.cancel_confirm_fee': 'ستُخصم رسوم إلغاء بقيمة ₪{fee} من محفظتك.',
+    'trip.cancel_fee_late_cancel': 'انتهت فترة الإلغاء المجاني.',
+    'trip.cancel_fee_after_arrival': 'السائق وصل بالفعل.',
+    'trip.cancel_confirm_action': 'إلغاء الرحلة',
+    'trip.cancel_keep': 'متابعة الرحلة',
+    'trip.driver_not_moving_title': 'السائق لا يتحرك؟',
+    'trip.driver_not_moving_message': 'سنلغي تعيين هذا السائق ونبحث عن سائق آخر قريب منك.',
+    'trip.driver_not_moving_confirm': 'ابحث عن سائق آخر',
+    'trip.driver_not_moving_failed': 'تعذر الإبلاغ عن السائق',
     'trip.chat_queued': 'تمت إضافة الرسالة للطابور وسيعاد إرسالها.',
     'trip.chat_failed': 'تعذر إرسال الرسالة',
     'trip.emergency_call_failed': 'تعذر فتح اتصال الطوارئ.',
     'trip.trusted_contact_failed': 'تعذر الاتصال بجهة الاتصال الموثوقة.',
+    'trip.call_failed': 'تعذر إجراء الاتصال.',
     'trip.trusted_contact_label': 'جهة اتصال موثوقة',
 
     'auth.login_failed': 'فشل تسجيل الدخول',
@@ -1,5 +1,14 @@
 import { firebaseFunctions } from '../firebase';
-import { BookingType, LatLng, VehicleType } from '@taxi-line/shared';
+import {
+  BookingType,
+  LatLng,
+  RouteRoadblock,
+  SupportTicketStatus,
+  TripChatModerationFlag,
+  TripChatQuickReplyId,
+  TripChatRole,
+  VehicleType,
+} from '@taxi-line/shared';
 
 // Dev mode configuration - matches app/index.tsx
 const DEV_MODE = process.env.EXPO_PUBLIC_DEV_AUTH_BYPASS === 'true';
@@ -60,6 +69,17 @@ export interface EstimateTripResponse {
   durationMin: number;
   priceIls: number;
   rideOptions?: RideOptions;
+  pricing?: {
+    fareBeforeDiscountIls: number;
+    /** Unlocked promo previewed on this estimate; applied when booking */
+    promoCode: string | null;
+    discountIls: number;
+  };
+  /** Closed/congested roadblocks on the route */
+  roadblocks?: RouteRoadblock[];
+  /** Detour and delay for those roadblocks, already in distance/duration */
+  roadblockDetourKm?: number;
+  roadblockDelayMin?: number;
 }
 
 export interface RideOptions {
@@ -102,8 +122,13 @@ export interface CreateTripRequestInput {
     distanceKm: number;
     durationMin: number;
     priceIls: number;
+    roadblockIds?: string[];
   };
   rideOptions?: RideOptions;
+  /** ISO pickup time for an advance booking; omitted = ride now */
+  scheduledFor?: string;
+  /** Defaults to cash on the backend */
+  paymentMethod?: PaymentMethod;
 }
 
 /**
@@ -114,7 +139,8 @@ export interface CreateTripRequestResponse {
   requestId: string;
   tripId?: string;
   driverId?: string;
-  status: 'matched' | 'searching';
+  status: 'matched' | 'searching' | 'scheduled';
+  scheduledFor?: string;
 }
 
 /**
@@ -125,12 +151,31 @@ export async function createTripRequest(
   pickup: LatLng,
   dropoff: LatLng,
   estimate: EstimateTripResponse,
-  rideOptions?: RideOptions
+  rideOptions?: RideOptions,
+  scheduledFor?: Date | null,
+  paymentMethod?: PaymentMethod
 ): Promise<CreateTripRequestResponse> {
-  const payload: CreateTripRequestInput = { pickup, dropoff, estimate };
+  const payload: CreateTripRequestInput = {
+    pickup,
+    dropoff,
+    estimate: {
+      distanceKm: estimate.distanceKm,
+      durationMin: estimate.durationMin,
+      priceIls: estimate.priceIls,
+      ...(estimate.roadblocks?.length
+        ? { roadblockIds: estimate.roadblocks.map((roadblock) => roadblock.id) }
+        : {}),
+    },
+  };
   if (rideOptions) {
     payload.rideOptions = rideOptions;
   }
+  if (scheduledFor) {
+    payload.scheduledFor = scheduledFor.toISOString();
+  }
+  if (paymentMethod) {
+    payload.paymentMethod = paymentMethod;
+  }
 
   return callFunction<CreateTripRequestInput, CreateTripRequestResponse>(
     'createTripRequest',
@@ -138,6 +183,21 @@ export async function createTripRequest(
   );
 }
 
+export type PaymentMethod = 'cash' | 'card' | 'wallet';
+
+export interface GetPaymentMethodsResponse {
+  methods: PaymentMethod[];
+  /** Prepaid wallet balance; may be negative after a cancellation fee */
+  walletBalanceIls: number;
+}
+
+/**
+ * Payment methods the passenger can pick right now; cash only while payments are disabled
+ */
+export async function getPaymentMethods(): Promise<GetPaymentMethodsResponse> {
+  return callFunction<Record<string, never>, GetPaymentMethodsResponse>('getPaymentMethods', {});
+}
+
 export interface CancelTripRequestInput {
   requestId: string;
 }
@@ -145,7 +205,7 @@ export interface CancelTripRequestInput {
 export interface CancelTripRequestResponse {
   requestId: string;
   cancelled: boolean;
-  status: 'open' | 'matched' | 'expired' | 'cancelled';
+  status: 'scheduled' | 'open' | 'matched' | 'expired' | 'cancelled';
   matchedTripId?: string;
 }
 
@@ -214,11 +274,95 @@ export async function createSupportTicket(
   );
 }
 
+export interface ReplySupportTicketResponse {
+  success: boolean;
+  ticketId: string;
+  status: SupportTicketStatus;
+}
+
+/**
+ * Reply on one of the user's own tickets; reopens it if support was waiting
+ */
+export async function replySupportTicket(
+  ticketId: string,
+  message: string
+): Promise<ReplySupportTicketResponse> {
+  return callFunction<{ ticketId: string; message: string }, ReplySupportTicketResponse>(
+    'replySupportTicket',
+    { ticketId, message }
+  );
+}
+
+export interface SendTripChatMessageResponse {
+  success: boolean;
+  messageId: string;
+  text: string;
+  moderationFlags: TripChatModerationFlag[];
+}
+
+/**
+ * Send an in-trip chat message; the backend rate limits and masks it
+ */
+export async function sendTripChatMessage(
+  tripId: string,
+  message: { text?: string; quickReplyId?: TripChatQuickReplyId }
+): Promise<SendTripChatMessageResponse> {
+  return callFunction<
+    { tripId: string; text?: string; quickReplyId?: TripChatQuickReplyId },
+    SendTripChatMessageResponse
+  >('sendTripChatMessage', { tripId, ...message });
+}
+
+export interface RequestCallBridgeResponse {
+  success: boolean;
+  sessionId: string;
+  proxyNumber: string;
+  calleeRole: TripChatRole;
+  expiresAt: string;
+}
+
+/**
+ * Masked number for calling the other trip participant; valid while the trip is active
+ */
+export async function requestCallBridge(tripId: string): Promise<RequestCallBridgeResponse> {
+  return callFunction<{ tripId: string }, RequestCallBridgeResponse>('requestCallBridge', { tripId });
+}
+
+export interface RedeemPromoCodeResponse {
+  code: string;
+  source: 'promo' | 'referral' | 'referral_reward';
+  discountType: 'percent' | 'fixed';
+  discountValue: number;
+  maxDiscountIls: number | null;
+  expiresAt: string | null;
+}
+
+/**
+ * Redeem a promo or referral code; the discount applies to the next eligible ride
+ */
+export async function redeemPromoCode(code: string): Promise<RedeemPromoCodeResponse> {
+  return callFunction<{ code: string }, RedeemPromoCodeResponse>('redeemPromoCode', { code });
+}
+
+export interface GetReferralCodeResponse {
+  code: string;
+  redeemedCount: number;
+}
+
+/**
+ * The passenger's persistent referral code
+ */
+export async function getReferralCode(): Promise<GetReferralCodeResponse> {
+  return callFunction<Record<string, never>, GetReferralCodeResponse>('getReferralCode', {});
+}
+
 /**
  * Cancel trip request payload
  */
 export interface PassengerCancelTripRequest {
   tripId: string;
+  /** Fee the passenger confirmed; the backend refuses if the fee is now higher */
+  acceptFeeIls?: number;
 }
 
 /**
@@ -227,16 +371,48 @@ export interface PassengerCancelTripRequest {
 export interface PassengerCancelTripResponse {
   tripId: string;
   cancelled: boolean;
+  cancellationFeeIls: number;
 }
 
 /**
  * Cancel an active trip as passenger.
- * Valid only for pending/accepted states.
+ * Valid for pending/accepted/driver_arrived states; late cancels cost a fee.
  */
-export async function passengerCancelTrip(tripId: string): Promise<PassengerCancelTripResponse> {
+export async function passengerCancelTrip(
+  tripId: string,
+  acceptFeeIls?: number
+): Promise<PassengerCancelTripResponse> {
   return callFunction<PassengerCancelTripRequest, PassengerCancelTripResponse>(
     'passengerCancelTrip',
-    { tripId }
+    acceptFeeIls !== undefined ? { tripId, acceptFeeIls } : { tripId }
   );
 }
 
+export interface CancellationFeeQuoteResponse {
+  tripId: string;
+  feeIls: number;
+  reason: 'late_cancel' | 'after_arrival' | 'no_show' | null;
+  currency: 'ILS';
+}
+
+/**
+ * Fee for cancelling the trip right now, for the cancel confirmation dialog
+ */
+export async function getCancellationFeeQuote(tripId: string): Promise<CancellationFeeQuoteResponse> {
+  return callFunction<{ tripId: string }, CancellationFeeQuoteResponse>('getCancellationFeeQuote', { tripId });
+}
+
+
+export interface ReportDriverNotMovingResponse {
+  tripId: string;
+  /** redispatched, or exhausted when no other driver was available */
+  outcome: 'redispatched' | 'exhausted' | 'skipped';
+}
+
+/**
+ * Report that the accepted driver is not heading to pickup; the trip is
+ * offered to another driver.
+ */
+export async function reportDriverNotMoving(tripId: string): Promise<ReportDriverNotMovingResponse> {
+  return callFunction<{ tripId: string }, ReportDriverNotMovingResponse>('reportDriverNotMoving', { tripId });
+}
@@ -17,7 +17,6 @@ export interface DriverProfile {
   photoUrl: string | null;
   rating: number | null;
   completedTrips: number | null;
-  phone: string | null;
   lineNumber: string | null;
   routePath: string | null;
   routeName: string | null;
@@ -144,10 +143,6 @@ export function subscribeToDriverProfile(
           toNumber(data.tripsCount) ??
           toNumber(data.totalTrips);
 
-        const phone =
-          toStringOrNull(data.phone) ||
-          toStringOrNull(data.phoneNumber);
-
         const lineNumber = toStringOrNull(data.lineNumber);
         const routePath = toStringOrNull(data.routePath);
         const routeName = toStringOrNull(data.routeName);
@@ -178,7 +173,6 @@ export function subscribeToDriverProfile(
           photoUrl,
           rating,
           completedTrips,
-          phone,
           lineNumber,
           routePath,
           routeName,
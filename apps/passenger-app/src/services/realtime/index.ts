@@ -3,3 +3,4 @@ export * from './driver-location.realtime';
 export * from './roadblocks.realtime';
 export * from './chat.realtime';
 export * from './history.realtime';
+export * from './support.realtime';
@@ -0,0 +1,80 @@
+import { firebaseDB, Unsubscribe } from '../firebase';
+import { SupportTicketAuthorRole, SupportTicketStatus } from '@taxi-line/shared';
+
+export interface MySupportTicket {
+  id: string;
+  subject: string;
+  category: string;
+  tripId: string | null;
+  status: SupportTicketStatus;
+  lastMessageRole: SupportTicketAuthorRole | null;
+  updatedAt: Date | null;
+}
+
+export interface SupportTicketThreadMessage {
+  id: string;
+  authorRole: SupportTicketAuthorRole;
+  text: string;
+  status: SupportTicketStatus | null;
+  createdAt: Date | null;
+}
+
+export function subscribeToMySupportTickets(
+  userId: string,
+  onData: (tickets: MySupportTicket[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return firebaseDB
+    .collection('supportTickets')
+    .where('userId', '==', userId)
+    .where('source', '==', 'mobile')
+    .orderBy('updatedAt', 'desc')
+    .limit(50)
+    .onSnapshot(
+      (snapshot) => {
+        const tickets = snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            subject: data?.subject ?? '',
+            category: data?.category ?? 'other',
+            tripId: typeof data?.tripId === 'string' ? data.tripId : null,
+            status: (data?.status as SupportTicketStatus) ?? 'open',
+            lastMessageRole: (data?.lastMessageRole as SupportTicketAuthorRole) ?? null,
+            updatedAt: data?.updatedAt?.toDate?.() ?? null,
+          };
+        });
+        onData(tickets);
+      },
+      onError
+    );
+}
+
+export function subscribeToSupportTicketThread(
+  ticketId: string,
+  onData: (messages: SupportTicketThreadMessage[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe {
+  return firebaseDB
+    .collection('supportTickets')
+    .doc(ticketId)
+    .collection('messages')
+    .orderBy('createdAt', 'asc')
+    .limit(200)
+    .onSnapshot(
+      (snapshot) => {
+        const messages = snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            authorRole: (data?.authorRole as SupportTicketAuthorRole) ?? 'system',
+            text: data?.text ?? '',
+            status: typeof data?.status === 'string' ? (data.status as SupportTicketStatus) : null,
+            createdAt: data?.createdAt?.toDate?.() ?? null,
+          };
+        });
+        onData(messages);
+      },
+      onError
+    );
+}
@@ -1,4 +1,5 @@
 import { firebaseDB, Unsubscribe } from '../firebase';
+import { FareBreakdown, toFareBreakdown } from '@taxi-line/shared';
 
 /**
  * Trip request data from Firestore
@@ -31,6 +32,8 @@ export interface TripData {
   estimatedDurationMin: number;
   estimatedPriceIls: number;
   finalPriceIls?: number;
+  /** Final breakdown once completed, otherwise the creation-time quote */
+  fareBreakdown?: FareBreakdown | null;
   bookingType?: 'seat_only' | 'full_taxi';
   requestedSeats?: number;
   reservedSeats?: number;
@@ -39,6 +42,7 @@ export interface TripData {
   status: string;
   createdAt: Date;
   matchedAt?: Date;
+  acceptedAt?: Date;
   arrivedAt?: Date;
   startedAt?: Date;
   completedAt?: Date;
@@ -115,6 +119,7 @@ export function subscribeToTrip(
             estimatedDurationMin: data?.estimatedDurationMin,
             estimatedPriceIls: data?.estimatedPriceIls,
             finalPriceIls: data?.finalPriceIls,
+            fareBreakdown: toFareBreakdown(data?.finalPricingBreakdown ?? data?.pricingBreakdown),
             bookingType: data?.bookingType,
             requestedSeats: data?.requestedSeats,
             reservedSeats: data?.reservedSeats,
@@ -123,6 +128,7 @@ export function subscribeToTrip(
             status: data?.status,
             createdAt: data?.createdAt?.toDate(),
             matchedAt: data?.matchedAt?.toDate(),
+            acceptedAt: data?.acceptedAt?.toDate(),
             arrivedAt: data?.arrivedAt?.toDate(),
             startedAt: data?.startedAt?.toDate(),
             completedAt: data?.completedAt?.toDate(),
@@ -179,6 +185,7 @@ export function subscribeToActiveTrip(
           estimatedDurationMin: data?.estimatedDurationMin,
           estimatedPriceIls: data?.estimatedPriceIls,
           finalPriceIls: data?.finalPriceIls,
+          fareBreakdown: toFareBreakdown(data?.finalPricingBreakdown ?? data?.pricingBreakdown),
           bookingType: data?.bookingType,
           requestedSeats: data?.requestedSeats,
           reservedSeats: data?.reservedSeats,
@@ -187,6 +194,7 @@ export function subscribeToActiveTrip(
           status: data?.status,
           createdAt: data?.createdAt?.toDate(),
           matchedAt: data?.matchedAt?.toDate(),
+          acceptedAt: data?.acceptedAt?.toDate(),
           arrivedAt: data?.arrivedAt?.toDate(),
           startedAt: data?.startedAt?.toDate(),
           completedAt: data?.completedAt?.toDate(),
@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import {
+  FARE_BREAKDOWN_LABELS,
+  FareBreakdown,
+  formatFareBreakdownValue,
+  getFareBreakdownLines,
+} from '@taxi-line/shared';
+import { useI18n } from '../../localization';
+
+interface FareBreakdownListProps {
+  breakdown: FareBreakdown;
+}
+
+/**
+ * FareBreakdownList - How the trip fare was reached (distance fare,
+ * surcharges, multipliers, minimum fare, promo discount)
+ */
+export function FareBreakdownList({ breakdown }: FareBreakdownListProps) {
+  const { locale } = useI18n();
+  const lines = getFareBreakdownLines(breakdown);
+
+  return (
+    <View style={styles.container}>
+      {lines.map((line) => {
+        const label = FARE_BREAKDOWN_LABELS[line.key][locale];
+        const detail =
+          line.key === 'distance'
+            ? ` (${breakdown.roundedDistanceKm} km × ₪${breakdown.baseRatePerKm})`
+            : line.key === 'time'
+              ? ` (${breakdown.durationMin} min)`
+              : line.key === 'discount' && breakdown.promoCode
+                ? ` (${breakdown.promoCode})`
+                : '';
+        return (
+          <View key={line.key} style={styles.row}>
+            <Text style={styles.label}>
+              {label}
+              {detail}
+            </Text>
+            <Text style={[styles.value, line.value < 0 && styles.discount]}>
+              {formatFareBreakdownValue(line)}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  value: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  discount: {
+    color: '#34C759',
+  },
+});
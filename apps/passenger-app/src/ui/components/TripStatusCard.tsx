@@ -1,5 +1,7 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { FareBreakdown } from '@taxi-line/shared';
+import { FareBreakdownList } from './FareBreakdownList';
 
 /**
  * Trip status types matching backend trip.status values
@@ -94,6 +96,8 @@ interface TripStatusCardProps {
   tripId?: string;
   /** Estimated or final price */
   priceIls?: number;
+  /** How priceIls was reached (trip pricingBreakdown / finalPricingBreakdown) */
+  fareBreakdown?: FareBreakdown | null;
 }
 
 /**
@@ -105,9 +109,9 @@ interface TripStatusCardProps {
  * - Title (main state text)
  * - Subtitle (short explanation)
  * - Trip ID (optional)
- * - Price (optional)
+ * - Price (optional) and its fare breakdown
  */
-export function TripStatusCard({ status, tripId, priceIls }: TripStatusCardProps) {
+export function TripStatusCard({ status, tripId, priceIls, fareBreakdown }: TripStatusCardProps) {
   const display = getStatusDisplay(status);
 
   return (
@@ -132,6 +136,12 @@ export function TripStatusCard({ status, tripId, priceIls }: TripStatusCardProps
           )}
         </View>
       )}
+
+      {fareBreakdown && (
+        <View style={styles.breakdown}>
+          <FareBreakdownList breakdown={fareBreakdown} />
+        </View>
+      )}
     </View>
   );
 }
@@ -179,6 +189,9 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  breakdown: {
+    marginTop: 10,
+  },
   tripId: {
     fontSize: 12,
     color: '#8E8E93',
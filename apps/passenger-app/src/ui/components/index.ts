@@ -2,4 +2,5 @@ export * from './Button';
 export * from './BackButton';
 export * from './LoadingScreen';
 export * from './TripStatusCard';
+export * from './FareBreakdownList';
 export * from './LanguageToggle';
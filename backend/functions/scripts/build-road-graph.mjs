@@ -0,0 +1,185 @@
+/* eslint-disable no-console */
+/**
+ * Build the local router's road graph from an OpenStreetMap extract.
+ *
+ * Input is Overpass JSON for the service area, for example:
+ *
+ *   [out:json][timeout:300];
+ *   way["highway"](31.30,34.85,32.60,35.60);
+ *   (._;>;);
+ *   out body;
+ *
+ * Usage:
+ *   node scripts/build-road-graph.mjs --input extract.json [--output data/road-graph.json]
+ *
+ * Output matches RoadGraphFile in src/modules/routing/road-graph.ts:
+ *   { version: 1, nodes: [lat, lng, ...], edges: [from, to, lengthMeters, speedKmh, ...] }
+ * with one edge per driving direction. Nodes that only join two segments of
+ * the same way are kept so long roads still bend around terrain; segments
+ * longer than MAX_SEGMENT_METERS are split so roadblocks can cut them.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+
+/** Default speeds (km/h) by highway tag when maxspeed is missing */
+const HIGHWAY_SPEEDS_KMH = {
+  motorway: 90,
+  motorway_link: 50,
+  trunk: 80,
+  trunk_link: 45,
+  primary: 65,
+  primary_link: 40,
+  secondary: 55,
+  secondary_link: 35,
+  tertiary: 45,
+  tertiary_link: 30,
+  unclassified: 35,
+  residential: 30,
+  living_street: 15,
+  service: 20,
+  road: 30,
+  track: 15,
+};
+
+const MAX_SEGMENT_METERS = 250;
+
+function parseArgs(argv) {
+  const args = {
+    input: null,
+    output: 'data/road-graph.json',
+  };
+
+  for (let i = 2; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === '--input' && argv[i + 1]) {
+      args.input = String(argv[i + 1]);
+      i += 1;
+    } else if (token === '--output' && argv[i + 1]) {
+      args.output = String(argv[i + 1]);
+      i += 1;
+    }
+  }
+
+  return args;
+}
+
+function haversineMeters(lat1, lng1, lat2, lng2) {
+  const R = 6371000;
+  const toRad = (deg) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function parseMaxSpeed(value) {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(mph)?/);
+  if (!match) return null;
+  const speed = Number(match[1]);
+  return match[2] ? speed * 1.609 : speed;
+}
+
+/**
+ * 1 = forward only, -1 = reverse only, 0 = both directions
+ */
+function getOneway(tags) {
+  const oneway = tags.oneway;
+  if (oneway === '-1' || oneway === 'reverse') return -1;
+  if (oneway === 'yes' || oneway === '1' || oneway === 'true') return 1;
+  if (oneway === 'no') return 0;
+  if (tags.junction === 'roundabout' || tags.highway === 'motorway') return 1;
+  return 0;
+}
+
+function isDrivable(tags) {
+  if (!tags || !(tags.highway in HIGHWAY_SPEEDS_KMH)) return false;
+  if (tags.access === 'no' || tags.access === 'private') return false;
+  if (tags.motor_vehicle === 'no' || tags.motorcar === 'no') return false;
+  if (tags.area === 'yes') return false;
+  return true;
+}
+
+function main() {
+  const args = parseArgs(process.argv);
+  if (!args.input) {
+    console.error('Usage: node scripts/build-road-graph.mjs --input extract.json [--output data/road-graph.json]');
+    process.exit(1);
+  }
+
+  const extract = JSON.parse(fs.readFileSync(args.input, 'utf8'));
+  const elements = Array.isArray(extract.elements) ? extract.elements : [];
+  const osmNodes = new Map();
+  for (const element of elements) {
+    if (element.type === 'node') {
+      osmNodes.set(element.id, [element.lat, element.lon]);
+    }
+  }
+
+  const nodes = [];
+  const nodeIndex = new Map();
+  const edges = [];
+
+  const indexOf = (osmId) => {
+    let index = nodeIndex.get(osmId);
+    if (index === undefined) {
+      const [lat, lng] = osmNodes.get(osmId);
+      index = nodes.length / 2;
+      nodes.push(Number(lat.toFixed(6)), Number(lng.toFixed(6)));
+      nodeIndex.set(osmId, index);
+    }
+    return index;
+  };
+
+  const addPoint = (lat, lng) => {
+    const index = nodes.length / 2;
+    nodes.push(Number(lat.toFixed(6)), Number(lng.toFixed(6)));
+    return index;
+  };
+
+  const addEdge = (from, to, meters, speedKmh, oneway) => {
+    const length = Math.round(meters * 10) / 10;
+    if (oneway >= 0) edges.push(from, to, length, speedKmh);
+    if (oneway <= 0) edges.push(to, from, length, speedKmh);
+  };
+
+  let wayCount = 0;
+  for (const element of elements) {
+    if (element.type !== 'way' || !isDrivable(element.tags)) continue;
+    const refs = (element.nodes || []).filter((ref) => osmNodes.has(ref));
+    if (refs.length < 2) continue;
+
+    wayCount += 1;
+    const tags = element.tags;
+    const speedKmh = parseMaxSpeed(tags.maxspeed) ?? HIGHWAY_SPEEDS_KMH[tags.highway];
+    const oneway = getOneway(tags);
+
+    for (let i = 1; i < refs.length; i += 1) {
+      const [lat1, lng1] = osmNodes.get(refs[i - 1]);
+      const [lat2, lng2] = osmNodes.get(refs[i]);
+      const meters = haversineMeters(lat1, lng1, lat2, lng2);
+      const pieces = Math.max(1, Math.ceil(meters / MAX_SEGMENT_METERS));
+
+      let previous = indexOf(refs[i - 1]);
+      for (let piece = 1; piece < pieces; piece += 1) {
+        const t = piece / pieces;
+        const next = addPoint(lat1 + (lat2 - lat1) * t, lng1 + (lng2 - lng1) * t);
+        addEdge(previous, next, meters / pieces, speedKmh, oneway);
+        previous = next;
+      }
+      addEdge(previous, indexOf(refs[i]), meters / pieces, speedKmh, oneway);
+    }
+  }
+
+  const output = path.resolve(process.cwd(), args.output);
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, JSON.stringify({ version: 1, nodes, edges }));
+
+  console.log(
+    `Road graph written to ${output}: ${wayCount} ways, ${nodes.length / 2} nodes, ${edges.length / 4} edges`
+  );
+}
+
+main();
@@ -9,6 +9,7 @@ import { getAuthenticatedUserId } from '../../core/auth';
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
 import { publishTripStatusNotifications } from '../../modules/notifications';
 import { assertDriverIsLicensedLineOwner } from '../../modules/auth';
+import { getDriverActiveTripIds, isDriverAvailableForDispatch } from '../../modules/matching';
 
 const AcceptTripRequestSchema = z.object({
   tripId: z.string().min(1),
@@ -138,10 +139,17 @@ export const acceptTripRequest = onCall<unknown, Promise<AcceptTripRequestRespon
 
         const nextAvailableSeats = Math.max(0, availableSeats - seatsToReserve);
         const fullTaxiReserved = bookingType === BOOKING_TYPES.FULL_TAXI;
+        // Pooled rides join the driver's existing trips; the first one stays currentTripId
+        const activeTripIds = [
+          ...getDriverActiveTripIds(driverData).filter((activeTripId) => activeTripId !== tripId),
+          tripId,
+        ];
 
         transaction.update(tripRef, {
           status: TripStatus.ACCEPTED,
           acceptedAt: FieldValue.serverTimestamp(),
+          // Baseline for the passenger's "driver not moving" report
+          acceptedDriverLocation: driverData.lastLocation ?? null,
           bookingType,
           requestedSeats,
           reservedSeats: seatsToReserve,
@@ -157,11 +165,14 @@ export const acceptTripRequest = onCall<unknown, Promise<AcceptTripRequestRespon
           driverDocRef,
           {
             availableSeats: nextAvailableSeats,
-            isAvailable: nextAvailableSeats > 0 && !fullTaxiReserved,
-            currentTripId:
-              typeof driverData.currentTripId === 'string' && driverData.currentTripId.trim().length > 0
-                ? driverData.currentTripId
-                : tripId,
+            isAvailable: isDriverAvailableForDispatch({
+              isOnline: driverData.isOnline === true,
+              availableSeats: nextAvailableSeats,
+              fullTaxiReserved,
+              activeTripCount: activeTripIds.length,
+            }),
+            activeTripIds,
+            currentTripId: activeTripIds[0],
             ...(fullTaxiReserved
               ? {
                   fullTaxiReserved: true,
@@ -180,6 +191,7 @@ export const acceptTripRequest = onCall<unknown, Promise<AcceptTripRequestRespon
           seatsToReserve,
           nextAvailableSeats,
           fullTaxiReserved,
+          activeTripIds,
         });
 
         logger.tripEvent('TRIP_ACCEPTED', tripId, {
@@ -1,7 +1,7 @@
 import { FieldValue } from 'firebase-admin/firestore';
 import { onCall } from 'firebase-functions/v2/https';
 import { z } from 'zod';
-import { TripRequestStatus } from '@taxi-line/shared';
+import { PROMO_REDEMPTION_STATUSES, ScheduledRideStatus, TripRequestStatus } from '@taxi-line/shared';
 import { REGION } from '../../core/env';
 import { getFirestore } from '../../core/config';
 import { getAuthenticatedUserId } from '../../core/auth';
@@ -20,7 +20,7 @@ const CancelTripRequestSchema = z.object({
 interface CancelTripRequestResponse {
   requestId: string;
   cancelled: boolean;
-  status: 'open' | 'matched' | 'expired' | 'cancelled';
+  status: 'scheduled' | 'open' | 'matched' | 'expired' | 'cancelled';
   matchedTripId?: string;
 }
 
@@ -51,6 +51,7 @@ export const cancelTripRequest = onCall<unknown, Promise<CancelTripRequestRespon
       const { requestId } = parsed.data;
       const db = getFirestore();
       const tripRequestRef = db.collection('tripRequests').doc(requestId);
+      const scheduledRideRef = db.collection('scheduledRides').doc(requestId);
 
       let responseStatus: CancelTripRequestResponse['status'] = TripRequestStatus.OPEN;
       let cancelled = false;
@@ -62,13 +63,26 @@ export const cancelTripRequest = onCall<unknown, Promise<CancelTripRequestRespon
           throw new NotFoundError('Trip request not found');
         }
 
+        // Advance bookings have a scheduledRides twin; read it before any write
+        const scheduledRideDoc = await transaction.get(scheduledRideRef);
+
         const tripRequestData = tripRequestDoc.data() ?? {};
         if (tripRequestData.passengerId !== passengerId) {
           throw new ForbiddenError('You can only cancel your own trip request');
         }
 
+        // A promo consumed by this request goes back to the passenger
+        const promoRedemptionId = sanitizeString(tripRequestData.promoRedemptionId);
+        const promoRedemptionRef = promoRedemptionId
+          ? db.collection('promoRedemptions').doc(promoRedemptionId)
+          : null;
+        const promoRedemptionDoc = promoRedemptionRef
+          ? await transaction.get(promoRedemptionRef)
+          : null;
+
         const status = sanitizeString(tripRequestData.status);
-        if (status !== TripRequestStatus.OPEN &&
+        if (status !== TripRequestStatus.SCHEDULED &&
+            status !== TripRequestStatus.OPEN &&
             status !== TripRequestStatus.MATCHED &&
             status !== TripRequestStatus.EXPIRED &&
             status !== TripRequestStatus.CANCELLED) {
@@ -78,7 +92,7 @@ export const cancelTripRequest = onCall<unknown, Promise<CancelTripRequestRespon
         responseStatus = status;
         matchedTripId = sanitizeString(tripRequestData.matchedTripId);
 
-        if (status !== TripRequestStatus.OPEN) {
+        if (status !== TripRequestStatus.OPEN && status !== TripRequestStatus.SCHEDULED) {
           cancelled = false;
           return;
         }
@@ -89,6 +103,24 @@ export const cancelTripRequest = onCall<unknown, Promise<CancelTripRequestRespon
           cancelledBy: passengerId,
         });
 
+        if (scheduledRideDoc.exists) {
+          transaction.update(scheduledRideRef, {
+            status: ScheduledRideStatus.CANCELLED,
+            cancelledAt: FieldValue.serverTimestamp(),
+          });
+        }
+
+        if (
+          promoRedemptionRef &&
+          promoRedemptionDoc?.data()?.appliedRequestId === requestId
+        ) {
+          transaction.update(promoRedemptionRef, {
+            status: PROMO_REDEMPTION_STATUSES.AVAILABLE,
+            appliedRequestId: null,
+            releasedAt: FieldValue.serverTimestamp(),
+          });
+        }
+
         responseStatus = TripRequestStatus.CANCELLED;
         cancelled = true;
       });
@@ -5,7 +5,9 @@ import {
   TripStatus,
   PaymentStatus,
   PaymentMethod,
+  normalizePaymentMethod,
   normalizeSeatCapacity,
+  roundIls,
 } from '@taxi-line/shared';
 import { REGION } from '../../core/env';
 import { getFirestore } from '../../core/config';
@@ -15,6 +17,9 @@ import { getAuthenticatedUserId } from '../../core/auth';
 import { FieldValue } from 'firebase-admin/firestore';
 import { publishTripStatusNotifications } from '../../modules/notifications';
 import { assertDriverIsLicensedLineOwner } from '../../modules/auth';
+import { getRemainingActiveTripIds, isDriverAvailableForDispatch } from '../../modules/matching';
+import { captureTripPayment } from '../../modules/payments';
+import { settleTripRouteFare } from '../../modules/trips';
 
 const CompleteTripSchema = z.object({
   tripId: z.string().min(1),
@@ -25,6 +30,29 @@ interface CompleteTripResponse {
   status: string;
   finalPriceIls: number;
   paymentId: string;
+  paymentMethod: PaymentMethod;
+  /** Card/wallet charge outcome; cash is collected by the driver */
+  paymentStatus: PaymentStatus;
+}
+
+function assertCanComplete(
+  tripId: string,
+  tripData: FirebaseFirestore.DocumentData | undefined,
+  driverId: string
+): asserts tripData is FirebaseFirestore.DocumentData {
+  if (!tripData) {
+    throw new NotFoundError('Trip', tripId);
+  }
+
+  if (tripData.driverId !== driverId) {
+    throw new ForbiddenError('You are not assigned to this trip');
+  }
+
+  if (tripData.status !== TripStatus.IN_PROGRESS) {
+    throw new ForbiddenError(
+      `Cannot complete trip from status '${tripData.status}'. Expected '${TripStatus.IN_PROGRESS}'.`
+    );
+  }
 }
 
 export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
@@ -53,13 +81,20 @@ export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
       const tripRef = db.collection('trips').doc(tripId);
       let passengerIdForNotify = '';
 
+      // Fare from the driven route, settled against the estimate. Priced
+      // before the transaction: it reads the route trail and pricing
+      // profiles, and its trip inputs do not change while in progress.
+      const preTripData = (await tripRef.get()).data();
+      assertCanComplete(tripId, preTripData, driverId);
+      const {
+        finalPriceIls: routeFareIls,
+        finalPricingBreakdown: routeFareBreakdown,
+        fareAdjustment,
+      } = await settleTripRouteFare(tripId, preTripData, new Date());
+
       const result = await db.runTransaction(async (transaction) => {
         const tripDoc = await transaction.get(tripRef);
-        if (!tripDoc.exists) {
-          throw new NotFoundError('Trip', tripId);
-        }
-
-        const tripData = tripDoc.data()!;
+        const tripData = tripDoc.data();
         const paymentId = `payment_${tripId}`;
         const paymentRef = db.collection('payments').doc(paymentId);
         const existingPayment = await transaction.get(paymentRef);
@@ -67,18 +102,19 @@ export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
         const driverDoc = await transaction.get(driverDocRef);
         const driverData = (driverDoc.data() ?? {}) as Record<string, unknown>;
 
-        if (tripData.driverId !== driverId) {
-          throw new ForbiddenError('You are not assigned to this trip');
-        }
-
-        if (tripData.status !== TripStatus.IN_PROGRESS) {
-          throw new ForbiddenError(
-            `Cannot complete trip from status '${tripData.status}'. Expected '${TripStatus.IN_PROGRESS}'.`
-          );
-        }
+        assertCanComplete(tripId, tripData, driverId);
 
         passengerIdForNotify = String(tripData.passengerId || '');
-        const finalPriceIls = tripData.estimatedPriceIls;
+        const paymentMethod = normalizePaymentMethod(tripData.paymentMethod) ?? PaymentMethod.CASH;
+        // Route fare plus the pickup wait charge
+        const waitChargeIls =
+          typeof tripData.waitChargeIls === 'number' && Number.isFinite(tripData.waitChargeIls)
+            ? Math.max(0, tripData.waitChargeIls)
+            : 0;
+        const finalPriceIls = roundIls(routeFareIls + waitChargeIls);
+        const finalPricingBreakdown = routeFareBreakdown
+          ? { ...routeFareBreakdown, waitChargeIls: roundIls(waitChargeIls) }
+          : null;
 
         const seatCapacity = normalizeSeatCapacity(driverData.seatCapacity, driverData.vehicleType as any);
         const availableSeatsRaw =
@@ -104,10 +140,16 @@ export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
         const shouldClearFullTaxiReservation =
           bookingType === BOOKING_TYPES.FULL_TAXI &&
           driverData.fullTaxiReservedTripId === tripId;
+        const activeTripIds = getRemainingActiveTripIds(driverData, tripId);
 
         transaction.update(tripRef, {
           status: TripStatus.COMPLETED,
           finalPriceIls,
+          finalPricingBreakdown,
+          fareAmount: finalPriceIls,
+          actualDistanceKm: fareAdjustment.actualDistanceKm,
+          actualDurationMin: fareAdjustment.actualDurationMin,
+          fareAdjustment,
           completedAt: FieldValue.serverTimestamp(),
           updatedAt: FieldValue.serverTimestamp(),
         });
@@ -116,11 +158,14 @@ export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
           driverDocRef,
           {
             availableSeats: nextAvailableSeats,
-            isAvailable: isOnline && nextAvailableSeats > 0,
-            currentTripId:
-              typeof driverData.currentTripId === 'string' && driverData.currentTripId === tripId
-                ? null
-                : driverData.currentTripId ?? null,
+            isAvailable: isDriverAvailableForDispatch({
+              isOnline,
+              availableSeats: nextAvailableSeats,
+              fullTaxiReserved: !shouldClearFullTaxiReservation && driverData.fullTaxiReserved === true,
+              activeTripCount: activeTripIds.length,
+            }),
+            activeTripIds,
+            currentTripId: activeTripIds[0] ?? null,
             ...(shouldClearFullTaxiReservation
               ? {
                   fullTaxiReserved: false,
@@ -131,6 +176,8 @@ export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
               typeof driverData.tripsCount === 'number' && Number.isFinite(driverData.tripsCount)
                 ? Math.max(0, Math.round(driverData.tripsCount) + 1)
                 : 1,
+            // Idle-time anchor for the fairness matching strategy
+            lastTripCompletedAt: FieldValue.serverTimestamp(),
             updatedAt: FieldValue.serverTimestamp(),
           },
           { merge: true }
@@ -143,8 +190,9 @@ export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
             passengerId: tripData.passengerId,
             driverId,
             amount: finalPriceIls,
+            fareBreakdown: finalPricingBreakdown,
             currency: 'ILS',
-            method: PaymentMethod.CASH,
+            method: paymentMethod,
             status: PaymentStatus.PENDING,
             createdAt: FieldValue.serverTimestamp(),
             updatedAt: FieldValue.serverTimestamp(),
@@ -154,6 +202,8 @@ export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
         logger.tripEvent('TRIP_COMPLETED', tripId, {
           driverId,
           finalPriceIls,
+          waitChargeIls,
+          fareAdjustmentReason: fareAdjustment.reason,
           bookingType,
           reservedSeats,
         });
@@ -162,9 +212,26 @@ export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
           status: TripStatus.COMPLETED,
           finalPriceIls,
           paymentId,
+          paymentMethod,
         };
       });
 
+      // Charge card/wallet rides outside the transaction; a declined charge,
+      // or the part of the fare above the card hold, stays pending for cash
+      // collection. A wallet debit that errors is retried by
+      // captureWalletPaymentOnComplete.
+      let paymentStatus: PaymentStatus = PaymentStatus.PENDING;
+      try {
+        const capture = await captureTripPayment(tripId);
+        if (capture?.status === 'captured' && capture.shortfallIls <= 0) {
+          paymentStatus = PaymentStatus.PAID;
+        } else if (capture?.status === 'failed') {
+          paymentStatus = PaymentStatus.FAILED;
+        }
+      } catch (error) {
+        logger.error('[CompleteTrip] Payment capture error', { tripId, error });
+      }
+
       await publishTripStatusNotifications({
         tripId,
         status: TripStatus.COMPLETED,
@@ -199,6 +266,8 @@ export const completeTrip = onCall<unknown, Promise<CompleteTripResponse>>(
         status: result.status,
         finalPriceIls: result.finalPriceIls,
         paymentId: result.paymentId,
+        paymentMethod: result.paymentMethod,
+        paymentStatus,
       };
     } catch (error) {
       throw handleError(error);
@@ -1,6 +1,6 @@
 import { onCall } from 'firebase-functions/v2/https';
 import { z } from 'zod';
-import { TripStatus, PaymentStatus } from '@taxi-line/shared';
+import { TripStatus, PaymentStatus, normalizePaymentMethod } from '@taxi-line/shared';
 import { REGION } from '../../core/env';
 import { getFirestore } from '../../core/config';
 import { handleError, ValidationError, NotFoundError, ForbiddenError, UnauthorizedError } from '../../core/errors';
@@ -17,6 +17,9 @@ import { FieldValue } from 'firebase-admin/firestore';
  * 
  * PRECONDITION: Trip status must be COMPLETED
  * ACTION: Set paymentStatus = "paid", paidAt = serverTimestamp
+ *
+ * Card and wallet trips are charged by completeTrip; they only reach this
+ * function when the capture failed and the driver collected cash instead.
  * 
  * ============================================================================
  * QA VERIFICATION CHECKLIST:
@@ -147,12 +150,17 @@ export const confirmCashPayment = onCall<unknown, Promise<ConfirmCashPaymentResp
         paidAt: now,
       });
 
-      const fareAmount = tripData.fareAmount || tripData.estimatedPriceIls;
+      // A card capture short of the fare leaves only the rest for the driver
+      const fareAmount =
+        typeof tripData.fareShortfallIls === 'number' && tripData.fareShortfallIls > 0
+          ? tripData.fareShortfallIls
+          : tripData.fareAmount || tripData.estimatedPriceIls;
 
       // Log structured payment confirmation
-      logger.paymentConfirmed(tripId, fareAmount, tripData.paymentMethod || 'cash', {
+      logger.paymentConfirmed(tripId, fareAmount, 'cash', {
         driverId,
         passengerId: tripData.passengerId,
+        tripPaymentMethod: normalizePaymentMethod(tripData.paymentMethod) ?? 'cash',
       });
 
       logger.info(`🎉 [ConfirmCashPayment] COMPLETE`, { tripId, driverId });
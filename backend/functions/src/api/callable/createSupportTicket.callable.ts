@@ -1,18 +1,10 @@
 import { onCall } from 'firebase-functions/v2/https';
-import { z } from 'zod';
+import { CreateSupportTicketSchema } from '@taxi-line/shared';
 import { REGION } from '../../core/env';
-import { getFirestore } from '../../core/config';
 import { handleError, UnauthorizedError, ValidationError } from '../../core/errors';
 import { logger } from '../../core/logger';
 import { getAuthenticatedUserId } from '../../core/auth';
-import { FieldValue } from 'firebase-admin/firestore';
-
-const CreateSupportTicketSchema = z.object({
-  tripId: z.string().min(1).optional(),
-  category: z.enum(['trip', 'payment', 'safety', 'technical', 'other']),
-  subject: z.string().min(3).max(120),
-  message: z.string().min(5).max(2000),
-});
+import { openSupportTicket } from '../../modules/support';
 
 interface CreateSupportTicketResponse {
   success: boolean;
@@ -39,25 +31,18 @@ export const createSupportTicket = onCall<unknown, Promise<CreateSupportTicketRe
       }
 
       const { tripId, category, subject, message } = parsed.data;
-      const db = getFirestore();
-      const ticketRef = db.collection('supportTickets').doc();
-      const role = request.auth?.token?.role ?? 'unknown';
-
-      await ticketRef.set({
+      const role: unknown = request.auth?.token?.role;
+      const ticketId = await openSupportTicket({
         userId,
-        userRole: role,
+        userRole: typeof role === 'string' ? role : 'unknown',
         tripId: tripId ?? null,
         category,
         subject,
         message,
-        status: 'open',
-        source: 'mobile',
-        createdAt: FieldValue.serverTimestamp(),
-        updatedAt: FieldValue.serverTimestamp(),
       });
 
       logger.info('[Support] Ticket created', {
-        ticketId: ticketRef.id,
+        ticketId,
         userId,
         category,
         tripId: tripId ?? null,
@@ -65,7 +50,7 @@ export const createSupportTicket = onCall<unknown, Promise<CreateSupportTicketRe
 
       return {
         success: true,
-        ticketId: ticketRef.id,
+        ticketId,
         status: 'open',
       };
     } catch (error) {
@@ -5,27 +5,37 @@ import {
   BOOKING_TYPES,
   BookingType,
   LatLngSchema,
+  PAYMENT_METHOD_VALUES,
   PILOT_LIMITS,
+  PaymentMethod,
   RideOptionsSchema,
+  RouteRoadblock,
+  ScheduledRideStatus,
   TripEstimateSchema,
   TripRequestStatus,
-  TripStatus,
   VehicleType,
   getRequestedSeatsForBookingType,
   normalizeBookingType,
   normalizeRequestedSeats,
-  normalizeSeatCapacity,
   normalizeVehicleType,
 } from '@taxi-line/shared';
 import { REGION } from '../../core/env';
 import { getFirestore, areTripsEnabled } from '../../core/config';
-import { handleError, ValidationError, UnauthorizedError, NotFoundError, ForbiddenError } from '../../core/errors';
+import { handleError, ValidationError, UnauthorizedError, ForbiddenError } from '../../core/errors';
 import { logger } from '../../core/logger';
 import { getAuthenticatedUserId } from '../../core/auth';
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
-import { calculateDynamicRidePrice } from '../../modules/pricing/services';
-import { publishTripStatusNotifications } from '../../modules/notifications';
-import { evaluateDriverEligibility } from '../../modules/auth';
+import { DynamicPricingBreakdown, calculateDynamicRidePrice } from '../../modules/pricing/services';
+import { authorizeRequestPayment, voidPaymentAuthorization } from '../../modules/payments';
+import { consumePassengerPromo, findPassengerPromo, releasePassengerPromo } from '../../modules/promotions';
+import { resolveRouteRoadblocks } from '../../modules/routing';
+import {
+  ScheduledRideDocument,
+  TripRideRequirements,
+  assertScheduledRideQuota,
+  matchTripRequestToDriver,
+  validateScheduledPickupTime,
+} from '../../modules/trips';
 
 /**
  * ============================================================================
@@ -38,16 +48,29 @@ import { evaluateDriverEligibility } from '../../modules/auth';
  * 1. Validate authenticated passenger
  * 2. Validate input (pickup, dropoff, estimate)
  * 3. Check passenger has no active trips
- * 4. Create tripRequests/{requestId} with status OPEN
- * 5. Query drivers where isOnline=true AND isAvailable=true
+ * 4. Price the ride (best unlocked promo applied and consumed) and create
+ *    tripRequests/{requestId} with status OPEN. Roadblock IDs quoted by
+ *    estimateTrip are kept only if still closed/congested. Card and wallet
+ *    rides hold the pre-discount fare first (modules/payments).
+ * 5. Query drivers where isOnline=true AND isAvailable=true, limited to
+ *    geohash cells within PILOT_LIMITS.MAX_DRIVER_SEARCH_RADIUS_KM
  * 6. Compute distance from pickup using Haversine formula
- * 7. Select nearest driver
+ *    (filtering shared with re-dispatch via modules/matching)
+ * 7. Rank candidates with the line/office matching strategy, pick the best
  * 8. TRANSACTION: atomically create trip, update driver, update request
  *    - Create trips/{tripId} document
  *    - Mark driver isAvailable=false
  *    - Create driverRequests/{driverId}/{tripId} notification
  *    - Update tripRequest status to MATCHED
  * 9. Return { requestId, tripId, driverId, status }
+ *
+ * Scheduled (advance) bookings - scheduledFor set:
+ * - Pickup time must be inside the booking window (modules/trips/scheduled-rides)
+ * - Active-trip check replaced by the upcoming-bookings quota
+ * - Priced for the pickup time, not for now
+ * - tripRequest stored as SCHEDULED plus scheduledRides/{requestId}
+ * - Steps 5-8 run later in promoteScheduledRides
+ * - Returns { requestId, status: 'scheduled', scheduledFor }
  * 
  * Data Safety:
  * - If no drivers available: keeps tripRequest OPEN, returns status='searching'
@@ -89,6 +112,10 @@ const CreateTripRequestSchema = z.object({
   dropoff: LatLngSchema,
   estimate: TripEstimateSchema,
   rideOptions: RideOptionsSchema.optional(),
+  /** ISO pickup time for an advance booking; omitted = ride now */
+  scheduledFor: z.string().datetime({ offset: true }).optional(),
+  /** Card and wallet need the paymentsEnabled flag (see getPaymentMethods) */
+  paymentMethod: z.enum(PAYMENT_METHOD_VALUES).default('cash'),
 });
 
 /**
@@ -99,39 +126,8 @@ interface CreateTripRequestResponse {
   requestId: string;
   tripId?: string;
   driverId?: string;
-  status: 'matched' | 'searching';
-}
-
-/**
- * Driver document from drivers collection (availability)
- */
-interface DriverDoc {
-  driverId: string;
-  isOnline: boolean;
-  isAvailable: boolean;
-  driverType?: string;
-  verificationStatus?: string;
-  officeId?: string | null;
-  lineId?: string;
-  licenseId?: string;
-  vehicleType?: string | null;
-  seatCapacity?: number | null;
-  availableSeats?: number | null;
-  fullTaxiReserved?: boolean;
-  fullTaxiReservedTripId?: string | null;
-  lineNumber?: string | null;
-  routePath?: string | null;
-  routeName?: string | null;
-  routeCities?: unknown;
-  fullName?: string | null;
-  phone?: string | null;
-  nationalId?: string | null;
-  photoUrl?: string | null;
-  rating?: number | null;
-  tripsCount?: number | null;
-  lastLocation: FirebaseFirestore.GeoPoint | null;
-  currentTripId: string | null;
-  updatedAt: FirebaseFirestore.Timestamp;
+  status: 'matched' | 'searching' | 'scheduled';
+  scheduledFor?: string;
 }
 
 /**
@@ -156,122 +152,21 @@ interface TripRequestDocument {
     destinationLabel: string | null;
     destinationCity: string | null;
   };
-  status: 'open' | 'matched' | 'expired' | 'cancelled';
+  status: 'scheduled' | 'open' | 'matched' | 'expired' | 'cancelled';
+  pricingBreakdown: DynamicPricingBreakdown;
+  routeRoadblocks: RouteRoadblock[];
+  /** Consumed promoRedemptions entry; released if the request is cancelled */
+  promoRedemptionId: string | null;
+  paymentMethod: PaymentMethod;
+  /** Card/wallet hold; voided if the request is cancelled or expires */
+  paymentAuthorizationId: string | null;
+  scheduledFor?: FirebaseFirestore.Timestamp;
   matchedDriverId?: string;
   matchedTripId?: string;
   matchedAt?: FirebaseFirestore.FieldValue;
   createdAt: FirebaseFirestore.FieldValue;
 }
 
-/**
- * Trip document structure in Firestore
- */
-interface TripDocument {
-  tripId: string;
-  passengerId: string;
-  driverId: string;
-  status: string;
-  pickup: { lat: number; lng: number };
-  dropoff: { lat: number; lng: number };
-  estimatedDistanceKm: number;
-  estimatedDurationMin: number;
-  estimatedPriceIls: number;
-  bookingType: BookingType;
-  requestedSeats: number;
-  reservedSeats: number;
-  requiredSeats: number;
-  destinationLabel: string | null;
-  destinationCity: string | null;
-  requestedVehicleType: VehicleType | null;
-  requestedOfficeId: string | null;
-  requestedLineId: string | null;
-  matchedVehicleType: VehicleType | null;
-  matchedSeatCapacity: number;
-  matchedOfficeId: string | null;
-  matchedLineId: string | null;
-  matchedLineNumber: string | null;
-  matchedRoutePath: string | null;
-  // Payment fields
-  paymentMethod: 'cash';
-  fareAmount: number;
-  paymentStatus: 'pending' | 'paid';
-  paidAt: null;
-  createdAt: FirebaseFirestore.FieldValue;
-}
-
-/**
- * Driver request notification document
- */
-interface DriverRequestDocument {
-  tripId: string;
-  passengerId: string;
-  pickup: { lat: number; lng: number };
-  dropoff: { lat: number; lng: number };
-  estimatedDistanceKm: number;
-  estimatedDurationMin: number;
-  estimatedPriceIls: number;
-  bookingType: BookingType;
-  requestedSeats: number;
-  requiredSeats: number;
-  destinationLabel: string | null;
-  destinationCity: string | null;
-  requestedVehicleType: VehicleType | null;
-  requestedOfficeId: string | null;
-  requestedLineId: string | null;
-  driverOfficeId: string | null;
-  driverLineId: string | null;
-  driverLineNumber: string | null;
-  driverRoutePath: string | null;
-  driverVehicleType: VehicleType | null;
-  driverSeatCapacity: number;
-  driverAvailableSeats: number;
-  status: 'pending' | 'accepted' | 'rejected' | 'expired';
-  createdAt: FirebaseFirestore.FieldValue;
-  expiresAt: FirebaseFirestore.Timestamp; // Actual timestamp for timeout checking
-  timeoutSeconds: number; // For reference
-}
-
-interface RideRequirements {
-  bookingType: BookingType;
-  requestedSeats: number;
-  requiredSeats: number;
-  vehicleType: VehicleType | null;
-  officeId: string | null;
-  lineId: string | null;
-  destinationLabel: string | null;
-  destinationCity: string | null;
-}
-
-/**
- * Haversine formula - calculates distance between two lat/lng points
- * Returns distance in kilometers
- */
-function haversineDistance(
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number
-): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = toRadians(lat2 - lat1);
-  const dLng = toRadians(lng2 - lng1);
-  
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRadians(lat1)) *
-      Math.cos(toRadians(lat2)) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  
-  return R * c;
-}
-
-function toRadians(degrees: number): number {
-  return degrees * (Math.PI / 180);
-}
-
 function sanitizeId(value: unknown): string | null {
   if (typeof value !== 'string') {
     return null;
@@ -289,59 +184,6 @@ function normalizeText(value: unknown): string | null {
   return normalized.length > 0 ? normalized : null;
 }
 
-function tokenizeRouteHint(value: string | null): string[] {
-  if (!value) return [];
-  return value
-    .split(/[\s,\/\-\u2192\u2194]+/g)
-    .map((token) => token.trim().toLowerCase())
-    .filter((token) => token.length >= 3);
-}
-
-function normalizeRouteCities(value: unknown): string[] {
-  if (!Array.isArray(value)) return [];
-  return value
-    .map((item) => (typeof item === 'string' ? item.trim().toLowerCase() : ''))
-    .filter((item) => item.length >= 2);
-}
-
-function getDriverAvailableSeats(driverData: DriverDoc, seatCapacity: number): number {
-  if (typeof driverData.availableSeats === 'number' && Number.isFinite(driverData.availableSeats)) {
-    const rounded = Math.round(driverData.availableSeats);
-    return Math.max(0, Math.min(rounded, seatCapacity));
-  }
-  return seatCapacity;
-}
-
-function driverRouteMatchesDestination(
-  driverData: DriverDoc,
-  destinationLabel: string | null,
-  destinationCity: string | null
-): boolean {
-  const tokens = new Set<string>([
-    ...tokenizeRouteHint(destinationLabel),
-    ...tokenizeRouteHint(destinationCity),
-  ]);
-
-  if (tokens.size === 0) {
-    return true;
-  }
-
-  const routeBlob = [
-    normalizeText(driverData.routePath),
-    normalizeText(driverData.routeName),
-    normalizeText(driverData.lineNumber),
-    ...normalizeRouteCities(driverData.routeCities),
-  ]
-    .filter((value): value is string => Boolean(value))
-    .join(' ');
-
-  if (!routeBlob) {
-    return false;
-  }
-
-  return Array.from(tokens).some((token) => routeBlob.includes(token));
-}
-
 /**
  * Create a new trip request with driver matching
  */
@@ -352,6 +194,9 @@ export const createTripRequest = onCall<unknown, Promise<CreateTripRequestRespon
     timeoutSeconds: 30,
   },
   async (request) => {
+    let paymentAuthorizationId: string | null = null;
+    let consumedPromo: { redemptionId: string; requestId: string } | null = null;
+    let requestWritten = false;
     try {
       // ========================================
       // 0. Check kill switch (PILOT SAFETY GUARD)
@@ -382,13 +227,17 @@ export const createTripRequest = onCall<unknown, Promise<CreateTripRequestRespon
         );
       }
 
-      const { pickup, dropoff, estimate, rideOptions } = parsed.data;
+      const { pickup, dropoff, estimate, rideOptions, paymentMethod } = parsed.data;
+      const scheduledFor = parsed.data.scheduledFor ? new Date(parsed.data.scheduledFor) : null;
+      if (scheduledFor) {
+        validateScheduledPickupTime(scheduledFor);
+      }
       const bookingType = normalizeBookingType(rideOptions?.bookingType);
       const requestedSeats = getRequestedSeatsForBookingType(
         bookingType,
         normalizeRequestedSeats(rideOptions?.requiredSeats)
       );
-      const normalizedRideOptions: RideRequirements = {
+      const normalizedRideOptions: TripRideRequirements = {
         bookingType,
         requestedSeats,
         requiredSeats: bookingType === BOOKING_TYPES.SEAT_ONLY ? 1 : normalizeRequestedSeats(rideOptions?.requiredSeats),
@@ -405,6 +254,7 @@ export const createTripRequest = onCall<unknown, Promise<CreateTripRequestRespon
         dropoff: `${dropoff.lat.toFixed(4)}, ${dropoff.lng.toFixed(4)}`,
         estimatedPrice: estimate.priceIls,
         rideOptions: normalizedRideOptions,
+        ...(scheduledFor ? { scheduledFor: scheduledFor.toISOString() } : {}),
       });
 
       const db = getFirestore();
@@ -430,38 +280,78 @@ export const createTripRequest = onCall<unknown, Promise<CreateTripRequestRespon
 
       // ========================================
       // 3. Check passenger doesn't have active trip (PILOT SAFETY GUARD)
+      //    Advance bookings are capped by upcoming bookings instead
       // ========================================
-      logger.info('🔒 [CreateTrip] Checking passenger active trips...');
-      
-      const passengerActiveTripsSnapshot = await db
-        .collection('trips')
-        .where('passengerId', '==', passengerId)
-        .where('status', 'in', [...ACTIVE_TRIP_STATUSES])
-        .limit(PILOT_LIMITS.MAX_ACTIVE_TRIPS_PER_PASSENGER)
-        .get();
-
-      if (!passengerActiveTripsSnapshot.empty) {
-        logger.warn('🚫 [CreateTrip] Passenger already has active trip', {
-          passengerId,
-          activeTripId: passengerActiveTripsSnapshot.docs[0]?.id,
-        });
-        throw new ForbiddenError('You already have an active trip. Please complete or cancel it first.');
-      }
+      if (scheduledFor) {
+        await assertScheduledRideQuota(passengerId);
+      } else {
+        logger.info('🔒 [CreateTrip] Checking passenger active trips...');
+
+        const passengerActiveTripsSnapshot = await db
+          .collection('trips')
+          .where('passengerId', '==', passengerId)
+          .where('status', 'in', [...ACTIVE_TRIP_STATUSES])
+          .limit(PILOT_LIMITS.MAX_ACTIVE_TRIPS_PER_PASSENGER)
+          .get();
+
+        if (!passengerActiveTripsSnapshot.empty) {
+          logger.warn('🚫 [CreateTrip] Passenger already has active trip', {
+            passengerId,
+            activeTripId: passengerActiveTripsSnapshot.docs[0]?.id,
+          });
+          throw new ForbiddenError('You already have an active trip. Please complete or cancel it first.');
+        }
 
-      logger.info('✅ [CreateTrip] Passenger has no active trips');
+        logger.info('✅ [CreateTrip] Passenger has no active trips');
+      }
 
       // ========================================
       // 4. Create tripRequest document for passenger tracking
       // ========================================
-      const pricingResult = await calculateDynamicRidePrice({
+      const pricingInput = {
         distanceKm: estimate.distanceKm,
+        durationMin: estimate.durationMin,
         pickup,
         dropoff,
         rideOptions: normalizedRideOptions,
         officeId: requestedOfficeId,
         lineId: requestedLineId,
-      });
+        ...(scheduledFor ? { now: scheduledFor } : {}),
+      };
+      const passengerPromo = await findPassengerPromo(passengerId, { officeId: requestedOfficeId });
+      let pricingResult = await calculateDynamicRidePrice({ ...pricingInput, promo: passengerPromo });
+
+      const tripRequestRef = db.collection('tripRequests').doc();
+      const requestId = tripRequestRef.id;
+
+      // Hold the pre-discount fare: it covers the price with or without the promo
+      if (paymentMethod !== 'cash') {
+        paymentAuthorizationId = await authorizeRequestPayment({
+          requestId,
+          passengerId,
+          method: paymentMethod,
+          quotedFareIls: pricingResult.breakdown.fareBeforeDiscountIls,
+        });
+      }
+
+      // Another booking may have used the same promo meanwhile: price without it
+      const promoRedemptionId = pricingResult.breakdown.promoRedemptionId;
+      if (promoRedemptionId) {
+        if (await consumePassengerPromo(promoRedemptionId, requestId)) {
+          consumedPromo = { redemptionId: promoRedemptionId, requestId };
+        } else {
+          pricingResult = await calculateDynamicRidePrice(pricingInput);
+        }
+      }
+      if (pricingResult.breakdown.promoCode) {
+        logger.info('🏷️ [CreateTrip] Promo applied', {
+          requestId,
+          promoCode: pricingResult.breakdown.promoCode,
+          discountIls: pricingResult.breakdown.discountIls,
+        });
+      }
       const serverCalculatedPriceIls = pricingResult.priceIls;
+      const routeRoadblocks = await resolveRouteRoadblocks(estimate.roadblockIds);
       
       // Log if client price differs from server calculation
       if (serverCalculatedPriceIls !== estimate.priceIls) {
@@ -473,8 +363,11 @@ export const createTripRequest = onCall<unknown, Promise<CreateTripRequestRespon
         });
       }
 
-      const tripRequestRef = db.collection('tripRequests').doc();
-      const requestId = tripRequestRef.id;
+      const scopedRideOptions: TripRideRequirements = {
+        ...normalizedRideOptions,
+        officeId: requestedOfficeId,
+        lineId: requestedLineId,
+      };
 
       const tripRequestDoc: TripRequestDocument = {
         requestId,
@@ -484,230 +377,83 @@ export const createTripRequest = onCall<unknown, Promise<CreateTripRequestRespon
         estimatedDistanceKm: estimate.distanceKm,
         estimatedDurationMin: estimate.durationMin,
         estimatedPriceIls: serverCalculatedPriceIls,
-        rideOptions: {
-          ...normalizedRideOptions,
-          officeId: requestedOfficeId,
-          lineId: requestedLineId,
-        },
-        status: TripRequestStatus.OPEN,
+        rideOptions: scopedRideOptions,
+        status: scheduledFor ? TripRequestStatus.SCHEDULED : TripRequestStatus.OPEN,
+        pricingBreakdown: pricingResult.breakdown,
+        routeRoadblocks,
+        promoRedemptionId: pricingResult.breakdown.promoRedemptionId,
+        paymentMethod,
+        paymentAuthorizationId,
+        ...(scheduledFor ? { scheduledFor: Timestamp.fromDate(scheduledFor) } : {}),
         createdAt: FieldValue.serverTimestamp(),
       };
 
-      await tripRequestRef.set(tripRequestDoc);
-      logger.info('📋 [CreateTrip] Trip request created', { requestId });
-
-      // ========================================
-      // 5. Query drivers where isOnline=true AND isAvailable=true
-      // ========================================
-      logger.info('🔍 [CreateTrip] Querying available drivers...');
-      
-      let driversQuery: FirebaseFirestore.Query = db
-        .collection('drivers')
-        .where('isOnline', '==', true)
-        .where('isAvailable', '==', true);
-
-      if (requestedLineId) {
-        driversQuery = driversQuery.where('lineId', '==', requestedLineId);
-      } else if (requestedOfficeId) {
-        driversQuery = driversQuery.where('officeId', '==', requestedOfficeId);
-      }
+      if (scheduledFor) {
+        // ========================================
+        // 4b. Advance booking: park it for promoteScheduledRides
+        // ========================================
+        const scheduledRideDoc: ScheduledRideDocument = {
+          scheduledRideId: requestId,
+          requestId,
+          passengerId,
+          pickup: { lat: pickup.lat, lng: pickup.lng },
+          dropoff: { lat: dropoff.lat, lng: dropoff.lng },
+          estimatedDistanceKm: estimate.distanceKm,
+          estimatedDurationMin: estimate.durationMin,
+          estimatedPriceIls: serverCalculatedPriceIls,
+          pricingProfileId: pricingResult.breakdown.profileId,
+          pricingBreakdown: pricingResult.breakdown,
+          rideOptions: scopedRideOptions,
+          paymentMethod,
+          paymentAuthorizationId,
+          scheduledFor: Timestamp.fromDate(scheduledFor),
+          status: ScheduledRideStatus.SCHEDULED,
+          dispatchAttempts: 0,
+          createdAt: FieldValue.serverTimestamp(),
+        };
 
-      const driversSnapshot = await driversQuery.get();
+        const batch = db.batch();
+        batch.set(tripRequestRef, tripRequestDoc);
+        batch.set(db.collection('scheduledRides').doc(requestId), scheduledRideDoc);
+        await batch.commit();
+        requestWritten = true;
 
-      if (driversSnapshot.empty) {
-        logger.warn('🚫 [CreateTrip] No available drivers - keeping request open');
-        logger.dispatchFailed(requestId, 'No available drivers', {
-          passengerId,
-          requestedOfficeId,
-          requestedLineId,
-          rideOptions: normalizedRideOptions,
+        logger.info('📅 [CreateTrip] Scheduled ride booked', {
+          requestId,
+          scheduledFor: scheduledFor.toISOString(),
         });
-        
-        // Return with searching status - passenger can wait for drivers
+
         return {
           requestId,
-          status: 'searching' as const,
+          status: 'scheduled' as const,
+          scheduledFor: scheduledFor.toISOString(),
         };
       }
 
-      logger.info(`🚗 [CreateTrip] Found ${driversSnapshot.size} available driver(s)`);
+      await tripRequestRef.set(tripRequestDoc);
+      requestWritten = true;
+      logger.info('📋 [CreateTrip] Trip request created', { requestId });
 
       // ========================================
-      // 4. Compute distance using Haversine formula
+      // 5-8. Find, rank and offer to the best driver (modules/trips)
       // ========================================
-      let skippedIneligibleDrivers = 0;
-      let skippedVehicleTypeDrivers = 0;
-      let skippedCapacityDrivers = 0;
-      let skippedScopeDrivers = 0;
-      const driversWithDistance: Array<{
-        driverId: string;
-        distance: number;
-        vehicleType: VehicleType | null;
-        seatCapacity: number;
-        availableSeats: number;
-        doc: DriverDoc;
-      }> = [];
-
-      driversSnapshot.forEach((doc) => {
-        const driverData = doc.data() as DriverDoc;
-        const eligibility = evaluateDriverEligibility(driverData);
-        if (!eligibility.isEligible) {
-          skippedIneligibleDrivers += 1;
-          logger.debug(`Driver ${doc.id}: Ineligible - skipping`, {
-            reasons: eligibility.reasons,
-            driverType: eligibility.driverType,
-            verificationStatus: eligibility.verificationStatus,
-            lineId: eligibility.lineId,
-            licenseId: eligibility.licenseId,
-          });
-          return;
-        }
-
-        const driverOfficeId = sanitizeId(driverData.officeId);
-        const driverLineId = sanitizeId(driverData.lineId);
-        if (requestedLineId && driverLineId !== requestedLineId) {
-          skippedScopeDrivers += 1;
-          logger.debug(`Driver ${doc.id}: Line scope mismatch - skipping`, {
-            requestedLineId,
-            driverLineId,
-          });
-          return;
-        }
-
-        if (requestedOfficeId && driverOfficeId !== requestedOfficeId) {
-          skippedScopeDrivers += 1;
-          logger.debug(`Driver ${doc.id}: Office scope mismatch - skipping`, {
-            requestedOfficeId,
-            driverOfficeId,
-          });
-          return;
-        }
-        
-        // Skip drivers without location data
-        if (!driverData.lastLocation) {
-          logger.debug(`Driver ${doc.id}: No location data - skipping`);
-          return;
-        }
-
-        const normalizedDriverVehicleType = normalizeVehicleType(driverData.vehicleType);
-        const normalizedDriverSeatCapacity = normalizeSeatCapacity(
-          driverData.seatCapacity,
-          normalizedDriverVehicleType
-        );
-        const normalizedDriverAvailableSeats = getDriverAvailableSeats(
-          driverData,
-          normalizedDriverSeatCapacity
-        );
-
-        if (
-          normalizedRideOptions.vehicleType &&
-          normalizedDriverVehicleType !== normalizedRideOptions.vehicleType
-        ) {
-          skippedVehicleTypeDrivers += 1;
-          logger.debug(`Driver ${doc.id}: Vehicle type mismatch - skipping`, {
-            requiredVehicleType: normalizedRideOptions.vehicleType,
-            driverVehicleType: normalizedDriverVehicleType,
-          });
-          return;
-        }
-
-        if (driverData.fullTaxiReserved === true) {
-          skippedCapacityDrivers += 1;
-          logger.debug(`Driver ${doc.id}: Full taxi reserved - skipping`, {
-            fullTaxiReservedTripId: driverData.fullTaxiReservedTripId ?? null,
-          });
-          return;
-        }
-
-        if (normalizedDriverAvailableSeats <= 0) {
-          skippedCapacityDrivers += 1;
-          logger.debug(`Driver ${doc.id}: No available seats - skipping`, {
-            driverAvailableSeats: normalizedDriverAvailableSeats,
-          });
-          return;
-        }
-
-        if (
-          normalizedRideOptions.bookingType === BOOKING_TYPES.SEAT_ONLY &&
-          normalizedDriverAvailableSeats < normalizedRideOptions.requiredSeats
-        ) {
-          skippedCapacityDrivers += 1;
-          logger.debug(`Driver ${doc.id}: Not enough seats - skipping`, {
-            requiredSeats: normalizedRideOptions.requiredSeats,
-            driverAvailableSeats: normalizedDriverAvailableSeats,
-          });
-          return;
-        }
-
-        if (
-          !requestedLineId &&
-          !driverRouteMatchesDestination(
-            driverData,
-            normalizedRideOptions.destinationLabel,
-            normalizedRideOptions.destinationCity
-          )
-        ) {
-          skippedScopeDrivers += 1;
-          logger.debug(`Driver ${doc.id}: Route mismatch - skipping`, {
-            destinationLabel: normalizedRideOptions.destinationLabel,
-            destinationCity: normalizedRideOptions.destinationCity,
-            routePath: driverData.routePath ?? null,
-            routeName: driverData.routeName ?? null,
-            routeCities: normalizeRouteCities(driverData.routeCities),
-          });
-          return;
-        }
-
-        const distance = haversineDistance(
-          pickup.lat,
-          pickup.lng,
-          driverData.lastLocation.latitude,
-          driverData.lastLocation.longitude
-        );
-
-        driversWithDistance.push({
-          driverId: doc.id,
-          distance,
-          vehicleType: normalizedDriverVehicleType,
-          seatCapacity: normalizedDriverSeatCapacity,
-          availableSeats: normalizedDriverAvailableSeats,
-          doc: driverData,
-        });
-
-        logger.debug(`Driver ${doc.id}: ${distance.toFixed(2)} km away`);
+      const dispatchResult = await matchTripRequestToDriver({
+        requestId,
+        passengerId,
+        pickup,
+        dropoff,
+        estimate,
+        priceIls: serverCalculatedPriceIls,
+        pricingProfileId: pricingResult.breakdown.profileId,
+        pricingBreakdown: pricingResult.breakdown,
+        routeRoadblocks,
+        rideOptions: scopedRideOptions,
+        paymentMethod,
+        paymentAuthorizationId,
+        logTag: '[CreateTrip]',
       });
-      
-      if (skippedIneligibleDrivers > 0) {
-        logger.info('🚫 [CreateTrip] Skipped ineligible drivers', {
-          skippedIneligibleDrivers,
-        });
-      }
-
-      // ========================================
-      // 6. Select nearest driver
-      // ========================================
-      if (skippedVehicleTypeDrivers > 0 || skippedCapacityDrivers > 0 || skippedScopeDrivers > 0) {
-        logger.info('[CreateTrip] Skipped drivers by ride options', {
-          skippedVehicleTypeDrivers,
-          skippedCapacityDrivers,
-          skippedScopeDrivers,
-          rideOptions: normalizedRideOptions,
-        });
-      }
 
-      if (driversWithDistance.length === 0) {
-        logger.dispatchFailed(requestId, 'No eligible drivers with location data', {
-          passengerId,
-          driversQueried: driversSnapshot.size,
-          skippedIneligibleDrivers,
-          skippedVehicleTypeDrivers,
-          skippedCapacityDrivers,
-          skippedScopeDrivers,
-          rideOptions: normalizedRideOptions,
-          requestedOfficeId,
-          requestedLineId,
-        });
-        
+      if (dispatchResult.status === 'searching') {
         // Return with searching status - passenger can wait for drivers
         return {
           requestId,
@@ -715,304 +461,37 @@ export const createTripRequest = onCall<unknown, Promise<CreateTripRequestRespon
         };
       }
 
-      driversWithDistance.sort((a, b) => a.distance - b.distance);
-      const nearestDriver = driversWithDistance[0]!;
-
-      logger.info(`✅ [CreateTrip] Selected driver: ${nearestDriver.driverId}`, {
-        distance: `${nearestDriver.distance.toFixed(2)} km`,
-        totalCandidates: driversWithDistance.length,
-      });
-
-      // ========================================
-      // 7. TRANSACTION: Create trip & assign driver atomically
-      // ========================================
-      const tripRef = db.collection('trips').doc();
-      const tripId = tripRef.id;
-      const driverDocRef = db.collection('drivers').doc(nearestDriver.driverId);
-      const driverRequestRef = db
-        .collection('driverRequests')
-        .doc(nearestDriver.driverId)
-        .collection('requests')
-        .doc(tripId);
-      let matchedVehicleType: VehicleType | null = nearestDriver.vehicleType;
-      let matchedSeatCapacity = nearestDriver.seatCapacity;
-      let matchedOfficeId: string | null = sanitizeId(nearestDriver.doc.officeId);
-      let matchedLineId: string | null = sanitizeId(nearestDriver.doc.lineId);
-
-      await db.runTransaction(async (transaction) => {
-        // Re-verify driver is still available (prevent race condition)
-        const driverDoc = await transaction.get(driverDocRef);
-        if (!driverDoc.exists) {
-          throw new NotFoundError('Driver not found');
-        }
-        
-        const driverData = driverDoc.data() as DriverDoc;
-        if (!driverData.isOnline || !driverData.isAvailable) {
-          logger.warn('🚫 [CreateTrip] Driver no longer available in transaction', {
-            driverId: nearestDriver.driverId,
-            isOnline: driverData.isOnline,
-            isAvailable: driverData.isAvailable,
-          });
-          throw new NotFoundError('Driver no longer available');
-        }
-
-        const eligibility = evaluateDriverEligibility(driverData);
-        if (!eligibility.isEligible) {
-          logger.warn('🚫 [CreateTrip] Driver no longer eligible in transaction', {
-            driverId: nearestDriver.driverId,
-            reasons: eligibility.reasons,
-            driverType: eligibility.driverType,
-            verificationStatus: eligibility.verificationStatus,
-            lineId: eligibility.lineId,
-            licenseId: eligibility.licenseId,
-          });
-          throw new NotFoundError('Driver no longer eligible');
-        }
-
-        const transactionDriverOfficeId = sanitizeId(driverData.officeId);
-        const transactionDriverLineId = sanitizeId(driverData.lineId);
-        if (requestedLineId && transactionDriverLineId !== requestedLineId) {
-          logger.warn('[CreateTrip] Driver no longer matches requested line scope', {
-            driverId: nearestDriver.driverId,
-            requestedLineId,
-            driverLineId: transactionDriverLineId,
-          });
-          throw new NotFoundError('Driver no longer matches requested line');
-        }
-
-        if (requestedOfficeId && transactionDriverOfficeId !== requestedOfficeId) {
-          logger.warn('[CreateTrip] Driver no longer matches requested office scope', {
-            driverId: nearestDriver.driverId,
-            requestedOfficeId,
-            driverOfficeId: transactionDriverOfficeId,
-          });
-          throw new NotFoundError('Driver no longer matches requested office');
-        }
-
-        const transactionDriverVehicleType = normalizeVehicleType(driverData.vehicleType);
-        const transactionDriverSeatCapacity = normalizeSeatCapacity(
-          driverData.seatCapacity,
-          transactionDriverVehicleType
-        );
-        const transactionDriverAvailableSeats = getDriverAvailableSeats(
-          driverData,
-          transactionDriverSeatCapacity
-        );
-
-        if (
-          normalizedRideOptions.vehicleType &&
-          transactionDriverVehicleType !== normalizedRideOptions.vehicleType
-        ) {
-          logger.warn('[CreateTrip] Driver no longer matches requested vehicle type', {
-            driverId: nearestDriver.driverId,
-            requestedVehicleType: normalizedRideOptions.vehicleType,
-            driverVehicleType: transactionDriverVehicleType,
-          });
-          throw new NotFoundError('Driver no longer matches requested vehicle type');
-        }
-
-        if (driverData.fullTaxiReserved === true) {
-          logger.warn('[CreateTrip] Driver has full taxi reservation', {
-            driverId: nearestDriver.driverId,
-            fullTaxiReservedTripId: driverData.fullTaxiReservedTripId ?? null,
-          });
-          throw new NotFoundError('Driver no longer available');
-        }
-
-        if (transactionDriverAvailableSeats <= 0) {
-          logger.warn('[CreateTrip] Driver has no available seats', {
-            driverId: nearestDriver.driverId,
-          });
-          throw new NotFoundError('Driver no longer has seats');
-        }
-
-        if (
-          normalizedRideOptions.bookingType === BOOKING_TYPES.SEAT_ONLY &&
-          transactionDriverAvailableSeats < normalizedRideOptions.requiredSeats
-        ) {
-          logger.warn('[CreateTrip] Driver no longer matches required seats', {
-            driverId: nearestDriver.driverId,
-            requestedSeats: normalizedRideOptions.requiredSeats,
-            driverAvailableSeats: transactionDriverAvailableSeats,
-          });
-          throw new NotFoundError('Driver no longer matches required seats');
-        }
-
-        if (
-          !requestedLineId &&
-          !driverRouteMatchesDestination(
-            driverData,
-            normalizedRideOptions.destinationLabel,
-            normalizedRideOptions.destinationCity
-          )
-        ) {
-          logger.warn('[CreateTrip] Driver no longer matches route destination', {
-            driverId: nearestDriver.driverId,
-            destinationLabel: normalizedRideOptions.destinationLabel,
-            destinationCity: normalizedRideOptions.destinationCity,
-          });
-          throw new NotFoundError('Driver no longer matches route');
-        }
-
-        matchedVehicleType = transactionDriverVehicleType;
-        matchedSeatCapacity = transactionDriverSeatCapacity;
-        matchedOfficeId = transactionDriverOfficeId;
-        matchedLineId = transactionDriverLineId;
-
-        // Create trip document
-        const tripDoc: TripDocument = {
-          tripId,
-          passengerId,
-          driverId: nearestDriver.driverId,
-          status: TripStatus.PENDING,
-          pickup: { lat: pickup.lat, lng: pickup.lng },
-          dropoff: { lat: dropoff.lat, lng: dropoff.lng },
-          estimatedDistanceKm: estimate.distanceKm,
-          estimatedDurationMin: estimate.durationMin,
-          estimatedPriceIls: serverCalculatedPriceIls,
-          bookingType: normalizedRideOptions.bookingType,
-          requestedSeats: normalizedRideOptions.requestedSeats,
-          reservedSeats: 0,
-          requiredSeats: normalizedRideOptions.requiredSeats,
-          destinationLabel: normalizedRideOptions.destinationLabel,
-          destinationCity: normalizedRideOptions.destinationCity,
-          requestedVehicleType: normalizedRideOptions.vehicleType,
-          requestedOfficeId,
-          requestedLineId,
-          matchedVehicleType: transactionDriverVehicleType,
-          matchedSeatCapacity: transactionDriverSeatCapacity,
-          matchedOfficeId: transactionDriverOfficeId,
-          matchedLineId: transactionDriverLineId,
-          matchedLineNumber: sanitizeId(driverData.lineNumber),
-          matchedRoutePath: sanitizeId(driverData.routePath) ?? sanitizeId(driverData.routeName),
-          paymentMethod: 'cash',
-          fareAmount: serverCalculatedPriceIls,
-          paymentStatus: 'pending',
-          paidAt: null,
-          createdAt: FieldValue.serverTimestamp(),
-        };
-        transaction.set(tripRef, tripDoc);
-
-        // Create driver request notification
-        const expiresAt = Timestamp.fromMillis(
-          Date.now() + PILOT_LIMITS.DRIVER_RESPONSE_TIMEOUT_SECONDS * 1000
-        );
-
-        const driverRequestDoc: DriverRequestDocument = {
-          tripId,
-          passengerId,
-          pickup: { lat: pickup.lat, lng: pickup.lng },
-          dropoff: { lat: dropoff.lat, lng: dropoff.lng },
-          estimatedDistanceKm: estimate.distanceKm,
-          estimatedDurationMin: estimate.durationMin,
-          estimatedPriceIls: serverCalculatedPriceIls,
-          bookingType: normalizedRideOptions.bookingType,
-          requestedSeats: normalizedRideOptions.requestedSeats,
-          requiredSeats: normalizedRideOptions.requiredSeats,
-          destinationLabel: normalizedRideOptions.destinationLabel,
-          destinationCity: normalizedRideOptions.destinationCity,
-          requestedVehicleType: normalizedRideOptions.vehicleType,
-          requestedOfficeId,
-          requestedLineId,
-          driverOfficeId: transactionDriverOfficeId,
-          driverLineId: transactionDriverLineId,
-          driverLineNumber: sanitizeId(driverData.lineNumber),
-          driverRoutePath: sanitizeId(driverData.routePath) ?? sanitizeId(driverData.routeName),
-          driverVehicleType: transactionDriverVehicleType,
-          driverSeatCapacity: transactionDriverSeatCapacity,
-          driverAvailableSeats: transactionDriverAvailableSeats,
-          status: 'pending',
-          createdAt: FieldValue.serverTimestamp(),
-          expiresAt,
-          timeoutSeconds: PILOT_LIMITS.DRIVER_RESPONSE_TIMEOUT_SECONDS,
-        };
-        transaction.set(driverRequestRef, driverRequestDoc);
-
-        // Lock driver availability while this request is pending to avoid
-        // dispatching concurrent requests to the same driver.
-        transaction.set(
-          driverDocRef,
-          {
-            isAvailable: false,
-            availability: 'busy',
-            currentTripId: tripId,
-            updatedAt: FieldValue.serverTimestamp(),
-          },
-          { merge: true }
-        );
-
-        // Update tripRequest to MATCHED
-        transaction.update(tripRequestRef, {
-          status: TripRequestStatus.MATCHED,
-          matchedDriverId: nearestDriver.driverId,
-          matchedTripId: tripId,
-          matchedVehicleType: transactionDriverVehicleType,
-          matchedSeatCapacity: transactionDriverSeatCapacity,
-          matchedOfficeId: transactionDriverOfficeId,
-          matchedLineId: transactionDriverLineId,
-          requestedSeats: normalizedRideOptions.requestedSeats,
-          bookingType: normalizedRideOptions.bookingType,
-          matchedAt: FieldValue.serverTimestamp(),
-        });
-      });
-
-      logger.info(`📝 [CreateTrip] Trip created: ${tripId}`);
-      logger.info(`🚗 [CreateTrip] Driver isAvailable → false`);
-      logger.info(`📨 [CreateTrip] Request sent to driver: ${nearestDriver.driverId}`);
-
-      await publishTripStatusNotifications({
-        tripId,
-        status: TripStatus.PENDING,
-        recipients: [
-          {
-            userId: nearestDriver.driverId,
-            role: 'driver',
-          },
-        ],
-        metadata: {
-          passengerId,
-        },
-      });
-      
-      // Log trip lifecycle event
-      logger.tripEvent('TRIP_CREATED', tripId, {
-        passengerId,
-        driverId: nearestDriver.driverId,
-        estimatedPriceIls: serverCalculatedPriceIls,
-        distanceKm: estimate.distanceKm,
-        requiredSeats: normalizedRideOptions.requiredSeats,
-        requestedSeats: normalizedRideOptions.requestedSeats,
-        bookingType: normalizedRideOptions.bookingType,
-        requestedVehicleType: normalizedRideOptions.vehicleType,
-        destinationLabel: normalizedRideOptions.destinationLabel,
-        destinationCity: normalizedRideOptions.destinationCity,
-        requestedOfficeId,
-        requestedLineId,
-        matchedVehicleType,
-        matchedSeatCapacity,
-        matchedOfficeId,
-        matchedLineId,
-        pricingProfileId: pricingResult.breakdown.profileId,
-      });
-
       // ========================================
-      // 8. Return requestId with matched status
+      // 9. Return requestId with matched status
       // ========================================
       logger.info('🎉 [CreateTrip] COMPLETE', {
         requestId,
-        tripId,
-        driverId: nearestDriver.driverId,
-        distance: `${nearestDriver.distance.toFixed(2)} km`,
+        tripId: dispatchResult.tripId,
+        driverId: dispatchResult.driverId,
+        distance: `${dispatchResult.distanceKm.toFixed(2)} km`,
       });
 
       return {
         requestId,
-        tripId,
-        driverId: nearestDriver.driverId,
+        tripId: dispatchResult.tripId,
+        driverId: dispatchResult.driverId,
         status: 'matched' as const,
       };
     } catch (error) {
       logger.error('❌ [CreateTrip] FAILED', { error });
+      // No request to cancel later: release the hold now
+      if (paymentAuthorizationId && !requestWritten) {
+        await voidPaymentAuthorization(paymentAuthorizationId, 'request_not_created').catch((voidError: unknown) => {
+          logger.error('❌ [CreateTrip] Failed to void payment hold', { paymentAuthorizationId, voidError });
+        });
+      }
+      // Same for a promo consumed for a request that was never written
+      if (consumedPromo && !requestWritten) {
+        const { redemptionId, requestId } = consumedPromo;
+        await releasePassengerPromo(redemptionId, requestId).catch((releaseError: unknown) => {
+          logger.error('❌ [CreateTrip] Failed to release promo', { redemptionId, requestId, releaseError });
+        });
+      }
       throw handleError(error);
     }
   }
@@ -1,12 +1,26 @@
 import { onCall } from 'firebase-functions/v2/https';
 import { z } from 'zod';
-import { TripRequestStatus } from '@taxi-line/shared';
+import {
+  LatLng,
+  TripRequestStatus,
+  normalizeBookingType,
+  normalizeRequestedSeats,
+  normalizeVehicleType,
+} from '@taxi-line/shared';
 import { REGION } from '../../core/env';
 import { getFirestore } from '../../core/config';
 import { handleError, ValidationError, NotFoundError, ForbiddenError } from '../../core/errors';
 import { logger } from '../../core/logger';
 import { FieldValue } from 'firebase-admin/firestore';
-import { evaluateDriverEligibility } from '../../modules/auth';
+import {
+  DispatchRequirements,
+  findDriverCandidates,
+  rankCandidates,
+  resolveMatchingStrategy,
+} from '../../modules/matching';
+
+/** Upper bound on inbox fan-out per request */
+const MAX_BROADCAST_DRIVERS = 50;
 
 function sanitizeId(value: unknown): string | null {
   if (typeof value !== 'string') return null;
@@ -40,6 +54,9 @@ interface InboxDocument {
   estimatedDistanceKm: number;
   estimatedDurationMin: number;
   estimatedPriceIls: number;
+  /** 1-based position in the matching strategy ranking */
+  rank: number;
+  distanceKm: number;
   createdAt: FirebaseFirestore.FieldValue;
 }
 
@@ -48,12 +65,10 @@ interface InboxDocument {
  *
  * This function:
  * 1. Fetches the trip request and validates it's OPEN
- * 2. Queries for online drivers (simple query, no geo filtering yet)
- * 3. Creates inbox documents for each driver
- * 4. Does NOT change the request status yet
- *
- * In v1, this is a simple broadcast to all online drivers.
- * Geo-filtering will be added in v2.
+ * 2. Finds available drivers with the shared matching filters
+ * 3. Ranks them with the line/office matching strategy
+ * 4. Creates inbox documents for the top-ranked drivers
+ * 5. Does NOT change the request status yet
  */
 export const dispatchTripRequest = onCall<unknown, Promise<DispatchTripRequestResponse>>(
   {
@@ -87,8 +102,9 @@ export const dispatchTripRequest = onCall<unknown, Promise<DispatchTripRequestRe
       }
 
       const requestData = requestDoc.data()!;
-      const requestedOfficeId = sanitizeId(requestData.rideOptions?.officeId);
-      const requestedLineId = sanitizeId(requestData.rideOptions?.lineId);
+      const rideOptions = (requestData.rideOptions ?? {}) as Record<string, unknown>;
+      const requestedOfficeId = sanitizeId(rideOptions.officeId);
+      const requestedLineId = sanitizeId(rideOptions.lineId);
 
       // Ensure status is OPEN
       if (requestData.status !== TripRequestStatus.OPEN) {
@@ -97,58 +113,49 @@ export const dispatchTripRequest = onCall<unknown, Promise<DispatchTripRequestRe
         );
       }
 
-      // Query for online drivers with scope-aware matching.
-      let driversQuery: FirebaseFirestore.Query = db
-        .collection('drivers')
-        .where('isOnline', '==', true);
-      if (requestedLineId) {
-        driversQuery = driversQuery.where('lineId', '==', requestedLineId);
-      } else if (requestedOfficeId) {
-        driversQuery = driversQuery.where('officeId', '==', requestedOfficeId);
-      }
-
-      const driversSnapshot = await driversQuery
-        .limit(50) // Limit to prevent overwhelming the system
-        .get();
+      const requirements: DispatchRequirements = {
+        bookingType: normalizeBookingType(rideOptions.bookingType),
+        requiredSeats: normalizeRequestedSeats(
+          typeof rideOptions.requiredSeats === 'number' ? rideOptions.requiredSeats : undefined
+        ),
+        vehicleType: normalizeVehicleType(rideOptions.vehicleType),
+        officeId: requestedOfficeId,
+        lineId: requestedLineId,
+        destinationLabel: sanitizeId(rideOptions.destinationLabel),
+        destinationCity: sanitizeId(rideOptions.destinationCity),
+      };
+      const pickup = requestData.pickup as LatLng;
+
+      // Same filtering and ordering as createTripRequest
+      const { candidates, driversQueried, skipped } = await findDriverCandidates({
+        pickup,
+        dropoff: (requestData.dropoff as LatLng | undefined) ?? null,
+        requirements,
+        logTag: '[Dispatch]',
+      });
 
-      if (driversSnapshot.empty) {
+      if (driversQueried === 0) {
         logger.warn('No online drivers found for dispatch', { requestId });
         return { dispatchedTo: 0, driverIds: [] };
       }
 
+      const matching = await resolveMatchingStrategy({
+        officeId: requestedOfficeId,
+        lineId: requestedLineId,
+      });
+      const rankedCandidates = await rankCandidates({
+        candidates,
+        pickup,
+        strategy: matching.strategy,
+        logTag: '[Dispatch]',
+      });
+
       const driverIds: string[] = [];
       const batch = db.batch();
-      let skippedIneligibleDrivers = 0;
-      let skippedScopeDrivers = 0;
-
-      // Create inbox document for each driver
-      for (const driverDoc of driversSnapshot.docs) {
-        const driverId = driverDoc.id;
-        const eligibility = evaluateDriverEligibility(driverDoc.data());
-        if (!eligibility.isEligible) {
-          skippedIneligibleDrivers += 1;
-          logger.debug('Skipping ineligible driver in dispatch', {
-            driverId,
-            reasons: eligibility.reasons,
-            driverType: eligibility.driverType,
-            verificationStatus: eligibility.verificationStatus,
-            lineId: eligibility.lineId,
-            licenseId: eligibility.licenseId,
-          });
-          continue;
-        }
-
-        const driverOfficeId = sanitizeId(driverDoc.data().officeId);
-        const driverLineId = sanitizeId(driverDoc.data().lineId);
-        if (requestedLineId && driverLineId !== requestedLineId) {
-          skippedScopeDrivers += 1;
-          continue;
-        }
-        if (requestedOfficeId && driverOfficeId !== requestedOfficeId) {
-          skippedScopeDrivers += 1;
-          continue;
-        }
 
+      // Create inbox document for each driver, best ranked first
+      rankedCandidates.slice(0, MAX_BROADCAST_DRIVERS).forEach((candidate, index) => {
+        const driverId = candidate.driverId;
         driverIds.push(driverId);
 
         const inboxRef = db
@@ -165,17 +172,19 @@ export const dispatchTripRequest = onCall<unknown, Promise<DispatchTripRequestRe
           estimatedDistanceKm: requestData.estimatedDistanceKm,
           estimatedDurationMin: requestData.estimatedDurationMin,
           estimatedPriceIls: requestData.estimatedPriceIls,
+          rank: index + 1,
+          distanceKm: Math.round(candidate.distanceKm * 100) / 100,
           createdAt: FieldValue.serverTimestamp(),
         };
 
         batch.set(inboxRef, inboxDoc);
-      }
+      });
 
       if (driverIds.length === 0) {
         logger.warn('No eligible drivers found for dispatch', {
           requestId,
-          skippedIneligibleDrivers,
-          skippedScopeDrivers,
+          driversQueried,
+          skipped,
           requestedOfficeId,
           requestedLineId,
         });
@@ -189,8 +198,9 @@ export const dispatchTripRequest = onCall<unknown, Promise<DispatchTripRequestRe
         requestId,
         dispatchedTo: driverIds.length,
         driverIds,
-        skippedIneligibleDrivers,
-        skippedScopeDrivers,
+        matchingStrategy: matching.strategy,
+        matchingStrategySource: matching.source,
+        skipped,
         requestedOfficeId,
         requestedLineId,
       });
@@ -2,7 +2,7 @@ import { onCall } from 'firebase-functions/v2/https';
 import { z } from 'zod';
 import { TripStatus } from '@taxi-line/shared';
 import { REGION } from '../../core/env';
-import { getFirestore } from '../../core/config';
+import { getFirestore, getSystemConfig } from '../../core/config';
 import { handleError, ValidationError, NotFoundError, ForbiddenError, UnauthorizedError } from '../../core/errors';
 import { logger } from '../../core/logger';
 import { getAuthenticatedUserId } from '../../core/auth';
@@ -19,6 +19,9 @@ import { assertDriverIsLicensedLineOwner } from '../../modules/auth';
  * 
  * FLOW: ACCEPTED → DRIVER_ARRIVED
  * 
+ * Starts the pickup wait timer: the wait time policy and the no-show
+ * threshold in force now are copied onto the trip (see wait-time.config.ts).
+ * 
  * ============================================================================
  * QA VERIFICATION CHECKLIST:
  * ============================================================================
@@ -91,6 +94,7 @@ export const driverArrived = onCall<unknown, Promise<DriverArrivedResponse>>(
 
       const db = getFirestore();
       const tripRef = db.collection('trips').doc(tripId);
+      const { waitTimePolicy, cancellationPolicy } = await getSystemConfig();
       let passengerIdForNotify = '';
 
       // Use transaction to prevent race conditions
@@ -125,6 +129,8 @@ export const driverArrived = onCall<unknown, Promise<DriverArrivedResponse>>(
         transaction.update(tripRef, {
           status: TripStatus.DRIVER_ARRIVED,
           arrivedAt: FieldValue.serverTimestamp(),
+          waitTimePolicy,
+          noShowWaitSeconds: cancellationPolicy.noShowWaitSeconds,
           updatedAt: FieldValue.serverTimestamp(),
         });
 
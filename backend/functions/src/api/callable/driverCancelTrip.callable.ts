@@ -7,6 +7,7 @@ import { getFirestore } from '../../core/config';
 import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError, handleError } from '../../core/errors';
 import { REGION } from '../../core/env';
 import { logger } from '../../core/logger';
+import { getRemainingActiveTripIds, isDriverAvailableForDispatch } from '../../modules/matching';
 import { publishTripStatusNotifications } from '../../modules/notifications';
 
 const CancelTripSchema = z.object({
@@ -19,7 +20,7 @@ interface CancelTripResponse {
   cancelled: boolean;
 }
 
-const DRIVER_CANCELLABLE_STATUSES: string[] = [TripStatus.PENDING, TripStatus.ACCEPTED];
+const DRIVER_CANCELLABLE_STATUSES: string[] = [TripStatus.PENDING, TripStatus.ACCEPTED, TripStatus.DRIVER_ARRIVED];
 
 export const driverCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
   {
@@ -64,7 +65,15 @@ export const driverCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
         }
 
         const driverRef = db.collection('drivers').doc(driverId);
-        const driverDoc = await transaction.get(driverRef);
+        const driverRequestRef = db
+          .collection('driverRequests')
+          .doc(driverId)
+          .collection('requests')
+          .doc(tripId);
+        const [driverDoc, driverRequestDoc] = await Promise.all([
+          transaction.get(driverRef),
+          transaction.get(driverRequestRef),
+        ]);
         const driverData = (driverDoc.data() ?? {}) as Record<string, unknown>;
 
         const seatCapacity = normalizeSeatCapacity(driverData.seatCapacity, driverData.vehicleType as any);
@@ -85,6 +94,7 @@ export const driverCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
         const reservedSeats = Math.max(0, reservedSeatsRaw);
         const nextAvailableSeats = Math.max(0, Math.min(seatCapacity, availableSeats + reservedSeats));
         const isOnline = driverData.isOnline === true;
+        const activeTripIds = getRemainingActiveTripIds(driverData, tripId);
 
         transaction.update(tripRef, {
           status: TripStatus.CANCELLED_BY_DRIVER,
@@ -96,11 +106,15 @@ export const driverCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
           driverRef,
           {
             availableSeats: nextAvailableSeats,
-            isAvailable: isOnline && nextAvailableSeats > 0,
-            currentTripId:
-              typeof driverData.currentTripId === 'string' && driverData.currentTripId === tripId
-                ? null
-                : driverData.currentTripId ?? null,
+            isAvailable: isDriverAvailableForDispatch({
+              isOnline,
+              availableSeats: nextAvailableSeats,
+              fullTaxiReserved:
+                bookingType !== BOOKING_TYPES.FULL_TAXI && driverData.fullTaxiReserved === true,
+              activeTripCount: activeTripIds.length,
+            }),
+            activeTripIds,
+            currentTripId: activeTripIds[0] ?? null,
             ...(bookingType === BOOKING_TYPES.FULL_TAXI
               ? {
                   fullTaxiReserved: false,
@@ -115,12 +129,6 @@ export const driverCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
           { merge: true }
         );
 
-        const driverRequestRef = db
-          .collection('driverRequests')
-          .doc(driverId)
-          .collection('requests')
-          .doc(tripId);
-        const driverRequestDoc = await transaction.get(driverRequestRef);
         if (driverRequestDoc.exists) {
           transaction.update(driverRequestRef, {
             status: 'cancelled',
@@ -0,0 +1,229 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import {
+  BOOKING_TYPES,
+  CancellationFeeQuote,
+  TripStatus,
+  normalizeSeatCapacity,
+  normalizeVehicleType,
+} from '@taxi-line/shared';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getFirestore, getSystemConfig } from '../../core/config';
+import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError, handleError } from '../../core/errors';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { getRemainingActiveTripIds, isDriverAvailableForDispatch } from '../../modules/matching';
+import { publishTripStatusNotifications } from '../../modules/notifications';
+import {
+  collectTripCancellationFee,
+  getTripNoShowWaitSeconds,
+  quoteTripCancellationFee,
+} from '../../modules/trips';
+
+/**
+ * ============================================================================
+ * PASSENGER NO-SHOW - Cloud Function
+ * ============================================================================
+ *
+ * Called by the driver after waiting at pickup for the no-show threshold
+ * copied onto the trip at driverArrived.
+ *
+ * FLOW: DRIVER_ARRIVED → PASSENGER_NO_SHOW
+ *
+ * Releases the driver's seats, charges cancellationPolicy.noShowFeeIls to the
+ * passenger wallet and voids any payment hold (voidTripPaymentOnCancel).
+ *
+ * ============================================================================
+ */
+
+const MarkPassengerNoShowSchema = z.object({
+  tripId: z.string().min(1),
+});
+
+interface MarkPassengerNoShowResponse {
+  tripId: string;
+  status: string;
+  /** No-show fee charged to the passenger; 0 when none applied */
+  noShowFeeIls: number;
+}
+
+export const driverMarkPassengerNoShow = onCall<unknown, Promise<MarkPassengerNoShowResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const driverId = getAuthenticatedUserId(request);
+      if (!driverId) {
+        throw new UnauthorizedError('Authentication required to mark a no-show');
+      }
+
+      const parsed = MarkPassengerNoShowSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid no-show request', parsed.error.flatten());
+      }
+
+      const { tripId } = parsed.data;
+      logger.info('[PassengerNoShow] START', { driverId, tripId });
+
+      const db = getFirestore();
+      const { cancellationPolicy } = await getSystemConfig();
+      let passengerIdForNotify = '';
+      let feeQuote: CancellationFeeQuote = { feeIls: 0, reason: null };
+      let noShowTrip: Record<string, unknown> = {};
+
+      await db.runTransaction(async (transaction) => {
+        const tripRef = db.collection('trips').doc(tripId);
+        const driverRef = db.collection('drivers').doc(driverId);
+        const driverRequestRef = db
+          .collection('driverRequests')
+          .doc(driverId)
+          .collection('requests')
+          .doc(tripId);
+        const [tripDoc, driverDoc, driverRequestDoc] = await Promise.all([
+          transaction.get(tripRef),
+          transaction.get(driverRef),
+          transaction.get(driverRequestRef),
+        ]);
+
+        if (!tripDoc.exists) {
+          throw new NotFoundError('Trip', tripId);
+        }
+
+        const tripData = tripDoc.data() as Record<string, unknown>;
+        if (tripData.driverId !== driverId) {
+          throw new ForbiddenError('You are not assigned to this trip');
+        }
+        if (tripData.status !== TripStatus.DRIVER_ARRIVED) {
+          throw new ForbiddenError(
+            `Cannot mark a no-show from status '${String(tripData.status)}'. Expected '${TripStatus.DRIVER_ARRIVED}'.`
+          );
+        }
+
+        const nowMs = Date.now();
+        const noShowWaitSeconds = getTripNoShowWaitSeconds(tripData, cancellationPolicy.noShowWaitSeconds);
+        const arrivedAtMs = tripData.arrivedAt instanceof Timestamp ? tripData.arrivedAt.toMillis() : nowMs;
+        const remainingSeconds = Math.ceil((arrivedAtMs + noShowWaitSeconds * 1000 - nowMs) / 1000);
+        if (remainingSeconds > 0) {
+          throw new ForbiddenError(`Wait ${remainingSeconds} more seconds before marking a no-show`);
+        }
+
+        passengerIdForNotify = String(tripData.passengerId || '');
+        feeQuote = quoteTripCancellationFee(tripData, 'driver', { ...cancellationPolicy, noShowWaitSeconds }, nowMs);
+        noShowTrip = tripData;
+
+        const driverData = (driverDoc.data() ?? {}) as Record<string, unknown>;
+        const seatCapacity = normalizeSeatCapacity(
+          driverData.seatCapacity,
+          normalizeVehicleType(driverData.vehicleType)
+        );
+        const availableSeatsRaw =
+          typeof driverData.availableSeats === 'number' && Number.isFinite(driverData.availableSeats)
+            ? Math.round(driverData.availableSeats)
+            : seatCapacity;
+        const availableSeats = Math.max(0, Math.min(availableSeatsRaw, seatCapacity));
+
+        const bookingType =
+          tripData.bookingType === BOOKING_TYPES.FULL_TAXI
+            ? BOOKING_TYPES.FULL_TAXI
+            : BOOKING_TYPES.SEAT_ONLY;
+        const reservedSeatsRaw =
+          typeof tripData.reservedSeats === 'number' && Number.isFinite(tripData.reservedSeats)
+            ? Math.round(tripData.reservedSeats)
+            : 0;
+        const reservedSeats = Math.max(0, reservedSeatsRaw);
+        const nextAvailableSeats = Math.max(0, Math.min(seatCapacity, availableSeats + reservedSeats));
+        const activeTripIds = getRemainingActiveTripIds(driverData, tripId);
+
+        transaction.update(tripRef, {
+          status: TripStatus.PASSENGER_NO_SHOW,
+          cancelledAt: FieldValue.serverTimestamp(),
+          cancellationReason: 'passenger_no_show',
+          waitTimeSeconds: Math.max(0, Math.floor((nowMs - arrivedAtMs) / 1000)),
+          ...(feeQuote.reason
+            ? {
+                cancellationFeeIls: feeQuote.feeIls,
+                cancellationFeeReason: feeQuote.reason,
+                cancellationFeeStatus: 'pending',
+              }
+            : {}),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+
+        transaction.set(
+          driverRef,
+          {
+            availableSeats: nextAvailableSeats,
+            isAvailable: isDriverAvailableForDispatch({
+              isOnline: driverData.isOnline === true,
+              availableSeats: nextAvailableSeats,
+              fullTaxiReserved:
+                bookingType !== BOOKING_TYPES.FULL_TAXI && driverData.fullTaxiReserved === true,
+              activeTripCount: activeTripIds.length,
+            }),
+            activeTripIds,
+            currentTripId: activeTripIds[0] ?? null,
+            ...(bookingType === BOOKING_TYPES.FULL_TAXI
+              ? {
+                  fullTaxiReserved: false,
+                  fullTaxiReservedTripId:
+                    driverData.fullTaxiReservedTripId === tripId
+                      ? null
+                      : driverData.fullTaxiReservedTripId ?? null,
+                }
+              : {}),
+            updatedAt: FieldValue.serverTimestamp(),
+          },
+          { merge: true }
+        );
+
+        if (driverRequestDoc.exists) {
+          transaction.update(driverRequestRef, {
+            status: 'cancelled',
+            cancelledAt: FieldValue.serverTimestamp(),
+          });
+        }
+      });
+
+      await collectTripCancellationFee(tripId, noShowTrip, feeQuote);
+
+      logger.tripEvent('TRIP_PASSENGER_NO_SHOW', tripId, {
+        driverId,
+        passengerId: passengerIdForNotify,
+        noShowFeeIls: feeQuote.feeIls,
+      });
+
+      await publishTripStatusNotifications({
+        tripId,
+        status: TripStatus.PASSENGER_NO_SHOW,
+        recipients: [
+          {
+            userId: driverId,
+            role: 'driver',
+          },
+          ...(passengerIdForNotify
+            ? [
+                {
+                  userId: passengerIdForNotify,
+                  role: 'passenger' as const,
+                },
+              ]
+            : []),
+        ],
+        metadata: {
+          driverId,
+          noShowFeeIls: feeQuote.feeIls,
+        },
+      });
+
+      logger.info('[PassengerNoShow] COMPLETE', { tripId, driverId });
+      return { tripId, status: TripStatus.PASSENGER_NO_SHOW, noShowFeeIls: feeQuote.feeIls };
+    } catch (error) {
+      logger.error('[PassengerNoShow] FAILED', error);
+      throw handleError(error);
+    }
+  }
+);
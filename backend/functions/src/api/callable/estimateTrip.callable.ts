@@ -3,13 +3,16 @@ import { z } from 'zod';
 import {
   LatLngSchema,
   RideOptionsSchema,
+  RouteRoadblock,
   normalizeRequestedSeats,
   normalizeVehicleType,
 } from '@taxi-line/shared';
 import { REGION } from '../../core/env';
 import { handleError, ValidationError } from '../../core/errors';
 import { logger } from '../../core/logger';
-import { calculateDynamicRidePrice, calculateRoute } from '../../modules/pricing/services';
+import { calculateDynamicRidePrice } from '../../modules/pricing/services';
+import { calculateRoute } from '../../modules/routing';
+import { findPassengerPromo } from '../../modules/promotions';
 
 /**
  * Request schema for trip estimation
@@ -38,7 +41,15 @@ interface EstimateTripResponse {
     combinedMultiplier: number;
     appliedZoneIds: string[];
     appliedPeakWindowIds: string[];
+    fareBeforeDiscountIls: number;
+    promoCode: string | null;
+    discountIls: number;
   };
+  /** Closed/congested roadblocks on the route; send their IDs back when booking */
+  roadblocks: RouteRoadblock[];
+  /** Detour and delay for those roadblocks, included in distance/duration */
+  roadblockDetourKm: number;
+  roadblockDelayMin: number;
 }
 
 /**
@@ -46,11 +57,11 @@ interface EstimateTripResponse {
  *
  * This function:
  * 1. Validates input coordinates using Zod schemas from @taxi-line/shared
- * 2. Calls Mapbox Directions API to get actual route distance and duration
+ * 2. Routes via the configured provider (modules/routing), including the
+ *    detour/delay penalty for closed or congested roadblocks on the route
  * 3. Applies pricing rules (every 2km = 1 ILS, minimum 5 ILS)
- * 4. Returns the estimate (no Firestore writes)
- *
- * Note: If MAPBOX_ACCESS_TOKEN is not configured, uses Haversine distance calculation
+ * 4. Previews the passenger's best unlocked promo (consumed only at booking)
+ * 5. Returns the estimate and crossed roadblocks (no Firestore writes)
  */
 export const estimateTrip = onCall<unknown, Promise<EstimateTripResponse>>(
   {
@@ -86,14 +97,20 @@ export const estimateTrip = onCall<unknown, Promise<EstimateTripResponse>>(
         rideOptions: normalizedRideOptions,
       });
 
-      // Calculate route using Mapbox (or mock if token not configured)
+      // Route via the configured provider (falls back to the other, then straight line)
       const route = await calculateRoute(pickup, dropoff);
 
+      const promo = request.auth?.uid
+        ? await findPassengerPromo(request.auth.uid, { officeId: normalizedRideOptions.officeId })
+        : null;
+
       const pricing = await calculateDynamicRidePrice({
         distanceKm: route.distanceKm,
+        durationMin: route.durationMin,
         pickup,
         dropoff,
         rideOptions: normalizedRideOptions,
+        promo,
       });
       const priceIls = pricing.priceIls;
 
@@ -106,6 +123,8 @@ export const estimateTrip = onCall<unknown, Promise<EstimateTripResponse>>(
         distanceKm,
         durationMin,
         priceIls,
+        routeSource: route.source,
+        roadblockIds: route.roadblocks.map((roadblock) => roadblock.id),
       });
 
       return {
@@ -123,7 +142,13 @@ export const estimateTrip = onCall<unknown, Promise<EstimateTripResponse>>(
           combinedMultiplier: Math.round(pricing.breakdown.combinedMultiplier * 1000) / 1000,
           appliedZoneIds: pricing.breakdown.appliedZoneIds,
           appliedPeakWindowIds: pricing.breakdown.appliedPeakWindowIds,
+          fareBeforeDiscountIls: pricing.breakdown.fareBeforeDiscountIls,
+          promoCode: pricing.breakdown.promoCode,
+          discountIls: pricing.breakdown.discountIls,
         },
+        roadblocks: route.roadblocks,
+        roadblockDetourKm: route.roadblockDetourKm,
+        roadblockDelayMin: route.roadblockDelayMin,
       };
     } catch (error) {
       throw handleError(error);
@@ -0,0 +1,66 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import { CancellationFeeReason, PASSENGER_CANCELLABLE_STATUSES, TripStatus } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getFirestore, getSystemConfig } from '../../core/config';
+import { ForbiddenError, handleError, NotFoundError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { quoteTripCancellationFee } from '../../modules/trips';
+
+const GetCancellationFeeQuoteSchema = z.object({
+  tripId: z.string().min(1),
+});
+
+interface GetCancellationFeeQuoteResponse {
+  tripId: string;
+  feeIls: number;
+  reason: CancellationFeeReason | null;
+  currency: 'ILS';
+}
+
+/**
+ * Fee the passenger would pay for cancelling right now; shown in the cancel
+ * dialog and passed back to passengerCancelTrip as acceptFeeIls
+ */
+export const getCancellationFeeQuote = onCall<unknown, Promise<GetCancellationFeeQuoteResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 15,
+  },
+  async (request) => {
+    try {
+      const passengerId = getAuthenticatedUserId(request);
+      if (!passengerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = GetCancellationFeeQuoteSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid cancellation fee request', parsed.error.flatten());
+      }
+
+      const { tripId } = parsed.data;
+      const [tripDoc, config] = await Promise.all([
+        getFirestore().collection('trips').doc(tripId).get(),
+        getSystemConfig(),
+      ]);
+      if (!tripDoc.exists) {
+        throw new NotFoundError('Trip', tripId);
+      }
+
+      const tripData = (tripDoc.data() ?? {}) as Record<string, unknown>;
+      if (tripData.passengerId !== passengerId) {
+        throw new ForbiddenError('You are not the owner of this trip');
+      }
+      if (!PASSENGER_CANCELLABLE_STATUSES.includes(tripData.status as TripStatus)) {
+        throw new ForbiddenError(`Cannot cancel trip with status: ${String(tripData.status)}`);
+      }
+
+      const quote = quoteTripCancellationFee(tripData, 'passenger', config.cancellationPolicy);
+      return { tripId, feeIls: quote.feeIls, reason: quote.reason, currency: 'ILS' };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -0,0 +1,41 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { PaymentMethod } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { handleError, UnauthorizedError } from '../../core/errors';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getAvailablePaymentMethods } from '../../modules/payments';
+import { getAvailableWalletBalanceIls } from '../../modules/wallets';
+
+interface GetPaymentMethodsResponse {
+  methods: PaymentMethod[];
+  /** Spendable: the balance less funds reserved for wallet rides in progress */
+  walletBalanceIls: number;
+}
+
+/**
+ * Payment methods the passenger can choose when requesting a ride. Cash
+ * only unless the paymentsEnabled flag is on.
+ */
+export const getPaymentMethods = onCall<unknown, Promise<GetPaymentMethodsResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 15,
+  },
+  async (request) => {
+    try {
+      const userId = getAuthenticatedUserId(request);
+      if (!userId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const [methods, walletBalanceIls] = await Promise.all([
+        getAvailablePaymentMethods(),
+        getAvailableWalletBalanceIls(userId),
+      ]);
+      return { methods, walletBalanceIls };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
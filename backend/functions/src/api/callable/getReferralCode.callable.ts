@@ -0,0 +1,33 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { REGION } from '../../core/env';
+import { handleError, UnauthorizedError } from '../../core/errors';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getOrCreateReferralCode } from '../../modules/promotions';
+
+interface GetReferralCodeResponse {
+  code: string;
+  redeemedCount: number;
+}
+
+/**
+ * Persistent referral code of the calling passenger (created on first call)
+ */
+export const getReferralCode = onCall<unknown, Promise<GetReferralCodeResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const passengerId = getAuthenticatedUserId(request);
+      if (!passengerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      return await getOrCreateReferralCode(passengerId);
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
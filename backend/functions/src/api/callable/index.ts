@@ -9,18 +9,38 @@ export * from './driverArrived.callable';
 export * from './startTrip.callable';
 export * from './completeTrip.callable';
 export * from './confirmCashPayment.callable';
+export * from './getPaymentMethods.callable';
 export * from './submitRating.callable';
 export * from './submitPassengerRating.callable';
 export * from './createSupportTicket.callable';
+export * from './replySupportTicket.callable';
+export * from './sendTripChatMessage.callable';
+export * from './requestCallBridge.callable';
 export * from './getDriverEarningsSummary.callable';
+export * from './redeemPromoCode.callable';
+export * from './getReferralCode.callable';
+export * from './reportRoadblock.callable';
 
 // Step 32: Cancel flows
 export * from './passengerCancelTrip.callable';
+export * from './getCancellationFeeQuote.callable';
 export * from './driverCancelTrip.callable';
+export * from './driverMarkPassengerNoShow.callable';
+export * from './reportDriverNotMoving.callable';
 export * from './managerForceCancelTrip.callable';
 export * from './managerToggleTrips.callable';
 export * from './managerSetDriverEligibility.callable';
 export * from './managerAcknowledgeAlert.callable';
+export * from './managerUpsertAlertRule.callable';
+export * from './managerUpsertEscalationPolicy.callable';
+export * from './managerModerateRatingComment.callable';
+export * from './managerSetDriverReview.callable';
+export * from './managerRecordCashHandover.callable';
+export * from './managerTopUpWallet.callable';
+export * from './managerRefundTripFare.callable';
+export * from './managerReplySupportTicket.callable';
+export * from './managerUpdateSupportTicket.callable';
+export * from './managerReviewRoadblockReport.callable';
 export * from './devIssueDriverToken.callable';
 export * from './devIssueManagerToken.callable';
 export * from './getManagerSession.callable';
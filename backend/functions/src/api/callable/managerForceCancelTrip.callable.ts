@@ -7,7 +7,11 @@ import { getFirestore } from '../../core/config';
 import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError, handleError } from '../../core/errors';
 import { REGION } from '../../core/env';
 import { logger } from '../../core/logger';
-import { assertManagerPermission, publishTripStatusNotifications } from '../../modules';
+import {
+  assertManagerPermission,
+  getRemainingActiveTripIds,
+  publishTripStatusNotifications,
+} from '../../modules';
 
 const ForceCancelTripSchema = z.object({
   tripId: z.string().min(1),
@@ -66,6 +70,7 @@ export const managerForceCancelTrip = onCall<unknown, Promise<ForceCancelTripRes
 
         const driverId = tripData.driverId as string | undefined;
         let shouldUpdateDriverRequest = false;
+        let remainingActiveTripIds: string[] = [];
 
         if (driverId) {
           const driverRequestRef = db
@@ -76,6 +81,9 @@ export const managerForceCancelTrip = onCall<unknown, Promise<ForceCancelTripRes
 
           const driverRequestDoc = await transaction.get(driverRequestRef);
           shouldUpdateDriverRequest = driverRequestDoc.exists;
+
+          const driverDoc = await transaction.get(db.collection('drivers').doc(driverId));
+          remainingActiveTripIds = getRemainingActiveTripIds(driverDoc.data() ?? {}, tripId);
         }
 
         transaction.update(tripRef, {
@@ -90,8 +98,10 @@ export const managerForceCancelTrip = onCall<unknown, Promise<ForceCancelTripRes
           transaction.set(
             driverRef,
             {
-              isAvailable: true,
-              currentTripId: null,
+              // A pooled driver keeps serving the other passengers on board
+              ...(remainingActiveTripIds.length === 0 ? { isAvailable: true } : {}),
+              activeTripIds: remainingActiveTripIds,
+              currentTripId: remainingActiveTripIds[0] ?? null,
               updatedAt: FieldValue.serverTimestamp(),
             },
             { merge: true }
@@ -0,0 +1,65 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import { RATING_SUBJECTS } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { assertManagerPermission } from '../../modules/auth';
+import { moderateRatingComment } from '../../modules/quality';
+
+const ManagerModerateRatingCommentSchema = z.object({
+  /** Who was rated: `driver` for trip ratings, `passenger` for driver-to-passenger ratings */
+  subject: z.enum(RATING_SUBJECTS),
+  tripId: z.string().trim().min(1),
+  hidden: z.boolean(),
+  reason: z.string().trim().max(240).optional(),
+});
+
+interface ManagerModerateRatingCommentResponse {
+  success: true;
+  tripId: string;
+  hidden: boolean;
+}
+
+/**
+ * Hide an abusive rating comment from the rated user, or restore it
+ */
+export const managerModerateRatingComment = onCall<unknown, Promise<ManagerModerateRatingCommentResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 20,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = ManagerModerateRatingCommentSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid rating moderation payload', parsed.error.flatten());
+      }
+
+      await assertManagerPermission(managerId, 'moderate_ratings');
+
+      const { subject, tripId, hidden, reason } = parsed.data;
+      await moderateRatingComment({
+        subject,
+        tripId,
+        hidden,
+        reason: reason || null,
+        managerId,
+      });
+
+      return {
+        success: true,
+        tripId,
+        hidden,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -3,13 +3,20 @@ import { FieldValue, Timestamp } from 'firebase-admin/firestore';
 import { z } from 'zod';
 import {
   MANAGER_ROLE_VALUES,
+  MATCHING_STRATEGY_VALUES,
   ManagerPermission,
+  PROMO_CONFIG,
+  ROUTE_FARE_CONFIG,
+  SETTLEMENT_RULES,
+  PROMO_DISCOUNT_TYPES,
+  PROMO_DISCOUNT_TYPE_VALUES,
   ManagerRole,
   VEHICLE_MAX_CAPACITY,
   VEHICLE_TYPE_VALUES,
   getDefaultManagerPermissions,
   normalizeManagerPermissions,
   normalizeManagerRole,
+  normalizePromoCode,
   normalizeSeatCapacity,
   normalizeVehicleType,
 } from '@taxi-line/shared';
@@ -25,6 +32,17 @@ import {
 } from '../../core/errors';
 import { logger } from '../../core/logger';
 import { assertManagerPermission } from '../../modules/auth';
+import {
+  PricingComparisonResult,
+  PricingProfileConfig,
+  SimulateRidePriceResult,
+  comparePricingProfileOnRecentTrips,
+  publishPricingProfileVersion,
+  rollbackPricingProfile,
+  simulateRidePrice,
+} from '../../modules/pricing/services';
+
+const MatchingStrategySchema = z.enum(MATCHING_STRATEGY_VALUES as [string, ...string[]]);
 
 const ManagerUpsertOfficeSchema = z.object({
   officeId: z.string().trim().min(1).optional(),
@@ -34,6 +52,10 @@ const ManagerUpsertOfficeSchema = z.object({
   status: z.enum(['active', 'inactive']).default('active'),
   contactPhone: z.string().trim().optional(),
   dispatchMode: z.enum(['line_based', 'hybrid']).default('line_based'),
+  /** Driver ranking for this office; null clears it back to system/config */
+  matchingStrategy: MatchingStrategySchema.nullable().optional(),
+  /** Commission on completed fares; null clears it back to the default */
+  commissionPct: z.number().min(0).max(SETTLEMENT_RULES.MAX_COMMISSION_PCT).nullable().optional(),
 });
 
 const ManagerUpsertLineSchema = z.object({
@@ -47,6 +69,10 @@ const ManagerUpsertLineSchema = z.object({
   allowedVehicleTypes: z.array(z.enum(VEHICLE_TYPE_VALUES as [string, ...string[]])).optional(),
   pricingProfileId: z.string().trim().optional(),
   serviceAreaLabel: z.string().trim().optional(),
+  /** Driver ranking for this line; null clears it back to the office setting */
+  matchingStrategy: MatchingStrategySchema.nullable().optional(),
+  /** Commission on completed fares; null clears it back to the office setting */
+  commissionPct: z.number().min(0).max(SETTLEMENT_RULES.MAX_COMMISSION_PCT).nullable().optional(),
 });
 
 const ManagerUpsertLicenseSchema = z.object({
@@ -91,13 +117,25 @@ const PeakWindowSchema = z.object({
   multiplier: z.number().positive().max(5),
 });
 
-const ManagerUpsertPricingProfileSchema = z.object({
-  profileId: z.string().trim().min(1).default('default'),
+const PricingProfileConfigObjectSchema = z.object({
   name: z.string().trim().min(2),
   status: z.enum(['active', 'inactive']).default('active'),
   baseRatePerKm: z.number().positive().max(20),
   minimumFareIls: z.number().positive().max(200),
   seatSurchargePerSeat: z.number().min(0).max(50).default(2),
+  ratePerMinuteIls: z.number().min(0).max(10).default(0),
+  /** Completion-time fare: deviation from the estimate that is ignored (%) */
+  fareToleranceBandPct: z
+    .number()
+    .min(0)
+    .max(ROUTE_FARE_CONFIG.MAX_CONFIGURABLE_PCT)
+    .default(ROUTE_FARE_CONFIG.DEFAULT_TOLERANCE_BAND_PCT),
+  /** Completion-time fare: largest deviation from the estimate charged (%) */
+  maxFareDeviationPct: z
+    .number()
+    .min(0)
+    .max(ROUTE_FARE_CONFIG.MAX_CONFIGURABLE_PCT)
+    .default(ROUTE_FARE_CONFIG.DEFAULT_MAX_DEVIATION_PCT),
   peakWindows: z.array(PeakWindowSchema).default([]),
   vehicleMultipliers: z
     .record(z.enum(VEHICLE_TYPE_VALUES as [string, ...string[]]), z.number().positive().max(5))
@@ -107,6 +145,56 @@ const ManagerUpsertPricingProfileSchema = z.object({
   notes: z.string().trim().max(500).optional(),
 });
 
+function isFareDeviationCapValid(data: { fareToleranceBandPct: number; maxFareDeviationPct: number }): boolean {
+  return data.maxFareDeviationPct >= data.fareToleranceBandPct;
+}
+
+const FARE_DEVIATION_CAP_ISSUE = {
+  message: 'Fare deviation cap cannot be narrower than the tolerance band',
+  path: ['maxFareDeviationPct'],
+};
+
+const PricingProfileConfigSchema = PricingProfileConfigObjectSchema.refine(
+  isFareDeviationCapValid,
+  FARE_DEVIATION_CAP_ISSUE
+);
+
+const ManagerUpsertPricingProfileSchema = PricingProfileConfigObjectSchema.extend({
+  profileId: z.string().trim().min(1).default('default'),
+  /** When the new version takes effect; defaults to now */
+  effectiveFrom: z.string().datetime().optional(),
+}).refine(isFareDeviationCapValid, FARE_DEVIATION_CAP_ISSUE);
+
+const ManagerRollbackPricingProfileSchema = z.object({
+  profileId: z.string().trim().min(1),
+  version: z.number().int().positive(),
+  effectiveFrom: z.string().datetime().optional(),
+});
+
+const LatLngSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+const ManagerSimulatePricingSchema = z.object({
+  profileId: z.string().trim().min(1).default('default'),
+  draft: PricingProfileConfigSchema.optional(),
+  pickup: LatLngSchema,
+  dropoff: LatLngSchema,
+  /** Ride time, for peak windows; defaults to now */
+  at: z.string().datetime().optional(),
+  requiredSeats: z.number().int().min(1).max(VEHICLE_MAX_CAPACITY).default(1),
+  vehicleType: z.enum(VEHICLE_TYPE_VALUES as [string, ...string[]]).optional(),
+  officeId: z.string().trim().optional(),
+  lineId: z.string().trim().optional(),
+});
+
+const ManagerComparePricingProfileSchema = z.object({
+  profileId: z.string().trim().min(1).default('default'),
+  draft: PricingProfileConfigSchema,
+  tripLimit: z.number().int().min(1).max(100).default(30),
+});
+
 const ManagerUpsertPricingZoneSchema = z.object({
   zoneId: z.string().trim().min(1).optional(),
   name: z.string().trim().min(2),
@@ -123,6 +211,33 @@ const ManagerUpsertPricingZoneSchema = z.object({
   status: z.enum(['active', 'inactive']).default('active'),
 });
 
+const ManagerUpsertPromoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .transform(normalizePromoCode)
+      .pipe(z.string().min(PROMO_CONFIG.CODE_MIN_LENGTH).max(PROMO_CONFIG.CODE_MAX_LENGTH)),
+    description: z.string().trim().max(200).optional(),
+    status: z.enum(['active', 'inactive']).default('active'),
+    discountType: z.enum(PROMO_DISCOUNT_TYPE_VALUES as [string, ...string[]]),
+    discountValue: z.number().positive().max(500),
+    maxDiscountIls: z.number().positive().max(500).optional(),
+    maxRedemptions: z.number().int().positive().max(100000).optional(),
+    officeId: z.string().trim().optional(),
+    startsAt: z.string().datetime().optional(),
+    expiresAt: z.string().datetime().optional(),
+  })
+  .refine(
+    (data) =>
+      data.discountType !== PROMO_DISCOUNT_TYPES.PERCENT ||
+      data.discountValue <= PROMO_CONFIG.MAX_PERCENT_DISCOUNT,
+    { message: `Percent discount cannot exceed ${PROMO_CONFIG.MAX_PERCENT_DISCOUNT}%`, path: ['discountValue'] }
+  )
+  .refine((data) => !data.code.startsWith(PROMO_CONFIG.REFERRAL_CODE_PREFIX), {
+    message: `Codes starting with ${PROMO_CONFIG.REFERRAL_CODE_PREFIX} are reserved for referrals`,
+    path: ['code'],
+  });
+
 const ManagerUpsertStaffRoleSchema = z.object({
   targetUserId: z.string().trim().min(1),
   role: z.enum(MANAGER_ROLE_VALUES),
@@ -153,6 +268,24 @@ function toTimestampOrNull(value: string | undefined): Timestamp | null {
   return Timestamp.fromDate(date);
 }
 
+function toPricingProfileConfig(data: z.infer<typeof PricingProfileConfigObjectSchema>): PricingProfileConfig {
+  return {
+    name: data.name,
+    status: data.status,
+    baseRatePerKm: data.baseRatePerKm,
+    minimumFareIls: data.minimumFareIls,
+    seatSurchargePerSeat: data.seatSurchargePerSeat,
+    ratePerMinuteIls: data.ratePerMinuteIls,
+    fareToleranceBandPct: data.fareToleranceBandPct,
+    maxFareDeviationPct: data.maxFareDeviationPct,
+    peakWindows: data.peakWindows,
+    vehicleMultipliers: data.vehicleMultipliers,
+    officeMultipliers: data.officeMultipliers,
+    lineMultipliers: data.lineMultipliers,
+    notes: normalizeOptional(data.notes),
+  };
+}
+
 async function ensureOfficeExists(officeId: string): Promise<void> {
   const db = getFirestore();
   const officeDoc = await db.collection('offices').doc(officeId).get();
@@ -214,6 +347,8 @@ export const managerUpsertOffice = onCall<unknown, Promise<{ officeId: string; s
           status: data.status,
           contactPhone: normalizeOptional(data.contactPhone),
           dispatchMode: data.dispatchMode,
+          ...(data.matchingStrategy !== undefined ? { matchingStrategy: data.matchingStrategy } : {}),
+          ...(data.commissionPct !== undefined ? { commissionPct: data.commissionPct } : {}),
           updatedAt: FieldValue.serverTimestamp(),
           updatedBy: managerId,
           createdAt: FieldValue.serverTimestamp(),
@@ -271,6 +406,8 @@ export const managerUpsertLine = onCall<unknown, Promise<{ lineId: string; succe
               : [...VEHICLE_TYPE_VALUES],
           pricingProfileId: normalizeOptional(data.pricingProfileId) ?? 'default',
           serviceAreaLabel: normalizeOptional(data.serviceAreaLabel),
+          ...(data.matchingStrategy !== undefined ? { matchingStrategy: data.matchingStrategy } : {}),
+          ...(data.commissionPct !== undefined ? { commissionPct: data.commissionPct } : {}),
           updatedAt: FieldValue.serverTimestamp(),
           updatedBy: managerId,
           createdAt: FieldValue.serverTimestamp(),
@@ -518,7 +655,7 @@ export const managerLinkDriverToOperations = onCall<
 
 export const managerUpsertPricingProfile = onCall<
   unknown,
-  Promise<{ success: true; profileId: string }>
+  Promise<{ success: true; profileId: string; version: number }>
 >(
   {
     region: REGION,
@@ -537,28 +674,109 @@ export const managerUpsertPricingProfile = onCall<
       const data = parsed.data;
       await assertManagerPermission(managerId, 'manage_pricing');
 
-      const db = getFirestore();
-      await db.collection('pricingProfiles').doc(data.profileId).set(
-        {
-          profileId: data.profileId,
-          name: data.name,
-          status: data.status,
-          baseRatePerKm: data.baseRatePerKm,
-          minimumFareIls: data.minimumFareIls,
-          seatSurchargePerSeat: data.seatSurchargePerSeat,
-          peakWindows: data.peakWindows,
-          vehicleMultipliers: data.vehicleMultipliers,
-          officeMultipliers: data.officeMultipliers,
-          lineMultipliers: data.lineMultipliers,
-          notes: normalizeOptional(data.notes),
-          updatedAt: FieldValue.serverTimestamp(),
-          updatedBy: managerId,
-          createdAt: FieldValue.serverTimestamp(),
-        },
-        { merge: true }
-      );
+      const { version } = await publishPricingProfileVersion(data.profileId, toPricingProfileConfig(data), {
+        createdBy: managerId,
+        effectiveFrom: data.effectiveFrom ? new Date(data.effectiveFrom) : null,
+      });
+
+      return { success: true, profileId: data.profileId, version };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
+
+export const managerRollbackPricingProfile = onCall<
+  unknown,
+  Promise<{ success: true; profileId: string; version: number }>
+>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) throw new UnauthorizedError('Authentication required');
+
+      const parsed = ManagerRollbackPricingProfileSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid pricing rollback payload', parsed.error.flatten());
+      }
+      const data = parsed.data;
+      await assertManagerPermission(managerId, 'manage_pricing');
+
+      const { version } = await rollbackPricingProfile(data.profileId, data.version, {
+        createdBy: managerId,
+        effectiveFrom: data.effectiveFrom ? new Date(data.effectiveFrom) : null,
+      });
+
+      return { success: true, profileId: data.profileId, version };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
+
+export const managerSimulatePricing = onCall<unknown, Promise<SimulateRidePriceResult>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) throw new UnauthorizedError('Authentication required');
+
+      const parsed = ManagerSimulatePricingSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid pricing simulation payload', parsed.error.flatten());
+      }
+      const data = parsed.data;
+      await assertManagerPermission(managerId, 'manage_pricing');
 
-      return { success: true, profileId: data.profileId };
+      return await simulateRidePrice({
+        profileId: data.profileId,
+        draft: data.draft ? toPricingProfileConfig(data.draft) : null,
+        pickup: data.pickup,
+        dropoff: data.dropoff,
+        at: data.at ? new Date(data.at) : new Date(),
+        requiredSeats: data.requiredSeats,
+        vehicleType: normalizeVehicleType(data.vehicleType),
+        officeId: normalizeOptional(data.officeId),
+        lineId: normalizeOptional(data.lineId),
+      });
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
+
+export const managerComparePricingProfile = onCall<unknown, Promise<PricingComparisonResult>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) throw new UnauthorizedError('Authentication required');
+
+      const parsed = ManagerComparePricingProfileSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid pricing comparison payload', parsed.error.flatten());
+      }
+      const data = parsed.data;
+      await assertManagerPermission(managerId, 'manage_pricing');
+
+      return await comparePricingProfileOnRecentTrips(
+        data.profileId,
+        toPricingProfileConfig(data.draft),
+        data.tripLimit
+      );
     } catch (error) {
       throw handleError(error);
     }
@@ -621,6 +839,83 @@ export const managerUpsertPricingZone = onCall<
   }
 );
 
+export const managerUpsertPromoCode = onCall<
+  unknown,
+  Promise<{ success: true; code: string }>
+>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) throw new UnauthorizedError('Authentication required');
+
+      const parsed = ManagerUpsertPromoCodeSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid promo code payload', parsed.error.flatten());
+      }
+      const data = parsed.data;
+      const officeId = normalizeOptional(data.officeId);
+
+      await assertManagerPermission(managerId, 'manage_pricing', { officeId });
+      if (officeId) {
+        await ensureOfficeExists(officeId);
+      }
+
+      const startsAt = toTimestampOrNull(data.startsAt);
+      const expiresAt = toTimestampOrNull(data.expiresAt);
+      if (startsAt && expiresAt && expiresAt.toMillis() <= startsAt.toMillis()) {
+        throw new ValidationError('expiresAt must be after startsAt');
+      }
+
+      const db = getFirestore();
+      const promoRef = db.collection('promoCodes').doc(data.code);
+      const existingDoc = await promoRef.get();
+      if (existingDoc.exists) {
+        // Re-scoping someone else's campaign needs access to its office too
+        const existingOfficeId = existingDoc.data()?.officeId as string | null | undefined;
+        if (existingOfficeId && existingOfficeId !== officeId) {
+          await assertManagerPermission(managerId, 'manage_pricing', { officeId: existingOfficeId });
+        }
+      }
+
+      await promoRef.set(
+        {
+          code: data.code,
+          description: normalizeOptional(data.description),
+          status: data.status,
+          discountType: data.discountType,
+          discountValue: data.discountValue,
+          maxDiscountIls: data.maxDiscountIls ?? null,
+          maxRedemptions: data.maxRedemptions ?? null,
+          officeId,
+          startsAt,
+          expiresAt,
+          // Usage is counted by redeemPromoCode; editing a campaign keeps it
+          ...(existingDoc.exists ? {} : { redemptionCount: 0, createdAt: FieldValue.serverTimestamp() }),
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedBy: managerId,
+        },
+        { merge: true }
+      );
+
+      logger.info('🏷️ [Promo] Campaign saved', {
+        code: data.code,
+        managerId,
+        status: data.status,
+        officeId,
+      });
+
+      return { success: true, code: data.code };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
+
 export const managerUpsertStaffRole = onCall<
   unknown,
   Promise<{ success: true; userId: string; role: ManagerRole }>
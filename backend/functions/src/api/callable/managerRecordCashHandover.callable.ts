@@ -0,0 +1,61 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { RecordCashHandoverSchema } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getFirestore } from '../../core/config';
+import { handleError, NotFoundError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { assertManagerPermission } from '../../modules/auth';
+import { recordCashHandover } from '../../modules/settlements';
+
+interface ManagerRecordCashHandoverResponse {
+  success: true;
+  entryId: string;
+  driverId: string;
+  balanceOwedIls: number;
+}
+
+/**
+ * Record cash a driver handed over to their office
+ */
+export const managerRecordCashHandover = onCall<unknown, Promise<ManagerRecordCashHandoverResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 20,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = RecordCashHandoverSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid cash handover payload', parsed.error.flatten());
+      }
+
+      const { driverId, amountIls, note } = parsed.data;
+      const driverDoc = await getFirestore().collection('drivers').doc(driverId).get();
+      if (!driverDoc.exists) {
+        throw new NotFoundError('Driver', driverId);
+      }
+      const driverData = driverDoc.data() ?? {};
+      await assertManagerPermission(managerId, 'manage_settlements', {
+        officeId: typeof driverData.officeId === 'string' ? driverData.officeId : null,
+        lineId: typeof driverData.lineId === 'string' ? driverData.lineId : null,
+      });
+
+      const result = await recordCashHandover({ driverId, amountIls, note: note || null, managerId });
+
+      return {
+        success: true,
+        entryId: result.entryId,
+        driverId,
+        balanceOwedIls: result.balanceAfterIls,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
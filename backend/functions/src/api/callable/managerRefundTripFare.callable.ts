@@ -0,0 +1,69 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { RefundTripFareSchema } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getFirestore } from '../../core/config';
+import { handleError, NotFoundError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { assertManagerPermission } from '../../modules/auth';
+import { refundTripFare } from '../../modules/wallets';
+
+interface ManagerRefundTripFareResponse {
+  success: true;
+  transactionId: string;
+  tripId: string;
+  passengerId: string;
+  amountIls: number;
+  refundedTotalIls: number;
+  fullyRefunded: boolean;
+}
+
+/**
+ * Refund a disputed fare to the passenger's wallet
+ */
+export const managerRefundTripFare = onCall<unknown, Promise<ManagerRefundTripFareResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 20,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = RefundTripFareSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid refund payload', parsed.error.flatten());
+      }
+
+      const { tripId, amountIls, reason } = parsed.data;
+      const tripDoc = await getFirestore().collection('trips').doc(tripId).get();
+      if (!tripDoc.exists) {
+        throw new NotFoundError('Trip', tripId);
+      }
+      const tripData = (tripDoc.data() ?? {}) as Record<string, unknown>;
+      const officeId = tripData.matchedOfficeId ?? tripData.requestedOfficeId;
+      const lineId = tripData.matchedLineId ?? tripData.requestedLineId;
+      await assertManagerPermission(managerId, 'manage_wallets', {
+        officeId: typeof officeId === 'string' ? officeId : null,
+        lineId: typeof lineId === 'string' ? lineId : null,
+      });
+
+      const result = await refundTripFare({ tripId, amountIls: amountIls ?? null, reason, managerId });
+
+      return {
+        success: true,
+        transactionId: result.transactionId,
+        tripId,
+        passengerId: result.passengerId,
+        amountIls: result.amountIls,
+        refundedTotalIls: result.refundedTotalIls,
+        fullyRefunded: result.fullyRefunded,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
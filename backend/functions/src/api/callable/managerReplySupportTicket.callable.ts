@@ -0,0 +1,60 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { SupportTicketReplySchema, SupportTicketStatus, SupportTicketStatusSchema } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { assertManagerPermission } from '../../modules/auth';
+import { replyToSupportTicket } from '../../modules/support';
+
+const ManagerReplySupportTicketSchema = SupportTicketReplySchema.extend({
+  /** Status after the reply; defaults to waiting_on_user */
+  nextStatus: SupportTicketStatusSchema.optional(),
+});
+
+interface ManagerReplySupportTicketResponse {
+  success: true;
+  ticketId: string;
+  status: SupportTicketStatus;
+}
+
+/**
+ * Staff reply on a ticket thread; notifies the user
+ */
+export const managerReplySupportTicket = onCall<unknown, Promise<ManagerReplySupportTicketResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+      await assertManagerPermission(managerId, 'manage_support');
+
+      const parsed = ManagerReplySupportTicketSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid support reply payload', parsed.error.flatten());
+      }
+
+      const { ticketId, message, nextStatus } = parsed.data;
+      const status = await replyToSupportTicket({
+        ticketId,
+        authorId: managerId,
+        authorRole: 'staff',
+        message,
+        ...(nextStatus ? { nextStatus } : {}),
+      });
+
+      return {
+        success: true,
+        ticketId,
+        status,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -0,0 +1,69 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import { REGION } from '../../core/env';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { assertManagerPermission } from '../../modules/auth';
+import { RoadblockReportReviewResult, reviewRoadblockReport } from '../../modules/roadblocks';
+
+const ReportedStatusSchema = z.enum(['closed', 'congested']);
+
+const ManagerReviewRoadblockReportSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('approve'),
+    reportId: z.string().trim().min(1),
+    name: z.string().trim().min(1).max(120),
+    area: z.string().trim().max(120).optional(),
+    radiusMeters: z.number().positive().max(5000).optional(),
+    status: ReportedStatusSchema.optional(),
+    note: z.string().trim().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('merge'),
+    reportId: z.string().trim().min(1),
+    roadblockId: z.string().trim().min(1),
+    status: ReportedStatusSchema.optional(),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    reportId: z.string().trim().min(1),
+    note: z.string().trim().max(500).optional(),
+  }),
+]);
+
+interface ManagerReviewRoadblockReportResponse extends RoadblockReportReviewResult {
+  success: true;
+}
+
+/**
+ * Approve, merge or reject a pending driver roadblock report
+ */
+export const managerReviewRoadblockReport = onCall<
+  unknown,
+  Promise<ManagerReviewRoadblockReportResponse>
+>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+      await assertManagerPermission(managerId, 'manage_roadblocks');
+
+      const parsed = ManagerReviewRoadblockReportSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid roadblock report review', parsed.error.flatten());
+      }
+
+      const result = await reviewRoadblockReport(managerId, parsed.data);
+      return { success: true, ...result };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -0,0 +1,69 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import { DriverQualityStatus } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getFirestore } from '../../core/config';
+import { handleError, NotFoundError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { assertManagerPermission } from '../../modules/auth';
+import { setDriverReview } from '../../modules/quality';
+
+const ManagerSetDriverReviewSchema = z.object({
+  driverId: z.string().trim().min(1),
+  onReview: z.boolean(),
+  note: z.string().trim().max(400).optional(),
+});
+
+interface ManagerSetDriverReviewResponse {
+  success: true;
+  driverId: string;
+  qualityStatus: DriverQualityStatus;
+}
+
+/**
+ * Put a driver on quality review, or clear the review once handled
+ */
+export const managerSetDriverReview = onCall<unknown, Promise<ManagerSetDriverReviewResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 20,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = ManagerSetDriverReviewSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid driver review payload', parsed.error.flatten());
+      }
+
+      const { driverId, onReview, note } = parsed.data;
+      const driverDoc = await getFirestore().collection('drivers').doc(driverId).get();
+      if (!driverDoc.exists) {
+        throw new NotFoundError('Driver', driverId);
+      }
+      const driverData = driverDoc.data() ?? {};
+      await assertManagerPermission(managerId, 'manage_drivers', {
+        officeId: typeof driverData.officeId === 'string' ? driverData.officeId : null,
+        lineId: typeof driverData.lineId === 'string' ? driverData.lineId : null,
+      });
+
+      const qualityStatus = await setDriverReview({ driverId, onReview, managerId, note: note || null });
+
+      logger.info('[RatingQuality] Driver review updated', { driverId, managerId, onReview });
+
+      return {
+        success: true,
+        driverId,
+        qualityStatus,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
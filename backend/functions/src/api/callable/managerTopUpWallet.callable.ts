@@ -0,0 +1,58 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { TopUpWalletSchema } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { assertManagerPermission } from '../../modules/auth';
+import { topUpWallet } from '../../modules/wallets';
+
+interface ManagerTopUpWalletResponse {
+  success: true;
+  transactionId: string;
+  passengerId: string;
+  balanceIls: number;
+}
+
+/**
+ * Credit cash a passenger paid into their wallet at an office desk
+ */
+export const managerTopUpWallet = onCall<unknown, Promise<ManagerTopUpWalletResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 20,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = TopUpWalletSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid wallet top-up payload', parsed.error.flatten());
+      }
+
+      const { passengerId, amountIls, officeId, note } = parsed.data;
+      await assertManagerPermission(managerId, 'manage_wallets', { officeId: officeId ?? null });
+
+      const result = await topUpWallet({
+        passengerId,
+        amountIls,
+        officeId: officeId ?? null,
+        note: note || null,
+        managerId,
+      });
+
+      return {
+        success: true,
+        transactionId: result.transactionId,
+        passengerId,
+        balanceIls: result.balanceAfterIls,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
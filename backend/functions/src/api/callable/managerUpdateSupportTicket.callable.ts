@@ -0,0 +1,68 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import { SupportTicketStatus, SupportTicketStatusSchema } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { assertManagerPermission } from '../../modules/auth';
+import { updateSupportTicket } from '../../modules/support';
+
+const ManagerUpdateSupportTicketSchema = z
+  .object({
+    ticketId: z.string().min(1),
+    status: SupportTicketStatusSchema.optional(),
+    assigneeId: z.string().trim().min(1).nullable().optional(),
+    tripId: z.string().trim().min(1).nullable().optional(),
+  })
+  .refine(
+    (input) => input.status !== undefined || input.assigneeId !== undefined || input.tripId !== undefined,
+    { message: 'Nothing to update' }
+  );
+
+interface ManagerUpdateSupportTicketResponse {
+  success: true;
+  ticketId: string;
+  status: SupportTicketStatus;
+}
+
+/**
+ * Change a ticket's status, assign it to support staff or link it to a trip
+ */
+export const managerUpdateSupportTicket = onCall<unknown, Promise<ManagerUpdateSupportTicketResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+      await assertManagerPermission(managerId, 'manage_support');
+
+      const parsed = ManagerUpdateSupportTicketSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid support ticket update', parsed.error.flatten());
+      }
+
+      const { ticketId, status, assigneeId, tripId } = parsed.data;
+      const nextStatus = await updateSupportTicket({
+        ticketId,
+        managerId,
+        ...(status !== undefined ? { status } : {}),
+        ...(assigneeId !== undefined ? { assigneeId } : {}),
+        ...(tripId !== undefined ? { tripId } : {}),
+      });
+
+      return {
+        success: true,
+        ticketId,
+        status: nextStatus,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -0,0 +1,107 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import { AlertRuleSchema } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getFirestore } from '../../core/config';
+import { handleError, NotFoundError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { assertManagerPermission } from '../../modules/auth';
+
+const ManagerUpsertAlertRuleSchema = z.object({
+  ruleId: z.string().trim().min(1).optional(),
+  rule: AlertRuleSchema,
+});
+
+interface ManagerUpsertAlertRuleResponse {
+  success: true;
+  ruleId: string;
+}
+
+/**
+ * Create or update an ops alert rule. Office-scoped rules need access to
+ * that office; re-scoping a rule needs access to its current office too.
+ */
+export const managerUpsertAlertRule = onCall<
+  unknown,
+  Promise<ManagerUpsertAlertRuleResponse>
+>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 20,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = ManagerUpsertAlertRuleSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid alert rule payload', parsed.error.flatten());
+      }
+
+      const { ruleId, rule } = parsed.data;
+      const officeId = rule.officeId ?? null;
+      await assertManagerPermission(managerId, 'manage_alerts', { officeId });
+
+      const db = getFirestore();
+      if (officeId) {
+        const officeDoc = await db.collection('offices').doc(officeId).get();
+        if (!officeDoc.exists) {
+          throw new NotFoundError('Office', officeId);
+        }
+      }
+
+      const escalationPolicyId = rule.escalationPolicyId ?? null;
+      if (escalationPolicyId) {
+        const policyDoc = await db.collection('alertEscalationPolicies').doc(escalationPolicyId).get();
+        if (!policyDoc.exists) {
+          throw new NotFoundError('Escalation policy', escalationPolicyId);
+        }
+      }
+
+      const ruleRef = ruleId ? db.collection('alertRules').doc(ruleId) : db.collection('alertRules').doc();
+      if (ruleId) {
+        const existingDoc = await ruleRef.get();
+        if (!existingDoc.exists) {
+          throw new NotFoundError('Alert rule', ruleId);
+        }
+        const existingOfficeId = existingDoc.data()?.officeId as string | null | undefined;
+        if (existingOfficeId && existingOfficeId !== officeId) {
+          await assertManagerPermission(managerId, 'manage_alerts', { officeId: existingOfficeId });
+        }
+      }
+
+      await ruleRef.set(
+        {
+          ...rule,
+          officeId,
+          escalationPolicyId,
+          ...(ruleId ? {} : { createdAt: FieldValue.serverTimestamp(), createdBy: managerId }),
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedBy: managerId,
+        },
+        { merge: true }
+      );
+
+      logger.info('[AlertRules] Rule saved', {
+        ruleId: ruleRef.id,
+        managerId,
+        metric: rule.metric,
+        enabled: rule.enabled,
+        officeId,
+      });
+
+      return {
+        success: true,
+        ruleId: ruleRef.id,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -0,0 +1,90 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import { AlertEscalationPolicySchema } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getFirestore } from '../../core/config';
+import { ForbiddenError, handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { assertManagerPermission } from '../../modules/auth';
+
+const ManagerUpsertEscalationPolicySchema = z.object({
+  /** Omit to create a policy; pass "default" to set the fallback policy */
+  policyId: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9_-]{1,40}$/i)
+    .optional(),
+  policy: AlertEscalationPolicySchema,
+});
+
+interface ManagerUpsertEscalationPolicyResponse {
+  success: true;
+  policyId: string;
+}
+
+/**
+ * Create or update an alert escalation policy. Policies span offices, so
+ * this needs an unscoped manage_alerts grant.
+ */
+export const managerUpsertEscalationPolicy = onCall<
+  unknown,
+  Promise<ManagerUpsertEscalationPolicyResponse>
+>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 20,
+  },
+  async (request) => {
+    try {
+      const managerId = getAuthenticatedUserId(request);
+      if (!managerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = ManagerUpsertEscalationPolicySchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid escalation policy payload', parsed.error.flatten());
+      }
+
+      const profile = await assertManagerPermission(managerId, 'manage_alerts');
+      if (!profile.isGlobalScope) {
+        throw new ForbiddenError('Escalation policies can only be edited by managers with global scope');
+      }
+
+      const { policyId, policy } = parsed.data;
+      const db = getFirestore();
+      const policyRef = policyId
+        ? db.collection('alertEscalationPolicies').doc(policyId)
+        : db.collection('alertEscalationPolicies').doc();
+      const existingDoc = await policyRef.get();
+
+      await policyRef.set(
+        {
+          ...policy,
+          webhookUrl: policy.webhookUrl ?? null,
+          ...(existingDoc.exists ? {} : { createdAt: FieldValue.serverTimestamp(), createdBy: managerId }),
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedBy: managerId,
+        },
+        { merge: true }
+      );
+
+      logger.info('[AlertEscalation] Policy saved', {
+        policyId: policyRef.id,
+        managerId,
+        steps: policy.steps.length,
+        enabled: policy.enabled,
+      });
+
+      return {
+        success: true,
+        policyId: policyRef.id,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
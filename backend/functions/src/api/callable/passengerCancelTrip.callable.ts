@@ -1,25 +1,41 @@
 import { FieldValue } from 'firebase-admin/firestore';
 import { onCall } from 'firebase-functions/v2/https';
 import { z } from 'zod';
-import { BOOKING_TYPES, TripStatus, normalizeSeatCapacity } from '@taxi-line/shared';
+import {
+  BOOKING_TYPES,
+  CancellationFeeQuote,
+  PASSENGER_CANCELLABLE_STATUSES,
+  TripStatus,
+  normalizeSeatCapacity,
+} from '@taxi-line/shared';
 import { getAuthenticatedUserId } from '../../core/auth';
-import { getFirestore } from '../../core/config';
-import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError, handleError } from '../../core/errors';
+import { getFirestore, getSystemConfig } from '../../core/config';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  handleError,
+} from '../../core/errors';
 import { REGION } from '../../core/env';
 import { logger } from '../../core/logger';
+import { getRemainingActiveTripIds, isDriverAvailableForDispatch } from '../../modules/matching';
 import { publishTripStatusNotifications } from '../../modules/notifications';
+import { collectTripCancellationFee, quoteTripCancellationFee } from '../../modules/trips';
 
 const CancelTripSchema = z.object({
   tripId: z.string().min(1),
+  /** Highest fee the passenger confirmed in the cancel dialog */
+  acceptFeeIls: z.number().nonnegative().optional(),
 });
 
 interface CancelTripResponse {
   tripId: string;
   cancelled: boolean;
+  cancellationFeeIls: number;
 }
 
-const PASSENGER_CANCELLABLE_STATUSES: string[] = [TripStatus.PENDING, TripStatus.ACCEPTED];
-
 export const passengerCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
   {
     region: REGION,
@@ -38,11 +54,14 @@ export const passengerCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
         throw new ValidationError('Invalid cancel request', parsed.error.flatten());
       }
 
-      const { tripId } = parsed.data;
+      const { tripId, acceptFeeIls } = parsed.data;
       logger.info('[PassengerCancel] START', { passengerId, tripId });
 
       const db = getFirestore();
+      const { cancellationPolicy } = await getSystemConfig();
       let driverIdForNotify = '';
+      let feeQuote: CancellationFeeQuote = { feeIls: 0, reason: null };
+      let cancelledTrip: Record<string, unknown> = {};
 
       await db.runTransaction(async (transaction) => {
         const tripRef = db.collection('trips').doc(tripId);
@@ -57,10 +76,18 @@ export const passengerCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
           throw new ForbiddenError('You are not the owner of this trip');
         }
 
-        if (!PASSENGER_CANCELLABLE_STATUSES.includes(tripData.status)) {
+        if (!PASSENGER_CANCELLABLE_STATUSES.includes(tripData.status as TripStatus)) {
           throw new ForbiddenError(`Cannot cancel trip with status: ${tripData.status}`);
         }
 
+        feeQuote = quoteTripCancellationFee(tripData, 'passenger', cancellationPolicy);
+        if (feeQuote.feeIls > (acceptFeeIls ?? 0)) {
+          throw new ConflictError(
+            `Cancelling now costs ${feeQuote.feeIls} ILS. Please confirm the cancellation fee and try again.`
+          );
+        }
+        cancelledTrip = tripData;
+
         const driverId = typeof tripData.driverId === 'string' ? tripData.driverId : '';
         driverIdForNotify = driverId;
 
@@ -96,16 +123,21 @@ export const passengerCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
           const reservedSeats = Math.max(0, reservedSeatsRaw);
           const nextAvailableSeats = Math.max(0, Math.min(seatCapacity, availableSeats + reservedSeats));
           const isOnline = driverData.isOnline === true;
+          const activeTripIds = getRemainingActiveTripIds(driverData, tripId);
 
           transaction.set(
             driverRef,
             {
               availableSeats: nextAvailableSeats,
-              isAvailable: isOnline && nextAvailableSeats > 0,
-              currentTripId:
-                typeof driverData.currentTripId === 'string' && driverData.currentTripId === tripId
-                  ? null
-                  : driverData.currentTripId ?? null,
+              isAvailable: isDriverAvailableForDispatch({
+                isOnline,
+                availableSeats: nextAvailableSeats,
+                fullTaxiReserved:
+                  bookingType !== BOOKING_TYPES.FULL_TAXI && driverData.fullTaxiReserved === true,
+                activeTripCount: activeTripIds.length,
+              }),
+              activeTripIds,
+              currentTripId: activeTripIds[0] ?? null,
               ...(bookingType === BOOKING_TYPES.FULL_TAXI
                 ? {
                     fullTaxiReserved: false,
@@ -132,12 +164,23 @@ export const passengerCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
           status: TripStatus.CANCELLED_BY_PASSENGER,
           cancelledAt: FieldValue.serverTimestamp(),
           cancellationReason: 'passenger_cancelled',
+          ...(feeQuote.reason
+            ? {
+                cancellationFeeIls: feeQuote.feeIls,
+                cancellationFeeReason: feeQuote.reason,
+                cancellationFeeStatus: 'pending',
+              }
+            : {}),
         });
       });
 
+      await collectTripCancellationFee(tripId, cancelledTrip, feeQuote);
+
       logger.tripEvent('TRIP_CANCELLED', tripId, {
         reason: 'passenger_cancelled',
         cancelledBy: passengerId,
+        cancellationFeeIls: feeQuote.feeIls,
+        cancellationFeeReason: feeQuote.reason,
       });
 
       await publishTripStatusNotifications({
@@ -163,7 +206,7 @@ export const passengerCancelTrip = onCall<unknown, Promise<CancelTripResponse>>(
       });
 
       logger.info('[PassengerCancel] COMPLETE', { tripId });
-      return { tripId, cancelled: true };
+      return { tripId, cancelled: true, cancellationFeeIls: feeQuote.feeIls };
     } catch (error) {
       logger.error('[PassengerCancel] FAILED', error);
       throw handleError(error);
@@ -0,0 +1,87 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import {
+  PROMO_CONFIG,
+  PromoDiscountType,
+  PromoRedemptionSource,
+  normalizePromoCode,
+} from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { handleError, NotFoundError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { getAuthenticatedUserId } from '../../core/auth';
+import {
+  isReferralCode,
+  redeemCampaignPromoCode,
+  redeemReferralCode,
+} from '../../modules/promotions';
+
+const RedeemPromoCodeSchema = z.object({
+  code: z
+    .string()
+    .transform(normalizePromoCode)
+    .pipe(z.string().min(PROMO_CONFIG.CODE_MIN_LENGTH).max(PROMO_CONFIG.CODE_MAX_LENGTH)),
+});
+
+interface RedeemPromoCodeResponse {
+  code: string;
+  source: PromoRedemptionSource;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxDiscountIls: number | null;
+  /** ISO string; null = no expiry */
+  expiresAt: string | null;
+}
+
+/**
+ * Redeem a promo or referral code for the calling passenger.
+ *
+ * The discount is only unlocked here; it is applied by pricing to the
+ * passenger's next eligible ride (see createTripRequest).
+ */
+export const redeemPromoCode = onCall<unknown, Promise<RedeemPromoCodeResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const passengerId = getAuthenticatedUserId(request);
+      if (!passengerId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = RedeemPromoCodeSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid promo code', parsed.error.flatten());
+      }
+
+      const { code } = parsed.data;
+      const redemption = isReferralCode(code)
+        ? await redeemReferralCode(passengerId, code)
+        : await redeemCampaignPromoCode(passengerId, code);
+
+      if (!redemption) {
+        throw new NotFoundError('Promo code', code);
+      }
+
+      logger.info('🏷️ [Promo] Code redeemed', {
+        passengerId,
+        code,
+        source: redemption.source,
+      });
+
+      return {
+        code: redemption.code,
+        source: redemption.source,
+        discountType: redemption.discountType,
+        discountValue: redemption.discountValue,
+        maxDiscountIls: redemption.maxDiscountIls,
+        expiresAt: redemption.expiresAt ? redemption.expiresAt.toDate().toISOString() : null,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -7,7 +7,8 @@ import { handleError, ValidationError, NotFoundError, UnauthorizedError } from '
 import { logger } from '../../core/logger';
 import { getAuthenticatedUserId } from '../../core/auth';
 import { FieldValue } from 'firebase-admin/firestore';
-import { publishTripStatusNotifications } from '../../modules/notifications';
+import { getRemainingActiveTripIds, isDriverAvailableForDispatch } from '../../modules/matching';
+import { redispatchTrip } from '../../modules/trips';
 
 const RejectTripRequestSchema = z.object({
   tripId: z.string().min(1),
@@ -39,8 +40,7 @@ export const rejectTripRequest = onCall<unknown, Promise<RejectTripRequestRespon
       logger.info('[RejectTrip] START', { tripId, driverId });
 
       const db = getFirestore();
-      let passengerIdForNotify = '';
-      let shouldNotifyPassenger = false;
+      let shouldRedispatch = false;
 
       await db.runTransaction(async (transaction) => {
         const driverRequestRef = db
@@ -67,7 +67,6 @@ export const rejectTripRequest = onCall<unknown, Promise<RejectTripRequestRespon
         }
 
         const tripData = tripDoc.data()!;
-        passengerIdForNotify = String(tripData.passengerId || '');
 
         const driverDocRef = db.collection('drivers').doc(driverId);
         const driverDoc = await transaction.get(driverDocRef);
@@ -84,35 +83,36 @@ export const rejectTripRequest = onCall<unknown, Promise<RejectTripRequestRespon
         const availableSeats = Math.max(0, Math.min(availableSeatsRaw, seatCapacity));
         const isOnline = driverData.isOnline === true;
         const fullTaxiReserved = driverData.fullTaxiReserved === true;
-        const currentTripId =
-          typeof driverData.currentTripId === 'string' && driverData.currentTripId.trim().length > 0
-            ? driverData.currentTripId
-            : null;
-        const shouldClearCurrentTrip = currentTripId === tripId;
+        // A pooled offer never replaced currentTripId; a solo offer did
+        const activeTripIds = getRemainingActiveTripIds(driverData, tripId);
 
         transaction.update(driverRequestRef, {
           status: 'rejected',
           rejectedAt: FieldValue.serverTimestamp(),
         });
 
+        // Trip stays PENDING: the re-dispatch loop below offers it to the next driver
         if (tripData.status === TripStatus.PENDING && tripData.driverId === driverId) {
           transaction.update(tripRef, {
-            status: TripStatus.NO_DRIVER_AVAILABLE,
+            declinedDriverIds: FieldValue.arrayUnion(driverId),
             rejectedAt: FieldValue.serverTimestamp(),
             rejectedBy: driverId,
+            updatedAt: FieldValue.serverTimestamp(),
           });
-          shouldNotifyPassenger = true;
+          shouldRedispatch = true;
         }
 
         transaction.set(
           driverDocRef,
           {
-            isAvailable:
-              isOnline &&
-              availableSeats > 0 &&
-              !fullTaxiReserved &&
-              (currentTripId == null || shouldClearCurrentTrip),
-            currentTripId: shouldClearCurrentTrip ? null : currentTripId,
+            isAvailable: isDriverAvailableForDispatch({
+              isOnline,
+              availableSeats,
+              fullTaxiReserved,
+              activeTripCount: activeTripIds.length,
+            }),
+            activeTripIds,
+            currentTripId: activeTripIds[0] ?? null,
             updatedAt: FieldValue.serverTimestamp(),
           },
           { merge: true }
@@ -123,27 +123,19 @@ export const rejectTripRequest = onCall<unknown, Promise<RejectTripRequestRespon
           isOnline,
           availableSeats,
           fullTaxiReserved,
-          currentTripId,
-          shouldClearCurrentTrip,
+          activeTripIds,
         });
       });
 
       logger.tripEvent('TRIP_REJECTED', tripId, { driverId });
 
-      if (shouldNotifyPassenger && passengerIdForNotify) {
-        await publishTripStatusNotifications({
+      if (shouldRedispatch) {
+        const redispatch = await redispatchTrip({
           tripId,
-          status: TripStatus.NO_DRIVER_AVAILABLE,
-          recipients: [
-            {
-              userId: passengerIdForNotify,
-              role: 'passenger',
-            },
-          ],
-          metadata: {
-            driverId,
-          },
+          previousDriverId: driverId,
+          reason: 'rejected',
         });
+        logger.info('[RejectTrip] Re-dispatch result', { tripId, ...redispatch });
       }
 
       logger.info('[RejectTrip] COMPLETE', { tripId, driverId });
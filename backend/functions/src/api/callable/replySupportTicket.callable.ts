@@ -0,0 +1,52 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { SupportTicketReplySchema, SupportTicketStatus } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { replyToSupportTicket } from '../../modules/support';
+
+interface ReplySupportTicketResponse {
+  success: true;
+  ticketId: string;
+  status: SupportTicketStatus;
+}
+
+/**
+ * Passenger or driver reply on one of their own tickets
+ */
+export const replySupportTicket = onCall<unknown, Promise<ReplySupportTicketResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const userId = getAuthenticatedUserId(request);
+      if (!userId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = SupportTicketReplySchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid support reply payload', parsed.error.flatten());
+      }
+
+      const { ticketId, message } = parsed.data;
+      const status = await replyToSupportTicket({
+        ticketId,
+        authorId: userId,
+        authorRole: 'user',
+        message,
+      });
+
+      return {
+        success: true,
+        ticketId,
+        status,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -0,0 +1,240 @@
+import { FieldValue, GeoPoint, Timestamp } from 'firebase-admin/firestore';
+import { onCall } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+import {
+  BOOKING_TYPES,
+  DRIVER_NOT_MOVING_RULES,
+  TripStatus,
+  normalizeSeatCapacity,
+  normalizeVehicleType,
+} from '@taxi-line/shared';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { getFirestore } from '../../core/config';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  handleError,
+} from '../../core/errors';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import {
+  getRemainingActiveTripIds,
+  haversineDistanceKm,
+  isDriverAvailableForDispatch,
+} from '../../modules/matching';
+import { publishTripStatusNotifications } from '../../modules/notifications';
+import { RedispatchTripResult, redispatchTrip } from '../../modules/trips';
+
+/**
+ * ============================================================================
+ * DRIVER NOT MOVING - Cloud Function
+ * ============================================================================
+ *
+ * Called by the passenger when the accepted driver is not heading to pickup.
+ *
+ * FLOW: ACCEPTED → PENDING → re-dispatch to the next-ranked driver
+ *
+ * Allowed once DRIVER_NOT_MOVING_RULES.MIN_SECONDS_SINCE_ACCEPT passed and
+ * the driver's lastLocation is within MAX_PROGRESS_METERS of where they
+ * accepted (trips/{tripId}.acceptedDriverLocation). The driver is released
+ * and added to declinedDriverIds so the trip is never offered to them again.
+ *
+ * ============================================================================
+ */
+
+const ReportDriverNotMovingSchema = z.object({
+  tripId: z.string().min(1),
+});
+
+interface ReportDriverNotMovingResponse {
+  tripId: string;
+  /** redispatched, or exhausted when the trip ended as NO_DRIVER_AVAILABLE */
+  outcome: RedispatchTripResult['outcome'];
+}
+
+export const reportDriverNotMoving = onCall<unknown, Promise<ReportDriverNotMovingResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (request) => {
+    try {
+      const passengerId = getAuthenticatedUserId(request);
+      if (!passengerId) {
+        throw new UnauthorizedError('Authentication required to report a driver');
+      }
+
+      const parsed = ReportDriverNotMovingSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid report', parsed.error.flatten());
+      }
+
+      const { tripId } = parsed.data;
+      logger.info('[DriverNotMoving] START', { passengerId, tripId });
+
+      const db = getFirestore();
+      let reportedDriverId = '';
+
+      await db.runTransaction(async (transaction) => {
+        const tripRef = db.collection('trips').doc(tripId);
+        const tripDoc = await transaction.get(tripRef);
+        if (!tripDoc.exists) {
+          throw new NotFoundError('Trip', tripId);
+        }
+
+        const tripData = tripDoc.data() as Record<string, unknown>;
+        if (tripData.passengerId !== passengerId) {
+          throw new ForbiddenError('You are not the owner of this trip');
+        }
+        if (tripData.status !== TripStatus.ACCEPTED || typeof tripData.driverId !== 'string') {
+          throw new ForbiddenError(`Cannot report the driver with trip status: ${String(tripData.status)}`);
+        }
+
+        const driverId = tripData.driverId;
+        const acceptedAtMs = tripData.acceptedAt instanceof Timestamp ? tripData.acceptedAt.toMillis() : Date.now();
+        const remainingSeconds = Math.ceil(
+          (acceptedAtMs + DRIVER_NOT_MOVING_RULES.MIN_SECONDS_SINCE_ACCEPT * 1000 - Date.now()) / 1000
+        );
+        if (remainingSeconds > 0) {
+          throw new ForbiddenError(`Give your driver ${remainingSeconds} more seconds before reporting`);
+        }
+
+        const driverRef = db.collection('drivers').doc(driverId);
+        const driverRequestRef = db
+          .collection('driverRequests')
+          .doc(driverId)
+          .collection('requests')
+          .doc(tripId);
+        const [driverDoc, driverRequestDoc] = await Promise.all([
+          transaction.get(driverRef),
+          transaction.get(driverRequestRef),
+        ]);
+        const driverData = (driverDoc.data() ?? {}) as Record<string, unknown>;
+
+        // Without both positions there is no evidence the driver is moving
+        const acceptedLocation = tripData.acceptedDriverLocation;
+        const currentLocation = driverData.lastLocation;
+        if (acceptedLocation instanceof GeoPoint && currentLocation instanceof GeoPoint) {
+          const movedMeters =
+            haversineDistanceKm(
+              acceptedLocation.latitude,
+              acceptedLocation.longitude,
+              currentLocation.latitude,
+              currentLocation.longitude
+            ) * 1000;
+          if (movedMeters > DRIVER_NOT_MOVING_RULES.MAX_PROGRESS_METERS) {
+            logger.info('[DriverNotMoving] Driver has moved - report rejected', {
+              tripId,
+              driverId,
+              movedMeters: Math.round(movedMeters),
+            });
+            throw new ConflictError('Your driver is on the way to the pickup point');
+          }
+        }
+
+        reportedDriverId = driverId;
+
+        const seatCapacity = normalizeSeatCapacity(
+          driverData.seatCapacity,
+          normalizeVehicleType(driverData.vehicleType)
+        );
+        const availableSeatsRaw =
+          typeof driverData.availableSeats === 'number' && Number.isFinite(driverData.availableSeats)
+            ? Math.round(driverData.availableSeats)
+            : seatCapacity;
+        const availableSeats = Math.max(0, Math.min(availableSeatsRaw, seatCapacity));
+
+        const bookingType =
+          tripData.bookingType === BOOKING_TYPES.FULL_TAXI
+            ? BOOKING_TYPES.FULL_TAXI
+            : BOOKING_TYPES.SEAT_ONLY;
+        const reservedSeatsRaw =
+          typeof tripData.reservedSeats === 'number' && Number.isFinite(tripData.reservedSeats)
+            ? Math.round(tripData.reservedSeats)
+            : 0;
+        const reservedSeats = Math.max(0, reservedSeatsRaw);
+        const nextAvailableSeats = Math.max(0, Math.min(seatCapacity, availableSeats + reservedSeats));
+        const activeTripIds = getRemainingActiveTripIds(driverData, tripId);
+
+        // Back to PENDING with the same driverId so redispatchTrip picks it up
+        transaction.update(tripRef, {
+          status: TripStatus.PENDING,
+          acceptedAt: FieldValue.delete(),
+          acceptedDriverLocation: FieldValue.delete(),
+          reservedSeats: FieldValue.delete(),
+          declinedDriverIds: FieldValue.arrayUnion(driverId),
+          driverNotMovingReportedAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+
+        transaction.set(
+          driverRef,
+          {
+            availableSeats: nextAvailableSeats,
+            isAvailable: isDriverAvailableForDispatch({
+              isOnline: driverData.isOnline === true,
+              availableSeats: nextAvailableSeats,
+              fullTaxiReserved:
+                bookingType !== BOOKING_TYPES.FULL_TAXI && driverData.fullTaxiReserved === true,
+              activeTripCount: activeTripIds.length,
+            }),
+            activeTripIds,
+            currentTripId: activeTripIds[0] ?? null,
+            ...(bookingType === BOOKING_TYPES.FULL_TAXI
+              ? {
+                  fullTaxiReserved: false,
+                  fullTaxiReservedTripId:
+                    driverData.fullTaxiReservedTripId === tripId
+                      ? null
+                      : driverData.fullTaxiReservedTripId ?? null,
+                }
+              : {}),
+            updatedAt: FieldValue.serverTimestamp(),
+          },
+          { merge: true }
+        );
+
+        if (driverRequestDoc.exists) {
+          transaction.update(driverRequestRef, {
+            status: 'cancelled',
+            cancelledAt: FieldValue.serverTimestamp(),
+            cancellationReason: 'driver_not_moving',
+          });
+        }
+      });
+
+      logger.tripEvent('TRIP_DRIVER_NOT_MOVING', tripId, {
+        passengerId,
+        driverId: reportedDriverId,
+      });
+
+      await publishTripStatusNotifications({
+        tripId,
+        status: 'driver_not_moving',
+        recipients: [
+          {
+            userId: reportedDriverId,
+            role: 'driver',
+          },
+        ],
+      });
+
+      const redispatch = await redispatchTrip({
+        tripId,
+        previousDriverId: reportedDriverId,
+        reason: 'driver_not_moving',
+      });
+      logger.info('[DriverNotMoving] Re-dispatch result', { tripId, ...redispatch });
+
+      logger.info('[DriverNotMoving] COMPLETE', { tripId, passengerId });
+      return { tripId, outcome: redispatch.outcome };
+    } catch (error) {
+      logger.error('[DriverNotMoving] FAILED', error);
+      throw handleError(error);
+    }
+  }
+);
@@ -0,0 +1,53 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { ReportRoadblockSchema } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getSystemConfig } from '../../core/config';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { ForbiddenError, handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { assertDriverIsLicensedLineOwner } from '../../modules/auth';
+import { SubmitRoadblockReportResult, submitRoadblockReport } from '../../modules/roadblocks';
+
+interface ReportRoadblockResponse extends SubmitRoadblockReportResult {
+  success: true;
+}
+
+/**
+ * Driver reports a checkpoint or congestion at their current location.
+ *
+ * Nearby pending reports are confirmed instead of duplicated; managers
+ * moderate the queue with managerReviewRoadblockReport.
+ */
+export const reportRoadblock = onCall<unknown, Promise<ReportRoadblockResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const driverId = getAuthenticatedUserId(request);
+      if (!driverId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+      await assertDriverIsLicensedLineOwner(driverId);
+
+      const { roadblocksEnabled } = await getSystemConfig();
+      if (!roadblocksEnabled) {
+        throw new ForbiddenError('Roadblock reports are temporarily disabled.');
+      }
+
+      const parsed = ReportRoadblockSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid roadblock report', parsed.error.flatten());
+      }
+
+      const result = await submitRoadblockReport(driverId, parsed.data);
+      logger.info('🚧 [ReportRoadblock] Report recorded', { driverId, ...result });
+
+      return { success: true, ...result };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -0,0 +1,52 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { RequestCallBridgeSchema, TripChatRole } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { requestCallBridge as openCallBridge } from '../../modules/calls';
+
+interface RequestCallBridgeResponse {
+  success: true;
+  sessionId: string;
+  proxyNumber: string;
+  calleeRole: TripChatRole;
+  expiresAt: string;
+}
+
+/**
+ * Masked number for calling the other participant of an active trip.
+ *
+ * The number only connects while the trip is active; real phone numbers are
+ * never returned.
+ */
+export const requestCallBridge = onCall<unknown, Promise<RequestCallBridgeResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const userId = getAuthenticatedUserId(request);
+      if (!userId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = RequestCallBridgeSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid call request', parsed.error.flatten());
+      }
+
+      const contact = await openCallBridge(parsed.data.tripId, userId);
+      return {
+        success: true,
+        sessionId: contact.sessionId,
+        proxyNumber: contact.proxyNumber,
+        calleeRole: contact.calleeRole,
+        expiresAt: contact.expiresAt.toISOString(),
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -0,0 +1,55 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { SendTripChatMessageSchema, TripChatModerationFlag } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { handleError, UnauthorizedError, ValidationError } from '../../core/errors';
+import { getAuthenticatedUserId } from '../../core/auth';
+import { sendTripChatMessage as storeTripChatMessage } from '../../modules/chat';
+
+interface SendTripChatMessageResponse {
+  success: true;
+  messageId: string;
+  text: string;
+  moderationFlags: TripChatModerationFlag[];
+}
+
+/**
+ * Passenger or driver message in the in-trip chat.
+ *
+ * Rate limited per sender; profanity and phone numbers are masked before the
+ * message is stored.
+ */
+export const sendTripChatMessage = onCall<unknown, Promise<SendTripChatMessageResponse>>(
+  {
+    region: REGION,
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    try {
+      const userId = getAuthenticatedUserId(request);
+      if (!userId) {
+        throw new UnauthorizedError('Authentication required');
+      }
+
+      const parsed = SendTripChatMessageSchema.safeParse(request.data);
+      if (!parsed.success) {
+        throw new ValidationError('Invalid chat message', parsed.error.flatten());
+      }
+
+      const { tripId, text, quickReplyId } = parsed.data;
+      const result = await storeTripChatMessage({
+        tripId,
+        senderId: userId,
+        ...(text ? { text } : {}),
+        ...(quickReplyId ? { quickReplyId } : {}),
+      });
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      throw handleError(error);
+    }
+  }
+);
@@ -2,13 +2,14 @@ import { onCall } from 'firebase-functions/v2/https';
 import { z } from 'zod';
 import { TripStatus } from '@taxi-line/shared';
 import { REGION } from '../../core/env';
-import { getFirestore } from '../../core/config';
+import { getFirestore, getSystemConfig } from '../../core/config';
 import { handleError, ValidationError, NotFoundError, ForbiddenError, UnauthorizedError } from '../../core/errors';
 import { logger } from '../../core/logger';
 import { getAuthenticatedUserId } from '../../core/auth';
 import { FieldValue } from 'firebase-admin/firestore';
 import { publishTripStatusNotifications } from '../../modules/notifications';
 import { assertDriverIsLicensedLineOwner } from '../../modules/auth';
+import { getTripWaitCharge } from '../../modules/trips';
 
 /**
  * ============================================================================
@@ -19,6 +20,9 @@ import { assertDriverIsLicensedLineOwner } from '../../modules/auth';
  * 
  * FLOW: DRIVER_ARRIVED → IN_PROGRESS
  * 
+ * Stops the pickup wait timer: waitTimeSeconds and waitChargeIls are fixed
+ * on the trip and added to the final fare by completeTrip.
+ * 
  * ============================================================================
  * QA VERIFICATION CHECKLIST:
  * ============================================================================
@@ -91,6 +95,7 @@ export const startTrip = onCall<unknown, Promise<StartTripResponse>>(
 
       const db = getFirestore();
       const tripRef = db.collection('trips').doc(tripId);
+      const { waitTimePolicy } = await getSystemConfig();
       let passengerIdForNotify = '';
 
       // Use transaction to prevent race conditions
@@ -120,11 +125,17 @@ export const startTrip = onCall<unknown, Promise<StartTripResponse>>(
 
         logger.info('🔒 [StartTrip] Current status: driver_arrived ✓', { tripId });
         passengerIdForNotify = String(tripData.passengerId || '');
+        const { waitTimeSeconds, waitChargeIls } = getTripWaitCharge(tripData, waitTimePolicy);
+        if (waitChargeIls > 0) {
+          logger.info('⏱️ [StartTrip] Pickup wait charged', { tripId, waitTimeSeconds, waitChargeIls });
+        }
 
         // Update trip status within transaction
         transaction.update(tripRef, {
           status: TripStatus.IN_PROGRESS,
           startedAt: FieldValue.serverTimestamp(),
+          waitTimeSeconds,
+          waitChargeIls,
           updatedAt: FieldValue.serverTimestamp(),
         });
 
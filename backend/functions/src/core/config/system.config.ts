@@ -12,11 +12,32 @@
  * Provides:
  * - tripsEnabled: Global kill switch for trip creation
  * - roadblocksEnabled: Toggle roadblocks/station management
- * - paymentsEnabled: Toggle payment features (off for pilot)
+ * - paymentsEnabled: Offer card and wallet payments (off for pilot)
+ * - maxDispatchAttempts / maxDispatchRadiusKm: Re-dispatch limits
+ * - matchingStrategy: Fallback driver ranking when no office/line override
+ * - scheduledRideLeadMinutes: How early advance bookings enter dispatch
+ * - routingProvider: Primary provider for routes, ETAs and fare estimates
+ * - cancellationPolicy: Free window and late-cancel/no-show fees
+ * - waitTimePolicy: Free pickup wait and per-minute wait charge
  * 
  * ============================================================================
  */
 
+import {
+  CancellationPolicy,
+  DEFAULT_CANCELLATION_POLICY,
+  DEFAULT_MATCHING_STRATEGY,
+  DEFAULT_ROUTING_PROVIDER,
+  DEFAULT_WAIT_TIME_POLICY,
+  MatchingStrategy,
+  PILOT_LIMITS,
+  RoutingProvider,
+  WaitTimePolicy,
+  normalizeCancellationPolicy,
+  normalizeMatchingStrategy,
+  normalizeRoutingProvider,
+  normalizeWaitTimePolicy,
+} from '@taxi-line/shared';
 import { getFirestore } from './firebase.config';
 import { logger } from '../logger';
 
@@ -28,8 +49,22 @@ export interface SystemConfig {
   tripsEnabled: boolean;
   /** Roadblocks/station management feature flag */
   roadblocksEnabled: boolean;
-  /** Payments feature flag (disabled for pilot unless required) */
+  /** Card and wallet payments feature flag (disabled for pilot unless required) */
   paymentsEnabled: boolean;
+  /** How many drivers a trip is offered to before giving up */
+  maxDispatchAttempts: number;
+  /** Drivers farther than this from pickup are never offered a re-dispatch */
+  maxDispatchRadiusKm: number;
+  /** Driver ranking used when neither the line nor the office sets one */
+  matchingStrategy: MatchingStrategy;
+  /** Minutes before pickup that a scheduled ride is promoted to live dispatch */
+  scheduledRideLeadMinutes: number;
+  /** Routing provider tried first; the other one is the fallback */
+  routingProvider: RoutingProvider;
+  /** Cancellation fees charged to the passenger wallet */
+  cancellationPolicy: CancellationPolicy;
+  /** Charge for keeping the driver waiting at pickup */
+  waitTimePolicy: WaitTimePolicy;
   /** Timestamp of last update */
   updatedAt?: FirebaseFirestore.Timestamp;
   /** Who last updated the config */
@@ -43,8 +78,22 @@ const DEFAULT_CONFIG: SystemConfig = {
   tripsEnabled: true,
   roadblocksEnabled: true,
   paymentsEnabled: false, // Off by default for pilot safety
+  maxDispatchAttempts: PILOT_LIMITS.MAX_DISPATCH_ATTEMPTS,
+  maxDispatchRadiusKm: PILOT_LIMITS.MAX_DRIVER_SEARCH_RADIUS_KM,
+  matchingStrategy: DEFAULT_MATCHING_STRATEGY,
+  scheduledRideLeadMinutes: PILOT_LIMITS.SCHEDULED_RIDE_LEAD_MINUTES,
+  routingProvider: DEFAULT_ROUTING_PROVIDER,
+  cancellationPolicy: DEFAULT_CANCELLATION_POLICY,
+  waitTimePolicy: DEFAULT_WAIT_TIME_POLICY,
 };
 
+function sanitizePositiveNumber(value: unknown, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return fallback;
+  }
+  return value;
+}
+
 /**
  * Cache for system config to avoid repeated reads
  */
@@ -81,6 +130,23 @@ export async function getSystemConfig(): Promise<SystemConfig> {
         tripsEnabled: data?.tripsEnabled ?? DEFAULT_CONFIG.tripsEnabled,
         roadblocksEnabled: data?.roadblocksEnabled ?? DEFAULT_CONFIG.roadblocksEnabled,
         paymentsEnabled: data?.paymentsEnabled ?? DEFAULT_CONFIG.paymentsEnabled,
+        maxDispatchAttempts: Math.round(
+          sanitizePositiveNumber(data?.maxDispatchAttempts, DEFAULT_CONFIG.maxDispatchAttempts)
+        ),
+        maxDispatchRadiusKm: sanitizePositiveNumber(
+          data?.maxDispatchRadiusKm,
+          DEFAULT_CONFIG.maxDispatchRadiusKm
+        ),
+        matchingStrategy:
+          normalizeMatchingStrategy(data?.matchingStrategy) ?? DEFAULT_CONFIG.matchingStrategy,
+        scheduledRideLeadMinutes: sanitizePositiveNumber(
+          data?.scheduledRideLeadMinutes,
+          DEFAULT_CONFIG.scheduledRideLeadMinutes
+        ),
+        routingProvider:
+          normalizeRoutingProvider(data?.routingProvider) ?? DEFAULT_CONFIG.routingProvider,
+        cancellationPolicy: normalizeCancellationPolicy(data?.cancellationPolicy),
+        waitTimePolicy: normalizeWaitTimePolicy(data?.waitTimePolicy),
         updatedAt: data?.updatedAt,
         updatedBy: data?.updatedBy,
       };
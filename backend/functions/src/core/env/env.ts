@@ -29,6 +29,38 @@ export const MAPBOX_ACCESS_TOKEN: ReturnType<typeof defineString> = defineString
   default: '',
 });
 
+/**
+ * Preprocessed road graph for the local router, relative to the functions
+ * package root (see scripts/build-road-graph.mjs)
+ */
+export const ROAD_GRAPH_PATH: ReturnType<typeof defineString> = defineString('ROAD_GRAPH_PATH', {
+  default: 'data/road-graph.json',
+});
+
+/** SMTP relay for ops alert emails (implicit TLS unless SMTP_SECURE=false) */
+export const SMTP_HOST: ReturnType<typeof defineString> = defineString('SMTP_HOST', { default: '' });
+export const SMTP_PORT: ReturnType<typeof defineInt> = defineInt('SMTP_PORT', { default: 465 });
+export const SMTP_SECURE: ReturnType<typeof defineString> = defineString('SMTP_SECURE', { default: 'true' });
+export const SMTP_USER: ReturnType<typeof defineString> = defineString('SMTP_USER', { default: '' });
+export const SMTP_PASSWORD: ReturnType<typeof defineString> = defineString('SMTP_PASSWORD', { default: '' });
+export const SMTP_FROM: ReturnType<typeof defineString> = defineString('SMTP_FROM', { default: '' });
+
+/**
+ * Masked calling provider (see modules/calls). 'fake' hands out local
+ * numbers that do not connect and is refused in production.
+ */
+export const CALL_BRIDGE_PROVIDER: ReturnType<typeof defineString> = defineString('CALL_BRIDGE_PROVIDER', {
+  default: 'fake',
+});
+
+/**
+ * Card and wallet payment provider (see modules/payments). 'sandbox'
+ * approves every charge without moving money and is refused in production.
+ */
+export const PAYMENT_PROVIDER: ReturnType<typeof defineString> = defineString('PAYMENT_PROVIDER', {
+  default: 'sandbox',
+});
+
 export const env = {
   get region() {
     return REGION.value();
@@ -48,6 +80,28 @@ export const env = {
   get mapboxAccessToken() {
     return (process.env.MAPBOX_ACCESS_TOKEN ?? MAPBOX_ACCESS_TOKEN.value() ?? '').trim();
   },
+  get roadGraphPath() {
+    return (process.env.ROAD_GRAPH_PATH ?? ROAD_GRAPH_PATH.value() ?? '').trim();
+  },
+  get smtp() {
+    const read = (name: string, param: ReturnType<typeof defineString>) =>
+      (process.env[name] ?? param.value() ?? '').trim();
+    const port = Number(process.env.SMTP_PORT ?? SMTP_PORT.value());
+    return {
+      host: read('SMTP_HOST', SMTP_HOST),
+      port: Number.isFinite(port) && port > 0 ? port : 465,
+      secure: read('SMTP_SECURE', SMTP_SECURE) !== 'false',
+      user: read('SMTP_USER', SMTP_USER),
+      password: read('SMTP_PASSWORD', SMTP_PASSWORD),
+      from: read('SMTP_FROM', SMTP_FROM),
+    };
+  },
+  get callBridgeProvider() {
+    return (process.env.CALL_BRIDGE_PROVIDER ?? CALL_BRIDGE_PROVIDER.value() ?? '').trim() || 'fake';
+  },
+  get paymentProvider() {
+    return (process.env.PAYMENT_PROVIDER ?? PAYMENT_PROVIDER.value() ?? '').trim() || 'sandbox';
+  },
   get isDevelopment() {
     return this.environment === 'dev';
   },
@@ -50,6 +50,13 @@ export class ConflictError extends AppError {
   }
 }
 
+export class RateLimitError extends AppError {
+  constructor(message = 'Too many requests, please slow down') {
+    super('resource-exhausted', message);
+    this.name = 'RateLimitError';
+  }
+}
+
 export class InternalError extends AppError {
   constructor(message = 'Internal server error') {
     super('internal', message);
@@ -19,7 +19,10 @@ export type TripLifecycleEvent =
   | 'TRIP_STARTED'
   | 'TRIP_COMPLETED'
   | 'TRIP_CANCELLED'
+  | 'TRIP_PASSENGER_NO_SHOW'
+  | 'TRIP_DRIVER_NOT_MOVING'
   | 'TRIP_EXPIRED'
+  | 'TRIP_REDISPATCHED'
   | 'DISPATCH_FAILED'
   | 'PAYMENT_CONFIRMED'
   | 'PAYMENT_FAILED';
@@ -146,7 +149,7 @@ class Logger {
   paymentConfirmed(
     tripId: string,
     amount: number,
-    method: 'cash' | 'card',
+    method: 'cash' | 'card' | 'wallet',
     context?: LogContext
   ): void {
     const logEntry: StructuredLogEntry = {
@@ -192,7 +195,10 @@ class Logger {
       TRIP_STARTED: '🚗',
       TRIP_COMPLETED: '🏁',
       TRIP_CANCELLED: '🚫',
+      TRIP_PASSENGER_NO_SHOW: '🙈',
+      TRIP_DRIVER_NOT_MOVING: '🛑',
       TRIP_EXPIRED: '⏰',
+      TRIP_REDISPATCHED: '🔁',
       DISPATCH_FAILED: '🚫',
       PAYMENT_CONFIRMED: '💰',
       PAYMENT_FAILED: '❌',
@@ -72,17 +72,37 @@ export {
   driverArrived,
   startTrip,
   completeTrip,
+  getPaymentMethods,
   submitRating,
   submitPassengerRating,
   createSupportTicket,
+  replySupportTicket,
+  sendTripChatMessage,
+  requestCallBridge,
   getDriverEarningsSummary,
+  redeemPromoCode,
+  getReferralCode,
+  reportRoadblock,
   // Step 32: Cancel flows and kill switch
   passengerCancelTrip,
+  getCancellationFeeQuote,
   driverCancelTrip,
+  driverMarkPassengerNoShow,
+  reportDriverNotMoving,
   managerForceCancelTrip,
   managerToggleTrips,
   managerSetDriverEligibility,
   managerAcknowledgeAlert,
+  managerUpsertAlertRule,
+  managerUpsertEscalationPolicy,
+  managerModerateRatingComment,
+  managerSetDriverReview,
+  managerRecordCashHandover,
+  managerTopUpWallet,
+  managerRefundTripFare,
+  managerReplySupportTicket,
+  managerUpdateSupportTicket,
+  managerReviewRoadblockReport,
   devIssueDriverToken,
   devIssueManagerToken,
   getManagerSession,
@@ -92,7 +112,11 @@ export {
   managerUpsertVehicle,
   managerLinkDriverToOperations,
   managerUpsertPricingProfile,
+  managerRollbackPricingProfile,
+  managerSimulatePricing,
+  managerComparePricingProfile,
   managerUpsertPricingZone,
+  managerUpsertPromoCode,
   managerUpsertStaffRole,
   reportClientError,
   getSystemConfigCallable,
@@ -113,7 +137,12 @@ export { enforceDriverEligibility } from './modules/auth';
 // ============================================================================
 // Trips Module Functions
 // ============================================================================
-export { expireDriverRequests, expireStaleTrips } from './modules/trips';
+export {
+  expireDriverRequests,
+  expireStaleTrips,
+  promoteScheduledRides,
+  recordTripRouteTrail,
+} from './modules/trips';
 
 // ============================================================================
 // Pricing Module Functions
@@ -133,4 +162,47 @@ export { expireDriverRequests, expireStaleTrips } from './modules/trips';
 // ============================================================================
 // Monitoring Module Functions
 // ============================================================================
-export { aggregateOpsMetrics } from './modules/monitoring';
+export { aggregateOpsMetrics, escalateOpsAlerts, pruneOpsMetricsHistory } from './modules/monitoring';
+
+// ============================================================================
+// Roadblocks Module Functions
+// ============================================================================
+export {
+  applyRoadblockSchedules,
+  expireRoadblockReports,
+  recordRoadblockHistory,
+} from './modules/roadblocks';
+
+// ============================================================================
+// Quality Module Functions
+// ============================================================================
+export { updateDriverRatingQuality, updatePassengerRatingQuality } from './modules/quality';
+
+// ============================================================================
+// Chat Module Functions
+// ============================================================================
+export { archiveTripChatOnTripEnd } from './modules/chat';
+
+// ============================================================================
+// Calls Module Functions
+// ============================================================================
+export { closeCallBridgeOnTripChange } from './modules/calls';
+
+// ============================================================================
+// Settlements Module Functions
+// ============================================================================
+export { bookTripSettlementOnComplete, generateWeeklySettlementStatements } from './modules/settlements';
+
+// ============================================================================
+// Payments Module Functions
+// ============================================================================
+export {
+  captureWalletPaymentOnComplete,
+  voidRequestPaymentOnCancel,
+  voidTripPaymentOnCancel,
+} from './modules/payments';
+
+// ============================================================================
+// Promotions Module Functions
+// ============================================================================
+export { releasePromoOnRequestEnd, releasePromoOnTripCancel } from './modules/promotions';
@@ -0,0 +1,114 @@
+import { createHash } from 'node:crypto';
+import { env } from '../../core/env';
+import { ExternalServiceError } from '../../core/errors';
+
+/**
+ * ============================================================================
+ * CALL BRIDGE PROVIDERS
+ * ============================================================================
+ *
+ * A provider pairs the two trip participants behind proxy numbers: each
+ * participant dials their own proxy number and is connected to the other
+ * one, so neither sees the real phone number. Adding a provider means
+ * implementing CallBridgeProvider and registering it in CALL_BRIDGE_PROVIDERS
+ * under the name used in CALL_BRIDGE_PROVIDER.
+ *
+ * ============================================================================
+ */
+
+export interface CallBridgeParticipant {
+  userId: string;
+  phone: string;
+}
+
+export interface OpenCallBridgeRequest {
+  /** Stable per trip; providers may use it as an idempotency key */
+  sessionId: string;
+  participants: [CallBridgeParticipant, CallBridgeParticipant];
+  expiresAt: Date;
+}
+
+export interface CallBridgeSession {
+  providerSessionId: string;
+  /** Number each participant dials to reach the other, by userId */
+  proxyNumbers: Record<string, string>;
+}
+
+export interface CallBridgeProvider {
+  readonly name: string;
+  openSession(request: OpenCallBridgeRequest): Promise<CallBridgeSession>;
+  closeSession(providerSessionId: string): Promise<void>;
+}
+
+/**
+ * Local provider for the emulator and tests. Proxy numbers are derived from
+ * the session and participant, so repeated opens return the same numbers;
+ * nothing is dialed.
+ */
+export class FakeCallBridgeProvider implements CallBridgeProvider {
+  readonly name = 'fake';
+  private readonly sessions = new Map<string, OpenCallBridgeRequest>();
+
+  openSession(request: OpenCallBridgeRequest): Promise<CallBridgeSession> {
+    const providerSessionId = `fake-${request.sessionId}`;
+    this.sessions.set(providerSessionId, request);
+
+    const proxyNumbers: Record<string, string> = {};
+    for (const participant of request.participants) {
+      const digest = createHash('sha256').update(`${request.sessionId}:${participant.userId}`).digest();
+      proxyNumbers[participant.userId] = `+970500${String(digest.readUInt32BE(0) % 1000000).padStart(6, '0')}`;
+    }
+    return Promise.resolve({ providerSessionId, proxyNumbers });
+  }
+
+  closeSession(providerSessionId: string): Promise<void> {
+    this.sessions.delete(providerSessionId);
+    return Promise.resolve();
+  }
+
+  /** Open session by provider id; for tests */
+  getSession(providerSessionId: string): OpenCallBridgeRequest | null {
+    return this.sessions.get(providerSessionId) ?? null;
+  }
+}
+
+const CALL_BRIDGE_PROVIDERS: Record<string, () => CallBridgeProvider> = {
+  fake: () => new FakeCallBridgeProvider(),
+};
+
+let cachedProvider: CallBridgeProvider | null = null;
+let overrideProvider: CallBridgeProvider | null = null;
+
+/**
+ * Provider configured by CALL_BRIDGE_PROVIDER
+ */
+export function getCallBridgeProvider(): CallBridgeProvider {
+  if (overrideProvider) {
+    return overrideProvider;
+  }
+
+  const name = env.callBridgeProvider;
+  if (cachedProvider?.name === name) {
+    return cachedProvider;
+  }
+
+  const factory = Object.prototype.hasOwnProperty.call(CALL_BRIDGE_PROVIDERS, name)
+    ? CALL_BRIDGE_PROVIDERS[name]
+    : undefined;
+  if (!factory) {
+    throw new ExternalServiceError(`Unknown provider '${name}'`, 'CallBridge');
+  }
+  if (name === 'fake' && env.isProduction) {
+    throw new ExternalServiceError('Masked calling is not configured', 'CallBridge');
+  }
+
+  cachedProvider = factory();
+  return cachedProvider;
+}
+
+/**
+ * Use the given provider instead of the configured one; for tests
+ */
+export function setCallBridgeProvider(provider: CallBridgeProvider | null): void {
+  overrideProvider = provider;
+}
@@ -0,0 +1,320 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  CALL_BRIDGE_RULES,
+  CALL_BRIDGE_TRIP_STATUSES,
+  TripChatRole,
+  TripStatus,
+  TripTimelineEventType,
+} from '@taxi-line/shared';
+import { getAuth, getFirestore } from '../../core/config';
+import { ConflictError, ExternalServiceError, ForbiddenError, NotFoundError, RateLimitError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { getCallBridgeProvider } from './call-bridge.provider';
+
+export interface TripTimelineEvent {
+  type: TripTimelineEventType;
+  actorId: string | null;
+  actorRole: TripChatRole | 'system';
+  details?: Record<string, unknown>;
+}
+
+export interface CallBridgeContact {
+  sessionId: string;
+  /** Number the caller dials to reach the other participant */
+  proxyNumber: string;
+  calleeRole: TripChatRole;
+  expiresAt: Date;
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function phoneOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Append an event to trips/{tripId}/timeline
+ */
+export async function appendTripTimelineEvent(tripId: string, event: TripTimelineEvent): Promise<void> {
+  await getFirestore()
+    .collection('trips')
+    .doc(tripId)
+    .collection('timeline')
+    .add({
+      type: event.type,
+      actorId: event.actorId,
+      actorRole: event.actorRole,
+      details: event.details ?? {},
+      createdAt: FieldValue.serverTimestamp(),
+    });
+}
+
+/**
+ * Real phone number of a participant; only ever sent to the provider
+ */
+async function loadParticipantPhone(userId: string, role: TripChatRole): Promise<string | null> {
+  const db = getFirestore();
+  const profile = (await db.collection(role === 'driver' ? 'drivers' : 'users').doc(userId).get()).data() ?? {};
+  const stored = phoneOrNull(profile.phone) ?? phoneOrNull(profile.phoneNumber);
+  if (stored) {
+    return stored;
+  }
+
+  try {
+    return phoneOrNull((await getAuth().getUser(userId)).phoneNumber);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Masked contact for the caller to reach the other participant of an active
+ * trip. Reuses the trip's open session; opens a new one when there is none,
+ * it expired, or the driver changed.
+ */
+export async function requestCallBridge(tripId: string, userId: string): Promise<CallBridgeContact> {
+  const db = getFirestore();
+  const tripDoc = await db.collection('trips').doc(tripId).get();
+  if (!tripDoc.exists) {
+    throw new NotFoundError('Trip', tripId);
+  }
+
+  const trip = tripDoc.data() ?? {};
+  const passengerId = typeof trip.passengerId === 'string' ? trip.passengerId : '';
+  const driverId = typeof trip.driverId === 'string' ? trip.driverId : '';
+  const callerRole: TripChatRole | null =
+    userId === passengerId ? 'passenger' : userId === driverId ? 'driver' : null;
+  if (!callerRole) {
+    throw new ForbiddenError('Only trip participants can call each other');
+  }
+  if (!driverId || !CALL_BRIDGE_TRIP_STATUSES.includes(trip.status as TripStatus)) {
+    throw new ForbiddenError('Calling is only available while the trip is active');
+  }
+  const calleeRole: TripChatRole = callerRole === 'driver' ? 'passenger' : 'driver';
+
+  const sessionRef = db.collection('callBridgeSessions').doc(tripId);
+  const nowMs = Date.now();
+  const claimId = `${userId}_${nowMs}`;
+  // Reuse the open session, or claim the right to open one so two
+  // participants calling at once do not both open provider sessions
+  const claim = await db.runTransaction(async (transaction) => {
+    const session = (await transaction.get(sessionRef)).data();
+    const requestCounts = (session?.requestCounts ?? {}) as Record<string, unknown>;
+    if (Number(requestCounts[userId] ?? 0) >= CALL_BRIDGE_RULES.MAX_REQUESTS_PER_PARTICIPANT) {
+      throw new RateLimitError('Call limit reached for this trip');
+    }
+
+    const sessionExpiresAt = session?.expiresAt instanceof Timestamp ? session.expiresAt.toDate() : null;
+    const proxyNumbers = (session?.proxyNumbers ?? {}) as Record<string, unknown>;
+    const existingProxy = proxyNumbers[userId];
+    if (
+      session?.status === 'active' &&
+      session.driverId === driverId &&
+      sessionExpiresAt &&
+      sessionExpiresAt.getTime() > nowMs &&
+      typeof existingProxy === 'string'
+    ) {
+      transaction.update(sessionRef, {
+        [`requestCounts.${userId}`]: FieldValue.increment(1),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return { reused: { proxyNumber: existingProxy, expiresAt: sessionExpiresAt } };
+    }
+
+    const claimExpiresAt = session?.claimExpiresAt instanceof Timestamp ? session.claimExpiresAt.toMillis() : 0;
+    if (session?.status === 'opening' && claimExpiresAt > nowMs) {
+      throw new ConflictError('The call is being connected, please try again in a moment');
+    }
+
+    transaction.set(
+      sessionRef,
+      {
+        tripId,
+        status: 'opening',
+        claimId,
+        claimExpiresAt: Timestamp.fromMillis(nowMs + CALL_BRIDGE_RULES.OPENING_CLAIM_SECONDS * 1000),
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    return {
+      requestCounts,
+      staleProviderSessionId:
+        session?.status === 'active' && typeof session.providerSessionId === 'string'
+          ? session.providerSessionId
+          : null,
+    };
+  });
+
+  if ('reused' in claim) {
+    await appendTripTimelineEvent(tripId, {
+      type: 'call_requested',
+      actorId: userId,
+      actorRole: callerRole,
+      details: { calleeRole },
+    });
+    return { sessionId: tripId, ...claim.reused, calleeRole };
+  }
+
+  const releaseClaim = async (reason: string): Promise<void> => {
+    try {
+      await db.runTransaction(async (transaction) => {
+        const current = (await transaction.get(sessionRef)).data();
+        if (current?.status === 'opening' && current.claimId === claimId) {
+          transaction.update(sessionRef, {
+            status: 'failed',
+            claimId: null,
+            claimExpiresAt: null,
+            closeReason: reason,
+            updatedAt: FieldValue.serverTimestamp(),
+          });
+        }
+      });
+    } catch (error) {
+      // The claim still lapses after OPENING_CLAIM_SECONDS
+      logger.warn('[CallBridge] Failed to release session claim', { tripId, error: toErrorMessage(error) });
+    }
+  };
+
+  const provider = getCallBridgeProvider();
+  if (claim.staleProviderSessionId) {
+    await closeProviderSession(tripId, claim.staleProviderSessionId);
+  }
+
+  const [passengerPhone, driverPhone] = await Promise.all([
+    loadParticipantPhone(passengerId, 'passenger'),
+    loadParticipantPhone(driverId, 'driver'),
+  ]);
+  if (!passengerPhone || !driverPhone) {
+    await releaseClaim('missing_phone');
+    await appendTripTimelineEvent(tripId, {
+      type: 'call_bridge_failed',
+      actorId: userId,
+      actorRole: callerRole,
+      details: { reason: 'missing_phone', missing: !passengerPhone ? 'passenger' : 'driver' },
+    });
+    throw new ForbiddenError('Calling is unavailable: a phone number is missing for this trip');
+  }
+
+  const expiresAt = new Date(nowMs + CALL_BRIDGE_RULES.SESSION_MAX_MINUTES * 60 * 1000);
+  let opened;
+  try {
+    opened = await provider.openSession({
+      sessionId: tripId,
+      participants: [
+        { userId: passengerId, phone: passengerPhone },
+        { userId: driverId, phone: driverPhone },
+      ],
+      expiresAt,
+    });
+  } catch (error) {
+    logger.error('[CallBridge] Provider failed to open session', error, { tripId, provider: provider.name });
+    await releaseClaim('provider_error');
+    await appendTripTimelineEvent(tripId, {
+      type: 'call_bridge_failed',
+      actorId: userId,
+      actorRole: callerRole,
+      details: { reason: 'provider_error', provider: provider.name },
+    });
+    throw new ExternalServiceError('Unable to connect the call right now', 'CallBridge');
+  }
+
+  const proxyNumber = opened.proxyNumbers[userId];
+  if (!proxyNumber) {
+    await closeProviderSession(tripId, opened.providerSessionId);
+    await releaseClaim('no_proxy_number');
+    throw new ExternalServiceError('Provider returned no number for the caller', 'CallBridge');
+  }
+
+  // The trip may have ended while the provider was opening the session
+  const claimHeld = await db.runTransaction(async (transaction) => {
+    const current = (await transaction.get(sessionRef)).data();
+    if (current?.status !== 'opening' || current.claimId !== claimId) {
+      return false;
+    }
+    transaction.set(sessionRef, {
+      tripId,
+      provider: provider.name,
+      providerSessionId: opened.providerSessionId,
+      passengerId,
+      driverId,
+      proxyNumbers: opened.proxyNumbers,
+      status: 'active',
+      claimId: null,
+      claimExpiresAt: null,
+      requestCounts: { ...claim.requestCounts, [userId]: Number(claim.requestCounts[userId] ?? 0) + 1 },
+      expiresAt: Timestamp.fromDate(expiresAt),
+      closedAt: null,
+      closeReason: null,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+  if (!claimHeld) {
+    await closeProviderSession(tripId, opened.providerSessionId);
+    throw new ConflictError('The call session changed, please try again');
+  }
+
+  await appendTripTimelineEvent(tripId, {
+    type: 'call_bridge_opened',
+    actorId: null,
+    actorRole: 'system',
+    details: { provider: provider.name },
+  });
+  await appendTripTimelineEvent(tripId, {
+    type: 'call_requested',
+    actorId: userId,
+    actorRole: callerRole,
+    details: { calleeRole },
+  });
+
+  logger.info('[CallBridge] Session opened', { tripId, provider: provider.name });
+  return { sessionId: tripId, proxyNumber, calleeRole, expiresAt };
+}
+
+async function closeProviderSession(tripId: string, providerSessionId: string): Promise<void> {
+  try {
+    await getCallBridgeProvider().closeSession(providerSessionId);
+  } catch (error) {
+    // The provider session still expires on its own
+    logger.warn('[CallBridge] Provider failed to close session', {
+      tripId,
+      providerSessionId,
+      error: toErrorMessage(error),
+    });
+  }
+}
+
+/**
+ * Close the trip's call session so its proxy numbers stop connecting
+ */
+export async function closeCallBridge(tripId: string, reason: string): Promise<boolean> {
+  const sessionRef = getFirestore().collection('callBridgeSessions').doc(tripId);
+  const session = (await sessionRef.get()).data();
+  if (session?.status !== 'active' && session?.status !== 'opening') {
+    return false;
+  }
+
+  if (typeof session.providerSessionId === 'string') {
+    await closeProviderSession(tripId, session.providerSessionId);
+  }
+  // An opening claim sees the closed status and closes its provider session
+  await sessionRef.update({
+    status: 'closed',
+    claimId: null,
+    claimExpiresAt: null,
+    closedAt: FieldValue.serverTimestamp(),
+    closeReason: reason,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  await appendTripTimelineEvent(tripId, {
+    type: 'call_bridge_closed',
+    actorId: null,
+    actorRole: 'system',
+    details: { reason },
+  });
+  return true;
+}
@@ -0,0 +1,42 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { TERMINAL_TRIP_STATUSES, TripStatus } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { closeCallBridge } from './call-bridge';
+
+/**
+ * Close the masked call session when the trip ends or its driver changes
+ */
+export const closeCallBridgeOnTripChange = onDocumentUpdated(
+  {
+    region: REGION,
+    document: 'trips/{tripId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after) {
+      return;
+    }
+
+    const ended =
+      !TERMINAL_TRIP_STATUSES.includes(before.status as TripStatus) &&
+      TERMINAL_TRIP_STATUSES.includes(after.status as TripStatus);
+    const driverChanged = Boolean(before.driverId) && before.driverId !== after.driverId;
+    if (!ended && !driverChanged) {
+      return;
+    }
+
+    const tripId = event.params.tripId;
+    const reason = ended ? String(after.status) : 'driver_changed';
+    try {
+      if (await closeCallBridge(tripId, reason)) {
+        logger.info('[CallBridge] Session closed', { tripId, reason });
+      }
+    } catch (error) {
+      logger.error('[CallBridge] Failed to close session', error, { tripId, reason });
+    }
+  }
+);
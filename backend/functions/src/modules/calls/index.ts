@@ -0,0 +1,11 @@
+// Calls module - masked driver/passenger calling through a call bridge provider
+export { closeCallBridgeOnTripChange } from './closeCallBridge.firestore';
+export { appendTripTimelineEvent, closeCallBridge, requestCallBridge } from './call-bridge';
+export type { CallBridgeContact, TripTimelineEvent } from './call-bridge';
+export { FakeCallBridgeProvider, getCallBridgeProvider, setCallBridgeProvider } from './call-bridge.provider';
+export type {
+  CallBridgeParticipant,
+  CallBridgeProvider,
+  CallBridgeSession,
+  OpenCallBridgeRequest,
+} from './call-bridge.provider';
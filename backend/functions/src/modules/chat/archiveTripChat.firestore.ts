@@ -0,0 +1,40 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { TERMINAL_TRIP_STATUSES, TripStatus } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { archiveTripChat } from './trip-chat';
+
+/**
+ * Archive the trip chat once the trip reaches a terminal status
+ */
+export const archiveTripChatOnTripEnd = onDocumentUpdated(
+  {
+    region: REGION,
+    document: 'trips/{tripId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after) {
+      return;
+    }
+
+    const wasTerminal = TERMINAL_TRIP_STATUSES.includes(before.status as TripStatus);
+    const isTerminal = TERMINAL_TRIP_STATUSES.includes(after.status as TripStatus);
+    if (wasTerminal || !isTerminal) {
+      return;
+    }
+
+    const tripId = event.params.tripId;
+    try {
+      const messageCount = await archiveTripChat(tripId, after);
+      if (messageCount > 0) {
+        logger.info('[TripChat] Thread archived', { tripId, messageCount, status: after.status });
+      }
+    } catch (error) {
+      logger.error('[TripChat] Failed to archive thread', error, { tripId });
+    }
+  }
+);
@@ -0,0 +1,4 @@
+// Chat module - moderated passenger/driver trip chat and its archive
+export { archiveTripChatOnTripEnd } from './archiveTripChat.firestore';
+export { archiveTripChat, sendTripChatMessage } from './trip-chat';
+export type { SendTripChatMessageInput, SendTripChatMessageResult } from './trip-chat';
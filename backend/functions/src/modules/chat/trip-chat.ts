@@ -0,0 +1,176 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  ACTIVE_TRIP_STATUSES,
+  TRIP_CHAT_QUICK_REPLIES,
+  TRIP_CHAT_RULES,
+  TripChatModerationFlag,
+  TripChatQuickReplyId,
+  TripChatRole,
+  TripStatus,
+  moderateTripChatText,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { ForbiddenError, NotFoundError, RateLimitError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+
+export interface SendTripChatMessageInput {
+  tripId: string;
+  senderId: string;
+  text?: string;
+  quickReplyId?: TripChatQuickReplyId;
+}
+
+export interface SendTripChatMessageResult {
+  messageId: string;
+  text: string;
+  moderationFlags: TripChatModerationFlag[];
+}
+
+/**
+ * Store a chat message from a trip participant. Enforces the per-sender rate
+ * limit and masks profanity and phone numbers; the unmasked text goes to
+ * trips/{tripId}/chatModeration/{messageId} for managers.
+ */
+export async function sendTripChatMessage(input: SendTripChatMessageInput): Promise<SendTripChatMessageResult> {
+  const db = getFirestore();
+  const tripRef = db.collection('trips').doc(input.tripId);
+  const stateRef = tripRef.collection('chatState').doc(input.senderId);
+  const messageRef = tripRef.collection('messages').doc();
+
+  const quickReply = input.quickReplyId ? TRIP_CHAT_QUICK_REPLIES[input.quickReplyId] : null;
+  const rawText = (input.text ?? '').trim();
+  if (!quickReply && !rawText) {
+    throw new ValidationError('Message text or a quick reply is required');
+  }
+
+  // Quick replies are fixed text; only free text is moderated
+  const moderation = quickReply ? { text: quickReply.en, flags: [] } : moderateTripChatText(rawText);
+
+  const senderRole = await db.runTransaction(async (transaction) => {
+    const [tripDoc, stateDoc] = await Promise.all([transaction.get(tripRef), transaction.get(stateRef)]);
+    if (!tripDoc.exists) {
+      throw new NotFoundError('Trip', input.tripId);
+    }
+    const trip = tripDoc.data() ?? {};
+    const role: TripChatRole | null =
+      trip.passengerId === input.senderId ? 'passenger' : trip.driverId === input.senderId ? 'driver' : null;
+    if (!role) {
+      throw new ForbiddenError('Only trip participants can chat');
+    }
+    if (!ACTIVE_TRIP_STATUSES.includes(trip.status as TripStatus) || !trip.driverId) {
+      throw new ForbiddenError('Chat is only available while the trip is active');
+    }
+    if (quickReply && !quickReply.roles.includes(role)) {
+      throw new ValidationError('This quick reply is not available for your role');
+    }
+
+    const state = stateDoc.data() ?? {};
+    const messageCount = Number(state.messageCount ?? 0);
+    if (messageCount >= TRIP_CHAT_RULES.MAX_MESSAGES_PER_SENDER) {
+      throw new RateLimitError('Message limit reached for this trip');
+    }
+    const nowMs = Date.now();
+    const windowStartMs = nowMs - TRIP_CHAT_RULES.RATE_LIMIT_WINDOW_SECONDS * 1000;
+    const recentSentAtMs = (Array.isArray(state.recentSentAtMs) ? (state.recentSentAtMs as unknown[]) : []).filter(
+      (value): value is number => typeof value === 'number' && value > windowStartMs
+    );
+    if (recentSentAtMs.length >= TRIP_CHAT_RULES.RATE_LIMIT_MAX_MESSAGES) {
+      throw new RateLimitError('You are sending messages too quickly');
+    }
+
+    transaction.set(messageRef, {
+      senderId: input.senderId,
+      senderRole: role,
+      text: moderation.text,
+      quickReply: Boolean(quickReply),
+      quickReplyId: input.quickReplyId ?? null,
+      moderated: moderation.flags.length > 0,
+      moderationFlags: moderation.flags,
+      deliveredAt: null,
+      readAt: null,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    if (moderation.flags.length > 0) {
+      transaction.set(tripRef.collection('chatModeration').doc(messageRef.id), {
+        senderId: input.senderId,
+        senderRole: role,
+        originalText: rawText,
+        flags: moderation.flags,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+    transaction.set(stateRef, {
+      senderId: input.senderId,
+      messageCount: messageCount + 1,
+      recentSentAtMs: [...recentSentAtMs, nowMs],
+      lastSentAt: Timestamp.fromMillis(nowMs),
+    });
+    return role;
+  });
+
+  if (moderation.flags.length > 0) {
+    logger.warn('[TripChat] Message masked', {
+      tripId: input.tripId,
+      senderId: input.senderId,
+      senderRole,
+      flags: moderation.flags,
+    });
+  }
+
+  return {
+    messageId: messageRef.id,
+    text: moderation.text,
+    moderationFlags: moderation.flags,
+  };
+}
+
+/**
+ * Copy the finished trip's thread, with the unmasked text of filtered
+ * messages, to tripChatArchives/{tripId} for dispute review.
+ */
+export async function archiveTripChat(tripId: string, trip: Record<string, unknown>): Promise<number> {
+  const db = getFirestore();
+  const tripRef = db.collection('trips').doc(tripId);
+  const [messagesSnapshot, moderationSnapshot] = await Promise.all([
+    tripRef.collection('messages').orderBy('createdAt', 'asc').get(),
+    tripRef.collection('chatModeration').get(),
+  ]);
+  if (messagesSnapshot.empty) {
+    return 0;
+  }
+
+  const originals = new Map<string, unknown>();
+  for (const docSnap of moderationSnapshot.docs) {
+    originals.set(docSnap.id, docSnap.data().originalText);
+  }
+
+  const messages = messagesSnapshot.docs.map((docSnap) => {
+    const data: Record<string, unknown> = docSnap.data();
+    const originalText = originals.get(docSnap.id);
+    return {
+      messageId: docSnap.id,
+      senderId: data.senderId ?? null,
+      senderRole: data.senderRole ?? null,
+      text: data.text ?? '',
+      originalText: typeof originalText === 'string' ? originalText : null,
+      quickReplyId: data.quickReplyId ?? null,
+      moderationFlags: Array.isArray(data.moderationFlags) ? data.moderationFlags : [],
+      createdAt: data.createdAt ?? null,
+      deliveredAt: data.deliveredAt ?? null,
+      readAt: data.readAt ?? null,
+    };
+  });
+
+  await db.collection('tripChatArchives').doc(tripId).set({
+    tripId,
+    passengerId: trip.passengerId ?? null,
+    driverId: trip.driverId ?? null,
+    tripStatus: trip.status ?? null,
+    messageCount: messages.length,
+    moderatedCount: messages.filter((message) => message.originalText !== null).length,
+    messages,
+    archivedAt: FieldValue.serverTimestamp(),
+  });
+
+  return messages.length;
+}
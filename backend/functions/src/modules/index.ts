@@ -1,7 +1,17 @@
 export * from './auth';
 export * from './users';
 export * from './trips';
+export * from './routing';
+export * from './roadblocks';
 export * from './pricing';
+export * from './promotions';
 export * from './matching';
 export * from './notifications';
 export * from './monitoring';
+export * from './quality';
+export * from './support';
+export * from './chat';
+export * from './calls';
+export * from './settlements';
+export * from './payments';
+export * from './wallets';
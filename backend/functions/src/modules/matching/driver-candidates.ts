@@ -0,0 +1,430 @@
+import {
+  BOOKING_TYPES,
+  BookingType,
+  LatLng,
+  VehicleType,
+  normalizeSeatCapacity,
+  normalizeVehicleType,
+} from '@taxi-line/shared';
+import { logger } from '../../core/logger';
+import { evaluateDriverEligibility } from '../auth';
+import { queryDriversNearby } from './driver-geo-search';
+import { resolvePoolingCandidates } from './seat-pooling';
+
+/**
+ * ============================================================================
+ * DRIVER CANDIDATES - Shared dispatch filtering
+ * ============================================================================
+ *
+ * Single source of truth for "can this driver take this ride?":
+ * - Driver eligibility (licensed line owner, approved)
+ * - Office / line scope
+ * - Vehicle type preference
+ * - Seat inventory and full taxi reservations
+ * - Route destination matching (when no line is requested)
+ * - Seat pooling onto a driver's active trip (modules/matching/seat-pooling)
+ *
+ * Used by createTripRequest for the first offer and by the re-dispatch loop
+ * for every following offer, so both always apply the same rules.
+ *
+ * ============================================================================
+ */
+
+/**
+ * Normalized ride requirements used to filter drivers
+ */
+export interface DispatchRequirements {
+  bookingType: BookingType;
+  requiredSeats: number;
+  vehicleType: VehicleType | null;
+  officeId: string | null;
+  lineId: string | null;
+  destinationLabel: string | null;
+  destinationCity: string | null;
+}
+
+export type DriverSkipReason =
+  | 'ineligible'
+  | 'scope'
+  | 'no_location'
+  | 'vehicle_type'
+  | 'capacity'
+  | 'route'
+  | 'excluded'
+  | 'out_of_radius'
+  | 'pooling';
+
+export type DriverCandidateEvaluation =
+  | {
+      isMatch: true;
+      vehicleType: VehicleType | null;
+      seatCapacity: number;
+      availableSeats: number;
+    }
+  | {
+      isMatch: false;
+      reason: DriverSkipReason;
+      details: Record<string, unknown>;
+    };
+
+export interface DriverCandidate {
+  driverId: string;
+  distanceKm: number;
+  vehicleType: VehicleType | null;
+  seatCapacity: number;
+  availableSeats: number;
+  /** Set when the driver already carries passengers: the trip this ride joins */
+  poolAnchorTripId: string | null;
+  data: FirebaseFirestore.DocumentData;
+}
+
+export interface FindDriverCandidatesInput {
+  pickup: LatLng;
+  /** Needed to pool onto drivers with active trips; without it busy drivers are skipped */
+  dropoff?: LatLng | null;
+  requirements: DispatchRequirements;
+  /** Drivers that must never be offered this ride (e.g. already declined) */
+  excludeDriverIds?: string[];
+  /** Upper bound on driver distance from pickup (default and cap: PILOT_LIMITS.MAX_DRIVER_SEARCH_RADIUS_KM) */
+  maxRadiusKm?: number;
+  /** Log prefix of the calling flow */
+  logTag?: string;
+}
+
+export interface FindDriverCandidatesResult {
+  /** Matching drivers sorted by distance from pickup (nearest first) */
+  candidates: DriverCandidate[];
+  driversQueried: number;
+  skipped: Record<DriverSkipReason, number>;
+}
+
+function sanitizeId(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function normalizeText(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return normalized.length > 0 ? normalized : null;
+}
+
+function tokenizeRouteHint(value: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(/[\s,/\-\u2192\u2194]+/g)
+    .map((token) => token.trim().toLowerCase())
+    .filter((token) => token.length >= 3);
+}
+
+function normalizeRouteCities(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => (typeof item === 'string' ? item.trim().toLowerCase() : ''))
+    .filter((item) => item.length >= 2);
+}
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Haversine formula - calculates distance between two lat/lng points
+ * Returns distance in kilometers
+ */
+export function haversineDistanceKm(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+export function getDriverAvailableSeats(
+  driverData: FirebaseFirestore.DocumentData,
+  seatCapacity: number
+): number {
+  if (typeof driverData.availableSeats === 'number' && Number.isFinite(driverData.availableSeats)) {
+    const rounded = Math.round(driverData.availableSeats);
+    return Math.max(0, Math.min(rounded, seatCapacity));
+  }
+  return seatCapacity;
+}
+
+export function driverRouteMatchesDestination(
+  driverData: FirebaseFirestore.DocumentData,
+  destinationLabel: string | null,
+  destinationCity: string | null
+): boolean {
+  const tokens = new Set<string>([
+    ...tokenizeRouteHint(destinationLabel),
+    ...tokenizeRouteHint(destinationCity),
+  ]);
+
+  if (tokens.size === 0) {
+    return true;
+  }
+
+  const routeBlob = [
+    normalizeText(driverData.routePath),
+    normalizeText(driverData.routeName),
+    normalizeText(driverData.lineNumber),
+    ...normalizeRouteCities(driverData.routeCities),
+  ]
+    .filter((value): value is string => Boolean(value))
+    .join(' ');
+
+  if (!routeBlob) {
+    return false;
+  }
+
+  return Array.from(tokens).some((token) => routeBlob.includes(token));
+}
+
+/**
+ * Check a single driver document against the ride requirements.
+ * Does not check isOnline/isAvailable; callers own that decision.
+ */
+export function evaluateDriverCandidate(
+  driverData: FirebaseFirestore.DocumentData,
+  requirements: DispatchRequirements,
+  options: { requireLocation?: boolean } = {}
+): DriverCandidateEvaluation {
+  const eligibility = evaluateDriverEligibility(driverData);
+  if (!eligibility.isEligible) {
+    return {
+      isMatch: false,
+      reason: 'ineligible',
+      details: {
+        reasons: eligibility.reasons,
+        driverType: eligibility.driverType,
+        verificationStatus: eligibility.verificationStatus,
+        lineId: eligibility.lineId,
+        licenseId: eligibility.licenseId,
+      },
+    };
+  }
+
+  const driverOfficeId = sanitizeId(driverData.officeId);
+  const driverLineId = sanitizeId(driverData.lineId);
+  if (requirements.lineId && driverLineId !== requirements.lineId) {
+    return {
+      isMatch: false,
+      reason: 'scope',
+      details: { requestedLineId: requirements.lineId, driverLineId },
+    };
+  }
+
+  if (requirements.officeId && driverOfficeId !== requirements.officeId) {
+    return {
+      isMatch: false,
+      reason: 'scope',
+      details: { requestedOfficeId: requirements.officeId, driverOfficeId },
+    };
+  }
+
+  if (options.requireLocation !== false && !driverData.lastLocation) {
+    return { isMatch: false, reason: 'no_location', details: {} };
+  }
+
+  const vehicleType = normalizeVehicleType(driverData.vehicleType);
+  const seatCapacity = normalizeSeatCapacity(driverData.seatCapacity, vehicleType);
+  const availableSeats = getDriverAvailableSeats(driverData, seatCapacity);
+
+  if (requirements.vehicleType && vehicleType !== requirements.vehicleType) {
+    return {
+      isMatch: false,
+      reason: 'vehicle_type',
+      details: { requiredVehicleType: requirements.vehicleType, driverVehicleType: vehicleType },
+    };
+  }
+
+  if (driverData.fullTaxiReserved === true) {
+    return {
+      isMatch: false,
+      reason: 'capacity',
+      details: { fullTaxiReservedTripId: driverData.fullTaxiReservedTripId ?? null },
+    };
+  }
+
+  if (availableSeats <= 0) {
+    return {
+      isMatch: false,
+      reason: 'capacity',
+      details: { driverAvailableSeats: availableSeats },
+    };
+  }
+
+  if (
+    requirements.bookingType === BOOKING_TYPES.SEAT_ONLY &&
+    availableSeats < requirements.requiredSeats
+  ) {
+    return {
+      isMatch: false,
+      reason: 'capacity',
+      details: { requiredSeats: requirements.requiredSeats, driverAvailableSeats: availableSeats },
+    };
+  }
+
+  if (
+    !requirements.lineId &&
+    !driverRouteMatchesDestination(
+      driverData,
+      requirements.destinationLabel,
+      requirements.destinationCity
+    )
+  ) {
+    return {
+      isMatch: false,
+      reason: 'route',
+      details: {
+        destinationLabel: requirements.destinationLabel,
+        destinationCity: requirements.destinationCity,
+        routePath: driverData.routePath ?? null,
+        routeName: driverData.routeName ?? null,
+        routeCities: normalizeRouteCities(driverData.routeCities),
+      },
+    };
+  }
+
+  return { isMatch: true, vehicleType, seatCapacity, availableSeats };
+}
+
+/**
+ * Query online + available drivers near the pickup (geohash cells) within
+ * the requested scope and return the ones that can take the ride,
+ * nearest first.
+ */
+export async function findDriverCandidates(
+  input: FindDriverCandidatesInput
+): Promise<FindDriverCandidatesResult> {
+  const { pickup, requirements, maxRadiusKm } = input;
+  const logTag = input.logTag ?? '[Matching]';
+  const excluded = new Set(input.excludeDriverIds ?? []);
+  const skipped: Record<DriverSkipReason, number> = {
+    ineligible: 0,
+    scope: 0,
+    no_location: 0,
+    vehicle_type: 0,
+    capacity: 0,
+    route: 0,
+    excluded: 0,
+    out_of_radius: 0,
+    pooling: 0,
+  };
+
+  const nearby = await queryDriversNearby({
+    center: pickup,
+    radiusKm: maxRadiusKm,
+    lineId: requirements.lineId,
+    officeId: requirements.officeId,
+  });
+  const candidates: DriverCandidate[] = [];
+
+  nearby.docs.forEach((doc) => {
+    if (excluded.has(doc.id)) {
+      skipped.excluded += 1;
+      return;
+    }
+
+    const driverData = doc.data();
+    const evaluation = evaluateDriverCandidate(driverData, requirements);
+    if (!evaluation.isMatch) {
+      skipped[evaluation.reason] += 1;
+      logger.debug(`${logTag} Driver ${doc.id}: skipped (${evaluation.reason})`, evaluation.details);
+      return;
+    }
+
+    const location = driverData.lastLocation as FirebaseFirestore.GeoPoint;
+    const distanceKm = haversineDistanceKm(
+      pickup.lat,
+      pickup.lng,
+      location.latitude,
+      location.longitude
+    );
+
+    // Geohash cells overshoot the circle; enforce the exact radius
+    if (distanceKm > nearby.radiusKm) {
+      skipped.out_of_radius += 1;
+      logger.debug(`${logTag} Driver ${doc.id}: outside search radius`, {
+        distanceKm,
+        radiusKm: nearby.radiusKm,
+      });
+      return;
+    }
+
+    candidates.push({
+      driverId: doc.id,
+      distanceKm,
+      vehicleType: evaluation.vehicleType,
+      seatCapacity: evaluation.seatCapacity,
+      availableSeats: evaluation.availableSeats,
+      poolAnchorTripId: null,
+      data: driverData,
+    });
+
+    logger.debug(`${logTag} Driver ${doc.id}: ${distanceKm.toFixed(2)} km away`);
+  });
+
+  const pooling = await resolvePoolingCandidates(
+    candidates,
+    {
+      pickup,
+      dropoff: input.dropoff ?? null,
+      bookingType: requirements.bookingType,
+    },
+    logTag
+  );
+  skipped.pooling = pooling.skipped;
+
+  pooling.candidates.sort((a, b) => a.distanceKm - b.distanceKm);
+
+  return {
+    candidates: pooling.candidates,
+    driversQueried: nearby.docs.length,
+    skipped,
+  };
+}
+
+/**
+ * Error message used when a driver stops matching between the candidate
+ * query and the assignment transaction.
+ */
+export function describeDriverSkipReason(reason: DriverSkipReason): string {
+  switch (reason) {
+    case 'ineligible':
+      return 'Driver no longer eligible';
+    case 'scope':
+      return 'Driver no longer matches requested office/line';
+    case 'vehicle_type':
+      return 'Driver no longer matches requested vehicle type';
+    case 'capacity':
+      return 'Driver no longer has seats';
+    case 'route':
+      return 'Driver no longer matches route';
+    case 'pooling':
+      return 'Driver can no longer pool this ride';
+    default:
+      return 'Driver no longer available';
+  }
+}
@@ -0,0 +1,87 @@
+import { LatLng, PILOT_LIMITS, getGeohashQueryRanges } from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+
+/**
+ * ============================================================================
+ * DRIVER GEO SEARCH - Bounded-radius driver lookup
+ * ============================================================================
+ *
+ * Queries online + available drivers by `geohash` prefix ranges around the
+ * pickup instead of reading every online driver. The driver app writes
+ * `geohash` alongside `lastLocation` on drivers/{driverId} and driverLive.
+ *
+ * Cells are square-ish, so results can include drivers slightly outside
+ * the radius: callers must still check exact distance.
+ *
+ * Index: drivers (isOnline, isAvailable, [lineId|officeId], geohash)
+ *
+ * ============================================================================
+ */
+
+export interface NearbyDriversQuery {
+  center: LatLng;
+  /** Clamped to PILOT_LIMITS.MAX_DRIVER_SEARCH_RADIUS_KM */
+  radiusKm?: number | undefined;
+  lineId?: string | null;
+  officeId?: string | null;
+}
+
+export interface NearbyDriversResult {
+  docs: FirebaseFirestore.QueryDocumentSnapshot[];
+  radiusKm: number;
+  cellsQueried: number;
+}
+
+/**
+ * Effective search radius: requested value, never above the pilot limit
+ */
+export function getDriverSearchRadiusKm(radiusKm: number | undefined): number {
+  if (typeof radiusKm !== 'number' || !Number.isFinite(radiusKm) || radiusKm <= 0) {
+    return PILOT_LIMITS.MAX_DRIVER_SEARCH_RADIUS_KM;
+  }
+  return Math.min(radiusKm, PILOT_LIMITS.MAX_DRIVER_SEARCH_RADIUS_KM);
+}
+
+/**
+ * Online + available drivers whose geohash cell is near center
+ */
+export async function queryDriversNearby(query: NearbyDriversQuery): Promise<NearbyDriversResult> {
+  const radiusKm = getDriverSearchRadiusKm(query.radiusKm);
+  const ranges = getGeohashQueryRanges(query.center, radiusKm);
+  const db = getFirestore();
+
+  let baseQuery: FirebaseFirestore.Query = db
+    .collection('drivers')
+    .where('isOnline', '==', true)
+    .where('isAvailable', '==', true);
+
+  if (query.lineId) {
+    baseQuery = baseQuery.where('lineId', '==', query.lineId);
+  } else if (query.officeId) {
+    baseQuery = baseQuery.where('officeId', '==', query.officeId);
+  }
+
+  const snapshots = await Promise.all(
+    ranges.map((range) =>
+      baseQuery
+        .orderBy('geohash')
+        .where('geohash', '>=', range.start)
+        .where('geohash', '<', range.end)
+        .get()
+    )
+  );
+
+  // Neighbouring cells never overlap, but dedupe defensively
+  const docsById = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+  for (const snapshot of snapshots) {
+    for (const doc of snapshot.docs) {
+      docsById.set(doc.id, doc);
+    }
+  }
+
+  return {
+    docs: Array.from(docsById.values()),
+    radiusKm,
+    cellsQueried: ranges.length,
+  };
+}
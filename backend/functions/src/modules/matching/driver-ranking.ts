@@ -0,0 +1,229 @@
+import {
+  LatLng,
+  MATCHING_STRATEGIES,
+  MatchingStrategy,
+  normalizeMatchingStrategy,
+} from '@taxi-line/shared';
+import { getFirestore, getSystemConfig } from '../../core/config';
+import { logger } from '../../core/logger';
+import { calculateRoute } from '../routing';
+import { DriverCandidate } from './driver-candidates';
+
+/**
+ * ============================================================================
+ * DRIVER RANKING - Pluggable ordering of matching drivers
+ * ============================================================================
+ *
+ * findDriverCandidates decides WHO can take a ride; rankCandidates decides
+ * in WHICH ORDER they are offered it. Every strategy scores candidates
+ * (lower is better); ties fall back to straight-line distance.
+ *
+ * Strategy resolution (first match wins):
+ *   lines/{lineId}.matchingStrategy
+ *   offices/{officeId}.matchingStrategy
+ *   system/config.matchingStrategy
+ *
+ * ============================================================================
+ */
+
+export interface RankedDriverCandidate extends DriverCandidate {
+  /** Strategy score - lower ranks first */
+  score: number;
+  /** Driving ETA to pickup, only computed by the 'eta' strategy */
+  etaMin: number | null;
+}
+
+export interface RankingContext {
+  pickup: LatLng;
+  /** Log prefix of the calling flow */
+  logTag: string;
+}
+
+export type RankingStrategy = (
+  candidates: DriverCandidate[],
+  context: RankingContext
+) => Promise<RankedDriverCandidate[]>;
+
+export interface RankCandidatesInput {
+  candidates: DriverCandidate[];
+  pickup: LatLng;
+  strategy: MatchingStrategy;
+  logTag?: string;
+}
+
+export type MatchingStrategySource = 'line' | 'office' | 'system';
+
+export interface ResolvedMatchingStrategy {
+  strategy: MatchingStrategy;
+  source: MatchingStrategySource;
+}
+
+/** Only the nearest few drivers get a routing call to keep latency bounded */
+const ETA_LOOKUP_LIMIT = 5;
+/** Average city speed used when a route ETA is unavailable */
+const FALLBACK_SPEED_KMH = 30;
+/** Rating assumed for drivers without any rating yet */
+const NEUTRAL_DRIVER_RATING = 4.5;
+/** Extra effective distance per star below 5 */
+const RATING_PENALTY_PER_STAR = 0.15;
+
+function toMillis(value: unknown): number | null {
+  if (value && typeof (value as FirebaseFirestore.Timestamp).toMillis === 'function') {
+    return (value as FirebaseFirestore.Timestamp).toMillis();
+  }
+  return null;
+}
+
+function estimateEtaFromDistance(distanceKm: number): number {
+  return (distanceKm / FALLBACK_SPEED_KMH) * 60;
+}
+
+function getDriverRating(driverData: FirebaseFirestore.DocumentData): number {
+  const rating = driverData.rating as unknown;
+  if (typeof rating === 'number' && Number.isFinite(rating) && rating > 0) {
+    return Math.min(5, Math.max(1, rating));
+  }
+  return NEUTRAL_DRIVER_RATING;
+}
+
+/**
+ * When the driver became free: the later of going online and finishing
+ * their last trip. Unknown → 0, i.e. treated as idle the longest.
+ */
+function getIdleSinceMs(driverData: FirebaseFirestore.DocumentData): number {
+  const onlineSince = toMillis(driverData.onlineSince) ?? 0;
+  const lastTripCompletedAt = toMillis(driverData.lastTripCompletedAt) ?? 0;
+  return Math.max(onlineSince, lastTripCompletedAt);
+}
+
+const rankByDistance: RankingStrategy = (candidates) =>
+  Promise.resolve(
+    candidates.map((candidate) => ({
+      ...candidate,
+      score: candidate.distanceKm,
+      etaMin: null,
+    }))
+  );
+
+const rankByEta: RankingStrategy = async (candidates, context) => {
+  const nearestFirst = [...candidates].sort((a, b) => a.distanceKm - b.distanceKm);
+  const withRoutes = nearestFirst.slice(0, ETA_LOOKUP_LIMIT);
+  const withoutRoutes = nearestFirst.slice(ETA_LOOKUP_LIMIT);
+
+  const routed = await Promise.all(
+    withRoutes.map(async (candidate) => {
+      const location = candidate.data.lastLocation as FirebaseFirestore.GeoPoint;
+      try {
+        const route = await calculateRoute(
+          { lat: location.latitude, lng: location.longitude },
+          context.pickup
+        );
+        return { ...candidate, score: route.durationMin, etaMin: route.durationMin };
+      } catch (error) {
+        logger.warn(`${context.logTag} ETA lookup failed - using distance estimate`, {
+          driverId: candidate.driverId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return { ...candidate, score: estimateEtaFromDistance(candidate.distanceKm), etaMin: null };
+      }
+    })
+  );
+
+  return [
+    ...routed,
+    ...withoutRoutes.map((candidate) => ({
+      ...candidate,
+      score: estimateEtaFromDistance(candidate.distanceKm),
+      etaMin: null,
+    })),
+  ];
+};
+
+const rankByRatingWeightedDistance: RankingStrategy = (candidates) =>
+  Promise.resolve(
+    candidates.map((candidate) => {
+      const rating = getDriverRating(candidate.data);
+      return {
+        ...candidate,
+        score: candidate.distanceKm * (1 + RATING_PENALTY_PER_STAR * (5 - rating)),
+        etaMin: null,
+      };
+    })
+  );
+
+const rankByLongestIdle: RankingStrategy = (candidates) =>
+  Promise.resolve(
+    candidates.map((candidate) => ({
+      ...candidate,
+      score: getIdleSinceMs(candidate.data),
+      etaMin: null,
+    }))
+  );
+
+const RANKING_STRATEGIES: Record<MatchingStrategy, RankingStrategy> = {
+  [MATCHING_STRATEGIES.DISTANCE]: rankByDistance,
+  [MATCHING_STRATEGIES.ETA]: rankByEta,
+  [MATCHING_STRATEGIES.RATING_WEIGHTED]: rankByRatingWeightedDistance,
+  [MATCHING_STRATEGIES.FAIRNESS]: rankByLongestIdle,
+};
+
+/**
+ * Order candidates with the given strategy, best first.
+ */
+export async function rankCandidates(input: RankCandidatesInput): Promise<RankedDriverCandidate[]> {
+  const { candidates, pickup, strategy } = input;
+  const logTag = input.logTag ?? '[Matching]';
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const rankingStrategy = RANKING_STRATEGIES[strategy] ?? rankByDistance;
+  const ranked = await rankingStrategy(candidates, { pickup, logTag });
+  ranked.sort((a, b) => a.score - b.score || a.distanceKm - b.distanceKm);
+
+  logger.debug(`${logTag} Ranked ${ranked.length} candidate(s) by ${strategy}`, {
+    top: ranked.slice(0, 3).map((candidate) => ({
+      driverId: candidate.driverId,
+      score: candidate.score,
+      distanceKm: candidate.distanceKm,
+      etaMin: candidate.etaMin,
+    })),
+  });
+
+  return ranked;
+}
+
+/**
+ * Pick the ranking strategy for a ride scope: line → office → system config.
+ */
+export async function resolveMatchingStrategy(scope: {
+  officeId: string | null;
+  lineId: string | null;
+}): Promise<ResolvedMatchingStrategy> {
+  const db = getFirestore();
+  let officeId = scope.officeId;
+
+  if (scope.lineId) {
+    const lineDoc = await db.collection('lines').doc(scope.lineId).get();
+    const lineData = lineDoc.data() ?? {};
+    const lineStrategy = normalizeMatchingStrategy(lineData.matchingStrategy);
+    if (lineStrategy) {
+      return { strategy: lineStrategy, source: 'line' };
+    }
+    if (!officeId && typeof lineData.officeId === 'string' && lineData.officeId.trim()) {
+      officeId = lineData.officeId.trim();
+    }
+  }
+
+  if (officeId) {
+    const officeDoc = await db.collection('offices').doc(officeId).get();
+    const officeStrategy = normalizeMatchingStrategy(officeDoc.data()?.matchingStrategy);
+    if (officeStrategy) {
+      return { strategy: officeStrategy, source: 'office' };
+    }
+  }
+
+  const { matchingStrategy } = await getSystemConfig();
+  return { strategy: matchingStrategy, source: 'system' };
+}
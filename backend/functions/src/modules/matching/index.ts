@@ -1,6 +1,5 @@
 // Matching module - handles driver-passenger matching
-// Business logic will be added here
-
-export const matchingModule = {
-  name: 'matching',
-};
+export * from './driver-candidates';
+export * from './driver-geo-search';
+export * from './driver-ranking';
+export * from './seat-pooling';
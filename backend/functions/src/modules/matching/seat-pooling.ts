@@ -0,0 +1,272 @@
+import {
+  BOOKING_TYPES,
+  BookingType,
+  LatLng,
+  PILOT_LIMITS,
+  TripStatus,
+  isTripAlongRoute,
+  projectOntoRoute,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { logger } from '../../core/logger';
+import type { DriverCandidate } from './driver-candidates';
+
+/**
+ * ============================================================================
+ * SEAT POOLING - Attach seat-only rides to a line taxi already on the road
+ * ============================================================================
+ *
+ * A licensed line taxi carries several passengers along the same route.
+ * A driver who already has accepted seat-only trips stays `isAvailable`
+ * while seats remain; before such a driver is offered another ride:
+ * - the new ride must be seat-only
+ * - the driver must be below PILOT_LIMITS.MAX_POOLED_TRIPS_PER_DRIVER
+ * - the anchor trip (first active trip) must be seat-only and active
+ * - pickup and dropoff must lie within POOLING_ROUTE_CORRIDOR_KM of the
+ *   anchor route, in the same direction
+ * - the driver must not have driven past the new pickup yet
+ *
+ * Lines carry no stop or path geometry yet, so the anchor route is the
+ * straight segment from the anchor's pickup to its dropoff. This is an
+ * approximation: on a curved line route, riders near the road but far
+ * from the chord are rejected, and riders near the chord but off the
+ * road can be accepted.
+ *
+ * drivers/{driverId}.activeTripIds lists every accepted, unfinished trip;
+ * currentTripId keeps pointing at the anchor for older clients.
+ *
+ * ============================================================================
+ */
+
+export interface PoolingRequest {
+  pickup: LatLng;
+  dropoff: LatLng | null;
+  bookingType: BookingType;
+}
+
+export interface ResolvePoolingResult {
+  candidates: DriverCandidate[];
+  skipped: number;
+}
+
+/** Accepted trips a new passenger can still join */
+const POOLABLE_ANCHOR_STATUSES: TripStatus[] = [
+  TripStatus.ACCEPTED,
+  TripStatus.DRIVER_ARRIVED,
+  TripStatus.IN_PROGRESS,
+];
+
+interface AnchorTripFields {
+  status?: unknown;
+  bookingType?: unknown;
+  pickup?: LatLng;
+  dropoff?: LatLng;
+}
+
+function sanitizeId(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function isLatLng(value: unknown): value is LatLng {
+  const point = value as LatLng | null | undefined;
+  return (
+    typeof point?.lat === 'number' &&
+    Number.isFinite(point.lat) &&
+    typeof point?.lng === 'number' &&
+    Number.isFinite(point.lng)
+  );
+}
+
+/**
+ * Accepted, unfinished trips of a driver. Falls back to currentTripId for
+ * documents written before activeTripIds existed.
+ */
+export function getDriverActiveTripIds(driverData: FirebaseFirestore.DocumentData): string[] {
+  if (Array.isArray(driverData.activeTripIds)) {
+    return (driverData.activeTripIds as unknown[])
+      .map(sanitizeId)
+      .filter((tripId): tripId is string => Boolean(tripId));
+  }
+
+  const currentTripId = sanitizeId(driverData.currentTripId);
+  return currentTripId ? [currentTripId] : [];
+}
+
+/**
+ * Active trips left once tripId finishes, is cancelled or its offer is
+ * withdrawn. The first entry becomes the driver's new currentTripId.
+ */
+export function getRemainingActiveTripIds(
+  driverData: FirebaseFirestore.DocumentData,
+  tripId: string
+): string[] {
+  return getDriverActiveTripIds(driverData).filter((activeTripId) => activeTripId !== tripId);
+}
+
+/**
+ * Whether a driver can receive new offers after their trip set changes.
+ * Drivers with active trips stay available only for pooled seat-only rides.
+ */
+export function isDriverAvailableForDispatch(input: {
+  isOnline: boolean;
+  availableSeats: number;
+  fullTaxiReserved: boolean;
+  activeTripCount: number;
+}): boolean {
+  return (
+    input.isOnline &&
+    input.availableSeats > 0 &&
+    !input.fullTaxiReserved &&
+    input.activeTripCount < PILOT_LIMITS.MAX_POOLED_TRIPS_PER_DRIVER
+  );
+}
+
+/**
+ * Transaction re-check: the driver's trip set must still be the one the
+ * candidate was evaluated against (idle stays idle, pooled keeps its anchor).
+ */
+export function isPoolingStateCurrent(
+  driverData: FirebaseFirestore.DocumentData,
+  poolAnchorTripId: string | null
+): boolean {
+  const activeTripIds = getDriverActiveTripIds(driverData);
+  if (!poolAnchorTripId) {
+    return activeTripIds.length === 0;
+  }
+  return (
+    activeTripIds[0] === poolAnchorTripId &&
+    activeTripIds.length < PILOT_LIMITS.MAX_POOLED_TRIPS_PER_DRIVER
+  );
+}
+
+function evaluatePoolingFit(
+  candidate: DriverCandidate,
+  anchorTrip: AnchorTripFields | undefined,
+  request: PoolingRequest,
+  activeTripCount: number
+): { isMatch: boolean; details: Record<string, unknown> } {
+  if (request.bookingType !== BOOKING_TYPES.SEAT_ONLY) {
+    return { isMatch: false, details: { reason: 'not_seat_only', bookingType: request.bookingType } };
+  }
+
+  if (activeTripCount >= PILOT_LIMITS.MAX_POOLED_TRIPS_PER_DRIVER) {
+    return { isMatch: false, details: { reason: 'pool_full', activeTripCount } };
+  }
+
+  if (
+    !anchorTrip ||
+    !POOLABLE_ANCHOR_STATUSES.includes(anchorTrip.status as TripStatus) ||
+    anchorTrip.bookingType === BOOKING_TYPES.FULL_TAXI
+  ) {
+    return {
+      isMatch: false,
+      details: {
+        reason: 'anchor_not_poolable',
+        anchorStatus: anchorTrip?.status ?? null,
+        anchorBookingType: anchorTrip?.bookingType ?? null,
+      },
+    };
+  }
+
+  if (!request.dropoff || !isLatLng(anchorTrip.pickup) || !isLatLng(anchorTrip.dropoff)) {
+    return { isMatch: false, details: { reason: 'route_unknown' } };
+  }
+
+  // Straight-line approximation of the line route (see header)
+  const route = [anchorTrip.pickup, anchorTrip.dropoff];
+  const corridorKm = PILOT_LIMITS.POOLING_ROUTE_CORRIDOR_KM;
+
+  if (!isTripAlongRoute({ pickup: request.pickup, dropoff: request.dropoff, route, corridorKm })) {
+    return { isMatch: false, details: { reason: 'off_route', corridorKm } };
+  }
+
+  const location = candidate.data.lastLocation as FirebaseFirestore.GeoPoint;
+  const driverProjection = projectOntoRoute({ lat: location.latitude, lng: location.longitude }, route);
+  const pickupProjection = projectOntoRoute(request.pickup, route);
+  if (
+    driverProjection &&
+    pickupProjection &&
+    driverProjection.alongRouteKm > pickupProjection.alongRouteKm + corridorKm
+  ) {
+    return {
+      isMatch: false,
+      details: {
+        reason: 'pickup_behind_driver',
+        driverAlongRouteKm: driverProjection.alongRouteKm,
+        pickupAlongRouteKm: pickupProjection.alongRouteKm,
+      },
+    };
+  }
+
+  return { isMatch: true, details: {} };
+}
+
+/**
+ * Keep idle drivers as-is and only the poolable busy ones, tagging the
+ * latter with the trip they are pooled onto.
+ */
+export async function resolvePoolingCandidates(
+  candidates: DriverCandidate[],
+  request: PoolingRequest,
+  logTag: string
+): Promise<ResolvePoolingResult> {
+  const anchorTripIds = new Map<string, string>();
+  for (const candidate of candidates) {
+    const activeTripIds = getDriverActiveTripIds(candidate.data);
+    if (activeTripIds.length > 0) {
+      anchorTripIds.set(candidate.driverId, activeTripIds[0]!);
+    }
+  }
+
+  if (anchorTripIds.size === 0) {
+    return { candidates, skipped: 0 };
+  }
+
+  const db = getFirestore();
+  const uniqueAnchorIds = Array.from(new Set(anchorTripIds.values()));
+  const anchorDocs = await db.getAll(
+    ...uniqueAnchorIds.map((tripId) => db.collection('trips').doc(tripId))
+  );
+  const anchorsById = new Map<string, AnchorTripFields>();
+  anchorDocs.forEach((doc) => {
+    if (doc.exists) {
+      anchorsById.set(doc.id, doc.data() as AnchorTripFields);
+    }
+  });
+
+  const resolved: DriverCandidate[] = [];
+  let skipped = 0;
+
+  for (const candidate of candidates) {
+    const anchorTripId = anchorTripIds.get(candidate.driverId);
+    if (!anchorTripId) {
+      resolved.push(candidate);
+      continue;
+    }
+
+    const fit = evaluatePoolingFit(
+      candidate,
+      anchorsById.get(anchorTripId),
+      request,
+      getDriverActiveTripIds(candidate.data).length
+    );
+
+    if (!fit.isMatch) {
+      skipped += 1;
+      logger.debug(`${logTag} Driver ${candidate.driverId}: skipped (pooling)`, {
+        anchorTripId,
+        ...fit.details,
+      });
+      continue;
+    }
+
+    resolved.push({ ...candidate, poolAnchorTripId: anchorTripId });
+    logger.debug(`${logTag} Driver ${candidate.driverId}: poolable onto ${anchorTripId}`);
+  }
+
+  return { candidates: resolved, skipped };
+}
@@ -1,78 +1,21 @@
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { ALERT_RULE_METRIC_INFO, opsMetricsBucketStart } from '@taxi-line/shared';
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { REGION } from '../../core/env';
 import { getFirestore } from '../../core/config';
 import { logger } from '../../core/logger';
-
-type AlertSeverity = 'warning' | 'critical';
-
-interface AlertState {
-  alertId: string;
-  title: string;
-  message: string;
-  severity: AlertSeverity;
-  details: Record<string, unknown>;
-}
+import { evaluateAlertRules, loadAlertRules } from './alert-rules';
+import { recordOpsMetricsHistory } from './metrics-history';
 
 const ACTIVE_TRIP_STATUSES = ['pending', 'accepted', 'driver_arrived', 'in_progress'];
-const ALERT_ID_FATAL_ERRORS = 'fatal_errors';
-const ALERT_ID_HIGH_ERROR_RATE = 'high_error_rate';
-const ALERT_ID_NO_ONLINE_DRIVERS = 'no_online_drivers';
-const ALERT_ID_DISPATCH_STARVATION = 'dispatch_starvation';
-
-async function upsertAlert(alert: AlertState): Promise<void> {
-  const db = getFirestore();
-  const ref = db.collection('opsAlerts').doc(alert.alertId);
-  const existing = await ref.get();
-
-  if (existing.exists && existing.data()?.status === 'open') {
-    await ref.set(
-      {
-        title: alert.title,
-        message: alert.message,
-        severity: alert.severity,
-        details: alert.details,
-        status: 'open',
-        updatedAt: FieldValue.serverTimestamp(),
-      },
-      { merge: true }
-    );
-    return;
-  }
+const METRICS_ERRORS_WINDOW_MINUTES = 15;
 
-  await ref.set(
-    {
-      alertId: alert.alertId,
-      title: alert.title,
-      message: alert.message,
-      severity: alert.severity,
-      details: alert.details,
-      status: 'open',
-      acknowledgedAt: null,
-      acknowledgedBy: null,
-      openedAt: FieldValue.serverTimestamp(),
-      updatedAt: FieldValue.serverTimestamp(),
-      resolvedAt: null,
-    },
-    { merge: true }
-  );
+function toMillis(value: unknown): number {
+  return value instanceof Timestamp ? value.toMillis() : 0;
 }
 
-async function resolveAlert(alertId: string): Promise<void> {
-  const db = getFirestore();
-  const ref = db.collection('opsAlerts').doc(alertId);
-  const existing = await ref.get();
-  if (!existing.exists || existing.data()?.status !== 'open') {
-    return;
-  }
-  await ref.set(
-    {
-      status: 'resolved',
-      resolvedAt: FieldValue.serverTimestamp(),
-      updatedAt: FieldValue.serverTimestamp(),
-    },
-    { merge: true }
-  );
+function toScopeId(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
 }
 
 export const aggregateOpsMetrics = onSchedule(
@@ -85,21 +28,54 @@ export const aggregateOpsMetrics = onSchedule(
   async () => {
     const db = getFirestore();
     const now = Timestamp.now();
-    const errorsWindowStart = Timestamp.fromMillis(now.toMillis() - 15 * 60 * 1000);
+    const alertRules = await loadAlertRules();
+    // Load errors far enough back for the longest enabled error rule
+    const errorsLookbackMinutes = alertRules.reduce(
+      (longest, rule) =>
+        rule.enabled && !ALERT_RULE_METRIC_INFO[rule.metric].officeScoped
+          ? Math.max(longest, rule.windowMinutes)
+          : longest,
+      METRICS_ERRORS_WINDOW_MINUTES
+    );
+    const errorsWindowStart = Timestamp.fromMillis(now.toMillis() - errorsLookbackMinutes * 60 * 1000);
+    const metricsErrorsStartMs = now.toMillis() - METRICS_ERRORS_WINDOW_MINUTES * 60 * 1000;
     const tripsWindowStart = Timestamp.fromMillis(now.toMillis() - 24 * 60 * 60 * 1000);
+    // History records the 5-minute window that just closed
+    const historyWindowEndMs = opsMetricsBucketStart('5m', now.toMillis());
+    const historyWindowStartMs = historyWindowEndMs - 5 * 60 * 1000;
+    const inHistoryWindow = (timestampMs: number) =>
+      timestampMs >= historyWindowStartMs && timestampMs < historyWindowEndMs;
 
     logger.info('[OpsMetrics] Aggregation started');
 
-    const [errorsSnapshot, activeTripsSnapshot, trips24hSnapshot, onlineDriversSnapshot] =
-      await Promise.all([
-        db.collection('opsErrors').where('createdAt', '>=', errorsWindowStart).get(),
-        db.collection('trips').where('status', 'in', ACTIVE_TRIP_STATUSES).get(),
-        db.collection('trips').where('createdAt', '>=', tripsWindowStart).get(),
-        db.collection('drivers').where('isOnline', '==', true).get(),
-      ]);
+    const historyWindowStart = Timestamp.fromMillis(historyWindowStartMs);
+    const historyWindowEnd = Timestamp.fromMillis(historyWindowEndMs);
+    const [
+      errorsSnapshot,
+      activeTripsSnapshot,
+      trips24hSnapshot,
+      onlineDriversSnapshot,
+      completedInWindowSnapshot,
+      cancelledInWindowSnapshot,
+    ] = await Promise.all([
+      db.collection('opsErrors').where('createdAt', '>=', errorsWindowStart).get(),
+      db.collection('trips').where('status', 'in', ACTIVE_TRIP_STATUSES).get(),
+      db.collection('trips').where('createdAt', '>=', tripsWindowStart).get(),
+      db.collection('drivers').where('isOnline', '==', true).get(),
+      db
+        .collection('trips')
+        .where('completedAt', '>=', historyWindowStart)
+        .where('completedAt', '<', historyWindowEnd)
+        .get(),
+      db
+        .collection('trips')
+        .where('cancelledAt', '>=', historyWindowStart)
+        .where('cancelledAt', '<', historyWindowEnd)
+        .get(),
+    ]);
 
     const errorCounters = {
-      total: errorsSnapshot.size,
+      total: 0,
       info: 0,
       warning: 0,
       error: 0,
@@ -107,10 +83,18 @@ export const aggregateOpsMetrics = onSchedule(
       byApp: {} as Record<string, number>,
     };
 
+    const ruleErrors: Array<{ createdAtMs: number; severity: string }> = [];
+    const historyErrors: Array<{ severity: string }> = [];
     errorsSnapshot.forEach((docSnap) => {
       const data = docSnap.data();
       const severity = typeof data.severity === 'string' ? data.severity : 'error';
       const app = typeof data.app === 'string' ? data.app : 'unknown';
+      const createdAtMs = toMillis(data.createdAt);
+      ruleErrors.push({ createdAtMs, severity });
+      if (inHistoryWindow(createdAtMs)) historyErrors.push({ severity });
+      if (createdAtMs < metricsErrorsStartMs) return;
+
+      errorCounters.total += 1;
 
       if (severity === 'fatal') errorCounters.fatal += 1;
       else if (severity === 'error') errorCounters.error += 1;
@@ -122,8 +106,15 @@ export const aggregateOpsMetrics = onSchedule(
 
     let pendingTrips = 0;
     let inProgressTrips = 0;
+    const ruleActiveTrips: Array<{ status: string; officeId: string | null; lineId: string | null }> = [];
     activeTripsSnapshot.forEach((docSnap) => {
-      const status = docSnap.data()?.status;
+      const data = docSnap.data();
+      const status = data?.status;
+      ruleActiveTrips.push({
+        status: String(status),
+        officeId: toScopeId(data?.requestedOfficeId),
+        lineId: toScopeId(data?.requestedLineId),
+      });
       if (status === 'pending') pendingTrips += 1;
       if (status === 'in_progress' || status === 'accepted' || status === 'driver_arrived') {
         inProgressTrips += 1;
@@ -132,23 +123,41 @@ export const aggregateOpsMetrics = onSchedule(
 
     let completedTrips24h = 0;
     let cancelledTrips24h = 0;
+    const ruleRecentTrips: Array<{ createdAtMs: number; status: string; officeId: string | null }> = [];
+    const historyCreatedTrips: Array<{ officeId: string | null; lineId: string | null }> = [];
     trips24hSnapshot.forEach((docSnap) => {
-      const status = docSnap.data()?.status;
+      const data = docSnap.data();
+      const status = data?.status;
+      const createdAtMs = toMillis(data?.createdAt);
+      const officeId = toScopeId(data?.requestedOfficeId);
+      ruleRecentTrips.push({ createdAtMs, status: String(status), officeId });
+      if (inHistoryWindow(createdAtMs)) {
+        historyCreatedTrips.push({ officeId, lineId: toScopeId(data?.requestedLineId) });
+      }
       if (status === 'completed' || status === 'rated') completedTrips24h += 1;
       if (
         status === 'cancelled' ||
         status === 'cancelled_by_passenger' ||
         status === 'cancelled_by_driver' ||
         status === 'cancelled_by_system' ||
-        status === 'no_driver_available'
+        status === 'no_driver_available' ||
+        status === 'passenger_no_show'
       ) {
         cancelledTrips24h += 1;
       }
     });
 
     let onlineAvailableDrivers = 0;
+    const ruleOnlineDrivers: Array<{ isAvailable: boolean; officeId: string | null; lineId: string | null }> = [];
     onlineDriversSnapshot.forEach((docSnap) => {
-      if (docSnap.data()?.isAvailable === true) {
+      const data = docSnap.data();
+      const isAvailable = data?.isAvailable === true;
+      ruleOnlineDrivers.push({
+        isAvailable,
+        officeId: toScopeId(data?.officeId),
+        lineId: toScopeId(data?.lineId),
+      });
+      if (isAvailable) {
         onlineAvailableDrivers += 1;
       }
     });
@@ -156,7 +165,7 @@ export const aggregateOpsMetrics = onSchedule(
     const metricsPayload = {
       generatedAt: FieldValue.serverTimestamp(),
       windows: {
-        errorsMinutes: 15,
+        errorsMinutes: METRICS_ERRORS_WINDOW_MINUTES,
         tripsHours: 24,
       },
       errors: errorCounters,
@@ -176,81 +185,40 @@ export const aggregateOpsMetrics = onSchedule(
 
     await db.collection('opsMetrics').doc('current').set(metricsPayload, { merge: true });
 
-    const pendingAlertOps: Promise<void>[] = [];
-
-    if (errorCounters.fatal > 0) {
-      pendingAlertOps.push(
-        upsertAlert({
-          alertId: ALERT_ID_FATAL_ERRORS,
-          title: 'Fatal client errors detected',
-          message: `${errorCounters.fatal} fatal error(s) reported in last 15 minutes`,
-          severity: 'critical',
-          details: {
-            fatal: errorCounters.fatal,
-            byApp: errorCounters.byApp,
-          },
-        })
-      );
-    } else {
-      pendingAlertOps.push(resolveAlert(ALERT_ID_FATAL_ERRORS));
-    }
-
-    if (errorCounters.error >= 20) {
-      pendingAlertOps.push(
-        upsertAlert({
-          alertId: ALERT_ID_HIGH_ERROR_RATE,
-          title: 'High error rate',
-          message: `${errorCounters.error} error-level reports in last 15 minutes`,
-          severity: 'warning',
-          details: {
-            errorCount: errorCounters.error,
-            byApp: errorCounters.byApp,
-          },
-        })
-      );
-    } else {
-      pendingAlertOps.push(resolveAlert(ALERT_ID_HIGH_ERROR_RATE));
-    }
-
-    if (onlineDriversSnapshot.size === 0) {
-      pendingAlertOps.push(
-        upsertAlert({
-          alertId: ALERT_ID_NO_ONLINE_DRIVERS,
-          title: 'No online drivers',
-          message: 'No drivers are currently online.',
-          severity: 'critical',
-          details: {},
-        })
-      );
-    } else {
-      pendingAlertOps.push(resolveAlert(ALERT_ID_NO_ONLINE_DRIVERS));
-    }
+    await evaluateAlertRules(alertRules, {
+      nowMs: now.toMillis(),
+      errors: ruleErrors,
+      activeTrips: ruleActiveTrips,
+      recentTrips: ruleRecentTrips,
+      onlineDrivers: ruleOnlineDrivers,
+    });
 
-    if (pendingTrips > 0 && onlineAvailableDrivers === 0) {
-      pendingAlertOps.push(
-        upsertAlert({
-          alertId: ALERT_ID_DISPATCH_STARVATION,
-          title: 'Dispatch starvation',
-          message: `${pendingTrips} pending trip(s) with no available online drivers`,
-          severity: 'critical',
-          details: {
-            pendingTrips,
-            onlineDrivers: onlineDriversSnapshot.size,
-            availableOnlineDrivers: onlineAvailableDrivers,
-          },
-        })
-      );
-    } else {
-      pendingAlertOps.push(resolveAlert(ALERT_ID_DISPATCH_STARVATION));
+    const toTripScope = (docSnap: FirebaseFirestore.QueryDocumentSnapshot) => ({
+      officeId: toScopeId(docSnap.get('requestedOfficeId')),
+      lineId: toScopeId(docSnap.get('requestedLineId')),
+    });
+    let historyWrites = 0;
+    try {
+      historyWrites = await recordOpsMetricsHistory({
+        windowStartMs: historyWindowStartMs,
+        onlineDrivers: ruleOnlineDrivers,
+        activeTrips: ruleActiveTrips,
+        createdTrips: historyCreatedTrips,
+        completedTrips: completedInWindowSnapshot.docs.map(toTripScope),
+        cancelledTrips: cancelledInWindowSnapshot.docs.map(toTripScope),
+        errors: historyErrors,
+      });
+    } catch (error) {
+      logger.error('[OpsMetricsHistory] Failed to record history', error, { historyWindowStartMs });
     }
 
-    await Promise.all(pendingAlertOps);
-
     logger.info('[OpsMetrics] Aggregation complete', {
       errors: errorCounters.total,
       activeTrips: activeTripsSnapshot.size,
       onlineDrivers: onlineDriversSnapshot.size,
       availableOnlineDrivers: onlineAvailableDrivers,
+      alertRules: alertRules.length,
+      historyWrites,
     });
   }
 );
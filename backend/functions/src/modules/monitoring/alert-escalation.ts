@@ -0,0 +1,219 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  AlertEscalationPolicy,
+  AlertEscalationPolicySchema,
+  DEFAULT_ALERT_ESCALATION_POLICY_ID,
+  ManagerRole,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { logger } from '../../core/logger';
+import { AlertChannelRecipient, sendOpsAlertNotification } from '../notifications';
+
+interface EscalationTarget {
+  policyId: string;
+  policy: AlertEscalationPolicy;
+  officeId: string | null;
+}
+
+function toMillis(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null;
+}
+
+async function loadPolicy(policyId: string): Promise<AlertEscalationPolicy | null> {
+  const db = getFirestore();
+  const policyDoc = await db.collection('alertEscalationPolicies').doc(policyId).get();
+  if (!policyDoc.exists) return null;
+
+  const parsed = AlertEscalationPolicySchema.safeParse(policyDoc.data());
+  if (!parsed.success) {
+    logger.warn('[AlertEscalation] Skipping invalid policy', { policyId, issues: parsed.error.flatten() });
+    return null;
+  }
+  return parsed.data.enabled ? parsed.data : null;
+}
+
+/**
+ * Policy and office scope for an alert, from the rule that raised it
+ */
+async function resolveEscalationTarget(
+  ruleId: string,
+  policies: Map<string, Promise<AlertEscalationPolicy | null>>
+): Promise<EscalationTarget | null> {
+  const db = getFirestore();
+  const ruleDoc = await db.collection('alertRules').doc(ruleId).get();
+  const ruleData = ruleDoc.data() ?? {};
+  const policyId =
+    typeof ruleData.escalationPolicyId === 'string' && ruleData.escalationPolicyId
+      ? ruleData.escalationPolicyId
+      : DEFAULT_ALERT_ESCALATION_POLICY_ID;
+
+  if (!policies.has(policyId)) {
+    policies.set(policyId, loadPolicy(policyId));
+  }
+  const policy = await policies.get(policyId);
+  if (!policy) return null;
+
+  return {
+    policyId,
+    policy,
+    officeId: typeof ruleData.officeId === 'string' && ruleData.officeId ? ruleData.officeId : null,
+  };
+}
+
+/**
+ * Active managers holding one of `roles`. Office-scoped alerts only reach
+ * managers with access to that office.
+ */
+async function loadStepRecipients(roles: ManagerRole[], officeId: string | null): Promise<AlertChannelRecipient[]> {
+  const db = getFirestore();
+  const rolesSnapshot = await db.collection('managerRoles').where('role', 'in', roles).get();
+
+  const userIds = rolesSnapshot.docs
+    .filter((docSnap) => {
+      const data = docSnap.data();
+      if (data.isActive === false) return false;
+      if (!officeId) return true;
+      const officeIds = Array.isArray(data.officeIds) ? (data.officeIds as unknown[]) : [];
+      const lineIds = Array.isArray(data.lineIds) ? (data.lineIds as unknown[]) : [];
+      const isGlobalScope = officeIds.length === 0 && lineIds.length === 0;
+      return isGlobalScope || officeIds.includes(officeId);
+    })
+    .map((docSnap) => docSnap.id);
+
+  if (userIds.length === 0) return [];
+
+  const userDocs = await db.getAll(...userIds.map((userId) => db.collection('users').doc(userId)));
+  return userDocs.map((userDoc) => {
+    const email: unknown = userDoc.data()?.email;
+    return {
+      userId: userDoc.id,
+      email: typeof email === 'string' && email.includes('@') ? email.trim() : null,
+    };
+  });
+}
+
+/**
+ * Claim steps [fromLevel, toLevel) of an alert so overlapping runs never
+ * notify twice. Fails when the alert was acknowledged, resolved or already
+ * escalated in the meantime.
+ */
+async function claimEscalationSteps(alertId: string, fromLevel: number, toLevel: number): Promise<boolean> {
+  const db = getFirestore();
+  const alertRef = db.collection('opsAlerts').doc(alertId);
+
+  return db.runTransaction(async (transaction) => {
+    const alertDoc = await transaction.get(alertRef);
+    const data = alertDoc.data();
+    if (!data || data.status !== 'open' || data.acknowledgedAt) return false;
+    if ((typeof data.escalationLevel === 'number' ? data.escalationLevel : 0) !== fromLevel) return false;
+
+    transaction.update(alertRef, {
+      escalationLevel: toLevel,
+      lastEscalatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+async function escalateAlert(
+  alertDoc: FirebaseFirestore.QueryDocumentSnapshot,
+  nowMs: number,
+  policies: Map<string, Promise<AlertEscalationPolicy | null>>
+): Promise<number> {
+  const data = alertDoc.data();
+  if (data.acknowledgedAt) return 0;
+
+  const openedAtMs = toMillis(data.openedAt);
+  if (openedAtMs === null) return 0;
+
+  const details = (data.details ?? {}) as Record<string, unknown>;
+  const ruleId = typeof details.ruleId === 'string' ? details.ruleId : alertDoc.id;
+  const target = await resolveEscalationTarget(ruleId, policies);
+  if (!target) return 0;
+
+  const level = typeof data.escalationLevel === 'number' ? data.escalationLevel : 0;
+  const elapsedMinutes = (nowMs - openedAtMs) / 60000;
+  let nextLevel = level;
+  while ((target.policy.steps[nextLevel]?.afterMinutes ?? Infinity) <= elapsedMinutes) {
+    nextLevel += 1;
+  }
+  if (nextLevel === level) return 0;
+
+  const claimed = await claimEscalationSteps(alertDoc.id, level, nextLevel);
+  if (!claimed) return 0;
+
+  const db = getFirestore();
+  const auditRef = db.collection('opsAlerts').doc(alertDoc.id).collection('notifications');
+  let attempts = 0;
+
+  for (let stepIndex = level; stepIndex < nextLevel; stepIndex += 1) {
+    const step = target.policy.steps[stepIndex];
+    if (!step) continue;
+
+    const recipients = await loadStepRecipients(step.roles, target.officeId);
+    const notification = {
+      alertId: alertDoc.id,
+      title: String(data.title ?? alertDoc.id),
+      message: String(data.message ?? ''),
+      severity: data.severity === 'critical' ? ('critical' as const) : ('warning' as const),
+      step: stepIndex,
+      openedAtMs,
+    };
+
+    for (const channel of step.channels) {
+      const results =
+        recipients.length === 0 && channel !== 'webhook'
+          ? [{ recipient: step.roles.join(','), status: 'skipped' as const, error: 'No active managers in these roles' }]
+          : await sendOpsAlertNotification(channel, notification, {
+              recipients,
+              webhookUrl: target.policy.webhookUrl ?? null,
+            });
+
+      const batch = db.batch();
+      for (const result of results) {
+        batch.set(auditRef.doc(), {
+          policyId: target.policyId,
+          step: stepIndex,
+          channel,
+          recipient: result.recipient,
+          status: result.status,
+          error: result.error,
+          attemptedAt: FieldValue.serverTimestamp(),
+        });
+      }
+      await batch.commit();
+      attempts += results.length;
+    }
+
+    logger.info('[AlertEscalation] Escalation step notified', {
+      alertId: alertDoc.id,
+      policyId: target.policyId,
+      step: stepIndex,
+      roles: step.roles,
+      channels: step.channels,
+      recipients: recipients.length,
+    });
+  }
+
+  return attempts;
+}
+
+/**
+ * Notify every escalation step that became due for open, unacknowledged
+ * alerts. Returns the number of delivery attempts recorded.
+ */
+export async function escalateOpenAlerts(nowMs: number): Promise<number> {
+  const db = getFirestore();
+  const openAlerts = await db.collection('opsAlerts').where('status', '==', 'open').get();
+  const policies = new Map<string, Promise<AlertEscalationPolicy | null>>();
+
+  let attempts = 0;
+  for (const alertDoc of openAlerts.docs) {
+    try {
+      attempts += await escalateAlert(alertDoc, nowMs, policies);
+    } catch (error) {
+      logger.error('[AlertEscalation] Failed to escalate alert', error, { alertId: alertDoc.id });
+    }
+  }
+  return attempts;
+}
@@ -0,0 +1,277 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  ALERT_RULE_COMPARISON_SYMBOLS,
+  ALERT_RULE_METRIC_INFO,
+  AlertRule,
+  AlertRuleSchema,
+  DEFAULT_ALERT_RULES,
+  isAlertRuleTriggered,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { logger } from '../../core/logger';
+
+/**
+ * Raw ops data the aggregator has already loaded, used to compute rule
+ * metrics without extra reads per rule.
+ */
+export interface AlertRuleSources {
+  nowMs: number;
+  /** Client errors, at least as far back as the longest error-rule window */
+  errors: Array<{ createdAtMs: number; severity: string }>;
+  activeTrips: Array<{ status: string; officeId: string | null }>;
+  /** Trips created in the last 24h */
+  recentTrips: Array<{ createdAtMs: number; status: string; officeId: string | null }>;
+  onlineDrivers: Array<{ isAvailable: boolean; officeId: string | null }>;
+}
+
+export interface StoredAlertRule extends AlertRule {
+  ruleId: string;
+  officeId: string | null;
+  lastFiredAtMs: number | null;
+  openFiringId: string | null;
+}
+
+const COMPLETED_TRIP_STATUSES = ['completed', 'rated'];
+const CANCELLED_TRIP_STATUSES = [
+  'cancelled',
+  'cancelled_by_passenger',
+  'cancelled_by_driver',
+  'cancelled_by_system',
+  'no_driver_available',
+  'passenger_no_show',
+];
+const IN_PROGRESS_TRIP_STATUSES = ['accepted', 'driver_arrived', 'in_progress'];
+
+function toMillis(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null;
+}
+
+function readAlertRule(ruleId: string, data: FirebaseFirestore.DocumentData): StoredAlertRule | null {
+  const parsed = AlertRuleSchema.safeParse({
+    ...data,
+    officeId: typeof data.officeId === 'string' && data.officeId.trim() ? data.officeId : null,
+  });
+  if (!parsed.success) {
+    logger.warn('[AlertRules] Skipping invalid rule', { ruleId, issues: parsed.error.flatten() });
+    return null;
+  }
+
+  return {
+    ...parsed.data,
+    ruleId,
+    officeId: parsed.data.officeId ?? null,
+    lastFiredAtMs: toMillis(data.lastFiredAt),
+    openFiringId: typeof data.openFiringId === 'string' ? data.openFiringId : null,
+  };
+}
+
+/**
+ * All alert rules. Default rules that were never created are seeded first,
+ * so a fresh project keeps the alerts it had before rules were configurable.
+ */
+export async function loadAlertRules(): Promise<StoredAlertRule[]> {
+  const db = getFirestore();
+  const snapshot = await db.collection('alertRules').get();
+  const existingIds = new Set(snapshot.docs.map((docSnap) => docSnap.id));
+
+  const missingDefaults = DEFAULT_ALERT_RULES.filter((rule) => !existingIds.has(rule.ruleId));
+  if (missingDefaults.length > 0) {
+    const batch = db.batch();
+    for (const { ruleId, ...rule } of missingDefaults) {
+      batch.set(db.collection('alertRules').doc(ruleId), {
+        ...rule,
+        createdAt: FieldValue.serverTimestamp(),
+        createdBy: 'system',
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedBy: 'system',
+      });
+    }
+    await batch.commit();
+    logger.info('[AlertRules] Seeded default rules', {
+      ruleIds: missingDefaults.map((rule) => rule.ruleId),
+    });
+  }
+
+  const rules: StoredAlertRule[] = missingDefaults.map(({ ruleId, ...rule }) => ({
+    ...rule,
+    ruleId,
+    officeId: null,
+    lastFiredAtMs: null,
+    openFiringId: null,
+  }));
+  for (const docSnap of snapshot.docs) {
+    const rule = readAlertRule(docSnap.id, docSnap.data());
+    if (rule) rules.push(rule);
+  }
+  return rules;
+}
+
+/**
+ * Current value of a rule's metric, within its window and office scope
+ */
+export function computeAlertRuleMetric(rule: StoredAlertRule, sources: AlertRuleSources): number {
+  const windowStartMs = sources.nowMs - rule.windowMinutes * 60 * 1000;
+  const inOffice = (item: { officeId: string | null }) => !rule.officeId || item.officeId === rule.officeId;
+  const inWindow = (item: { createdAtMs: number }) => item.createdAtMs >= windowStartMs;
+
+  const errorsInWindow = () => sources.errors.filter(inWindow);
+  const recentTrips = () => sources.recentTrips.filter((trip) => inOffice(trip) && inWindow(trip));
+  const pendingTrips = () =>
+    sources.activeTrips.filter((trip) => inOffice(trip) && trip.status === 'pending').length;
+  const availableDrivers = () =>
+    sources.onlineDrivers.filter((driver) => inOffice(driver) && driver.isAvailable).length;
+
+  switch (rule.metric) {
+    case 'errors_total':
+      return errorsInWindow().length;
+    case 'errors_fatal':
+      return errorsInWindow().filter((entry) => entry.severity === 'fatal').length;
+    case 'errors_error':
+      return errorsInWindow().filter((entry) => entry.severity === 'error').length;
+    case 'errors_warning':
+      return errorsInWindow().filter((entry) => entry.severity === 'warning').length;
+    case 'drivers_online':
+      return sources.onlineDrivers.filter(inOffice).length;
+    case 'drivers_available':
+      return availableDrivers();
+    case 'trips_pending':
+      return pendingTrips();
+    case 'trips_active':
+      return sources.activeTrips.filter(
+        (trip) => inOffice(trip) && (trip.status === 'pending' || IN_PROGRESS_TRIP_STATUSES.includes(trip.status))
+      ).length;
+    case 'trips_pending_without_drivers':
+      return availableDrivers() === 0 ? pendingTrips() : 0;
+    case 'trips_created':
+      return recentTrips().length;
+    case 'trips_completed':
+      return recentTrips().filter((trip) => COMPLETED_TRIP_STATUSES.includes(trip.status)).length;
+    case 'trips_cancelled':
+      return recentTrips().filter((trip) => CANCELLED_TRIP_STATUSES.includes(trip.status)).length;
+    default:
+      return 0;
+  }
+}
+
+function describeRule(rule: StoredAlertRule, value: number): string {
+  const info = ALERT_RULE_METRIC_INFO[rule.metric];
+  const scope = rule.officeId ? ` (office ${rule.officeId})` : '';
+  const window = info.windowed ? ` in last ${rule.windowMinutes}m` : '';
+  return `${info.label}${scope}: ${value}${window} (rule: ${ALERT_RULE_COMPARISON_SYMBOLS[rule.comparison]} ${rule.threshold})`;
+}
+
+async function evaluateAlertRule(rule: StoredAlertRule, sources: AlertRuleSources): Promise<void> {
+  const db = getFirestore();
+  const ruleRef = db.collection('alertRules').doc(rule.ruleId);
+  const alertRef = db.collection('opsAlerts').doc(rule.ruleId);
+
+  const value = computeAlertRuleMetric(rule, sources);
+  const triggered = rule.enabled && isAlertRuleTriggered(rule.comparison, value, rule.threshold);
+  const alertDoc = await alertRef.get();
+  const isOpen = alertDoc.exists && alertDoc.data()?.status === 'open';
+
+  const ruleUpdate: Record<string, unknown> = {
+    lastValue: value,
+    lastEvaluatedAt: FieldValue.serverTimestamp(),
+  };
+  const alertFields = {
+    title: rule.name,
+    message: describeRule(rule, value),
+    severity: rule.severity,
+    details: {
+      ruleId: rule.ruleId,
+      metric: rule.metric,
+      value,
+      comparison: rule.comparison,
+      threshold: rule.threshold,
+      windowMinutes: rule.windowMinutes,
+      officeId: rule.officeId,
+    },
+  };
+
+  if (triggered && isOpen) {
+    await alertRef.set({ ...alertFields, status: 'open', updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+  } else if (triggered) {
+    const cooldownEndsMs =
+      rule.lastFiredAtMs !== null ? rule.lastFiredAtMs + rule.cooldownMinutes * 60 * 1000 : null;
+    if (cooldownEndsMs !== null && cooldownEndsMs > sources.nowMs) {
+      logger.info('[AlertRules] Rule triggered during cooldown', {
+        ruleId: rule.ruleId,
+        value,
+        cooldownEndsAt: new Date(cooldownEndsMs).toISOString(),
+      });
+    } else {
+      const firingRef = ruleRef.collection('firings').doc();
+      await Promise.all([
+        alertRef.set(
+          {
+            alertId: rule.ruleId,
+            ...alertFields,
+            status: 'open',
+            acknowledgedAt: null,
+            acknowledgedBy: null,
+            escalationLevel: 0,
+            lastEscalatedAt: null,
+            openedAt: FieldValue.serverTimestamp(),
+            updatedAt: FieldValue.serverTimestamp(),
+            resolvedAt: null,
+          },
+          { merge: true }
+        ),
+        firingRef.set({
+          value,
+          threshold: rule.threshold,
+          comparison: rule.comparison,
+          severity: rule.severity,
+          officeId: rule.officeId,
+          firedAt: FieldValue.serverTimestamp(),
+          resolvedAt: null,
+          resolvedValue: null,
+        }),
+      ]);
+      ruleUpdate.lastFiredAt = FieldValue.serverTimestamp();
+      ruleUpdate.openFiringId = firingRef.id;
+      logger.warn('[AlertRules] Rule fired', { ruleId: rule.ruleId, value, severity: rule.severity });
+    }
+  } else if (isOpen) {
+    const resolveOps: Promise<unknown>[] = [
+      alertRef.set(
+        {
+          status: 'resolved',
+          resolvedAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      ),
+    ];
+    if (rule.openFiringId) {
+      resolveOps.push(
+        ruleRef
+          .collection('firings')
+          .doc(rule.openFiringId)
+          .set({ resolvedAt: FieldValue.serverTimestamp(), resolvedValue: value }, { merge: true })
+      );
+    }
+    await Promise.all(resolveOps);
+    ruleUpdate.openFiringId = null;
+    logger.info('[AlertRules] Rule resolved', { ruleId: rule.ruleId, value, enabled: rule.enabled });
+  }
+
+  await ruleRef.set(ruleUpdate, { merge: true });
+}
+
+/**
+ * Fire, refresh or resolve the alert of every rule. Disabled rules only
+ * resolve alerts they left open.
+ */
+export async function evaluateAlertRules(rules: StoredAlertRule[], sources: AlertRuleSources): Promise<void> {
+  const results = await Promise.allSettled(rules.map((rule) => evaluateAlertRule(rule, sources)));
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      logger.error('[AlertRules] Rule evaluation failed', {
+        ruleId: rules[index]?.ruleId,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  });
+}
@@ -0,0 +1,22 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { escalateOpenAlerts } from './alert-escalation';
+
+/**
+ * Walk open, unacknowledged alerts through their escalation policies
+ */
+export const escalateOpsAlerts = onSchedule(
+  {
+    region: REGION,
+    schedule: 'every 2 minutes',
+    timeoutSeconds: 120,
+    memory: '256MiB',
+  },
+  async () => {
+    const attempts = await escalateOpenAlerts(Date.now());
+    if (attempts > 0) {
+      logger.info('[AlertEscalation] Escalation run complete', { attempts });
+    }
+  }
+);
@@ -1 +1,3 @@
 export { aggregateOpsMetrics } from './aggregateOpsMetrics.scheduled';
+export { escalateOpsAlerts } from './escalateOpsAlerts.scheduled';
+export { pruneOpsMetricsHistory } from './pruneOpsMetricsHistory.scheduled';
@@ -0,0 +1,205 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  OPS_METRICS_RESOLUTIONS,
+  OPS_METRICS_RESOLUTION_CONFIG,
+  OpsMetricsCounter,
+  OpsMetricsGauge,
+  OpsMetricsScopeType,
+  opsMetricsBucketId,
+  opsMetricsBucketStart,
+  opsMetricsScopeKey,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { logger } from '../../core/logger';
+
+/** Firestore batch write limit */
+const MAX_BATCH_SIZE = 500;
+const MAX_PRUNE_BATCHES_PER_RESOLUTION = 10;
+
+interface ScopedRecord {
+  officeId: string | null;
+  lineId: string | null;
+}
+
+/**
+ * Live state and the events of one closed 5-minute window, as loaded by
+ * aggregateOpsMetrics
+ */
+export interface OpsMetricsHistoryInput {
+  windowStartMs: number;
+  onlineDrivers: Array<ScopedRecord & { isAvailable: boolean }>;
+  activeTrips: Array<ScopedRecord & { status: string }>;
+  createdTrips: ScopedRecord[];
+  completedTrips: ScopedRecord[];
+  cancelledTrips: ScopedRecord[];
+  errors: Array<{ severity: string }>;
+}
+
+interface ScopeSample {
+  scopeType: OpsMetricsScopeType;
+  scopeId: string | null;
+  gauges: Record<OpsMetricsGauge, number>;
+  counts: Partial<Record<OpsMetricsCounter, number>>;
+}
+
+function emptySample(scopeType: OpsMetricsScopeType, scopeId: string | null): ScopeSample {
+  return {
+    scopeType,
+    scopeId,
+    gauges: { driversOnline: 0, driversAvailable: 0, tripsPending: 0, tripsActive: 0 },
+    counts: { tripsCreated: 0, tripsCompleted: 0, tripsCancelled: 0 },
+  };
+}
+
+/**
+ * Split the input into one sample per scope: the platform, plus every office
+ * and line a driver or trip belongs to.
+ */
+function buildScopeSamples(input: OpsMetricsHistoryInput): Map<string, ScopeSample> {
+  const samples = new Map<string, ScopeSample>();
+  samples.set('platform', emptySample('platform', null));
+
+  const samplesFor = (record: ScopedRecord): ScopeSample[] => {
+    const targets: ScopeSample[] = [];
+    const scopes: Array<[OpsMetricsScopeType, string | null]> = [
+      ['platform', null],
+      ['office', record.officeId],
+      ['line', record.lineId],
+    ];
+    for (const [scopeType, scopeId] of scopes) {
+      if (scopeType !== 'platform' && !scopeId) continue;
+      const key = opsMetricsScopeKey(scopeType, scopeId);
+      let sample = samples.get(key);
+      if (!sample) {
+        sample = emptySample(scopeType, scopeId);
+        samples.set(key, sample);
+      }
+      targets.push(sample);
+    }
+    return targets;
+  };
+
+  for (const driver of input.onlineDrivers) {
+    for (const sample of samplesFor(driver)) {
+      sample.gauges.driversOnline += 1;
+      if (driver.isAvailable) sample.gauges.driversAvailable += 1;
+    }
+  }
+  for (const trip of input.activeTrips) {
+    for (const sample of samplesFor(trip)) {
+      sample.gauges.tripsActive += 1;
+      if (trip.status === 'pending') sample.gauges.tripsPending += 1;
+    }
+  }
+
+  const countTrips = (records: ScopedRecord[], counter: OpsMetricsCounter) => {
+    for (const record of records) {
+      for (const sample of samplesFor(record)) {
+        sample.counts[counter] = (sample.counts[counter] ?? 0) + 1;
+      }
+    }
+  };
+  countTrips(input.createdTrips, 'tripsCreated');
+  countTrips(input.completedTrips, 'tripsCompleted');
+  countTrips(input.cancelledTrips, 'tripsCancelled');
+
+  const platform = samples.get('platform');
+  if (platform) {
+    platform.counts.errorsTotal = input.errors.length;
+    platform.counts.errorsFatal = input.errors.filter((error) => error.severity === 'fatal').length;
+    platform.counts.errorsError = input.errors.filter((error) => error.severity === 'error').length;
+    platform.counts.errorsWarning = input.errors.filter((error) => error.severity === 'warning').length;
+  }
+
+  return samples;
+}
+
+function toIncrements<K extends string>(values: Partial<Record<K, number>>): Record<string, FieldValue> {
+  const increments: Record<string, FieldValue> = {};
+  for (const [key, value] of Object.entries(values) as Array<[string, number]>) {
+    increments[key] = FieldValue.increment(value);
+  }
+  return increments;
+}
+
+/**
+ * Add one sample to the 5-minute, hourly and daily buckets of every scope.
+ * A window that was already recorded is skipped so a retried run does not
+ * count it twice. Returns the number of bucket writes.
+ */
+export async function recordOpsMetricsHistory(input: OpsMetricsHistoryInput): Promise<number> {
+  const db = getFirestore();
+  const historyRef = db.collection('opsMetricsHistory');
+
+  const windowBucketId = opsMetricsBucketId('5m', 'platform', input.windowStartMs);
+  const windowBucket = await historyRef.doc(windowBucketId).get();
+  if (windowBucket.exists) {
+    logger.info('[OpsMetricsHistory] Window already recorded', { windowStartMs: input.windowStartMs });
+    return 0;
+  }
+
+  const samples = buildScopeSamples(input);
+  const writes: Array<{ id: string; data: Record<string, unknown> }> = [];
+
+  for (const [scopeKey, sample] of samples) {
+    for (const resolution of OPS_METRICS_RESOLUTIONS) {
+      const bucketStartMs = opsMetricsBucketStart(resolution, input.windowStartMs);
+      writes.push({
+        id: opsMetricsBucketId(resolution, scopeKey, bucketStartMs),
+        data: {
+          resolution,
+          scopeType: sample.scopeType,
+          scopeId: sample.scopeId,
+          scopeKey,
+          bucketStart: Timestamp.fromMillis(bucketStartMs),
+          samples: FieldValue.increment(1),
+          gaugeSums: toIncrements(sample.gauges),
+          counts: toIncrements(sample.counts),
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+      });
+    }
+  }
+
+  for (let offset = 0; offset < writes.length; offset += MAX_BATCH_SIZE) {
+    const batch = db.batch();
+    for (const write of writes.slice(offset, offset + MAX_BATCH_SIZE)) {
+      batch.set(historyRef.doc(write.id), write.data, { merge: true });
+    }
+    await batch.commit();
+  }
+
+  return writes.length;
+}
+
+/**
+ * Delete buckets older than their resolution's retention, up to
+ * MAX_PRUNE_BATCHES_PER_RESOLUTION batches each; the rest waits for the next run.
+ */
+export async function pruneExpiredMetricsBuckets(nowMs: number): Promise<number> {
+  const db = getFirestore();
+  let deleted = 0;
+
+  for (const resolution of OPS_METRICS_RESOLUTIONS) {
+    const { retentionDays } = OPS_METRICS_RESOLUTION_CONFIG[resolution];
+    const cutoff = Timestamp.fromMillis(nowMs - retentionDays * 24 * 60 * 60 * 1000);
+
+    for (let batchIndex = 0; batchIndex < MAX_PRUNE_BATCHES_PER_RESOLUTION; batchIndex += 1) {
+      const snapshot = await db
+        .collection('opsMetricsHistory')
+        .where('resolution', '==', resolution)
+        .where('bucketStart', '<', cutoff)
+        .limit(MAX_BATCH_SIZE)
+        .get();
+      if (snapshot.empty) break;
+
+      const batch = db.batch();
+      snapshot.docs.forEach((docSnap) => batch.delete(docSnap.ref));
+      await batch.commit();
+      deleted += snapshot.size;
+      if (snapshot.size < MAX_BATCH_SIZE) break;
+    }
+  }
+
+  return deleted;
+}
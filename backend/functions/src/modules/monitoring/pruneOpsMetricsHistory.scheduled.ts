@@ -0,0 +1,26 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { pruneExpiredMetricsBuckets } from './metrics-history';
+
+/**
+ * Drop ops metrics buckets past their resolution's retention
+ */
+export const pruneOpsMetricsHistory = onSchedule(
+  {
+    region: REGION,
+    schedule: 'every 60 minutes',
+    timeoutSeconds: 300,
+    memory: '256MiB',
+  },
+  async () => {
+    try {
+      const deleted = await pruneExpiredMetricsBuckets(Date.now());
+      if (deleted > 0) {
+        logger.info('[OpsMetricsHistory] Pruned expired buckets', { deleted });
+      }
+    } catch (error) {
+      logger.error('[OpsMetricsHistory] Pruning failed', error);
+    }
+  }
+);
@@ -0,0 +1,189 @@
+import {
+  AlertNotificationChannel,
+  AlertNotificationStatus,
+  AlertRuleSeverity,
+} from '@taxi-line/shared';
+import { logger } from '../../core/logger';
+import { isSmtpConfigured, sendSmtpMail } from './smtp.client';
+import { LocalizedContent, loadUserTokens, sendExpoPush, sendFcmPush } from './trip-status.notifications';
+
+/**
+ * ============================================================================
+ * OPS ALERT CHANNELS
+ * ============================================================================
+ *
+ * Delivery channels for alert escalation. Each channel takes one alert and
+ * the managers of an escalation step and reports one result per recipient,
+ * which the caller records as the audit trail. Adding a channel means adding
+ * it to ALERT_NOTIFICATION_CHANNELS and to ALERT_CHANNEL_SENDERS.
+ *
+ * ============================================================================
+ */
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface OpsAlertNotification {
+  alertId: string;
+  title: string;
+  message: string;
+  severity: AlertRuleSeverity;
+  /** Index of the escalation step */
+  step: number;
+  openedAtMs: number | null;
+}
+
+export interface AlertChannelRecipient {
+  userId: string;
+  email: string | null;
+}
+
+export interface AlertChannelContext {
+  recipients: AlertChannelRecipient[];
+  webhookUrl: string | null;
+}
+
+export interface AlertDeliveryResult {
+  /** Manager uid, or the webhook host */
+  recipient: string;
+  status: AlertNotificationStatus;
+  error: string | null;
+}
+
+type AlertChannelSender = (
+  alert: OpsAlertNotification,
+  context: AlertChannelContext
+) => Promise<AlertDeliveryResult[]>;
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toPushContent(alert: OpsAlertNotification): LocalizedContent {
+  const prefix = alert.severity === 'critical' ? 'CRITICAL' : 'WARNING';
+  return {
+    titleEn: `[${prefix}] ${alert.title}`,
+    titleAr: `[${alert.severity === 'critical' ? 'حرج' : 'تحذير'}] ${alert.title}`,
+    bodyEn: alert.message,
+    bodyAr: alert.message,
+  };
+}
+
+const sendPushChannel: AlertChannelSender = async (alert, { recipients }) => {
+  const content = toPushContent(alert);
+  const data = {
+    type: 'ops_alert',
+    alertId: alert.alertId,
+    severity: alert.severity,
+    step: String(alert.step),
+  };
+
+  return Promise.all(
+    recipients.map(async ({ userId }): Promise<AlertDeliveryResult> => {
+      try {
+        const tokens = await loadUserTokens(userId);
+        if (tokens.expoPushTokens.length === 0 && tokens.fcmTokens.length === 0) {
+          return { recipient: userId, status: 'skipped', error: 'No registered devices' };
+        }
+        await Promise.all([
+          sendExpoPush(tokens.expoPushTokens, content, tokens.preferredLocale, data),
+          sendFcmPush(tokens.fcmTokens, content, tokens.preferredLocale, data),
+        ]);
+        return { recipient: userId, status: 'sent', error: null };
+      } catch (error) {
+        return { recipient: userId, status: 'failed', error: toErrorMessage(error) };
+      }
+    })
+  );
+};
+
+const sendEmailChannel: AlertChannelSender = async (alert, { recipients }) => {
+  if (!isSmtpConfigured()) {
+    return recipients.map(
+      ({ userId }): AlertDeliveryResult => ({ recipient: userId, status: 'skipped', error: 'SMTP not configured' })
+    );
+  }
+
+  const withEmail = recipients.filter((recipient) => !!recipient.email);
+  const results: AlertDeliveryResult[] = recipients
+    .filter((recipient) => !recipient.email)
+    .map(({ userId }): AlertDeliveryResult => ({ recipient: userId, status: 'skipped', error: 'No email address' }));
+  if (withEmail.length === 0) return results;
+
+  try {
+    await sendSmtpMail({
+      to: withEmail.map((recipient) => recipient.email ?? ''),
+      subject: `[${alert.severity.toUpperCase()}] ${alert.title}`,
+      text: [
+        alert.message,
+        '',
+        `Alert: ${alert.alertId}`,
+        `Opened: ${alert.openedAtMs ? new Date(alert.openedAtMs).toISOString() : 'unknown'}`,
+        `Escalation step: ${alert.step + 1}`,
+        '',
+        'Acknowledge it from the Monitoring page to stop further escalation.',
+      ].join('\n'),
+    });
+    return results.concat(
+      withEmail.map(({ userId }): AlertDeliveryResult => ({ recipient: userId, status: 'sent', error: null }))
+    );
+  } catch (error) {
+    const message = toErrorMessage(error);
+    return results.concat(
+      withEmail.map(({ userId }): AlertDeliveryResult => ({ recipient: userId, status: 'failed', error: message }))
+    );
+  }
+};
+
+const sendWebhookChannel: AlertChannelSender = async (alert, { webhookUrl }) => {
+  if (!webhookUrl) {
+    return [{ recipient: 'webhook', status: 'skipped', error: 'No webhook URL on the policy' }];
+  }
+
+  let recipient = 'webhook';
+  try {
+    recipient = new URL(webhookUrl).host;
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: 'ops_alert',
+        alertId: alert.alertId,
+        title: alert.title,
+        message: alert.message,
+        severity: alert.severity,
+        step: alert.step,
+        openedAt: alert.openedAtMs ? new Date(alert.openedAtMs).toISOString() : null,
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return [{ recipient, status: 'failed', error: `Webhook responded ${response.status}` }];
+    }
+    return [{ recipient, status: 'sent', error: null }];
+  } catch (error) {
+    return [{ recipient, status: 'failed', error: toErrorMessage(error) }];
+  }
+};
+
+export const ALERT_CHANNEL_SENDERS: Record<AlertNotificationChannel, AlertChannelSender> = {
+  push: sendPushChannel,
+  email: sendEmailChannel,
+  webhook: sendWebhookChannel,
+};
+
+/**
+ * Deliver an alert on one channel. Never throws; failures come back as
+ * `failed` results.
+ */
+export async function sendOpsAlertNotification(
+  channel: AlertNotificationChannel,
+  alert: OpsAlertNotification,
+  context: AlertChannelContext
+): Promise<AlertDeliveryResult[]> {
+  try {
+    return await ALERT_CHANNEL_SENDERS[channel](alert, context);
+  } catch (error) {
+    logger.error('[AlertChannels] Channel failed', error, { channel, alertId: alert.alertId });
+    return [{ recipient: channel, status: 'failed', error: toErrorMessage(error) }];
+  }
+}
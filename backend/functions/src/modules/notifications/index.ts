@@ -1 +1,3 @@
 export * from './trip-status.notifications';
+export * from './alert-channels';
+export * from './smtp.client';
@@ -0,0 +1,172 @@
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+import { env } from '../../core/env';
+import { ExternalServiceError } from '../../core/errors';
+
+/**
+ * ============================================================================
+ * SMTP CLIENT
+ * ============================================================================
+ *
+ * Minimal SMTP submission for plain-text ops emails: implicit TLS (port 465)
+ * or a plain connection to a trusted local relay, AUTH LOGIN when a user is
+ * configured. Configured through the SMTP_* environment variables.
+ *
+ * ============================================================================
+ */
+
+const SMTP_TIMEOUT_MS = 15000;
+
+export interface SmtpMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+export function isSmtpConfigured(): boolean {
+  const { host, from } = env.smtp;
+  return host.length > 0 && from.length > 0;
+}
+
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiter: (() => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let newline = this.buffer.indexOf('\r\n');
+      while (newline >= 0) {
+        this.lines.push(this.buffer.slice(0, newline));
+        this.buffer = this.buffer.slice(newline + 2);
+        newline = this.buffer.indexOf('\r\n');
+      }
+      this.wake();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure ?? error;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+
+  private async nextLine(): Promise<string> {
+    while (this.lines.length === 0) {
+      if (this.failure) throw this.failure;
+      await new Promise<void>((resolve) => {
+        this.waiter = resolve;
+      });
+    }
+    return this.lines.shift() ?? '';
+  }
+
+  /** Multi-line replies use "250-" for every line but the last ("250 ") */
+  async readReply(): Promise<SmtpReply> {
+    const texts: string[] = [];
+    for (;;) {
+      const line = await this.nextLine();
+      texts.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        return { code: Number(line.slice(0, 3)), text: texts.join('\n') };
+      }
+    }
+  }
+
+  /** `step` names the command in errors, so credentials never end up there */
+  async command(line: string, expected: number[], step: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, step);
+  }
+
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${step} failed (${reply.code}): ${reply.text}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function connect(host: string, port: number, secure: boolean): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.once('error', reject);
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+  });
+}
+
+/** Lines starting with "." are escaped per RFC 5321 section 4.5.2 */
+function toDataBlock(from: string, message: SmtpMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    // RFC 2047 encoded-word, so Arabic subjects survive
+    `Subject: =?UTF-8?B?${Buffer.from(message.subject.replace(/[\r\n]+/g, ' ')).toString('base64')}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.`;
+}
+
+/**
+ * Send one plain-text email to all recipients
+ */
+export async function sendSmtpMail(message: SmtpMessage): Promise<void> {
+  const { host, port, secure, user, password, from } = env.smtp;
+  if (!isSmtpConfigured()) {
+    throw new ExternalServiceError('SMTP_HOST and SMTP_FROM are not configured', 'SMTP');
+  }
+  if (message.to.length === 0) return;
+
+  const session = new SmtpSession(await connect(host, port, secure));
+  try {
+    await session.expect([220], 'greeting');
+    await session.command('EHLO waselneh-functions', [250], 'EHLO');
+    if (user) {
+      await session.command('AUTH LOGIN', [334], 'AUTH');
+      await session.command(Buffer.from(user).toString('base64'), [334], 'AUTH user');
+      await session.command(Buffer.from(password).toString('base64'), [235], 'AUTH password');
+    }
+    await session.command(`MAIL FROM:<${from}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO');
+    }
+    await session.command('DATA', [354], 'DATA');
+    await session.command(toDataBlock(from, message), [250], 'message body');
+    await session.command('QUIT', [221], 'QUIT').catch(() => undefined);
+  } catch (error) {
+    throw new ExternalServiceError(error instanceof Error ? error.message : String(error), 'SMTP');
+  } finally {
+    session.close();
+  }
+}
@@ -5,13 +5,13 @@ import { logger } from '../../core/logger';
 type NotificationRole = 'passenger' | 'driver';
 type SupportedLocale = 'en' | 'ar';
 
-interface NotificationTokens {
+export interface NotificationTokens {
   expoPushTokens: string[];
   fcmTokens: string[];
   preferredLocale: SupportedLocale;
 }
 
-interface LocalizedContent {
+export interface LocalizedContent {
   titleEn: string;
   titleAr: string;
   bodyEn: string;
@@ -121,6 +121,13 @@ function getStatusContent(status: string, role: NotificationRole): LocalizedCont
         bodyEn: 'We could not find an available driver right now.',
         bodyAr: 'لم نتمكن من إيجاد سائق متاح حالياً.',
       };
+    case 'scheduled_ride_failed':
+      return {
+        titleEn: 'Scheduled ride not assigned',
+        titleAr: 'لم يتم تعيين سائق للحجز',
+        bodyEn: 'No driver was available for your scheduled ride. Please request a new ride.',
+        bodyAr: 'لم يتوفر سائق لرحلتك المجدولة. يرجى طلب رحلة جديدة.',
+      };
     case 'cancelled_by_passenger':
       return role === 'driver'
         ? {
@@ -149,6 +156,27 @@ function getStatusContent(status: string, role: NotificationRole): LocalizedCont
             bodyEn: 'Your driver cancelled this trip.',
             bodyAr: 'السائق ألغى هذه الرحلة.',
           };
+    case 'passenger_no_show':
+      return role === 'driver'
+        ? {
+            titleEn: 'Passenger no-show',
+            titleAr: 'الراكب لم يحضر',
+            bodyEn: 'The trip was closed as a passenger no-show.',
+            bodyAr: 'تم إغلاق الرحلة لعدم حضور الراكب.',
+          }
+        : {
+            titleEn: 'Missed pickup',
+            titleAr: 'فاتتك الرحلة',
+            bodyEn: 'Your driver waited at pickup and closed the trip. A no-show fee may apply.',
+            bodyAr: 'انتظرك السائق عند نقطة الالتقاط ثم أغلق الرحلة. قد تُطبق رسوم عدم الحضور.',
+          };
+    case 'driver_not_moving':
+      return {
+        titleEn: 'Trip reassigned',
+        titleAr: 'تم نقل الرحلة',
+        bodyEn: 'The passenger reported you were not moving, so the trip went to another driver.',
+        bodyAr: 'أبلغ الراكب أنك لم تتحرك، لذلك تم نقل الرحلة إلى سائق آخر.',
+      };
     case 'cancelled_by_system':
       return {
         titleEn: 'Trip cancelled',
@@ -187,7 +215,7 @@ function sanitizeData(
   return base;
 }
 
-async function loadUserTokens(userId: string): Promise<NotificationTokens> {
+export async function loadUserTokens(userId: string): Promise<NotificationTokens> {
   const db = getFirestore();
   const deviceDoc = await db.collection('userDevices').doc(userId).get();
   const raw = deviceDoc.data() as
@@ -207,7 +235,7 @@ async function loadUserTokens(userId: string): Promise<NotificationTokens> {
   };
 }
 
-async function sendExpoPush(
+export async function sendExpoPush(
   tokens: string[],
   content: LocalizedContent,
   locale: SupportedLocale,
@@ -241,7 +269,7 @@ async function sendExpoPush(
   }
 }
 
-async function sendFcmPush(
+export async function sendFcmPush(
   tokens: string[],
   content: LocalizedContent,
   locale: SupportedLocale,
@@ -0,0 +1,43 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { PaymentStatus, TripStatus, normalizePaymentMethod } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { captureTripPayment } from './trip-payments';
+
+/**
+ * Retry the wallet debit of a completed wallet trip that is still unpaid.
+ * completeTrip debits the wallet right after completing the trip; if that
+ * call errored, this trigger runs it again (retried until it succeeds).
+ * debitWalletForTrip is idempotent per trip, so racing completeTrip is safe.
+ * Card captures are not retried here: the provider capture is not idempotent.
+ */
+export const captureWalletPaymentOnComplete = onDocumentUpdated(
+  {
+    region: REGION,
+    document: 'trips/{tripId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+    retry: true,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after || before.status === TripStatus.COMPLETED || after.status !== TripStatus.COMPLETED) {
+      return;
+    }
+    if (normalizePaymentMethod(after.paymentMethod) !== 'wallet' || after.paymentStatus === PaymentStatus.PAID) {
+      return;
+    }
+
+    const tripId = event.params.tripId;
+    try {
+      const capture = await captureTripPayment(tripId);
+      if (capture) {
+        logger.info('[Payments] Wallet debit settled', { tripId, ...capture });
+      }
+    } catch (error) {
+      logger.error('[Payments] Wallet debit failed - retrying', error, { tripId });
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,18 @@
+// Payments module - card authorization, capture and void through a payment provider; wallet rides via the wallets module
+export { captureWalletPaymentOnComplete } from './capturePayment.firestore';
+export { voidRequestPaymentOnCancel, voidTripPaymentOnCancel } from './voidPayment.firestore';
+export {
+  authorizeRequestPayment,
+  captureCancellationFee,
+  captureTripPayment,
+  getAvailablePaymentMethods,
+  voidPaymentAuthorization,
+} from './trip-payments';
+export type { AuthorizeRequestPaymentInput, CaptureTripPaymentResult, CardCancellationFeeResult } from './trip-payments';
+export { SandboxPaymentProvider, getPaymentProvider, setPaymentProvider } from './payment.provider';
+export type {
+  AuthorizePaymentRequest,
+  CapturePaymentRequest,
+  PaymentAuthorizationResult,
+  PaymentProvider,
+} from './payment.provider';
@@ -0,0 +1,121 @@
+import { PaymentMethod } from '@taxi-line/shared';
+import { env } from '../../core/env';
+import { ExternalServiceError } from '../../core/errors';
+
+/**
+ * ============================================================================
+ * PAYMENT PROVIDERS
+ * ============================================================================
+ *
+ * A provider holds funds for a card ride when it is requested, charges the
+ * final fare when the trip completes and releases the hold when the ride is
+ * cancelled. Wallet rides are paid from the passenger's prepaid wallet and
+ * never reach a provider. Adding a provider means implementing PaymentProvider and
+ * registering it in PAYMENT_PROVIDERS under the name used in
+ * PAYMENT_PROVIDER.
+ *
+ * ============================================================================
+ */
+
+export interface AuthorizePaymentRequest {
+  /** Stable per ride request; providers may use it as an idempotency key */
+  authorizationId: string;
+  passengerId: string;
+  method: PaymentMethod;
+  amountIls: number;
+}
+
+export type PaymentAuthorizationResult =
+  | { approved: true; providerReference: string }
+  | { approved: false; declineReason: string };
+
+export interface CapturePaymentRequest {
+  providerReference: string;
+  /** Never more than the authorized amount */
+  amountIls: number;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  supports(method: PaymentMethod): boolean;
+  authorize(request: AuthorizePaymentRequest): Promise<PaymentAuthorizationResult>;
+  capture(request: CapturePaymentRequest): Promise<{ providerCaptureId: string }>;
+  void(providerReference: string): Promise<void>;
+}
+
+/**
+ * Local provider for the emulator and tests. Approves every card charge and
+ * remembers holds in memory; no money moves.
+ */
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = 'sandbox';
+  private readonly holds = new Map<string, { amountIls: number; state: 'authorized' | 'captured' | 'voided' }>();
+
+  supports(method: PaymentMethod): boolean {
+    return method === 'card';
+  }
+
+  authorize(request: AuthorizePaymentRequest): Promise<PaymentAuthorizationResult> {
+    const providerReference = `sandbox-${request.authorizationId}`;
+    this.holds.set(providerReference, { amountIls: request.amountIls, state: 'authorized' });
+    return Promise.resolve({ approved: true, providerReference });
+  }
+
+  capture(request: CapturePaymentRequest): Promise<{ providerCaptureId: string }> {
+    const hold = this.holds.get(request.providerReference);
+    if (hold && (hold.state !== 'authorized' || request.amountIls > hold.amountIls)) {
+      return Promise.reject(new ExternalServiceError('Sandbox hold cannot cover this capture', 'Payments'));
+    }
+    if (hold) {
+      hold.state = 'captured';
+    }
+    return Promise.resolve({ providerCaptureId: `${request.providerReference}-capture` });
+  }
+
+  void(providerReference: string): Promise<void> {
+    const hold = this.holds.get(providerReference);
+    if (hold && hold.state === 'authorized') {
+      hold.state = 'voided';
+    }
+    return Promise.resolve();
+  }
+}
+
+const PAYMENT_PROVIDERS: Record<string, () => PaymentProvider> = {
+  sandbox: () => new SandboxPaymentProvider(),
+};
+
+let cachedProvider: PaymentProvider | null = null;
+let overrideProvider: PaymentProvider | null = null;
+
+/**
+ * Provider configured by PAYMENT_PROVIDER
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (overrideProvider) {
+    return overrideProvider;
+  }
+
+  const name = env.paymentProvider;
+  if (cachedProvider?.name === name) {
+    return cachedProvider;
+  }
+
+  const factory = Object.prototype.hasOwnProperty.call(PAYMENT_PROVIDERS, name) ? PAYMENT_PROVIDERS[name] : undefined;
+  if (!factory) {
+    throw new ExternalServiceError(`Unknown provider '${name}'`, 'Payments');
+  }
+  if (name === 'sandbox' && env.isProduction) {
+    throw new ExternalServiceError('Card and wallet payments are not configured', 'Payments');
+  }
+
+  cachedProvider = factory();
+  return cachedProvider;
+}
+
+/**
+ * Use the given provider instead of the configured one; for tests
+ */
+export function setPaymentProvider(provider: PaymentProvider | null): void {
+  overrideProvider = provider;
+}
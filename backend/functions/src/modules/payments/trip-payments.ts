@@ -0,0 +1,410 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import {
+  CancellationFeeReason,
+  FARE_COLLECTORS,
+  PaymentMethod,
+  PaymentStatus,
+  getAuthorizationHoldIls,
+  isProviderPaymentMethod,
+  normalizePaymentMethod,
+  roundIls,
+} from '@taxi-line/shared';
+import { getFirestore, getSystemConfig } from '../../core/config';
+import { ForbiddenError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { debitWalletForTrip, releaseWalletFunds, reserveWalletFunds } from '../wallets';
+import { PaymentAuthorizationResult, getPaymentProvider } from './payment.provider';
+
+export interface AuthorizeRequestPaymentInput {
+  requestId: string;
+  passengerId: string;
+  method: PaymentMethod;
+  /** Highest fare the request can be booked at */
+  quotedFareIls: number;
+}
+
+export interface CardCancellationFeeResult {
+  collectedIls: number;
+  /** Part of the fee the card did not cover */
+  owedIls: number;
+}
+
+export interface CaptureTripPaymentResult {
+  status: 'captured' | 'failed';
+  amountIls: number;
+  /** Part of the fare the hold did not cover; the driver collects it in cash */
+  shortfallIls: number;
+}
+
+function numberOrZero(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/** Provider name recorded on authorizations paid from the prepaid wallet */
+const WALLET_PROVIDER_NAME = 'wallet';
+
+/**
+ * Methods a passenger can pick right now. Card and wallet need the
+ * paymentsEnabled flag; card also needs a provider that supports it.
+ */
+export async function getAvailablePaymentMethods(): Promise<PaymentMethod[]> {
+  const config = await getSystemConfig();
+  if (!config.paymentsEnabled) {
+    return ['cash'];
+  }
+
+  try {
+    return getPaymentProvider().supports('card') ? ['cash', 'card', 'wallet'] : ['cash', 'wallet'];
+  } catch (error) {
+    logger.warn('[Payments] Provider unavailable, offering cash and wallet only', { error });
+    return ['cash', 'wallet'];
+  }
+}
+
+function toAuthorizationDoc(
+  authorizationId: string,
+  input: AuthorizeRequestPaymentInput,
+  providerName: string,
+  amountIls: number,
+  result: PaymentAuthorizationResult
+): Record<string, unknown> {
+  return {
+    authorizationId,
+    requestId: input.requestId,
+    tripId: null,
+    passengerId: input.passengerId,
+    method: input.method,
+    provider: providerName,
+    providerReference: result.approved ? result.providerReference : null,
+    status: result.approved ? 'authorized' : 'failed',
+    authorizedIls: result.approved ? amountIls : 0,
+    capturedIls: 0,
+    failureReason: result.approved ? null : result.declineReason,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Hold the fare for a card ride request, or reserve it in the wallet.
+ * The authorization is stored at paymentAuthorizations/{requestId}.
+ */
+export async function authorizeRequestPayment(input: AuthorizeRequestPaymentInput): Promise<string> {
+  const available = await getAvailablePaymentMethods();
+  if (!available.includes(input.method)) {
+    throw new ForbiddenError('This payment method is not available right now');
+  }
+
+  const isWallet = input.method === 'wallet';
+  const amountIls = isWallet ? roundIls(input.quotedFareIls) : getAuthorizationHoldIls(input.quotedFareIls);
+  const db = getFirestore();
+  const authorizationRef = db.collection('paymentAuthorizations').doc(input.requestId);
+  let result: PaymentAuthorizationResult;
+
+  if (isWallet) {
+    // The reservation and the authorization are written together
+    result = await db.runTransaction(async (transaction) => {
+      const reserved = await reserveWalletFunds(transaction, input.passengerId, amountIls);
+      const walletResult: PaymentAuthorizationResult = reserved
+        ? { approved: true, providerReference: `wallet-${input.passengerId}` }
+        : { approved: false, declineReason: 'insufficient_wallet_balance' };
+      transaction.set(
+        authorizationRef,
+        toAuthorizationDoc(authorizationRef.id, input, WALLET_PROVIDER_NAME, amountIls, walletResult)
+      );
+      return walletResult;
+    });
+  } else {
+    const provider = getPaymentProvider();
+    result = await provider.authorize({
+      authorizationId: authorizationRef.id,
+      passengerId: input.passengerId,
+      method: input.method,
+      amountIls,
+    });
+    await authorizationRef.set(toAuthorizationDoc(authorizationRef.id, input, provider.name, amountIls, result));
+  }
+
+  if (!result.approved) {
+    logger.warn('[Payments] Authorization declined', {
+      requestId: input.requestId,
+      method: input.method,
+      reason: result.declineReason,
+    });
+    throw new ValidationError(
+      isWallet
+        ? 'Your wallet balance does not cover this ride. Please top up or choose another method.'
+        : 'Your payment method was declined. Please choose another method.'
+    );
+  }
+
+  logger.info('[Payments] Authorized', { requestId: input.requestId, method: input.method, amountIls });
+  return authorizationRef.id;
+}
+
+/**
+ * Charge the final fare of a completed card or wallet trip. A card capture
+ * takes at most the held amount; any shortfall stays pending for the driver
+ * to collect in cash. A failed capture voids the hold and leaves the whole
+ * fare to the driver. trips/{tripId}.fareCollectedBy records the outcome
+ * for the settlement ledger.
+ */
+export async function captureTripPayment(tripId: string): Promise<CaptureTripPaymentResult | null> {
+  const db = getFirestore();
+  const tripRef = db.collection('trips').doc(tripId);
+  const trip = (await tripRef.get()).data() ?? {};
+  const method = normalizePaymentMethod(trip.paymentMethod) ?? 'cash';
+  const authorizationId = typeof trip.paymentAuthorizationId === 'string' ? trip.paymentAuthorizationId : null;
+  // Already paid: captured earlier, or collected in cash after a failed attempt
+  if (method === 'cash' || !authorizationId || trip.paymentStatus === PaymentStatus.PAID) {
+    return null;
+  }
+
+  const authorizationRef = db.collection('paymentAuthorizations').doc(authorizationId);
+  const authorization = (await authorizationRef.get()).data() ?? {};
+  if (authorization.status !== 'authorized' || typeof authorization.providerReference !== 'string') {
+    return null;
+  }
+
+  if (!isProviderPaymentMethod(method)) {
+    const debit = await debitWalletForTrip(tripId, authorizationId);
+    if (debit.status === 'failed') {
+      logger.warn('[Payments] Wallet balance short, driver collects cash', { tripId, amountIls: debit.amountIls });
+    } else {
+      logger.paymentConfirmed(tripId, debit.amountIls, method, { authorizationId });
+    }
+    return { status: debit.status, amountIls: debit.amountIls, shortfallIls: 0 };
+  }
+
+  const amountIls = numberOrZero(trip.finalPriceIls ?? trip.fareAmount);
+  const captureIls = roundIls(Math.min(amountIls, numberOrZero(authorization.authorizedIls)));
+  const shortfallIls = roundIls(amountIls - captureIls);
+  const paymentRef = db.collection('payments').doc(`payment_${tripId}`);
+  let failureReason: string | null = null;
+  let providerCaptureId: string | null = null;
+
+  if (captureIls <= 0) {
+    failureReason = 'nothing_to_capture';
+  } else {
+    try {
+      const capture = await getPaymentProvider().capture({
+        providerReference: authorization.providerReference,
+        amountIls: captureIls,
+      });
+      providerCaptureId = capture.providerCaptureId;
+    } catch (error) {
+      failureReason = error instanceof Error ? error.message : 'capture_failed';
+    }
+  }
+
+  if (!providerCaptureId) {
+    try {
+      await getPaymentProvider().void(authorization.providerReference);
+    } catch (error) {
+      logger.error('[Payments] Failed to void hold after capture failure', error, { tripId, authorizationId });
+    }
+  }
+
+  const batch = db.batch();
+  if (providerCaptureId) {
+    const settled = shortfallIls <= 0;
+    batch.update(authorizationRef, {
+      tripId,
+      status: 'captured',
+      capturedIls: captureIls,
+      providerCaptureId,
+      capturedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    batch.set(
+      paymentRef,
+      {
+        status: settled ? PaymentStatus.PAID : PaymentStatus.PENDING,
+        authorizationId,
+        providerCaptureId,
+        capturedIls: captureIls,
+        fareShortfallIls: shortfallIls,
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    batch.update(tripRef, {
+      ...(settled ? { paymentStatus: PaymentStatus.PAID, paidAt: FieldValue.serverTimestamp() } : {}),
+      fareShortfallIls: shortfallIls,
+      fareCollectedBy: FARE_COLLECTORS.OFFICE,
+    });
+  } else {
+    batch.update(authorizationRef, {
+      tripId,
+      status: 'failed',
+      failureReason,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    batch.set(
+      paymentRef,
+      {
+        status: PaymentStatus.FAILED,
+        authorizationId,
+        failureReason,
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    batch.update(tripRef, { fareCollectedBy: FARE_COLLECTORS.DRIVER });
+  }
+  await batch.commit();
+
+  if (!providerCaptureId) {
+    logger.warn('[Payments] Capture failed, driver collects cash', { tripId, method, amountIls, failureReason });
+    return { status: 'failed', amountIls, shortfallIls: amountIls };
+  }
+
+  if (shortfallIls > 0) {
+    logger.warn('[Payments] Fare exceeds hold, driver collects the rest', { tripId, captureIls, shortfallIls });
+  }
+  logger.paymentConfirmed(tripId, captureIls, method, { authorizationId });
+  return { status: 'captured', amountIls: captureIls, shortfallIls };
+}
+
+/**
+ * Capture a card trip's cancellation fee against the ride's hold. A failed
+ * capture voids the hold and the fee stays owed, pending on the trip.
+ * Idempotent per trip.
+ */
+export async function captureCancellationFee(input: {
+  tripId: string;
+  passengerId: string;
+  driverId: string | null;
+  authorizationId: string | null;
+  feeIls: number;
+  reason: CancellationFeeReason;
+}): Promise<CardCancellationFeeResult | null> {
+  const feeIls = roundIls(input.feeIls);
+  if (feeIls <= 0) {
+    return null;
+  }
+
+  const db = getFirestore();
+  const tripRef = db.collection('trips').doc(input.tripId);
+  const paymentRef = db.collection('payments').doc(`payment_${input.tripId}`);
+  if ((await paymentRef.get()).exists) {
+    return null;
+  }
+
+  const authorizationRef = input.authorizationId
+    ? db.collection('paymentAuthorizations').doc(input.authorizationId)
+    : null;
+  const authorization = authorizationRef ? (await authorizationRef.get()).data() ?? {} : {};
+  const providerReference =
+    authorization.status === 'authorized' && typeof authorization.providerReference === 'string'
+      ? authorization.providerReference
+      : null;
+  const captureIls = providerReference
+    ? roundIls(Math.min(feeIls, numberOrZero(authorization.authorizedIls)))
+    : 0;
+  let providerCaptureId: string | null = null;
+  let failureReason: string | null = providerReference ? null : 'no_active_hold';
+
+  if (providerReference && captureIls > 0) {
+    try {
+      const capture = await getPaymentProvider().capture({ providerReference, amountIls: captureIls });
+      providerCaptureId = capture.providerCaptureId;
+    } catch (error) {
+      failureReason = error instanceof Error ? error.message : 'capture_failed';
+    }
+  }
+  if (providerReference && !providerCaptureId) {
+    try {
+      await getPaymentProvider().void(providerReference);
+    } catch (error) {
+      logger.error('[Payments] Failed to void hold after fee capture failure', error, { tripId: input.tripId });
+    }
+  }
+
+  const collectedIls = providerCaptureId ? captureIls : 0;
+  const owedIls = roundIls(feeIls - collectedIls);
+  const batch = db.batch();
+  if (authorizationRef && providerReference) {
+    batch.update(authorizationRef, {
+      tripId: input.tripId,
+      ...(providerCaptureId
+        ? { status: 'captured', capturedIls: captureIls, providerCaptureId, capturedAt: FieldValue.serverTimestamp() }
+        : { status: 'failed', failureReason }),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+  batch.set(paymentRef, {
+    paymentId: paymentRef.id,
+    kind: 'cancellation_fee',
+    tripId: input.tripId,
+    passengerId: input.passengerId,
+    driverId: input.driverId ?? '',
+    amount: feeIls,
+    collectedIls,
+    owedIls,
+    fareBreakdown: null,
+    currency: 'ILS',
+    method: 'card',
+    status: owedIls > 0 ? PaymentStatus.PENDING : PaymentStatus.PAID,
+    cancellationFeeReason: input.reason,
+    authorizationId: input.authorizationId,
+    providerCaptureId,
+    failureReason,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  batch.update(tripRef, {
+    cancellationFeeIls: feeIls,
+    cancellationFeeReason: input.reason,
+    cancellationFeeStatus: owedIls > 0 ? 'pending' : 'charged',
+    cancellationFeeCollectedIls: collectedIls,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  await batch.commit();
+
+  logger.info('[Payments] Cancellation fee captured', {
+    tripId: input.tripId,
+    feeIls,
+    collectedIls,
+    owedIls,
+    failureReason,
+  });
+  return { collectedIls, owedIls };
+}
+
+/**
+ * Release the hold or wallet reservation of a cancelled ride. No-op unless
+ * still authorized.
+ */
+export async function voidPaymentAuthorization(authorizationId: string, reason: string): Promise<boolean> {
+  const db = getFirestore();
+  const authorizationRef = db.collection('paymentAuthorizations').doc(authorizationId);
+  const authorization = (await authorizationRef.get()).data();
+  if (authorization?.status !== 'authorized' || typeof authorization.providerReference !== 'string') {
+    return false;
+  }
+
+  const voidedFields = {
+    status: 'voided',
+    voidReason: reason,
+    voidedAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+
+  if (authorization.provider === WALLET_PROVIDER_NAME) {
+    // Re-checked in the transaction so a concurrent debit is not released twice
+    return db.runTransaction(async (transaction) => {
+      const current = (await transaction.get(authorizationRef)).data();
+      if (current?.status !== 'authorized' || typeof current.passengerId !== 'string') {
+        return false;
+      }
+      await releaseWalletFunds(transaction, current.passengerId, numberOrZero(current.authorizedIls));
+      transaction.update(authorizationRef, voidedFields);
+      return true;
+    });
+  }
+
+  await getPaymentProvider().void(authorization.providerReference);
+  await authorizationRef.update(voidedFields);
+  return true;
+}
@@ -0,0 +1,86 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { TERMINAL_TRIP_STATUSES, TripRequestStatus, TripStatus, normalizePaymentMethod } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { voidPaymentAuthorization } from './trip-payments';
+
+/** Terminal trip statuses that end the ride without charging the fare */
+const UNCHARGED_TRIP_STATUSES: TripStatus[] = TERMINAL_TRIP_STATUSES.filter(
+  (status) => status !== TripStatus.COMPLETED && status !== TripStatus.RATED
+);
+
+/**
+ * Release the card or wallet hold when a trip is cancelled. Card holds with
+ * a cancellation fee are left to the fee collection.
+ */
+export const voidTripPaymentOnCancel = onDocumentUpdated(
+  {
+    region: REGION,
+    document: 'trips/{tripId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after || typeof after.paymentAuthorizationId !== 'string') {
+      return;
+    }
+
+    const cancelled =
+      !TERMINAL_TRIP_STATUSES.includes(before.status as TripStatus) &&
+      UNCHARGED_TRIP_STATUSES.includes(after.status as TripStatus);
+    if (!cancelled) {
+      return;
+    }
+    // collectTripCancellationFee captures the fee against the hold, or voids it
+    if (after.cancellationFeeStatus === 'pending' && normalizePaymentMethod(after.paymentMethod) === 'card') {
+      return;
+    }
+
+    const tripId = event.params.tripId;
+    const authorizationId = after.paymentAuthorizationId;
+    try {
+      if (await voidPaymentAuthorization(authorizationId, String(after.status))) {
+        logger.info('[Payments] Authorization voided', { tripId, authorizationId, status: after.status });
+      }
+    } catch (error) {
+      logger.error('[Payments] Failed to void authorization', error, { tripId, authorizationId });
+    }
+  }
+);
+
+/**
+ * Release the card or wallet hold when a request is cancelled or expires
+ * before a trip was created for it
+ */
+export const voidRequestPaymentOnCancel = onDocumentUpdated(
+  {
+    region: REGION,
+    document: 'tripRequests/{requestId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after || typeof after.paymentAuthorizationId !== 'string' || after.matchedTripId) {
+      return;
+    }
+
+    const ended = (status: unknown) => status === TripRequestStatus.CANCELLED || status === TripRequestStatus.EXPIRED;
+    if (ended(before.status) || !ended(after.status)) {
+      return;
+    }
+
+    const requestId = event.params.requestId;
+    const authorizationId = after.paymentAuthorizationId;
+    try {
+      if (await voidPaymentAuthorization(authorizationId, `request_${String(after.status)}`)) {
+        logger.info('[Payments] Authorization voided', { requestId, authorizationId, status: after.status });
+      }
+    } catch (error) {
+      logger.error('[Payments] Failed to void authorization', error, { requestId, authorizationId });
+    }
+  }
+);
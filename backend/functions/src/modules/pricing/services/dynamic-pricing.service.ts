@@ -1,10 +1,15 @@
 import {
+  FareBreakdown,
   LatLng,
   PRICING_CONFIG,
   VEHICLE_PRICE_MULTIPLIER,
+  PromoDiscountType,
+  RouteFarePolicy,
   VehicleType,
+  calculatePromoDiscountIls,
   calculateRidePrice,
   normalizeRequestedSeats,
+  normalizeRouteFarePolicy,
   normalizeVehicleType,
 } from '@taxi-line/shared';
 import { getFirestore } from '../../../core/config';
@@ -13,6 +18,8 @@ import { logger } from '../../../core/logger';
 const OPS_TIMEZONE = 'Asia/Hebron';
 const DEFAULT_PRICING_PROFILE_ID = 'default';
 const PRICING_CACHE_TTL_MS = 30_000;
+/** Versions per profile kept for resolving quote times */
+const MAX_RESOLVED_VERSIONS = 50;
 
 interface PricingPeakWindow {
   id: string;
@@ -25,10 +32,15 @@ interface PricingPeakWindow {
 
 interface PricingProfileDoc {
   profileId: string;
+  /** Version used (see pricing-profile-versions); null for legacy profiles */
+  version: number | null;
   status: 'active' | 'inactive';
   baseRatePerKm: number;
   minimumFareIls: number;
   seatSurchargePerSeat: number;
+  ratePerMinuteIls: number;
+  /** Tolerance band and deviation cap for the completion-time fare */
+  routeFarePolicy: RouteFarePolicy;
   peakWindows: PricingPeakWindow[];
   vehicleMultipliers: Record<string, number>;
   officeMultipliers: Record<string, number>;
@@ -55,12 +67,21 @@ interface DynamicPricingCacheEntry<T> {
   expiresAtMs: number;
 }
 
-const profileCache = new Map<string, DynamicPricingCacheEntry<PricingProfileDoc>>();
+interface PricingProfileVersionSet {
+  /** Config kept on the header by profiles that were never versioned */
+  legacy: PricingProfileDoc | null;
+  /** Newest effectiveFrom first */
+  versions: Array<{ effectiveFromMs: number; profile: PricingProfileDoc }>;
+}
+
+const profileCache = new Map<string, DynamicPricingCacheEntry<PricingProfileVersionSet>>();
 const lineProfileCache = new Map<string, DynamicPricingCacheEntry<string>>();
 let zonesCache: DynamicPricingCacheEntry<PricingZoneDoc[]> | null = null;
 
 export interface DynamicPricingInput {
   distanceKm: number;
+  /** Ride duration; only priced when the profile sets ratePerMinuteIls */
+  durationMin?: number;
   pickup?: LatLng;
   dropoff?: LatLng;
   rideOptions?: {
@@ -72,27 +93,29 @@ export interface DynamicPricingInput {
   officeId?: string | null;
   lineId?: string | null;
   now?: Date;
+  /** Price with this profile instead of the line's current one */
+  profileId?: string | null;
+  /** Which profile version applies; defaults to `now` */
+  profileAt?: Date;
+  /** Exact profile version to use, e.g. the one a trip was quoted with */
+  profileVersion?: number | null;
+  /** Unsaved profile config to price with instead (simulator drafts) */
+  profileOverride?: FirebaseFirestore.DocumentData | null;
+  /** Passenger discount unlocked via redeemPromoCode (modules/promotions) */
+  promo?: PricingPromo | null;
 }
 
-export interface DynamicPricingBreakdown {
-  profileId: string;
-  baseRatePerKm: number;
-  minimumFareIls: number;
-  roundedDistanceKm: number;
-  baseFareIls: number;
-  seatSurchargeIls: number;
-  zoneFlatSurchargeIls: number;
-  vehicleMultiplier: number;
-  peakMultiplier: number;
-  officeMultiplier: number;
-  lineMultiplier: number;
-  zoneMultiplier: number;
-  combinedMultiplier: number;
-  rawFareIls: number;
-  appliedZoneIds: string[];
-  appliedPeakWindowIds: string[];
+export interface PricingPromo {
+  redemptionId: string;
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxDiscountIls: number | null;
 }
 
+/** Persisted on trips as pricingBreakdown / finalPricingBreakdown */
+export type DynamicPricingBreakdown = FareBreakdown;
+
 export interface DynamicPricingResult {
   priceIls: number;
   breakdown: DynamicPricingBreakdown;
@@ -127,10 +150,13 @@ function isCacheValid<T>(
 function getFallbackPricingProfile(): PricingProfileDoc {
   return {
     profileId: DEFAULT_PRICING_PROFILE_ID,
+    version: null,
     status: 'active',
     baseRatePerKm: PRICING_CONFIG.RATE_PER_KM,
     minimumFareIls: PRICING_CONFIG.MINIMUM_PRICE_ILS,
     seatSurchargePerSeat: 2,
+    ratePerMinuteIls: 0,
+    routeFarePolicy: normalizeRouteFarePolicy({}),
     peakWindows: [],
     vehicleMultipliers: { ...VEHICLE_PRICE_MULTIPLIER },
     officeMultipliers: {},
@@ -165,7 +191,11 @@ function sanitizePeakWindows(value: unknown): PricingPeakWindow[] {
   return windows;
 }
 
-function sanitizePricingProfile(data: FirebaseFirestore.DocumentData | undefined, profileId: string): PricingProfileDoc {
+function sanitizePricingProfile(
+  data: FirebaseFirestore.DocumentData | undefined,
+  profileId: string,
+  version: number | null = null
+): PricingProfileDoc {
   if (!data) {
     return getFallbackPricingProfile();
   }
@@ -174,10 +204,16 @@ function sanitizePricingProfile(data: FirebaseFirestore.DocumentData | undefined
   const seatSurchargePerSeat = sanitizeNonNegative(data.seatSurchargePerSeat, 2);
   return {
     profileId,
+    version,
     status: data.status === 'inactive' ? 'inactive' : 'active',
     baseRatePerKm,
     minimumFareIls,
     seatSurchargePerSeat,
+    ratePerMinuteIls: sanitizeNonNegative(data.ratePerMinuteIls, 0),
+    routeFarePolicy: normalizeRouteFarePolicy({
+      toleranceBandPct: data.fareToleranceBandPct,
+      maxDeviationPct: data.maxFareDeviationPct,
+    }),
     peakWindows: sanitizePeakWindows(data.peakWindows),
     vehicleMultipliers: typeof data.vehicleMultipliers === 'object' && data.vehicleMultipliers
       ? (data.vehicleMultipliers as Record<string, number>)
@@ -211,22 +247,90 @@ async function getPricingProfileIdForLine(lineId: string | null): Promise<string
   return profileId;
 }
 
-async function getPricingProfile(profileId: string): Promise<PricingProfileDoc> {
+async function getPricingProfileVersionSet(profileId: string): Promise<PricingProfileVersionSet> {
   const cached = profileCache.get(profileId);
   if (isCacheValid(cached)) {
     return cached.value;
   }
 
   const db = getFirestore();
-  const profileDoc = await db.collection('pricingProfiles').doc(profileId).get();
-  const profile = sanitizePricingProfile(profileDoc.data(), profileId);
-  const finalProfile = profile.status === 'inactive' ? getFallbackPricingProfile() : profile;
+  const profileRef = db.collection('pricingProfiles').doc(profileId);
+  const profileDoc = await profileRef.get();
+  const headerData = profileDoc.data();
+  let versionSet: PricingProfileVersionSet = { legacy: null, versions: [] };
+
+  if (typeof headerData?.latestVersion === 'number') {
+    const versionsSnapshot = await profileRef
+      .collection('versions')
+      .orderBy('effectiveFrom', 'desc')
+      .limit(MAX_RESOLVED_VERSIONS)
+      .get();
+    versionSet = {
+      legacy: null,
+      versions: versionsSnapshot.docs
+        .map((docSnap) => {
+          const data = docSnap.data();
+          const effectiveFrom = data.effectiveFrom as FirebaseFirestore.Timestamp | undefined;
+          return {
+            effectiveFromMs: effectiveFrom?.toMillis() ?? 0,
+            profile: sanitizePricingProfile(data, profileId, Number(data.version) || null),
+          };
+        })
+        .sort(
+          (a, b) =>
+            b.effectiveFromMs - a.effectiveFromMs || (b.profile.version ?? 0) - (a.profile.version ?? 0)
+        ),
+    };
+  } else if (headerData) {
+    versionSet = { legacy: sanitizePricingProfile(headerData, profileId), versions: [] };
+  }
 
   profileCache.set(profileId, {
-    value: finalProfile,
+    value: versionSet,
     expiresAtMs: Date.now() + PRICING_CACHE_TTL_MS,
   });
-  return finalProfile;
+  return versionSet;
+}
+
+/**
+ * Profile config in effect at a given time (latest effectiveFrom <= at),
+ * or the pinned version when it is still known
+ */
+async function getPricingProfile(
+  profileId: string,
+  at: Date = new Date(),
+  pinnedVersion: number | null = null
+): Promise<PricingProfileDoc> {
+  const versionSet = await getPricingProfileVersionSet(profileId);
+  const atMs = at.getTime();
+  const pinned =
+    pinnedVersion != null
+      ? versionSet.versions.find((entry) => entry.profile.version === pinnedVersion)
+      : undefined;
+  const profile =
+    pinned?.profile ??
+    versionSet.versions.find((entry) => entry.effectiveFromMs <= atMs)?.profile ??
+    versionSet.legacy ??
+    getFallbackPricingProfile();
+  return profile.status === 'inactive' ? getFallbackPricingProfile() : profile;
+}
+
+/**
+ * Tolerance band and deviation cap used to settle the final fare of a
+ * trip quoted with this profile
+ */
+export async function getRouteFarePolicy(
+  profileId: string,
+  at?: Date,
+  profileVersion: number | null = null
+): Promise<RouteFarePolicy> {
+  try {
+    const profile = await getPricingProfile(profileId, at, profileVersion);
+    return profile.routeFarePolicy;
+  } catch (error) {
+    logger.error('[Pricing] Route fare policy lookup failed. Using defaults.', { error, profileId });
+    return normalizeRouteFarePolicy({});
+  }
 }
 
 function sanitizePricingZone(data: FirebaseFirestore.DocumentData | undefined, zoneId: string): PricingZoneDoc | null {
@@ -400,13 +504,17 @@ export async function calculateDynamicRidePrice(input: DynamicPricingInput): Pro
   const lineId = sanitizeId(input.lineId ?? input.rideOptions?.lineId);
   const officeId = sanitizeId(input.officeId ?? input.rideOptions?.officeId);
   const now = input.now ?? new Date();
+  const durationMin = Math.max(0, Math.round((input.durationMin ?? 0) * 10) / 10);
 
   try {
-    const profileId = await getPricingProfileIdForLine(lineId);
-    const profile = await getPricingProfile(profileId);
+    const profileId = sanitizeId(input.profileId) ?? (await getPricingProfileIdForLine(lineId));
+    const profile = input.profileOverride
+      ? sanitizePricingProfile(input.profileOverride, profileId)
+      : await getPricingProfile(profileId, input.profileAt ?? now, input.profileVersion ?? null);
     const zones = await getActivePricingZones();
     const roundedDistanceKm = Math.max(0, Math.round(input.distanceKm * 100) / 100);
     const baseFareIls = roundedDistanceKm * profile.baseRatePerKm;
+    const timeFareIls = durationMin * profile.ratePerMinuteIls;
     const seatSurchargeIls = Math.max(0, requiredSeats - 1) * profile.seatSurchargePerSeat;
     const { multiplier: peakMultiplier, windowIds: appliedPeakWindowIds } = evaluatePeakWindows(
       profile.peakWindows,
@@ -432,21 +540,29 @@ export async function calculateDynamicRidePrice(input: DynamicPricingInput): Pro
 
     const combinedMultiplier =
       vehicleMultiplier * peakMultiplier * officeMultiplier * lineMultiplier * zoneMultiplier;
-    const rawFareIls = (baseFareIls + seatSurchargeIls + flatSurchargeIls) * combinedMultiplier;
+    const rawFareIls =
+      (baseFareIls + timeFareIls + seatSurchargeIls + flatSurchargeIls) * combinedMultiplier;
     const minimumFareIls = sanitizeMultiplier(
       profile.minimumFareIls,
       PRICING_CONFIG.MINIMUM_PRICE_ILS
     );
-    const priceIls = Math.ceil(Math.max(rawFareIls, minimumFareIls));
+    const fareBeforeDiscountIls = Math.ceil(Math.max(rawFareIls, minimumFareIls));
+    const discountIls = input.promo ? calculatePromoDiscountIls(fareBeforeDiscountIls, input.promo) : 0;
+    const priceIls = fareBeforeDiscountIls - discountIls;
+    const appliedPromo = discountIls > 0 ? input.promo : null;
 
     return {
       priceIls,
       breakdown: {
         profileId: profile.profileId,
+        profileVersion: profile.version,
         baseRatePerKm: profile.baseRatePerKm,
         minimumFareIls,
         roundedDistanceKm,
         baseFareIls,
+        ratePerMinuteIls: profile.ratePerMinuteIls,
+        durationMin,
+        timeFareIls,
         seatSurchargeIls,
         zoneFlatSurchargeIls: flatSurchargeIls,
         vehicleMultiplier,
@@ -458,6 +574,12 @@ export async function calculateDynamicRidePrice(input: DynamicPricingInput): Pro
         rawFareIls,
         appliedZoneIds,
         appliedPeakWindowIds,
+        fareBeforeDiscountIls,
+        promoCode: appliedPromo?.code ?? null,
+        promoRedemptionId: appliedPromo?.redemptionId ?? null,
+        discountIls,
+        fareCapAdjustmentIls: 0,
+        waitChargeIls: 0,
       },
     };
   } catch (error) {
@@ -470,14 +592,20 @@ export async function calculateDynamicRidePrice(input: DynamicPricingInput): Pro
       requiredSeats,
       ...(requestedVehicleType ? { vehicleType: requestedVehicleType } : {}),
     });
+    const fallbackDiscountIls = input.promo ? calculatePromoDiscountIls(fallbackPrice, input.promo) : 0;
+    const fallbackPromo = fallbackDiscountIls > 0 ? input.promo : null;
     return {
-      priceIls: fallbackPrice,
+      priceIls: fallbackPrice - fallbackDiscountIls,
       breakdown: {
         profileId: DEFAULT_PRICING_PROFILE_ID,
+        profileVersion: null,
         baseRatePerKm: PRICING_CONFIG.RATE_PER_KM,
         minimumFareIls: PRICING_CONFIG.MINIMUM_PRICE_ILS,
         roundedDistanceKm: Math.max(0, Math.round(input.distanceKm * 100) / 100),
         baseFareIls: input.distanceKm * PRICING_CONFIG.RATE_PER_KM,
+        ratePerMinuteIls: 0,
+        durationMin,
+        timeFareIls: 0,
         seatSurchargeIls: 0,
         zoneFlatSurchargeIls: 0,
         vehicleMultiplier: 1,
@@ -489,6 +617,12 @@ export async function calculateDynamicRidePrice(input: DynamicPricingInput): Pro
         rawFareIls: fallbackPrice,
         appliedZoneIds: [],
         appliedPeakWindowIds: [],
+        fareBeforeDiscountIls: fallbackPrice,
+        promoCode: fallbackPromo?.code ?? null,
+        promoRedemptionId: fallbackPromo?.redemptionId ?? null,
+        discountIls: fallbackDiscountIls,
+        fareCapAdjustmentIls: 0,
+        waitChargeIls: 0,
       },
     };
   }
@@ -1,2 +1,3 @@
-export * from './mapbox.service';
 export * from './dynamic-pricing.service';
+export * from './pricing-profile-versions.service';
+export * from './pricing-simulator.service';
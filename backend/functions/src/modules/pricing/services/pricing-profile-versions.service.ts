@@ -0,0 +1,198 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getFirestore } from '../../../core/config';
+import { NotFoundError, ValidationError } from '../../../core/errors';
+import { logger } from '../../../core/logger';
+
+/**
+ * ============================================================================
+ * PRICING PROFILE VERSIONS
+ * ============================================================================
+ *
+ * pricingProfiles/{profileId}: header { name, latestVersion, ... }
+ * pricingProfiles/{profileId}/versions/v{n}: full config + effectiveFrom
+ *
+ * Versions are append-only. Pricing uses the version with the latest
+ * effectiveFrom at or before the quote time, so publishing a version with
+ * a future date schedules it and past quotes stay reproducible. Rollback
+ * republishes an older version's config as a new version.
+ *
+ * Profiles written before versioning keep their config on the header; the
+ * first publish snapshots it as v1, effective since the beginning.
+ *
+ * ============================================================================
+ */
+
+/** Effective dates may lag the server clock by this much (client skew) */
+const EFFECTIVE_FROM_GRACE_MS = 2 * 60 * 1000;
+
+export interface PricingProfileConfig {
+  name: string;
+  status: 'active' | 'inactive';
+  baseRatePerKm: number;
+  minimumFareIls: number;
+  seatSurchargePerSeat: number;
+  ratePerMinuteIls: number;
+  fareToleranceBandPct: number;
+  maxFareDeviationPct: number;
+  peakWindows: Array<{
+    id: string;
+    label: string;
+    daysOfWeek: number[];
+    startMinute: number;
+    endMinute: number;
+    multiplier: number;
+  }>;
+  vehicleMultipliers: Record<string, number>;
+  officeMultipliers: Record<string, number>;
+  lineMultipliers: Record<string, number>;
+  notes: string | null;
+}
+
+export interface PricingProfileVersionDocument extends PricingProfileConfig {
+  profileId: string;
+  version: number;
+  effectiveFrom: FirebaseFirestore.Timestamp;
+  /** Set when the version was published by a rollback */
+  rolledBackFromVersion: number | null;
+  createdBy: string;
+  createdAt: FirebaseFirestore.FieldValue;
+}
+
+const LEGACY_CONFIG_FIELDS: Array<keyof PricingProfileConfig> = [
+  'name',
+  'status',
+  'baseRatePerKm',
+  'minimumFareIls',
+  'seatSurchargePerSeat',
+  'ratePerMinuteIls',
+  'fareToleranceBandPct',
+  'maxFareDeviationPct',
+  'peakWindows',
+  'vehicleMultipliers',
+  'officeMultipliers',
+  'lineMultipliers',
+  'notes',
+];
+
+export function getPricingProfileVersionId(version: number): string {
+  return `v${version}`;
+}
+
+function pickConfig(data: FirebaseFirestore.DocumentData): Partial<PricingProfileConfig> {
+  const config: Record<string, unknown> = {};
+  for (const field of LEGACY_CONFIG_FIELDS) {
+    if (data[field] !== undefined) {
+      config[field] = data[field];
+    }
+  }
+  return config as Partial<PricingProfileConfig>;
+}
+
+/**
+ * Publish a new version of a profile. Returns the version number.
+ */
+export async function publishPricingProfileVersion(
+  profileId: string,
+  config: PricingProfileConfig,
+  options: {
+    createdBy: string;
+    effectiveFrom?: Date | null;
+    rolledBackFromVersion?: number | null;
+  }
+): Promise<{ version: number; effectiveFrom: Date }> {
+  const nowMs = Date.now();
+  const effectiveFrom = options.effectiveFrom ?? new Date(nowMs);
+  if (effectiveFrom.getTime() < nowMs - EFFECTIVE_FROM_GRACE_MS) {
+    throw new ValidationError('effectiveFrom cannot be in the past');
+  }
+
+  const db = getFirestore();
+  const profileRef = db.collection('pricingProfiles').doc(profileId);
+
+  const version = await db.runTransaction(async (transaction) => {
+    const profileDoc = await transaction.get(profileRef);
+    const profileData = profileDoc.data() ?? {};
+    const latestVersion =
+      typeof profileData.latestVersion === 'number' ? Math.max(0, Math.round(profileData.latestVersion)) : 0;
+    let nextVersion = latestVersion + 1;
+
+    // Keep the pre-versioning config as v1 so earlier quotes still resolve
+    if (profileDoc.exists && latestVersion === 0 && typeof profileData.baseRatePerKm === 'number') {
+      transaction.set(profileRef.collection('versions').doc(getPricingProfileVersionId(1)), {
+        ...pickConfig(profileData),
+        profileId,
+        version: 1,
+        effectiveFrom: Timestamp.fromMillis(0),
+        rolledBackFromVersion: null,
+        createdBy: 'legacy',
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      nextVersion = 2;
+    }
+
+    const versionDoc: PricingProfileVersionDocument = {
+      ...config,
+      profileId,
+      version: nextVersion,
+      effectiveFrom: Timestamp.fromDate(effectiveFrom),
+      rolledBackFromVersion: options.rolledBackFromVersion ?? null,
+      createdBy: options.createdBy,
+      createdAt: FieldValue.serverTimestamp(),
+    };
+    transaction.set(profileRef.collection('versions').doc(getPricingProfileVersionId(nextVersion)), versionDoc);
+    transaction.set(
+      profileRef,
+      {
+        profileId,
+        name: config.name,
+        latestVersion: nextVersion,
+        latestEffectiveFrom: Timestamp.fromDate(effectiveFrom),
+        updatedAt: FieldValue.serverTimestamp(),
+        updatedBy: options.createdBy,
+        ...(profileDoc.exists ? {} : { createdAt: FieldValue.serverTimestamp() }),
+      },
+      { merge: true }
+    );
+    return nextVersion;
+  });
+
+  logger.info('[Pricing] Profile version published', {
+    profileId,
+    version,
+    effectiveFrom: effectiveFrom.toISOString(),
+    rolledBackFromVersion: options.rolledBackFromVersion ?? null,
+  });
+  return { version, effectiveFrom };
+}
+
+/**
+ * Republish an older version's config as a new version
+ */
+export async function rollbackPricingProfile(
+  profileId: string,
+  targetVersion: number,
+  options: { createdBy: string; effectiveFrom?: Date | null }
+): Promise<{ version: number; effectiveFrom: Date }> {
+  const db = getFirestore();
+  const targetDoc = await db
+    .collection('pricingProfiles')
+    .doc(profileId)
+    .collection('versions')
+    .doc(getPricingProfileVersionId(targetVersion))
+    .get();
+  if (!targetDoc.exists) {
+    throw new NotFoundError('Pricing profile version', `${profileId}/${getPricingProfileVersionId(targetVersion)}`);
+  }
+
+  const target = targetDoc.data() as PricingProfileVersionDocument;
+  const config = pickConfig(target) as PricingProfileConfig;
+  return publishPricingProfileVersion(
+    profileId,
+    { ...config, notes: config.notes ?? null },
+    {
+      createdBy: options.createdBy,
+      effectiveFrom: options.effectiveFrom ?? null,
+      rolledBackFromVersion: targetVersion,
+    }
+  );
+}
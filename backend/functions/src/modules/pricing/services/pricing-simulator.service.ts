@@ -0,0 +1,195 @@
+import { FareBreakdown, LatLng, VehicleType, normalizeVehicleType } from '@taxi-line/shared';
+import { getFirestore } from '../../../core/config';
+import { DynamicPricingInput, calculateDynamicRidePrice } from './dynamic-pricing.service';
+import { calculateRoute } from '../../routing';
+import { PricingProfileConfig } from './pricing-profile-versions.service';
+
+/**
+ * ============================================================================
+ * PRICING SIMULATOR - What-if pricing for the manager dashboard
+ * ============================================================================
+ *
+ * Prices rides with the profile version in effect now ("current") and,
+ * optionally, with an unsaved draft config, without creating anything.
+ * Promo discounts are never applied so fares compare like for like.
+ *
+ * ============================================================================
+ */
+
+/** Recent trips scanned when comparing a profile (filtered by profileId) */
+const COMPARE_SCAN_LIMIT = 300;
+
+export interface SimulatedPrice {
+  priceIls: number;
+  breakdown: FareBreakdown;
+}
+
+export interface SimulateRidePriceInput {
+  profileId: string;
+  draft: PricingProfileConfig | null;
+  pickup: LatLng;
+  dropoff: LatLng;
+  at: Date;
+  requiredSeats: number;
+  vehicleType: VehicleType | null;
+  officeId: string | null;
+  lineId: string | null;
+}
+
+export interface SimulateRidePriceResult {
+  distanceKm: number;
+  durationMin: number;
+  current: SimulatedPrice;
+  draft: SimulatedPrice | null;
+}
+
+export interface PricingComparisonRow {
+  tripId: string;
+  createdAt: string | null;
+  distanceKm: number;
+  chargedPriceIls: number;
+  currentPriceIls: number;
+  draftPriceIls: number;
+}
+
+export interface PricingComparisonResult {
+  rows: PricingComparisonRow[];
+  totals: {
+    chargedIls: number;
+    currentIls: number;
+    draftIls: number;
+    /** Draft vs current, in percent of current */
+    changePct: number;
+  };
+}
+
+async function priceWithCurrentAndDraft(
+  input: DynamicPricingInput,
+  draft: PricingProfileConfig | null
+): Promise<{ current: SimulatedPrice; draft: SimulatedPrice | null }> {
+  const current = await calculateDynamicRidePrice({ ...input, profileAt: new Date() });
+  const drafted = draft
+    ? await calculateDynamicRidePrice({ ...input, profileOverride: { ...draft, status: 'active' } })
+    : null;
+  return { current, draft: drafted };
+}
+
+export async function simulateRidePrice(input: SimulateRidePriceInput): Promise<SimulateRidePriceResult> {
+  const route = await calculateRoute(input.pickup, input.dropoff);
+  const prices = await priceWithCurrentAndDraft(
+    {
+      distanceKm: route.distanceKm,
+      durationMin: route.durationMin,
+      pickup: input.pickup,
+      dropoff: input.dropoff,
+      rideOptions: {
+        requiredSeats: input.requiredSeats,
+        vehicleType: input.vehicleType,
+        officeId: input.officeId,
+        lineId: input.lineId,
+      },
+      officeId: input.officeId,
+      lineId: input.lineId,
+      now: input.at,
+      profileId: input.profileId,
+    },
+    input.draft
+  );
+
+  return {
+    distanceKm: Math.round(route.distanceKm * 100) / 100,
+    durationMin: Math.round(route.durationMin * 10) / 10,
+    ...prices,
+  };
+}
+
+function toLatLng(value: unknown): LatLng | undefined {
+  const point = value as Partial<LatLng> | null | undefined;
+  if (typeof point?.lat !== 'number' || typeof point?.lng !== 'number') return undefined;
+  return { lat: point.lat, lng: point.lng };
+}
+
+function sanitizeId(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Reprice the most recent trips quoted with a profile, under its current
+ * version and under a draft config
+ */
+export async function comparePricingProfileOnRecentTrips(
+  profileId: string,
+  draft: PricingProfileConfig,
+  tripLimit: number
+): Promise<PricingComparisonResult> {
+  const db = getFirestore();
+  const snapshot = await db
+    .collection('trips')
+    .orderBy('createdAt', 'desc')
+    .limit(COMPARE_SCAN_LIMIT)
+    .get();
+
+  const trips = snapshot.docs
+    .filter((docSnap) => {
+      const breakdown = docSnap.data().pricingBreakdown as { profileId?: unknown } | null | undefined;
+      return breakdown?.profileId === profileId;
+    })
+    .slice(0, tripLimit);
+
+  const rows: PricingComparisonRow[] = [];
+  for (const tripDoc of trips) {
+    const trip = tripDoc.data();
+    const createdAt = trip.createdAt as FirebaseFirestore.Timestamp | undefined;
+    const distanceKm = Number(trip.estimatedDistanceKm) || 0;
+    const officeId = sanitizeId(trip.requestedOfficeId);
+    const lineId = sanitizeId(trip.requestedLineId);
+    const pickup = toLatLng(trip.pickup);
+    const dropoff = toLatLng(trip.dropoff);
+
+    const prices = await priceWithCurrentAndDraft(
+      {
+        distanceKm,
+        durationMin: Number(trip.estimatedDurationMin) || 0,
+        ...(pickup ? { pickup } : {}),
+        ...(dropoff ? { dropoff } : {}),
+        rideOptions: {
+          requiredSeats: typeof trip.requiredSeats === 'number' ? trip.requiredSeats : 1,
+          vehicleType: normalizeVehicleType(trip.requestedVehicleType),
+          officeId,
+          lineId,
+        },
+        officeId,
+        lineId,
+        now: createdAt?.toDate() ?? new Date(),
+        profileId,
+      },
+      draft
+    );
+
+    rows.push({
+      tripId: tripDoc.id,
+      createdAt: createdAt?.toDate().toISOString() ?? null,
+      distanceKm,
+      chargedPriceIls: Number(trip.finalPriceIls ?? trip.estimatedPriceIls) || 0,
+      currentPriceIls: prices.current.priceIls,
+      draftPriceIls: prices.draft?.priceIls ?? prices.current.priceIls,
+    });
+  }
+
+  const sum = (pick: (row: PricingComparisonRow) => number) =>
+    rows.reduce((total, row) => total + pick(row), 0);
+  const currentIls = sum((row) => row.currentPriceIls);
+  const draftIls = sum((row) => row.draftPriceIls);
+
+  return {
+    rows,
+    totals: {
+      chargedIls: sum((row) => row.chargedPriceIls),
+      currentIls,
+      draftIls,
+      changePct: currentIls > 0 ? Math.round(((draftIls - currentIls) / currentIls) * 10000) / 100 : 0,
+    },
+  };
+}
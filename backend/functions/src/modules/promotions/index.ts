@@ -0,0 +1,11 @@
+// Promotions module - promo campaigns, referrals and passenger discounts
+export {
+  consumePassengerPromo,
+  findPassengerPromo,
+  redeemCampaignPromoCode,
+  releasePassengerPromo,
+} from './promo-codes';
+export type { PassengerPromo, PromoCodeDocument, PromoRedemptionDocument } from './promo-codes';
+export { getOrCreateReferralCode, isReferralCode, redeemReferralCode } from './referrals';
+export type { ReferralDocument } from './referrals';
+export { releasePromoOnRequestEnd, releasePromoOnTripCancel } from './releasePromo.firestore';
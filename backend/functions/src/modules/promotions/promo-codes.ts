@@ -0,0 +1,270 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  PROMO_REDEMPTION_SOURCES,
+  PROMO_REDEMPTION_STATUSES,
+  PromoDiscountType,
+  PromoRedemptionSource,
+  PromoRedemptionStatus,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { ConflictError, ForbiddenError } from '../../core/errors';
+import { logger } from '../../core/logger';
+
+/**
+ * ============================================================================
+ * PROMO CODES - Campaign validation and per-passenger redemptions
+ * ============================================================================
+ *
+ * promoCodes/{code}: created by managerUpsertPromoCode
+ * promoRedemptions/{code}_{passengerId}: one per passenger and code
+ *
+ * Redeeming a code only unlocks the discount. Pricing picks the best
+ * available redemption for the ride scope and createTripRequest marks it
+ * APPLIED. It goes back to AVAILABLE whenever the ride ends without a
+ * trip being driven: request cancelled or expired, trip cancelled or
+ * closed without a driver (releasePromo.firestore.ts).
+ *
+ * ============================================================================
+ */
+
+export interface PromoCodeDocument {
+  code: string;
+  description: string | null;
+  status: 'active' | 'inactive';
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxDiscountIls: number | null;
+  /** Total passengers that may redeem the code; null = unlimited */
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  /** Office the campaign is limited to; null = every office */
+  officeId: string | null;
+  startsAt: FirebaseFirestore.Timestamp | null;
+  expiresAt: FirebaseFirestore.Timestamp | null;
+}
+
+export interface PromoRedemptionDocument {
+  redemptionId: string;
+  passengerId: string;
+  code: string;
+  source: PromoRedemptionSource;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxDiscountIls: number | null;
+  officeId: string | null;
+  expiresAt: FirebaseFirestore.Timestamp | null;
+  status: PromoRedemptionStatus;
+  appliedRequestId: string | null;
+  createdAt: FirebaseFirestore.FieldValue;
+}
+
+/** Discount handed to calculateDynamicRidePrice */
+export interface PassengerPromo {
+  redemptionId: string;
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxDiscountIls: number | null;
+}
+
+/** Upper bound of unlocked discounts scanned per ride */
+const MAX_AVAILABLE_REDEMPTIONS = 10;
+
+export function getPromoRedemptionId(code: string, passengerId: string): string {
+  return `${code}_${passengerId}`;
+}
+
+function toMillis(value: unknown): number | null {
+  if (value && typeof (value as FirebaseFirestore.Timestamp).toMillis === 'function') {
+    return (value as FirebaseFirestore.Timestamp).toMillis();
+  }
+  return null;
+}
+
+function sanitizeId(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Campaign checks at redemption time
+ */
+function assertPromoCodeUsable(promo: PromoCodeDocument, nowMs: number): void {
+  if (promo.status !== 'active') {
+    throw new ForbiddenError('This promo code is no longer active');
+  }
+
+  const startsAtMs = toMillis(promo.startsAt);
+  if (startsAtMs != null && startsAtMs > nowMs) {
+    throw new ForbiddenError('This promo code is not active yet');
+  }
+
+  const expiresAtMs = toMillis(promo.expiresAt);
+  if (expiresAtMs != null && expiresAtMs <= nowMs) {
+    throw new ForbiddenError('This promo code has expired');
+  }
+
+  if (promo.maxRedemptions != null && promo.redemptionCount >= promo.maxRedemptions) {
+    throw new ForbiddenError('This promo code has reached its usage limit');
+  }
+}
+
+/**
+ * Unlock a manager campaign for a passenger (transaction: usage cap and
+ * one redemption per passenger)
+ */
+export async function redeemCampaignPromoCode(
+  passengerId: string,
+  code: string
+): Promise<PromoRedemptionDocument | null> {
+  const db = getFirestore();
+  const promoRef = db.collection('promoCodes').doc(code);
+  const redemptionId = getPromoRedemptionId(code, passengerId);
+  const redemptionRef = db.collection('promoRedemptions').doc(redemptionId);
+
+  return db.runTransaction(async (transaction) => {
+    const promoDoc = await transaction.get(promoRef);
+    if (!promoDoc.exists) {
+      return null;
+    }
+
+    const redemptionDoc = await transaction.get(redemptionRef);
+    if (redemptionDoc.exists) {
+      throw new ConflictError('You have already redeemed this promo code');
+    }
+
+    const promo = promoDoc.data() as PromoCodeDocument;
+    assertPromoCodeUsable(promo, Date.now());
+
+    const redemption: PromoRedemptionDocument = {
+      redemptionId,
+      passengerId,
+      code,
+      source: PROMO_REDEMPTION_SOURCES.PROMO,
+      discountType: promo.discountType,
+      discountValue: promo.discountValue,
+      maxDiscountIls: promo.maxDiscountIls ?? null,
+      officeId: sanitizeId(promo.officeId),
+      expiresAt: promo.expiresAt ?? null,
+      status: PROMO_REDEMPTION_STATUSES.AVAILABLE,
+      appliedRequestId: null,
+      createdAt: FieldValue.serverTimestamp(),
+    };
+
+    transaction.set(redemptionRef, redemption);
+    transaction.update(promoRef, {
+      redemptionCount: FieldValue.increment(1),
+      lastRedeemedAt: FieldValue.serverTimestamp(),
+    });
+
+    return redemption;
+  });
+}
+
+/**
+ * Best unlocked discount for a ride, or null. Office-scoped redemptions
+ * only apply to rides in that office.
+ */
+export async function findPassengerPromo(
+  passengerId: string,
+  scope: { officeId: string | null }
+): Promise<PassengerPromo | null> {
+  const db = getFirestore();
+  const snapshot = await db
+    .collection('promoRedemptions')
+    .where('passengerId', '==', passengerId)
+    .where('status', '==', PROMO_REDEMPTION_STATUSES.AVAILABLE)
+    .limit(MAX_AVAILABLE_REDEMPTIONS)
+    .get();
+
+  const nowMs = Date.now();
+  const usable = snapshot.docs
+    .map((docSnap) => docSnap.data() as PromoRedemptionDocument)
+    .filter((redemption) => {
+      const expiresAtMs = toMillis(redemption.expiresAt);
+      if (expiresAtMs != null && expiresAtMs <= nowMs) return false;
+      return !redemption.officeId || redemption.officeId === scope.officeId;
+    })
+    // Soonest expiry first so nothing is wasted; open-ended ones last
+    .sort(
+      (a, b) =>
+        (toMillis(a.expiresAt) ?? Number.MAX_SAFE_INTEGER) -
+        (toMillis(b.expiresAt) ?? Number.MAX_SAFE_INTEGER)
+    );
+
+  const redemption = usable[0];
+  if (!redemption) {
+    return null;
+  }
+
+  return {
+    redemptionId: redemption.redemptionId,
+    code: redemption.code,
+    discountType: redemption.discountType,
+    discountValue: redemption.discountValue,
+    maxDiscountIls: redemption.maxDiscountIls ?? null,
+  };
+}
+
+/**
+ * Mark a redemption as used by a trip request. Returns false if another
+ * booking consumed it first.
+ */
+export async function consumePassengerPromo(
+  redemptionId: string,
+  requestId: string
+): Promise<boolean> {
+  const db = getFirestore();
+  const redemptionRef = db.collection('promoRedemptions').doc(redemptionId);
+
+  const consumed = await db.runTransaction(async (transaction) => {
+    const redemptionDoc = await transaction.get(redemptionRef);
+    if (redemptionDoc.data()?.status !== PROMO_REDEMPTION_STATUSES.AVAILABLE) {
+      return false;
+    }
+    transaction.update(redemptionRef, {
+      status: PROMO_REDEMPTION_STATUSES.APPLIED,
+      appliedRequestId: requestId,
+      appliedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (!consumed) {
+    logger.warn('[Promo] Redemption already used', { redemptionId, requestId });
+  }
+  return consumed;
+}
+
+/**
+ * Give a redemption back to the passenger when the request it was applied
+ * to ends without a ride. No-op unless it is still APPLIED to requestId.
+ */
+export async function releasePassengerPromo(
+  redemptionId: string,
+  requestId: string
+): Promise<boolean> {
+  const db = getFirestore();
+  const redemptionRef = db.collection('promoRedemptions').doc(redemptionId);
+
+  return db.runTransaction(async (transaction) => {
+    const redemptionData = (await transaction.get(redemptionRef)).data();
+    if (
+      redemptionData?.status !== PROMO_REDEMPTION_STATUSES.APPLIED ||
+      redemptionData.appliedRequestId !== requestId
+    ) {
+      return false;
+    }
+    transaction.update(redemptionRef, {
+      status: PROMO_REDEMPTION_STATUSES.AVAILABLE,
+      appliedRequestId: null,
+      releasedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+export function toPromoExpiry(days: number): FirebaseFirestore.Timestamp {
+  return Timestamp.fromMillis(Date.now() + days * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,179 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import {
+  PROMO_CONFIG,
+  PROMO_DISCOUNT_TYPES,
+  PROMO_REDEMPTION_SOURCES,
+  PROMO_REDEMPTION_STATUSES,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { ConflictError, ForbiddenError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { PromoRedemptionDocument, getPromoRedemptionId, toPromoExpiry } from './promo-codes';
+
+/**
+ * ============================================================================
+ * REFERRALS - Passenger-to-passenger invite codes
+ * ============================================================================
+ *
+ * referrals/{code}: { code, referrerId, redeemedCount }
+ * users/{uid}.referralCode / referredBy
+ *
+ * Redeeming someone else's code gives the new passenger a fixed discount
+ * and the referrer a matching credit, both as promoRedemptions. A
+ * passenger can be referred only once and never by their own code.
+ *
+ * ============================================================================
+ */
+
+export interface ReferralDocument {
+  code: string;
+  referrerId: string;
+  redeemedCount: number;
+  createdAt: FirebaseFirestore.FieldValue;
+}
+
+/** Attempts at a collision-free code before giving up */
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function generateReferralCode(): string {
+  let suffix = '';
+  for (let i = 0; i < 6; i++) {
+    suffix += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  }
+  return `${PROMO_CONFIG.REFERRAL_CODE_PREFIX}${suffix}`;
+}
+
+export function isReferralCode(code: string): boolean {
+  return code.startsWith(PROMO_CONFIG.REFERRAL_CODE_PREFIX);
+}
+
+/**
+ * Persistent referral code of a passenger, created on first request
+ */
+export async function getOrCreateReferralCode(
+  passengerId: string
+): Promise<{ code: string; redeemedCount: number }> {
+  const db = getFirestore();
+  const userRef = db.collection('users').doc(passengerId);
+
+  const userDoc = await userRef.get();
+  const existingCode = userDoc.data()?.referralCode as unknown;
+  if (typeof existingCode === 'string' && existingCode.length > 0) {
+    const referralDoc = await db.collection('referrals').doc(existingCode).get();
+    if (referralDoc.exists) {
+      const referral = referralDoc.data() as ReferralDocument;
+      return { code: referral.code, redeemedCount: referral.redeemedCount };
+    }
+  }
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = generateReferralCode();
+    const referralRef = db.collection('referrals').doc(code);
+
+    const created = await db.runTransaction(async (transaction) => {
+      const referralDoc = await transaction.get(referralRef);
+      if (referralDoc.exists) {
+        return false;
+      }
+
+      const referral: ReferralDocument = {
+        code,
+        referrerId: passengerId,
+        redeemedCount: 0,
+        createdAt: FieldValue.serverTimestamp(),
+      };
+      transaction.set(referralRef, referral);
+      transaction.set(userRef, { referralCode: code }, { merge: true });
+      return true;
+    });
+
+    if (created) {
+      logger.info('[Referral] Code created', { passengerId, code });
+      return { code, redeemedCount: 0 };
+    }
+  }
+
+  throw new ConflictError('Could not generate a unique referral code. Please try again.');
+}
+
+/**
+ * Redeem a referral code. Returns null when the code does not exist.
+ */
+export async function redeemReferralCode(
+  passengerId: string,
+  code: string
+): Promise<PromoRedemptionDocument | null> {
+  const db = getFirestore();
+  const referralRef = db.collection('referrals').doc(code);
+  const userRef = db.collection('users').doc(passengerId);
+
+  return db.runTransaction(async (transaction) => {
+    const referralDoc = await transaction.get(referralRef);
+    if (!referralDoc.exists) {
+      return null;
+    }
+
+    const userDoc = await transaction.get(userRef);
+    const referral = referralDoc.data() as ReferralDocument;
+
+    if (referral.referrerId === passengerId) {
+      throw new ForbiddenError('You cannot redeem your own referral code');
+    }
+    if (typeof userDoc.data()?.referredBy === 'string') {
+      throw new ConflictError('You have already used a referral code');
+    }
+
+    const expiresAt = toPromoExpiry(PROMO_CONFIG.REFERRAL_VALID_DAYS);
+    const redemptionId = getPromoRedemptionId(code, passengerId);
+    const redemption: PromoRedemptionDocument = {
+      redemptionId,
+      passengerId,
+      code,
+      source: PROMO_REDEMPTION_SOURCES.REFERRAL,
+      discountType: PROMO_DISCOUNT_TYPES.FIXED,
+      discountValue: PROMO_CONFIG.REFERRAL_NEW_PASSENGER_DISCOUNT_ILS,
+      maxDiscountIls: null,
+      officeId: null,
+      expiresAt,
+      status: PROMO_REDEMPTION_STATUSES.AVAILABLE,
+      appliedRequestId: null,
+      createdAt: FieldValue.serverTimestamp(),
+    };
+
+    // Referrer credit is keyed by the new passenger so it is granted once
+    const rewardId = getPromoRedemptionId(code, `${referral.referrerId}_${passengerId}`);
+    const reward: PromoRedemptionDocument = {
+      redemptionId: rewardId,
+      passengerId: referral.referrerId,
+      code,
+      source: PROMO_REDEMPTION_SOURCES.REFERRAL_REWARD,
+      discountType: PROMO_DISCOUNT_TYPES.FIXED,
+      discountValue: PROMO_CONFIG.REFERRAL_REFERRER_REWARD_ILS,
+      maxDiscountIls: null,
+      officeId: null,
+      expiresAt,
+      status: PROMO_REDEMPTION_STATUSES.AVAILABLE,
+      appliedRequestId: null,
+      createdAt: FieldValue.serverTimestamp(),
+    };
+
+    transaction.set(db.collection('promoRedemptions').doc(redemptionId), redemption);
+    transaction.set(db.collection('promoRedemptions').doc(rewardId), reward);
+    transaction.set(
+      userRef,
+      {
+        referredBy: referral.referrerId,
+        referredWithCode: code,
+        referredAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    transaction.update(referralRef, {
+      redeemedCount: FieldValue.increment(1),
+      lastRedeemedAt: FieldValue.serverTimestamp(),
+    });
+
+    return redemption;
+  });
+}
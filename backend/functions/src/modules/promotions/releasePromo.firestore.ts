@@ -0,0 +1,83 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { TERMINAL_TRIP_STATUSES, TripRequestStatus, TripStatus, toFareBreakdown } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { releasePassengerPromo } from './promo-codes';
+
+/** Terminal trip statuses reached without the ride being driven */
+const UNDRIVEN_TRIP_STATUSES: TripStatus[] = TERMINAL_TRIP_STATUSES.filter(
+  (status) => status !== TripStatus.COMPLETED && status !== TripStatus.RATED
+);
+
+/**
+ * Give the promo back when a request is cancelled or expires before a
+ * trip was created for it (expireStaleTrips, failed scheduled rides)
+ */
+export const releasePromoOnRequestEnd = onDocumentUpdated(
+  {
+    region: REGION,
+    document: 'tripRequests/{requestId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after || typeof after.promoRedemptionId !== 'string' || after.matchedTripId) {
+      return;
+    }
+
+    const ended = (status: unknown) => status === TripRequestStatus.CANCELLED || status === TripRequestStatus.EXPIRED;
+    if (ended(before.status) || !ended(after.status)) {
+      return;
+    }
+
+    const requestId = event.params.requestId;
+    const redemptionId = after.promoRedemptionId;
+    try {
+      if (await releasePassengerPromo(redemptionId, requestId)) {
+        logger.info('[Promo] Redemption released', { requestId, redemptionId, status: after.status });
+      }
+    } catch (error) {
+      logger.error('[Promo] Failed to release redemption', error, { requestId, redemptionId });
+    }
+  }
+);
+
+/**
+ * Give the promo back when a trip is cancelled or ends as
+ * NO_DRIVER_AVAILABLE
+ */
+export const releasePromoOnTripCancel = onDocumentUpdated(
+  {
+    region: REGION,
+    document: 'trips/{tripId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    const redemptionId = toFareBreakdown(after?.pricingBreakdown)?.promoRedemptionId;
+    if (!before || !after || !redemptionId || typeof after.requestId !== 'string') {
+      return;
+    }
+
+    const cancelled =
+      !TERMINAL_TRIP_STATUSES.includes(before.status as TripStatus) &&
+      UNDRIVEN_TRIP_STATUSES.includes(after.status as TripStatus);
+    if (!cancelled) {
+      return;
+    }
+
+    const tripId = event.params.tripId;
+    const requestId = after.requestId;
+    try {
+      if (await releasePassengerPromo(redemptionId, requestId)) {
+        logger.info('[Promo] Redemption released', { tripId, requestId, redemptionId, status: after.status });
+      }
+    } catch (error) {
+      logger.error('[Promo] Failed to release redemption', error, { tripId, redemptionId });
+    }
+  }
+);
@@ -0,0 +1,5 @@
+// Quality module - rolling rating summaries, review flags and comment moderation
+export { updateDriverRatingQuality, updatePassengerRatingQuality } from './updateRatingQuality.firestore';
+export { RATING_SOURCES, ratingQualityDocId, refreshRatingQuality, setDriverReview } from './rating-quality';
+export { moderateRatingComment } from './rating-moderation';
+export type { RatingCommentModeration } from './rating-moderation';
@@ -0,0 +1,90 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { RatingSubject } from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { ForbiddenError, NotFoundError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { RATING_SOURCES } from './rating-quality';
+
+export interface RatingCommentModeration {
+  /** Who was rated: `driver` for ratings/, `passenger` for passengerRatings/ */
+  subject: RatingSubject;
+  tripId: string;
+  hidden: boolean;
+  reason: string | null;
+  managerId: string;
+}
+
+/**
+ * Hide an abusive rating comment, or restore it. The original text moves to
+ * ratingModeration/ (managers only) so the rated user can no longer read it;
+ * the star rating itself is kept.
+ */
+export async function moderateRatingComment(input: RatingCommentModeration): Promise<void> {
+  const db = getFirestore();
+  const ratingRef = db.collection(RATING_SOURCES[input.subject].collection).doc(input.tripId);
+  const moderationRef = db.collection('ratingModeration').doc(`${input.subject}_${input.tripId}`);
+  const tripRef = db.collection('trips').doc(input.tripId);
+
+  await db.runTransaction(async (transaction) => {
+    const [ratingDoc, moderationDoc] = await Promise.all([
+      transaction.get(ratingRef),
+      transaction.get(moderationRef),
+    ]);
+    if (!ratingDoc.exists) {
+      throw new NotFoundError('Rating', input.tripId);
+    }
+    const rating = ratingDoc.data() ?? {};
+    const isHidden = rating.commentHidden === true;
+
+    if (input.hidden) {
+      if (isHidden) return;
+      if (typeof rating.comment !== 'string' || !rating.comment) {
+        throw new ForbiddenError('This rating has no comment to hide');
+      }
+
+      transaction.set(moderationRef, {
+        subject: input.subject,
+        tripId: input.tripId,
+        comment: rating.comment,
+        reason: input.reason,
+        hiddenBy: input.managerId,
+        hiddenAt: FieldValue.serverTimestamp(),
+      });
+      transaction.update(ratingRef, {
+        comment: null,
+        commentHidden: true,
+        commentHiddenAt: FieldValue.serverTimestamp(),
+      });
+      if (input.subject === 'passenger') {
+        transaction.update(tripRef, { 'passengerRatingByDriver.comment': null });
+      }
+      return;
+    }
+
+    if (!isHidden) return;
+    const original: unknown = moderationDoc.data()?.comment;
+    const comment = typeof original === 'string' ? original : null;
+
+    transaction.update(ratingRef, {
+      comment,
+      commentHidden: false,
+      commentHiddenAt: null,
+    });
+    if (input.subject === 'passenger') {
+      transaction.update(tripRef, { 'passengerRatingByDriver.comment': comment });
+    }
+    if (moderationDoc.exists) {
+      transaction.update(moderationRef, {
+        restoredBy: input.managerId,
+        restoredAt: FieldValue.serverTimestamp(),
+      });
+    }
+  });
+
+  logger.info('[RatingModeration] Comment moderated', {
+    subject: input.subject,
+    tripId: input.tripId,
+    hidden: input.hidden,
+    managerId: input.managerId,
+  });
+}
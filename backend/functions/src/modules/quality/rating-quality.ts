@@ -0,0 +1,260 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  DRIVER_QUALITY_STATUSES,
+  DriverQualityStatus,
+  RATING_QUALITY_FLAG_TYPES,
+  RATING_QUALITY_RULES,
+  RatingQualityFlag,
+  RatingSubject,
+  computeRatingQuality,
+  normalizeLowRatingReason,
+  ratingQualityFlagKey,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { NotFoundError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { buildSupportTicketDocs } from '../support';
+
+/** Where each subject's ratings live and which field names the rated user */
+export const RATING_SOURCES: Record<RatingSubject, { collection: string; userField: string }> = {
+  driver: { collection: 'ratings', userField: 'driverId' },
+  passenger: { collection: 'passengerRatings', userField: 'passengerId' },
+};
+
+/** Flags that put a driver on review; the others open support tickets */
+const REVIEW_FLAG_TYPES = new Set<string>([
+  RATING_QUALITY_FLAG_TYPES.LOW_AVERAGE,
+  RATING_QUALITY_FLAG_TYPES.HIGH_LOW_SHARE,
+]);
+
+interface RaisedFlag {
+  ticketId: string | null;
+  raisedAt: Timestamp;
+}
+
+interface LoadedRating {
+  tripId: string;
+  rating: number;
+  lowRatingReason: string | null;
+  createdAtMs: number;
+}
+
+export function ratingQualityDocId(subject: RatingSubject, userId: string): string {
+  return `${subject}_${userId}`;
+}
+
+function toMillis(value: unknown): number {
+  return value instanceof Timestamp ? value.toMillis() : 0;
+}
+
+function describeFlag(flag: RatingQualityFlag): string {
+  switch (flag.type) {
+    case RATING_QUALITY_FLAG_TYPES.REPEATED_COMPLAINT:
+      return `Repeated complaint "${flag.reason ?? ''}" (${flag.value} times)`;
+    case RATING_QUALITY_FLAG_TYPES.LOW_AVERAGE:
+      return `Average rating ${flag.value}`;
+    default:
+      return `${Math.round(flag.value * 100)}% low ratings`;
+  }
+}
+
+/**
+ * Recompute the rolling-window summary of a rated user and act on new flags:
+ * repeated complaints (and any passenger flag) open a support ticket, a poor
+ * driver average or low-rating share puts the driver on review. Each flag
+ * acts once until it clears.
+ */
+export async function refreshRatingQuality(subject: RatingSubject, userId: string): Promise<void> {
+  const db = getFirestore();
+  const source = RATING_SOURCES[subject];
+  const qualityRef = db.collection('ratingQuality').doc(ratingQualityDocId(subject, userId));
+  const windowStart = Timestamp.fromMillis(Date.now() - RATING_QUALITY_RULES.WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const ratingsQuery = db
+    .collection(source.collection)
+    .where(source.userField, '==', userId)
+    .where('createdAt', '>=', windowStart)
+    .orderBy('createdAt', 'desc')
+    .limit(RATING_QUALITY_RULES.MAX_RATINGS_SCANNED);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const [qualityDoc, ratingsSnapshot] = await Promise.all([
+      transaction.get(qualityRef),
+      transaction.get(ratingsQuery),
+    ]);
+    const previous = qualityDoc.data() ?? {};
+
+    const ratings: LoadedRating[] = ratingsSnapshot.docs.map((docSnap) => {
+      const data = docSnap.data();
+      return {
+        tripId: docSnap.id,
+        rating: Number(data.rating ?? 0),
+        lowRatingReason: typeof data.lowRatingReason === 'string' ? data.lowRatingReason : null,
+        createdAtMs: toMillis(data.createdAt),
+      };
+    });
+    // Flags restart from the last cleared review so the same ratings do not
+    // put the driver straight back on review
+    const reviewClearedAtMs = toMillis(previous.reviewClearedAt);
+    const flagRatings = ratings.filter((rating) => rating.createdAtMs > reviewClearedAtMs);
+    const summary = computeRatingQuality(ratings, flagRatings);
+
+    const previousRaised = (previous.raisedFlags ?? {}) as Record<string, RaisedFlag>;
+    const raisedFlags: Record<string, RaisedFlag> = {};
+    const openedTickets: string[] = [];
+    const now = Timestamp.now();
+
+    for (const flag of summary.flags) {
+      const key = ratingQualityFlagKey(flag);
+      const existing = previousRaised[key];
+      if (existing) {
+        raisedFlags[key] = existing;
+        continue;
+      }
+
+      let ticketId: string | null = null;
+      if (subject === 'passenger' || !REVIEW_FLAG_TYPES.has(flag.type)) {
+        const ticketRef = db.collection('supportTickets').doc();
+        const latestTrip = flagRatings.find(
+          (rating) => !flag.reason || normalizeLowRatingReason(rating.lowRatingReason) === flag.reason
+        );
+        const { ticket, firstMessage } = buildSupportTicketDocs({
+          userId,
+          userRole: subject,
+          tripId: latestTrip?.tripId ?? null,
+          category: 'trip',
+          subject: `Rating quality: ${describeFlag(flag)}`.slice(0, 120),
+          message:
+            `${subject === 'driver' ? 'Driver' : 'Passenger'} ${userId} was flagged over the last ` +
+            `${RATING_QUALITY_RULES.WINDOW_DAYS} days: ${describeFlag(flag)}.`,
+          source: 'quality',
+          authorRole: 'system',
+          extra: { qualityFlag: key },
+        });
+        transaction.set(ticketRef, ticket);
+        transaction.set(ticketRef.collection('messages').doc(), firstMessage);
+        ticketId = ticketRef.id;
+        openedTickets.push(ticketId);
+      }
+      raisedFlags[key] = { ticketId, raisedAt: now };
+    }
+
+    const qualityPayload: Record<string, unknown> = {
+      subject,
+      userId,
+      windowDays: RATING_QUALITY_RULES.WINDOW_DAYS,
+      ...summary,
+      raisedFlags,
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+
+    let status: DriverQualityStatus | null = null;
+    let reviewOpened = false;
+    if (subject === 'driver') {
+      const wasOnReview = previous.status === DRIVER_QUALITY_STATUSES.ON_REVIEW;
+      reviewOpened = !wasOnReview && summary.flags.some((flag) => REVIEW_FLAG_TYPES.has(flag.type));
+      status =
+        wasOnReview || reviewOpened
+          ? DRIVER_QUALITY_STATUSES.ON_REVIEW
+          : summary.flags.length > 0
+            ? DRIVER_QUALITY_STATUSES.WATCH
+            : DRIVER_QUALITY_STATUSES.GOOD;
+      qualityPayload.status = status;
+      if (reviewOpened) {
+        qualityPayload.reviewOpenedAt = FieldValue.serverTimestamp();
+        qualityPayload.reviewOpenedBy = null;
+      }
+
+      transaction.set(
+        db.collection('drivers').doc(userId),
+        {
+          rating: summary.averageRating,
+          ratingCount: summary.ratingCount,
+          qualityStatus: status,
+          qualityFlags: summary.flags.map((flag) => flag.type),
+        },
+        { merge: true }
+      );
+    }
+
+    // update() replaces the flag and reason maps instead of merging into them
+    if (qualityDoc.exists) {
+      transaction.update(qualityRef, qualityPayload);
+    } else {
+      transaction.set(qualityRef, qualityPayload);
+    }
+    return { summary, status, reviewOpened, openedTickets };
+  });
+
+  logger.info('[RatingQuality] Summary refreshed', {
+    subject,
+    userId,
+    ratingCount: result.summary.ratingCount,
+    averageRating: result.summary.averageRating,
+    flags: result.summary.flags.map(ratingQualityFlagKey),
+    status: result.status,
+  });
+  if (result.reviewOpened) {
+    logger.warn('[RatingQuality] Driver put on review', { driverId: userId });
+  }
+  if (result.openedTickets.length > 0) {
+    logger.warn('[RatingQuality] Support tickets opened', { subject, userId, ticketIds: result.openedTickets });
+  }
+}
+
+/**
+ * Manually put a driver on review, or clear the review. Clearing restarts
+ * flag evaluation from now.
+ */
+export async function setDriverReview(input: {
+  driverId: string;
+  onReview: boolean;
+  managerId: string;
+  note: string | null;
+}): Promise<DriverQualityStatus> {
+  const db = getFirestore();
+  const driverRef = db.collection('drivers').doc(input.driverId);
+  const qualityRef = db.collection('ratingQuality').doc(ratingQualityDocId('driver', input.driverId));
+
+  return db.runTransaction(async (transaction) => {
+    const [driverDoc, qualityDoc] = await Promise.all([transaction.get(driverRef), transaction.get(qualityRef)]);
+    if (!driverDoc.exists) {
+      throw new NotFoundError('Driver', input.driverId);
+    }
+
+    const status = input.onReview ? DRIVER_QUALITY_STATUSES.ON_REVIEW : DRIVER_QUALITY_STATUSES.GOOD;
+    const review = input.onReview
+      ? {
+          reviewOpenedAt: FieldValue.serverTimestamp(),
+          reviewOpenedBy: input.managerId,
+        }
+      : {
+          reviewClearedAt: FieldValue.serverTimestamp(),
+          reviewClearedBy: input.managerId,
+          flags: [],
+          raisedFlags: {},
+        };
+
+    const qualityPayload = {
+      subject: 'driver',
+      userId: input.driverId,
+      status,
+      reviewNote: input.note,
+      ...review,
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+    if (qualityDoc.exists) {
+      transaction.update(qualityRef, qualityPayload);
+    } else {
+      transaction.set(qualityRef, qualityPayload);
+    }
+    transaction.set(
+      driverRef,
+      {
+        qualityStatus: status,
+        ...(input.onReview ? {} : { qualityFlags: [] }),
+      },
+      { merge: true }
+    );
+    return status;
+  });
+}
@@ -0,0 +1,58 @@
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { refreshRatingQuality } from './rating-quality';
+
+/**
+ * Recompute the driver's quality summary when a passenger rates a trip
+ */
+export const updateDriverRatingQuality = onDocumentCreated(
+  {
+    region: REGION,
+    document: 'ratings/{tripId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const driverId: unknown = event.data?.data().driverId;
+    if (typeof driverId !== 'string' || !driverId) {
+      return;
+    }
+
+    try {
+      await refreshRatingQuality('driver', driverId);
+    } catch (error) {
+      logger.error('[RatingQuality] Failed to refresh driver quality', error, {
+        driverId,
+        tripId: event.params.tripId,
+      });
+    }
+  }
+);
+
+/**
+ * Recompute the passenger's quality summary when a driver rates them
+ */
+export const updatePassengerRatingQuality = onDocumentCreated(
+  {
+    region: REGION,
+    document: 'passengerRatings/{tripId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const passengerId: unknown = event.data?.data().passengerId;
+    if (typeof passengerId !== 'string' || !passengerId) {
+      return;
+    }
+
+    try {
+      await refreshRatingQuality('passenger', passengerId);
+    } catch (error) {
+      logger.error('[RatingQuality] Failed to refresh passenger quality', error, {
+        passengerId,
+        tripId: event.params.tripId,
+      });
+    }
+  }
+);
@@ -0,0 +1,138 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { RoadblockStatus } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getFirestore } from '../../core/config';
+import { logger } from '../../core/logger';
+import { evaluateRoadblockSchedule, readRoadblockSchedule } from './roadblock-schedule';
+
+/** Firestore batch write limit */
+const MAX_BATCH_SIZE = 500;
+
+function toMillis(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null;
+}
+
+/**
+ * Fields to write so a roadblock follows its schedule and expiry at `now`,
+ * or null when it is already up to date.
+ *
+ * Status only changes at boundaries: the schedule's status is applied when
+ * it differs from the last one it applied (scheduleAppliedStatus), and
+ * expiry is applied once (expiryApplied). Manual changes in between hold.
+ */
+function planRoadblockTimeRules(
+  data: FirebaseFirestore.DocumentData,
+  now: Date
+): Record<string, unknown> | null {
+  const windows = readRoadblockSchedule(data.schedule);
+  const expiresAtMs = toMillis(data.expiresAt);
+  const currentStatus = data.status as RoadblockStatus | undefined;
+  const update: Record<string, unknown> = {};
+
+  let nextTransitionAtMs: number | null = null;
+  let nextStatus: RoadblockStatus | null = null;
+
+  if (expiresAtMs !== null && expiresAtMs <= now.getTime()) {
+    if (data.expiryApplied !== true) {
+      update.expiryApplied = true;
+      if (currentStatus !== 'open') {
+        update.status = 'open';
+        update.statusChangeReason = 'expired';
+      }
+    }
+  } else if (windows.length > 0 || expiresAtMs !== null) {
+    const state = evaluateRoadblockSchedule(windows, now);
+    if (windows.length > 0 && data.scheduleAppliedStatus !== state.status) {
+      update.scheduleAppliedStatus = state.status;
+      if (currentStatus !== state.status) {
+        update.status = state.status;
+        update.statusChangeReason = 'schedule';
+      }
+    }
+
+    nextTransitionAtMs = state.nextTransitionAtMs;
+    nextStatus = state.nextStatus;
+    if (expiresAtMs !== null && (nextTransitionAtMs === null || expiresAtMs <= nextTransitionAtMs)) {
+      nextTransitionAtMs = expiresAtMs;
+      nextStatus = 'open';
+    }
+  }
+
+  if (toMillis(data.nextTransitionAt) !== nextTransitionAtMs || (data.nextStatus ?? null) !== nextStatus) {
+    update.nextTransitionAt = nextTransitionAtMs === null ? null : Timestamp.fromMillis(nextTransitionAtMs);
+    update.nextStatus = nextStatus;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return null;
+  }
+  if ('status' in update) {
+    update.updatedBy = 'system';
+    update.updatedAt = FieldValue.serverTimestamp();
+  }
+  return update;
+}
+
+/**
+ * Flip roadblock status at schedule window boundaries and at expiresAt,
+ * and keep nextTransitionAt/nextStatus current for the apps.
+ * History entries are written by recordRoadblockHistory.
+ */
+export const applyRoadblockSchedules = onSchedule(
+  {
+    region: REGION,
+    schedule: 'every 5 minutes',
+    timeoutSeconds: 120,
+    memory: '256MiB',
+  },
+  async () => {
+    const db = getFirestore();
+    const now = new Date();
+
+    try {
+      const snapshot = await db.collection('roadblocks').get();
+
+      let batch = db.batch();
+      let batchSize = 0;
+      let updatedCount = 0;
+      let statusChangeCount = 0;
+
+      for (const docSnap of snapshot.docs) {
+        const update = planRoadblockTimeRules(docSnap.data(), now);
+        if (!update) continue;
+
+        batch.update(docSnap.ref, update);
+        batchSize++;
+        updatedCount++;
+        if ('status' in update) {
+          statusChangeCount++;
+          logger.info('[RoadblockSchedules] Status change', {
+            roadblockId: docSnap.id,
+            fromStatus: docSnap.data().status,
+            toStatus: update.status,
+            reason: update.statusChangeReason,
+          });
+        }
+
+        if (batchSize === MAX_BATCH_SIZE) {
+          await batch.commit();
+          batch = db.batch();
+          batchSize = 0;
+        }
+      }
+
+      if (batchSize > 0) {
+        await batch.commit();
+      }
+
+      logger.info('[RoadblockSchedules] Done', {
+        roadblocks: snapshot.size,
+        updatedCount,
+        statusChangeCount,
+      });
+    } catch (error) {
+      logger.error('[RoadblockSchedules] Failed', { error });
+    }
+  }
+);
@@ -0,0 +1,52 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { RoadblockReportStatus } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getFirestore } from '../../core/config';
+import { logger } from '../../core/logger';
+
+/** Firestore batch write limit */
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * Expire pending roadblock reports nobody re-confirmed within
+ * ROADBLOCK_REPORT_RULES.EXPIRY_MINUTES.
+ */
+export const expireRoadblockReports = onSchedule(
+  {
+    region: REGION,
+    schedule: 'every 10 minutes',
+    timeoutSeconds: 60,
+    memory: '256MiB',
+  },
+  async () => {
+    const db = getFirestore();
+
+    try {
+      const snapshot = await db
+        .collection('roadblockReports')
+        .where('status', '==', RoadblockReportStatus.PENDING)
+        .where('expiresAt', '<=', Timestamp.now())
+        .limit(MAX_BATCH_SIZE)
+        .get();
+
+      if (snapshot.empty) {
+        logger.info('[ExpireRoadblockReports] No stale reports');
+        return;
+      }
+
+      const batch = db.batch();
+      for (const docSnap of snapshot.docs) {
+        batch.update(docSnap.ref, {
+          status: RoadblockReportStatus.EXPIRED,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+      await batch.commit();
+
+      logger.info('[ExpireRoadblockReports] Expired reports', { count: snapshot.size });
+    } catch (error) {
+      logger.error('[ExpireRoadblockReports] Failed', { error });
+    }
+  }
+);
@@ -0,0 +1,10 @@
+// Roadblocks module - driver reports, schedules and status history
+export { applyRoadblockSchedules } from './applyRoadblockSchedules.scheduled';
+export { expireRoadblockReports } from './expireRoadblockReports.scheduled';
+export { recordRoadblockHistory } from './recordRoadblockHistory.firestore';
+export { reviewRoadblockReport, submitRoadblockReport } from './roadblock-reports';
+export type {
+  RoadblockReportReview,
+  RoadblockReportReviewResult,
+  SubmitRoadblockReportResult,
+} from './roadblock-reports';
@@ -0,0 +1,51 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { RoadblockHistoryEntry } from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+
+/**
+ * Appends to roadblocks/{roadblockId}/history whenever a roadblock's status
+ * changes, whoever made the change (managers, driver report reviews,
+ * schedules or expiry). Writers tag the change with `statusChangeReason`.
+ */
+export const recordRoadblockHistory = onDocumentWritten(
+  {
+    region: REGION,
+    document: 'roadblocks/{roadblockId}',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) {
+      return;
+    }
+
+    const afterData = after.data() ?? {};
+    const beforeData = event.data?.before?.exists ? event.data.before.data() ?? {} : null;
+    const fromStatus = typeof beforeData?.status === 'string' ? beforeData.status : null;
+    if (typeof afterData.status !== 'string' || afterData.status === fromStatus) {
+      return;
+    }
+
+    const entry: Omit<RoadblockHistoryEntry, 'changedAt'> = {
+      fromStatus: fromStatus as RoadblockHistoryEntry['fromStatus'],
+      toStatus: afterData.status as RoadblockHistoryEntry['toStatus'],
+      reason: typeof afterData.statusChangeReason === 'string' ? afterData.statusChangeReason : 'manual',
+      changedBy: String(afterData.updatedBy ?? afterData.createdBy ?? 'unknown'),
+    };
+
+    try {
+      await after.ref.collection('history').add({
+        ...entry,
+        changedAt: FieldValue.serverTimestamp(),
+      });
+    } catch (error) {
+      logger.warn('[RoadblockHistory] Failed to record status change', {
+        roadblockId: event.params.roadblockId,
+        error,
+      });
+    }
+  }
+);
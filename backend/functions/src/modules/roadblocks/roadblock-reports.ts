@@ -0,0 +1,339 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  LatLng,
+  ROADBLOCK_REPORT_RULES,
+  ReportRoadblock,
+  RoadblockReportStatus,
+  calculateRoadblockReportConfidence,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { ConflictError, NotFoundError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { haversineDistanceMeters } from '../routing';
+
+type ReportedStatus = ReportRoadblock['status'];
+
+const DEFAULT_RADIUS_METERS = 100;
+
+export interface SubmitRoadblockReportResult {
+  reportId: string;
+  /** False when the report confirmed an existing pending report */
+  created: boolean;
+  reportCount: number;
+  confidence: number;
+}
+
+export type RoadblockReportReview =
+  | {
+      action: 'approve';
+      reportId: string;
+      name: string;
+      area?: string | undefined;
+      radiusMeters?: number | undefined;
+      status?: ReportedStatus | undefined;
+      note?: string | undefined;
+    }
+  | {
+      action: 'merge';
+      reportId: string;
+      roadblockId: string;
+      status?: ReportedStatus | undefined;
+    }
+  | {
+      action: 'reject';
+      reportId: string;
+      note?: string | undefined;
+    };
+
+export interface RoadblockReportReviewResult {
+  reportId: string;
+  status: RoadblockReportStatus;
+  roadblockId: string | null;
+}
+
+function readVotes(value: unknown): Record<string, ReportedStatus> {
+  if (!value || typeof value !== 'object') return {};
+  const votes: Record<string, ReportedStatus> = {};
+  for (const [driverId, status] of Object.entries(value as Record<string, unknown>)) {
+    if (status === 'closed' || status === 'congested') {
+      votes[driverId] = status;
+    }
+  }
+  return votes;
+}
+
+function tallyVotes(votes: Record<string, ReportedStatus>): {
+  reportCount: number;
+  roadblockStatus: ReportedStatus;
+  confidence: number;
+} {
+  let closedVotes = 0;
+  let congestedVotes = 0;
+  for (const status of Object.values(votes)) {
+    if (status === 'closed') closedVotes++;
+    else congestedVotes++;
+  }
+
+  return {
+    reportCount: closedVotes + congestedVotes,
+    roadblockStatus: closedVotes >= congestedVotes ? 'closed' : 'congested',
+    confidence: calculateRoadblockReportConfidence(closedVotes, congestedVotes),
+  };
+}
+
+function appendNote(notes: unknown, note: string | undefined): string[] {
+  const existing = Array.isArray(notes) ? notes.filter((item): item is string => typeof item === 'string') : [];
+  if (!note) return existing;
+  return [...existing, note].slice(-ROADBLOCK_REPORT_RULES.MAX_NOTES);
+}
+
+function getExpiresAt(nowMs: number): Timestamp {
+  return Timestamp.fromMillis(nowMs + ROADBLOCK_REPORT_RULES.EXPIRY_MINUTES * 60 * 1000);
+}
+
+/**
+ * Closest roadblock whose radius (or the dedupe radius) covers the point.
+ * Shown to managers as the merge target.
+ */
+async function findNearbyRoadblockId(point: LatLng): Promise<string | null> {
+  const snapshot = await getFirestore().collection('roadblocks').get();
+
+  let nearest: { id: string; distance: number } | null = null;
+  for (const docSnap of snapshot.docs) {
+    const data = docSnap.data();
+    if (typeof data.lat !== 'number' || typeof data.lng !== 'number') continue;
+
+    const radius = Math.max(
+      typeof data.radiusMeters === 'number' ? data.radiusMeters : DEFAULT_RADIUS_METERS,
+      ROADBLOCK_REPORT_RULES.DEDUPE_RADIUS_METERS
+    );
+    const distance = haversineDistanceMeters(point, { lat: data.lat, lng: data.lng });
+    if (distance <= radius && (!nearest || distance < nearest.distance)) {
+      nearest = { id: docSnap.id, distance };
+    }
+  }
+
+  return nearest?.id ?? null;
+}
+
+/**
+ * Record a driver's roadblock report.
+ *
+ * A pending report within DEDUPE_RADIUS_METERS is confirmed instead of
+ * opening a new one: the driver's vote is (re)counted, confidence is
+ * recalculated and the expiry window restarts.
+ */
+export async function submitRoadblockReport(
+  driverId: string,
+  input: ReportRoadblock
+): Promise<SubmitRoadblockReportResult> {
+  const db = getFirestore();
+  const reportsRef = db.collection('roadblockReports');
+  const point: LatLng = { lat: input.lat, lng: input.lng };
+  const nearbyRoadblockId = await findNearbyRoadblockId(point);
+
+  return db.runTransaction(async (transaction) => {
+    const nowMs = Date.now();
+    const pendingSnapshot = await transaction.get(
+      reportsRef.where('status', '==', RoadblockReportStatus.PENDING)
+    );
+
+    let match: { doc: FirebaseFirestore.QueryDocumentSnapshot; position: LatLng; distance: number } | null =
+      null;
+    for (const docSnap of pendingSnapshot.docs) {
+      const data = docSnap.data();
+      const expiresAt = data.expiresAt as Timestamp | undefined;
+      if (expiresAt && expiresAt.toMillis() <= nowMs) continue;
+      if (typeof data.lat !== 'number' || typeof data.lng !== 'number') continue;
+
+      const position: LatLng = { lat: data.lat, lng: data.lng };
+      const distance = haversineDistanceMeters(point, position);
+      if (distance <= ROADBLOCK_REPORT_RULES.DEDUPE_RADIUS_METERS && (!match || distance < match.distance)) {
+        match = { doc: docSnap, position, distance };
+      }
+    }
+
+    if (!match) {
+      const votes = { [driverId]: input.status };
+      const tally = tallyVotes(votes);
+      const reportRef = reportsRef.doc();
+
+      transaction.set(reportRef, {
+        lat: input.lat,
+        lng: input.lng,
+        status: RoadblockReportStatus.PENDING,
+        roadblockStatus: tally.roadblockStatus,
+        votes,
+        reporterIds: [driverId],
+        reportCount: tally.reportCount,
+        confidence: tally.confidence,
+        notes: appendNote([], input.note),
+        nearbyRoadblockId,
+        roadblockId: null,
+        firstReportedAt: FieldValue.serverTimestamp(),
+        lastConfirmedAt: FieldValue.serverTimestamp(),
+        expiresAt: getExpiresAt(nowMs),
+        reviewedBy: null,
+        reviewedAt: null,
+        reviewNote: null,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      logger.info('[RoadblockReports] New report', {
+        reportId: reportRef.id,
+        driverId,
+        status: input.status,
+        nearbyRoadblockId,
+      });
+
+      return {
+        reportId: reportRef.id,
+        created: true,
+        reportCount: tally.reportCount,
+        confidence: tally.confidence,
+      };
+    }
+
+    const data = match.doc.data();
+    const votes = readVotes(data.votes);
+    const isNewReporter = !(driverId in votes);
+    votes[driverId] = input.status;
+    const tally = tallyVotes(votes);
+
+    // Distinct reporters pull the report toward the average of their positions
+    const previousCount = isNewReporter ? tally.reportCount - 1 : tally.reportCount;
+    const { position } = match;
+    const lat = isNewReporter ? (position.lat * previousCount + input.lat) / tally.reportCount : position.lat;
+    const lng = isNewReporter ? (position.lng * previousCount + input.lng) / tally.reportCount : position.lng;
+
+    transaction.update(match.doc.ref, {
+      lat,
+      lng,
+      roadblockStatus: tally.roadblockStatus,
+      votes,
+      reporterIds: Object.keys(votes),
+      reportCount: tally.reportCount,
+      confidence: tally.confidence,
+      notes: appendNote(data.notes, input.note),
+      nearbyRoadblockId: data.nearbyRoadblockId ?? nearbyRoadblockId,
+      lastConfirmedAt: FieldValue.serverTimestamp(),
+      expiresAt: getExpiresAt(nowMs),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    logger.info('[RoadblockReports] Report confirmed', {
+      reportId: match.doc.id,
+      driverId,
+      isNewReporter,
+      distanceMeters: Math.round(match.distance),
+      reportCount: tally.reportCount,
+      confidence: tally.confidence,
+    });
+
+    return {
+      reportId: match.doc.id,
+      created: false,
+      reportCount: tally.reportCount,
+      confidence: tally.confidence,
+    };
+  });
+}
+
+/**
+ * Apply a manager decision to a pending report.
+ *
+ * - approve: creates a roadblock at the report position
+ * - merge: sets an existing roadblock to the reported status
+ * - reject: closes the report without touching roadblocks
+ */
+export async function reviewRoadblockReport(
+  managerId: string,
+  review: RoadblockReportReview
+): Promise<RoadblockReportReviewResult> {
+  const db = getFirestore();
+  const reportRef = db.collection('roadblockReports').doc(review.reportId);
+
+  const result = await db.runTransaction(async (transaction): Promise<RoadblockReportReviewResult> => {
+    const reportSnap = await transaction.get(reportRef);
+    if (!reportSnap.exists) {
+      throw new NotFoundError('Roadblock report', review.reportId);
+    }
+
+    const roadblockSnap =
+      review.action === 'merge'
+        ? await transaction.get(db.collection('roadblocks').doc(review.roadblockId))
+        : null;
+    if (roadblockSnap && !roadblockSnap.exists) {
+      throw new NotFoundError('Roadblock', roadblockSnap.id);
+    }
+
+    const report = reportSnap.data() ?? {};
+    if (report.status !== RoadblockReportStatus.PENDING) {
+      throw new ConflictError(`Report is already ${String(report.status)}`);
+    }
+
+    const reportedStatus: ReportedStatus = report.roadblockStatus === 'congested' ? 'congested' : 'closed';
+    const reviewFields = {
+      reviewedBy: managerId,
+      reviewedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+
+    if (review.action === 'approve') {
+      const roadblockRef = db.collection('roadblocks').doc();
+      transaction.set(roadblockRef, {
+        name: review.name,
+        area: review.area ?? '',
+        lat: Number(report.lat),
+        lng: Number(report.lng),
+        radiusMeters: review.radiusMeters ?? DEFAULT_RADIUS_METERS,
+        status: review.status ?? reportedStatus,
+        note: review.note ?? '',
+        source: 'driver_reports',
+        reportId: reportSnap.id,
+        statusChangeReason: 'driver_reports',
+        createdBy: managerId,
+        updatedBy: managerId,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.update(reportRef, {
+        ...reviewFields,
+        status: RoadblockReportStatus.APPROVED,
+        roadblockId: roadblockRef.id,
+      });
+      return { reportId: reportSnap.id, status: RoadblockReportStatus.APPROVED, roadblockId: roadblockRef.id };
+    }
+
+    if (review.action === 'merge' && roadblockSnap) {
+      transaction.update(roadblockSnap.ref, {
+        status: review.status ?? reportedStatus,
+        statusChangeReason: 'driver_reports',
+        updatedBy: managerId,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.update(reportRef, {
+        ...reviewFields,
+        status: RoadblockReportStatus.MERGED,
+        roadblockId: roadblockSnap.id,
+      });
+      return { reportId: reportSnap.id, status: RoadblockReportStatus.MERGED, roadblockId: roadblockSnap.id };
+    }
+
+    transaction.update(reportRef, {
+      ...reviewFields,
+      status: RoadblockReportStatus.REJECTED,
+      reviewNote: review.action === 'reject' ? review.note ?? null : null,
+    });
+    return { reportId: reportSnap.id, status: RoadblockReportStatus.REJECTED, roadblockId: null };
+  });
+
+  logger.info('[RoadblockReports] Report reviewed', {
+    managerId,
+    action: review.action,
+    ...result,
+  });
+
+  return result;
+}
@@ -0,0 +1,134 @@
+import { RoadblockScheduleWindow, RoadblockStatus } from '@taxi-line/shared';
+
+const OPS_TIMEZONE = 'Asia/Hebron';
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+export interface RoadblockScheduleState {
+  /** Status the schedule asks for right now */
+  status: RoadblockStatus;
+  /** Next boundary where that changes (null when the schedule never changes it) */
+  nextTransitionAtMs: number | null;
+  nextStatus: RoadblockStatus | null;
+}
+
+/**
+ * Valid windows from a roadblock document's `schedule` field
+ */
+export function readRoadblockSchedule(value: unknown): RoadblockScheduleWindow[] {
+  if (!Array.isArray(value)) return [];
+
+  const windows: RoadblockScheduleWindow[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const candidate = item as Record<string, unknown>;
+    if (!Array.isArray(candidate.daysOfWeek)) continue;
+
+    const daysOfWeek = candidate.daysOfWeek.filter(
+      (day): day is number => typeof day === 'number' && Number.isInteger(day) && day >= 0 && day <= 6
+    );
+    const { startMinute, endMinute } = candidate;
+    if (
+      daysOfWeek.length === 0 ||
+      typeof startMinute !== 'number' ||
+      typeof endMinute !== 'number' ||
+      startMinute < 0 ||
+      startMinute >= MINUTES_PER_DAY ||
+      endMinute < 0 ||
+      endMinute >= MINUTES_PER_DAY
+    ) {
+      continue;
+    }
+
+    windows.push({
+      daysOfWeek,
+      startMinute: Math.floor(startMinute),
+      endMinute: Math.floor(endMinute),
+      status: candidate.status === 'congested' ? 'congested' : 'closed',
+    });
+  }
+  return windows;
+}
+
+/**
+ * Offset of the ops time zone from UTC at `date`, in minutes
+ */
+function getOpsOffsetMinutes(date: Date): number {
+  const opsWallClock = new Date(date.toLocaleString('en-US', { timeZone: OPS_TIMEZONE }));
+  const utcWallClock = new Date(date.toLocaleString('en-US', { timeZone: 'UTC' }));
+  return Math.round((opsWallClock.getTime() - utcWallClock.getTime()) / 60000);
+}
+
+/**
+ * [start, end) ranges in minutes of the week. Overnight windows belong to
+ * the day they start on; Saturday-night windows wrap into Sunday.
+ */
+function toWeekRanges(window: RoadblockScheduleWindow): Array<[number, number]> {
+  const length =
+    window.endMinute > window.startMinute
+      ? window.endMinute - window.startMinute
+      : MINUTES_PER_DAY - window.startMinute + window.endMinute;
+
+  return window.daysOfWeek.map((day) => {
+    const start = day * MINUTES_PER_DAY + window.startMinute;
+    return [start, start + length];
+  });
+}
+
+function statusAtWeekMinute(windows: RoadblockScheduleWindow[], minuteOfWeek: number): RoadblockStatus {
+  let status: RoadblockStatus = 'open';
+  for (const window of windows) {
+    for (const [start, end] of toWeekRanges(window)) {
+      const inRange =
+        (minuteOfWeek >= start && minuteOfWeek < end) ||
+        (end > MINUTES_PER_WEEK && minuteOfWeek < end - MINUTES_PER_WEEK);
+      if (!inRange) continue;
+      // Closed wins over congested when windows overlap
+      if (window.status === 'closed') return 'closed';
+      status = 'congested';
+    }
+  }
+  return status;
+}
+
+/**
+ * Evaluate a weekly schedule at `now`.
+ * Boundaries are whole minutes in the ops time zone; a DST change within the
+ * coming week can shift the predicted next boundary by the DST offset.
+ */
+export function evaluateRoadblockSchedule(
+  windows: RoadblockScheduleWindow[],
+  now: Date
+): RoadblockScheduleState {
+  if (windows.length === 0) {
+    return { status: 'open', nextTransitionAtMs: null, nextStatus: null };
+  }
+
+  const offsetMinutes = getOpsOffsetMinutes(now);
+  const localMinutes = Math.floor(now.getTime() / 60000) + offsetMinutes;
+  // Unix epoch was a Thursday (day 4)
+  const minuteOfWeek = (((localMinutes + 4 * MINUTES_PER_DAY) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+  const status = statusAtWeekMinute(windows, minuteOfWeek);
+
+  const boundaries = new Set<number>();
+  for (const window of windows) {
+    for (const [start, end] of toWeekRanges(window)) {
+      boundaries.add(start % MINUTES_PER_WEEK);
+      boundaries.add(end % MINUTES_PER_WEEK);
+    }
+  }
+
+  const ahead = Array.from(boundaries.values())
+    .map((boundary) => (boundary - minuteOfWeek + MINUTES_PER_WEEK) % MINUTES_PER_WEEK || MINUTES_PER_WEEK)
+    .sort((a, b) => a - b);
+
+  for (const minutesAhead of ahead) {
+    const nextStatus = statusAtWeekMinute(windows, (minuteOfWeek + minutesAhead) % MINUTES_PER_WEEK);
+    if (nextStatus !== status) {
+      const startOfMinuteMs = Math.floor(now.getTime() / 60000) * 60000;
+      return { status, nextTransitionAtMs: startOfMinuteMs + minutesAhead * 60000, nextStatus };
+    }
+  }
+
+  return { status, nextTransitionAtMs: null, nextStatus: null };
+}
@@ -0,0 +1,6 @@
+// Routing module - routes, ETAs and distances for pricing and matching
+export { calculateRoute, findRoadblocksOnPath } from './routing.service';
+export { getActiveRoadblockZones, resolveRouteRoadblocks } from './roadblock-zones';
+export type { RoadblockZone } from './roadblock-zones';
+export { haversineDistanceMeters } from './route-geometry';
+export type { ProviderRoute, RouteResult, RouteSource, Router } from './router';
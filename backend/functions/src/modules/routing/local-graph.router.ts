@@ -0,0 +1,65 @@
+import { LatLng, ROUTING_PROVIDERS } from '@taxi-line/shared';
+import { logger } from '../../core/logger';
+import { getActiveRoadblockZones } from './roadblock-zones';
+import { findFastestPath, findNearestNode, getBlockedEdges, getRoadGraph } from './road-graph';
+import { haversineDistanceMeters } from './route-geometry';
+import { ProviderRoute, Router } from './router';
+
+/** Speed assumed between the exact pickup/dropoff and the nearest road node */
+const ACCESS_SPEED_KMH = 20;
+
+/**
+ * Route over the local road graph around closed roadblocks. A roadblock
+ * that covers the pickup or dropoff itself cannot be avoided and is ignored.
+ */
+async function calculateLocalGraphRoute(pickup: LatLng, dropoff: LatLng): Promise<ProviderRoute | null> {
+  const graph = getRoadGraph();
+  if (!graph) {
+    return null;
+  }
+
+  const start = findNearestNode(graph, pickup);
+  const goal = findNearestNode(graph, dropoff);
+  if (!start || !goal) {
+    logger.warn('[Routing] Point outside the local road graph', { pickup, dropoff });
+    return null;
+  }
+
+  const closedZones = (await getActiveRoadblockZones()).filter(
+    (zone) =>
+      zone.status === 'closed' &&
+      haversineDistanceMeters(zone, pickup) > zone.radiusMeters &&
+      haversineDistanceMeters(zone, dropoff) > zone.radiusMeters
+  );
+
+  const graphPath = findFastestPath(graph, start.node, goal.node, getBlockedEdges(graph, closedZones));
+  if (!graphPath) {
+    logger.warn('[Routing] No local route found', {
+      pickup,
+      dropoff,
+      closedRoadblocks: closedZones.map((zone) => zone.id),
+    });
+    return null;
+  }
+
+  const accessMeters = start.distanceMeters + goal.distanceMeters;
+  const distanceMeters = graphPath.distanceMeters + accessMeters;
+  const durationSeconds = graphPath.durationSeconds + (accessMeters / 1000 / ACCESS_SPEED_KMH) * 3600;
+
+  logger.info('[Routing] Route calculated via local graph', {
+    distanceMeters,
+    durationSeconds,
+    avoidedRoadblocks: closedZones.length,
+  });
+
+  return {
+    distanceMeters,
+    durationSeconds,
+    path: [pickup, ...graphPath.path, dropoff],
+  };
+}
+
+export const localGraphRouter: Router = {
+  id: ROUTING_PROVIDERS.LOCAL_GRAPH,
+  route: calculateLocalGraphRoute,
+};
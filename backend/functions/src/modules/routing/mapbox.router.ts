@@ -0,0 +1,115 @@
+import { LatLng, ROUTING_PROVIDERS } from '@taxi-line/shared';
+import { env } from '../../core/env';
+import { logger } from '../../core/logger';
+import { ExternalServiceError } from '../../core/errors';
+import { ProviderRoute, Router } from './router';
+
+/**
+ * Mapbox Directions API response types
+ */
+interface MapboxRoute {
+  distance: number; // meters
+  duration: number; // seconds
+  geometry: { type: 'LineString'; coordinates: Array<[number, number]> } | null;
+}
+
+interface MapboxDirectionsResponse {
+  code: string;
+  routes: MapboxRoute[];
+  waypoints: unknown[];
+}
+
+let hasLoggedMissingMapboxToken = false;
+
+/**
+ * Calculate route between two points using Mapbox Directions API
+ *
+ * @param pickup - Starting location
+ * @param dropoff - Destination location
+ * @returns Route information, or null when Mapbox is not configured or
+ * cannot route the pair
+ */
+async function calculateMapboxRoute(pickup: LatLng, dropoff: LatLng): Promise<ProviderRoute | null> {
+  const accessToken = env.mapboxAccessToken;
+
+  if (!accessToken || accessToken === 'your-mapbox-token-here') {
+    if (!hasLoggedMissingMapboxToken) {
+      logger.error('[Routing] MAPBOX_ACCESS_TOKEN is missing or placeholder. Mapbox routing is disabled.');
+      hasLoggedMissingMapboxToken = true;
+    }
+    return null;
+  }
+
+  const coordinates = `${pickup.lng},${pickup.lat};${dropoff.lng},${dropoff.lat}`;
+  const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${coordinates}?access_token=${accessToken}&geometries=geojson`;
+
+  // Set up abort controller for timeout (10 seconds)
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      // Directions can return 422 for unroutable pairs (e.g. emulator location far away).
+      if (response.status === 422) {
+        logger.warn('[Routing] Mapbox returned 422 (unroutable)', { pickup, dropoff });
+        return null;
+      }
+
+      throw new ExternalServiceError(
+        `Mapbox API error: ${response.status} ${response.statusText}`,
+        'mapbox'
+      );
+    }
+
+    const data = (await response.json()) as MapboxDirectionsResponse;
+
+    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
+      throw new ExternalServiceError(
+        `Mapbox returned no routes: ${data.code}`,
+        'mapbox'
+      );
+    }
+
+    const route = data.routes[0]!;
+
+    logger.info('[Routing] Route calculated via Mapbox', {
+      distanceMeters: route.distance,
+      durationSeconds: route.duration,
+    });
+
+    const shape = route.geometry?.coordinates ?? [];
+    return {
+      distanceMeters: route.distance,
+      durationSeconds: route.duration,
+      path:
+        shape.length > 0
+          ? shape.map(([lng, lat]) => ({ lat, lng }))
+          : [pickup, dropoff],
+    };
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof ExternalServiceError) {
+      throw error;
+    }
+    // Handle timeout/abort
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new ExternalServiceError(
+        'Mapbox API request timed out after 10 seconds',
+        'mapbox'
+      );
+    }
+    logger.error('[Routing] Mapbox API call failed', { error });
+    throw new ExternalServiceError(
+      'Failed to calculate route via Mapbox',
+      'mapbox'
+    );
+  }
+}
+
+export const mapboxRouter: Router = {
+  id: ROUTING_PROVIDERS.MAPBOX,
+  route: calculateMapboxRoute,
+};
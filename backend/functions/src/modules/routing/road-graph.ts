@@ -0,0 +1,389 @@
+import { existsSync, readFileSync } from 'node:fs';
+import * as path from 'node:path';
+import { LatLng } from '@taxi-line/shared';
+import { env } from '../../core/env';
+import { logger } from '../../core/logger';
+import { haversineDistanceMeters, segmentDistanceMeters } from './route-geometry';
+
+/**
+ * ============================================================================
+ * LOCAL ROAD GRAPH - A* routing over a preprocessed OSM extract
+ * ============================================================================
+ *
+ * The graph file is produced by scripts/build-road-graph.mjs from an
+ * OpenStreetMap extract of the service area and loaded once per instance.
+ *
+ * Edge costs are travel times in seconds. The A* heuristic is the
+ * straight-line distance at the fastest speed in the graph, so it never
+ * overestimates and the first path to reach the goal is the fastest one.
+ *
+ * ============================================================================
+ */
+
+/** Grid cell size used to find nodes near a point (~1.1 km of latitude) */
+const GRID_CELL_DEG = 0.01;
+
+/** Points farther than this from any road node are outside the graph */
+const MAX_SNAP_METERS = 1500;
+
+/** Give up on searches that settle this many nodes without reaching the goal */
+const MAX_SETTLED_NODES = 500_000;
+
+/** Upper bound on the search margin around a roadblock (see getBlockedEdges) */
+const MAX_BLOCK_SEARCH_METERS = 5000;
+
+const METERS_PER_DEG_LAT = 111_320;
+
+/**
+ * File written by scripts/build-road-graph.mjs
+ */
+export interface RoadGraphFile {
+  version: 1;
+  /** Flat [lat, lng, lat, lng, ...] */
+  nodes: number[];
+  /** Flat [from, to, lengthMeters, speedKmh, ...], one entry per driving direction */
+  edges: number[];
+}
+
+/**
+ * In-memory graph with edges grouped by source node
+ */
+export interface RoadGraph {
+  nodeCount: number;
+  lat: Float64Array;
+  lng: Float64Array;
+  /** Outgoing edges of node n are edgeOffsets[n] .. edgeOffsets[n + 1] - 1 */
+  edgeOffsets: Uint32Array;
+  edgeTargets: Uint32Array;
+  edgeMeters: Float32Array;
+  edgeSeconds: Float32Array;
+  maxSpeedMps: number;
+  maxEdgeMeters: number;
+  grid: Map<string, number[]>;
+}
+
+/**
+ * Circle that routes must not pass through
+ */
+export interface BlockedZone {
+  lat: number;
+  lng: number;
+  radiusMeters: number;
+}
+
+export interface GraphPath {
+  distanceMeters: number;
+  durationSeconds: number;
+  /** Node coordinates from start to goal */
+  path: LatLng[];
+}
+
+let graphCache: { path: string; graph: RoadGraph | null } | null = null;
+
+function cellKey(row: number, col: number): string {
+  return `${row}:${col}`;
+}
+
+function toCell(lat: number, lng: number): { row: number; col: number } {
+  return { row: Math.floor(lat / GRID_CELL_DEG), col: Math.floor(lng / GRID_CELL_DEG) };
+}
+
+/**
+ * Build the in-memory graph from the file contents
+ */
+export function buildRoadGraph(file: RoadGraphFile): RoadGraph {
+  const nodeCount = Math.floor(file.nodes.length / 2);
+  const edgeCount = Math.floor(file.edges.length / 4);
+  const lat = new Float64Array(nodeCount);
+  const lng = new Float64Array(nodeCount);
+  const grid = new Map<string, number[]>();
+
+  for (let node = 0; node < nodeCount; node += 1) {
+    lat[node] = file.nodes[node * 2]!;
+    lng[node] = file.nodes[node * 2 + 1]!;
+    const { row, col } = toCell(lat[node]!, lng[node]!);
+    const key = cellKey(row, col);
+    const bucket = grid.get(key);
+    if (bucket) {
+      bucket.push(node);
+    } else {
+      grid.set(key, [node]);
+    }
+  }
+
+  const edgeOffsets = new Uint32Array(nodeCount + 1);
+  for (let edge = 0; edge < edgeCount; edge += 1) {
+    const from = file.edges[edge * 4]!;
+    edgeOffsets[from + 1]! += 1;
+  }
+  for (let node = 0; node < nodeCount; node += 1) {
+    edgeOffsets[node + 1]! += edgeOffsets[node]!;
+  }
+
+  const edgeTargets = new Uint32Array(edgeCount);
+  const edgeMeters = new Float32Array(edgeCount);
+  const edgeSeconds = new Float32Array(edgeCount);
+  const cursor = edgeOffsets.slice(0, nodeCount);
+  let maxSpeedMps = 0;
+  let maxEdgeMeters = 0;
+
+  for (let edge = 0; edge < edgeCount; edge += 1) {
+    const from = file.edges[edge * 4]!;
+    const to = file.edges[edge * 4 + 1]!;
+    const meters = file.edges[edge * 4 + 2]!;
+    const speedMps = (file.edges[edge * 4 + 3]! * 1000) / 3600;
+    const slot = cursor[from]!;
+    cursor[from] = slot + 1;
+
+    edgeTargets[slot] = to;
+    edgeMeters[slot] = meters;
+    edgeSeconds[slot] = meters / speedMps;
+    maxSpeedMps = Math.max(maxSpeedMps, speedMps);
+    maxEdgeMeters = Math.max(maxEdgeMeters, meters);
+  }
+
+  return {
+    nodeCount,
+    lat,
+    lng,
+    edgeOffsets,
+    edgeTargets,
+    edgeMeters,
+    edgeSeconds,
+    maxSpeedMps,
+    maxEdgeMeters,
+    grid,
+  };
+}
+
+/**
+ * Load the configured graph once per instance.
+ * Returns null when no graph file is deployed or it cannot be read.
+ */
+export function getRoadGraph(): RoadGraph | null {
+  const configuredPath = env.roadGraphPath;
+  if (graphCache && graphCache.path === configuredPath) {
+    return graphCache.graph;
+  }
+
+  // Relative paths are resolved from the functions package root
+  const resolvedPath = path.isAbsolute(configuredPath)
+    ? configuredPath
+    : path.resolve(__dirname, '../../..', configuredPath);
+
+  let graph: RoadGraph | null = null;
+  if (!configuredPath || !existsSync(resolvedPath)) {
+    logger.warn('[Routing] Road graph file not found. Local routing is disabled.', {
+      path: resolvedPath,
+    });
+  } else {
+    try {
+      const file = JSON.parse(readFileSync(resolvedPath, 'utf8')) as RoadGraphFile;
+      if (file.version !== 1 || !Array.isArray(file.nodes) || !Array.isArray(file.edges)) {
+        throw new Error(`Unsupported road graph format (version ${String(file.version)})`);
+      }
+      graph = buildRoadGraph(file);
+      logger.info('[Routing] Road graph loaded', {
+        path: resolvedPath,
+        nodes: graph.nodeCount,
+        edges: graph.edgeTargets.length,
+      });
+    } catch (error) {
+      logger.error('[Routing] Failed to load road graph', {
+        path: resolvedPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  graphCache = { path: configuredPath, graph };
+  return graph;
+}
+
+/**
+ * Nodes in grid cells within `radiusMeters` of a point
+ */
+function forEachNodeNear(
+  graph: RoadGraph,
+  point: LatLng,
+  radiusMeters: number,
+  visit: (node: number) => void
+): void {
+  const latSpan = radiusMeters / METERS_PER_DEG_LAT;
+  const lngSpan = radiusMeters / (METERS_PER_DEG_LAT * Math.max(0.01, Math.cos((point.lat * Math.PI) / 180)));
+  const min = toCell(point.lat - latSpan, point.lng - lngSpan);
+  const max = toCell(point.lat + latSpan, point.lng + lngSpan);
+
+  for (let row = min.row; row <= max.row; row += 1) {
+    for (let col = min.col; col <= max.col; col += 1) {
+      const bucket = graph.grid.get(cellKey(row, col));
+      if (bucket) {
+        bucket.forEach(visit);
+      }
+    }
+  }
+}
+
+function nodePoint(graph: RoadGraph, node: number): LatLng {
+  return { lat: graph.lat[node]!, lng: graph.lng[node]! };
+}
+
+/**
+ * Closest road node to a point, or null when the point is off the graph
+ */
+export function findNearestNode(
+  graph: RoadGraph,
+  point: LatLng
+): { node: number; distanceMeters: number } | null {
+  let nearest: { node: number; distanceMeters: number } | null = null;
+  forEachNodeNear(graph, point, MAX_SNAP_METERS, (node) => {
+    const distanceMeters = haversineDistanceMeters(point, nodePoint(graph, node));
+    if (distanceMeters <= MAX_SNAP_METERS && (!nearest || distanceMeters < nearest.distanceMeters)) {
+      nearest = { node, distanceMeters };
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Mark every edge that passes through a zone. An edge crossing a zone has
+ * both ends within radius + edge length of its center, so only nodes in
+ * that margin are checked.
+ */
+export function getBlockedEdges(graph: RoadGraph, zones: BlockedZone[]): Uint8Array | null {
+  if (zones.length === 0) {
+    return null;
+  }
+
+  const blocked = new Uint8Array(graph.edgeTargets.length);
+  for (const zone of zones) {
+    const center = { lat: zone.lat, lng: zone.lng };
+    const margin = Math.min(zone.radiusMeters + graph.maxEdgeMeters, MAX_BLOCK_SEARCH_METERS);
+    forEachNodeNear(graph, center, margin, (node) => {
+      const from = nodePoint(graph, node);
+      for (let edge = graph.edgeOffsets[node]!; edge < graph.edgeOffsets[node + 1]!; edge += 1) {
+        if (blocked[edge]) continue;
+        const to = nodePoint(graph, graph.edgeTargets[edge]!);
+        if (segmentDistanceMeters(center, from, to) <= zone.radiusMeters) {
+          blocked[edge] = 1;
+        }
+      }
+    });
+  }
+  return blocked;
+}
+
+/**
+ * Binary min-heap of nodes keyed by A* f-score. Stale entries are skipped
+ * when popped instead of being removed.
+ */
+class NodeQueue {
+  private readonly nodes: number[] = [];
+  private readonly keys: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, key: number): void {
+    this.nodes.push(node);
+    this.keys.push(key);
+    let index = this.nodes.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.keys[parent]! <= key) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): { node: number; key: number } | null {
+    if (this.nodes.length === 0) return null;
+    const top = { node: this.nodes[0]!, key: this.keys[0]! };
+    const lastNode = this.nodes.pop()!;
+    const lastKey = this.keys.pop()!;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.keys[0] = lastKey;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.keys.length && this.keys[left]! < this.keys[smallest]!) smallest = left;
+        if (right < this.keys.length && this.keys[right]! < this.keys[smallest]!) smallest = right;
+        if (smallest === index) break;
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b]!, this.nodes[a]!];
+    [this.keys[a], this.keys[b]] = [this.keys[b]!, this.keys[a]!];
+  }
+}
+
+/**
+ * Fastest path between two nodes, skipping blocked edges.
+ * Returns null when the goal is unreachable.
+ */
+export function findFastestPath(
+  graph: RoadGraph,
+  start: number,
+  goal: number,
+  blockedEdges: Uint8Array | null
+): GraphPath | null {
+  if (start === goal) {
+    return { distanceMeters: 0, durationSeconds: 0, path: [nodePoint(graph, start)] };
+  }
+
+  const goalPoint = nodePoint(graph, goal);
+  const heuristic = (node: number) =>
+    haversineDistanceMeters(nodePoint(graph, node), goalPoint) / graph.maxSpeedMps;
+
+  const seconds = new Float64Array(graph.nodeCount).fill(Infinity);
+  const meters = new Float64Array(graph.nodeCount);
+  const settled = new Uint8Array(graph.nodeCount);
+  const previous = new Int32Array(graph.nodeCount).fill(-1);
+  const queue = new NodeQueue();
+  seconds[start] = 0;
+  queue.push(start, heuristic(start));
+  let settledCount = 0;
+
+  while (queue.size > 0) {
+    const { node } = queue.pop()!;
+    if (settled[node]) continue;
+    if (node === goal) {
+      const path: LatLng[] = [];
+      for (let step = goal; step !== -1; step = previous[step]!) {
+        path.push(nodePoint(graph, step));
+      }
+      path.reverse();
+      return { distanceMeters: meters[goal]!, durationSeconds: seconds[goal]!, path };
+    }
+    settled[node] = 1;
+    settledCount += 1;
+    if (settledCount > MAX_SETTLED_NODES) {
+      logger.warn('[Routing] A* search limit reached', { start, goal, settledCount });
+      return null;
+    }
+
+    for (let edge = graph.edgeOffsets[node]!; edge < graph.edgeOffsets[node + 1]!; edge += 1) {
+      if (blockedEdges?.[edge]) continue;
+      const next = graph.edgeTargets[edge]!;
+      if (settled[next]) continue;
+      const nextSeconds = seconds[node]! + graph.edgeSeconds[edge]!;
+      if (nextSeconds < seconds[next]!) {
+        seconds[next] = nextSeconds;
+        meters[next] = meters[node]! + graph.edgeMeters[edge]!;
+        previous[next] = node;
+        queue.push(next, nextSeconds + heuristic(next));
+      }
+    }
+  }
+
+  return null;
+}
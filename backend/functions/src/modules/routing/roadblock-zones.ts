@@ -0,0 +1,78 @@
+import { RoadblockStatus, RouteRoadblock } from '@taxi-line/shared';
+import { getFirestore, getSystemConfig } from '../../core/config';
+import { logger } from '../../core/logger';
+import { BlockedZone } from './road-graph';
+
+/** Active roadblocks change rarely; keep them for a short while per instance */
+const CACHE_TTL_MS = 30000;
+
+const DEFAULT_RADIUS_METERS = 100;
+
+export interface RoadblockZone extends BlockedZone, RouteRoadblock {}
+
+let zonesCache: RoadblockZone[] | null = null;
+let cacheTimestamp = 0;
+
+/**
+ * Roadblocks with status `closed` or `congested`.
+ * Empty when the roadblocks feature is switched off.
+ */
+export async function getActiveRoadblockZones(): Promise<RoadblockZone[]> {
+  const { roadblocksEnabled } = await getSystemConfig();
+  if (!roadblocksEnabled) {
+    return [];
+  }
+
+  const now = Date.now();
+  if (zonesCache && now - cacheTimestamp < CACHE_TTL_MS) {
+    return zonesCache;
+  }
+
+  try {
+    const snapshot = await getFirestore()
+      .collection('roadblocks')
+      .where('status', 'in', [RoadblockStatus.CLOSED, RoadblockStatus.CONGESTED])
+      .get();
+
+    zonesCache = snapshot.docs.flatMap((docSnap): RoadblockZone[] => {
+      const data = docSnap.data();
+      if (typeof data.lat !== 'number' || typeof data.lng !== 'number') {
+        return [];
+      }
+      const radiusMeters =
+        typeof data.radiusMeters === 'number' && data.radiusMeters > 0
+          ? data.radiusMeters
+          : DEFAULT_RADIUS_METERS;
+      return [
+        {
+          id: docSnap.id,
+          name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : docSnap.id,
+          status: data.status === RoadblockStatus.CLOSED ? 'closed' : 'congested',
+          lat: data.lat,
+          lng: data.lng,
+          radiusMeters,
+        },
+      ];
+    });
+    cacheTimestamp = now;
+    return zonesCache;
+  } catch (error) {
+    logger.error('[Routing] Failed to read active roadblocks', { error });
+    return zonesCache ?? [];
+  }
+}
+
+/**
+ * Re-check roadblock IDs quoted to a client against the ones active now.
+ * Cleared or unknown IDs are dropped.
+ */
+export async function resolveRouteRoadblocks(roadblockIds: string[] | undefined): Promise<RouteRoadblock[]> {
+  if (!roadblockIds || roadblockIds.length === 0) {
+    return [];
+  }
+
+  const zones = await getActiveRoadblockZones();
+  return zones
+    .filter((zone) => roadblockIds.includes(zone.id))
+    .map(({ id, name, status }) => ({ id, name, status }));
+}
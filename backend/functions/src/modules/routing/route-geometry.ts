@@ -0,0 +1,57 @@
+import { LatLng } from '@taxi-line/shared';
+
+const METERS_PER_DEG_LAT = 111_320;
+
+/**
+ * Haversine formula to calculate distance between two points on Earth
+ */
+export function haversineDistanceMeters(point1: LatLng, point2: LatLng): number {
+  const R = 6371000; // Earth's radius in meters
+  const lat1Rad = (point1.lat * Math.PI) / 180;
+  const lat2Rad = (point2.lat * Math.PI) / 180;
+  const deltaLat = ((point2.lat - point1.lat) * Math.PI) / 180;
+  const deltaLng = ((point2.lng - point1.lng) * Math.PI) / 180;
+
+  const a =
+    Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
+    Math.cos(lat1Rad) *
+      Math.cos(lat2Rad) *
+      Math.sin(deltaLng / 2) *
+      Math.sin(deltaLng / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+/**
+ * Distance from a point to a segment, on a flat projection around the point
+ * (accurate at roadblock scale)
+ */
+export function segmentDistanceMeters(point: LatLng, from: LatLng, to: LatLng): number {
+  const lngScale = METERS_PER_DEG_LAT * Math.cos((point.lat * Math.PI) / 180);
+  const ax = (from.lng - point.lng) * lngScale;
+  const ay = (from.lat - point.lat) * METERS_PER_DEG_LAT;
+  const bx = (to.lng - point.lng) * lngScale;
+  const by = (to.lat - point.lat) * METERS_PER_DEG_LAT;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Whether any segment of a path passes within `radiusMeters` of a point
+ */
+export function isPathWithinRadius(path: LatLng[], center: LatLng, radiusMeters: number): boolean {
+  if (path.length === 1) {
+    return haversineDistanceMeters(path[0]!, center) <= radiusMeters;
+  }
+  for (let i = 1; i < path.length; i += 1) {
+    if (segmentDistanceMeters(center, path[i - 1]!, path[i]!) <= radiusMeters) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,47 @@
+import { LatLng, RouteRoadblock, RoutingProvider } from '@taxi-line/shared';
+
+/**
+ * Where a route came from: a configured provider, or the straight-line
+ * estimate used when no provider could route the pair
+ */
+export type RouteSource = RoutingProvider | 'straight_line';
+
+/**
+ * Route calculation result
+ */
+export interface RouteResult {
+  /** Includes the roadblock detour */
+  distanceMeters: number;
+  /** Includes the roadblock delay */
+  durationSeconds: number;
+  distanceKm: number;
+  durationMin: number;
+  source: RouteSource;
+  /** Closed or congested roadblocks the route passes through */
+  roadblocks: RouteRoadblock[];
+  roadblockDetourKm: number;
+  roadblockDelayMin: number;
+}
+
+/**
+ * Route as returned by a provider, before roadblock penalties
+ */
+export interface ProviderRoute {
+  distanceMeters: number;
+  durationSeconds: number;
+  /** Route shape from pickup to dropoff */
+  path: LatLng[];
+}
+
+/**
+ * A routing provider implementation
+ */
+export interface Router {
+  id: RoutingProvider;
+  /**
+   * Returns null when the provider cannot route this pair (not configured,
+   * outside its coverage, no path) so the next provider is tried.
+   * Throws on provider failures.
+   */
+  route(pickup: LatLng, dropoff: LatLng): Promise<ProviderRoute | null>;
+}
@@ -0,0 +1,104 @@
+import { LatLng, ROADBLOCK_ROUTE_PENALTIES, ROUTING_PROVIDERS, RouteRoadblock } from '@taxi-line/shared';
+import { getSystemConfig } from '../../core/config';
+import { logger } from '../../core/logger';
+import { localGraphRouter } from './local-graph.router';
+import { mapboxRouter } from './mapbox.router';
+import { RoadblockZone, getActiveRoadblockZones } from './roadblock-zones';
+import { haversineDistanceMeters, isPathWithinRadius } from './route-geometry';
+import { ProviderRoute, RouteResult, RouteSource, Router } from './router';
+
+/** Average city speed assumed by the straight-line estimate */
+const STRAIGHT_LINE_SPEED_KMH = 30;
+
+/**
+ * Calculate route between two points.
+ *
+ * Tries system/config.routingProvider first, then the other provider, and
+ * finally a straight-line estimate so ETA and pricing flows stay alive.
+ * Closed and congested roadblocks on the resulting path add a detour/delay
+ * penalty (ROADBLOCK_ROUTE_PENALTIES) and are returned with the route.
+ *
+ * @param pickup - Starting location
+ * @param dropoff - Destination location
+ * @returns Route information including distance and duration
+ */
+export async function calculateRoute(pickup: LatLng, dropoff: LatLng): Promise<RouteResult> {
+  const { routingProvider } = await getSystemConfig();
+  const routers: Router[] =
+    routingProvider === ROUTING_PROVIDERS.LOCAL_GRAPH
+      ? [localGraphRouter, mapboxRouter]
+      : [mapboxRouter, localGraphRouter];
+
+  for (const router of routers) {
+    try {
+      const route = await router.route(pickup, dropoff);
+      if (route) {
+        return applyRoadblockPenalties(route, router.id);
+      }
+    } catch (error) {
+      logger.warn('[Routing] Provider failed - trying next', {
+        provider: router.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return applyRoadblockPenalties(calculateStraightLineRoute(pickup, dropoff), 'straight_line');
+}
+
+/**
+ * Haversine distance at an average city speed.
+ * Used when no provider can route the pair.
+ */
+function calculateStraightLineRoute(pickup: LatLng, dropoff: LatLng): ProviderRoute {
+  const distanceMeters = haversineDistanceMeters(pickup, dropoff);
+  const durationSeconds = (distanceMeters / 1000 / STRAIGHT_LINE_SPEED_KMH) * 3600;
+
+  logger.warn('[Routing] No provider could route - using straight-line estimate', {
+    distanceMeters,
+    durationSeconds,
+  });
+
+  return { distanceMeters, durationSeconds, path: [pickup, dropoff] };
+}
+
+/**
+ * Roadblocks whose radius the path passes through
+ */
+export function findRoadblocksOnPath(path: LatLng[], zones: RoadblockZone[]): RoadblockZone[] {
+  return zones.filter((zone) => isPathWithinRadius(path, zone, zone.radiusMeters));
+}
+
+async function applyRoadblockPenalties(route: ProviderRoute, source: RouteSource): Promise<RouteResult> {
+  const crossed = findRoadblocksOnPath(route.path, await getActiveRoadblockZones());
+  const closedCount = crossed.filter((zone) => zone.status === 'closed').length;
+  const congestedCount = crossed.length - closedCount;
+
+  const roadblockDetourKm = closedCount * ROADBLOCK_ROUTE_PENALTIES.CLOSED_DETOUR_KM;
+  const roadblockDelayMin =
+    closedCount * ROADBLOCK_ROUTE_PENALTIES.CLOSED_DELAY_MIN +
+    congestedCount * ROADBLOCK_ROUTE_PENALTIES.CONGESTED_DELAY_MIN;
+  const distanceMeters = route.distanceMeters + roadblockDetourKm * 1000;
+  const durationSeconds = route.durationSeconds + roadblockDelayMin * 60;
+  const roadblocks: RouteRoadblock[] = crossed.map(({ id, name, status }) => ({ id, name, status }));
+
+  if (roadblocks.length > 0) {
+    logger.info('[Routing] Route crosses roadblocks', {
+      source,
+      roadblockIds: roadblocks.map((roadblock) => roadblock.id),
+      roadblockDetourKm,
+      roadblockDelayMin,
+    });
+  }
+
+  return {
+    distanceMeters,
+    durationSeconds,
+    distanceKm: distanceMeters / 1000,
+    durationMin: durationSeconds / 60,
+    source,
+    roadblocks,
+    roadblockDetourKm,
+    roadblockDelayMin,
+  };
+}
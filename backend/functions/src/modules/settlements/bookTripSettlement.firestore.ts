@@ -0,0 +1,44 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { logger } from '../../core/logger';
+import { REGION } from '../../core/env';
+import { bookTripSettlement, getFareCollector } from './settlement-ledger';
+
+function isFareEarned(status: unknown): boolean {
+  return status === 'completed' || status === 'rated';
+}
+
+/**
+ * Book the fare, office commission and driver net once a trip completes
+ * and it is known who holds the fare. Cash trips book on completion;
+ * card and wallet trips once the charge was captured or fell back to cash.
+ */
+export const bookTripSettlementOnComplete = onDocumentUpdated(
+  {
+    region: REGION,
+    document: 'trips/{tripId}',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after) {
+      return;
+    }
+    const ready = isFareEarned(after.status) && getFareCollector(after) !== null;
+    const wasReady = isFareEarned(before.status) && getFareCollector(before) !== null;
+    if (!ready || wasReady) {
+      return;
+    }
+
+    const tripId = event.params.tripId;
+    try {
+      const result = await bookTripSettlement(tripId, after);
+      if (result) {
+        logger.info('[Settlement] Trip fare booked', { tripId, ...result });
+      }
+    } catch (error) {
+      logger.error('[Settlement] Failed to book trip fare', error, { tripId });
+    }
+  }
+);
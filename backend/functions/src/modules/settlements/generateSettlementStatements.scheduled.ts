@@ -0,0 +1,27 @@
+import { SETTLEMENT_RULES } from '@taxi-line/shared';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { REGION } from '../../core/env';
+import { logger } from '../../core/logger';
+import { generateSettlementStatements } from './settlement-ledger';
+
+/**
+ * Close the previous settlement period every Monday morning (UTC)
+ */
+export const generateWeeklySettlementStatements = onSchedule(
+  {
+    region: REGION,
+    schedule: '0 1 * * 1',
+    timeZone: 'UTC',
+    timeoutSeconds: 300,
+    memory: '512MiB',
+  },
+  async () => {
+    const previousPeriodAtMs = Date.now() - SETTLEMENT_RULES.STATEMENT_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+    try {
+      const statements = await generateSettlementStatements(previousPeriodAtMs);
+      logger.info('[Settlement] Statements generated', { statements });
+    } catch (error) {
+      logger.error('[Settlement] Failed to generate statements', error);
+    }
+  }
+);
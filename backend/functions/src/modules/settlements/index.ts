@@ -0,0 +1,12 @@
+// Settlements module - driver ledger, office commission and cash handovers
+export { bookTripSettlementOnComplete } from './bookTripSettlement.firestore';
+export { generateWeeklySettlementStatements } from './generateSettlementStatements.scheduled';
+export {
+  bookCancellationFeeSettlement,
+  bookRefundSettlement,
+  bookTripSettlement,
+  generateSettlementStatements,
+  recordCashHandover,
+  resolveCommissionPct,
+} from './settlement-ledger';
+export type { LedgerEntryResult, ResolvedCommission, SettlementScope } from './settlement-ledger';
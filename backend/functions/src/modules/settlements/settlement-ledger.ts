@@ -0,0 +1,531 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  FARE_COLLECTORS,
+  FareCollector,
+  LEDGER_ACCOUNT_TYPES,
+  LedgerEntryType,
+  LedgerLine,
+  SETTLEMENT_RULES,
+  getSettlementPeriod,
+  isLedgerBalanced,
+  ledgerAccountId,
+  normalizeCommissionPct,
+  normalizePaymentMethod,
+  roundIls,
+  splitTripFare,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { InternalError, NotFoundError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+
+export interface SettlementScope {
+  officeId: string | null;
+  lineId: string | null;
+}
+
+export interface ResolvedCommission {
+  commissionPct: number;
+  source: 'line' | 'office' | 'default';
+}
+
+export interface LedgerEntryResult {
+  entryId: string;
+  balanceAfterIls: number;
+}
+
+/** Ledger accounts without an office are booked against this owner */
+const UNASSIGNED_OFFICE = 'unassigned';
+
+function idOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function numberOrZero(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Commission for a ride scope: line → office → default
+ */
+export async function resolveCommissionPct(scope: SettlementScope): Promise<ResolvedCommission> {
+  const db = getFirestore();
+  let officeId = scope.officeId;
+
+  if (scope.lineId) {
+    const lineData = (await db.collection('lines').doc(scope.lineId).get()).data() ?? {};
+    const linePct = normalizeCommissionPct(lineData.commissionPct);
+    if (linePct !== null) {
+      return { commissionPct: linePct, source: 'line' };
+    }
+    officeId = officeId ?? idOrNull(lineData.officeId);
+  }
+
+  if (officeId) {
+    const officePct = normalizeCommissionPct((await db.collection('offices').doc(officeId).get()).data()?.commissionPct);
+    if (officePct !== null) {
+      return { commissionPct: officePct, source: 'office' };
+    }
+  }
+
+  return { commissionPct: SETTLEMENT_RULES.DEFAULT_COMMISSION_PCT, source: 'default' };
+}
+
+async function loadDriverScope(driverId: string, fallback: SettlementScope): Promise<SettlementScope> {
+  const driverData = (await getFirestore().collection('drivers').doc(driverId).get()).data() ?? {};
+  return {
+    officeId: idOrNull(driverData.officeId) ?? fallback.officeId,
+    lineId: idOrNull(driverData.lineId) ?? fallback.lineId,
+  };
+}
+
+function assertBalanced(lines: LedgerLine[], type: LedgerEntryType): void {
+  if (!isLedgerBalanced(lines)) {
+    throw new InternalError(`Unbalanced ${type} ledger entry`);
+  }
+}
+
+/**
+ * Who holds a completed trip's fare, or null while a card/wallet charge
+ * has not been attempted yet (captureTripPayment sets fareCollectedBy)
+ */
+export function getFareCollector(trip: Record<string, unknown>): FareCollector | null {
+  if ((normalizePaymentMethod(trip.paymentMethod) ?? 'cash') === 'cash') {
+    return FARE_COLLECTORS.DRIVER;
+  }
+  return trip.fareCollectedBy === FARE_COLLECTORS.DRIVER || trip.fareCollectedBy === FARE_COLLECTORS.OFFICE
+    ? trip.fareCollectedBy
+    : null;
+}
+
+interface DriverLedgerEntry {
+  type: LedgerEntryType;
+  tripId: string;
+  driverId: string;
+  scope: SettlementScope;
+  lines: LedgerLine[];
+  /** Signed: refunds reverse the fare, commission and driver net */
+  fareIls: number;
+  commissionPct: number;
+  commissionSource: ResolvedCommission['source'] | null;
+  commissionIls: number;
+  driverNetIls: number;
+  fareCollectedBy: FareCollector;
+  amountIls: number;
+  balanceDeltaIls: number;
+  note: string | null;
+  createdBy: string;
+}
+
+/**
+ * Write a system entry that moves a driver's fare totals and balance.
+ * No-op when the entry already exists.
+ */
+async function writeDriverLedgerEntry(
+  entryRef: FirebaseFirestore.DocumentReference,
+  entry: DriverLedgerEntry
+): Promise<LedgerEntryResult | null> {
+  assertBalanced(entry.lines, entry.type);
+
+  const db = getFirestore();
+  const balanceRef = db.collection('driverBalances').doc(entry.driverId);
+  const nowMs = Date.now();
+
+  return db.runTransaction(async (transaction) => {
+    const [entryDoc, balanceDoc] = await Promise.all([transaction.get(entryRef), transaction.get(balanceRef)]);
+    if (entryDoc.exists) {
+      return null;
+    }
+
+    const balance = balanceDoc.data() ?? {};
+    const balanceAfterIls = roundIls(numberOrZero(balance.balanceOwedIls) + entry.balanceDeltaIls);
+
+    transaction.set(entryRef, {
+      entryId: entryRef.id,
+      type: entry.type,
+      tripId: entry.tripId,
+      driverId: entry.driverId,
+      officeId: entry.scope.officeId,
+      lineId: entry.scope.lineId,
+      lines: entry.lines,
+      fareIls: entry.fareIls,
+      commissionPct: entry.commissionPct,
+      commissionSource: entry.commissionSource,
+      commissionIls: entry.commissionIls,
+      driverNetIls: entry.driverNetIls,
+      fareCollectedBy: entry.fareCollectedBy,
+      amountIls: entry.amountIls,
+      balanceDeltaIls: entry.balanceDeltaIls,
+      balanceAfterIls,
+      note: entry.note,
+      createdBy: entry.createdBy,
+      periodKey: getSettlementPeriod(nowMs).periodKey,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    transaction.set(
+      balanceRef,
+      {
+        driverId: entry.driverId,
+        officeId: entry.scope.officeId,
+        lineId: entry.scope.lineId,
+        ...(entry.type === 'trip_fare' ? { tripsCount: FieldValue.increment(1) } : {}),
+        fareTotalIls: roundIls(numberOrZero(balance.fareTotalIls) + entry.fareIls),
+        commissionTotalIls: roundIls(numberOrZero(balance.commissionTotalIls) + entry.commissionIls),
+        driverNetTotalIls: roundIls(numberOrZero(balance.driverNetTotalIls) + entry.driverNetIls),
+        handoverTotalIls: roundIls(numberOrZero(balance.handoverTotalIls)),
+        balanceOwedIls: balanceAfterIls,
+        lastEntryAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+
+    return { entryId: entryRef.id, balanceAfterIls };
+  });
+}
+
+async function loadTripScope(driverId: string, trip: Record<string, unknown>): Promise<SettlementScope> {
+  return loadDriverScope(driverId, {
+    officeId: idOrNull(trip.matchedOfficeId ?? trip.requestedOfficeId),
+    lineId: idOrNull(trip.matchedLineId ?? trip.requestedLineId),
+  });
+}
+
+/**
+ * Book a completed trip: the fare split into office commission and driver
+ * net. A driver-held fare adds the commission to what the driver owes; an
+ * office-held fare (card/wallet) credits the driver net instead. A card
+ * capture short of the fare leaves the shortfall with the driver.
+ * Idempotent per trip.
+ */
+export async function bookTripSettlement(
+  tripId: string,
+  trip: Record<string, unknown>
+): Promise<LedgerEntryResult | null> {
+  const driverId = idOrNull(trip.driverId);
+  const fare = numberOrZero(trip.finalPriceIls ?? trip.fareAmount ?? trip.estimatedPriceIls);
+  const collector = getFareCollector(trip);
+  if (!driverId || fare <= 0 || !collector) {
+    return null;
+  }
+
+  const scope = await loadTripScope(driverId, trip);
+  const { commissionPct, source } = await resolveCommissionPct(scope);
+  const split = splitTripFare(fare, commissionPct);
+  const officeOwner = scope.officeId ?? UNASSIGNED_OFFICE;
+  // Cash the driver holds for this fare: all of it, or a card shortfall
+  const driverHeldIls =
+    collector === FARE_COLLECTORS.OFFICE
+      ? roundIls(Math.min(split.fareIls, Math.max(0, numberOrZero(trip.fareShortfallIls))))
+      : split.fareIls;
+  const lines: LedgerLine[] = [
+    ...(driverHeldIls < split.fareIls
+      ? [
+          {
+            account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.OFFICE_RECEIVABLE, officeOwner),
+            debitIls: roundIls(split.fareIls - driverHeldIls),
+            creditIls: 0,
+          },
+        ]
+      : []),
+    ...(driverHeldIls > 0
+      ? [{ account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.DRIVER_CASH, driverId), debitIls: driverHeldIls, creditIls: 0 }]
+      : []),
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.DRIVER_EARNINGS, driverId), debitIls: 0, creditIls: split.driverNetIls },
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.OFFICE_COMMISSION, officeOwner), debitIls: 0, creditIls: split.commissionIls },
+  ];
+
+  return writeDriverLedgerEntry(getFirestore().collection('ledgerEntries').doc(`trip_${tripId}`), {
+    type: 'trip_fare',
+    tripId,
+    driverId,
+    scope,
+    lines,
+    fareIls: split.fareIls,
+    commissionPct,
+    commissionSource: source,
+    commissionIls: split.commissionIls,
+    driverNetIls: split.driverNetIls,
+    fareCollectedBy: collector,
+    amountIls: split.fareIls,
+    balanceDeltaIls: roundIls(driverHeldIls - split.driverNetIls),
+    note: null,
+    createdBy: 'system',
+  });
+}
+
+/**
+ * Book a cancellation fee the office collected (wallet debit or card
+ * capture). It is split like a fare: the commission to the office, the
+ * net owed to the driver for their time. Idempotent per trip.
+ */
+export async function bookCancellationFeeSettlement(
+  tripId: string,
+  trip: Record<string, unknown>,
+  collectedIls: number
+): Promise<LedgerEntryResult | null> {
+  const driverId = idOrNull(trip.driverId);
+  if (!driverId || collectedIls <= 0) {
+    return null;
+  }
+
+  const scope = await loadTripScope(driverId, trip);
+  const { commissionPct, source } = await resolveCommissionPct(scope);
+  const split = splitTripFare(collectedIls, commissionPct);
+  const officeOwner = scope.officeId ?? UNASSIGNED_OFFICE;
+  const lines: LedgerLine[] = [
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.OFFICE_RECEIVABLE, officeOwner), debitIls: split.fareIls, creditIls: 0 },
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.DRIVER_EARNINGS, driverId), debitIls: 0, creditIls: split.driverNetIls },
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.OFFICE_COMMISSION, officeOwner), debitIls: 0, creditIls: split.commissionIls },
+  ];
+
+  return writeDriverLedgerEntry(getFirestore().collection('ledgerEntries').doc(`cancellation_fee_${tripId}`), {
+    type: 'cancellation_fee',
+    tripId,
+    driverId,
+    scope,
+    lines,
+    fareIls: split.fareIls,
+    commissionPct,
+    commissionSource: source,
+    commissionIls: split.commissionIls,
+    driverNetIls: split.driverNetIls,
+    fareCollectedBy: FARE_COLLECTORS.OFFICE,
+    amountIls: split.fareIls,
+    balanceDeltaIls: -split.driverNetIls,
+    note: idOrNull(trip.cancellationFeeReason),
+    createdBy: 'system',
+  });
+}
+
+/**
+ * Reverse the refunded part of a trip fare. The office pays the refund out
+ * of its receivable; commission and driver net shrink in proportion, at the
+ * rate the fare was booked with. Idempotent per refund.
+ */
+export async function bookRefundSettlement(input: {
+  tripId: string;
+  refundId: string;
+  amountIls: number;
+  note: string | null;
+  managerId: string;
+}): Promise<LedgerEntryResult | null> {
+  const db = getFirestore();
+  const [tripDoc, fareEntryDoc] = await Promise.all([
+    db.collection('trips').doc(input.tripId).get(),
+    db.collection('ledgerEntries').doc(`trip_${input.tripId}`).get(),
+  ]);
+  const trip = tripDoc.data() ?? {};
+  const driverId = idOrNull(trip.driverId);
+  if (!driverId || input.amountIls <= 0) {
+    return null;
+  }
+
+  const scope = await loadTripScope(driverId, trip);
+  const bookedEntry = fareEntryDoc.data() ?? {};
+  const bookedPct = normalizeCommissionPct(bookedEntry.commissionPct);
+  const { commissionPct, source } =
+    bookedPct !== null
+      ? { commissionPct: bookedPct, source: (bookedEntry.commissionSource ?? null) as ResolvedCommission['source'] | null }
+      : await resolveCommissionPct(scope);
+  const split = splitTripFare(input.amountIls, commissionPct);
+  const officeOwner = scope.officeId ?? UNASSIGNED_OFFICE;
+  const lines: LedgerLine[] = [
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.DRIVER_EARNINGS, driverId), debitIls: split.driverNetIls, creditIls: 0 },
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.OFFICE_COMMISSION, officeOwner), debitIls: split.commissionIls, creditIls: 0 },
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.OFFICE_RECEIVABLE, officeOwner), debitIls: 0, creditIls: split.fareIls },
+  ];
+
+  return writeDriverLedgerEntry(db.collection('ledgerEntries').doc(`refund_${input.refundId}`), {
+    type: 'refund',
+    tripId: input.tripId,
+    driverId,
+    scope,
+    lines,
+    fareIls: -split.fareIls,
+    commissionPct,
+    commissionSource: source,
+    commissionIls: -split.commissionIls,
+    driverNetIls: -split.driverNetIls,
+    fareCollectedBy: FARE_COLLECTORS.OFFICE,
+    amountIls: split.fareIls,
+    balanceDeltaIls: split.driverNetIls,
+    note: input.note,
+    createdBy: input.managerId,
+  });
+}
+
+/**
+ * Cash a driver handed over to their office; reduces what they owe
+ */
+export async function recordCashHandover(input: {
+  driverId: string;
+  amountIls: number;
+  note: string | null;
+  managerId: string;
+}): Promise<LedgerEntryResult & { officeId: string | null }> {
+  const db = getFirestore();
+  const driverDoc = await db.collection('drivers').doc(input.driverId).get();
+  if (!driverDoc.exists) {
+    throw new NotFoundError('Driver', input.driverId);
+  }
+
+  const amountIls = roundIls(input.amountIls);
+  if (amountIls <= 0) {
+    throw new ValidationError('Handover amount must be positive');
+  }
+
+  const driverData = driverDoc.data() ?? {};
+  const officeId = idOrNull(driverData.officeId);
+  const lineId = idOrNull(driverData.lineId);
+  const lines: LedgerLine[] = [
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.OFFICE_CASH, officeId ?? UNASSIGNED_OFFICE), debitIls: amountIls, creditIls: 0 },
+    { account: ledgerAccountId(LEDGER_ACCOUNT_TYPES.DRIVER_CASH, input.driverId), debitIls: 0, creditIls: amountIls },
+  ];
+  assertBalanced(lines, 'cash_handover');
+
+  const entryRef = db.collection('ledgerEntries').doc();
+  const balanceRef = db.collection('driverBalances').doc(input.driverId);
+  const nowMs = Date.now();
+
+  const balanceAfterIls = await db.runTransaction(async (transaction) => {
+    const balance = (await transaction.get(balanceRef)).data() ?? {};
+    const nextBalance = roundIls(numberOrZero(balance.balanceOwedIls) - amountIls);
+
+    transaction.set(entryRef, {
+      entryId: entryRef.id,
+      type: 'cash_handover',
+      tripId: null,
+      driverId: input.driverId,
+      officeId,
+      lineId,
+      lines,
+      fareIls: 0,
+      commissionPct: null,
+      commissionSource: null,
+      commissionIls: 0,
+      driverNetIls: 0,
+      fareCollectedBy: null,
+      amountIls,
+      balanceDeltaIls: -amountIls,
+      balanceAfterIls: nextBalance,
+      note: input.note,
+      createdBy: input.managerId,
+      periodKey: getSettlementPeriod(nowMs).periodKey,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    transaction.set(
+      balanceRef,
+      {
+        driverId: input.driverId,
+        officeId,
+        lineId,
+        handoverTotalIls: roundIls(numberOrZero(balance.handoverTotalIls) + amountIls),
+        balanceOwedIls: nextBalance,
+        lastEntryAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    return nextBalance;
+  });
+
+  logger.info('[Settlement] Cash handover recorded', {
+    driverId: input.driverId,
+    officeId,
+    amountIls,
+    balanceAfterIls,
+    managerId: input.managerId,
+  });
+
+  return { entryId: entryRef.id, balanceAfterIls, officeId };
+}
+
+interface StatementTotals {
+  driverId: string;
+  officeId: string | null;
+  lineId: string | null;
+  tripsCount: number;
+  fareTotalIls: number;
+  commissionTotalIls: number;
+  driverNetTotalIls: number;
+  handoverTotalIls: number;
+  openingBalanceIls: number;
+  closingBalanceIls: number;
+}
+
+/**
+ * Write a statement for every driver with ledger activity in the period
+ * containing periodAtMs. Re-running a period overwrites its statements.
+ */
+export async function generateSettlementStatements(periodAtMs: number): Promise<number> {
+  const db = getFirestore();
+  const period = getSettlementPeriod(periodAtMs);
+  const snapshot = await db
+    .collection('ledgerEntries')
+    .where('createdAt', '>=', Timestamp.fromMillis(period.startMs))
+    .where('createdAt', '<', Timestamp.fromMillis(period.endMs))
+    .orderBy('createdAt', 'asc')
+    .get();
+
+  const totals = new Map<string, StatementTotals>();
+  for (const docSnap of snapshot.docs) {
+    const entry = docSnap.data();
+    const driverId = idOrNull(entry.driverId);
+    if (!driverId) continue;
+
+    const balanceAfterIls = numberOrZero(entry.balanceAfterIls);
+    let driverTotals = totals.get(driverId);
+    if (!driverTotals) {
+      driverTotals = {
+        driverId,
+        officeId: idOrNull(entry.officeId),
+        lineId: idOrNull(entry.lineId),
+        tripsCount: 0,
+        fareTotalIls: 0,
+        commissionTotalIls: 0,
+        driverNetTotalIls: 0,
+        handoverTotalIls: 0,
+        openingBalanceIls: roundIls(balanceAfterIls - numberOrZero(entry.balanceDeltaIls)),
+        closingBalanceIls: balanceAfterIls,
+      };
+      totals.set(driverId, driverTotals);
+    }
+
+    if (entry.type === 'trip_fare' || entry.type === 'cancellation_fee' || entry.type === 'refund') {
+      // Refund entries carry negative amounts
+      if (entry.type === 'trip_fare') {
+        driverTotals.tripsCount += 1;
+      }
+      driverTotals.fareTotalIls = roundIls(driverTotals.fareTotalIls + numberOrZero(entry.fareIls));
+      driverTotals.commissionTotalIls = roundIls(driverTotals.commissionTotalIls + numberOrZero(entry.commissionIls));
+      driverTotals.driverNetTotalIls = roundIls(driverTotals.driverNetTotalIls + numberOrZero(entry.driverNetIls));
+    } else if (entry.type === 'cash_handover') {
+      driverTotals.handoverTotalIls = roundIls(driverTotals.handoverTotalIls + numberOrZero(entry.amountIls));
+    }
+    driverTotals.closingBalanceIls = balanceAfterIls;
+  }
+
+  let batch = db.batch();
+  let pending = 0;
+  for (const driverTotals of totals.values()) {
+    batch.set(db.collection('settlementStatements').doc(`${driverTotals.driverId}_${period.periodKey}`), {
+      ...driverTotals,
+      statementId: `${driverTotals.driverId}_${period.periodKey}`,
+      periodKey: period.periodKey,
+      periodStart: Timestamp.fromMillis(period.startMs),
+      periodEnd: Timestamp.fromMillis(period.endMs),
+      generatedAt: FieldValue.serverTimestamp(),
+    });
+    pending += 1;
+    if (pending === 400) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  }
+  if (pending > 0) {
+    await batch.commit();
+  }
+
+  return totals.size;
+}
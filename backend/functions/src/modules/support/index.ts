@@ -0,0 +1,9 @@
+// Support module - ticket lifecycle, threaded replies and assignment
+export {
+  assertTripLinkable,
+  buildSupportTicketDocs,
+  openSupportTicket,
+  replyToSupportTicket,
+  updateSupportTicket,
+} from './support-tickets';
+export type { NewSupportTicket, SupportTicketUpdate } from './support-tickets';
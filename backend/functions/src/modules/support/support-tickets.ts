@@ -0,0 +1,363 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import {
+  SupportTicketAuthorRole,
+  SupportTicketCategory,
+  SupportTicketSource,
+  SupportTicketStatus,
+  canTransitionSupportTicket,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { loadUserTokens, sendExpoPush, sendFcmPush } from '../notifications';
+
+export interface NewSupportTicket {
+  userId: string;
+  userRole: string;
+  tripId: string | null;
+  category: SupportTicketCategory;
+  subject: string;
+  message: string;
+  source: SupportTicketSource;
+  /** Who wrote the opening message; the quality checks open tickets as `system` */
+  authorRole: SupportTicketAuthorRole;
+  extra?: Record<string, unknown>;
+}
+
+export interface SupportTicketUpdate {
+  ticketId: string;
+  managerId: string;
+  status?: SupportTicketStatus;
+  /** `null` unassigns */
+  assigneeId?: string | null;
+  /** `null` unlinks */
+  tripId?: string | null;
+}
+
+function ticketsCollection() {
+  return getFirestore().collection('supportTickets');
+}
+
+function readStatus(value: unknown): SupportTicketStatus {
+  switch (value) {
+    case 'assigned':
+    case 'waiting_on_user':
+    case 'resolved':
+    case 'closed':
+      return value;
+    default:
+      return 'open';
+  }
+}
+
+function readOptionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+function statusTimestamps(status: SupportTicketStatus): Record<string, unknown> {
+  const fields: Record<string, unknown> = { statusChangedAt: FieldValue.serverTimestamp() };
+  if (status === 'resolved') fields.resolvedAt = FieldValue.serverTimestamp();
+  if (status === 'closed') fields.closedAt = FieldValue.serverTimestamp();
+  return fields;
+}
+
+function statusMessage(status: SupportTicketStatus, authorId: string) {
+  return {
+    authorId,
+    authorRole: 'system',
+    text: `Status changed to ${status}`,
+    event: 'status_changed',
+    status,
+    createdAt: FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Ticket and opening-message documents for a new ticket. Callers write both,
+ * so tickets from the apps and from the quality checks share one shape.
+ */
+export function buildSupportTicketDocs(input: NewSupportTicket): {
+  ticket: Record<string, unknown>;
+  firstMessage: Record<string, unknown>;
+} {
+  return {
+    ticket: {
+      userId: input.userId,
+      userRole: input.userRole,
+      tripId: input.tripId,
+      category: input.category,
+      subject: input.subject,
+      message: input.message,
+      status: 'open',
+      source: input.source,
+      assigneeId: null,
+      messageCount: 1,
+      lastMessageRole: input.authorRole,
+      lastMessageAt: FieldValue.serverTimestamp(),
+      ...(input.extra ?? {}),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    firstMessage: {
+      authorId: input.authorRole === 'system' ? 'system' : input.userId,
+      authorRole: input.authorRole,
+      text: input.message,
+      createdAt: FieldValue.serverTimestamp(),
+    },
+  };
+}
+
+/**
+ * The trip must exist and the user must have ridden or driven it
+ */
+export async function assertTripLinkable(tripId: string, userId: string | null): Promise<void> {
+  const tripDoc = await getFirestore().collection('trips').doc(tripId).get();
+  if (!tripDoc.exists) {
+    throw new NotFoundError('Trip', tripId);
+  }
+  if (!userId) return;
+
+  const trip = tripDoc.data() ?? {};
+  if (trip.passengerId !== userId && trip.driverId !== userId) {
+    throw new ForbiddenError('The trip does not belong to this user');
+  }
+}
+
+/**
+ * Open a ticket from a mobile app with its first thread message
+ */
+export async function openSupportTicket(input: Omit<NewSupportTicket, 'source' | 'authorRole'>): Promise<string> {
+  if (input.tripId) {
+    await assertTripLinkable(input.tripId, input.userId);
+  }
+
+  const ticketRef = ticketsCollection().doc();
+  const { ticket, firstMessage } = buildSupportTicketDocs({ ...input, source: 'mobile', authorRole: 'user' });
+  const batch = getFirestore().batch();
+  batch.set(ticketRef, ticket);
+  batch.set(ticketRef.collection('messages').doc(), firstMessage);
+  await batch.commit();
+
+  return ticketRef.id;
+}
+
+/**
+ * Add a reply to a ticket thread and move the ticket along: a user answer
+ * sends it back to staff, a staff reply waits on the user unless another
+ * status is given.
+ */
+export async function replyToSupportTicket(input: {
+  ticketId: string;
+  authorId: string;
+  authorRole: 'user' | 'staff';
+  message: string;
+  nextStatus?: SupportTicketStatus;
+}): Promise<SupportTicketStatus> {
+  const db = getFirestore();
+  const ticketRef = ticketsCollection().doc(input.ticketId);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const ticketDoc = await transaction.get(ticketRef);
+    if (!ticketDoc.exists) {
+      throw new NotFoundError('Support ticket', input.ticketId);
+    }
+    const ticket = ticketDoc.data() ?? {};
+    const status = readStatus(ticket.status);
+    const assigneeId = readOptionalString(ticket.assigneeId);
+
+    if (input.authorRole === 'user' && (ticket.userId !== input.authorId || ticket.source !== 'mobile')) {
+      throw new ForbiddenError('You can only reply to your own tickets');
+    }
+    if (status === 'closed') {
+      throw new ForbiddenError('This ticket is closed');
+    }
+
+    let nextStatus: SupportTicketStatus = status;
+    if (input.authorRole === 'user') {
+      if (status === 'waiting_on_user' || status === 'resolved') {
+        nextStatus = assigneeId ? 'assigned' : 'open';
+      }
+    } else {
+      // Staff-only tickets have nobody to wait on; notes keep their status
+      nextStatus = input.nextStatus ?? (ticket.source === 'mobile' ? 'waiting_on_user' : status);
+      if (nextStatus !== status && !canTransitionSupportTicket(status, nextStatus)) {
+        throw new ValidationError(`Cannot move a ${status} ticket to ${nextStatus}`);
+      }
+      if (nextStatus === 'assigned' && !assigneeId) {
+        throw new ValidationError('Assign the ticket before marking it assigned');
+      }
+    }
+
+    transaction.set(ticketRef.collection('messages').doc(), {
+      authorId: input.authorId,
+      authorRole: input.authorRole,
+      text: input.message,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    if (nextStatus !== status) {
+      transaction.set(ticketRef.collection('messages').doc(), statusMessage(nextStatus, input.authorId));
+    }
+    transaction.update(ticketRef, {
+      status: nextStatus,
+      ...(nextStatus !== status ? statusTimestamps(nextStatus) : {}),
+      messageCount: FieldValue.increment(1),
+      lastMessageRole: input.authorRole,
+      lastMessageAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return {
+      nextStatus,
+      userId: readOptionalString(ticket.userId),
+      userRole: readOptionalString(ticket.userRole),
+      subject: readOptionalString(ticket.subject) ?? '',
+      notifyUser: input.authorRole === 'staff' && ticket.source === 'mobile',
+    };
+  });
+
+  logger.info('[Support] Ticket reply added', {
+    ticketId: input.ticketId,
+    authorId: input.authorId,
+    authorRole: input.authorRole,
+    status: result.nextStatus,
+  });
+
+  if (result.notifyUser && result.userId) {
+    await notifySupportReply(input.ticketId, result.userId, result.userRole, result.subject);
+  }
+  return result.nextStatus;
+}
+
+/**
+ * Active manager with the `support` role who can own tickets
+ */
+async function assertSupportAssignee(assigneeId: string): Promise<void> {
+  const roleDoc = await getFirestore().collection('managerRoles').doc(assigneeId).get();
+  const data = roleDoc.data();
+  if (!data || data.role !== 'support' || data.isActive === false) {
+    throw new ValidationError('Tickets can only be assigned to active support staff');
+  }
+}
+
+/**
+ * Change a ticket's status, owner or linked trip. Assigning an open ticket
+ * marks it assigned; unassigning an assigned one reopens it.
+ */
+export async function updateSupportTicket(input: SupportTicketUpdate): Promise<SupportTicketStatus> {
+  const db = getFirestore();
+  const ticketRef = ticketsCollection().doc(input.ticketId);
+
+  if (input.assigneeId) {
+    await assertSupportAssignee(input.assigneeId);
+  }
+
+  if (input.tripId) {
+    const ticketDoc = await ticketRef.get();
+    if (!ticketDoc.exists) {
+      throw new NotFoundError('Support ticket', input.ticketId);
+    }
+    const ticket = ticketDoc.data() ?? {};
+    await assertTripLinkable(input.tripId, ticket.source === 'mobile' ? readOptionalString(ticket.userId) : null);
+  }
+
+  const nextStatus = await db.runTransaction(async (transaction) => {
+    const ticketDoc = await transaction.get(ticketRef);
+    if (!ticketDoc.exists) {
+      throw new NotFoundError('Support ticket', input.ticketId);
+    }
+    const ticket = ticketDoc.data() ?? {};
+    const status = readStatus(ticket.status);
+    if (status === 'closed') {
+      throw new ForbiddenError('This ticket is closed');
+    }
+
+    const updates: Record<string, unknown> = {};
+    let assigneeId = readOptionalString(ticket.assigneeId);
+    if (input.assigneeId !== undefined && input.assigneeId !== assigneeId) {
+      assigneeId = input.assigneeId;
+      updates.assigneeId = assigneeId;
+      updates.assignedAt = assigneeId ? FieldValue.serverTimestamp() : null;
+      updates.assignedBy = input.managerId;
+    }
+    if (input.tripId !== undefined) {
+      updates.tripId = input.tripId;
+    }
+
+    let target = input.status ?? status;
+    if (input.status === undefined) {
+      if (status === 'open' && assigneeId) target = 'assigned';
+      if (status === 'assigned' && !assigneeId) target = 'open';
+    }
+    if (target !== status) {
+      if (!canTransitionSupportTicket(status, target)) {
+        throw new ValidationError(`Cannot move a ${status} ticket to ${target}`);
+      }
+      if (target === 'assigned' && !assigneeId) {
+        throw new ValidationError('Assign the ticket before marking it assigned');
+      }
+      Object.assign(updates, { status: target }, statusTimestamps(target));
+      transaction.set(ticketRef.collection('messages').doc(), statusMessage(target, input.managerId));
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return status;
+    }
+    transaction.update(ticketRef, { ...updates, updatedAt: FieldValue.serverTimestamp() });
+    return target;
+  });
+
+  logger.info('[Support] Ticket updated', {
+    ticketId: input.ticketId,
+    managerId: input.managerId,
+    status: nextStatus,
+    assigneeId: input.assigneeId,
+    tripId: input.tripId,
+  });
+  return nextStatus;
+}
+
+/**
+ * In-app and push notice that support answered. Failures are logged only;
+ * the reply is already saved.
+ */
+async function notifySupportReply(
+  ticketId: string,
+  userId: string,
+  userRole: string | null,
+  subject: string
+): Promise<void> {
+  try {
+    const content = {
+      titleEn: 'Support replied',
+      titleAr: 'رد فريق الدعم',
+      bodyEn: subject ? `New reply on "${subject}"` : 'You have a new reply on your ticket.',
+      bodyAr: subject ? `رد جديد على "${subject}"` : 'لديك رد جديد على تذكرتك.',
+    };
+    const tokens = await loadUserTokens(userId);
+    const locale = tokens.preferredLocale;
+
+    await getFirestore()
+      .collection('userNotifications')
+      .doc(userId)
+      .collection('items')
+      .add({
+        userId,
+        role: userRole,
+        type: 'support_reply',
+        ticketId,
+        read: false,
+        title: locale === 'ar' ? content.titleAr : content.titleEn,
+        body: locale === 'ar' ? content.bodyAr : content.bodyEn,
+        ...content,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+
+    const data = { type: 'support_reply', ticketId };
+    await Promise.all([
+      sendExpoPush(tokens.expoPushTokens, content, locale, data),
+      sendFcmPush(tokens.fcmTokens, content, locale, data),
+    ]);
+  } catch (error) {
+    logger.error('[Support] Failed to notify user of reply', error, { ticketId, userId });
+  }
+}
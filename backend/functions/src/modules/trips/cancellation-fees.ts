@@ -0,0 +1,138 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  CancellationFeeQuote,
+  CancellationPolicy,
+  PaymentMethod,
+  PaymentStatus,
+  normalizePaymentMethod,
+  quoteCancellationFee,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { logger } from '../../core/logger';
+import { captureCancellationFee, voidPaymentAuthorization } from '../payments';
+import { bookCancellationFeeSettlement } from '../settlements';
+import { chargeWalletCancellationFee } from '../wallets';
+
+function toMillisOrNull(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null;
+}
+
+/**
+ * Fee for cancelling the trip now under the configured policy
+ */
+export function quoteTripCancellationFee(
+  trip: Record<string, unknown>,
+  cancelledBy: 'passenger' | 'driver',
+  policy: CancellationPolicy,
+  nowMs: number = Date.now()
+): CancellationFeeQuote {
+  return quoteCancellationFee(policy, {
+    cancelledBy,
+    status: typeof trip.status === 'string' ? trip.status : '',
+    acceptedAtMs: toMillisOrNull(trip.acceptedAt),
+    arrivedAtMs: toMillisOrNull(trip.arrivedAt),
+    nowMs,
+  });
+}
+
+/**
+ * Record a cash trip's cancellation fee as owed: nothing can be taken
+ * automatically, so the payment stays pending with the real method
+ */
+async function recordOwedCancellationFee(
+  tripId: string,
+  trip: Record<string, unknown>,
+  passengerId: string,
+  quote: CancellationFeeQuote,
+  method: PaymentMethod
+): Promise<void> {
+  const db = getFirestore();
+  const paymentRef = db.collection('payments').doc(`payment_${tripId}`);
+  await db.runTransaction(async (transaction) => {
+    if ((await transaction.get(paymentRef)).exists) {
+      return;
+    }
+    transaction.set(paymentRef, {
+      paymentId: paymentRef.id,
+      kind: 'cancellation_fee',
+      tripId,
+      passengerId,
+      driverId: typeof trip.driverId === 'string' ? trip.driverId : '',
+      amount: quote.feeIls,
+      collectedIls: 0,
+      owedIls: quote.feeIls,
+      fareBreakdown: null,
+      currency: 'ILS',
+      method,
+      status: PaymentStatus.PENDING,
+      cancellationFeeReason: quote.reason,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.update(db.collection('trips').doc(tripId), {
+      cancellationFeeStatus: 'pending',
+      cancellationFeeCollectedIls: 0,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Collect the fee of a cancelled trip the way the ride was paid: captured
+ * against the card hold, or debited from the wallet up to its available
+ * balance. Cash fees, and whatever could not be collected, stay owed with
+ * cancellationFeeStatus pending; the cancel itself stands. Collected fees
+ * are booked in the settlement ledger. Returns true when the whole fee was
+ * collected.
+ */
+export async function collectTripCancellationFee(
+  tripId: string,
+  trip: Record<string, unknown>,
+  quote: CancellationFeeQuote
+): Promise<boolean> {
+  const passengerId = typeof trip.passengerId === 'string' ? trip.passengerId : '';
+  if (quote.feeIls <= 0 || !quote.reason || !passengerId) {
+    return false;
+  }
+
+  const method = normalizePaymentMethod(trip.paymentMethod) ?? 'cash';
+  const charge = {
+    tripId,
+    passengerId,
+    driverId: typeof trip.driverId === 'string' ? trip.driverId : null,
+    authorizationId: typeof trip.paymentAuthorizationId === 'string' ? trip.paymentAuthorizationId : null,
+    feeIls: quote.feeIls,
+    reason: quote.reason,
+  };
+
+  let collected: { collectedIls: number; owedIls: number } | null = null;
+  try {
+    if (method === 'card') {
+      collected = await captureCancellationFee(charge);
+    } else if (method === 'wallet') {
+      collected = await chargeWalletCancellationFee(charge);
+    } else {
+      await recordOwedCancellationFee(tripId, trip, passengerId, quote, method);
+      logger.info('[CancellationFee] Cash fee recorded as owed', { tripId, passengerId, ...quote });
+      return false;
+    }
+  } catch (error) {
+    logger.error('[CancellationFee] Charge failed, fee left pending', { tripId, passengerId, method, ...quote, error });
+    if (method === 'card' && charge.authorizationId) {
+      // voidTripPaymentOnCancel leaves card holds to the fee collection
+      await voidPaymentAuthorization(charge.authorizationId, 'cancellation_fee_failed').catch((voidError) =>
+        logger.error('[CancellationFee] Failed to void hold', voidError, { tripId })
+      );
+    }
+    return false;
+  }
+
+  if (collected && collected.collectedIls > 0) {
+    try {
+      await bookCancellationFeeSettlement(tripId, { ...trip, cancellationFeeReason: quote.reason }, collected.collectedIls);
+    } catch (error) {
+      logger.error('[Settlement] Failed to book cancellation fee', error, { tripId });
+    }
+  }
+  return collected !== null && collected.owedIls <= 0;
+}
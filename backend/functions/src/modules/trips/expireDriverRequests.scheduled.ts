@@ -4,6 +4,8 @@ import { REGION } from '../../core/env';
 import { getFirestore } from '../../core/config';
 import { logger } from '../../core/logger';
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getRemainingActiveTripIds, isDriverAvailableForDispatch } from '../matching';
+import { redispatchTrip } from './trip-redispatch';
 
 export const expireDriverRequests = onSchedule(
   {
@@ -20,6 +22,7 @@ export const expireDriverRequests = onSchedule(
     const now = Timestamp.now();
 
     let expiredCount = 0;
+    let redispatchedCount = 0;
     let errorCount = 0;
 
     try {
@@ -53,6 +56,8 @@ export const expireDriverRequests = onSchedule(
             continue;
           }
 
+          let shouldRedispatch = false;
+
           await db.runTransaction(async (transaction) => {
             const latestRequestDoc = await transaction.get(requestDoc.ref);
             if (!latestRequestDoc.exists) {
@@ -63,24 +68,8 @@ export const expireDriverRequests = onSchedule(
               return;
             }
 
-            transaction.update(requestDoc.ref, {
-              status: 'expired',
-              expiredAt: FieldValue.serverTimestamp(),
-            });
-
             const tripRef = db.collection('trips').doc(tripId);
             const tripDoc = await transaction.get(tripRef);
-            if (tripDoc.exists) {
-              const tripData = tripDoc.data() ?? {};
-              if (tripData.status === TripStatus.PENDING) {
-                transaction.update(tripRef, {
-                  status: TripStatus.NO_DRIVER_AVAILABLE,
-                  cancelledAt: FieldValue.serverTimestamp(),
-                  cancellationReason: 'Driver did not respond in time',
-                });
-              }
-            }
-
             const driverRef = db.collection('drivers').doc(driverId);
             const driverDoc = await transaction.get(driverRef);
             const driverData = (driverDoc.data() ?? {}) as Record<string, unknown>;
@@ -95,21 +84,36 @@ export const expireDriverRequests = onSchedule(
             const availableSeats = Math.max(0, Math.min(availableSeatsRaw, seatCapacity));
             const isOnline = driverData.isOnline === true;
             const fullTaxiReserved = driverData.fullTaxiReserved === true;
-            const currentTripId =
-              typeof driverData.currentTripId === 'string' && driverData.currentTripId.trim().length > 0
-                ? driverData.currentTripId
-                : null;
-            const shouldClearCurrentTrip = currentTripId === tripId;
+            // A pooled offer never replaced currentTripId; a solo offer did
+            const activeTripIds = getRemainingActiveTripIds(driverData, tripId);
+
+            transaction.update(requestDoc.ref, {
+              status: 'expired',
+              expiredAt: FieldValue.serverTimestamp(),
+            });
+
+            // Trip stays PENDING: the re-dispatch loop below offers it to the next driver
+            const tripData = tripDoc.data() ?? {};
+            if (tripData.status === TripStatus.PENDING && tripData.driverId === driverId) {
+              transaction.update(tripRef, {
+                declinedDriverIds: FieldValue.arrayUnion(driverId),
+                lastOfferExpiredAt: FieldValue.serverTimestamp(),
+                updatedAt: FieldValue.serverTimestamp(),
+              });
+              shouldRedispatch = true;
+            }
 
             transaction.set(
               driverRef,
               {
-                isAvailable:
-                  isOnline &&
-                  availableSeats > 0 &&
-                  !fullTaxiReserved &&
-                  (currentTripId == null || shouldClearCurrentTrip),
-                currentTripId: shouldClearCurrentTrip ? null : currentTripId,
+                isAvailable: isDriverAvailableForDispatch({
+                  isOnline,
+                  availableSeats,
+                  fullTaxiReserved,
+                  activeTripCount: activeTripIds.length,
+                }),
+                activeTripIds,
+                currentTripId: activeTripIds[0] ?? null,
                 updatedAt: FieldValue.serverTimestamp(),
               },
               { merge: true }
@@ -121,6 +125,17 @@ export const expireDriverRequests = onSchedule(
             reason: 'Driver did not respond in time',
           });
           expiredCount++;
+
+          if (shouldRedispatch) {
+            const redispatch = await redispatchTrip({
+              tripId,
+              previousDriverId: driverId,
+              reason: 'expired',
+            });
+            if (redispatch.outcome === 'redispatched') {
+              redispatchedCount++;
+            }
+          }
         } catch (docError) {
           logger.error('[ExpireRequests] Failed to expire request', {
             docId: requestDoc.id,
@@ -132,6 +147,7 @@ export const expireDriverRequests = onSchedule(
 
       logger.info('[ExpireRequests] COMPLETE', {
         expiredCount,
+        redispatchedCount,
         errorCount,
         durationMs: Date.now() - startTime,
       });
@@ -1,9 +1,10 @@
 import { onSchedule } from 'firebase-functions/v2/scheduler';
-import { TripStatus, TripRequestStatus, PILOT_LIMITS } from '@taxi-line/shared';
+import { TripStatus, TripRequestStatus, PILOT_LIMITS, TERMINAL_TRIP_STATUSES } from '@taxi-line/shared';
 import { REGION } from '../../core/env';
 import { getFirestore } from '../../core/config';
 import { logger } from '../../core/logger';
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getRemainingActiveTripIds } from '../matching';
 
 /**
  * ============================================================================
@@ -19,6 +20,10 @@ import { FieldValue, Timestamp } from 'firebase-admin/firestore';
  *    → Auto-cancel with reason "no_driver_found"
  * 
  * 2. Query trips where status='accepted' AND acceptedAt < (now - 5 minutes)
+ *    → Pooled trips (poolAnchorTripId) wait longer: the driver may still be
+ *      collecting earlier passengers on the line route. They expire once
+ *      the anchor trip has ended more than 5 minutes ago, or 30 minutes
+ *      after acceptance
  *    → Auto-cancel with reason "driver_no_show"
  *    → Reset driver availability
  * 
@@ -29,6 +34,22 @@ import { FieldValue, Timestamp } from 'firebase-admin/firestore';
  * ============================================================================
  */
 
+/**
+ * When a trip reached a terminal status, or null while it is still running.
+ * A missing trip counts as long ended.
+ */
+async function getTripEndedAtMs(tripId: string): Promise<number | null> {
+  const trip = (await getFirestore().collection('trips').doc(tripId).get()).data();
+  if (!trip) {
+    return 0;
+  }
+  if (!TERMINAL_TRIP_STATUSES.includes(trip.status as TripStatus)) {
+    return null;
+  }
+  const endedAt: unknown = trip.completedAt ?? trip.cancelledAt ?? trip.updatedAt;
+  return endedAt instanceof Timestamp ? endedAt.toMillis() : 0;
+}
+
 /**
  * Scheduled function to expire stale trips
  * Runs every minute
@@ -49,6 +70,7 @@ export const expireStaleTrips = onSchedule(
     
     let searchingExpired = 0;
     let acceptedExpired = 0;
+    let pooledSkipped = 0;
     let errorCount = 0;
 
     try {
@@ -112,12 +134,33 @@ export const expireStaleTrips = onSchedule(
       if (!staleAcceptedTripsSnapshot.empty) {
         logger.info(`🔍 [ExpireStaleTrips] Found ${staleAcceptedTripsSnapshot.size} stale accepted trip(s)`);
 
+        const pooledCutoffMs = now.toMillis() - PILOT_LIMITS.POOLED_ARRIVAL_TIMEOUT_SECONDS * 1000;
+        const anchorEndedAtMs = new Map<string, number | null>();
+
         for (const tripDoc of staleAcceptedTripsSnapshot.docs) {
+          const tripData = tripDoc.data();
+          const anchorTripId: unknown = tripData.poolAnchorTripId;
+          if (typeof anchorTripId === 'string' && anchorTripId.length > 0) {
+            const acceptedAtMs = tripData.acceptedAt instanceof Timestamp ? tripData.acceptedAt.toMillis() : 0;
+            if (acceptedAtMs >= pooledCutoffMs) {
+              if (!anchorEndedAtMs.has(anchorTripId)) {
+                anchorEndedAtMs.set(anchorTripId, await getTripEndedAtMs(anchorTripId));
+              }
+              const endedAtMs = anchorEndedAtMs.get(anchorTripId) ?? null;
+              if (endedAtMs === null || endedAtMs >= acceptedCutoff.toMillis()) {
+                pooledSkipped++;
+                continue;
+              }
+            }
+          }
+
           try {
-            const tripData = tripDoc.data();
             const driverId = tripData.driverId;
 
             await db.runTransaction(async (transaction) => {
+              const driverRef = driverId ? db.collection('drivers').doc(driverId) : null;
+              const driverDoc = driverRef ? await transaction.get(driverRef) : null;
+
               // Update trip to cancelled
               transaction.update(tripDoc.ref, {
                 status: TripStatus.CANCELLED_BY_SYSTEM,
@@ -125,12 +168,13 @@ export const expireStaleTrips = onSchedule(
                 cancellationReason: 'driver_no_show',
               });
 
-              // Reset driver availability
-              if (driverId) {
-                const driverRef = db.collection('drivers').doc(driverId);
+              // Reset driver availability (pooled drivers keep their other trips)
+              if (driverRef) {
+                const activeTripIds = getRemainingActiveTripIds(driverDoc?.data() ?? {}, tripDoc.id);
                 transaction.update(driverRef, {
-                  isAvailable: true,
-                  currentTripId: null,
+                  ...(activeTripIds.length === 0 ? { isAvailable: true } : {}),
+                  activeTripIds,
+                  currentTripId: activeTripIds[0] ?? null,
                   updatedAt: FieldValue.serverTimestamp(),
                 });
               }
@@ -162,6 +206,7 @@ export const expireStaleTrips = onSchedule(
       logger.info('🎉 [ExpireStaleTrips] COMPLETE', {
         searchingExpired,
         acceptedExpired,
+        pooledSkipped,
         errorCount,
         durationMs: duration,
       });
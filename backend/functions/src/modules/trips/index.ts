@@ -1,3 +1,22 @@
 // Trips module - handles trip lifecycle
 export { expireDriverRequests } from './expireDriverRequests.scheduled';
 export { expireStaleTrips } from './expireStaleTrips.scheduled';
+export { promoteScheduledRides } from './promoteScheduledRides.scheduled';
+export { recordTripRouteTrail } from './recordTripRouteTrail.firestore';
+export { redispatchTrip } from './trip-redispatch';
+export type { RedispatchReason, RedispatchTripInput, RedispatchTripResult } from './trip-redispatch';
+export { matchTripRequestToDriver } from './trip-request-dispatch';
+export type {
+  MatchTripRequestInput,
+  MatchTripRequestResult,
+  TripRideRequirements,
+} from './trip-request-dispatch';
+export { assertScheduledRideQuota, validateScheduledPickupTime } from './scheduled-rides';
+export type { ScheduledRideDocument } from './scheduled-rides';
+export { getTripRouteTrailSummary, toTripRouteTrailSummary } from './trip-route-trail';
+export type { TripRouteTrailSummary } from './trip-route-trail';
+export { settleTripRouteFare } from './trip-route-fare';
+export { collectTripCancellationFee, quoteTripCancellationFee } from './cancellation-fees';
+export { getTripNoShowWaitSeconds, getTripWaitCharge } from './trip-wait-time';
+export type { TripWaitCharge } from './trip-wait-time';
+export type { TripRouteFareResult } from './trip-route-fare';
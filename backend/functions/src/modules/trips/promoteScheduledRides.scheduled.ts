@@ -0,0 +1,316 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  ACTIVE_TRIP_STATUSES,
+  PILOT_LIMITS,
+  ScheduledRideStatus,
+  TripRequestStatus,
+} from '@taxi-line/shared';
+import { REGION } from '../../core/env';
+import { getFirestore, getSystemConfig } from '../../core/config';
+import { logger } from '../../core/logger';
+import { calculateRoute } from '../routing';
+import { publishTripStatusNotifications } from '../notifications';
+import { ScheduledRideDocument } from './scheduled-rides';
+import { matchTripRequestToDriver } from './trip-request-dispatch';
+
+/**
+ * ============================================================================
+ * PROMOTE SCHEDULED RIDES - Scheduled Cloud Function
+ * ============================================================================
+ *
+ * Runs every minute and hands advance bookings to live dispatch.
+ *
+ * FLOW:
+ * 1. Query scheduledRides where status='scheduled' AND
+ *    scheduledFor <= now + system/config.scheduledRideLeadMinutes
+ * 2. Claim each ride (status → dispatching) in a transaction
+ * 3. Skip while the passenger still has an active trip
+ * 4. matchTripRequestToDriver - same path as a ride-now request
+ *    → matched: status 'dispatched' with tripId/driverId
+ *    → no driver: back to 'scheduled', retried next run
+ * 5. Past scheduledFor + SCHEDULED_RIDE_DISPATCH_GRACE_MINUTES
+ *    → status 'failed', tripRequest EXPIRED, passenger notified
+ *
+ * Rides left in 'dispatching' by a crashed run are reclaimed after
+ * STALE_CLAIM_MS.
+ *
+ * Index: scheduledRides (status, scheduledFor)
+ *
+ * ============================================================================
+ */
+
+const MINUTE_MS = 60 * 1000;
+/** A claim older than this belongs to a run that died mid-dispatch */
+const STALE_CLAIM_MS = 2 * MINUTE_MS;
+/** Upper bound per run to stay inside the function timeout */
+const MAX_RIDES_PER_RUN = 20;
+
+type PromotionOutcome = 'dispatched' | 'retry' | 'failed' | 'skipped';
+
+function toMillis(value: unknown): number | null {
+  if (value && typeof (value as FirebaseFirestore.Timestamp).toMillis === 'function') {
+    return (value as FirebaseFirestore.Timestamp).toMillis();
+  }
+  return null;
+}
+
+/**
+ * Atomically take ownership of a ride so overlapping runs never
+ * dispatch it twice
+ */
+async function claimScheduledRide(
+  rideRef: FirebaseFirestore.DocumentReference,
+  nowMs: number
+): Promise<ScheduledRideDocument | null> {
+  const db = getFirestore();
+
+  return db.runTransaction(async (transaction) => {
+    const rideDoc = await transaction.get(rideRef);
+    if (!rideDoc.exists) {
+      return null;
+    }
+
+    const ride = rideDoc.data() as ScheduledRideDocument & { dispatchClaimedAt?: unknown };
+    const claimedAtMs = toMillis(ride.dispatchClaimedAt) ?? 0;
+    const isStaleClaim =
+      ride.status === ScheduledRideStatus.DISPATCHING && nowMs - claimedAtMs > STALE_CLAIM_MS;
+
+    if (ride.status !== ScheduledRideStatus.SCHEDULED && !isStaleClaim) {
+      return null;
+    }
+
+    transaction.update(rideRef, {
+      status: ScheduledRideStatus.DISPATCHING,
+      dispatchClaimedAt: FieldValue.serverTimestamp(),
+      dispatchAttempts: FieldValue.increment(1),
+    });
+
+    return ride;
+  });
+}
+
+/**
+ * Write the attempt result unless the passenger cancelled meanwhile
+ */
+async function releaseScheduledRide(
+  rideRef: FirebaseFirestore.DocumentReference,
+  update: FirebaseFirestore.UpdateData<FirebaseFirestore.DocumentData>
+): Promise<boolean> {
+  const db = getFirestore();
+
+  return db.runTransaction(async (transaction) => {
+    const rideDoc = await transaction.get(rideRef);
+    if (rideDoc.data()?.status !== ScheduledRideStatus.DISPATCHING) {
+      return false;
+    }
+    transaction.update(rideRef, update);
+    return true;
+  });
+}
+
+async function failScheduledRide(
+  rideRef: FirebaseFirestore.DocumentReference,
+  ride: ScheduledRideDocument,
+  failureReason: string
+): Promise<void> {
+  const db = getFirestore();
+
+  const released = await releaseScheduledRide(rideRef, {
+    status: ScheduledRideStatus.FAILED,
+    failureReason,
+    failedAt: FieldValue.serverTimestamp(),
+  });
+  if (!released) {
+    return;
+  }
+
+  await db.collection('tripRequests').doc(ride.requestId).update({
+    status: TripRequestStatus.EXPIRED,
+    expiredAt: FieldValue.serverTimestamp(),
+    expirationReason: failureReason,
+  });
+
+  await publishTripStatusNotifications({
+    tripId: ride.requestId,
+    status: 'scheduled_ride_failed',
+    recipients: [
+      {
+        userId: ride.passengerId,
+        role: 'passenger',
+      },
+    ],
+    metadata: {
+      requestId: ride.requestId,
+      failureReason,
+    },
+  });
+}
+
+async function promoteScheduledRide(
+  rideRef: FirebaseFirestore.DocumentReference,
+  nowMs: number
+): Promise<PromotionOutcome> {
+  const db = getFirestore();
+  const ride = await claimScheduledRide(rideRef, nowMs);
+  if (!ride) {
+    return 'skipped';
+  }
+
+  const giveUpAtMs =
+    ride.scheduledFor.toMillis() + PILOT_LIMITS.SCHEDULED_RIDE_DISPATCH_GRACE_MINUTES * MINUTE_MS;
+  const isPastGrace = nowMs > giveUpAtMs;
+
+  // ========================================
+  // Passenger must be free, same guard as ride-now requests
+  // ========================================
+  const activeTripsSnapshot = await db
+    .collection('trips')
+    .where('passengerId', '==', ride.passengerId)
+    .where('status', 'in', [...ACTIVE_TRIP_STATUSES])
+    .limit(PILOT_LIMITS.MAX_ACTIVE_TRIPS_PER_PASSENGER)
+    .get();
+
+  if (!activeTripsSnapshot.empty) {
+    if (isPastGrace) {
+      await failScheduledRide(rideRef, ride, 'passenger_has_active_trip');
+      return 'failed';
+    }
+
+    logger.info('⏳ [PromoteScheduledRides] Passenger busy - retrying next run', {
+      requestId: ride.requestId,
+      activeTripId: activeTripsSnapshot.docs[0]?.id,
+    });
+    await releaseScheduledRide(rideRef, {
+      status: ScheduledRideStatus.SCHEDULED,
+      lastDispatchAttemptAt: FieldValue.serverTimestamp(),
+      lastDispatchResult: 'passenger_has_active_trip',
+    });
+    return 'retry';
+  }
+
+  // ========================================
+  // Live dispatch - roadblocks re-checked now, the quoted price is kept
+  // ========================================
+  const { roadblocks } = await calculateRoute(ride.pickup, ride.dropoff);
+  const dispatchResult = await matchTripRequestToDriver({
+    requestId: ride.requestId,
+    passengerId: ride.passengerId,
+    pickup: ride.pickup,
+    dropoff: ride.dropoff,
+    estimate: {
+      distanceKm: ride.estimatedDistanceKm,
+      durationMin: ride.estimatedDurationMin,
+    },
+    priceIls: ride.estimatedPriceIls,
+    pricingProfileId: ride.pricingProfileId,
+    pricingBreakdown: ride.pricingBreakdown ?? null,
+    routeRoadblocks: roadblocks,
+    rideOptions: ride.rideOptions,
+    paymentMethod: ride.paymentMethod ?? 'cash',
+    paymentAuthorizationId: ride.paymentAuthorizationId ?? null,
+    logTag: '[PromoteScheduledRides]',
+  });
+
+  if (dispatchResult.status === 'matched') {
+    await releaseScheduledRide(rideRef, {
+      status: ScheduledRideStatus.DISPATCHED,
+      tripId: dispatchResult.tripId,
+      driverId: dispatchResult.driverId,
+      dispatchedAt: FieldValue.serverTimestamp(),
+    });
+
+    logger.info('🚕 [PromoteScheduledRides] Scheduled ride dispatched', {
+      requestId: ride.requestId,
+      tripId: dispatchResult.tripId,
+      driverId: dispatchResult.driverId,
+      scheduledFor: ride.scheduledFor.toDate().toISOString(),
+    });
+    return 'dispatched';
+  }
+
+  if (isPastGrace) {
+    await failScheduledRide(rideRef, ride, 'no_driver_found');
+    return 'failed';
+  }
+
+  await releaseScheduledRide(rideRef, {
+    status: ScheduledRideStatus.SCHEDULED,
+    lastDispatchAttemptAt: FieldValue.serverTimestamp(),
+    lastDispatchResult: 'no_driver_found',
+  });
+  return 'retry';
+}
+
+/**
+ * Scheduled function to promote advance bookings into dispatch
+ * Runs every minute
+ */
+export const promoteScheduledRides = onSchedule(
+  {
+    region: REGION,
+    schedule: 'every 1 minutes',
+    timeoutSeconds: 60,
+    memory: '256MiB',
+  },
+  async () => {
+    const startTime = Date.now();
+    const db = getFirestore();
+    const { scheduledRideLeadMinutes } = await getSystemConfig();
+    const promoteBefore = Timestamp.fromMillis(startTime + scheduledRideLeadMinutes * MINUTE_MS);
+
+    const counts: Record<PromotionOutcome, number> = {
+      dispatched: 0,
+      retry: 0,
+      failed: 0,
+      skipped: 0,
+    };
+    let errorCount = 0;
+
+    try {
+      const dueSnapshot = await db
+        .collection('scheduledRides')
+        .where('status', 'in', [ScheduledRideStatus.SCHEDULED, ScheduledRideStatus.DISPATCHING])
+        .where('scheduledFor', '<=', promoteBefore)
+        .orderBy('scheduledFor', 'asc')
+        .limit(MAX_RIDES_PER_RUN)
+        .get();
+
+      if (dueSnapshot.empty) {
+        logger.debug('[PromoteScheduledRides] No scheduled rides due');
+        return;
+      }
+
+      logger.info(`📅 [PromoteScheduledRides] ${dueSnapshot.size} scheduled ride(s) due`, {
+        leadMinutes: scheduledRideLeadMinutes,
+      });
+
+      // Sequential on purpose: consecutive rides may compete for the same drivers
+      for (const rideDoc of dueSnapshot.docs) {
+        try {
+          const outcome = await promoteScheduledRide(rideDoc.ref, Date.now());
+          counts[outcome]++;
+        } catch (error) {
+          errorCount++;
+          logger.error('❌ [PromoteScheduledRides] Failed to promote ride', error, {
+            scheduledRideId: rideDoc.id,
+          });
+          // Hand the ride back so the next run can retry it
+          await releaseScheduledRide(rideDoc.ref, {
+            status: ScheduledRideStatus.SCHEDULED,
+            lastDispatchAttemptAt: FieldValue.serverTimestamp(),
+            lastDispatchResult: 'error',
+          }).catch(() => undefined);
+        }
+      }
+    } catch (error) {
+      logger.error('❌ [PromoteScheduledRides] Query failed', error);
+    }
+
+    logger.info('✅ [PromoteScheduledRides] COMPLETE', {
+      ...counts,
+      errors: errorCount,
+      durationMs: Date.now() - startTime,
+    });
+  }
+);
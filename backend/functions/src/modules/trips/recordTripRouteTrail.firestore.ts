@@ -0,0 +1,57 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { REGION } from '../../core/env';
+import { getFirestore } from '../../core/config';
+import { logger } from '../../core/logger';
+import { getDriverActiveTripIds } from '../matching';
+import { appendTripRouteTrailPoint } from './trip-route-trail';
+
+/**
+ * Records the driver's location on every trip they have in progress, so
+ * completeTrip can price the route that was actually driven. Pooled line
+ * taxis append the same point to each passenger's trip.
+ */
+export const recordTripRouteTrail = onDocumentWritten(
+  {
+    region: REGION,
+    document: 'driverLive/{driverId}',
+    memory: '256MiB',
+    timeoutSeconds: 30,
+  },
+  async (event) => {
+    const driverId = event.params.driverId;
+    const after = event.data?.after;
+    if (!after?.exists) {
+      return;
+    }
+
+    const liveData = after.data() ?? {};
+    if (typeof liveData.lat !== 'number' || typeof liveData.lng !== 'number') {
+      return;
+    }
+
+    const db = getFirestore();
+    const driverDoc = await db.collection('drivers').doc(driverId).get();
+    const activeTripIds = getDriverActiveTripIds(driverDoc.data() ?? {});
+    if (activeTripIds.length === 0) {
+      return;
+    }
+
+    const recordedAtMs =
+      liveData.updatedAt instanceof Timestamp ? liveData.updatedAt.toMillis() : Date.parse(event.time);
+    const point = {
+      lat: liveData.lat,
+      lng: liveData.lng,
+      speed: typeof liveData.speed === 'number' ? liveData.speed : null,
+      recordedAtMs,
+    };
+
+    for (const tripId of activeTripIds) {
+      try {
+        await appendTripRouteTrailPoint(tripId, driverId, point);
+      } catch (error) {
+        logger.warn('[RouteTrail] Failed to record trail point', { tripId, driverId, error });
+      }
+    }
+  }
+);
@@ -0,0 +1,92 @@
+import {
+  FareBreakdown,
+  LatLng,
+  PILOT_LIMITS,
+  PaymentMethod,
+  ScheduledRideStatus,
+  UPCOMING_SCHEDULED_RIDE_STATUSES,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { ForbiddenError, ValidationError } from '../../core/errors';
+import { TripRideRequirements } from './trip-request-dispatch';
+
+/**
+ * ============================================================================
+ * SCHEDULED RIDES - Advance booking rules
+ * ============================================================================
+ *
+ * Firestore Collection: scheduledRides/{requestId}
+ *
+ * createTripRequest writes one document per advance booking next to its
+ * tripRequests/{requestId} (status SCHEDULED). promoteScheduledRides hands
+ * it to live dispatch once the configured lead time before pickup is
+ * reached. The document carries everything dispatch needs, so the
+ * promoter never has to re-read the trip request.
+ *
+ * ============================================================================
+ */
+
+export interface ScheduledRideDocument {
+  scheduledRideId: string;
+  requestId: string;
+  passengerId: string;
+  pickup: LatLng;
+  dropoff: LatLng;
+  estimatedDistanceKm: number;
+  estimatedDurationMin: number;
+  estimatedPriceIls: number;
+  pricingProfileId: string | null;
+  pricingBreakdown: FareBreakdown | null;
+  rideOptions: TripRideRequirements;
+  /** Missing on bookings made before card/wallet payments */
+  paymentMethod?: PaymentMethod;
+  paymentAuthorizationId?: string | null;
+  scheduledFor: FirebaseFirestore.Timestamp;
+  status: ScheduledRideStatus;
+  dispatchAttempts: number;
+  createdAt: FirebaseFirestore.FieldValue;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Pickup time must sit inside the booking window:
+ * [now + SCHEDULED_RIDE_MIN_ADVANCE_MINUTES, now + SCHEDULED_RIDE_MAX_ADVANCE_DAYS]
+ */
+export function validateScheduledPickupTime(scheduledFor: Date, now: Date = new Date()): void {
+  const earliest = now.getTime() + PILOT_LIMITS.SCHEDULED_RIDE_MIN_ADVANCE_MINUTES * MINUTE_MS;
+  const latest = now.getTime() + PILOT_LIMITS.SCHEDULED_RIDE_MAX_ADVANCE_DAYS * DAY_MS;
+
+  if (scheduledFor.getTime() < earliest) {
+    throw new ValidationError(
+      `Scheduled rides must be booked at least ${PILOT_LIMITS.SCHEDULED_RIDE_MIN_ADVANCE_MINUTES} minutes ahead`
+    );
+  }
+
+  if (scheduledFor.getTime() > latest) {
+    throw new ValidationError(
+      `Scheduled rides can be booked at most ${PILOT_LIMITS.SCHEDULED_RIDE_MAX_ADVANCE_DAYS} days ahead`
+    );
+  }
+}
+
+/**
+ * Reject a new booking when the passenger already holds the maximum
+ * number of upcoming scheduled rides (PILOT SAFETY GUARD)
+ */
+export async function assertScheduledRideQuota(passengerId: string): Promise<void> {
+  const db = getFirestore();
+  const upcomingSnapshot = await db
+    .collection('scheduledRides')
+    .where('passengerId', '==', passengerId)
+    .where('status', 'in', [...UPCOMING_SCHEDULED_RIDE_STATUSES])
+    .limit(PILOT_LIMITS.MAX_SCHEDULED_RIDES_PER_PASSENGER)
+    .get();
+
+  if (upcomingSnapshot.size >= PILOT_LIMITS.MAX_SCHEDULED_RIDES_PER_PASSENGER) {
+    throw new ForbiddenError(
+      `You can have at most ${PILOT_LIMITS.MAX_SCHEDULED_RIDES_PER_PASSENGER} upcoming scheduled rides.`
+    );
+  }
+}
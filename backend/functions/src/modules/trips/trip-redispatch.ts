@@ -0,0 +1,442 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  LatLng,
+  RouteRoadblock,
+  PILOT_LIMITS,
+  TripStatus,
+  normalizeBookingType,
+  normalizeMatchingStrategy,
+  normalizeRequestedSeats,
+  normalizeVehicleType,
+} from '@taxi-line/shared';
+import { getFirestore, getSystemConfig } from '../../core/config';
+import { logger } from '../../core/logger';
+import {
+  DispatchRequirements,
+  DriverCandidate,
+  evaluateDriverCandidate,
+  findDriverCandidates,
+  isPoolingStateCurrent,
+  rankCandidates,
+  resolveMatchingStrategy,
+} from '../matching';
+import { publishTripStatusNotifications } from '../notifications';
+
+/**
+ * ============================================================================
+ * TRIP RE-DISPATCH - Cascade to the next-ranked driver
+ * ============================================================================
+ *
+ * Called after the offered driver rejects (rejectTripRequest), lets the
+ * offer expire (expireDriverRequests), or accepted but is reported as not
+ * moving by the passenger (reportDriverNotMoving). The caller has already
+ * released the driver, put the trip back to PENDING where needed and
+ * appended them to trips/{tripId}.declinedDriverIds.
+ *
+ * Flow:
+ * 1. Trip must still be PENDING and assigned to the driver that declined
+ * 2. Stop if dispatchAttempts reached system/config.maxDispatchAttempts
+ * 3. Find and rank candidates with the same rules as createTripRequest, excluding
+ *    every driver that already declined and anyone beyond
+ *    system/config.maxDispatchRadiusKm
+ * 4. TRANSACTION: reassign trip, create driverRequests offer, lock driver
+ * 5. If nothing could be assigned → trip ends as NO_DRIVER_AVAILABLE
+ *
+ * ============================================================================
+ */
+
+export type RedispatchReason = 'rejected' | 'expired' | 'driver_not_moving';
+
+export interface RedispatchTripInput {
+  tripId: string;
+  /** Driver that just rejected, timed out or was reported as not moving */
+  previousDriverId: string;
+  reason: RedispatchReason;
+}
+
+export type RedispatchTripResult =
+  | { outcome: 'redispatched'; driverId: string; attempt: number }
+  | { outcome: 'exhausted'; exhaustedReason: 'max_attempts' | 'no_candidates' }
+  | { outcome: 'skipped' };
+
+/** Trip fields copied onto the driver's offer */
+interface OfferedTripFields {
+  passengerId: string;
+  pickup: LatLng;
+  dropoff: LatLng;
+  estimatedDistanceKm: number;
+  estimatedDurationMin: number;
+  estimatedPriceIls: number;
+  requestedSeats?: number;
+  routeRoadblocks?: RouteRoadblock[];
+}
+
+/** How many ranked candidates to try before giving up on transaction races */
+const MAX_ASSIGNMENT_TRIES = 3;
+
+class CandidateUnavailableError extends Error {}
+class TripNoLongerRedispatchableError extends Error {}
+
+function sanitizeId(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function normalizeStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string' && item.length > 0);
+}
+
+function isStillRedispatchable(
+  tripData: FirebaseFirestore.DocumentData | undefined,
+  previousDriverId: string
+): boolean {
+  return !!tripData && tripData.status === TripStatus.PENDING && tripData.driverId === previousDriverId;
+}
+
+function getRequirementsFromTrip(tripData: FirebaseFirestore.DocumentData): DispatchRequirements {
+  return {
+    bookingType: normalizeBookingType(tripData.bookingType),
+    requiredSeats: normalizeRequestedSeats(
+      typeof tripData.requiredSeats === 'number' ? tripData.requiredSeats : undefined
+    ),
+    vehicleType: normalizeVehicleType(tripData.requestedVehicleType),
+    officeId: sanitizeId(tripData.requestedOfficeId),
+    lineId: sanitizeId(tripData.requestedLineId),
+    destinationLabel: sanitizeId(tripData.destinationLabel),
+    destinationCity: sanitizeId(tripData.destinationCity),
+  };
+}
+
+/**
+ * Mark the trip as NO_DRIVER_AVAILABLE once the cascade gives up.
+ * Returns false if the trip moved on in the meantime (e.g. passenger cancelled).
+ */
+async function finalizeNoDriverAvailable(
+  tripId: string,
+  previousDriverId: string,
+  exhaustedReason: 'max_attempts' | 'no_candidates'
+): Promise<boolean> {
+  const db = getFirestore();
+  const tripRef = db.collection('trips').doc(tripId);
+  let passengerId = '';
+
+  const finalized = await db.runTransaction(async (transaction) => {
+    const tripDoc = await transaction.get(tripRef);
+    const tripData = tripDoc.data();
+    if (!isStillRedispatchable(tripData, previousDriverId)) {
+      return false;
+    }
+
+    passengerId = String(tripData?.passengerId || '');
+    transaction.update(tripRef, {
+      status: TripStatus.NO_DRIVER_AVAILABLE,
+      cancelledAt: FieldValue.serverTimestamp(),
+      cancellationReason: 'no_driver_accepted',
+      dispatchExhaustedReason: exhaustedReason,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (!finalized) {
+    return false;
+  }
+
+  logger.dispatchFailed(tripId, 'Re-dispatch exhausted', {
+    exhaustedReason,
+    lastDriverId: previousDriverId,
+  });
+
+  if (passengerId) {
+    await publishTripStatusNotifications({
+      tripId,
+      status: TripStatus.NO_DRIVER_AVAILABLE,
+      recipients: [
+        {
+          userId: passengerId,
+          role: 'passenger',
+        },
+      ],
+      metadata: {
+        exhaustedReason,
+      },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Atomically move the trip offer from previousDriverId to candidate.
+ */
+async function assignTripToCandidate(
+  tripId: string,
+  previousDriverId: string,
+  candidate: DriverCandidate,
+  requirements: DispatchRequirements,
+  reason: RedispatchReason,
+  attempt: number
+): Promise<void> {
+  const db = getFirestore();
+  const tripRef = db.collection('trips').doc(tripId);
+  const driverDocRef = db.collection('drivers').doc(candidate.driverId);
+  const driverRequestRef = db
+    .collection('driverRequests')
+    .doc(candidate.driverId)
+    .collection('requests')
+    .doc(tripId);
+
+  await db.runTransaction(async (transaction) => {
+    const tripDoc = await transaction.get(tripRef);
+    const tripData = tripDoc.data();
+    if (!tripData || !isStillRedispatchable(tripData, previousDriverId)) {
+      throw new TripNoLongerRedispatchableError();
+    }
+
+    const driverDoc = await transaction.get(driverDocRef);
+    const driverData = driverDoc.data();
+    if (!driverData || driverData.isOnline !== true || driverData.isAvailable !== true) {
+      throw new CandidateUnavailableError('Driver no longer available');
+    }
+
+    const evaluation = evaluateDriverCandidate(driverData, requirements, { requireLocation: false });
+    if (!evaluation.isMatch) {
+      throw new CandidateUnavailableError(`Driver no longer matches (${evaluation.reason})`);
+    }
+    if (!isPoolingStateCurrent(driverData, candidate.poolAnchorTripId)) {
+      throw new CandidateUnavailableError('Driver trip set changed (pooling)');
+    }
+
+    const offeredTrip = tripData as OfferedTripFields;
+    const requestId = sanitizeId(tripData.requestId);
+    const tripRequestRef = requestId ? db.collection('tripRequests').doc(requestId) : null;
+    const tripRequestDoc = tripRequestRef ? await transaction.get(tripRequestRef) : null;
+
+    const driverOfficeId = sanitizeId(driverData.officeId);
+    const driverLineId = sanitizeId(driverData.lineId);
+    const driverLineNumber = sanitizeId(driverData.lineNumber);
+    const driverRoutePath = sanitizeId(driverData.routePath) ?? sanitizeId(driverData.routeName);
+
+    transaction.update(tripRef, {
+      driverId: candidate.driverId,
+      dispatchAttempts: attempt,
+      lastRedispatchReason: reason,
+      lastRedispatchedAt: FieldValue.serverTimestamp(),
+      matchedVehicleType: evaluation.vehicleType,
+      matchedSeatCapacity: evaluation.seatCapacity,
+      matchedOfficeId: driverOfficeId,
+      matchedLineId: driverLineId,
+      matchedLineNumber: driverLineNumber,
+      matchedRoutePath: driverRoutePath,
+      poolAnchorTripId: candidate.poolAnchorTripId,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    const expiresAt = Timestamp.fromMillis(
+      Date.now() + PILOT_LIMITS.DRIVER_RESPONSE_TIMEOUT_SECONDS * 1000
+    );
+
+    transaction.set(driverRequestRef, {
+      tripId,
+      passengerId: offeredTrip.passengerId,
+      pickup: offeredTrip.pickup,
+      dropoff: offeredTrip.dropoff,
+      estimatedDistanceKm: offeredTrip.estimatedDistanceKm,
+      estimatedDurationMin: offeredTrip.estimatedDurationMin,
+      estimatedPriceIls: offeredTrip.estimatedPriceIls,
+      routeRoadblocks: offeredTrip.routeRoadblocks ?? [],
+      bookingType: requirements.bookingType,
+      requestedSeats: offeredTrip.requestedSeats ?? requirements.requiredSeats,
+      requiredSeats: requirements.requiredSeats,
+      destinationLabel: requirements.destinationLabel,
+      destinationCity: requirements.destinationCity,
+      requestedVehicleType: requirements.vehicleType,
+      requestedOfficeId: requirements.officeId,
+      requestedLineId: requirements.lineId,
+      driverOfficeId,
+      driverLineId,
+      driverLineNumber,
+      driverRoutePath,
+      driverVehicleType: evaluation.vehicleType,
+      driverSeatCapacity: evaluation.seatCapacity,
+      driverAvailableSeats: evaluation.availableSeats,
+      poolAnchorTripId: candidate.poolAnchorTripId,
+      dispatchAttempt: attempt,
+      status: 'pending',
+      createdAt: FieldValue.serverTimestamp(),
+      expiresAt,
+      timeoutSeconds: PILOT_LIMITS.DRIVER_RESPONSE_TIMEOUT_SECONDS,
+    });
+
+    // Same lock as createTripRequest: one pending offer per driver.
+    transaction.set(
+      driverDocRef,
+      {
+        isAvailable: false,
+        availability: 'busy',
+        ...(candidate.poolAnchorTripId ? {} : { currentTripId: tripId }),
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+
+    if (tripRequestRef && tripRequestDoc?.exists) {
+      transaction.update(tripRequestRef, {
+        matchedDriverId: candidate.driverId,
+        matchedVehicleType: evaluation.vehicleType,
+        matchedSeatCapacity: evaluation.seatCapacity,
+        matchedOfficeId: driverOfficeId,
+        matchedLineId: driverLineId,
+        matchedAt: FieldValue.serverTimestamp(),
+      });
+    }
+  });
+}
+
+/**
+ * Offer a trip to the next-ranked eligible driver, or end it cleanly.
+ * Never throws: failures are logged and the trip is closed as
+ * NO_DRIVER_AVAILABLE so the passenger is not left waiting.
+ */
+export async function redispatchTrip(input: RedispatchTripInput): Promise<RedispatchTripResult> {
+  const { tripId, previousDriverId, reason } = input;
+  const db = getFirestore();
+
+  try {
+    const tripDoc = await db.collection('trips').doc(tripId).get();
+    const tripData = tripDoc.data();
+    if (!tripData || !isStillRedispatchable(tripData, previousDriverId)) {
+      logger.info('[Redispatch] Trip no longer pending for this driver - skipping', {
+        tripId,
+        previousDriverId,
+        status: tripData?.status ?? null,
+      });
+      return { outcome: 'skipped' };
+    }
+
+    const { maxDispatchAttempts, maxDispatchRadiusKm } = await getSystemConfig();
+    const attemptsSoFar =
+      typeof tripData.dispatchAttempts === 'number' && Number.isFinite(tripData.dispatchAttempts)
+        ? Math.max(1, Math.round(tripData.dispatchAttempts))
+        : 1;
+
+    if (attemptsSoFar >= maxDispatchAttempts) {
+      logger.info('[Redispatch] Max dispatch attempts reached', {
+        tripId,
+        attemptsSoFar,
+        maxDispatchAttempts,
+      });
+      const finalized = await finalizeNoDriverAvailable(tripId, previousDriverId, 'max_attempts');
+      return finalized
+        ? { outcome: 'exhausted', exhaustedReason: 'max_attempts' }
+        : { outcome: 'skipped' };
+    }
+
+    const requirements = getRequirementsFromTrip(tripData);
+    const declinedDriverIds = new Set([
+      ...normalizeStringList(tripData.declinedDriverIds),
+      previousDriverId,
+    ]);
+
+    const pickup = tripData.pickup as LatLng;
+    const { candidates, driversQueried, skipped } = await findDriverCandidates({
+      pickup,
+      dropoff: (tripData.dropoff as LatLng | undefined) ?? null,
+      requirements,
+      excludeDriverIds: Array.from(declinedDriverIds),
+      maxRadiusKm: maxDispatchRadiusKm,
+      logTag: '[Redispatch]',
+    });
+
+    // Keep the strategy chosen at trip creation so every offer uses the same ordering
+    const matchingStrategy =
+      normalizeMatchingStrategy(tripData.matchingStrategy) ??
+      (await resolveMatchingStrategy({ officeId: requirements.officeId, lineId: requirements.lineId }))
+        .strategy;
+    const rankedCandidates = await rankCandidates({
+      candidates,
+      pickup,
+      strategy: matchingStrategy,
+      logTag: '[Redispatch]',
+    });
+
+    logger.info('[Redispatch] Candidates ranked', {
+      tripId,
+      reason,
+      driversQueried,
+      candidates: rankedCandidates.length,
+      skipped,
+      maxDispatchRadiusKm,
+      matchingStrategy,
+    });
+
+    const nextAttempt = attemptsSoFar + 1;
+    for (const candidate of rankedCandidates.slice(0, MAX_ASSIGNMENT_TRIES)) {
+      try {
+        await assignTripToCandidate(
+          tripId,
+          previousDriverId,
+          candidate,
+          requirements,
+          reason,
+          nextAttempt
+        );
+      } catch (error) {
+        if (error instanceof TripNoLongerRedispatchableError) {
+          logger.info('[Redispatch] Trip changed during assignment - skipping', { tripId });
+          return { outcome: 'skipped' };
+        }
+        if (error instanceof CandidateUnavailableError) {
+          logger.warn('[Redispatch] Candidate unavailable in transaction', {
+            tripId,
+            driverId: candidate.driverId,
+            reason: error.message,
+          });
+          continue;
+        }
+        throw error;
+      }
+
+      logger.tripEvent('TRIP_REDISPATCHED', tripId, {
+        previousDriverId,
+        driverId: candidate.driverId,
+        reason,
+        attempt: nextAttempt,
+        maxDispatchAttempts,
+        distanceKm: Math.round(candidate.distanceKm * 100) / 100,
+        poolAnchorTripId: candidate.poolAnchorTripId,
+      });
+
+      await publishTripStatusNotifications({
+        tripId,
+        status: TripStatus.PENDING,
+        recipients: [
+          {
+            userId: candidate.driverId,
+            role: 'driver',
+          },
+        ],
+        metadata: {
+          passengerId: String(tripData.passengerId || ''),
+        },
+      });
+
+      return { outcome: 'redispatched', driverId: candidate.driverId, attempt: nextAttempt };
+    }
+
+    const finalized = await finalizeNoDriverAvailable(tripId, previousDriverId, 'no_candidates');
+    return finalized
+      ? { outcome: 'exhausted', exhaustedReason: 'no_candidates' }
+      : { outcome: 'skipped' };
+  } catch (error) {
+    logger.error('[Redispatch] FAILED - closing trip', error, { tripId, previousDriverId, reason });
+    try {
+      await finalizeNoDriverAvailable(tripId, previousDriverId, 'no_candidates');
+    } catch (finalizeError) {
+      logger.error('[Redispatch] Failed to close trip after error', finalizeError, { tripId });
+    }
+    return { outcome: 'exhausted', exhaustedReason: 'no_candidates' };
+  }
+}
@@ -0,0 +1,610 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  BookingType,
+  FareBreakdown,
+  LatLng,
+  MatchingStrategy,
+  PILOT_LIMITS,
+  PaymentMethod,
+  RouteRoadblock,
+  TripRequestStatus,
+  TripStatus,
+  VehicleType,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { ConflictError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import {
+  DispatchRequirements,
+  DriverCandidate,
+  describeDriverSkipReason,
+  evaluateDriverCandidate,
+  findDriverCandidates,
+  isPoolingStateCurrent,
+  rankCandidates,
+  resolveMatchingStrategy,
+} from '../matching';
+import { publishTripStatusNotifications } from '../notifications';
+
+/**
+ * ============================================================================
+ * TRIP REQUEST DISPATCH - Match an open tripRequest to one driver
+ * ============================================================================
+ *
+ * Shared by createTripRequest (ride now) and promoteScheduledRides
+ * (advance bookings reaching their lead time):
+ * 1. Query nearby online + available drivers and filter by ride options
+ * 2. Rank candidates with the line/office matching strategy; seat-only
+ *    rides may be pooled onto a line taxi already on a matching route
+ * 3. TRANSACTION: create trip, offer it to the best driver, lock the
+ *    driver and mark the tripRequest MATCHED. A driver taken or changed
+ *    since ranking falls through to the next candidate, as in redispatchTrip.
+ *
+ * If nobody matches, the tripRequest is left untouched and the caller
+ * decides what "searching" means for its flow.
+ *
+ * ============================================================================
+ */
+
+/**
+ * Normalized ride options with office/line scope already resolved
+ */
+export interface TripRideRequirements {
+  bookingType: BookingType;
+  requestedSeats: number;
+  requiredSeats: number;
+  vehicleType: VehicleType | null;
+  officeId: string | null;
+  lineId: string | null;
+  destinationLabel: string | null;
+  destinationCity: string | null;
+}
+
+export interface MatchTripRequestInput {
+  requestId: string;
+  passengerId: string;
+  pickup: LatLng;
+  dropoff: LatLng;
+  estimate: {
+    distanceKm: number;
+    durationMin: number;
+  };
+  /** Server-calculated price */
+  priceIls: number;
+  pricingProfileId: string | null;
+  /** How priceIls was reached; copied onto the trip for receipts */
+  pricingBreakdown: FareBreakdown | null;
+  /** Roadblocks on the quoted route; shown to the driver with the offer */
+  routeRoadblocks: RouteRoadblock[];
+  rideOptions: TripRideRequirements;
+  paymentMethod: PaymentMethod;
+  /** Card/wallet hold taken at request time; null for cash */
+  paymentAuthorizationId: string | null;
+  /** Log prefix of the calling flow */
+  logTag: string;
+}
+
+export type MatchTripRequestResult =
+  | { status: 'matched'; tripId: string; driverId: string; distanceKm: number }
+  | { status: 'searching' };
+
+/**
+ * Driver document from drivers collection (availability)
+ */
+interface DriverDoc {
+  driverId: string;
+  isOnline: boolean;
+  isAvailable: boolean;
+  driverType?: string;
+  verificationStatus?: string;
+  officeId?: string | null;
+  lineId?: string;
+  licenseId?: string;
+  vehicleType?: string | null;
+  seatCapacity?: number | null;
+  availableSeats?: number | null;
+  fullTaxiReserved?: boolean;
+  fullTaxiReservedTripId?: string | null;
+  lineNumber?: string | null;
+  routePath?: string | null;
+  routeName?: string | null;
+  routeCities?: unknown;
+  fullName?: string | null;
+  phone?: string | null;
+  nationalId?: string | null;
+  photoUrl?: string | null;
+  rating?: number | null;
+  tripsCount?: number | null;
+  lastLocation: FirebaseFirestore.GeoPoint | null;
+  currentTripId: string | null;
+  updatedAt: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Trip document structure in Firestore
+ */
+interface TripDocument {
+  tripId: string;
+  requestId: string;
+  passengerId: string;
+  driverId: string;
+  status: string;
+  pickup: { lat: number; lng: number };
+  dropoff: { lat: number; lng: number };
+  estimatedDistanceKm: number;
+  estimatedDurationMin: number;
+  estimatedPriceIls: number;
+  pricingBreakdown: FareBreakdown | null;
+  routeRoadblocks: RouteRoadblock[];
+  bookingType: BookingType;
+  requestedSeats: number;
+  reservedSeats: number;
+  requiredSeats: number;
+  destinationLabel: string | null;
+  destinationCity: string | null;
+  requestedVehicleType: VehicleType | null;
+  requestedOfficeId: string | null;
+  requestedLineId: string | null;
+  matchedVehicleType: VehicleType | null;
+  matchedSeatCapacity: number;
+  matchedOfficeId: string | null;
+  matchedLineId: string | null;
+  matchedLineNumber: string | null;
+  matchedRoutePath: string | null;
+  // Re-dispatch bookkeeping
+  matchingStrategy: MatchingStrategy;
+  dispatchAttempts: number;
+  declinedDriverIds: string[];
+  /** Driver's first active trip when this ride is pooled onto it */
+  poolAnchorTripId: string | null;
+  // Payment fields
+  paymentMethod: PaymentMethod;
+  paymentAuthorizationId: string | null;
+  fareAmount: number;
+  paymentStatus: 'pending' | 'paid';
+  paidAt: null;
+  createdAt: FirebaseFirestore.FieldValue;
+}
+
+/**
+ * Driver request notification document
+ */
+interface DriverRequestDocument {
+  tripId: string;
+  passengerId: string;
+  pickup: { lat: number; lng: number };
+  dropoff: { lat: number; lng: number };
+  estimatedDistanceKm: number;
+  estimatedDurationMin: number;
+  estimatedPriceIls: number;
+  routeRoadblocks: RouteRoadblock[];
+  bookingType: BookingType;
+  requestedSeats: number;
+  requiredSeats: number;
+  destinationLabel: string | null;
+  destinationCity: string | null;
+  requestedVehicleType: VehicleType | null;
+  requestedOfficeId: string | null;
+  requestedLineId: string | null;
+  driverOfficeId: string | null;
+  driverLineId: string | null;
+  driverLineNumber: string | null;
+  driverRoutePath: string | null;
+  driverVehicleType: VehicleType | null;
+  driverSeatCapacity: number;
+  driverAvailableSeats: number;
+  poolAnchorTripId: string | null;
+  status: 'pending' | 'accepted' | 'rejected' | 'expired';
+  createdAt: FirebaseFirestore.FieldValue;
+  expiresAt: FirebaseFirestore.Timestamp; // Actual timestamp for timeout checking
+  timeoutSeconds: number; // For reference
+}
+
+/** How many ranked candidates to try before giving up on transaction races */
+const MAX_OFFER_TRIES = 3;
+
+class CandidateUnavailableError extends Error {}
+
+function sanitizeId(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Offer an open trip request to the best-ranked driver
+ */
+export async function matchTripRequestToDriver(
+  input: MatchTripRequestInput
+): Promise<MatchTripRequestResult> {
+  const {
+    requestId,
+    passengerId,
+    pickup,
+    dropoff,
+    estimate,
+    priceIls,
+    pricingProfileId,
+    pricingBreakdown,
+    routeRoadblocks,
+    rideOptions,
+    paymentMethod,
+    paymentAuthorizationId,
+    logTag,
+  } = input;
+  const requestedOfficeId = rideOptions.officeId;
+  const requestedLineId = rideOptions.lineId;
+  const db = getFirestore();
+  const tripRequestRef = db.collection('tripRequests').doc(requestId);
+
+  // ========================================
+  // 1. Query nearby drivers where isOnline=true AND isAvailable=true
+  //    and compute distance using Haversine formula
+  // ========================================
+  logger.info(`🔍 ${logTag} Querying available drivers...`);
+
+  const dispatchRequirements: DispatchRequirements = {
+    bookingType: rideOptions.bookingType,
+    requiredSeats: rideOptions.requiredSeats,
+    vehicleType: rideOptions.vehicleType,
+    officeId: requestedOfficeId,
+    lineId: requestedLineId,
+    destinationLabel: rideOptions.destinationLabel,
+    destinationCity: rideOptions.destinationCity,
+  };
+
+  const { candidates, driversQueried, skipped } = await findDriverCandidates({
+    pickup,
+    dropoff,
+    requirements: dispatchRequirements,
+    logTag,
+  });
+
+  if (driversQueried === 0) {
+    logger.warn(`🚫 ${logTag} No available drivers - keeping request open`);
+    logger.dispatchFailed(requestId, 'No available drivers', {
+      passengerId,
+      requestedOfficeId,
+      requestedLineId,
+      rideOptions: rideOptions,
+    });
+    
+    // Return with searching status - passenger can wait for drivers
+    return { status: 'searching' };
+  }
+
+  logger.info(`🚗 ${logTag} Found ${driversQueried} available driver(s)`);
+
+  const skippedIneligibleDrivers = skipped.ineligible;
+  const skippedVehicleTypeDrivers = skipped.vehicle_type;
+  const skippedCapacityDrivers = skipped.capacity;
+  const skippedScopeDrivers = skipped.scope + skipped.route;
+  const skippedPoolingDrivers = skipped.pooling;
+
+  if (skippedIneligibleDrivers > 0) {
+    logger.info(`🚫 ${logTag} Skipped ineligible drivers`, {
+      skippedIneligibleDrivers,
+    });
+  }
+
+  // ========================================
+  // 2. Rank candidates and select the best driver
+  // ========================================
+  if (
+    skippedVehicleTypeDrivers > 0 ||
+    skippedCapacityDrivers > 0 ||
+    skippedScopeDrivers > 0 ||
+    skippedPoolingDrivers > 0
+  ) {
+    logger.info(`${logTag} Skipped drivers by ride options`, {
+      skippedVehicleTypeDrivers,
+      skippedCapacityDrivers,
+      skippedScopeDrivers,
+      skippedPoolingDrivers,
+      rideOptions: rideOptions,
+    });
+  }
+
+  if (candidates.length === 0) {
+    logger.dispatchFailed(requestId, 'No eligible drivers with location data', {
+      passengerId,
+      driversQueried,
+      skippedIneligibleDrivers,
+      skippedVehicleTypeDrivers,
+      skippedCapacityDrivers,
+      skippedScopeDrivers,
+      skippedPoolingDrivers,
+      rideOptions: rideOptions,
+      requestedOfficeId,
+      requestedLineId,
+    });
+    
+    // Return with searching status - passenger can wait for drivers
+    return { status: 'searching' };
+  }
+
+  const matching = await resolveMatchingStrategy({
+    officeId: requestedOfficeId,
+    lineId: requestedLineId,
+  });
+  const rankedCandidates = await rankCandidates({
+    candidates,
+    pickup,
+    strategy: matching.strategy,
+    logTag,
+  });
+
+  // ========================================
+  // 3. TRANSACTION: Create trip & assign driver atomically
+  // ========================================
+  const tripRef = db.collection('trips').doc();
+  const tripId = tripRef.id;
+  let selectedDriver: DriverCandidate | null = null;
+  let matchedVehicleType: VehicleType | null = null;
+  let matchedSeatCapacity = 0;
+  let matchedOfficeId: string | null = null;
+  let matchedLineId: string | null = null;
+
+  const offerTripRequestToCandidate = async (candidate: DriverCandidate): Promise<void> => {
+    const driverDocRef = db.collection('drivers').doc(candidate.driverId);
+    const driverRequestRef = db
+      .collection('driverRequests')
+      .doc(candidate.driverId)
+      .collection('requests')
+      .doc(tripId);
+
+    await db.runTransaction(async (transaction) => {
+      // The passenger may have cancelled while drivers were being ranked
+      const tripRequestDoc = await transaction.get(tripRequestRef);
+      const tripRequestStatus = tripRequestDoc.data()?.status as unknown;
+      if (
+        tripRequestStatus !== TripRequestStatus.OPEN &&
+        tripRequestStatus !== TripRequestStatus.SCHEDULED
+      ) {
+        throw new ConflictError('Trip request is no longer waiting for a driver');
+      }
+
+      // Re-verify driver is still available (prevent race condition)
+      const driverDoc = await transaction.get(driverDocRef);
+      if (!driverDoc.exists) {
+        throw new CandidateUnavailableError('Driver not found');
+      }
+
+      const driverData = driverDoc.data() as DriverDoc;
+      if (!driverData.isOnline || !driverData.isAvailable) {
+        logger.warn(`🚫 ${logTag} Driver no longer available in transaction`, {
+          driverId: candidate.driverId,
+          isOnline: driverData.isOnline,
+          isAvailable: driverData.isAvailable,
+        });
+        throw new CandidateUnavailableError('Driver no longer available');
+      }
+
+      const evaluation = evaluateDriverCandidate(driverData, dispatchRequirements, {
+        requireLocation: false,
+      });
+      if (!evaluation.isMatch) {
+        logger.warn(`🚫 ${logTag} Driver no longer matches ride in transaction`, {
+          driverId: candidate.driverId,
+          reason: evaluation.reason,
+          ...evaluation.details,
+        });
+        throw new CandidateUnavailableError(describeDriverSkipReason(evaluation.reason));
+      }
+
+      // A pooled driver must still be on the same anchor trip (and an idle one still idle)
+      if (!isPoolingStateCurrent(driverData, candidate.poolAnchorTripId)) {
+        logger.warn(`🚫 ${logTag} Driver trip set changed in transaction`, {
+          driverId: candidate.driverId,
+          poolAnchorTripId: candidate.poolAnchorTripId,
+        });
+        throw new CandidateUnavailableError(describeDriverSkipReason('pooling'));
+      }
+
+      const transactionDriverOfficeId = sanitizeId(driverData.officeId);
+      const transactionDriverLineId = sanitizeId(driverData.lineId);
+      const transactionDriverVehicleType = evaluation.vehicleType;
+      const transactionDriverSeatCapacity = evaluation.seatCapacity;
+      const transactionDriverAvailableSeats = evaluation.availableSeats;
+
+      matchedVehicleType = transactionDriverVehicleType;
+      matchedSeatCapacity = transactionDriverSeatCapacity;
+      matchedOfficeId = transactionDriverOfficeId;
+      matchedLineId = transactionDriverLineId;
+
+      // Create trip document
+      const tripDoc: TripDocument = {
+        tripId,
+        requestId,
+        passengerId,
+        driverId: candidate.driverId,
+        status: TripStatus.PENDING,
+        pickup: { lat: pickup.lat, lng: pickup.lng },
+        dropoff: { lat: dropoff.lat, lng: dropoff.lng },
+        estimatedDistanceKm: estimate.distanceKm,
+        estimatedDurationMin: estimate.durationMin,
+        estimatedPriceIls: priceIls,
+        pricingBreakdown,
+        routeRoadblocks,
+        bookingType: rideOptions.bookingType,
+        requestedSeats: rideOptions.requestedSeats,
+        reservedSeats: 0,
+        requiredSeats: rideOptions.requiredSeats,
+        destinationLabel: rideOptions.destinationLabel,
+        destinationCity: rideOptions.destinationCity,
+        requestedVehicleType: rideOptions.vehicleType,
+        requestedOfficeId,
+        requestedLineId,
+        matchedVehicleType: transactionDriverVehicleType,
+        matchedSeatCapacity: transactionDriverSeatCapacity,
+        matchedOfficeId: transactionDriverOfficeId,
+        matchedLineId: transactionDriverLineId,
+        matchedLineNumber: sanitizeId(driverData.lineNumber),
+        matchedRoutePath: sanitizeId(driverData.routePath) ?? sanitizeId(driverData.routeName),
+        matchingStrategy: matching.strategy,
+        dispatchAttempts: 1,
+        declinedDriverIds: [],
+        poolAnchorTripId: candidate.poolAnchorTripId,
+        paymentMethod,
+        paymentAuthorizationId,
+        fareAmount: priceIls,
+        paymentStatus: 'pending',
+        paidAt: null,
+        createdAt: FieldValue.serverTimestamp(),
+      };
+      transaction.set(tripRef, tripDoc);
+
+      // Create driver request notification
+      const expiresAt = Timestamp.fromMillis(
+        Date.now() + PILOT_LIMITS.DRIVER_RESPONSE_TIMEOUT_SECONDS * 1000
+      );
+
+      const driverRequestDoc: DriverRequestDocument = {
+        tripId,
+        passengerId,
+        pickup: { lat: pickup.lat, lng: pickup.lng },
+        dropoff: { lat: dropoff.lat, lng: dropoff.lng },
+        estimatedDistanceKm: estimate.distanceKm,
+        estimatedDurationMin: estimate.durationMin,
+        estimatedPriceIls: priceIls,
+        routeRoadblocks,
+        bookingType: rideOptions.bookingType,
+        requestedSeats: rideOptions.requestedSeats,
+        requiredSeats: rideOptions.requiredSeats,
+        destinationLabel: rideOptions.destinationLabel,
+        destinationCity: rideOptions.destinationCity,
+        requestedVehicleType: rideOptions.vehicleType,
+        requestedOfficeId,
+        requestedLineId,
+        driverOfficeId: transactionDriverOfficeId,
+        driverLineId: transactionDriverLineId,
+        driverLineNumber: sanitizeId(driverData.lineNumber),
+        driverRoutePath: sanitizeId(driverData.routePath) ?? sanitizeId(driverData.routeName),
+        driverVehicleType: transactionDriverVehicleType,
+        driverSeatCapacity: transactionDriverSeatCapacity,
+        driverAvailableSeats: transactionDriverAvailableSeats,
+        poolAnchorTripId: candidate.poolAnchorTripId,
+        status: 'pending',
+        createdAt: FieldValue.serverTimestamp(),
+        expiresAt,
+        timeoutSeconds: PILOT_LIMITS.DRIVER_RESPONSE_TIMEOUT_SECONDS,
+      };
+      transaction.set(driverRequestRef, driverRequestDoc);
+
+      // Lock driver availability while this request is pending to avoid
+      // dispatching concurrent requests to the same driver. A pooled driver
+      // keeps currentTripId on the trip already in progress.
+      transaction.set(
+        driverDocRef,
+        {
+          isAvailable: false,
+          availability: 'busy',
+          ...(candidate.poolAnchorTripId ? {} : { currentTripId: tripId }),
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+
+      // Update tripRequest to MATCHED
+      transaction.update(tripRequestRef, {
+        status: TripRequestStatus.MATCHED,
+        matchedDriverId: candidate.driverId,
+        matchedTripId: tripId,
+        matchedVehicleType: transactionDriverVehicleType,
+        matchedSeatCapacity: transactionDriverSeatCapacity,
+        matchedOfficeId: transactionDriverOfficeId,
+        matchedLineId: transactionDriverLineId,
+        requestedSeats: rideOptions.requestedSeats,
+        bookingType: rideOptions.bookingType,
+        matchedAt: FieldValue.serverTimestamp(),
+      });
+    });
+  };
+
+  for (const candidate of rankedCandidates.slice(0, MAX_OFFER_TRIES)) {
+    logger.info(`✅ ${logTag} Selected driver: ${candidate.driverId}`, {
+      distance: `${candidate.distanceKm.toFixed(2)} km`,
+      matchingStrategy: matching.strategy,
+      matchingStrategySource: matching.source,
+      totalCandidates: candidates.length,
+      poolAnchorTripId: candidate.poolAnchorTripId,
+    });
+
+    try {
+      await offerTripRequestToCandidate(candidate);
+    } catch (error) {
+      if (error instanceof CandidateUnavailableError) {
+        logger.warn(`🚫 ${logTag} Candidate unavailable in transaction`, {
+          requestId,
+          driverId: candidate.driverId,
+          reason: error.message,
+        });
+        continue;
+      }
+      throw error;
+    }
+
+    selectedDriver = candidate;
+    break;
+  }
+
+  if (!selectedDriver) {
+    logger.dispatchFailed(requestId, 'Ranked drivers became unavailable', {
+      passengerId,
+      triedCandidates: Math.min(rankedCandidates.length, MAX_OFFER_TRIES),
+      rideOptions: rideOptions,
+    });
+
+    // Return with searching status - passenger can wait for drivers
+    return { status: 'searching' };
+  }
+
+  logger.info(`📝 ${logTag} Trip created: ${tripId}`);
+  logger.info(`🚗 ${logTag} Driver isAvailable → false`);
+  logger.info(`📨 ${logTag} Request sent to driver: ${selectedDriver.driverId}`);
+
+  await publishTripStatusNotifications({
+    tripId,
+    status: TripStatus.PENDING,
+    recipients: [
+      {
+        userId: selectedDriver.driverId,
+        role: 'driver',
+      },
+    ],
+    metadata: {
+      passengerId,
+    },
+  });
+  
+  // Log trip lifecycle event
+  logger.tripEvent('TRIP_CREATED', tripId, {
+    passengerId,
+    driverId: selectedDriver.driverId,
+    estimatedPriceIls: priceIls,
+    distanceKm: estimate.distanceKm,
+    requiredSeats: rideOptions.requiredSeats,
+    requestedSeats: rideOptions.requestedSeats,
+    bookingType: rideOptions.bookingType,
+    requestedVehicleType: rideOptions.vehicleType,
+    destinationLabel: rideOptions.destinationLabel,
+    destinationCity: rideOptions.destinationCity,
+    requestedOfficeId,
+    requestedLineId,
+    matchedVehicleType,
+    matchedSeatCapacity,
+    matchedOfficeId,
+    matchedLineId,
+    poolAnchorTripId: selectedDriver.poolAnchorTripId,
+    pricingProfileId: pricingProfileId,
+  });
+
+  return {
+    status: 'matched',
+    tripId,
+    driverId: selectedDriver.driverId,
+    distanceKm: selectedDriver.distanceKm,
+  };
+}
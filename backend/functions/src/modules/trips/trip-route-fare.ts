@@ -0,0 +1,158 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  FARE_ADJUSTMENT_REASONS,
+  FareAdjustment,
+  FareBreakdown,
+  LatLng,
+  PROMO_DISCOUNT_TYPES,
+  ROUTE_FARE_CONFIG,
+  normalizeRouteFarePolicy,
+  normalizeVehicleType,
+  settleRouteFare,
+  toFareBreakdown,
+} from '@taxi-line/shared';
+import { logger } from '../../core/logger';
+import { calculateDynamicRidePrice, getRouteFarePolicy } from '../pricing/services';
+import { getTripRouteTrailSummary } from './trip-route-trail';
+
+/**
+ * ============================================================================
+ * TRIP ROUTE FARE - Final fare settled at completion
+ * ============================================================================
+ *
+ * Recomputes the fare from the recorded route trail (distance) and
+ * startedAt → completion (duration), pinned to the pricing profile version
+ * and booking time of the original quote. Any promo discount is kept at the
+ * amount that was quoted. The result is settled against the estimate with
+ * the profile's tolerance band and deviation cap (see route-fare in
+ * @taxi-line/shared).
+ *
+ * ============================================================================
+ */
+
+export interface TripRouteFareResult {
+  finalPriceIls: number;
+  finalPricingBreakdown: FareBreakdown | null;
+  fareAdjustment: FareAdjustment;
+}
+
+function sanitizeId(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function toLatLng(value: unknown): LatLng | undefined {
+  const point = value as Partial<LatLng> | null | undefined;
+  if (typeof point?.lat !== 'number' || typeof point?.lng !== 'number') return undefined;
+  return { lat: point.lat, lng: point.lng };
+}
+
+export async function settleTripRouteFare(
+  tripId: string,
+  tripData: FirebaseFirestore.DocumentData,
+  completedAt: Date
+): Promise<TripRouteFareResult> {
+  const estimatedPriceIls = Number(tripData.estimatedPriceIls) || 0;
+  const quotedBreakdown = toFareBreakdown(tripData.pricingBreakdown);
+  const trail = await getTripRouteTrailSummary(tripId);
+  const startedAt = tripData.startedAt instanceof Timestamp ? tripData.startedAt.toDate() : null;
+  const actualDurationMin = startedAt
+    ? Math.max(0, Math.round(((completedAt.getTime() - startedAt.getTime()) / 60_000) * 10) / 10)
+    : null;
+  const actualDistanceKm = Math.round(trail.distanceKm * 100) / 100;
+  const quotedAt = tripData.createdAt instanceof Timestamp ? tripData.createdAt.toDate() : completedAt;
+
+  const policy = quotedBreakdown
+    ? await getRouteFarePolicy(quotedBreakdown.profileId, quotedAt, quotedBreakdown.profileVersion)
+    : normalizeRouteFarePolicy({});
+  const baseAdjustment = {
+    estimatedPriceIls,
+    toleranceBandPct: policy.toleranceBandPct,
+    maxDeviationPct: policy.maxDeviationPct,
+    actualDurationMin,
+    trailPointCount: trail.pointCount,
+  };
+
+  // Trips quoted before breakdowns were stored, or with too little trail
+  if (!quotedBreakdown || trail.pointCount < ROUTE_FARE_CONFIG.MIN_TRAIL_POINTS || actualDistanceKm <= 0) {
+    return {
+      finalPriceIls: estimatedPriceIls,
+      finalPricingBreakdown: quotedBreakdown,
+      fareAdjustment: {
+        ...baseAdjustment,
+        reason: FARE_ADJUSTMENT_REASONS.NO_TRAIL,
+        recomputedPriceIls: null,
+        finalPriceIls: estimatedPriceIls,
+        deviationPct: null,
+        actualDistanceKm: trail.pointCount > 0 ? actualDistanceKm : null,
+      },
+    };
+  }
+
+  const requestedOfficeId = sanitizeId(tripData.requestedOfficeId);
+  const requestedLineId = sanitizeId(tripData.requestedLineId);
+  const pickup = toLatLng(tripData.pickup);
+  const dropoff = toLatLng(tripData.dropoff);
+  const recomputed = await calculateDynamicRidePrice({
+    distanceKm: actualDistanceKm,
+    durationMin: actualDurationMin ?? 0,
+    ...(pickup ? { pickup } : {}),
+    ...(dropoff ? { dropoff } : {}),
+    rideOptions: {
+      requiredSeats: typeof tripData.requiredSeats === 'number' ? tripData.requiredSeats : 1,
+      vehicleType: normalizeVehicleType(tripData.requestedVehicleType),
+      officeId: requestedOfficeId,
+      lineId: requestedLineId,
+    },
+    officeId: requestedOfficeId,
+    lineId: requestedLineId,
+    now: quotedAt,
+    profileId: quotedBreakdown.profileId,
+    profileVersion: quotedBreakdown.profileVersion,
+    promo:
+      quotedBreakdown.discountIls > 0 && quotedBreakdown.promoRedemptionId && quotedBreakdown.promoCode
+        ? {
+            redemptionId: quotedBreakdown.promoRedemptionId,
+            code: quotedBreakdown.promoCode,
+            discountType: PROMO_DISCOUNT_TYPES.FIXED,
+            discountValue: quotedBreakdown.discountIls,
+            maxDiscountIls: null,
+          }
+        : null,
+  });
+
+  const settled = settleRouteFare(estimatedPriceIls, recomputed.priceIls, policy);
+  const finalPricingBreakdown =
+    settled.reason === FARE_ADJUSTMENT_REASONS.WITHIN_TOLERANCE
+      ? quotedBreakdown
+      : {
+          ...recomputed.breakdown,
+          fareCapAdjustmentIls: settled.finalPriceIls - recomputed.priceIls,
+        };
+
+  if (settled.reason !== FARE_ADJUSTMENT_REASONS.WITHIN_TOLERANCE) {
+    logger.info('[RouteFare] Final fare adjusted from driven route', {
+      tripId,
+      reason: settled.reason,
+      estimatedPriceIls,
+      recomputedPriceIls: recomputed.priceIls,
+      finalPriceIls: settled.finalPriceIls,
+      actualDistanceKm,
+      actualDurationMin,
+    });
+  }
+
+  return {
+    finalPriceIls: settled.finalPriceIls,
+    finalPricingBreakdown,
+    fareAdjustment: {
+      ...baseAdjustment,
+      reason: settled.reason,
+      recomputedPriceIls: recomputed.priceIls,
+      finalPriceIls: settled.finalPriceIls,
+      deviationPct: settled.deviationPct,
+      actualDistanceKm,
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { LatLng, ROUTE_FARE_CONFIG, TripStatus } from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { haversineDistanceKm } from '../matching';
+
+/**
+ * ============================================================================
+ * TRIP ROUTE TRAIL - Driver location while a trip is in progress
+ * ============================================================================
+ *
+ * trips/{tripId}/routeTrail/{pointId}: { lat, lng, speed, recordedAt }
+ * trips/{tripId}/routeTrail/_summary: running summary (TripRouteTrailSummary)
+ *
+ * Points are appended by recordTripRouteTrail from driverLive updates.
+ * The summary keeps the driven distance so completeTrip can recompute the
+ * fare without reading every point. It lives beside the points rather than
+ * on the trip so location pings neither fire trip triggers nor contend
+ * with status transactions. GPS jitter (tiny moves) and jumps (implausible
+ * speeds) are not counted.
+ *
+ * ============================================================================
+ */
+
+export interface TripRouteTrailSummary {
+  pointCount: number;
+  distanceKm: number;
+  lastPoint: LatLng | null;
+  lastRecordedAtMs: number | null;
+}
+
+export interface TripRouteTrailPoint {
+  lat: number;
+  lng: number;
+  speed: number | null;
+  recordedAtMs: number;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function toTripRouteTrailSummary(value: unknown): TripRouteTrailSummary {
+  const data = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const lastPoint = data.lastPoint as Partial<LatLng> | null | undefined;
+  return {
+    pointCount: isNumber(data.pointCount) ? Math.max(0, Math.round(data.pointCount)) : 0,
+    distanceKm: isNumber(data.distanceKm) ? Math.max(0, data.distanceKm) : 0,
+    lastPoint:
+      lastPoint && isNumber(lastPoint.lat) && isNumber(lastPoint.lng)
+        ? { lat: lastPoint.lat, lng: lastPoint.lng }
+        : null,
+    lastRecordedAtMs: isNumber(data.lastRecordedAtMs) ? data.lastRecordedAtMs : null,
+  };
+}
+
+/** Doc id of the running summary in trips/{tripId}/routeTrail */
+const SUMMARY_DOC_ID = '_summary';
+
+function routeTrailSummaryRef(tripId: string): FirebaseFirestore.DocumentReference {
+  return getFirestore().collection('trips').doc(tripId).collection('routeTrail').doc(SUMMARY_DOC_ID);
+}
+
+export async function getTripRouteTrailSummary(tripId: string): Promise<TripRouteTrailSummary> {
+  return toTripRouteTrailSummary((await routeTrailSummaryRef(tripId).get()).data());
+}
+
+/**
+ * Append a point to an in-progress trip. Returns false when the point was
+ * skipped (trip not in progress, out of order, jitter or GPS jump).
+ */
+export async function appendTripRouteTrailPoint(
+  tripId: string,
+  driverId: string,
+  point: TripRouteTrailPoint
+): Promise<boolean> {
+  const db = getFirestore();
+  const tripRef = db.collection('trips').doc(tripId);
+  const summaryRef = routeTrailSummaryRef(tripId);
+
+  // Read outside the transaction so pings do not lock the trip doc
+  const tripData = (await tripRef.get()).data();
+  if (!tripData || tripData.driverId !== driverId || tripData.status !== TripStatus.IN_PROGRESS) {
+    return false;
+  }
+
+  const startedAtMs =
+    tripData.startedAt instanceof Timestamp ? tripData.startedAt.toMillis() : null;
+  if (startedAtMs != null && point.recordedAtMs < startedAtMs) {
+    return false;
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const summary = toTripRouteTrailSummary((await transaction.get(summaryRef)).data());
+    let segmentKm = 0;
+
+    if (summary.lastPoint && summary.lastRecordedAtMs != null) {
+      if (point.recordedAtMs <= summary.lastRecordedAtMs) {
+        return false;
+      }
+
+      segmentKm = haversineDistanceKm(
+        summary.lastPoint.lat,
+        summary.lastPoint.lng,
+        point.lat,
+        point.lng
+      );
+      if (segmentKm * 1000 < ROUTE_FARE_CONFIG.TRAIL_MIN_SEGMENT_METERS) {
+        return false;
+      }
+
+      const elapsedHours = (point.recordedAtMs - summary.lastRecordedAtMs) / 3_600_000;
+      if (segmentKm / elapsedHours > ROUTE_FARE_CONFIG.TRAIL_MAX_SPEED_KMH) {
+        return false;
+      }
+    }
+
+    transaction.set(tripRef.collection('routeTrail').doc(), {
+      lat: point.lat,
+      lng: point.lng,
+      speed: point.speed,
+      recordedAt: Timestamp.fromMillis(point.recordedAtMs),
+    });
+    transaction.set(summaryRef, {
+      pointCount: summary.pointCount + 1,
+      distanceKm: Math.round((summary.distanceKm + segmentKm) * 1000) / 1000,
+      lastPoint: { lat: point.lat, lng: point.lng },
+      lastRecordedAtMs: point.recordedAtMs,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
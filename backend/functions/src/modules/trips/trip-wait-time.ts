@@ -0,0 +1,35 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { WaitTimePolicy, computeWaitChargeIls, normalizeWaitTimePolicy } from '@taxi-line/shared';
+
+export interface TripWaitCharge {
+  waitTimeSeconds: number;
+  waitChargeIls: number;
+}
+
+/**
+ * Pickup wait of a DRIVER_ARRIVED trip up to now, charged with the policy
+ * copied onto the trip at driverArrived. Trips that arrived before the
+ * policy was copied use fallbackPolicy.
+ */
+export function getTripWaitCharge(
+  trip: Record<string, unknown>,
+  fallbackPolicy: WaitTimePolicy,
+  nowMs: number = Date.now()
+): TripWaitCharge {
+  const arrivedAtMs = trip.arrivedAt instanceof Timestamp ? trip.arrivedAt.toMillis() : null;
+  if (arrivedAtMs === null) {
+    return { waitTimeSeconds: 0, waitChargeIls: 0 };
+  }
+
+  const policy = trip.waitTimePolicy ? normalizeWaitTimePolicy(trip.waitTimePolicy) : fallbackPolicy;
+  const waitTimeSeconds = Math.max(0, Math.floor((nowMs - arrivedAtMs) / 1000));
+  return { waitTimeSeconds, waitChargeIls: computeWaitChargeIls(policy, waitTimeSeconds) };
+}
+
+/**
+ * Seconds after arrivedAt from which the driver may mark a no-show
+ */
+export function getTripNoShowWaitSeconds(trip: Record<string, unknown>, fallbackSeconds: number): number {
+  const value = trip.noShowWaitSeconds;
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallbackSeconds;
+}
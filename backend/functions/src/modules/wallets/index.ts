@@ -0,0 +1,16 @@
+// Wallets module - passenger prepaid wallet, top-ups, trip debits, refunds and cancellation fees
+export {
+  chargeWalletCancellationFee,
+  debitWalletForTrip,
+  getAvailableWalletBalanceIls,
+  refundTripFare,
+  releaseWalletFunds,
+  reserveWalletFunds,
+  topUpWallet,
+} from './wallet-ledger';
+export type {
+  RefundTripFareResult,
+  WalletCancellationFeeResult,
+  WalletTransactionResult,
+  WalletTripDebitResult,
+} from './wallet-ledger';
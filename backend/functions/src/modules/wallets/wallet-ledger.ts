@@ -0,0 +1,523 @@
+import { DocumentReference, FieldValue, Transaction } from 'firebase-admin/firestore';
+import { getAuth } from 'firebase-admin/auth';
+import {
+  CancellationFeeReason,
+  FARE_COLLECTORS,
+  PaymentStatus,
+  WALLET_RULES,
+  WalletTransactionType,
+  getRefundableIls,
+  roundIls,
+  walletCancellationFeeId,
+  walletTripDebitId,
+} from '@taxi-line/shared';
+import { getFirestore } from '../../core/config';
+import { ConflictError, NotFoundError, ValidationError } from '../../core/errors';
+import { logger } from '../../core/logger';
+import { bookRefundSettlement } from '../settlements';
+
+export interface WalletTransactionResult {
+  transactionId: string;
+  balanceAfterIls: number;
+}
+
+export interface WalletTripDebitResult {
+  status: 'captured' | 'failed';
+  amountIls: number;
+  transactionId: string | null;
+}
+
+export interface WalletCancellationFeeResult {
+  transactionId: string | null;
+  collectedIls: number;
+  /** Part of the fee the available balance did not cover */
+  owedIls: number;
+  balanceAfterIls: number;
+}
+
+export interface RefundTripFareResult extends WalletTransactionResult {
+  passengerId: string;
+  amountIls: number;
+  refundedTotalIls: number;
+  fullyRefunded: boolean;
+}
+
+interface WalletTransactionEntry {
+  passengerId: string;
+  type: WalletTransactionType;
+  /** Positive credits the wallet, negative debits it */
+  amountIls: number;
+  tripId: string | null;
+  paymentId: string | null;
+  officeId: string | null;
+  note: string | null;
+  createdBy: string;
+}
+
+function idOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function numberOrZero(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function walletRef(passengerId: string): DocumentReference {
+  return getFirestore().collection('wallets').doc(passengerId);
+}
+
+type WalletSnapshot = { ref: DocumentReference; exists: boolean; data: Record<string, unknown> };
+
+/** Balance less the funds reserved for wallet rides in progress */
+function availableIls(wallet: Record<string, unknown>): number {
+  return roundIls(numberOrZero(wallet.balanceIls) - numberOrZero(wallet.reservedIls));
+}
+
+/**
+ * Append a transaction and move the balance, optionally setting the
+ * reserved amount too. All transaction reads must happen before this is
+ * called.
+ */
+function writeWalletTransaction(
+  transaction: Transaction,
+  wallet: WalletSnapshot,
+  transactionRef: DocumentReference,
+  entry: WalletTransactionEntry,
+  reservedIls?: number
+): number {
+  const balanceAfterIls = roundIls(numberOrZero(wallet.data.balanceIls) + entry.amountIls);
+
+  transaction.create(transactionRef, {
+    transactionId: transactionRef.id,
+    ...entry,
+    balanceAfterIls,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  transaction.set(
+    wallet.ref,
+    {
+      passengerId: entry.passengerId,
+      balanceIls: balanceAfterIls,
+      ...(reservedIls !== undefined ? { reservedIls } : {}),
+      currency: 'ILS',
+      lastTransactionAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+      ...(wallet.exists ? {} : { createdAt: FieldValue.serverTimestamp() }),
+    },
+    { merge: true }
+  );
+  return balanceAfterIls;
+}
+
+async function readWallet(transaction: Transaction, passengerId: string): Promise<WalletSnapshot> {
+  const ref = walletRef(passengerId);
+  const doc = await transaction.get(ref);
+  return { ref, exists: doc.exists, data: (doc.data() ?? {}) as Record<string, unknown> };
+}
+
+function writeReservedIls(transaction: Transaction, wallet: WalletSnapshot, reservedIls: number): void {
+  transaction.set(
+    wallet.ref,
+    { reservedIls: roundIls(Math.max(0, reservedIls)), updatedAt: FieldValue.serverTimestamp() },
+    { merge: true }
+  );
+}
+
+/**
+ * Spendable balance: the balance less funds reserved for wallet rides in
+ * progress; 0 for a passenger without a wallet
+ */
+export async function getAvailableWalletBalanceIls(passengerId: string): Promise<number> {
+  return availableIls((await walletRef(passengerId).get()).data() ?? {});
+}
+
+/**
+ * Reserve a wallet ride's quoted fare at authorization so other rides
+ * cannot spend it. Returns false when the available balance is short.
+ * Call before any write of the surrounding transaction.
+ */
+export async function reserveWalletFunds(
+  transaction: Transaction,
+  passengerId: string,
+  amountIls: number
+): Promise<boolean> {
+  const wallet = await readWallet(transaction, passengerId);
+  if (availableIls(wallet.data) < amountIls) {
+    return false;
+  }
+  writeReservedIls(transaction, wallet, numberOrZero(wallet.data.reservedIls) + amountIls);
+  return true;
+}
+
+/**
+ * Release a reservation made by reserveWalletFunds. Call before any write of
+ * the surrounding transaction.
+ */
+export async function releaseWalletFunds(
+  transaction: Transaction,
+  passengerId: string,
+  amountIls: number
+): Promise<void> {
+  const wallet = await readWallet(transaction, passengerId);
+  if (wallet.exists) {
+    writeReservedIls(transaction, wallet, numberOrZero(wallet.data.reservedIls) - amountIls);
+  }
+}
+
+/**
+ * Credit cash a passenger paid at an office desk
+ */
+export async function topUpWallet(input: {
+  passengerId: string;
+  amountIls: number;
+  officeId: string | null;
+  note: string | null;
+  managerId: string;
+}): Promise<WalletTransactionResult> {
+  try {
+    await getAuth().getUser(input.passengerId);
+  } catch {
+    throw new NotFoundError('Passenger', input.passengerId);
+  }
+
+  const amountIls = roundIls(input.amountIls);
+  if (amountIls <= 0) {
+    throw new ValidationError('Top-up amount must be positive');
+  }
+
+  const db = getFirestore();
+  const transactionRef = db.collection('walletTransactions').doc();
+
+  const balanceAfterIls = await db.runTransaction(async (transaction) => {
+    const wallet = await readWallet(transaction, input.passengerId);
+    if (numberOrZero(wallet.data.balanceIls) + amountIls > WALLET_RULES.MAX_BALANCE_ILS) {
+      throw new ValidationError(`Wallet balance cannot exceed ${WALLET_RULES.MAX_BALANCE_ILS} ILS`);
+    }
+
+    return writeWalletTransaction(transaction, wallet, transactionRef, {
+      passengerId: input.passengerId,
+      type: 'top_up',
+      amountIls,
+      tripId: null,
+      paymentId: null,
+      officeId: input.officeId,
+      note: input.note,
+      createdBy: input.managerId,
+    });
+  });
+
+  logger.info('[Wallet] Top-up recorded', {
+    passengerId: input.passengerId,
+    officeId: input.officeId,
+    amountIls,
+    balanceAfterIls,
+    managerId: input.managerId,
+  });
+  return { transactionId: transactionRef.id, balanceAfterIls };
+}
+
+/**
+ * Debit the final fare of a completed wallet trip, consuming the funds
+ * reserved at authorization. The wallet, the authorization, the payment and
+ * the trip payment status change in one transaction; without enough balance
+ * the reservation is released, the payment fails and the driver collects
+ * cash. Idempotent per trip, so completeTrip and the retry in
+ * captureWalletPaymentOnComplete can both call it.
+ */
+export async function debitWalletForTrip(tripId: string, authorizationId: string): Promise<WalletTripDebitResult> {
+  const db = getFirestore();
+  const tripRef = db.collection('trips').doc(tripId);
+  const authorizationRef = db.collection('paymentAuthorizations').doc(authorizationId);
+  const paymentRef = db.collection('payments').doc(`payment_${tripId}`);
+  const transactionRef = db.collection('walletTransactions').doc(walletTripDebitId(tripId));
+
+  return db.runTransaction(async (transaction) => {
+    const [tripDoc, existingDoc, authorizationDoc] = await Promise.all([
+      transaction.get(tripRef),
+      transaction.get(transactionRef),
+      transaction.get(authorizationRef),
+    ]);
+    const trip = (tripDoc.data() ?? {}) as Record<string, unknown>;
+    const amountIls = roundIls(numberOrZero(trip.finalPriceIls ?? trip.fareAmount));
+    if (existingDoc.exists) {
+      return { status: 'captured', amountIls: -numberOrZero(existingDoc.data()?.amountIls), transactionId: existingDoc.id };
+    }
+
+    const passengerId = idOrNull(trip.passengerId);
+    if (!passengerId) {
+      throw new NotFoundError('Trip', tripId);
+    }
+    const wallet = await readWallet(transaction, passengerId);
+    const authorization = authorizationDoc.data() ?? {};
+    const heldIls = authorization.status === 'authorized' ? numberOrZero(authorization.authorizedIls) : 0;
+    const reservedAfterIls = roundIls(Math.max(0, numberOrZero(wallet.data.reservedIls) - heldIls));
+
+    if (roundIls(numberOrZero(wallet.data.balanceIls) - reservedAfterIls) < amountIls) {
+      if (heldIls > 0) {
+        writeReservedIls(transaction, wallet, reservedAfterIls);
+      }
+      transaction.update(authorizationRef, {
+        tripId,
+        status: 'failed',
+        failureReason: 'insufficient_wallet_balance',
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.set(
+        paymentRef,
+        {
+          status: PaymentStatus.FAILED,
+          authorizationId,
+          failureReason: 'insufficient_wallet_balance',
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+      transaction.update(tripRef, { fareCollectedBy: FARE_COLLECTORS.DRIVER });
+      return { status: 'failed', amountIls, transactionId: null };
+    }
+
+    writeWalletTransaction(
+      transaction,
+      wallet,
+      transactionRef,
+      {
+        passengerId,
+        type: 'trip_debit',
+        amountIls: -amountIls,
+        tripId,
+        paymentId: paymentRef.id,
+        officeId: idOrNull(trip.matchedOfficeId ?? trip.requestedOfficeId),
+        note: null,
+        createdBy: 'system',
+      },
+      reservedAfterIls
+    );
+    transaction.update(authorizationRef, {
+      tripId,
+      status: 'captured',
+      capturedIls: amountIls,
+      providerCaptureId: transactionRef.id,
+      capturedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.set(
+      paymentRef,
+      {
+        status: PaymentStatus.PAID,
+        authorizationId,
+        walletTransactionId: transactionRef.id,
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    transaction.update(tripRef, {
+      paymentStatus: PaymentStatus.PAID,
+      paidAt: FieldValue.serverTimestamp(),
+      fareCollectedBy: FARE_COLLECTORS.OFFICE,
+    });
+    return { status: 'captured', amountIls, transactionId: transactionRef.id };
+  });
+}
+
+/**
+ * Refund a disputed fare to the passenger's wallet, whatever method paid it.
+ * Partial refunds keep the payment paid; the last one marks it refunded.
+ */
+export async function refundTripFare(input: {
+  tripId: string;
+  amountIls: number | null;
+  reason: string;
+  managerId: string;
+}): Promise<RefundTripFareResult> {
+  const db = getFirestore();
+  const paymentRef = db.collection('payments').doc(`payment_${input.tripId}`);
+  const transactionRef = db.collection('walletTransactions').doc();
+
+  const result = await db.runTransaction(async (transaction) => {
+    const paymentDoc = await transaction.get(paymentRef);
+    if (!paymentDoc.exists) {
+      throw new NotFoundError('Payment', paymentRef.id);
+    }
+
+    const payment = (paymentDoc.data() ?? {}) as Record<string, unknown>;
+    if (payment.status === PaymentStatus.REFUNDED) {
+      throw new ConflictError('This fare has already been refunded in full');
+    }
+    if (payment.status !== PaymentStatus.PAID) {
+      throw new ConflictError('Only paid fares can be refunded');
+    }
+
+    const passengerId = idOrNull(payment.passengerId);
+    if (!passengerId) {
+      throw new ConflictError('Payment has no passenger to refund');
+    }
+
+    const refundedIls = numberOrZero(payment.refundedIls);
+    const refundableIls = getRefundableIls(numberOrZero(payment.amount), refundedIls);
+    const amountIls = roundIls(input.amountIls ?? refundableIls);
+    if (amountIls <= 0 || amountIls > refundableIls) {
+      throw new ValidationError(`Refund must be between 0 and ${refundableIls} ILS`);
+    }
+
+    const wallet = await readWallet(transaction, passengerId);
+    const balanceAfterIls = writeWalletTransaction(transaction, wallet, transactionRef, {
+      passengerId,
+      type: 'refund',
+      amountIls,
+      tripId: input.tripId,
+      paymentId: paymentRef.id,
+      officeId: null,
+      note: input.reason,
+      createdBy: input.managerId,
+    });
+
+    const refundedTotalIls = roundIls(refundedIls + amountIls);
+    const fullyRefunded = getRefundableIls(numberOrZero(payment.amount), refundedTotalIls) === 0;
+    transaction.update(paymentRef, {
+      refundedIls: refundedTotalIls,
+      status: fullyRefunded ? PaymentStatus.REFUNDED : PaymentStatus.PAID,
+      lastRefundAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return { passengerId, amountIls, balanceAfterIls, refundedTotalIls, fullyRefunded };
+  });
+
+  logger.info('[Wallet] Fare refunded', { tripId: input.tripId, ...result, managerId: input.managerId });
+
+  try {
+    await bookRefundSettlement({
+      tripId: input.tripId,
+      refundId: transactionRef.id,
+      amountIls: result.amountIls,
+      note: input.reason,
+      managerId: input.managerId,
+    });
+  } catch (error) {
+    logger.error('[Settlement] Failed to book refund', error, { tripId: input.tripId, refundId: transactionRef.id });
+  }
+  return { transactionId: transactionRef.id, ...result };
+}
+
+/**
+ * Debit a wallet trip's cancellation fee, up to what the available balance
+ * covers, and record it on the trip and in payments in the same
+ * transaction. The trip's own reservation is released first; the uncovered
+ * rest stays owed with the fee pending. Idempotent per trip.
+ */
+export async function chargeWalletCancellationFee(input: {
+  tripId: string;
+  passengerId: string;
+  driverId: string | null;
+  authorizationId: string | null;
+  feeIls: number;
+  reason: CancellationFeeReason;
+}): Promise<WalletCancellationFeeResult | null> {
+  const feeIls = roundIls(input.feeIls);
+  if (feeIls <= 0) {
+    return null;
+  }
+
+  const db = getFirestore();
+  const tripRef = db.collection('trips').doc(input.tripId);
+  const paymentRef = db.collection('payments').doc(`payment_${input.tripId}`);
+  const transactionRef = db.collection('walletTransactions').doc(walletCancellationFeeId(input.tripId));
+  const authorizationRef = input.authorizationId
+    ? db.collection('paymentAuthorizations').doc(input.authorizationId)
+    : null;
+
+  const result = await db.runTransaction(async (transaction) => {
+    const [tripDoc, paymentDoc, authorizationDoc] = await Promise.all([
+      transaction.get(tripRef),
+      transaction.get(paymentRef),
+      authorizationRef ? transaction.get(authorizationRef) : Promise.resolve(null),
+    ]);
+    if (!tripDoc.exists) {
+      throw new NotFoundError('Trip', input.tripId);
+    }
+    if (paymentDoc.exists) {
+      return null;
+    }
+
+    const trip = (tripDoc.data() ?? {}) as Record<string, unknown>;
+    const wallet = await readWallet(transaction, input.passengerId);
+    const authorization = authorizationDoc?.data() ?? {};
+    // The cancelled ride's reservation no longer needs to be kept
+    const heldIls = authorization.status === 'authorized' ? numberOrZero(authorization.authorizedIls) : 0;
+    const reservedAfterIls = roundIls(Math.max(0, numberOrZero(wallet.data.reservedIls) - heldIls));
+    const chargedIls = roundIls(
+      Math.min(feeIls, Math.max(0, numberOrZero(wallet.data.balanceIls) - reservedAfterIls))
+    );
+    const owedIls = roundIls(feeIls - chargedIls);
+
+    let balanceAfterIls = numberOrZero(wallet.data.balanceIls);
+    if (chargedIls > 0) {
+      balanceAfterIls = writeWalletTransaction(
+        transaction,
+        wallet,
+        transactionRef,
+        {
+          passengerId: input.passengerId,
+          type: 'cancellation_fee',
+          amountIls: -chargedIls,
+          tripId: input.tripId,
+          paymentId: paymentRef.id,
+          officeId: idOrNull(trip.matchedOfficeId ?? trip.requestedOfficeId),
+          note: input.reason,
+          createdBy: 'system',
+        },
+        reservedAfterIls
+      );
+    } else if (heldIls > 0) {
+      writeReservedIls(transaction, wallet, reservedAfterIls);
+    }
+    if (authorizationRef && heldIls > 0) {
+      transaction.update(authorizationRef, {
+        status: 'voided',
+        voidReason: 'cancellation_fee',
+        voidedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    const transactionId = chargedIls > 0 ? transactionRef.id : null;
+    transaction.set(paymentRef, {
+      paymentId: paymentRef.id,
+      kind: 'cancellation_fee',
+      tripId: input.tripId,
+      passengerId: input.passengerId,
+      driverId: input.driverId ?? '',
+      amount: feeIls,
+      collectedIls: chargedIls,
+      owedIls,
+      fareBreakdown: null,
+      currency: 'ILS',
+      method: 'wallet',
+      status: owedIls > 0 ? PaymentStatus.PENDING : PaymentStatus.PAID,
+      cancellationFeeReason: input.reason,
+      walletTransactionId: transactionId,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.update(tripRef, {
+      cancellationFeeIls: feeIls,
+      cancellationFeeReason: input.reason,
+      cancellationFeeStatus: owedIls > 0 ? 'pending' : 'charged',
+      cancellationFeeCollectedIls: chargedIls,
+      cancellationFeeTransactionId: transactionId,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { transactionId, collectedIls: chargedIls, owedIls, balanceAfterIls };
+  });
+
+  if (result) {
+    logger.info('[Wallet] Cancellation fee charged', {
+      tripId: input.tripId,
+      passengerId: input.passengerId,
+      feeIls,
+      reason: input.reason,
+      ...result,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,43 @@
+import { TripStatus } from '../enums/trip-status.enum';
+
+/**
+ * ============================================================================
+ * MASKED CALLING CONFIGURATION
+ * ============================================================================
+ *
+ * Drivers and passengers never see each other's phone numbers. The
+ * requestCallBridge callable opens a session with the call bridge provider
+ * and returns a proxy number that connects the caller to the other trip
+ * participant. Sessions are scoped to one trip and close when it ends.
+ *
+ * Session:  callBridgeSessions/{tripId}
+ * Timeline: trips/{tripId}/timeline/{eventId}
+ *
+ * ============================================================================
+ */
+
+export const CALL_BRIDGE_RULES = {
+  /** Backstop expiry in case the trip never reaches a terminal status */
+  SESSION_MAX_MINUTES: 180,
+  /** Proxy number requests per participant per trip */
+  MAX_REQUESTS_PER_PARTICIPANT: 20,
+  /** How long one participant's session opening holds off the other's */
+  OPENING_CLAIM_SECONDS: 30,
+} as const;
+
+/** Trip statuses in which the participants may call each other */
+export const CALL_BRIDGE_TRIP_STATUSES: TripStatus[] = [
+  TripStatus.DRIVER_ASSIGNED,
+  TripStatus.ACCEPTED,
+  TripStatus.DRIVER_ARRIVED,
+  TripStatus.IN_PROGRESS,
+];
+
+export const TRIP_TIMELINE_EVENT_TYPES = [
+  'call_bridge_opened',
+  'call_requested',
+  'call_bridge_failed',
+  'call_bridge_closed',
+] as const;
+
+export type TripTimelineEventType = (typeof TRIP_TIMELINE_EVENT_TYPES)[number];
@@ -0,0 +1,117 @@
+import { TripStatus } from '../enums/trip-status.enum';
+import { roundIls } from './settlement.config';
+
+/**
+ * ============================================================================
+ * CANCELLATION FEE POLICY
+ * ============================================================================
+ *
+ * Read from system/config.cancellationPolicy; missing or invalid fields fall
+ * back to DEFAULT_CANCELLATION_POLICY.
+ *
+ * Passenger cancels:
+ * - before a driver accepted, or within the free window after acceptedAt: free
+ * - after the free window, before the driver arrived: lateCancelFeeIls
+ * - after driverArrived: arrivedCancelFeeIls
+ *
+ * Driver cancels: free
+ *
+ * Passenger no-show: after waiting noShowWaitSeconds since arrivedAt the
+ * driver closes the trip as PASSENGER_NO_SHOW and the passenger is charged
+ * noShowFeeIls
+ *
+ * Fees are collected the way the ride was paid: captured against the card
+ * hold, or debited from the wallet up to its available balance (see
+ * wallet.config.ts). Cash fees, and any part not collected, stay owed with
+ * cancellationFeeStatus pending. Fees are recorded on the trip and in
+ * payments/payment_{tripId}.
+ *
+ * ============================================================================
+ */
+
+export interface CancellationPolicy {
+  /** Seconds after acceptedAt during which the passenger cancels for free */
+  freeCancelWindowSeconds: number;
+  /** Passenger cancels after the free window, before the driver arrived */
+  lateCancelFeeIls: number;
+  /** Passenger cancels after the driver arrived */
+  arrivedCancelFeeIls: number;
+  /** Seconds the driver waits at pickup before marking the passenger a no-show */
+  noShowWaitSeconds: number;
+  /** Charged when the driver marks the passenger a no-show */
+  noShowFeeIls: number;
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancelWindowSeconds: 120,
+  lateCancelFeeIls: 5,
+  arrivedCancelFeeIls: 10,
+  noShowWaitSeconds: 300,
+  noShowFeeIls: 15,
+};
+
+/** Trip statuses the passenger can still cancel from */
+export const PASSENGER_CANCELLABLE_STATUSES: TripStatus[] = [
+  TripStatus.PENDING,
+  TripStatus.ACCEPTED,
+  TripStatus.DRIVER_ARRIVED,
+];
+
+export const CANCELLATION_FEE_REASONS = ['late_cancel', 'after_arrival', 'no_show'] as const;
+
+export type CancellationFeeReason = (typeof CANCELLATION_FEE_REASONS)[number];
+
+export interface CancellationFeeQuote {
+  feeIls: number;
+  reason: CancellationFeeReason | null;
+}
+
+export interface CancellationFeeInput {
+  cancelledBy: 'passenger' | 'driver';
+  status: string;
+  acceptedAtMs: number | null;
+  arrivedAtMs: number | null;
+  nowMs: number;
+}
+
+function nonNegativeOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function normalizeCancellationPolicy(value: unknown): CancellationPolicy {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const defaults = DEFAULT_CANCELLATION_POLICY;
+  return {
+    freeCancelWindowSeconds: nonNegativeOr(raw.freeCancelWindowSeconds, defaults.freeCancelWindowSeconds),
+    lateCancelFeeIls: roundIls(nonNegativeOr(raw.lateCancelFeeIls, defaults.lateCancelFeeIls)),
+    arrivedCancelFeeIls: roundIls(nonNegativeOr(raw.arrivedCancelFeeIls, defaults.arrivedCancelFeeIls)),
+    noShowWaitSeconds: nonNegativeOr(raw.noShowWaitSeconds, defaults.noShowWaitSeconds),
+    noShowFeeIls: roundIls(nonNegativeOr(raw.noShowFeeIls, defaults.noShowFeeIls)),
+  };
+}
+
+function quote(feeIls: number, reason: CancellationFeeReason): CancellationFeeQuote {
+  return feeIls > 0 ? { feeIls, reason } : { feeIls: 0, reason: null };
+}
+
+/**
+ * Fee for cancelling a trip right now
+ */
+export function quoteCancellationFee(policy: CancellationPolicy, input: CancellationFeeInput): CancellationFeeQuote {
+  const arrived = input.status === TripStatus.DRIVER_ARRIVED;
+
+  if (input.cancelledBy === 'driver') {
+    const waitedMs = arrived && input.arrivedAtMs !== null ? input.nowMs - input.arrivedAtMs : 0;
+    return arrived && waitedMs >= policy.noShowWaitSeconds * 1000
+      ? quote(policy.noShowFeeIls, 'no_show')
+      : { feeIls: 0, reason: null };
+  }
+
+  if (arrived) {
+    return quote(policy.arrivedCancelFeeIls, 'after_arrival');
+  }
+  if (input.acceptedAtMs === null || input.nowMs - input.acceptedAtMs <= policy.freeCancelWindowSeconds * 1000) {
+    return { feeIls: 0, reason: null };
+  }
+  return quote(policy.lateCancelFeeIls, 'late_cancel');
+}
@@ -1,5 +1,17 @@
 export * from './app-mode.config';
 export * from './booking.config';
+export * from './matching.config';
 export * from './pilot-limits.config';
 export * from './vehicle.config';
 export * from './rbac.config';
+export * from './promo.config';
+export * from './routing.config';
+export * from './ops-metrics.config';
+export * from './rating-quality.config';
+export * from './trip-chat.config';
+export * from './call-bridge.config';
+export * from './settlement.config';
+export * from './payment.config';
+export * from './wallet.config';
+export * from './cancellation.config';
+export * from './wait-time.config';
@@ -0,0 +1,34 @@
+/**
+ * Driver ranking strategies used by dispatch.
+ * Selected per line (lines/{lineId}.matchingStrategy), then per office
+ * (offices/{officeId}.matchingStrategy), then system/config.matchingStrategy.
+ */
+export const MATCHING_STRATEGIES = {
+  /** Straight-line (haversine) distance to pickup */
+  DISTANCE: 'distance',
+  /** Driving ETA to pickup from the routing provider */
+  ETA: 'eta',
+  /** Distance discounted for well-rated drivers */
+  RATING_WEIGHTED: 'rating_weighted',
+  /** Longest idle driver first */
+  FAIRNESS: 'fairness',
+} as const;
+
+export type MatchingStrategy = (typeof MATCHING_STRATEGIES)[keyof typeof MATCHING_STRATEGIES];
+
+export const MATCHING_STRATEGY_VALUES = Object.values(MATCHING_STRATEGIES) as MatchingStrategy[];
+
+export const DEFAULT_MATCHING_STRATEGY: MatchingStrategy = MATCHING_STRATEGIES.DISTANCE;
+
+/**
+ * Returns null for missing/unknown values so callers can fall back
+ * to the next configuration level.
+ */
+export function normalizeMatchingStrategy(value: unknown): MatchingStrategy | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const trimmed = value.trim() as MatchingStrategy;
+  return MATCHING_STRATEGY_VALUES.includes(trimmed) ? trimmed : null;
+}
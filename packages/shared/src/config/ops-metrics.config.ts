@@ -0,0 +1,81 @@
+/**
+ * ============================================================================
+ * OPS METRICS HISTORY
+ * ============================================================================
+ *
+ * Firestore Collections:
+ * - opsMetricsHistory/{bucketId}   rolled-up time buckets per scope
+ *
+ * Every aggregation run samples the live gauges (online drivers, pending
+ * trips...) and counts the events of the 5-minute window that just closed.
+ * The sample is added to the 5-minute, hourly and daily bucket of the
+ * platform and of every office and line it concerns. Gauges are stored as
+ * sums over `samples`; divide to chart the average.
+ *
+ * ============================================================================
+ */
+
+export const OPS_METRICS_RESOLUTIONS = ['5m', '1h', '1d'] as const;
+
+export type OpsMetricsResolution = (typeof OPS_METRICS_RESOLUTIONS)[number];
+
+export const OPS_METRICS_RESOLUTION_CONFIG: Record<
+  OpsMetricsResolution,
+  { bucketMs: number; retentionDays: number }
+> = {
+  '5m': { bucketMs: 5 * 60 * 1000, retentionDays: 3 },
+  '1h': { bucketMs: 60 * 60 * 1000, retentionDays: 45 },
+  '1d': { bucketMs: 24 * 60 * 60 * 1000, retentionDays: 400 },
+};
+
+export const OPS_METRICS_SCOPE_TYPES = ['platform', 'office', 'line'] as const;
+
+export type OpsMetricsScopeType = (typeof OPS_METRICS_SCOPE_TYPES)[number];
+
+/** Sampled point-in-time values, summed per bucket */
+export const OPS_METRICS_GAUGES = ['driversOnline', 'driversAvailable', 'tripsPending', 'tripsActive'] as const;
+
+export type OpsMetricsGauge = (typeof OPS_METRICS_GAUGES)[number];
+
+/**
+ * Events counted per bucket. Client errors are platform-wide and only
+ * recorded on the platform scope.
+ */
+export const OPS_METRICS_COUNTERS = [
+  'tripsCreated',
+  'tripsCompleted',
+  'tripsCancelled',
+  'errorsTotal',
+  'errorsFatal',
+  'errorsError',
+  'errorsWarning',
+] as const;
+
+export type OpsMetricsCounter = (typeof OPS_METRICS_COUNTERS)[number];
+
+export interface OpsMetricsBucket {
+  resolution: OpsMetricsResolution;
+  scopeType: OpsMetricsScopeType;
+  scopeId: string | null;
+  /** `platform`, `office:{id}` or `line:{id}`; what the charts query by */
+  scopeKey: string;
+  bucketStartMs: number;
+  samples: number;
+  gaugeSums: Partial<Record<OpsMetricsGauge, number>>;
+  counts: Partial<Record<OpsMetricsCounter, number>>;
+}
+
+export function opsMetricsScopeKey(scopeType: OpsMetricsScopeType, scopeId: string | null): string {
+  return scopeType === 'platform' || !scopeId ? 'platform' : `${scopeType}:${scopeId}`;
+}
+
+/** Start of the bucket containing `timestampMs` (UTC aligned) */
+export function opsMetricsBucketStart(resolution: OpsMetricsResolution, timestampMs: number): number {
+  const { bucketMs } = OPS_METRICS_RESOLUTION_CONFIG[resolution];
+  return Math.floor(timestampMs / bucketMs) * bucketMs;
+}
+
+/** Deterministic document id so re-running a window never duplicates buckets */
+export function opsMetricsBucketId(resolution: OpsMetricsResolution, scopeKey: string, bucketStartMs: number): string {
+  return `${resolution}_${scopeKey.replace(/[^a-zA-Z0-9_-]/g, '-')}_${bucketStartMs}`;
+}
@@ -0,0 +1,56 @@
+import { PaymentMethod } from '../enums/payment-status.enum';
+
+/**
+ * ============================================================================
+ * PAYMENT PROVIDER CONFIGURATION
+ * ============================================================================
+ *
+ * Card rides go through a payment provider:
+ * - authorize: when the passenger requests the ride, for the quoted fare
+ *   plus a hold margin (the final fare is settled on the driven route)
+ * - capture:   when the driver completes the trip, for the final fare
+ * - void:      when the request or trip is cancelled
+ *
+ * Wallet rides follow the same steps against the passenger's prepaid
+ * wallet (see wallet.config.ts): authorize checks the balance covers the
+ * quoted fare and capture debits the final fare.
+ *
+ * Cash rides are confirmed by the driver. Card and wallet are only offered
+ * while system/config.paymentsEnabled is on; a failed capture leaves the
+ * trip payment pending so the driver collects cash.
+ *
+ * Authorization: paymentAuthorizations/{requestId}
+ *
+ * ============================================================================
+ */
+
+export const PAYMENT_METHOD_VALUES = [PaymentMethod.CASH, PaymentMethod.CARD, PaymentMethod.WALLET] as const;
+
+/** Methods that are authorized and captured through a payment provider */
+export const PROVIDER_PAYMENT_METHODS: PaymentMethod[] = [PaymentMethod.CARD];
+
+export const PAYMENT_RULES = {
+  /** Extra hold on top of the quoted fare, covering route adjustments */
+  AUTHORIZATION_HOLD_MARGIN_PCT: 30,
+} as const;
+
+export const PAYMENT_AUTHORIZATION_STATUSES = ['authorized', 'captured', 'voided', 'failed'] as const;
+
+export type PaymentAuthorizationStatus = (typeof PAYMENT_AUTHORIZATION_STATUSES)[number];
+
+export function normalizePaymentMethod(value: unknown): PaymentMethod | null {
+  return typeof value === 'string' && (PAYMENT_METHOD_VALUES as readonly string[]).includes(value)
+    ? (value as PaymentMethod)
+    : null;
+}
+
+export function isProviderPaymentMethod(method: PaymentMethod): boolean {
+  return PROVIDER_PAYMENT_METHODS.includes(method);
+}
+
+/**
+ * Amount held at request time for a quoted fare
+ */
+export function getAuthorizationHoldIls(quotedFareIls: number): number {
+  return Math.ceil(quotedFareIls * (1 + PAYMENT_RULES.AUTHORIZATION_HOLD_MARGIN_PCT / 100));
+}
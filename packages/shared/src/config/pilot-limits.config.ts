@@ -13,9 +13,21 @@ export const PILOT_LIMITS = {
   /**
    * Maximum active trips per driver at once
    * During pilot, drivers can only handle 1 trip at a time
+   * (seat-only trips pooled on a line route are capped separately)
    */
   MAX_ACTIVE_TRIPS_PER_DRIVER: 1,
 
+  /**
+   * Maximum seat-only trips a line driver carries at once
+   * Extra passengers are attached only along the route of the trip in progress
+   */
+  MAX_POOLED_TRIPS_PER_DRIVER: 4,
+
+  /**
+   * How far in km a pooled pickup/dropoff may sit from the route
+   */
+  POOLING_ROUTE_CORRIDOR_KM: 1.5,
+
   /**
    * Maximum active trips per passenger at once
    * Prevents passengers from creating multiple simultaneous trips
@@ -33,6 +45,12 @@ export const PILOT_LIMITS = {
    */
   MAX_DRIVER_SEARCH_RADIUS_KM: 15,
 
+  /**
+   * Maximum number of drivers a single trip is offered to
+   * After this many rejections/timeouts the trip ends as no_driver_available
+   */
+  MAX_DISPATCH_ATTEMPTS: 3,
+
   /**
    * Minimum fare amount in ILS
    */
@@ -49,6 +67,41 @@ export const PILOT_LIMITS = {
    * If trip.status === "accepted" and driver doesn't arrive within this time, auto-cancel
    */
   DRIVER_ARRIVAL_TIMEOUT_SECONDS: 300, // 5 minutes
+
+  /**
+   * Driver arrival timeout in seconds for a passenger pooled onto a trip
+   * The driver may still be collecting earlier passengers on the line route;
+   * once the anchor trip ends, DRIVER_ARRIVAL_TIMEOUT_SECONDS applies from then
+   */
+  POOLED_ARRIVAL_TIMEOUT_SECONDS: 1800, // 30 minutes
+
+  /**
+   * Scheduled ride lead time in minutes
+   * Bookings enter live dispatch this long before their pickup time
+   */
+  SCHEDULED_RIDE_LEAD_MINUTES: 15,
+
+  /**
+   * Earliest a scheduled ride may be booked, in minutes from now
+   * Anything sooner should be requested as a regular ride
+   */
+  SCHEDULED_RIDE_MIN_ADVANCE_MINUTES: 30,
+
+  /**
+   * Latest a scheduled ride may be booked, in days from now
+   */
+  SCHEDULED_RIDE_MAX_ADVANCE_DAYS: 7,
+
+  /**
+   * Maximum upcoming scheduled rides per passenger
+   */
+  MAX_SCHEDULED_RIDES_PER_PASSENGER: 3,
+
+  /**
+   * Scheduled ride dispatch grace in minutes
+   * Dispatch keeps retrying until this long after the pickup time, then gives up
+   */
+  SCHEDULED_RIDE_DISPATCH_GRACE_MINUTES: 10,
 } as const;
 
 // Note: ACTIVE_TRIP_STATUSES is already exported from enums/trip-status.enum.ts
@@ -0,0 +1,89 @@
+/**
+ * ============================================================================
+ * PROMO CODES & REFERRALS
+ * ============================================================================
+ *
+ * Firestore Collections:
+ * - promoCodes/{code}          campaigns created by managers
+ * - referrals/{code}           one referral code per passenger
+ * - promoRedemptions/{id}      discounts a passenger has unlocked
+ *
+ * A passenger redeems a code once; the discount is then applied by the
+ * backend pricing to the next eligible ride and consumed at booking.
+ *
+ * ============================================================================
+ */
+
+export const PROMO_DISCOUNT_TYPES = {
+  PERCENT: 'percent',
+  FIXED: 'fixed',
+} as const;
+
+export type PromoDiscountType = (typeof PROMO_DISCOUNT_TYPES)[keyof typeof PROMO_DISCOUNT_TYPES];
+
+export const PROMO_DISCOUNT_TYPE_VALUES = Object.values(PROMO_DISCOUNT_TYPES) as PromoDiscountType[];
+
+export const PROMO_REDEMPTION_SOURCES = {
+  PROMO: 'promo',
+  REFERRAL: 'referral',
+  REFERRAL_REWARD: 'referral_reward',
+} as const;
+
+export type PromoRedemptionSource =
+  (typeof PROMO_REDEMPTION_SOURCES)[keyof typeof PROMO_REDEMPTION_SOURCES];
+
+export const PROMO_REDEMPTION_STATUSES = {
+  AVAILABLE: 'available',
+  APPLIED: 'applied',
+} as const;
+
+export type PromoRedemptionStatus =
+  (typeof PROMO_REDEMPTION_STATUSES)[keyof typeof PROMO_REDEMPTION_STATUSES];
+
+export const PROMO_CONFIG = {
+  /** Codes are stored upper-case; this bounds what users can type */
+  CODE_MIN_LENGTH: 4,
+  CODE_MAX_LENGTH: 24,
+  /** Percent discounts are capped so a typo never makes rides free */
+  MAX_PERCENT_DISCOUNT: 50,
+  /** Discount a new passenger gets for redeeming a referral code */
+  REFERRAL_NEW_PASSENGER_DISCOUNT_ILS: 5,
+  /** Credit the referrer gets when their code is redeemed */
+  REFERRAL_REFERRER_REWARD_ILS: 5,
+  /** Days a referral discount stays usable */
+  REFERRAL_VALID_DAYS: 30,
+  /** Prefix of generated referral codes (WSL-XXXXXX) */
+  REFERRAL_CODE_PREFIX: 'WSL-',
+} as const;
+
+export interface PromoDiscountRule {
+  discountType: PromoDiscountType;
+  /** Percent (0-100) or ILS, depending on discountType */
+  discountValue: number;
+  /** Upper bound for percent discounts, in ILS */
+  maxDiscountIls?: number | null;
+}
+
+export function normalizePromoCode(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  return value.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+/**
+ * Discount for a fare, in whole ILS, never more than the fare itself
+ */
+export function calculatePromoDiscountIls(fareIls: number, rule: PromoDiscountRule): number {
+  if (!Number.isFinite(fareIls) || fareIls <= 0) return 0;
+  if (!Number.isFinite(rule.discountValue) || rule.discountValue <= 0) return 0;
+
+  let discountIls =
+    rule.discountType === PROMO_DISCOUNT_TYPES.PERCENT
+      ? (fareIls * Math.min(rule.discountValue, PROMO_CONFIG.MAX_PERCENT_DISCOUNT)) / 100
+      : rule.discountValue;
+
+  if (typeof rule.maxDiscountIls === 'number' && rule.maxDiscountIls > 0) {
+    discountIls = Math.min(discountIls, rule.maxDiscountIls);
+  }
+
+  return Math.min(fareIls, Math.floor(discountIls));
+}
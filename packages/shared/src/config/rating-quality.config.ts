@@ -0,0 +1,128 @@
+/**
+ * ============================================================================
+ * RATING QUALITY
+ * ============================================================================
+ *
+ * Firestore Collections:
+ * - ratingQuality/{subject}_{userId}   rolling-window summary per rated user
+ * - ratingModeration/{source}_{tripId} original text of hidden comments
+ *
+ * Drivers are rated by passengers (ratings/{tripId}) and passengers by
+ * drivers (passengerRatings/{tripId}). Every new rating recomputes the rated
+ * user's summary over the last WINDOW_DAYS. Repeated complaints open a
+ * support ticket; a poor driver record also puts the driver on review until
+ * a manager clears it.
+ *
+ * ============================================================================
+ */
+
+export const RATING_QUALITY_RULES = {
+  WINDOW_DAYS: 30,
+  /** Ratings at or below this count as low */
+  LOW_RATING_MAX: 2,
+  /** Fewer ratings than this never trigger average/share flags */
+  MIN_RATINGS_FOR_FLAGS: 8,
+  LOW_AVERAGE_BELOW: 3.8,
+  HIGH_LOW_SHARE_AT: 0.3,
+  /** Same low-rating reason this many times is a repeated complaint */
+  REPEATED_COMPLAINT_COUNT: 3,
+  /** Upper bound on ratings read per recompute */
+  MAX_RATINGS_SCANNED: 500,
+} as const;
+
+export const RATING_SUBJECTS = ['driver', 'passenger'] as const;
+
+export type RatingSubject = (typeof RATING_SUBJECTS)[number];
+
+export const RATING_QUALITY_FLAG_TYPES = {
+  LOW_AVERAGE: 'low_average',
+  HIGH_LOW_SHARE: 'high_low_share',
+  REPEATED_COMPLAINT: 'repeated_complaint',
+} as const;
+
+export type RatingQualityFlagType =
+  (typeof RATING_QUALITY_FLAG_TYPES)[keyof typeof RATING_QUALITY_FLAG_TYPES];
+
+export const DRIVER_QUALITY_STATUSES = {
+  GOOD: 'good',
+  /** Flagged, but not (or no longer) on review */
+  WATCH: 'watch',
+  ON_REVIEW: 'on_review',
+} as const;
+
+export type DriverQualityStatus =
+  (typeof DRIVER_QUALITY_STATUSES)[keyof typeof DRIVER_QUALITY_STATUSES];
+
+export interface RatingQualityFlag {
+  type: RatingQualityFlagType;
+  /** Complaint reason for repeated_complaint flags */
+  reason: string | null;
+  value: number;
+}
+
+export interface RatingQualitySummary {
+  ratingCount: number;
+  averageRating: number | null;
+  lowRatingCount: number;
+  lowRatingShare: number;
+  /** Low-rating reasons, normalized, with their counts */
+  reasonCounts: Record<string, number>;
+  flags: RatingQualityFlag[];
+}
+
+/** Stable key for deduplicating actions taken on a flag */
+export function ratingQualityFlagKey(flag: Pick<RatingQualityFlag, 'type' | 'reason'>): string {
+  return flag.reason ? `${flag.type}:${flag.reason}` : flag.type;
+}
+
+export function normalizeLowRatingReason(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  return normalized ? normalized.slice(0, 120) : null;
+}
+
+/**
+ * Summary and flags for ratings within the window. Flags only consider
+ * `flagRatings`, the ratings received since the last review was cleared.
+ */
+export function computeRatingQuality(
+  ratings: Array<{ rating: number; lowRatingReason: string | null }>,
+  flagRatings: Array<{ rating: number; lowRatingReason: string | null }> = ratings
+): RatingQualitySummary {
+  const summarize = (items: typeof ratings) => {
+    const lowRatings = items.filter((item) => item.rating <= RATING_QUALITY_RULES.LOW_RATING_MAX);
+    const reasonCounts: Record<string, number> = {};
+    for (const item of lowRatings) {
+      const reason = normalizeLowRatingReason(item.lowRatingReason);
+      if (reason) reasonCounts[reason] = (reasonCounts[reason] ?? 0) + 1;
+    }
+    const total = items.reduce((sum, item) => sum + item.rating, 0);
+    return {
+      ratingCount: items.length,
+      averageRating: items.length > 0 ? Math.round((total / items.length) * 100) / 100 : null,
+      lowRatingCount: lowRatings.length,
+      lowRatingShare: items.length > 0 ? Math.round((lowRatings.length / items.length) * 1000) / 1000 : 0,
+      reasonCounts,
+    };
+  };
+
+  const summary = summarize(ratings);
+  const recent = flagRatings === ratings ? summary : summarize(flagRatings);
+  const flags: RatingQualityFlag[] = [];
+
+  if (recent.ratingCount >= RATING_QUALITY_RULES.MIN_RATINGS_FOR_FLAGS) {
+    if (recent.averageRating !== null && recent.averageRating < RATING_QUALITY_RULES.LOW_AVERAGE_BELOW) {
+      flags.push({ type: RATING_QUALITY_FLAG_TYPES.LOW_AVERAGE, reason: null, value: recent.averageRating });
+    }
+    if (recent.lowRatingShare >= RATING_QUALITY_RULES.HIGH_LOW_SHARE_AT) {
+      flags.push({ type: RATING_QUALITY_FLAG_TYPES.HIGH_LOW_SHARE, reason: null, value: recent.lowRatingShare });
+    }
+  }
+  for (const [reason, count] of Object.entries(recent.reasonCounts)) {
+    if (count >= RATING_QUALITY_RULES.REPEATED_COMPLAINT_COUNT) {
+      flags.push({ type: RATING_QUALITY_FLAG_TYPES.REPEATED_COMPLAINT, reason, value: count });
+    }
+  }
+
+  return { ...summary, flags };
+}
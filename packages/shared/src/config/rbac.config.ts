@@ -9,6 +9,11 @@ export const MANAGER_PERMISSIONS = {
   MANAGE_PRICING: 'manage_pricing',
   VIEW_MONITORING: 'view_monitoring',
   MANAGE_ALERTS: 'manage_alerts',
+  MANAGE_ROADBLOCKS: 'manage_roadblocks',
+  MODERATE_RATINGS: 'moderate_ratings',
+  MANAGE_SUPPORT: 'manage_support',
+  MANAGE_SETTLEMENTS: 'manage_settlements',
+  MANAGE_WALLETS: 'manage_wallets',
   FORCE_CANCEL_TRIP: 'force_cancel_trip',
   MANAGE_RBAC: 'manage_rbac',
 } as const;
@@ -41,6 +46,11 @@ export const MANAGER_ROLE_DEFAULT_PERMISSIONS: Record<
     MANAGER_PERMISSIONS.MANAGE_PRICING,
     MANAGER_PERMISSIONS.VIEW_MONITORING,
     MANAGER_PERMISSIONS.MANAGE_ALERTS,
+    MANAGER_PERMISSIONS.MANAGE_ROADBLOCKS,
+    MANAGER_PERMISSIONS.MODERATE_RATINGS,
+    MANAGER_PERMISSIONS.MANAGE_SUPPORT,
+    MANAGER_PERMISSIONS.MANAGE_SETTLEMENTS,
+    MANAGER_PERMISSIONS.MANAGE_WALLETS,
     MANAGER_PERMISSIONS.FORCE_CANCEL_TRIP,
     MANAGER_PERMISSIONS.MANAGE_RBAC,
   ],
@@ -55,6 +65,11 @@ export const MANAGER_ROLE_DEFAULT_PERMISSIONS: Record<
     MANAGER_PERMISSIONS.MANAGE_PRICING,
     MANAGER_PERMISSIONS.VIEW_MONITORING,
     MANAGER_PERMISSIONS.MANAGE_ALERTS,
+    MANAGER_PERMISSIONS.MANAGE_ROADBLOCKS,
+    MANAGER_PERMISSIONS.MODERATE_RATINGS,
+    MANAGER_PERMISSIONS.MANAGE_SUPPORT,
+    MANAGER_PERMISSIONS.MANAGE_SETTLEMENTS,
+    MANAGER_PERMISSIONS.MANAGE_WALLETS,
     MANAGER_PERMISSIONS.FORCE_CANCEL_TRIP,
   ],
   operations_manager: [
@@ -66,6 +81,11 @@ export const MANAGER_ROLE_DEFAULT_PERMISSIONS: Record<
     MANAGER_PERMISSIONS.MANAGE_VEHICLES,
     MANAGER_PERMISSIONS.MANAGE_PRICING,
     MANAGER_PERMISSIONS.VIEW_MONITORING,
+    MANAGER_PERMISSIONS.MANAGE_ROADBLOCKS,
+    MANAGER_PERMISSIONS.MODERATE_RATINGS,
+    MANAGER_PERMISSIONS.MANAGE_SUPPORT,
+    MANAGER_PERMISSIONS.MANAGE_SETTLEMENTS,
+    MANAGER_PERMISSIONS.MANAGE_WALLETS,
     MANAGER_PERMISSIONS.FORCE_CANCEL_TRIP,
   ],
   dispatcher: [
@@ -73,11 +93,14 @@ export const MANAGER_ROLE_DEFAULT_PERMISSIONS: Record<
     MANAGER_PERMISSIONS.MANAGE_DRIVERS,
     MANAGER_PERMISSIONS.MANAGE_LINES,
     MANAGER_PERMISSIONS.MANAGE_VEHICLES,
+    MANAGER_PERMISSIONS.MANAGE_ROADBLOCKS,
     MANAGER_PERMISSIONS.FORCE_CANCEL_TRIP,
   ],
   support: [
     MANAGER_PERMISSIONS.VIEW_DASHBOARD,
     MANAGER_PERMISSIONS.VIEW_MONITORING,
+    MANAGER_PERMISSIONS.MODERATE_RATINGS,
+    MANAGER_PERMISSIONS.MANAGE_SUPPORT,
     MANAGER_PERMISSIONS.FORCE_CANCEL_TRIP,
   ],
 };
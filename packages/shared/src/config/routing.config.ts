@@ -0,0 +1,40 @@
+/**
+ * Routing providers used for ETAs and fare estimates.
+ * Selected by system/config.routingProvider; the other provider and then a
+ * straight-line estimate are used when the selected one cannot route.
+ */
+export const ROUTING_PROVIDERS = {
+  /** Mapbox Directions API (needs MAPBOX_ACCESS_TOKEN) */
+  MAPBOX: 'mapbox',
+  /** A* over the preprocessed service-area road graph, avoiding closed roadblocks */
+  LOCAL_GRAPH: 'local_graph',
+} as const;
+
+export type RoutingProvider = (typeof ROUTING_PROVIDERS)[keyof typeof ROUTING_PROVIDERS];
+
+export const ROUTING_PROVIDER_VALUES = Object.values(ROUTING_PROVIDERS) as RoutingProvider[];
+
+export const DEFAULT_ROUTING_PROVIDER: RoutingProvider = ROUTING_PROVIDERS.MAPBOX;
+
+/**
+ * Returns null for missing/unknown values so callers can apply the default.
+ */
+export function normalizeRoutingProvider(value: unknown): RoutingProvider | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const trimmed = value.trim() as RoutingProvider;
+  return ROUTING_PROVIDER_VALUES.includes(trimmed) ? trimmed : null;
+}
+
+/**
+ * Penalties added to a route for each roadblock it passes through.
+ * A closed roadblock means a detour the provider did not plan for; a
+ * congested one means waiting in line.
+ */
+export const ROADBLOCK_ROUTE_PENALTIES = {
+  CLOSED_DETOUR_KM: 3,
+  CLOSED_DELAY_MIN: 10,
+  CONGESTED_DELAY_MIN: 6,
+} as const;
@@ -0,0 +1,124 @@
+/**
+ * ============================================================================
+ * DRIVER SETTLEMENT LEDGER
+ * ============================================================================
+ *
+ * Firestore Collections:
+ * - ledgerEntries/{entryId}                      double-entry journal
+ * - driverBalances/{driverId}                    running totals per driver
+ * - settlementStatements/{driverId}_{periodKey}  weekly statement per driver
+ *
+ * Every completed trip splits its fare into the office commission and the
+ * driver's net earnings. Who holds the money decides the other side:
+ * - cash fares are collected by the driver and booked against their cash
+ *   account; the commission is added to what the driver owes the office
+ * - card and wallet fares are collected for the office by the payment
+ *   provider and booked against the office receivable; the driver net is
+ *   owed to the driver and lowers their balance
+ * Cash the driver hands over to the office is booked from the driver's cash
+ * account to the office's. Cancellation fees the office collects are split
+ * like fares; refunds reverse the refunded part of a fare out of the office
+ * receivable. A negative balance means the office owes the driver.
+ *
+ * Commission: lines/{lineId}.commissionPct → offices/{officeId}.commissionPct
+ * → DEFAULT_COMMISSION_PCT.
+ *
+ * ============================================================================
+ */
+
+export const SETTLEMENT_RULES = {
+  DEFAULT_COMMISSION_PCT: 10,
+  MAX_COMMISSION_PCT: 50,
+  MAX_HANDOVER_ILS: 20000,
+  /** Statements cover Monday 00:00 UTC to the next Monday */
+  STATEMENT_PERIOD_DAYS: 7,
+} as const;
+
+export const LEDGER_ENTRY_TYPES = ['trip_fare', 'cash_handover', 'cancellation_fee', 'refund'] as const;
+
+export type LedgerEntryType = (typeof LEDGER_ENTRY_TYPES)[number];
+
+export const LEDGER_ACCOUNT_TYPES = {
+  /** Cash the driver is holding */
+  DRIVER_CASH: 'driver_cash',
+  /** The driver's share of fares */
+  DRIVER_EARNINGS: 'driver_earnings',
+  /** The office's share of fares */
+  OFFICE_COMMISSION: 'office_commission',
+  /** Cash received by the office */
+  OFFICE_CASH: 'office_cash',
+  /** Card and wallet fares captured for the office */
+  OFFICE_RECEIVABLE: 'office_receivable',
+} as const;
+
+export type LedgerAccountType = (typeof LEDGER_ACCOUNT_TYPES)[keyof typeof LEDGER_ACCOUNT_TYPES];
+
+/**
+ * Who ended up holding a trip's fare: the driver (cash, or a card/wallet
+ * charge that failed) or the office (captured card/wallet payment)
+ */
+export const FARE_COLLECTORS = {
+  DRIVER: 'driver',
+  OFFICE: 'office',
+} as const;
+
+export type FareCollector = (typeof FARE_COLLECTORS)[keyof typeof FARE_COLLECTORS];
+
+export interface LedgerLine {
+  /** `${type}:${ownerId}` */
+  account: string;
+  debitIls: number;
+  creditIls: number;
+}
+
+export function ledgerAccountId(type: LedgerAccountType, ownerId: string): string {
+  return `${type}:${ownerId}`;
+}
+
+/** Round to agorot */
+export function roundIls(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function isLedgerBalanced(lines: LedgerLine[]): boolean {
+  const debit = lines.reduce((sum, line) => sum + line.debitIls, 0);
+  const credit = lines.reduce((sum, line) => sum + line.creditIls, 0);
+  return Math.abs(debit - credit) < 0.005;
+}
+
+export function normalizeCommissionPct(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return null;
+  }
+  return value >= 0 && value <= SETTLEMENT_RULES.MAX_COMMISSION_PCT ? value : null;
+}
+
+/**
+ * Split a fare into office commission and driver net; the net absorbs the
+ * rounding so the two always add up to the fare
+ */
+export function splitTripFare(
+  fareIls: number,
+  commissionPct: number
+): { fareIls: number; commissionIls: number; driverNetIls: number } {
+  const fare = roundIls(Math.max(0, fareIls));
+  const commissionIls = roundIls((fare * commissionPct) / 100);
+  return { fareIls: fare, commissionIls, driverNetIls: roundIls(fare - commissionIls) };
+}
+
+/**
+ * Statement period containing the given time
+ */
+export function getSettlementPeriod(atMs: number): { periodKey: string; startMs: number; endMs: number } {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const date = new Date(atMs);
+  const dayStartMs = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  // getUTCDay: Sunday = 0; periods start on Monday
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  const startMs = dayStartMs - daysSinceMonday * dayMs;
+  return {
+    periodKey: new Date(startMs).toISOString().slice(0, 10),
+    startMs,
+    endMs: startMs + SETTLEMENT_RULES.STATEMENT_PERIOD_DAYS * dayMs,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * ============================================================================
+ * TRIP CHAT CONFIGURATION
+ * ============================================================================
+ *
+ * In-trip chat between the passenger and the driver. Messages are written by
+ * the sendTripChatMessage callable only:
+ * - each sender is rate limited per trip
+ * - profanity and phone numbers are masked before the message is stored;
+ *   the original text is kept for managers
+ * - quick replies are sent by id and shown in the reader's language
+ *
+ * The recipient stamps deliveredAt / readAt on the message. When the trip
+ * ends the thread is archived to tripChatArchives/{tripId} for disputes.
+ *
+ * ============================================================================
+ */
+
+export type TripChatRole = 'passenger' | 'driver';
+
+export const TRIP_CHAT_RULES = {
+  MAX_MESSAGE_LENGTH: 500,
+  /** At most RATE_LIMIT_MAX_MESSAGES per sender within the window */
+  RATE_LIMIT_WINDOW_SECONDS: 30,
+  RATE_LIMIT_MAX_MESSAGES: 5,
+  /** Hard cap per sender per trip */
+  MAX_MESSAGES_PER_SENDER: 100,
+  /** Messages loaded by the in-trip chat panel */
+  VISIBLE_MESSAGES: 50,
+} as const;
+
+export type TripChatModerationFlag = 'profanity' | 'phone_number';
+
+export interface TripChatQuickReply {
+  roles: readonly TripChatRole[];
+  en: string;
+  ar: string;
+}
+
+export const TRIP_CHAT_QUICK_REPLY_IDS = [
+  'at_gate',
+  'at_pickup',
+  'call_when_near',
+  'two_minutes',
+  'arrived',
+  'nearby',
+  'traffic_delay',
+] as const;
+
+export type TripChatQuickReplyId = (typeof TRIP_CHAT_QUICK_REPLY_IDS)[number];
+
+export const TRIP_CHAT_QUICK_REPLIES: Record<TripChatQuickReplyId, TripChatQuickReply> = {
+  at_gate: { roles: ['passenger'], en: "I'm at the gate", ar: 'أنا عند البوابة' },
+  at_pickup: { roles: ['passenger'], en: "I'm at the pickup point", ar: 'أنا عند نقطة الالتقاط' },
+  call_when_near: { roles: ['passenger'], en: 'Call me when you are near', ar: 'اتصل بي عند الاقتراب' },
+  two_minutes: { roles: ['passenger', 'driver'], en: '2 minutes', ar: 'دقيقتين' },
+  arrived: { roles: ['driver'], en: "I've arrived", ar: 'وصلت' },
+  nearby: { roles: ['driver'], en: "I'm nearby", ar: 'أنا قريب' },
+  traffic_delay: { roles: ['driver'], en: 'Delayed by traffic', ar: 'تأخير بسبب الازدحام' },
+};
+
+export function getTripChatQuickReplies(role: TripChatRole): TripChatQuickReplyId[] {
+  return TRIP_CHAT_QUICK_REPLY_IDS.filter((id) => TRIP_CHAT_QUICK_REPLIES[id].roles.includes(role));
+}
+
+export function isTripChatQuickReplyId(value: unknown): value is TripChatQuickReplyId {
+  return typeof value === 'string' && (TRIP_CHAT_QUICK_REPLY_IDS as readonly string[]).includes(value);
+}
+
+/** Masked words; matched as whole words, case-insensitive */
+const BLOCKED_WORDS = [
+  'fuck',
+  'fucking',
+  'shit',
+  'bitch',
+  'bastard',
+  'asshole',
+  'dick',
+  'slut',
+  'whore',
+  'كلب',
+  'حمار',
+  'حيوان',
+  'زبالة',
+  'حقير',
+  'وسخ',
+  'خرا',
+  'شرموطة',
+  'عرص',
+  'منيك',
+];
+
+const ARABIC_INDIC_DIGITS = /[٠-٩۰-۹]/g;
+const WORD_CHARS = 'A-Za-z\\u0600-\\u06FF';
+const BLOCKED_WORD_PATTERN = new RegExp(
+  `(^|[^${WORD_CHARS}])(${BLOCKED_WORDS.join('|')})(?=$|[^${WORD_CHARS}])`,
+  'giu'
+);
+/** Seven or more digits, optionally with +, spaces, dots, dashes or brackets */
+const PHONE_NUMBER_PATTERN = /\+?\d(?:[\s\-().]*\d){6,}/g;
+
+export const TRIP_CHAT_PHONE_MASK = '[number hidden]';
+
+/**
+ * Mask profanity and phone numbers; riders and drivers should not swap
+ * personal numbers in chat.
+ */
+export function moderateTripChatText(text: string): {
+  text: string;
+  flags: TripChatModerationFlag[];
+} {
+  const flags = new Set<TripChatModerationFlag>();
+
+  // Arabic-Indic digits count as digits for phone detection
+  const westernDigits = text.replace(ARABIC_INDIC_DIGITS, (digit) => {
+    const code = digit.charCodeAt(0);
+    return String(code >= 0x06f0 ? code - 0x06f0 : code - 0x0660);
+  });
+
+  let result = westernDigits.replace(PHONE_NUMBER_PATTERN, () => {
+    flags.add('phone_number');
+    return TRIP_CHAT_PHONE_MASK;
+  });
+  result = result.replace(BLOCKED_WORD_PATTERN, (_match, prefix: string, word: string) => {
+    flags.add('profanity');
+    return `${prefix}${'*'.repeat(word.length)}`;
+  });
+
+  // Keep the sender's digits when nothing was masked
+  return flags.size === 0 ? { text, flags: [] } : { text: result, flags: Array.from(flags) };
+}
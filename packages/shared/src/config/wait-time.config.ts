@@ -0,0 +1,73 @@
+import { roundIls } from './settlement.config';
+
+/**
+ * ============================================================================
+ * PICKUP WAIT TIME
+ * ============================================================================
+ *
+ * Read from system/config.waitTimePolicy; missing or invalid fields fall
+ * back to DEFAULT_WAIT_TIME_POLICY.
+ *
+ * The wait timer starts at trips/{tripId}.arrivedAt:
+ * - the first freeWaitSeconds are free
+ * - every started minute after that costs perMinuteIls, up to maxChargeIls
+ * - the charge is fixed at startTrip (waitTimeSeconds, waitChargeIls) and
+ *   added to the final fare at completeTrip
+ *
+ * After cancellationPolicy.noShowWaitSeconds the driver can close the trip
+ * as PASSENGER_NO_SHOW, which charges noShowFeeIls instead (see
+ * cancellation.config.ts).
+ *
+ * driverArrived copies the policy and the no-show threshold onto the trip so
+ * the driver app shows the same timer the backend charges.
+ *
+ * ============================================================================
+ */
+
+export interface WaitTimePolicy {
+  /** Grace period after arrivedAt before waiting is charged */
+  freeWaitSeconds: number;
+  /** Charge per started minute after the grace period */
+  perMinuteIls: number;
+  /** Upper bound on the wait charge of one trip */
+  maxChargeIls: number;
+}
+
+export const DEFAULT_WAIT_TIME_POLICY: WaitTimePolicy = {
+  freeWaitSeconds: 180,
+  perMinuteIls: 1,
+  maxChargeIls: 10,
+};
+
+/**
+ * Passenger "driver not moving" report: allowed once the driver accepted at
+ * least MIN_SECONDS_SINCE_ACCEPT ago and moved less than MAX_PROGRESS_METERS
+ * from where they accepted. The trip is re-dispatched to another driver.
+ */
+export const DRIVER_NOT_MOVING_RULES = {
+  MIN_SECONDS_SINCE_ACCEPT: 180,
+  MAX_PROGRESS_METERS: 150,
+} as const;
+
+function nonNegativeOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function normalizeWaitTimePolicy(value: unknown): WaitTimePolicy {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const defaults = DEFAULT_WAIT_TIME_POLICY;
+  return {
+    freeWaitSeconds: nonNegativeOr(raw.freeWaitSeconds, defaults.freeWaitSeconds),
+    perMinuteIls: roundIls(nonNegativeOr(raw.perMinuteIls, defaults.perMinuteIls)),
+    maxChargeIls: roundIls(nonNegativeOr(raw.maxChargeIls, defaults.maxChargeIls)),
+  };
+}
+
+/**
+ * Charge for waiting waitedSeconds at pickup
+ */
+export function computeWaitChargeIls(policy: WaitTimePolicy, waitedSeconds: number): number {
+  const chargeableSeconds = Math.max(0, waitedSeconds - policy.freeWaitSeconds);
+  const chargeableMinutes = Math.ceil(chargeableSeconds / 60);
+  return roundIls(Math.min(policy.maxChargeIls, chargeableMinutes * policy.perMinuteIls));
+}
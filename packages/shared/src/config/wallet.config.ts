@@ -0,0 +1,51 @@
+import { roundIls } from './settlement.config';
+
+/**
+ * ============================================================================
+ * PASSENGER WALLET
+ * ============================================================================
+ *
+ * Firestore Collections:
+ * - wallets/{passengerId}                 balance and reservedIls
+ * - walletTransactions/{transactionId}    immutable transaction log
+ *
+ * Passengers top up at an office cash desk. Wallet rides are debited when
+ * the trip completes, disputed fares are refunded to the wallet and
+ * cancellation fees of wallet rides are charged to it. Every change writes one transaction
+ * and the new balance in the same Firestore transaction as the trip or
+ * payment it belongs to.
+ *
+ * Cancellation fees take at most the available balance; the rest stays
+ * owed on the trip. Wallet rides need an available balance (balance less reservedIls)
+ * that covers the quoted fare, which stays reserved until the trip is
+ * debited or cancelled.
+ *
+ * ============================================================================
+ */
+
+export const WALLET_RULES = {
+  MAX_TOPUP_ILS: 1000,
+  MAX_BALANCE_ILS: 5000,
+} as const;
+
+export const WALLET_TRANSACTION_TYPES = ['top_up', 'trip_debit', 'refund', 'cancellation_fee'] as const;
+
+export type WalletTransactionType = (typeof WALLET_TRANSACTION_TYPES)[number];
+
+/**
+ * Deterministic ids keep trip debits and cancellation fees at most once per trip
+ */
+export function walletTripDebitId(tripId: string): string {
+  return `trip_${tripId}`;
+}
+
+export function walletCancellationFeeId(tripId: string): string {
+  return `cancel_${tripId}`;
+}
+
+/**
+ * Amount of a trip payment that can still be refunded
+ */
+export function getRefundableIls(paidIls: number, refundedIls: number): number {
+  return Math.max(0, roundIls(paidIls - refundedIls));
+}
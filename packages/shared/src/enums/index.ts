@@ -2,3 +2,4 @@ export * from './user-role.enum';
 export * from './trip-status.enum';
 export * from './trip-request-status.enum';
 export * from './payment-status.enum';
+export * from './scheduled-ride-status.enum';
@@ -18,6 +18,8 @@ export const PaymentStatus = {
   PAID: 'paid',
   /** Payment failed */
   FAILED: 'failed',
+  /** Fare refunded in full to the passenger wallet */
+  REFUNDED: 'refunded',
 } as const;
 
 export type PaymentStatus = typeof PaymentStatus[keyof typeof PaymentStatus];
@@ -28,9 +30,9 @@ export type PaymentStatus = typeof PaymentStatus[keyof typeof PaymentStatus];
 export const PaymentMethod = {
   /** Cash payment */
   CASH: 'cash',
-  /** Card payment (future) */
+  /** Card payment (through the payment provider) */
   CARD: 'card',
-  /** Wallet payment (future) */
+  /** Prepaid passenger wallet */
   WALLET: 'wallet',
 } as const;
 
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/**
+ * ============================================================================
+ * SCHEDULED RIDE STATUS ENUM
+ * ============================================================================
+ * 
+ * Status values for advance bookings in the scheduledRides collection.
+ * The matching tripRequests/{requestId} stays SCHEDULED until dispatch.
+ * 
+ * ============================================================================
+ */
+
+export const ScheduledRideStatus = {
+  /** Waiting for its lead time before pickup */
+  SCHEDULED: 'scheduled',
+  /** Claimed by the promoter, dispatch in progress */
+  DISPATCHING: 'dispatching',
+  /** Offered to a driver - trip created */
+  DISPATCHED: 'dispatched',
+  /** Cancelled by the passenger before dispatch */
+  CANCELLED: 'cancelled',
+  /** No driver found before the dispatch grace ran out */
+  FAILED: 'failed',
+} as const;
+
+export type ScheduledRideStatus = (typeof ScheduledRideStatus)[keyof typeof ScheduledRideStatus];
+
+export const ScheduledRideStatusSchema = z.enum([
+  'scheduled',
+  'dispatching',
+  'dispatched',
+  'cancelled',
+  'failed',
+]);
+
+/** Statuses of bookings that have not reached a driver yet */
+export const UPCOMING_SCHEDULED_RIDE_STATUSES: ScheduledRideStatus[] = [
+  ScheduledRideStatus.SCHEDULED,
+  ScheduledRideStatus.DISPATCHING,
+];
@@ -4,6 +4,8 @@ import { z } from 'zod';
  * Status values for trip requests (before matching with driver)
  */
 export const TripRequestStatus = {
+  /** Advance booking waiting for its lead time before dispatch */
+  SCHEDULED: 'scheduled',
   /** Request is open and waiting for driver match */
   OPEN: 'open',
   /** Request matched with a driver, trip being created */
@@ -17,6 +19,7 @@ export const TripRequestStatus = {
 export type TripRequestStatus = (typeof TripRequestStatus)[keyof typeof TripRequestStatus];
 
 export const TripRequestStatusSchema = z.enum([
+  'scheduled',
   'open',
   'matched',
   'expired',
@@ -25,6 +28,7 @@ export const TripRequestStatusSchema = z.enum([
 
 /** Statuses that indicate the request is still active */
 export const ACTIVE_REQUEST_STATUSES: TripRequestStatus[] = [
+  TripRequestStatus.SCHEDULED,
   TripRequestStatus.OPEN,
 ];
 
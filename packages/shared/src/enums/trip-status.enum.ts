@@ -23,6 +23,8 @@ export const TripStatus = {
   CANCELLED_BY_SYSTEM: 'cancelled_by_system',
   /** No driver available */
   NO_DRIVER_AVAILABLE: 'no_driver_available',
+  /** Passenger never showed up after the driver waited at pickup */
+  PASSENGER_NO_SHOW: 'passenger_no_show',
 } as const;
 
 export type TripStatus = (typeof TripStatus)[keyof typeof TripStatus];
@@ -39,6 +41,7 @@ export const TripStatusSchema = z.enum([
   'cancelled_by_driver',
   'cancelled_by_system',
   'no_driver_available',
+  'passenger_no_show',
 ]);
 
 /** Statuses that indicate the trip is still active */
@@ -58,4 +61,5 @@ export const TERMINAL_TRIP_STATUSES: TripStatus[] = [
   TripStatus.CANCELLED_BY_DRIVER,
   TripStatus.CANCELLED_BY_SYSTEM,
   TripStatus.NO_DRIVER_AVAILABLE,
+  TripStatus.PASSENGER_NO_SHOW,
 ];
@@ -0,0 +1,136 @@
+import { LatLng } from '../schemas/lat-lng.schema';
+
+/**
+ * ============================================================================
+ * GEOHASH UTILITIES
+ * ============================================================================
+ *
+ * Geohash cells let Firestore answer "drivers near X" with a handful of
+ * prefix range queries instead of scanning every online driver.
+ *
+ * Drivers store a full-precision `geohash` next to `lastLocation`.
+ * Searches pick the coarsest precision whose cell is at least as large as
+ * the search radius, then query that cell plus its 8 neighbours. Results
+ * must still be filtered by exact distance.
+ *
+ * ============================================================================
+ */
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/** Precision stored on driver documents (~4.8m x 4.8m cells) */
+export const DRIVER_GEOHASH_PRECISION = 9;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+/**
+ * A prefix range: match documents where start <= geohash < end
+ */
+export interface GeohashRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * Encode a coordinate into a geohash string
+ */
+export function encodeGeohash(lat: number, lng: number, precision = DRIVER_GEOHASH_PRECISION): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bit = 0;
+  let charIndex = 0;
+  let isLngBit = true;
+
+  while (hash.length < precision) {
+    if (isLngBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        charIndex = (charIndex << 1) | 1;
+        lngMin = mid;
+      } else {
+        charIndex = charIndex << 1;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        charIndex = (charIndex << 1) | 1;
+        latMin = mid;
+      } else {
+        charIndex = charIndex << 1;
+        latMax = mid;
+      }
+    }
+
+    isLngBit = !isLngBit;
+    bit += 1;
+
+    if (bit === 5) {
+      hash += BASE32.charAt(charIndex);
+      bit = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Cell size in degrees for a given precision
+ */
+function getCellSizeDegrees(precision: number): { latDeg: number; lngDeg: number } {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return {
+    latDeg: 180 / Math.pow(2, latBits),
+    lngDeg: 360 / Math.pow(2, lngBits),
+  };
+}
+
+/**
+ * Coarsest-useful precision: the finest precision whose cells are still at
+ * least radiusKm wide and tall at the given latitude.
+ */
+export function getGeohashPrecisionForRadius(lat: number, radiusKm: number): number {
+  const cosLat = Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+
+  for (let precision = DRIVER_GEOHASH_PRECISION; precision >= 1; precision -= 1) {
+    const { latDeg, lngDeg } = getCellSizeDegrees(precision);
+    const heightKm = latDeg * KM_PER_DEGREE_LAT;
+    const widthKm = lngDeg * KM_PER_DEGREE_LAT * cosLat;
+    if (heightKm >= radiusKm && widthKm >= radiusKm) {
+      return precision;
+    }
+  }
+
+  return 1;
+}
+
+/**
+ * Prefix ranges (center cell + neighbours) that together cover every point
+ * within radiusKm of center.
+ */
+export function getGeohashQueryRanges(center: LatLng, radiusKm: number): GeohashRange[] {
+  const precision = getGeohashPrecisionForRadius(center.lat, radiusKm);
+  const { latDeg, lngDeg } = getCellSizeDegrees(precision);
+  const prefixes = new Set<string>();
+
+  for (const latStep of [-1, 0, 1]) {
+    for (const lngStep of [-1, 0, 1]) {
+      const lat = Math.max(-90, Math.min(90, center.lat + latStep * latDeg));
+      let lng = center.lng + lngStep * lngDeg;
+      if (lng > 180) lng -= 360;
+      if (lng < -180) lng += 360;
+      prefixes.add(encodeGeohash(lat, lng, precision));
+    }
+  }
+
+  return Array.from(prefixes)
+    .sort()
+    .map((prefix) => ({ start: prefix, end: `${prefix}~` }));
+}
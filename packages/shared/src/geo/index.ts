@@ -0,0 +1,5 @@
+/**
+ * Geo module exports
+ */
+export * from './geohash.utils';
+export * from './route-corridor.utils';
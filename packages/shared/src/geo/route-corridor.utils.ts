@@ -0,0 +1,101 @@
+import { LatLng } from '../schemas/lat-lng.schema';
+
+/**
+ * ============================================================================
+ * ROUTE CORRIDOR UTILITIES
+ * ============================================================================
+ *
+ * Answers "does this point lie along that route?" for shared-seat pooling.
+ * A route is an ordered polyline (at minimum origin → destination).
+ * Points are projected onto the nearest segment using a local
+ * equirectangular approximation, which is accurate to a few metres at
+ * line-taxi distances.
+ *
+ * ============================================================================
+ */
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+/**
+ * Where a point falls relative to a route
+ */
+export interface RouteProjection {
+  /** Perpendicular distance from the route in km */
+  distanceFromRouteKm: number;
+  /** Distance travelled along the route up to the projected point, in km */
+  alongRouteKm: number;
+}
+
+interface PlanarPoint {
+  x: number;
+  y: number;
+}
+
+function toPlanar(point: LatLng, referenceLat: number): PlanarPoint {
+  const kmPerDegreeLng = KM_PER_DEGREE_LAT * Math.cos((referenceLat * Math.PI) / 180);
+  return { x: point.lng * kmPerDegreeLng, y: point.lat * KM_PER_DEGREE_LAT };
+}
+
+/**
+ * Project a point onto the closest segment of a route polyline
+ */
+export function projectOntoRoute(point: LatLng, route: LatLng[]): RouteProjection | null {
+  if (route.length < 2) {
+    return null;
+  }
+
+  const referenceLat = route[0]!.lat;
+  const p = toPlanar(point, referenceLat);
+  let best: RouteProjection | null = null;
+  let travelledKm = 0;
+
+  for (let index = 0; index < route.length - 1; index++) {
+    const a = toPlanar(route[index]!, referenceLat);
+    const b = toPlanar(route[index + 1]!, referenceLat);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const segmentLengthSq = dx * dx + dy * dy;
+    const segmentLength = Math.sqrt(segmentLengthSq);
+
+    const t =
+      segmentLengthSq === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / segmentLengthSq));
+    const projectedX = a.x + t * dx;
+    const projectedY = a.y + t * dy;
+    const distanceFromRouteKm = Math.hypot(p.x - projectedX, p.y - projectedY);
+
+    if (!best || distanceFromRouteKm < best.distanceFromRouteKm) {
+      best = { distanceFromRouteKm, alongRouteKm: travelledKm + t * segmentLength };
+    }
+
+    travelledKm += segmentLength;
+  }
+
+  return best;
+}
+
+/**
+ * True when pickup and dropoff both sit within corridorKm of the route
+ * and the dropoff comes after the pickup in the route's direction.
+ */
+export function isTripAlongRoute(input: {
+  pickup: LatLng;
+  dropoff: LatLng;
+  route: LatLng[];
+  corridorKm: number;
+}): boolean {
+  const pickupProjection = projectOntoRoute(input.pickup, input.route);
+  const dropoffProjection = projectOntoRoute(input.dropoff, input.route);
+
+  if (!pickupProjection || !dropoffProjection) {
+    return false;
+  }
+
+  return (
+    pickupProjection.distanceFromRouteKm <= input.corridorKm &&
+    dropoffProjection.distanceFromRouteKm <= input.corridorKm &&
+    pickupProjection.alongRouteKm < dropoffProjection.alongRouteKm
+  );
+}
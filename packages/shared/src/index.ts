@@ -2,3 +2,4 @@ export * from './config';
 export * from './enums';
 export * from './schemas';
 export * from './pricing';
+export * from './geo';
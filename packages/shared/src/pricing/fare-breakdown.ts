@@ -0,0 +1,203 @@
+/**
+ * ============================================================================
+ * FARE BREAKDOWN
+ * ============================================================================
+ *
+ * Components of a dynamic fare as computed by the backend pricing engine.
+ * Persisted on trips/{tripId} (pricingBreakdown at creation,
+ * finalPricingBreakdown at completion) so receipts and disputes can show
+ * how a price was reached.
+ *
+ * fare = max(minimumFareIls,
+ *            (baseFareIls + timeFareIls + seatSurchargeIls + zoneFlatSurchargeIls)
+ *              × combinedMultiplier)
+ *        - discountIls
+ *        + fareCapAdjustmentIls
+ *        + waitChargeIls
+ *
+ * fareCapAdjustmentIls and waitChargeIls are only set at completion: the
+ * former when the fare recomputed from the driven route was clamped to the
+ * profile's deviation cap, the latter for pickup wait beyond the free
+ * minutes (wait-time.config.ts).
+ *
+ * ============================================================================
+ */
+
+export interface FareBreakdown {
+  profileId: string;
+  /** Profile version priced with; null for unversioned profiles */
+  profileVersion: number | null;
+  baseRatePerKm: number;
+  minimumFareIls: number;
+  roundedDistanceKm: number;
+  baseFareIls: number;
+  ratePerMinuteIls: number;
+  durationMin: number;
+  timeFareIls: number;
+  seatSurchargeIls: number;
+  zoneFlatSurchargeIls: number;
+  vehicleMultiplier: number;
+  peakMultiplier: number;
+  officeMultiplier: number;
+  lineMultiplier: number;
+  zoneMultiplier: number;
+  combinedMultiplier: number;
+  rawFareIls: number;
+  appliedZoneIds: string[];
+  appliedPeakWindowIds: string[];
+  /** Fare after minimum-fare rounding, before any promo */
+  fareBeforeDiscountIls: number;
+  promoCode: string | null;
+  promoRedemptionId: string | null;
+  discountIls: number;
+  /** Difference between the recomputed and the charged fare when capped */
+  fareCapAdjustmentIls: number;
+  /** Pickup wait charge added at completion */
+  waitChargeIls: number;
+}
+
+export type FareBreakdownLineKey =
+  | 'distance'
+  | 'time'
+  | 'seats'
+  | 'zone_surcharge'
+  | 'vehicle'
+  | 'peak'
+  | 'office'
+  | 'line'
+  | 'zone'
+  | 'minimum_fare'
+  | 'discount'
+  | 'fare_cap'
+  | 'wait_charge';
+
+export interface FareBreakdownLine {
+  key: FareBreakdownLineKey;
+  kind: 'amount' | 'multiplier';
+  /** ILS for amounts (negative for discounts), factor for multipliers */
+  value: number;
+}
+
+export const FARE_BREAKDOWN_LABELS: Record<FareBreakdownLineKey, { ar: string; en: string }> = {
+  distance: { ar: 'أجرة المسافة', en: 'Distance fare' },
+  time: { ar: 'أجرة الوقت', en: 'Time fare' },
+  seats: { ar: 'مقاعد إضافية', en: 'Extra seats' },
+  zone_surcharge: { ar: 'رسوم المنطقة', en: 'Zone surcharge' },
+  vehicle: { ar: 'نوع المركبة', en: 'Vehicle type' },
+  peak: { ar: 'وقت الذروة', en: 'Peak hours' },
+  office: { ar: 'تسعيرة المكتب', en: 'Office rate' },
+  line: { ar: 'تسعيرة الخط', en: 'Line rate' },
+  zone: { ar: 'مضاعف المنطقة', en: 'Zone multiplier' },
+  minimum_fare: { ar: 'الحد الأدنى للأجرة', en: 'Minimum fare' },
+  discount: { ar: 'خصم', en: 'Discount' },
+  fare_cap: { ar: 'سقف فرق الأجرة', en: 'Fare cap' },
+  wait_charge: { ar: 'رسوم الانتظار', en: 'Wait charge' },
+};
+
+function roundIls(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Read a persisted breakdown, or null for trips priced before breakdowns
+ * were stored
+ */
+export function toFareBreakdown(value: unknown): FareBreakdown | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Partial<FareBreakdown>;
+  if (!isNumber(data.baseFareIls) || !isNumber(data.combinedMultiplier)) return null;
+
+  const rawFareIls = isNumber(data.rawFareIls) ? data.rawFareIls : 0;
+  return {
+    profileId: typeof data.profileId === 'string' ? data.profileId : 'default',
+    profileVersion: isNumber(data.profileVersion) ? data.profileVersion : null,
+    baseRatePerKm: isNumber(data.baseRatePerKm) ? data.baseRatePerKm : 0,
+    minimumFareIls: isNumber(data.minimumFareIls) ? data.minimumFareIls : 0,
+    roundedDistanceKm: isNumber(data.roundedDistanceKm) ? data.roundedDistanceKm : 0,
+    baseFareIls: data.baseFareIls,
+    ratePerMinuteIls: isNumber(data.ratePerMinuteIls) ? data.ratePerMinuteIls : 0,
+    durationMin: isNumber(data.durationMin) ? data.durationMin : 0,
+    timeFareIls: isNumber(data.timeFareIls) ? data.timeFareIls : 0,
+    seatSurchargeIls: isNumber(data.seatSurchargeIls) ? data.seatSurchargeIls : 0,
+    zoneFlatSurchargeIls: isNumber(data.zoneFlatSurchargeIls) ? data.zoneFlatSurchargeIls : 0,
+    vehicleMultiplier: isNumber(data.vehicleMultiplier) ? data.vehicleMultiplier : 1,
+    peakMultiplier: isNumber(data.peakMultiplier) ? data.peakMultiplier : 1,
+    officeMultiplier: isNumber(data.officeMultiplier) ? data.officeMultiplier : 1,
+    lineMultiplier: isNumber(data.lineMultiplier) ? data.lineMultiplier : 1,
+    zoneMultiplier: isNumber(data.zoneMultiplier) ? data.zoneMultiplier : 1,
+    combinedMultiplier: data.combinedMultiplier,
+    rawFareIls,
+    appliedZoneIds: Array.isArray(data.appliedZoneIds) ? data.appliedZoneIds : [],
+    appliedPeakWindowIds: Array.isArray(data.appliedPeakWindowIds) ? data.appliedPeakWindowIds : [],
+    fareBeforeDiscountIls: isNumber(data.fareBeforeDiscountIls)
+      ? data.fareBeforeDiscountIls
+      : Math.ceil(rawFareIls),
+    promoCode: typeof data.promoCode === 'string' ? data.promoCode : null,
+    promoRedemptionId: typeof data.promoRedemptionId === 'string' ? data.promoRedemptionId : null,
+    discountIls: isNumber(data.discountIls) ? data.discountIls : 0,
+    fareCapAdjustmentIls: isNumber(data.fareCapAdjustmentIls) ? data.fareCapAdjustmentIls : 0,
+    waitChargeIls: isNumber(data.waitChargeIls) ? data.waitChargeIls : 0,
+  };
+}
+
+/**
+ * Receipt lines for a breakdown, skipping neutral components
+ * (zero surcharges, ×1 multipliers)
+ */
+export function getFareBreakdownLines(breakdown: FareBreakdown): FareBreakdownLine[] {
+  const lines: FareBreakdownLine[] = [
+    { key: 'distance', kind: 'amount', value: roundIls(breakdown.baseFareIls) },
+  ];
+
+  if (breakdown.timeFareIls > 0) {
+    lines.push({ key: 'time', kind: 'amount', value: roundIls(breakdown.timeFareIls) });
+  }
+  if (breakdown.seatSurchargeIls > 0) {
+    lines.push({ key: 'seats', kind: 'amount', value: roundIls(breakdown.seatSurchargeIls) });
+  }
+  if (breakdown.zoneFlatSurchargeIls > 0) {
+    lines.push({ key: 'zone_surcharge', kind: 'amount', value: roundIls(breakdown.zoneFlatSurchargeIls) });
+  }
+
+  const multipliers: Array<[FareBreakdownLineKey, number]> = [
+    ['vehicle', breakdown.vehicleMultiplier],
+    ['peak', breakdown.peakMultiplier],
+    ['office', breakdown.officeMultiplier],
+    ['line', breakdown.lineMultiplier],
+    ['zone', breakdown.zoneMultiplier],
+  ];
+  for (const [key, value] of multipliers) {
+    if (value !== 1) {
+      lines.push({ key, kind: 'multiplier', value: Math.round(value * 1000) / 1000 });
+    }
+  }
+
+  if (breakdown.rawFareIls < breakdown.minimumFareIls) {
+    lines.push({ key: 'minimum_fare', kind: 'amount', value: breakdown.minimumFareIls });
+  }
+  if (breakdown.discountIls > 0) {
+    lines.push({ key: 'discount', kind: 'amount', value: -breakdown.discountIls });
+  }
+  if (breakdown.fareCapAdjustmentIls !== 0) {
+    lines.push({ key: 'fare_cap', kind: 'amount', value: roundIls(breakdown.fareCapAdjustmentIls) });
+  }
+  if (breakdown.waitChargeIls > 0) {
+    lines.push({ key: 'wait_charge', kind: 'amount', value: roundIls(breakdown.waitChargeIls) });
+  }
+
+  return lines;
+}
+
+/**
+ * "₪12.5", "-₪5" or "×1.25"
+ */
+export function formatFareBreakdownValue(line: FareBreakdownLine): string {
+  if (line.kind === 'multiplier') {
+    return `×${line.value}`;
+  }
+  return line.value < 0 ? `-₪${Math.abs(line.value)}` : `₪${line.value}`;
+}
@@ -2,3 +2,5 @@
  * Pricing module exports
  */
 export * from './pricing.utils';
+export * from './fare-breakdown';
+export * from './route-fare';
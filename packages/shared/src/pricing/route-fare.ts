@@ -0,0 +1,137 @@
+/**
+ * ============================================================================
+ * ROUTE FARE - Final fare from the driven route
+ * ============================================================================
+ *
+ * While a trip is in progress the backend records the driver's location
+ * trail (trips/{tripId}/routeTrail). At completion the fare is recomputed
+ * from the trail distance and the ride duration with the pricing profile
+ * the trip was quoted with, then settled against the estimate:
+ *
+ * - within the tolerance band  → the estimate is charged unchanged
+ * - beyond the band            → the recomputed fare is charged
+ * - beyond the deviation cap   → the fare is clamped to estimate ± cap
+ *
+ * Band and cap are percentages of the estimate, configurable per pricing
+ * profile by managers; the defaults below apply otherwise.
+ *
+ * ============================================================================
+ */
+
+export const ROUTE_FARE_CONFIG = {
+  /** Deviation (%) from the estimate that is ignored */
+  DEFAULT_TOLERANCE_BAND_PCT: 10,
+  /** Largest deviation (%) from the estimate a passenger can be charged */
+  DEFAULT_MAX_DEVIATION_PCT: 30,
+  /** Upper bound managers can configure for either percentage */
+  MAX_CONFIGURABLE_PCT: 100,
+  /** GPS moves shorter than this are treated as jitter (meters) */
+  TRAIL_MIN_SEGMENT_METERS: 20,
+  /** Segments implying a faster speed are treated as GPS jumps (km/h) */
+  TRAIL_MAX_SPEED_KMH: 160,
+  /** Fewer recorded points than this and the estimate is charged */
+  MIN_TRAIL_POINTS: 2,
+} as const;
+
+export const FARE_ADJUSTMENT_REASONS = {
+  /** Not enough trail to trust a recomputation */
+  NO_TRAIL: 'no_trail',
+  WITHIN_TOLERANCE: 'within_tolerance',
+  ADJUSTED: 'adjusted',
+  CAPPED: 'capped',
+} as const;
+
+export type FareAdjustmentReason =
+  (typeof FARE_ADJUSTMENT_REASONS)[keyof typeof FARE_ADJUSTMENT_REASONS];
+
+/**
+ * Stored on trips/{tripId}.fareAdjustment at completion
+ */
+export interface FareAdjustment {
+  reason: FareAdjustmentReason;
+  estimatedPriceIls: number;
+  /** Fare from the driven route; null when there was no usable trail */
+  recomputedPriceIls: number | null;
+  finalPriceIls: number;
+  /** Signed deviation of the recomputed fare from the estimate (%) */
+  deviationPct: number | null;
+  toleranceBandPct: number;
+  maxDeviationPct: number;
+  actualDistanceKm: number | null;
+  actualDurationMin: number | null;
+  trailPointCount: number;
+}
+
+export interface RouteFarePolicy {
+  toleranceBandPct: number;
+  maxDeviationPct: number;
+}
+
+/**
+ * Clamp a manager-provided policy to sane bounds; the cap is never
+ * narrower than the tolerance band
+ */
+export function normalizeRouteFarePolicy(value: {
+  toleranceBandPct?: unknown;
+  maxDeviationPct?: unknown;
+}): RouteFarePolicy {
+  const clampPct = (input: unknown, fallback: number): number =>
+    typeof input === 'number' && Number.isFinite(input) && input >= 0
+      ? Math.min(input, ROUTE_FARE_CONFIG.MAX_CONFIGURABLE_PCT)
+      : fallback;
+
+  const toleranceBandPct = clampPct(value.toleranceBandPct, ROUTE_FARE_CONFIG.DEFAULT_TOLERANCE_BAND_PCT);
+  const maxDeviationPct = clampPct(value.maxDeviationPct, ROUTE_FARE_CONFIG.DEFAULT_MAX_DEVIATION_PCT);
+  return {
+    toleranceBandPct,
+    maxDeviationPct: Math.max(toleranceBandPct, maxDeviationPct),
+  };
+}
+
+/**
+ * Fare to charge given the estimate and the fare recomputed from the
+ * driven route
+ */
+export function settleRouteFare(
+  estimatedPriceIls: number,
+  recomputedPriceIls: number,
+  policy: RouteFarePolicy
+): { finalPriceIls: number; reason: FareAdjustmentReason; deviationPct: number } {
+  if (!Number.isFinite(estimatedPriceIls) || estimatedPriceIls <= 0) {
+    return {
+      finalPriceIls: recomputedPriceIls,
+      reason: FARE_ADJUSTMENT_REASONS.ADJUSTED,
+      deviationPct: 0,
+    };
+  }
+
+  const deviationPct =
+    Math.round(((recomputedPriceIls - estimatedPriceIls) / estimatedPriceIls) * 10000) / 100;
+
+  if (Math.abs(deviationPct) <= policy.toleranceBandPct) {
+    return {
+      finalPriceIls: estimatedPriceIls,
+      reason: FARE_ADJUSTMENT_REASONS.WITHIN_TOLERANCE,
+      deviationPct,
+    };
+  }
+
+  if (Math.abs(deviationPct) > policy.maxDeviationPct) {
+    const capIls = (estimatedPriceIls * policy.maxDeviationPct) / 100;
+    const finalPriceIls =
+      deviationPct > 0
+        ? Math.floor(estimatedPriceIls + capIls)
+        : Math.ceil(estimatedPriceIls - capIls);
+    return {
+      finalPriceIls: Math.max(0, finalPriceIls),
+      reason: FARE_ADJUSTMENT_REASONS.CAPPED,
+      deviationPct,
+    };
+  }
+
+  return {
+    finalPriceIls: recomputedPriceIls,
+    reason: FARE_ADJUSTMENT_REASONS.ADJUSTED,
+    deviationPct,
+  };
+}
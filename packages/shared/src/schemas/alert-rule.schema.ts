@@ -0,0 +1,296 @@
+import { z } from 'zod';
+import { MANAGER_ROLE_VALUES } from '../config/rbac.config';
+
+/**
+ * ============================================================================
+ * ALERT RULE SCHEMA
+ * ============================================================================
+ *
+ * Firestore Collection: alertRules/{ruleId}
+ *
+ * Ops alerts are driven by rules evaluated by the aggregateOpsMetrics job.
+ * A rule fires when `metric <comparison> threshold` holds and opens
+ * opsAlerts/{ruleId}; it resolves when the condition stops holding.
+ *
+ * - windowMinutes: look-back window for counted metrics (errors, trips
+ *   created/completed/cancelled). Live metrics (online drivers, pending
+ *   trips) are read as of now and ignore it.
+ * - officeId: limits driver and trip metrics to one office. Client error
+ *   metrics are platform-wide and cannot be scoped.
+ * - cooldownMinutes: after firing, the rule cannot fire again until this
+ *   long has passed, even if the alert resolved in between.
+ * - escalationPolicyId: alertEscalationPolicies/{policyId} to follow while
+ *   the alert stays unacknowledged; rules without one use the `default`
+ *   policy when it exists.
+ *
+ * Every firing is logged to alertRules/{ruleId}/firings/{firingId}.
+ *
+ * ============================================================================
+ */
+
+export const ALERT_RULE_METRICS = {
+  ERRORS_TOTAL: 'errors_total',
+  ERRORS_FATAL: 'errors_fatal',
+  ERRORS_ERROR: 'errors_error',
+  ERRORS_WARNING: 'errors_warning',
+  DRIVERS_ONLINE: 'drivers_online',
+  DRIVERS_AVAILABLE: 'drivers_available',
+  TRIPS_PENDING: 'trips_pending',
+  TRIPS_ACTIVE: 'trips_active',
+  TRIPS_PENDING_WITHOUT_DRIVERS: 'trips_pending_without_drivers',
+  TRIPS_CREATED: 'trips_created',
+  TRIPS_COMPLETED: 'trips_completed',
+  TRIPS_CANCELLED: 'trips_cancelled',
+} as const;
+
+export type AlertRuleMetric = typeof ALERT_RULE_METRICS[keyof typeof ALERT_RULE_METRICS];
+
+export const ALERT_RULE_METRIC_VALUES = Object.values(ALERT_RULE_METRICS) as [
+  AlertRuleMetric,
+  ...AlertRuleMetric[],
+];
+
+/**
+ * How each metric is measured. `windowed` metrics count events inside the
+ * rule's window; `officeScoped` metrics can be limited to one office.
+ */
+export const ALERT_RULE_METRIC_INFO: Record<
+  AlertRuleMetric,
+  { label: string; windowed: boolean; officeScoped: boolean }
+> = {
+  errors_total: { label: 'Client errors (all severities)', windowed: true, officeScoped: false },
+  errors_fatal: { label: 'Fatal client errors', windowed: true, officeScoped: false },
+  errors_error: { label: 'Error-level client errors', windowed: true, officeScoped: false },
+  errors_warning: { label: 'Warning-level client errors', windowed: true, officeScoped: false },
+  drivers_online: { label: 'Online drivers', windowed: false, officeScoped: true },
+  drivers_available: { label: 'Available online drivers', windowed: false, officeScoped: true },
+  trips_pending: { label: 'Pending trips', windowed: false, officeScoped: true },
+  trips_active: { label: 'Active trips', windowed: false, officeScoped: true },
+  trips_pending_without_drivers: {
+    label: 'Pending trips with no available driver',
+    windowed: false,
+    officeScoped: true,
+  },
+  trips_created: { label: 'Trips created', windowed: true, officeScoped: true },
+  trips_completed: { label: 'Trips completed', windowed: true, officeScoped: true },
+  trips_cancelled: { label: 'Trips cancelled', windowed: true, officeScoped: true },
+};
+
+export const ALERT_RULE_COMPARISONS = ['gt', 'gte', 'lt', 'lte', 'eq'] as const;
+
+export type AlertRuleComparison = typeof ALERT_RULE_COMPARISONS[number];
+
+export const ALERT_RULE_COMPARISON_SYMBOLS: Record<AlertRuleComparison, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+};
+
+export const ALERT_RULE_LIMITS = {
+  MIN_WINDOW_MINUTES: 5,
+  /** Trip metrics are read from the last 24h of trips */
+  MAX_WINDOW_MINUTES: 24 * 60,
+  MAX_COOLDOWN_MINUTES: 24 * 60,
+} as const;
+
+export type AlertRuleSeverity = 'warning' | 'critical';
+
+/**
+ * Alert rule fields editable by managers
+ */
+export const AlertRuleSchema = z
+  .object({
+    name: z.string().trim().min(1).max(80),
+    metric: z.enum(ALERT_RULE_METRIC_VALUES),
+    comparison: z.enum(ALERT_RULE_COMPARISONS),
+    threshold: z.number().min(0).max(100000),
+    windowMinutes: z
+      .number()
+      .int()
+      .min(ALERT_RULE_LIMITS.MIN_WINDOW_MINUTES)
+      .max(ALERT_RULE_LIMITS.MAX_WINDOW_MINUTES)
+      .default(15),
+    severity: z.enum(['warning', 'critical']).default('warning'),
+    officeId: z.string().trim().min(1).nullable().optional(),
+    cooldownMinutes: z.number().int().min(0).max(ALERT_RULE_LIMITS.MAX_COOLDOWN_MINUTES).default(0),
+    enabled: z.boolean().default(true),
+    escalationPolicyId: z.string().trim().min(1).nullable().optional(),
+  })
+  .refine((rule) => !rule.officeId || ALERT_RULE_METRIC_INFO[rule.metric].officeScoped, {
+    message: 'This metric is platform-wide and cannot be scoped to an office',
+    path: ['officeId'],
+  });
+
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+
+/**
+ * Does `value` trip the rule?
+ */
+export function isAlertRuleTriggered(
+  comparison: AlertRuleComparison,
+  value: number,
+  threshold: number
+): boolean {
+  switch (comparison) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'eq':
+      return value === threshold;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Rules seeded when alertRules is empty. Their ids match the alert ids the
+ * aggregator used before rules were configurable, so open alerts carry over.
+ */
+export const DEFAULT_ALERT_RULES: Array<AlertRule & { ruleId: string }> = [
+  {
+    ruleId: 'fatal_errors',
+    name: 'Fatal client errors detected',
+    metric: 'errors_fatal',
+    comparison: 'gt',
+    threshold: 0,
+    windowMinutes: 15,
+    severity: 'critical',
+    officeId: null,
+    cooldownMinutes: 0,
+    enabled: true,
+  },
+  {
+    ruleId: 'high_error_rate',
+    name: 'High error rate',
+    metric: 'errors_error',
+    comparison: 'gte',
+    threshold: 20,
+    windowMinutes: 15,
+    severity: 'warning',
+    officeId: null,
+    cooldownMinutes: 0,
+    enabled: true,
+  },
+  {
+    ruleId: 'no_online_drivers',
+    name: 'No online drivers',
+    metric: 'drivers_online',
+    comparison: 'eq',
+    threshold: 0,
+    windowMinutes: 15,
+    severity: 'critical',
+    officeId: null,
+    cooldownMinutes: 0,
+    enabled: true,
+  },
+  {
+    ruleId: 'dispatch_starvation',
+    name: 'Dispatch starvation',
+    metric: 'trips_pending_without_drivers',
+    comparison: 'gt',
+    threshold: 0,
+    windowMinutes: 15,
+    severity: 'critical',
+    officeId: null,
+    cooldownMinutes: 0,
+    enabled: true,
+  },
+];
+
+/**
+ * Entry in alertRules/{ruleId}/firings
+ */
+export interface AlertRuleFiring {
+  value: number;
+  threshold: number;
+  comparison: AlertRuleComparison;
+  severity: AlertRuleSeverity;
+  officeId: string | null;
+  firedAt: unknown; // Firestore Timestamp
+  resolvedAt: unknown | null; // Firestore Timestamp
+  /** Metric value when the alert resolved */
+  resolvedValue: number | null;
+}
+
+/**
+ * ============================================================================
+ * ALERT ESCALATION
+ * ============================================================================
+ *
+ * Firestore Collection: alertEscalationPolicies/{policyId}
+ *
+ * A policy is a chain of steps. Once an alert has been open and
+ * unacknowledged for a step's `afterMinutes`, every active manager holding
+ * one of the step's roles (and with access to the rule's office) is
+ * notified on the step's channels. Acknowledging the alert stops the chain.
+ *
+ * Every delivery attempt is logged to
+ * opsAlerts/{alertId}/notifications/{notificationId}.
+ *
+ * ============================================================================
+ */
+
+export const ALERT_NOTIFICATION_CHANNELS = ['push', 'email', 'webhook'] as const;
+
+export type AlertNotificationChannel = typeof ALERT_NOTIFICATION_CHANNELS[number];
+
+/** Policy used by rules that do not name one */
+export const DEFAULT_ALERT_ESCALATION_POLICY_ID = 'default';
+
+export const ALERT_ESCALATION_LIMITS = {
+  MAX_STEPS: 5,
+  MAX_AFTER_MINUTES: 24 * 60,
+} as const;
+
+export const AlertEscalationStepSchema = z.object({
+  /** Minutes after the alert opened */
+  afterMinutes: z.number().int().min(0).max(ALERT_ESCALATION_LIMITS.MAX_AFTER_MINUTES),
+  roles: z.array(z.enum(MANAGER_ROLE_VALUES)).min(1),
+  channels: z.array(z.enum(ALERT_NOTIFICATION_CHANNELS)).min(1),
+});
+
+export type AlertEscalationStep = z.infer<typeof AlertEscalationStepSchema>;
+
+export const AlertEscalationPolicySchema = z
+  .object({
+    name: z.string().trim().min(1).max(80),
+    steps: z.array(AlertEscalationStepSchema).min(1).max(ALERT_ESCALATION_LIMITS.MAX_STEPS),
+    /** Target of the webhook channel */
+    webhookUrl: z.string().trim().url().startsWith('https://').nullable().optional(),
+    enabled: z.boolean().default(true),
+  })
+  .refine(
+    (policy) =>
+      policy.steps.every((step, index) => index === 0 || step.afterMinutes > (policy.steps[index - 1]?.afterMinutes ?? -1)),
+    { message: 'Steps must be in increasing afterMinutes order', path: ['steps'] }
+  )
+  .refine(
+    (policy) => !!policy.webhookUrl || policy.steps.every((step) => !step.channels.includes('webhook')),
+    { message: 'webhookUrl is required when a step uses the webhook channel', path: ['webhookUrl'] }
+  );
+
+export type AlertEscalationPolicy = z.infer<typeof AlertEscalationPolicySchema>;
+
+export type AlertNotificationStatus = 'sent' | 'failed' | 'skipped';
+
+/**
+ * Entry in opsAlerts/{alertId}/notifications
+ */
+export interface AlertNotificationAttempt {
+  policyId: string;
+  /** Index of the escalation step */
+  step: number;
+  channel: AlertNotificationChannel;
+  /** Manager uid, or the webhook host */
+  recipient: string;
+  status: AlertNotificationStatus;
+  error: string | null;
+  attemptedAt: unknown; // Firestore Timestamp
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+/**
+ * Masked contact request from a trip participant
+ */
+export const RequestCallBridgeSchema = z.object({
+  tripId: z.string().min(1),
+});
+
+export type RequestCallBridgeInput = z.infer<typeof RequestCallBridgeSchema>;
@@ -12,6 +12,7 @@ import { VEHICLE_MAX_CAPACITY, VEHICLE_TYPE_VALUES } from '../config/vehicle.con
  * - isOnline: Driver has toggled their status to online
  * - isAvailable: Driver can receive new trip requests (online + not on a trip)
  * - lastLocation: Last known location as GeoPoint
+ * - geohash: Geohash cell of lastLocation (nearby-driver queries)
  * - updatedAt: Timestamp of last update
  * 
  * LIFECYCLE:
@@ -80,6 +81,9 @@ export const DriverSchema = z.object({
     latitude: z.number(),
     longitude: z.number(),
   }).nullable().optional(),
+
+  /** Geohash of lastLocation (precision DRIVER_GEOHASH_PRECISION) */
+  geohash: z.string().optional(),
   
   /** When driver went online (if online) */
   onlineSince: z.date().nullable().optional(),
@@ -90,6 +94,9 @@ export const DriverSchema = z.object({
   /** Current trip ID if on a trip */
   currentTripId: z.string().nullable().optional(),
   
+  /** All accepted, unfinished trips (several when seat-only trips are pooled) */
+  activeTripIds: z.array(z.string()).optional(),
+  
   /** Timestamp of last update */
   updatedAt: z.date(),
 });
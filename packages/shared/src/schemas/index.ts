@@ -1,8 +1,14 @@
+export * from './alert-rule.schema';
+export * from './call-bridge.schema';
 export * from './driver.schema';
 export * from './lat-lng.schema';
 export * from './money.schema';
 export * from './payment.schema';
 export * from './ride-options.schema';
+export * from './settlement.schema';
+export * from './wallet.schema';
 export * from './roadblock.schema';
+export * from './support-ticket.schema';
 export * from './trip.schema';
+export * from './trip-chat.schema';
 export * from './trip-estimate.schema';
@@ -38,8 +38,14 @@ export const PaymentSchema = z.object({
   /** Payment method: cash | card | wallet */
   method: z.enum(['cash', 'card', 'wallet']).default('cash'),
   
-  /** Payment status: pending | paid | failed */
-  status: z.enum(['pending', 'paid', 'failed']).default('pending'),
+  /** Payment status: pending | paid | failed | refunded */
+  status: z.enum(['pending', 'paid', 'failed', 'refunded']).default('pending'),
+
+  /** What the payment is for; missing on older trip fare payments */
+  kind: z.enum(['trip_fare', 'cancellation_fee']).optional(),
+
+  /** Total refunded to the passenger wallet so far */
+  refundedIls: z.number().nonnegative().optional(),
   
   /** Timestamp when payment was created */
   createdAt: z.any(), // Firestore Timestamp
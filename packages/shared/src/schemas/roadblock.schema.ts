@@ -15,6 +15,14 @@ import { z } from 'zod';
  * - closed: Road is completely closed
  * - congested: Road has congestion/slowdowns
  * 
+ * TIME RULES:
+ * - schedule: weekly windows (ops time zone) during which the roadblock is
+ *   closed/congested; it is open outside them. Status flips only at window
+ *   boundaries, so a manual change holds until the next boundary.
+ * - expiresAt: the roadblock opens at this time and its schedule stops.
+ * - nextTransitionAt / nextStatus: maintained by the backend for clients.
+ * Status changes are logged to roadblocks/{id}/history/{entryId}.
+ * 
  * ============================================================================
  */
 
@@ -29,6 +37,23 @@ export const RoadblockStatus = {
 
 export type RoadblockStatus = typeof RoadblockStatus[keyof typeof RoadblockStatus];
 
+/**
+ * Weekly window in the ops time zone. Minutes are from midnight; a window
+ * whose end is not after its start runs past midnight into the next day.
+ */
+export const RoadblockScheduleWindowSchema = z.object({
+  /** 0 = Sunday ... 6 = Saturday (day the window starts) */
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+  startMinute: z.number().int().min(0).max(1439),
+  endMinute: z.number().int().min(0).max(1439),
+  status: z.enum(['closed', 'congested']).default('closed'),
+});
+
+export type RoadblockScheduleWindow = z.infer<typeof RoadblockScheduleWindowSchema>;
+
+/** Roadblocks within this long of opening are shown as "expiring soon" */
+export const ROADBLOCK_EXPIRING_SOON_MINUTES = 30;
+
 /**
  * Roadblock document schema
  */
@@ -57,6 +82,18 @@ export const RoadblockSchema = z.object({
   /** Optional note/description */
   note: z.string().optional(),
   
+  /** Recurring closure windows (empty = status is set by hand) */
+  schedule: z.array(RoadblockScheduleWindowSchema).max(14).optional(),
+  
+  /** When the roadblock opens for good (Firestore Timestamp) */
+  expiresAt: z.any().optional(),
+  
+  /** Next automatic status change (written by the backend) */
+  nextTransitionAt: z.any().optional(),
+  
+  /** Status the roadblock takes at nextTransitionAt */
+  nextStatus: z.enum(['open', 'closed', 'congested']).nullable().optional(),
+  
   /** Timestamp of last update */
   updatedAt: z.any(), // Firestore Timestamp
   
@@ -80,6 +117,8 @@ export const CreateRoadblockSchema = RoadblockSchema.omit({
   updatedAt: true,
   createdAt: true,
   updatedBy: true,
+  nextTransitionAt: true,
+  nextStatus: true,
 }).extend({
   status: z.enum(['open', 'closed', 'congested']).default('closed'),
 });
@@ -97,6 +136,94 @@ export const UpdateRoadblockSchema = RoadblockSchema.partial().omit({
 
 export type UpdateRoadblock = z.infer<typeof UpdateRoadblockSchema>;
 
+/**
+ * Entry in roadblocks/{id}/history, written on every status change
+ */
+export interface RoadblockHistoryEntry {
+  fromStatus: RoadblockStatus | null;
+  toStatus: RoadblockStatus;
+  /** schedule | expired | driver_reports | manual */
+  reason: string;
+  /** Manager uid, or 'system' for automatic changes */
+  changedBy: string;
+  changedAt: unknown; // Firestore Timestamp
+}
+
+/**
+ * Roadblock a trip's route passes through, as shown to passengers and
+ * drivers. Only closed and congested roadblocks affect routes.
+ */
+export interface RouteRoadblock {
+  id: string;
+  name: string;
+  status: 'closed' | 'congested';
+}
+
+/**
+ * ============================================================================
+ * ROADBLOCK REPORTS
+ * ============================================================================
+ *
+ * Firestore Collection: roadblockReports/{id}
+ *
+ * Drivers report checkpoints from the map. Reports close to each other are
+ * folded into one pending report whose confidence grows with every distinct
+ * driver who confirms it. Managers approve (creates a roadblock), merge
+ * (updates an existing roadblock) or reject. Pending reports nobody
+ * re-confirms expire.
+ *
+ * ============================================================================
+ */
+
+/**
+ * Roadblock report review states
+ */
+export const RoadblockReportStatus = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  MERGED: 'merged',
+  REJECTED: 'rejected',
+  EXPIRED: 'expired',
+} as const;
+
+export type RoadblockReportStatus = typeof RoadblockReportStatus[keyof typeof RoadblockReportStatus];
+
+export const ROADBLOCK_REPORT_RULES = {
+  /** Reports closer than this to a pending report confirm it instead of opening a new one */
+  DEDUPE_RADIUS_METERS: 250,
+  /** A pending report expires this long after its last confirmation */
+  EXPIRY_MINUTES: 45,
+  /** Distinct reporters needed for full confidence */
+  FULL_CONFIDENCE_REPORTERS: 3,
+  /** Driver notes kept per report */
+  MAX_NOTES: 5,
+} as const;
+
+/**
+ * Driver report payload (reportRoadblock callable)
+ */
+export const ReportRoadblockSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  status: z.enum(['closed', 'congested']),
+  note: z.string().trim().max(200).optional(),
+});
+
+export type ReportRoadblock = z.infer<typeof ReportRoadblockSchema>;
+
+/**
+ * Confidence (0-1) of a report from its per-driver votes.
+ * Grows with distinct reporters and drops when they disagree on the status.
+ */
+export function calculateRoadblockReportConfidence(closedVotes: number, congestedVotes: number): number {
+  const total = closedVotes + congestedVotes;
+  if (total <= 0) return 0;
+
+  const coverage = Math.min(1, total / ROADBLOCK_REPORT_RULES.FULL_CONFIDENCE_REPORTERS);
+  const agreement = Math.max(closedVotes, congestedVotes) / total;
+  return Math.round(coverage * agreement * 100) / 100;
+}
+
 /**
  * Get display info for roadblock status
  */
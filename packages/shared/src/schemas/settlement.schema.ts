@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { SETTLEMENT_RULES } from '../config/settlement.config';
+
+/**
+ * Cash a driver handed over to their office
+ */
+export const RecordCashHandoverSchema = z.object({
+  driverId: z.string().trim().min(1),
+  amountIls: z.number().positive().max(SETTLEMENT_RULES.MAX_HANDOVER_ILS),
+  note: z.string().trim().max(300).optional(),
+});
+
+export type RecordCashHandoverInput = z.infer<typeof RecordCashHandoverSchema>;
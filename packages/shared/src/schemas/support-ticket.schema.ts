@@ -0,0 +1,97 @@
+import { z } from 'zod';
+
+/**
+ * ============================================================================
+ * SUPPORT TICKET SCHEMA
+ * ============================================================================
+ *
+ * Firestore Collection: supportTickets/{ticketId}
+ * Thread:               supportTickets/{ticketId}/messages/{messageId}
+ *
+ * LIFECYCLE:
+ * - open: new or reopened, nobody owns it
+ * - assigned: a support staff member owns it
+ * - waiting_on_user: staff replied and needs an answer from the user
+ * - resolved: staff consider it solved; a user reply reopens it
+ * - closed: final, no more replies
+ *
+ * A user reply moves a waiting or resolved ticket back to assigned (or open
+ * when nobody owns it). Status changes are logged to the thread as system
+ * messages.
+ *
+ * SOURCES:
+ * - mobile: opened by a passenger or driver; visible to them
+ * - quality: opened by the rating quality checks; staff only
+ *
+ * ============================================================================
+ */
+
+export const SupportTicketStatus = {
+  OPEN: 'open',
+  ASSIGNED: 'assigned',
+  WAITING_ON_USER: 'waiting_on_user',
+  RESOLVED: 'resolved',
+  CLOSED: 'closed',
+} as const;
+
+export type SupportTicketStatus = (typeof SupportTicketStatus)[keyof typeof SupportTicketStatus];
+
+export const SupportTicketStatusSchema = z.enum(['open', 'assigned', 'waiting_on_user', 'resolved', 'closed']);
+
+/** Statuses staff still have to act on */
+export const ACTIVE_SUPPORT_TICKET_STATUSES: SupportTicketStatus[] = [
+  SupportTicketStatus.OPEN,
+  SupportTicketStatus.ASSIGNED,
+  SupportTicketStatus.WAITING_ON_USER,
+];
+
+/** Status changes staff may make by hand */
+export const SUPPORT_TICKET_TRANSITIONS: Record<SupportTicketStatus, readonly SupportTicketStatus[]> = {
+  open: ['assigned', 'waiting_on_user', 'resolved', 'closed'],
+  assigned: ['open', 'waiting_on_user', 'resolved', 'closed'],
+  waiting_on_user: ['open', 'assigned', 'resolved', 'closed'],
+  resolved: ['open', 'assigned', 'closed'],
+  closed: [],
+};
+
+export function canTransitionSupportTicket(from: SupportTicketStatus, to: SupportTicketStatus): boolean {
+  return SUPPORT_TICKET_TRANSITIONS[from].includes(to);
+}
+
+export const SUPPORT_TICKET_CATEGORIES = ['trip', 'payment', 'safety', 'technical', 'other'] as const;
+
+export type SupportTicketCategory = (typeof SUPPORT_TICKET_CATEGORIES)[number];
+
+export const SUPPORT_TICKET_SOURCES = ['mobile', 'quality'] as const;
+
+export type SupportTicketSource = (typeof SUPPORT_TICKET_SOURCES)[number];
+
+/** Who wrote a thread message; `system` entries record status changes */
+export type SupportTicketAuthorRole = 'user' | 'staff' | 'system';
+
+export const SUPPORT_TICKET_LIMITS = {
+  SUBJECT_MAX_LENGTH: 120,
+  MESSAGE_MAX_LENGTH: 2000,
+} as const;
+
+/**
+ * Ticket opened from a mobile app
+ */
+export const CreateSupportTicketSchema = z.object({
+  tripId: z.string().min(1).optional(),
+  category: z.enum(SUPPORT_TICKET_CATEGORIES),
+  subject: z.string().trim().min(3).max(SUPPORT_TICKET_LIMITS.SUBJECT_MAX_LENGTH),
+  message: z.string().trim().min(5).max(SUPPORT_TICKET_LIMITS.MESSAGE_MAX_LENGTH),
+});
+
+export type CreateSupportTicketInput = z.infer<typeof CreateSupportTicketSchema>;
+
+/**
+ * Reply on a ticket thread
+ */
+export const SupportTicketReplySchema = z.object({
+  ticketId: z.string().min(1),
+  message: z.string().trim().min(1).max(SUPPORT_TICKET_LIMITS.MESSAGE_MAX_LENGTH),
+});
+
+export type SupportTicketReplyInput = z.infer<typeof SupportTicketReplySchema>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { TRIP_CHAT_QUICK_REPLY_IDS, TRIP_CHAT_RULES } from '../config/trip-chat.config';
+
+/**
+ * ============================================================================
+ * TRIP CHAT SCHEMA
+ * ============================================================================
+ *
+ * Firestore Collection: trips/{tripId}/messages/{messageId}
+ * Moderation originals:  trips/{tripId}/chatModeration/{messageId}
+ * Archive:               tripChatArchives/{tripId}
+ *
+ * ============================================================================
+ */
+
+/**
+ * Message sent through the sendTripChatMessage callable: free text, a quick
+ * reply id, or both (the quick reply wins)
+ */
+export const SendTripChatMessageSchema = z
+  .object({
+    tripId: z.string().min(1),
+    text: z.string().trim().max(TRIP_CHAT_RULES.MAX_MESSAGE_LENGTH).optional(),
+    quickReplyId: z.enum(TRIP_CHAT_QUICK_REPLY_IDS).optional(),
+  })
+  .refine((value) => Boolean(value.quickReplyId) || Boolean(value.text), {
+    message: 'Message text or a quick reply is required',
+    path: ['text'],
+  });
+
+export type SendTripChatMessageRequest = z.infer<typeof SendTripChatMessageSchema>;
@@ -11,6 +11,8 @@ export const TripEstimateSchema = z.object({
   durationMin: z.number().positive(),
   /** Price in Israeli Shekels */
   priceIls: z.number().positive().int(),
+  /** Closed/congested roadblocks on the estimated route (see RouteRoadblock) */
+  roadblockIds: z.array(z.string().min(1)).max(20).optional(),
 });
 
 export type TripEstimate = z.infer<typeof TripEstimateSchema>;
@@ -1,8 +1,13 @@
 import { z } from 'zod';
 import { BOOKING_TYPE_VALUES, BookingType } from '../config/booking.config';
+import { MATCHING_STRATEGY_VALUES } from '../config/matching.config';
+import { CANCELLATION_FEE_REASONS } from '../config/cancellation.config';
+import { PAYMENT_METHOD_VALUES } from '../config/payment.config';
+import { FARE_COLLECTORS } from '../config/settlement.config';
 import { PaymentMethod, PaymentStatus } from '../enums/payment-status.enum';
 import { TripStatusSchema } from '../enums/trip-status.enum';
 import { VEHICLE_MAX_CAPACITY, VEHICLE_TYPE_VALUES } from '../config/vehicle.config';
+import { FareBreakdown } from '../pricing/fare-breakdown';
 
 /**
  * ============================================================================
@@ -26,8 +31,8 @@ import { VEHICLE_MAX_CAPACITY, VEHICLE_TYPE_VALUES } from '../config/vehicle.con
  * Trip payment schema
  */
 export const TripPaymentSchema = z.object({
-  /** Payment method (default: cash) */
-  paymentMethod: z.enum(['cash']).default('cash'),
+  /** Payment method (default: cash); card and wallet need paymentsEnabled */
+  paymentMethod: z.enum(PAYMENT_METHOD_VALUES).default('cash'),
   
   /** Fare amount in ILS */
   fareAmount: z.number().nonnegative(),
@@ -122,13 +127,31 @@ export const TripSchema = z.object({
   /** Matched driver's route/profile context */
   matchedLineNumber: z.string().nullable().optional(),
   matchedRoutePath: z.string().nullable().optional(),
+
+  /** Driver ranking strategy used for every offer of this trip */
+  matchingStrategy: z.enum(MATCHING_STRATEGY_VALUES as [string, ...string[]]).optional(),
+
+  /** Number of drivers this trip has been offered to (first offer = 1) */
+  dispatchAttempts: z.number().int().min(1).optional(),
+
+  /** Drivers that rejected or let the offer expire; never re-offered */
+  declinedDriverIds: z.array(z.string()).optional(),
+
+  /** Seat-only trip this one was pooled onto (same driver, same route); null when not pooled */
+  poolAnchorTripId: z.string().nullable().optional(),
+
+  /** Fare components quoted at creation (see pricing/fare-breakdown.ts) */
+  pricingBreakdown: z.custom<FareBreakdown>().nullable().optional(),
+
+  /** Fare components actually charged, written at completion */
+  finalPricingBreakdown: z.custom<FareBreakdown>().nullable().optional(),
   
   // ========================
   // PAYMENT FIELDS
   // ========================
   
-  /** Payment method (default: cash) */
-  paymentMethod: z.enum(['cash']).default('cash'),
+  /** Payment method (default: cash); card and wallet need paymentsEnabled */
+  paymentMethod: z.enum(PAYMENT_METHOD_VALUES).default('cash'),
   
   /** Final fare amount in ILS (may differ from estimate) */
   fareAmount: z.number().nonnegative(),
@@ -138,6 +161,42 @@ export const TripSchema = z.object({
   
   /** Timestamp when payment was collected */
   paidAt: z.date().nullable().optional(),
+
+  /** paymentAuthorizations/{id} holding the card or wallet funds; null for cash */
+  paymentAuthorizationId: z.string().nullable().optional(),
+
+  /** Who holds a card/wallet fare once the charge was attempted (settlement ledger) */
+  fareCollectedBy: z.enum([FARE_COLLECTORS.DRIVER, FARE_COLLECTORS.OFFICE]).optional(),
+
+  /** Fee charged for a late cancel or no-show (see cancellation.config.ts) */
+  cancellationFeeIls: z.number().nonnegative().optional(),
+
+  /** Why the cancellation fee applied */
+  cancellationFeeReason: z.enum(CANCELLATION_FEE_REASONS).optional(),
+
+  /** pending while any of the fee is still owed */
+  cancellationFeeStatus: z.enum(['pending', 'charged']).optional(),
+
+  /** Part of the fee collected from the card or wallet */
+  cancellationFeeCollectedIls: z.number().nonnegative().optional(),
+
+  /** Wait charge rules copied at driverArrived (see wait-time.config.ts) */
+  waitTimePolicy: z
+    .object({
+      freeWaitSeconds: z.number().nonnegative(),
+      perMinuteIls: z.number().nonnegative(),
+      maxChargeIls: z.number().nonnegative(),
+    })
+    .optional(),
+
+  /** Seconds after arrivedAt from which the driver can mark a passenger no-show */
+  noShowWaitSeconds: z.number().nonnegative().optional(),
+
+  /** Seconds the driver waited at pickup, fixed at startTrip */
+  waitTimeSeconds: z.number().nonnegative().optional(),
+
+  /** Wait charge added to the final fare */
+  waitChargeIls: z.number().nonnegative().optional(),
   
   // ========================
   // TIMESTAMPS
@@ -151,6 +210,9 @@ export const TripSchema = z.object({
   
   /** When driver arrived at pickup */
   arrivedAt: z.date().nullable().optional(),
+
+  /** When the passenger reported the accepted driver as not moving */
+  driverNotMovingReportedAt: z.date().nullable().optional(),
   
   /** When trip started (passenger picked up) */
   startedAt: z.date().nullable().optional(),
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { WALLET_RULES } from '../config/wallet.config';
+
+/**
+ * Cash a passenger paid into their wallet at an office desk
+ */
+export const TopUpWalletSchema = z.object({
+  passengerId: z.string().trim().min(1),
+  amountIls: z.number().positive().max(WALLET_RULES.MAX_TOPUP_ILS),
+  officeId: z.string().trim().min(1).optional(),
+  note: z.string().trim().max(300).optional(),
+});
+
+export type TopUpWalletInput = z.infer<typeof TopUpWalletSchema>;
+
+/**
+ * Refund of a disputed fare to the passenger's wallet; omit amountIls to
+ * refund whatever is still refundable
+ */
+export const RefundTripFareSchema = z.object({
+  tripId: z.string().trim().min(1),
+  amountIls: z.number().positive().optional(),
+  reason: z.string().trim().min(3).max(500),
+});
+
+export type RefundTripFareInput = z.infer<typeof RefundTripFareSchema>;